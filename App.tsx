@@ -24,7 +24,7 @@ import { toast } from 'sonner';
 import LiquidBentoTradingInterface from './components/LiquidBentoTradingInterface';
 // import TradingInterface from './components/TradingInterface';
 // Web3 providers moved to archive for frontend-focused development
-// import { web3Manager } from './utils/web3Utils';
+import { getChainAdapter } from './services/ChainAdapter';
 // import RiverBitWeb3Provider, { useRiverBitWeb3 } from './providers/RiverBitWeb3Provider';
 
 // 新用户体验组件 - 已禁用，用户不喜欢
@@ -84,7 +84,7 @@ const App = () => {
   // 处理钱包连接
   const handleNavWalletConnect = async () => {
     try {
-      const { address } = await web3Manager.connectWallet();
+      const { address } = await getChainAdapter().connect();
       setWeb3Connected(true);
       setWeb3Address(address);
       // 标记钱包已连接（新用户体验） - 已禁用
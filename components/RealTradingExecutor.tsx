@@ -23,6 +23,9 @@ import { formatUSDC, parseUSDC } from '../utils/contractConfig';
 import { TradeData, TradeCompleteCallback, TradeErrorCallback } from '../types/trading';
 import { handleTradingError, handleWeb3Error, logError } from '../utils/errorHandling';
 import { type OrderType, type MarginMode } from '../constants/contractConstants';
+import { useOrderCheck } from '../hooks/useOrderCheck';
+import OrderCheckNotice from './trading/OrderCheckNotice';
+import type { Address } from 'viem';
 import { toast } from 'sonner';
 
 interface RealTradingExecutorProps {
@@ -91,6 +94,20 @@ const RealTradingExecutor: React.FC<RealTradingExecutorProps> = ({
   // Get current position for this symbol
   const currentPosition = positions.find(pos => pos.market === symbol);
 
+  // Order gateway verdict; amount is a USD notional
+  const orderCheck = useOrderCheck(amount && parseFloat(amount) > 0 ? {
+    userAddress: address as Address | undefined,
+    market: symbol,
+    side,
+    size: amount,
+    sizeUnit: 'quote',
+    price: type === 'limit' ? price : undefined,
+    orderType: type as OrderType,
+    leverage,
+    marginMode,
+    source: 'trading_form'
+  } : null);
+
   // Clear error when component remounts
   useEffect(() => {
     setError(null);
@@ -133,6 +150,11 @@ const RealTradingExecutor: React.FC<RealTradingExecutorProps> = ({
       return { valid: false, error: 'Invalid limit price' };
     }
 
+    // 订单网关：市场规格、杠杆上限、风控参数
+    if (orderCheck && !orderCheck.accepted) {
+      return { valid: false, error: orderCheck.rejections[0].message };
+    }
+
     // 检查钱包连接
     if (!isConnected) {
       return { valid: false, error: '💳 Please connect your wallet\nClick "Connect Wallet" button to continue.' };
@@ -208,10 +230,12 @@ const RealTradingExecutor: React.FC<RealTradingExecutorProps> = ({
         market: symbol,
         side: side,
         size: amount,
+        sizeUnit: 'quote' as const,
         price: type === 'limit' ? price : undefined,
         orderType: type as OrderType,
         marginMode: marginMode as MarginMode,
-        leverage: leverage
+        leverage: leverage,
+        source: 'trading_form' as const
       };
 
       console.log('Executing trade with params:', tradeParams);
@@ -294,6 +318,7 @@ const RealTradingExecutor: React.FC<RealTradingExecutorProps> = ({
             <AlertDescription>{error}</AlertDescription>
           </Alert>
         )}
+        <OrderCheckNotice result={orderCheck} />
 
         {/* 钱包连接状态 */}
         {!isConnected ? (
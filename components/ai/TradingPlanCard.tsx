@@ -8,8 +8,9 @@ import { Card, CardContent } from '../ui/card';
 import { Button } from '../ui/button';
 import { Badge } from '../ui/badge';
 import { Slider } from '../ui/slider';
-import { ChevronDown, ChevronRight, TrendingUp, TrendingDown, Clock, Target, Shield, DollarSign, Zap, Play, Settings } from 'lucide-react';
+import { ChevronDown, ChevronRight, TrendingUp, TrendingDown, Clock, Target, Shield, DollarSign, Zap, Play, Settings, Download, ShieldCheck } from 'lucide-react';
 import { toast } from 'sonner';
+import { riskManager } from '../../services/RiskManagementEngine';
 
 export interface TradingPlan {
   id: string;
@@ -62,6 +63,36 @@ export const TradingPlanCard: React.FC<TradingPlanCardProps> = ({
   const [isCustomizing, setIsCustomizing] = useState(false);
   const [localPlan, setLocalPlan] = useState(plan);
 
+  // 用存证记录中的盐重新计算承诺并恢复签名者；计划被修改后将不再匹配
+  const handleVerifyProof = async () => {
+    if (!localPlan.hash) return;
+    const result = await riskManager.verifyProof(localPlan.hash, localPlan);
+    if (result.valid) {
+      toast.success(`存证有效，签名者 ${result.recoveredSigner}`);
+    } else {
+      toast.error(`存证校验失败：${result.errors.join('；')}`);
+    }
+  };
+
+  // 导出即公开计划和盐，任何人都可以离线校验
+  const handleExportProof = () => {
+    if (!localPlan.hash) return;
+    const bundle = riskManager.exportProofBundle(localPlan.hash);
+    if (!bundle) {
+      toast.error('本地没有该计划的存证记录');
+      return;
+    }
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `plan_proof_${bundle.message.planId}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   // 风险级别颜色映射
   const getRiskColor = (level: string) => {
     switch (level) {
@@ -277,6 +308,23 @@ export const TradingPlanCard: React.FC<TradingPlanCardProps> = ({
           </div>
         </div>
 
+        {/* 存证：校验当前计划与承诺是否一致，或导出可离线验证的存证包 */}
+        {localPlan.hash && (
+          <div className="flex items-center justify-between bg-slate-800/30 rounded p-2 text-xs text-gray-400">
+            <span className="font-mono">存证 {localPlan.hash.slice(0, 10)}…{localPlan.hash.slice(-6)}</span>
+            <div className="flex gap-1">
+              <Button onClick={handleVerifyProof} variant="ghost" size="sm" className="h-6 px-2 text-gray-300 hover:bg-slate-800">
+                <ShieldCheck className="w-3 h-3 mr-1" />
+                验证
+              </Button>
+              <Button onClick={handleExportProof} variant="ghost" size="sm" className="h-6 px-2 text-gray-300 hover:bg-slate-800">
+                <Download className="w-3 h-3 mr-1" />
+                导出
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* 操作按钮 */}
         <div className="flex gap-2 pt-2 border-t border-slate-700/30">
           <Button
@@ -1,5 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { toast } from 'sonner';
+import { useAccount } from 'wagmi';
+import type { Address } from 'viem';
 import { 
   Keyboard, 
   Target, 
@@ -22,6 +24,8 @@ import {
 import LiquidGlassCard from '../ui/LiquidGlassCard';
 import { Button } from '../ui/button';
 import { Badge } from '../ui/badge';
+import { killSwitch } from '../../services/KillSwitch';
+import { orderGateway } from '../../services/OrderGateway';
 
 interface TradingAction {
   id: string;
@@ -49,6 +53,8 @@ interface ProfessionalTradingHotkeysProps {
   onSwitchTimeframe?: (direction: 'up' | 'down') => void;
   onToggleDataFeed?: () => void;
   onEmergencyStop?: () => void;
+  userAddress?: Address; // Defaults to the connected wallet
+  market?: string; // Market that risk-adding hotkeys trade; checked against the order gateway
   currentSide: 'buy' | 'sell';
   isDataPaused: boolean;
   hasPosition: boolean;
@@ -68,6 +74,8 @@ const ProfessionalTradingHotkeys: React.FC<ProfessionalTradingHotkeysProps> = ({
   onSwitchTimeframe,
   onToggleDataFeed,
   onEmergencyStop,
+  userAddress,
+  market,
   currentSide = 'buy',
   isDataPaused = false,
   hasPosition = false,
@@ -77,6 +85,44 @@ const ProfessionalTradingHotkeys: React.FC<ProfessionalTradingHotkeysProps> = ({
   const [isLocked, setIsLocked] = useState(false);
   const [lastAction, setLastAction] = useState<string>('');
   const [keyPressVisual, setKeyPressVisual] = useState<string>('');
+  const { address: connectedAddress } = useAccount();
+  const accountAddress = userAddress ?? connectedAddress;
+
+  // Double ESC is the confirmation, so the kill switch runs without asking again
+  const runEmergencyStop = async () => {
+    onEmergencyStop?.();
+    if (!accountAddress) {
+      toast.error('🚨 Emergency stop unavailable - no wallet connected');
+      return;
+    }
+
+    setLastAction('Emergency stop activated');
+    try {
+      const entry = await killSwitch.emergencyStopAll(accountAddress, 'Emergency stop hotkey', {
+        trigger: 'hotkey',
+        confirmed: true
+      });
+      if (entry.status === 'executed' || entry.status === 'no_positions') {
+        toast.error(`🚨 Emergency stop activated - ${entry.message}, trading locked`);
+      } else {
+        toast.error(`🚨 Emergency stop ${entry.status}: ${entry.message}`);
+      }
+    } catch (error) {
+      toast.error(`🚨 Emergency stop failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  // Hotkeys that add risk pass the gateway's size-independent checks first;
+  // without a market only the account-wide locks and loss limits apply
+  const passesOrderGateway = (label: string): boolean => {
+    const rejections = market
+      ? orderGateway.checkAccess(market, accountAddress)
+      : orderGateway.checkAccountAccess(accountAddress);
+    if (rejections.length === 0) return true;
+    setLastAction(`${label} rejected`);
+    toast.error(`⛔ ${label} rejected: ${rejections[0].message}`);
+    return false;
+  };
 
   // Professional trading hotkey definitions
   const tradingActions: TradingAction[] = [
@@ -91,9 +137,7 @@ const ProfessionalTradingHotkeys: React.FC<ProfessionalTradingHotkeysProps> = ({
       professional: true,
       icon: <X className="w-4 h-4" />,
       action: () => {
-        onEmergencyStop?.();
-        setLastAction('Emergency stop activated');
-        toast.error('🚨 Emergency stop activated - All positions closed');
+        void runEmergencyStop();
       },
       enabled: hasPosition
     },
@@ -183,6 +227,7 @@ const ProfessionalTradingHotkeys: React.FC<ProfessionalTradingHotkeysProps> = ({
       professional: true,
       icon: <Move className="w-4 h-4" />,
       action: () => {
+        if (!passesOrderGateway('Flip position')) return;
         onFlipPosition?.();
         setLastAction('Flipped position');
         toast.success('🔄 Position flipped');
@@ -248,6 +293,7 @@ const ProfessionalTradingHotkeys: React.FC<ProfessionalTradingHotkeysProps> = ({
       professional: true,
       icon: <TrendingUp className="w-4 h-4" />,
       action: () => {
+        if (!passesOrderGateway('Add to position')) return;
         onAddToPosition?.();
         setLastAction('Added to position');
         toast.success('➕ Added to position');
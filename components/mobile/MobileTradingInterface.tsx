@@ -14,6 +14,9 @@ import {
   Eye,
   EyeOff
 } from 'lucide-react';
+import type { Address } from 'viem';
+import { useOrderCheck } from '../../hooks/useOrderCheck';
+import OrderCheckNotice from '../trading/OrderCheckNotice';
 
 interface MobileTradingInterfaceProps {
   symbol: string;
@@ -24,6 +27,7 @@ interface MobileTradingInterfaceProps {
   orders?: any[];
   isConnected?: boolean;
   onConnect?: () => void;
+  userAddress?: Address;
   className?: string;
 }
 
@@ -36,6 +40,7 @@ const MobileTradingInterface: React.FC<MobileTradingInterfaceProps> = ({
   orders = [],
   isConnected = false,
   onConnect,
+  userAddress,
   className
 }) => {
   const [activeTab, setActiveTab] = useState<'trade' | 'positions' | 'orderbook' | 'chart'>('trade');
@@ -50,6 +55,19 @@ const MobileTradingInterface: React.FC<MobileTradingInterfaceProps> = ({
   const [quickAmountPercent, setQuickAmountPercent] = useState(0);
   const [showAdvanced, setShowAdvanced] = useState(false);
 
+  // 订单网关检查（数量为基础资产单位）
+  const orderCheck = useOrderCheck(parseFloat(tradeData.amount) > 0 ? {
+    userAddress,
+    market: symbol,
+    side: tradeData.side,
+    size: tradeData.amount,
+    price: tradeData.orderType === 'limit' ? tradeData.price : undefined,
+    referencePrice: currentPrice,
+    orderType: tradeData.orderType,
+    leverage: tradeData.leverage,
+    source: 'mobile'
+  } : null);
+
   // 格式化价格显示
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -76,12 +94,19 @@ const MobileTradingInterface: React.FC<MobileTradingInterfaceProps> = ({
       return;
     }
     
-    if (!tradeData.amount || parseFloat(tradeData.amount) <= 0) {
+    if (!orderCheck?.accepted || !orderCheck.order) {
       return;
     }
 
     try {
-      await onTrade?.(tradeData);
+      // 按网关取整后的数量和价格提交
+      const { order } = orderCheck;
+      await onTrade?.({
+        ...tradeData,
+        amount: order.size.toString(),
+        price: order.price !== undefined ? order.price.toString() : tradeData.price,
+        market: order.market
+      });
       setTradeData(prev => ({ ...prev, amount: '', price: '' }));
       setQuickAmountPercent(0);
     } catch (error) {
@@ -330,9 +355,12 @@ const MobileTradingInterface: React.FC<MobileTradingInterfaceProps> = ({
                 </div>
               </div>
 
+              <OrderCheckNotice result={orderCheck} />
+
               {/* 交易按钮 */}
               <button
                 onClick={handleTrade}
+                disabled={isConnected && orderCheck !== null && !orderCheck.accepted}
                 className={cn(
                   'w-full h-14 rounded-xl font-bold text-lg tracking-wide',
                   'transition-all duration-200 transform active:scale-98',
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Card } from '../ui/card';
 import { Button } from '../ui/button';
 import { Badge } from '../ui/badge';
@@ -7,12 +7,16 @@ import { Alert, AlertDescription } from '../ui/alert';
 import { 
   Droplets, AlertTriangle, Crown, Shield,
   BarChart3, Plus, Minus, Clock, PieChart, Globe,
-  Target
+  Target, Activity
 } from 'lucide-react';
 import LiquidGlassCard from '../ui/LiquidGlassCard';
 import { BentoGrid, BentoCard } from '../ui/BentoGrid';
 import { poolData, userData, marketStatus, getRiskStatus } from '../../data/riverPoolData';
 import { handleDeposit, handleWithdraw } from '../../utils/riverPoolHelpers';
+import { withdrawalQueue } from '../../services/WithdrawalQueue';
+import { poolAccounting } from '../../services/PoolAccounting';
+import { usePoolAccounting } from '../../hooks/usePoolAccounting';
+import { RISK_THRESHOLDS } from '../../constants/riverPoolConstants';
 import { OverviewTab } from '../riverpool/OverviewTab';
 import { DepositTab } from '../riverpool/DepositTab';
 import { WithdrawTab } from '../riverpool/WithdrawTab';
@@ -21,6 +25,10 @@ import { HistoryTab } from '../riverpool/HistoryTab';
 import { AnalyticsTab } from '../riverpool/AnalyticsTab';
 import { XStockTab } from '../riverpool/XStockTab';
 import { FoundationLPTab } from '../riverpool/FoundationLPTab';
+import RiskMonitoringDashboard, {
+  type PoolData as RiskPoolData,
+  type PoolExposure
+} from '../riverpool/RiskMonitoringDashboard';
 
 
 interface RiverPoolPageProps {
@@ -51,8 +59,41 @@ const RiverPoolPage: React.FC<RiverPoolPageProps> = ({
 
   const riskStatus = getRiskStatus(poolData);
 
+  // 风险监控：以池子账本的实时状态作为唯一的池子
+  const { nav, share } = usePoolAccounting(web3Connected && web3Address ? web3Address : null);
+  const { riskPools, poolExposure } = useMemo(() => {
+    const positions = poolAccounting.getPositions();
+    const { netExposure, drawdown } = withdrawalQueue.getRiskMetrics();
+    const grossNotional = positions.reduce((total, p) => total + Math.abs(p.netSize * p.currentPrice), 0);
+    const exposure: PoolExposure = {
+      // 风险引擎会按持仓自行计算未实现盈亏，这里只传抵押资金（扣除保险基金），避免重复计入
+      balance: nav.collateral - nav.insuranceFund,
+      positions: positions.map(p => ({
+        symbol: p.symbol,
+        side: p.netSize < 0 ? 'short' : 'long',
+        notionalValue: Math.abs(p.netSize * p.currentPrice),
+        markPrice: p.currentPrice,
+        entryPrice: p.avgPrice
+      }))
+    };
+    const pools: RiskPoolData[] = [{
+      id: 'riverpool',
+      name: 'RiverPool',
+      tvl: nav.nav,
+      apy: poolData.apr30d,
+      utilizationRate: nav.nav > 0 ? grossNotional / nav.nav * 100 : 0,
+      riskScore: Math.min(netExposure / RISK_THRESHOLDS.EXPOSURE_MAX * 100, 100),
+      impermanentLoss: drawdown,
+      liquidityDepth: poolAccounting.getLiquidity(),
+      slippage: 0,
+      lastUpdate: nav.updatedAt
+    }];
+    return { riskPools: pools, poolExposure: exposure };
+  }, [nav]);
+  const riskDeposits = useMemo(() => [{ poolId: 'riverpool', amount: share.value }], [share.value]);
+
   const handleDepositClick = () => handleDeposit(depositAmount, setIsDepositing, setDepositAmount);
-  const handleWithdrawClick = () => handleWithdraw(withdrawAmount, setIsWithdrawing, setWithdrawAmount, riskStatus);
+  const handleWithdrawClick = () => handleWithdraw(withdrawAmount, setIsWithdrawing, setWithdrawAmount);
 
   return (
     <div className="h-full flex flex-col bg-gradient-to-br from-river-depth via-surface-0 to-river-depth overflow-hidden">
@@ -137,7 +178,7 @@ const RiverPoolPage: React.FC<RiverPoolPageProps> = ({
                 <p className="text-gray-300 text-sm">
                   {riskStatus.drawdown === 'warning' 
                     ? `24h drawdown reached ${poolData.drawdown24h}%. Enhanced risk monitoring active.`
-                    : `24h drawdown reached ${poolData.drawdown24h}%. New deposits suspended, 1% exit fee applied.`
+                    : `24h drawdown reached ${poolData.drawdown24h}%. New deposits suspended, ${(withdrawalQueue.getExitFee().totalRate * 100).toFixed(2)}% exit fee applied.`
                   }
                 </p>
               </div>
@@ -152,7 +193,7 @@ const RiverPoolPage: React.FC<RiverPoolPageProps> = ({
           <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
             {/* Professional Tab Navigation - River Design */}
             <LiquidGlassCard variant="subtle" className="p-1">
-              <TabsList className="grid w-full grid-cols-8 bg-transparent gap-1">
+              <TabsList className="grid w-full grid-cols-9 bg-transparent gap-1">
                 <TabsTrigger 
                   value="overview" 
                   className="flex items-center justify-center space-x-2 px-3 py-2 rounded-lg transition-all duration-300 text-gray-400 hover:text-river-surface data-[state=active]:bg-river-surface/20 data-[state=active]:text-river-surface data-[state=active]:shadow-lg data-[state=active]:shadow-river-surface/25"
@@ -202,6 +243,13 @@ const RiverPoolPage: React.FC<RiverPoolPageProps> = ({
                   <PieChart className="w-4 h-4" />
                   <span className="font-medium">Analytics</span>
                 </TabsTrigger>
+                <TabsTrigger 
+                  value="risk" 
+                  className="flex items-center justify-center space-x-2 px-3 py-2 rounded-lg transition-all duration-300 text-gray-400 hover:text-river-loss data-[state=active]:bg-river-loss/20 data-[state=active]:text-river-loss data-[state=active]:shadow-lg data-[state=active]:shadow-river-loss/25"
+                >
+                  <Activity className="w-4 h-4" />
+                  <span className="font-medium">Risk</span>
+                </TabsTrigger>
                 <TabsTrigger 
                   value="xstock" 
                   className="flex items-center justify-center space-x-2 px-3 py-2 rounded-lg transition-all duration-300 text-gray-400 hover:text-river-flow data-[state=active]:bg-river-flow/20 data-[state=active]:text-river-flow data-[state=active]:shadow-lg data-[state=active]:shadow-river-flow/25"
@@ -242,7 +290,6 @@ const RiverPoolPage: React.FC<RiverPoolPageProps> = ({
                 setWithdrawAmount={setWithdrawAmount}
                 isWithdrawing={isWithdrawing}
                 onWithdraw={handleWithdrawClick}
-                riskStatus={riskStatus}
               />
             </TabsContent>
 
@@ -254,6 +301,14 @@ const RiverPoolPage: React.FC<RiverPoolPageProps> = ({
               <AnalyticsTab />
             </TabsContent>
 
+            <TabsContent value="risk" className="space-y-6">
+              <RiskMonitoringDashboard
+                poolData={riskPools}
+                userDeposits={riskDeposits}
+                poolExposure={poolExposure}
+              />
+            </TabsContent>
+
             <TabsContent value="xstock" className="space-y-6">
               <XStockTab />
             </TabsContent>
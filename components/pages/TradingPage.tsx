@@ -22,7 +22,8 @@ import {
 } from 'lucide-react';
 import { mockTradingPairs, mockOrderBook, mockRecentTrades, mockPositions, mockHistoricalPositions } from '../../data/mockData';
 import { getSelectedPair, filterTradingPairs, closeAllPositions, closePosition, calculateTotals } from '../../utils/helpers';
-import { web3Manager, shortenAddress, formatNumber } from '../../utils/web3Utils';
+import { shortenAddress, formatNumber } from '../../utils/web3Utils';
+import { getChainAdapter } from '../../services/ChainAdapter';
 import HyperPairSelector from '../HyperPairSelector';
 import EliteTradingInterface from '../EliteTradingInterface';
 import TradingViewIcon from '../TradingViewIcon';
@@ -94,15 +95,16 @@ export default function TradingPage({
   
   // Check existing wallet connection
   const checkWalletConnection = async () => {
-    if (web3Manager.isConnected) {
+    const chain = getChainAdapter();
+    if (chain.isConnected()) {
       setIsWalletConnected(true);
-      setCurrentChainId(web3Manager.currentChainId);
+      setCurrentChainId(chain.getChainId());
       
       try {
-        const accounts = await window.ethereum.request({ method: 'eth_accounts' });
-        if (accounts.length > 0) {
-          setWalletAddress(accounts[0]);
-          await loadAccountData(accounts[0]);
+        const address = chain.getAddress();
+        if (address) {
+          setWalletAddress(address);
+          await loadAccountData(address);
         }
       } catch (error) {
         console.error('Error checking wallet:', error);
@@ -112,13 +114,14 @@ export default function TradingPage({
   
   // Load real account data from contract
   const loadAccountData = async (address: string) => {
-    if (!web3Manager.isConnected || currentChainId !== 421614) return;
+    const chain = getChainAdapter();
+    if (!chain.isConnected() || chain.getChainId() !== 421614) return;
     
     setIsLoadingAccount(true);
     try {
       const [accountInfo, usdcBalance] = await Promise.all([
-        web3Manager.getAccountInfo(address),
-        web3Manager.getUSDCBalance(address)
+        chain.getAccountInfo(address as `0x${string}`),
+        chain.getUSDCBalance(address as `0x${string}`)
       ]);
       
       setRealAccountData({
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Button } from '../ui/button';
 import { Badge } from '../ui/badge';
@@ -7,6 +7,9 @@ import { Label } from '../ui/label';
 import { Checkbox } from '../ui/checkbox';
 import { Slider } from '../ui/slider';
 import { toast } from 'sonner';
+import type { Address } from 'viem';
+import { orderGateway } from '../../services/OrderGateway';
+import OrderCheckNotice from '../trading/OrderCheckNotice';
 import {
   Dialog,
   DialogContent,
@@ -68,6 +71,7 @@ interface BatchOperationsProps {
   onSetStopLoss: (positionIds: string[], stopLoss: number) => Promise<void>;
   onSetTakeProfit: (positionIds: string[], takeProfit: number) => Promise<void>;
   onAddMargin: (positionIds: string[], amount: number) => Promise<void>;
+  userAddress?: Address;
 }
 
 interface BatchAction {
@@ -87,7 +91,8 @@ const BatchOperations: React.FC<BatchOperationsProps> = ({
   onAdjustLeverage,
   onSetStopLoss,
   onSetTakeProfit,
-  onAddMargin
+  onAddMargin,
+  userAddress
 }) => {
   const [selectedPositions, setSelectedPositions] = useState<Set<string>>(new Set());
   const [showBatchDialog, setShowBatchDialog] = useState(false);
@@ -111,6 +116,11 @@ const BatchOperations: React.FC<BatchOperationsProps> = ({
     maxLeverage: ''
   });
 
+  // Leverage caps from the order gateway for every selected position
+  const leverageRejections = useMemo(() => positions
+    .filter(position => selectedPositions.has(position.id))
+    .flatMap(position => orderGateway.validateLeverage(position.symbol, newLeverage, userAddress)), [positions, selectedPositions, newLeverage, userAddress]);
+
   // Available batch actions
   const batchActions: BatchAction[] = [
     {
@@ -218,6 +228,10 @@ const BatchOperations: React.FC<BatchOperationsProps> = ({
           break;
         
         case 'adjust-leverage':
+          if (leverageRejections.length > 0) {
+            toast.error(leverageRejections[0].message);
+            return;
+          }
           await onAdjustLeverage(positionIds, newLeverage);
           toast.success(`已调整 ${positionIds.length} 个持仓的杠杆为 ${newLeverage}x`);
           break;
@@ -260,7 +274,7 @@ const BatchOperations: React.FC<BatchOperationsProps> = ({
     } finally {
       setIsExecuting(false);
     }
-  }, [selectedPositions, newLeverage, stopLossPrice, takeProfitPrice, marginAmount, onClosePositions, onAdjustLeverage, onSetStopLoss, onSetTakeProfit, onAddMargin, clearSelection]);
+  }, [selectedPositions, newLeverage, stopLossPrice, takeProfitPrice, marginAmount, onClosePositions, onAdjustLeverage, onSetStopLoss, onSetTakeProfit, onAddMargin, clearSelection, leverageRejections]);
 
   // Get selected positions data
   const selectedPositionsData = positions.filter(p => selectedPositions.has(p.id));
@@ -388,6 +402,7 @@ const BatchOperations: React.FC<BatchOperationsProps> = ({
                               <span>50x</span>
                               <span>100x</span>
                             </div>
+                            <OrderCheckNotice rejections={leverageRejections} className="mt-2" />
                           </div>
                         )}
 
@@ -12,7 +12,10 @@ import { useRiverBitWeb3 } from '../../providers/RiverBitWeb3Provider';
 import { useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
 import { parseUnits } from 'viem';
 import { NETWORK_CONFIG } from '../../constants/contractConstants';
+import { POOL_FEES } from '../../constants/riverPoolConstants';
 import { toast } from 'sonner';
+import { usePoolAccounting } from '../../hooks/usePoolAccounting';
+import { poolAccounting, previewMint, type MintQuote } from '../../services/PoolAccounting';
 
 interface DepositTabProps {
   depositAmount: string;
@@ -56,15 +59,18 @@ export const DepositTab: React.FC<DepositTabProps> = ({
 
   // Local state for Web3 operations
   const [isLoadingWeb3, setIsLoadingWeb3] = useState(false);
-  const [poolStats, setPoolStats] = useState<PoolStats>({
-    totalValueLocked: '1,250,000',
-    totalShares: '1,200,000',
-    sharePrice: '1.042',
-    apy: '15.8',
-    userShares: '5,250',
-    userValue: '5,470.50',
-    pendingRewards: '125.75'
-  });
+
+  // Pool NAV and the wallet's rLP come from the shared pool ledger
+  const { nav, share } = usePoolAccounting(isConnected ? address : null);
+  const poolStats: PoolStats = {
+    totalValueLocked: nav.nav.toLocaleString(undefined, { maximumFractionDigits: 0 }),
+    totalShares: nav.totalSupply.toLocaleString(undefined, { maximumFractionDigits: 0 }),
+    sharePrice: nav.rLPPrice.toFixed(4),
+    apy: poolData.apr30d.toFixed(1),
+    userShares: share.shares.toLocaleString(undefined, { maximumFractionDigits: 6 }),
+    userValue: share.value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+    pendingRewards: share.pendingFees.toFixed(2)
+  };
 
   // Contract interactions
   const { writeContract: writeContractAction } = useWriteContract();
@@ -85,36 +91,10 @@ export const DepositTab: React.FC<DepositTabProps> = ({
       setPendingTxHash(null);
       setIsLoadingWeb3(false);
       refreshData();
-      loadPoolData();
+      poolAccounting.syncFromChain(address);
     }
   }, [isConfirmed, pendingTxHash]);
 
-  // Load pool data
-  const loadPoolData = async () => {
-    if (isConnected && address && isValidNetwork) {
-      try {
-        // Mock pool data for now - replace with real contract calls
-        setPoolStats({
-          totalValueLocked: '1,250,000',
-          totalShares: '1,200,000', 
-          sharePrice: '1.042',
-          apy: '15.8',
-          userShares: '5,250',
-          userValue: '5,470.50',
-          pendingRewards: '125.75'
-        });
-      } catch (error) {
-        console.error('Failed to load pool data:', error);
-      }
-    }
-  };
-
-  useEffect(() => {
-    if (isConnected && address && isValidNetwork) {
-      loadPoolData();
-    }
-  }, [isConnected, address, isValidNetwork]);
-
   // Web3 deposit handler
   const handleWeb3Deposit = async () => {
     if (!contractAddresses?.lpBucketManager) {
@@ -172,15 +152,21 @@ export const DepositTab: React.FC<DepositTabProps> = ({
 
   // Calculate enhanced metrics
   const depositAmountNum = parseFloat(depositAmount) || 0;
-  const expectedRLP = depositAmountNum > 0 ? depositAmountNum / parseFloat(poolStats.sharePrice) : 0;
-  const insuranceFee = depositAmountNum * 0.01;
-  const netDeposit = depositAmountNum - insuranceFee;
+  let depositQuote: MintQuote | null = null;
+  try {
+    depositQuote = depositAmountNum > 0 ? previewMint(nav, depositAmountNum) : null;
+  } catch {
+    depositQuote = null;
+  }
+  const expectedRLP = depositQuote?.shares ?? 0;
+  const insuranceFee = depositQuote?.insuranceFee ?? 0;
+  const netDeposit = depositQuote?.netAmount ?? 0;
   const estimatedDailyReturn = depositAmountNum * (parseFloat(poolStats.apy) / 365 / 100);
   const isRiskRestricted = riskStatus.drawdown === 'danger';
   
   // Use real USDC balance when connected, fallback to mock data
   const availableBalance = isConnected ? parseFloat(usdcBalance) : userData.balance;
-  const hasValidAmount = depositAmountNum > 0 && depositAmountNum <= availableBalance;
+  const hasValidAmount = depositQuote !== null && depositAmountNum <= availableBalance;
   
   // Web3 validation
   const needsApproval = isConnected && !hasInfiniteAllowance && depositAmountNum > parseFloat(allowance);
@@ -302,7 +288,7 @@ export const DepositTab: React.FC<DepositTabProps> = ({
                   </div>
                   
                   <div className="flex justify-between items-center">
-                    <span className="text-sm text-river-surface/80 font-medium">Insurance Fee (1%)</span>
+                    <span className="text-sm text-river-surface/80 font-medium">Insurance Fee ({POOL_FEES.DEPOSIT_INSURANCE_FEE * 100}%)</span>
                     <span className="text-river-warning font-mono font-semibold">
                       -${insuranceFee.toFixed(2)} USDC
                     </span>
@@ -480,7 +466,7 @@ export const DepositTab: React.FC<DepositTabProps> = ({
               </div>
               <div className="flex justify-between p-2 bg-river-flow/5 rounded-lg">
                 <span className="text-gray-400 font-medium">Your Value</span>
-                <span className="text-river-flow font-mono">${isConnected ? poolStats.userValue : '0.00'}</span>
+                <span className="text-river-flow font-mono">${poolStats.userValue}</span>
               </div>
             </div>
           </LiquidGlassCard>
@@ -577,7 +563,7 @@ export const DepositTab: React.FC<DepositTabProps> = ({
               </div>
               <div className="flex justify-between p-2 bg-river-glow/5 rounded-lg">
                 <span className="text-gray-400 font-medium">Your Shares</span>
-                <span className="text-river-glow font-mono">{isConnected ? poolStats.userShares : '0'}</span>
+                <span className="text-river-glow font-mono">{poolStats.userShares}</span>
               </div>
             </div>
           </LiquidGlassCard>
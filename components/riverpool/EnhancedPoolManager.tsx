@@ -24,6 +24,10 @@ import { useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
 import { parseUnits } from 'viem';
 import { NETWORK_CONFIG } from '../../constants/contractConstants';
 import { toast } from 'sonner';
+import { poolData } from '../../data/riverPoolData';
+import { usePoolAccounting } from '../../hooks/usePoolAccounting';
+import { poolAccounting, previewMint, type MintQuote } from '../../services/PoolAccounting';
+import { withdrawalQueue, type WithdrawalPreview } from '../../services/WithdrawalQueue';
 
 interface PoolManagerProps {
   className?: string;
@@ -57,15 +61,18 @@ export default function EnhancedPoolManager({ className }: PoolManagerProps) {
   const [activeTab, setActiveTab] = useState<'deposit' | 'withdraw'>('deposit');
   const [amount, setAmount] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [poolStats, setPoolStats] = useState<PoolStats>({
-    totalValueLocked: '0',
-    totalShares: '0', 
-    sharePrice: '1.00',
-    apy: '12.5',
-    userShares: '0',
-    userValue: '0',
-    pendingRewards: '0'
-  });
+
+  // Pool NAV and the wallet's rLP come from the shared pool ledger
+  const { nav, share } = usePoolAccounting(isConnected ? address : null);
+  const poolStats: PoolStats = {
+    totalValueLocked: nav.nav.toLocaleString(undefined, { maximumFractionDigits: 0 }),
+    totalShares: nav.totalSupply.toLocaleString(undefined, { maximumFractionDigits: 0 }),
+    sharePrice: nav.rLPPrice.toFixed(4),
+    apy: poolData.apr30d.toFixed(1),
+    userShares: share.shares.toLocaleString(undefined, { maximumFractionDigits: 6 }),
+    userValue: share.value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+    pendingRewards: share.pendingFees.toFixed(2)
+  };
 
   // Contract interactions
   const { writeContract: writeContractAction } = useWriteContract();
@@ -78,13 +85,6 @@ export default function EnhancedPoolManager({ className }: PoolManagerProps) {
   // Get contract address
   const contractAddresses = chainId ? NETWORK_CONFIG[chainId]?.contracts : null;
 
-  // Load pool data
-  useEffect(() => {
-    if (isConnected && address && isValidNetwork) {
-      loadPoolData();
-    }
-  }, [isConnected, address, isValidNetwork]);
-
   // Handle transaction confirmation
   useEffect(() => {
     if (isConfirmed && pendingTxHash) {
@@ -97,22 +97,7 @@ export default function EnhancedPoolManager({ className }: PoolManagerProps) {
     }
   }, [isConfirmed, pendingTxHash]);
 
-  const loadPoolData = async () => {
-    try {
-      // Mock pool data for now - replace with real contract calls
-      setPoolStats({
-        totalValueLocked: '1,250,000',
-        totalShares: '1,200,000',
-        sharePrice: '1.042',
-        apy: '15.8',
-        userShares: '5,250',
-        userValue: '5,470.50',
-        pendingRewards: '125.75'
-      });
-    } catch (error) {
-      console.error('Failed to load pool data:', error);
-    }
-  };
+  const loadPoolData = () => poolAccounting.syncFromChain(address);
 
   const handlePercentageClick = (percentage: number) => {
     if (activeTab === 'deposit') {
@@ -120,7 +105,7 @@ export default function EnhancedPoolManager({ className }: PoolManagerProps) {
       const targetAmount = (maxAmount * percentage) / 100;
       setAmount(targetAmount.toFixed(2));
     } else {
-      const maxShares = parseFloat(poolStats.userShares.replace(/,/g, '')) || 0;
+      const maxShares = withdrawalQueue.getAvailableShares(isConnected ? address : null);
       const targetShares = (maxShares * percentage) / 100;
       setAmount(targetShares.toFixed(2));
     }
@@ -143,7 +128,7 @@ export default function EnhancedPoolManager({ className }: PoolManagerProps) {
         return { valid: false, error: 'Insufficient allowance. Please approve USDC first.' };
       }
     } else {
-      const userShares = parseFloat(poolStats.userShares.replace(/,/g, ''));
+      const userShares = withdrawalQueue.getAvailableShares(isConnected ? address : null);
       if (numAmount > userShares) {
         return { valid: false, error: `Insufficient shares. Available: ${userShares.toFixed(2)}` };
       }
@@ -206,47 +191,36 @@ export default function EnhancedPoolManager({ className }: PoolManagerProps) {
     }
   };
 
-  const handleWithdraw = async () => {
+  // Withdrawals join the epoch queue; allotted shares are claimed from the Withdraw tab
+  const handleWithdraw = () => {
     const validation = validateAmount();
     if (!validation.valid) {
       toast.error(validation.error!);
       return;
     }
 
-    if (!contractAddresses?.lpBucketManager) {
-      toast.error('LP Bucket Manager contract not found');
-      return;
-    }
-
     try {
-      setIsLoading(true);
-      const sharesWei = parseUnits(amount, 6); // Shares also use 6 decimals
-
-      const txHash = await writeContractAction({
-        address: contractAddresses.lpBucketManager,
-        abi: [
-          {
-            "inputs": [{"name": "shares", "type": "uint256"}],
-            "name": "withdraw", 
-            "outputs": [],
-            "stateMutability": "nonpayable",
-            "type": "function"
-          }
-        ],
-        functionName: 'withdraw',
-        args: [sharesWei],
-      });
-
-      setPendingTxHash(txHash);
-      toast.success('Withdraw transaction submitted!');
-      
+      const { preview } = withdrawalQueue.requestShares(isConnected ? address : null, parseFloat(amount));
+      toast.success(`Withdrawal queued at #${preview.position}, expected by ${new Date(preview.eta).toLocaleString()}`);
+      setAmount('');
     } catch (error: any) {
-      setIsLoading(false);
       console.error('Withdraw failed:', error);
       toast.error(`Withdraw failed: ${error.message || 'Unknown error'}`);
     }
   };
 
+  // Deposits mint rounded down; redemptions pay rounded down, less any exit fee
+  const numAmount = parseFloat(amount) || 0;
+  let mintQuote: MintQuote | null = null;
+  let redeemPreview: WithdrawalPreview | null = null;
+  try {
+    if (numAmount > 0 && activeTab === 'deposit') mintQuote = previewMint(nav, numAmount);
+    if (numAmount > 0 && activeTab === 'withdraw') redeemPreview = withdrawalQueue.previewShares(isConnected ? address : null, numAmount);
+  } catch {
+    mintQuote = null;
+    redeemPreview = null;
+  }
+
   const validation = validateAmount();
   const needsApproval = activeTab === 'deposit' && !hasInfiniteAllowance && parseFloat(amount) > parseFloat(allowance);
 
@@ -397,10 +371,14 @@ export default function EnhancedPoolManager({ className }: PoolManagerProps) {
                     <span className="text-secondary">Deposit Amount:</span>
                     <span className="font-bold">${parseFloat(amount).toFixed(2)} USDC</span>
                   </div>
+                  <div className="flex justify-between">
+                    <span className="text-secondary">Insurance Fee:</span>
+                    <span className="font-bold">-${mintQuote ? mintQuote.insuranceFee.toFixed(2) : '0.00'} USDC</span>
+                  </div>
                   <div className="flex justify-between">
                     <span className="text-secondary">Estimated Shares:</span>
                     <span className="font-bold text-river-blue">
-                      {(parseFloat(amount) / parseFloat(poolStats.sharePrice)).toFixed(2)}
+                      {mintQuote ? mintQuote.shares.toFixed(6) : '—'}
                     </span>
                   </div>
                   <div className="flex justify-between">
@@ -417,7 +395,7 @@ export default function EnhancedPoolManager({ className }: PoolManagerProps) {
                   <div className="flex justify-between">
                     <span className="text-secondary">Estimated USDC:</span>
                     <span className="font-bold text-river-blue">
-                      ${(parseFloat(amount) * parseFloat(poolStats.sharePrice)).toFixed(2)}
+                      ${redeemPreview ? redeemPreview.quote.netAmount.toFixed(2) : '0.00'}
                     </span>
                   </div>
                   <div className="flex justify-between">
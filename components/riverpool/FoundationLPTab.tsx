@@ -5,71 +5,155 @@ import { Badge } from '../ui/badge';
 import { Progress } from '../ui/progress';
 import { Input } from '../ui/input';
 import { Alert, AlertDescription } from '../ui/alert';
-import { 
-  Crown, Shield, Award, Lock, Calendar, Target, 
+import {
+  Crown, Shield, Award, Lock, Calendar, Target,
   TrendingUp, Users, Zap, AlertTriangle, CheckCircle,
-  Clock, DollarSign, Gift, Star, Info
+  Clock, DollarSign, Gift, Star, Info, History, RefreshCw, Unlock
 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useRiverBitWeb3 } from '../../providers/RiverBitWeb3Provider';
+import { useFoundationStaking } from '../../hooks/useFoundationStaking';
+import {
+  foundationStaking,
+  type StakePreview,
+  type StakingEventType,
+  type StakingTierId,
+  type UnlockPreview
+} from '../../services/FoundationStaking';
+import { FOUNDATION_STAKING, FOUNDATION_STAKING_TIERS } from '../../constants/riverPoolConstants';
+
+const TIER_LABELS: Record<StakingTierId, string> = {
+  standard: '標準鎖倉',
+  extended: '延長鎖倉',
+  max: '最高加成'
+};
+
+const EVENT_LABELS: Record<StakingEventType, string> = {
+  stake: '質押',
+  claim: '領取獎勵',
+  compound: '獎勵複投',
+  unlock: '到期解鎖',
+  early_unlock: '提前解鎖',
+  renew: '續期質押'
+};
+
+const formatDate = (time: number) => new Date(time).toLocaleDateString();
 
 export const FoundationLPTab = () => {
+  const { isConnected, address } = useRiverBitWeb3();
+  const holder = isConnected ? address : null;
+  const { positions, summary, history, balance, walletBalance, canTransact } = useFoundationStaking(holder);
+
   const [stakeAmount, setStakeAmount] = useState('');
+  const [tierId, setTierId] = useState<StakingTierId>('standard');
   const [isStaking, setIsStaking] = useState(false);
+  const [claimInputs, setClaimInputs] = useState<Record<string, string>>({});
+  const [confirmUnlockId, setConfirmUnlockId] = useState<string | null>(null);
 
-  // Mock Foundation LP 数据
+  // Mock Foundation LP 數據；收益參數來自質押配置
   const foundationLPData = {
     totalPool: 500000000, // 5億RBT
     participantLimit: 100, // 限額100人
     currentParticipants: 67, // 當前67人參與
-    minStake: 5000000, // 最低500萬RBT
-    lockPeriod: 180, // 180天鎖倉
-    apy: 125, // 預計年化收益率
-    bonusMultiplier: 2.5, // 獎勵倍數
+    minStake: FOUNDATION_STAKING.MIN_STAKE, // 最低500萬RBT
+    lockPeriod: FOUNDATION_STAKING_TIERS[0].lockDays, // 180天鎖倉
+    apy: FOUNDATION_STAKING.BASE_APY, // 基礎年化收益率
+    bonusMultiplier: Math.max(...FOUNDATION_STAKING_TIERS.map(tier => tier.boost)), // 最高加成倍數
     distributionStart: '2024-02-01',
     distributionEnd: '2024-08-01',
     remainingSlots: 33 // 剩餘名額
   };
 
-  // 用户数据
-  const userData = {
-    isEligible: true, // 是否符合條件
-    currentStake: 8500000, // 當前質押8.5M RBT
-    pendingRewards: 125680, // 待領取獎勵
-    totalEarned: 890250, // 累計獲得
-    stakingDays: 45, // 質押天數
-    remainingDays: 135, // 剩餘鎖倉天數
-    nextRewardDate: '2024-01-21',
-    estimatedDailyReward: 2890 // 預估日獎勵
-  };
-
   // 獎勵分配機制
   const rewardMechanism = [
     { tier: 'Foundation LP Pool', allocation: '5億 RBT', share: '5%', description: '基礎流動性池獎勵' },
-    { tier: '鎖倉獎勵', allocation: '固定APY 125%', share: '年化', description: '鎖倉期間持續獎勵' },
-    { tier: '早期參與獎勵', allocation: '前50名額外20%', share: '獎勵', description: '早鳥優惠獎勵' },
-    { tier: '忠誠度獎勵', allocation: '滿180天額外50%', share: '獎勵', description: '完整鎖倉期獎勵' }
+    { tier: '鎖倉獎勵', allocation: `基礎APY ${foundationLPData.apy}%`, share: '年化', description: '鎖倉期間線性累積，懸崖期後歸屬' },
+    { tier: '鎖倉加成', allocation: `最高 ${foundationLPData.bonusMultiplier}x`, share: '加成', description: '鎖倉越長APY加成越高' },
+    { tier: '忠誠度獎勵', allocation: `鎖滿到期額外${FOUNDATION_STAKING.LOYALTY_BONUS * 100}%`, share: '獎勵', description: '完整鎖倉期獎勵' }
   ];
 
-  const handleStake = () => {
-    if (!stakeAmount || parseFloat(stakeAmount) < foundationLPData.minStake) {
+  const handleStake = async () => {
+    const amount = parseFloat(stakeAmount);
+    if (!stakeAmount || amount < foundationLPData.minStake) {
       return;
     }
     setIsStaking(true);
-    // 模擬質押操作
-    setTimeout(() => {
-      setIsStaking(false);
+    // 模擬鏈上確認時間
+    await new Promise(resolve => setTimeout(resolve, 2000));
+    try {
+      const position = foundationStaking.stake(holder, amount, tierId);
+      toast.success(`已質押 ${position.principal.toLocaleString()} RBT，${formatDate(position.unlockAt)} 解鎖`);
       setStakeAmount('');
-    }, 2000);
+    } catch (error) {
+      toast.error(`質押失敗：${(error as Error).message}`);
+    }
+    setIsStaking(false);
+  };
+
+  // Runs a staking action and reports its failure as a toast
+  const runAction = (action: () => string) => {
+    try {
+      toast.success(action());
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
   };
 
-  const calculateProjectedEarnings = () => {
-    const amount = parseFloat(stakeAmount) || 0;
-    const dailyRate = foundationLPData.apy / 365 / 100;
-    const dailyEarning = amount * dailyRate;
-    const totalEarning = dailyEarning * foundationLPData.lockPeriod;
-    return { dailyEarning, totalEarning };
+  const handleClaim = (id: string) => {
+    const input = claimInputs[id];
+    runAction(() => {
+      const paid = foundationStaking.claim(holder, id, input ? parseFloat(input) : undefined);
+      setClaimInputs(prev => ({ ...prev, [id]: '' }));
+      return `已領取 ${paid.toFixed(2)} RBT`;
+    });
   };
 
-  const projectedEarnings = calculateProjectedEarnings();
+  const handleClaimAll = () => runAction(() => `已領取 ${foundationStaking.claimAll(holder).toFixed(2)} RBT`);
+
+  const handleCompound = (id: string) => {
+    const input = claimInputs[id];
+    runAction(() => {
+      const position = foundationStaking.compound(holder, id, input ? parseFloat(input) : undefined);
+      setClaimInputs(prev => ({ ...prev, [id]: '' }));
+      return `已複投 ${position.principal.toFixed(2)} RBT，${formatDate(position.unlockAt)} 解鎖`;
+    });
+  };
+
+  const handleUnlock = (id: string) => {
+    runAction(() => {
+      const result = foundationStaking.unlock(holder, id);
+      setConfirmUnlockId(null);
+      return result.early
+        ? `已提前解鎖，到賬 ${result.payout.toFixed(2)} RBT（罰金 ${result.penalty.toFixed(2)} RBT）`
+        : `已解鎖，到賬 ${result.payout.toFixed(2)} RBT`;
+    });
+  };
+
+  const handleRenew = (id: string) => {
+    runAction(() => {
+      const position = foundationStaking.renew(holder, id, tierId);
+      return `已續期 ${position.principal.toFixed(2)} RBT（${TIER_LABELS[position.tierId]}）`;
+    });
+  };
+
+  let stakePreview: StakePreview | null = null;
+  if (parseFloat(stakeAmount) >= foundationLPData.minStake) {
+    stakePreview = foundationStaking.previewStake(parseFloat(stakeAmount), tierId);
+  }
+
+  let unlockPreview: UnlockPreview | null = null;
+  if (confirmUnlockId) {
+    try {
+      unlockPreview = foundationStaking.previewUnlock(confirmUnlockId);
+    } catch {
+      unlockPreview = null;
+    }
+  }
+
+  const lockedPositions = positions.filter(position => position.status === 'locked');
+  const nearest = lockedPositions.length > 0
+    ? lockedPositions.reduce((a, b) => (a.unlockAt <= b.unlockAt ? a : b))
+    : null;
 
   return (
     <div className="space-y-6">
@@ -88,15 +172,15 @@ export const FoundationLPTab = () => {
           <div className="grid md:grid-cols-3 gap-6">
             <div className="text-center">
               <div className="text-2xl font-mono text-yellow-600">{foundationLPData.apy}%</div>
-              <div className="text-sm text-yellow-700">預計年化收益</div>
+              <div className="text-sm text-yellow-700">基礎年化收益</div>
             </div>
             <div className="text-center">
-              <div className="text-2xl font-mono text-yellow-600">{foundationLPData.lockPeriod}天</div>
+              <div className="text-2xl font-mono text-yellow-600">{foundationLPData.lockPeriod}天起</div>
               <div className="text-sm text-yellow-700">鎖倉期間</div>
             </div>
             <div className="text-center">
               <div className="text-2xl font-mono text-yellow-600">{foundationLPData.bonusMultiplier}x</div>
-              <div className="text-sm text-yellow-700">獎勵倍數</div>
+              <div className="text-sm text-yellow-700">最高加成倍數</div>
             </div>
           </div>
 
@@ -109,7 +193,7 @@ export const FoundationLPTab = () => {
               </div>
               <div className="flex items-center space-x-2">
                 <Lock className="w-4 h-4 text-[#92318D]" />
-                <span>180天鎖倉保障</span>
+                <span>{foundationLPData.lockPeriod}天起鎖倉保障</span>
               </div>
               <div className="flex items-center space-x-2">
                 <Award className="w-4 h-4 text-[#92318D]" />
@@ -142,7 +226,7 @@ export const FoundationLPTab = () => {
                 </div>
                 <Progress value={(foundationLPData.currentParticipants / foundationLPData.participantLimit) * 100} className="h-3" />
               </div>
-              
+
               <div className="text-center">
                 <div className="text-2xl font-mono text-green-600">{foundationLPData.remainingSlots}</div>
                 <div className="text-sm text-gray-300">剩餘名額</div>
@@ -167,36 +251,40 @@ export const FoundationLPTab = () => {
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
-              {userData.currentStake > 0 ? (
+              {summary.staked > 0 ? (
                 <>
                   <div className="text-center bg-blue-50 p-4 rounded-lg">
                     <div className="text-2xl font-mono text-blue-600">
-                      {userData.currentStake.toLocaleString()}
+                      {summary.staked.toLocaleString(undefined, { maximumFractionDigits: 0 })}
                     </div>
                     <div className="text-sm text-blue-700">當前質押 (RBT)</div>
                   </div>
-                  
+
                   <div className="space-y-2 text-sm">
                     <div className="flex justify-between">
-                      <span>質押天數:</span>
-                      <span>{userData.stakingDays} 天</span>
+                      <span>質押倉位:</span>
+                      <span>{summary.activePositions} 筆</span>
                     </div>
                     <div className="flex justify-between">
-                      <span>剩餘鎖倉:</span>
-                      <span className="text-orange-600">{userData.remainingDays} 天</span>
+                      <span>最近解鎖:</span>
+                      <span className="text-orange-600">
+                        {summary.nextUnlockAt ? formatDate(summary.nextUnlockAt) : '已到期'}
+                      </span>
                     </div>
                     <div className="flex justify-between">
                       <span>日預估獎勵:</span>
-                      <span className="text-green-600">{userData.estimatedDailyReward} RBT</span>
+                      <span className="text-green-600">{summary.dailyReward.toFixed(0)} RBT</span>
                     </div>
                   </div>
 
-                  <div className="mt-4">
-                    <Progress value={(userData.stakingDays / foundationLPData.lockPeriod) * 100} className="h-2" />
-                    <div className="text-xs text-center mt-1 text-gray-300 font-medium">
-                      鎖倉進度: {((userData.stakingDays / foundationLPData.lockPeriod) * 100).toFixed(1)}%
+                  {nearest && (
+                    <div className="mt-4">
+                      <Progress value={nearest.accrual.progress * 100} className="h-2" />
+                      <div className="text-xs text-center mt-1 text-gray-300 font-medium">
+                        鎖倉進度: {(nearest.accrual.progress * 100).toFixed(1)}%
+                      </div>
                     </div>
-                  </div>
+                  )}
                 </>
               ) : (
                 <div className="text-center text-gray-300 font-medium">
@@ -219,29 +307,29 @@ export const FoundationLPTab = () => {
             <div className="space-y-3">
               <div className="text-center bg-green-50 p-4 rounded-lg">
                 <div className="text-2xl font-mono text-green-600">
-                  {userData.pendingRewards.toLocaleString()}
+                  {summary.claimable.toLocaleString(undefined, { maximumFractionDigits: 2 })}
                 </div>
-                <div className="text-sm text-green-700">待領取獎勵 (RBT)</div>
+                <div className="text-sm text-green-700">可領取獎勵 (RBT)</div>
               </div>
-              
+
               <div className="space-y-2 text-sm">
                 <div className="flex justify-between">
-                  <span>累計已獲得:</span>
-                  <span className="text-blue-600">{userData.totalEarned.toLocaleString()} RBT</span>
+                  <span>累計已領取:</span>
+                  <span className="text-blue-600">{summary.claimed.toLocaleString(undefined, { maximumFractionDigits: 2 })} RBT</span>
                 </div>
                 <div className="flex justify-between">
-                  <span>下次發放:</span>
-                  <span>{userData.nextRewardDate}</span>
+                  <span>未歸屬獎勵:</span>
+                  <span>{Math.max(summary.accrued - summary.claimable - summary.claimed, 0).toLocaleString(undefined, { maximumFractionDigits: 2 })} RBT</span>
                 </div>
                 <div className="flex justify-between">
-                  <span>當前APY:</span>
-                  <span className="text-purple-600">{foundationLPData.apy}%</span>
+                  <span>錢包餘額:</span>
+                  <span className="text-purple-600">{(walletBalance ?? balance).toLocaleString(undefined, { maximumFractionDigits: 2 })} RBT</span>
                 </div>
               </div>
 
-              <Button className="w-full mt-4" disabled={userData.pendingRewards === 0}>
+              <Button className="w-full mt-4" disabled={!canTransact || summary.claimable <= 0} onClick={handleClaimAll}>
                 <Zap className="w-4 h-4 mr-2" />
-                領取獎勵 {userData.pendingRewards > 0 ? `(${userData.pendingRewards.toLocaleString()} RBT)` : ''}
+                領取全部獎勵 {summary.claimable > 0 ? `(${summary.claimable.toLocaleString(undefined, { maximumFractionDigits: 2 })} RBT)` : ''}
               </Button>
             </div>
           </CardContent>
@@ -257,8 +345,35 @@ export const FoundationLPTab = () => {
           </CardTitle>
         </CardHeader>
         <CardContent>
+          {/* 質押合約接入前，正式錢包僅能查看，不能操作本地帳本 */}
+          {!canTransact && (
+            <Alert className="mb-4">
+              <AlertTriangle className="w-4 h-4" />
+              <AlertDescription>
+                質押合約尚未接入：正式錢包的質押、領取、複投與解鎖暫時停用。
+              </AlertDescription>
+            </Alert>
+          )}
           <div className="grid md:grid-cols-2 gap-6">
             <div className="space-y-4">
+              <div>
+                <label className="text-sm font-medium mb-2 block">鎖倉檔位</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {FOUNDATION_STAKING_TIERS.map((tier) => (
+                    <Button
+                      key={tier.id}
+                      variant={tierId === tier.id ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setTierId(tier.id)}
+                      className="flex flex-col h-auto py-2 text-xs"
+                    >
+                      <span>{TIER_LABELS[tier.id]}</span>
+                      <span className="font-mono">{tier.lockDays}天 · {tier.boost}x</span>
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
               <div>
                 <label className="text-sm font-medium mb-2 block">質押數量</label>
                 <div className="relative">
@@ -275,7 +390,7 @@ export const FoundationLPTab = () => {
                 </div>
                 <div className="flex justify-between text-xs text-gray-300 font-medium mt-1">
                   <span>最低質押: {foundationLPData.minStake.toLocaleString()} RBT</span>
-                  <span>可用餘額: 12,450,000 RBT</span>
+                  <span>可用餘額: {balance.toLocaleString(undefined, { maximumFractionDigits: 2 })} RBT</span>
                 </div>
               </div>
 
@@ -285,7 +400,7 @@ export const FoundationLPTab = () => {
                     key={percent}
                     variant="outline"
                     size="sm"
-                    onClick={() => setStakeAmount((12450000 * percent / 100).toString())}
+                    onClick={() => setStakeAmount((balance * percent / 100).toString())}
                     className="text-xs"
                   >
                     {percent}%
@@ -302,11 +417,20 @@ export const FoundationLPTab = () => {
                 </Alert>
               )}
 
-              <Button 
-                className="w-full bg-yellow-600 hover:bg-yellow-700" 
+              {parseFloat(stakeAmount) > balance && (
+                <Alert>
+                  <AlertTriangle className="w-4 h-4" />
+                  <AlertDescription>
+                    餘額不足，可用 {balance.toLocaleString(undefined, { maximumFractionDigits: 2 })} RBT
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <Button
+                className="w-full bg-yellow-600 hover:bg-yellow-700"
                 size="lg"
                 onClick={handleStake}
-                disabled={!stakeAmount || parseFloat(stakeAmount) < foundationLPData.minStake || isStaking || foundationLPData.remainingSlots === 0}
+                disabled={!canTransact || !stakeAmount || parseFloat(stakeAmount) < foundationLPData.minStake || parseFloat(stakeAmount) > balance || isStaking || foundationLPData.remainingSlots === 0}
               >
                 {isStaking ? (
                   <>
@@ -327,8 +451,8 @@ export const FoundationLPTab = () => {
                 <TrendingUp className="w-4 h-4 text-[#92318D]" />
                 <span>收益預估</span>
               </h4>
-              
-              {stakeAmount && parseFloat(stakeAmount) >= foundationLPData.minStake && (
+
+              {stakePreview && (
                 <div className="bg-slate-800/50 p-4 rounded-lg space-y-3">
                   <div className="flex justify-between">
                     <span>質押數量:</span>
@@ -336,15 +460,31 @@ export const FoundationLPTab = () => {
                   </div>
                   <div className="flex justify-between">
                     <span>日預估收益:</span>
-                    <span className="text-green-600 font-mono">{projectedEarnings.dailyEarning.toFixed(0)} RBT</span>
+                    <span className="text-green-600 font-mono">{stakePreview.dailyReward.toFixed(0)} RBT</span>
                   </div>
                   <div className="flex justify-between">
-                    <span>180天總收益:</span>
-                    <span className="text-green-600 font-mono">{projectedEarnings.totalEarning.toFixed(0)} RBT</span>
+                    <span>{stakePreview.tier.lockDays}天鎖倉收益:</span>
+                    <span className="text-green-600 font-mono">{stakePreview.lockReward.toFixed(0)} RBT</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>到期忠誠獎勵:</span>
+                    <span className="text-green-600 font-mono">{stakePreview.loyaltyBonus.toFixed(0)} RBT</span>
                   </div>
                   <div className="flex justify-between">
                     <span>實際APY:</span>
-                    <span className="text-purple-600">{foundationLPData.apy}%</span>
+                    <span className="text-purple-600">{stakePreview.apy}%</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>獎勵歸屬:</span>
+                    <span>
+                      {stakePreview.tier.cliffDays >= stakePreview.tier.lockDays
+                        ? `到期一次歸屬 (${formatDate(stakePreview.unlockAt)})`
+                        : `${formatDate(stakePreview.cliffAt)} 起線性歸屬`}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>解鎖日期:</span>
+                    <span>{formatDate(stakePreview.unlockAt)}</span>
                   </div>
                 </div>
               )}
@@ -352,7 +492,7 @@ export const FoundationLPTab = () => {
               <Alert>
                 <Info className="w-4 h-4" />
                 <AlertDescription>
-                  <strong>重要提醒:</strong> Foundation LP 為180天鎖倉池，質押後無法提前取出。
+                  <strong>重要提醒:</strong> Foundation LP 為鎖倉池，提前解鎖需按已鎖倉比例支付本金 5%-20% 罰金，並放棄未歸屬獎勵與忠誠獎勵。
                   請確保您有足夠的流動性資金用於日常交易。
                 </AlertDescription>
               </Alert>
@@ -361,6 +501,181 @@ export const FoundationLPTab = () => {
         </CardContent>
       </Card>
 
+      {/* 質押倉位 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Calendar className="w-4 h-4 text-[#92318D]" />
+            <span>質押倉位</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {lockedPositions.length === 0 ? (
+            <div className="text-center text-gray-300 font-medium py-6">暫無鎖倉中的倉位</div>
+          ) : (
+            <div className="space-y-4">
+              {lockedPositions.map((position) => {
+                const { accrual } = position;
+                return (
+                  <div key={position.id} className="border rounded-lg p-4 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        <span className="font-mono">{position.principal.toLocaleString(undefined, { maximumFractionDigits: 2 })} RBT</span>
+                        <Badge variant="outline">{TIER_LABELS[position.tierId]} · {position.apy}%</Badge>
+                        {position.source !== 'stake' && (
+                          <Badge variant="outline">{EVENT_LABELS[position.source]}</Badge>
+                        )}
+                      </div>
+                      {accrual.matured ? (
+                        <Badge className="bg-green-100 text-green-700">
+                          <CheckCircle className="w-3 h-3 mr-1" />
+                          已到期
+                        </Badge>
+                      ) : (
+                        <span className="text-sm text-orange-600">剩餘 {Math.ceil(accrual.remainingDays)} 天</span>
+                      )}
+                    </div>
+
+                    <div>
+                      <Progress value={accrual.progress * 100} className="h-2" />
+                      <div className="flex justify-between text-xs text-gray-300 font-medium mt-1">
+                        <span>{formatDate(position.startAt)}</span>
+                        <span>{formatDate(position.unlockAt)}</span>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-2 text-sm">
+                      <div>
+                        <div className="text-gray-300">已累積</div>
+                        <div className="font-mono">{accrual.accrued.toFixed(2)}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-300">已歸屬</div>
+                        <div className="font-mono">{accrual.vested.toFixed(2)}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-300">可領取</div>
+                        <div className="font-mono text-green-600">{accrual.claimable.toFixed(2)}</div>
+                      </div>
+                    </div>
+
+                    {Date.now() < position.cliffAt && (
+                      <div className="text-xs text-gray-300 font-medium">
+                        <Clock className="w-3 h-3 inline mr-1" />
+                        獎勵於 {formatDate(position.cliffAt)} 開始歸屬
+                      </div>
+                    )}
+
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Input
+                        type="number"
+                        value={claimInputs[position.id] ?? ''}
+                        onChange={(e) => setClaimInputs(prev => ({ ...prev, [position.id]: e.target.value }))}
+                        placeholder="全部"
+                        className="w-32 h-8"
+                        disabled={accrual.claimable <= 0}
+                      />
+                      <Button size="sm" variant="outline" disabled={!canTransact || accrual.claimable <= 0} onClick={() => handleClaim(position.id)}>
+                        <Gift className="w-3 h-3 mr-1" />
+                        領取
+                      </Button>
+                      <Button size="sm" variant="outline" disabled={!canTransact || accrual.claimable <= 0} onClick={() => handleCompound(position.id)}>
+                        <RefreshCw className="w-3 h-3 mr-1" />
+                        複投
+                      </Button>
+                      {accrual.matured ? (
+                        <>
+                          <Button size="sm" disabled={!canTransact} onClick={() => handleUnlock(position.id)}>
+                            <Unlock className="w-3 h-3 mr-1" />
+                            解鎖
+                          </Button>
+                          <Button size="sm" variant="outline" disabled={!canTransact} onClick={() => handleRenew(position.id)}>
+                            <Lock className="w-3 h-3 mr-1" />
+                            續期（{TIER_LABELS[tierId]}）
+                          </Button>
+                        </>
+                      ) : (
+                        <Button size="sm" variant="outline" className="text-red-600" disabled={!canTransact} onClick={() => setConfirmUnlockId(position.id)}>
+                          <Unlock className="w-3 h-3 mr-1" />
+                          提前解鎖
+                        </Button>
+                      )}
+                    </div>
+
+                    {confirmUnlockId === position.id && unlockPreview && (
+                      <Alert>
+                        <AlertTriangle className="w-4 h-4" />
+                        <AlertDescription>
+                          <div className="space-y-1 text-sm">
+                            <div>罰金: {unlockPreview.penalty.toFixed(2)} RBT（本金 {(unlockPreview.penaltyRate * 100).toFixed(0)}%）</div>
+                            <div>放棄未歸屬獎勵: {unlockPreview.forfeited.toFixed(2)} RBT</div>
+                            <div>預計到賬: {unlockPreview.payout.toFixed(2)} RBT</div>
+                          </div>
+                          <div className="flex gap-2 mt-2">
+                            <Button size="sm" className="bg-red-600 hover:bg-red-700" onClick={() => handleUnlock(position.id)}>
+                              確認提前解鎖
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => setConfirmUnlockId(null)}>
+                              取消
+                            </Button>
+                          </div>
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 質押紀錄 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <History className="w-4 h-4 text-[#92318D]" />
+            <span>質押紀錄</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {history.length === 0 ? (
+            <div className="text-center text-gray-300 font-medium py-6">暫無紀錄</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-300 border-b">
+                    <th className="py-2">時間</th>
+                    <th className="py-2">類型</th>
+                    <th className="py-2 text-right">數量 (RBT)</th>
+                    <th className="py-2 text-right">罰金 / 放棄獎勵</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.map((event) => (
+                    <tr key={event.id} className="border-b last:border-0">
+                      <td className="py-2">{new Date(event.timestamp).toLocaleString()}</td>
+                      <td className="py-2">
+                        <Badge variant="outline" className={event.type === 'early_unlock' ? 'text-red-600' : ''}>
+                          {EVENT_LABELS[event.type]}
+                        </Badge>
+                      </td>
+                      <td className="py-2 text-right font-mono">{event.amount.toLocaleString(undefined, { maximumFractionDigits: 2 })}</td>
+                      <td className="py-2 text-right font-mono text-red-600">
+                        {event.penalty !== undefined
+                          ? `${event.penalty.toFixed(2)} / ${(event.forfeited ?? 0).toFixed(2)}`
+                          : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* 獎勵機制詳情 */}
       <Card>
         <CardHeader>
@@ -404,7 +719,7 @@ export const FoundationLPTab = () => {
                   <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
                   <div className="text-sm">
                     <div>每日獎勵發放</div>
-                    <div className="text-gray-300 font-medium">持續180天</div>
+                    <div className="text-gray-300 font-medium">鎖倉期間線性累積</div>
                   </div>
                 </div>
                 <div className="border-l-2 border-gray-200 ml-1.5 h-4"></div>
@@ -421,8 +736,9 @@ export const FoundationLPTab = () => {
                 <div className="text-yellow-800 text-sm">
                   <strong>Foundation LP 專屬福利:</strong>
                   <ul className="list-disc list-inside mt-2 space-y-1">
-                    <li>前50名參與者額外20%獎勵</li>
-                    <li>完成180天鎖倉額外50%獎勵</li>
+                    <li>鎖倉最長{Math.max(...FOUNDATION_STAKING_TIERS.map(tier => tier.lockDays))}天，APY最高{foundationLPData.bonusMultiplier}倍加成</li>
+                    <li>鎖滿到期額外{FOUNDATION_STAKING.LOYALTY_BONUS * 100}%忠誠獎勵</li>
+                    <li>到期可一鍵續期或複投獎勵</li>
                     <li>平台治理投票權</li>
                     <li>VIP客服專屬通道</li>
                   </ul>
@@ -434,4 +750,4 @@ export const FoundationLPTab = () => {
       </Card>
     </div>
   );
-};
\ No newline at end of file
+};
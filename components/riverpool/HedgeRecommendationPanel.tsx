@@ -0,0 +1,278 @@
+import React, { useState } from 'react';
+import { Shield, PlayCircle, Send, History, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import LiquidGlassCard from '../ui/LiquidGlassCard';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { HEDGE_POLICY, RISK_THRESHOLDS } from '../../constants/riverPoolConstants';
+import { useHedgeRecommender } from '../../hooks/useHedgeRecommender';
+import { hedgeRecommender, type HedgeBatch } from '../../services/HedgeRecommender';
+import { formatCurrency, getPositionSideText } from '../../utils/riverPoolUtils';
+
+const formatDelta = (value: number) => `${value < 0 ? '-' : ''}${formatCurrency(Math.abs(value))}`;
+
+const formatExposure = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const getExposureColor = (value: number, limit: number) =>
+  Math.abs(value) > limit ? 'text-red-400' : Math.abs(value) > limit * 0.8 ? 'text-yellow-400' : 'text-green-400';
+
+const BATCH_STATUS_STYLES: Record<HedgeBatch['status'], string> = {
+  completed: 'bg-green-400/10 text-green-400 border-green-400/30',
+  partial: 'bg-yellow-400/10 text-yellow-400 border-yellow-400/30',
+  failed: 'bg-red-400/10 text-red-400 border-red-400/30'
+};
+
+export const HedgeRecommendationPanel: React.FC = () => {
+  const [targetExposure, setTargetExposure] = useState<number>(RISK_THRESHOLDS.EXPOSURE_NORMAL);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isClosing, setIsClosing] = useState(false);
+  const { delta, plan, batches } = useHedgeRecommender({ targetExposure, aggregateLimit: RISK_THRESHOLDS.EXPOSURE_MAX });
+
+  const handleSimulate = () => {
+    const batch = hedgeRecommender.simulate(plan);
+    toast.success(`Simulated ${batch.orders.length} hedge orders: net exposure ${formatExposure(batch.netExposureAfter)}`);
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      const batch = await hedgeRecommender.submit(plan);
+      const filled = batch.orders.filter(order => order.status === 'filled').length;
+      if (batch.status === 'completed') {
+        toast.success(`Hedge batch filled: ${filled} orders`);
+      } else {
+        toast.error(`Hedge batch ${batch.status}: ${filled} of ${batch.orders.length} orders filled`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to submit hedge batch');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCloseHedges = async () => {
+    setIsClosing(true);
+    try {
+      const failed = await hedgeRecommender.closeHedges();
+      if (failed.length === 0) {
+        toast.success('All hedge positions closed');
+      } else {
+        toast.error(`Failed to close hedges: ${failed.join(', ')}`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to close hedges');
+    } finally {
+      setIsClosing(false);
+    }
+  };
+
+  return (
+    <LiquidGlassCard variant="trading" className="p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-to-r from-amber-500 to-amber-600 rounded-lg flex items-center justify-center">
+            <Shield className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-white">Net Exposure Hedging</h3>
+            <p className="text-sm text-gray-400">
+              Per-asset target {targetExposure}% · aggregate limit {RISK_THRESHOLDS.EXPOSURE_MAX}% of TVL
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          {[RISK_THRESHOLDS.EXPOSURE_NORMAL, RISK_THRESHOLDS.EXPOSURE_WARNING, RISK_THRESHOLDS.EXPOSURE_MAX].map(level => (
+            <Button
+              key={level}
+              size="sm"
+              variant={targetExposure === level ? 'default' : 'outline'}
+              onClick={() => setTargetExposure(level)}
+              className="text-xs"
+            >
+              {level}%
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {/* Pool delta */}
+      <div className="grid grid-cols-4 gap-4 mb-6">
+        <div className="text-center p-3 bg-white/5 rounded-lg border border-white/10">
+          <div className="text-sm text-gray-400 mb-1">Net Delta</div>
+          <div className="text-xl font-bold text-white">{formatDelta(delta.netDeltaUsd)}</div>
+        </div>
+        <div className="text-center p-3 bg-white/5 rounded-lg border border-white/10">
+          <div className="text-sm text-gray-400 mb-1">Net Exposure</div>
+          <div className={`text-xl font-bold ${getExposureColor(delta.netExposurePercent, RISK_THRESHOLDS.EXPOSURE_MAX)}`}>
+            {formatExposure(delta.netExposurePercent)}
+          </div>
+        </div>
+        <div className="text-center p-3 bg-white/5 rounded-lg border border-white/10">
+          <div className="text-sm text-gray-400 mb-1">Gross Exposure</div>
+          <div className="text-xl font-bold text-white">{delta.grossExposurePercent.toFixed(2)}%</div>
+        </div>
+        <div className="text-center p-3 bg-white/5 rounded-lg border border-white/10">
+          <div className="text-sm text-gray-400 mb-1">After Hedge</div>
+          <div className={`text-xl font-bold ${getExposureColor(plan.after.netExposurePercent, RISK_THRESHOLDS.EXPOSURE_MAX)}`}>
+            {formatExposure(plan.after.netExposurePercent)}
+          </div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto mb-6">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-400 border-b border-slate-700/50">
+              <th className="text-left py-2">Asset</th>
+              <th className="text-left py-2">Side</th>
+              <th className="text-right py-2">Net Size</th>
+              <th className="text-right py-2">Hedged</th>
+              <th className="text-right py-2">Delta</th>
+              <th className="text-right py-2">Exposure</th>
+              <th className="text-right py-2">After Hedge</th>
+            </tr>
+          </thead>
+          <tbody>
+            {delta.assets.map(asset => {
+              const after = plan.after.assets.find(item => item.symbol === asset.symbol);
+              return (
+                <tr key={asset.symbol} className="border-b border-slate-800/50">
+                  <td className="py-2 text-white font-medium">{asset.symbol}</td>
+                  <td className={`py-2 ${asset.netSize >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    {getPositionSideText(asset.side)}
+                  </td>
+                  <td className="py-2 text-right font-mono text-white">{asset.netSize.toFixed(2)}</td>
+                  <td className="py-2 text-right font-mono text-gray-300">{asset.hedgedSize.toFixed(2)}</td>
+                  <td className="py-2 text-right font-mono text-white">{formatDelta(asset.deltaUsd)}</td>
+                  <td className={`py-2 text-right font-mono ${getExposureColor(asset.exposurePercent, targetExposure)}`}>
+                    {formatExposure(asset.exposurePercent)}
+                  </td>
+                  <td className={`py-2 text-right font-mono ${getExposureColor(after?.exposurePercent ?? 0, targetExposure)}`}>
+                    {formatExposure(after?.exposurePercent ?? 0)}
+                  </td>
+                </tr>
+              );
+            })}
+            {delta.proxies.map(proxy => (
+              <tr key={proxy.symbol} className="border-b border-slate-800/50">
+                <td className="py-2 text-white font-medium">{proxy.symbol}</td>
+                <td className="py-2 text-gray-400">Proxy (ρ {proxy.correlation.toFixed(2)})</td>
+                <td className="py-2 text-right font-mono text-white">{proxy.quantity.toFixed(2)}</td>
+                <td className="py-2 text-right font-mono text-gray-300">{proxy.quantity.toFixed(2)}</td>
+                <td className="py-2 text-right font-mono text-gray-500" colSpan={3}>Counted in aggregate</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Recommended hedge batch */}
+      <div className="mb-6">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="font-semibold text-white">Recommended Hedges</h4>
+          <Badge variant="outline" className={plan.withinLimits
+            ? 'bg-green-400/10 text-green-400 border-green-400/30'
+            : 'bg-red-400/10 text-red-400 border-red-400/30'}>
+            {plan.withinLimits ? 'Within limits after hedge' : 'Limits not reachable'}
+          </Badge>
+        </div>
+
+        {plan.orders.length === 0 ? (
+          <div className="text-sm text-gray-400 p-4 bg-white/5 rounded-lg border border-white/10">
+            Exposure is within limits; no hedge needed.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 border-b border-slate-700/50">
+                  <th className="text-left py-2">Type</th>
+                  <th className="text-left py-2">Market</th>
+                  <th className="text-left py-2">Side</th>
+                  <th className="text-right py-2">Size</th>
+                  <th className="text-right py-2">Notional</th>
+                  <th className="text-right py-2">Exposure Cut</th>
+                  <th className="text-right py-2">Fee</th>
+                  <th className="text-right py-2">Funding ({HEDGE_POLICY.FUNDING_HORIZON_HOURS}h)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.orders.map(order => (
+                  <tr key={order.id} className="border-b border-slate-800/50">
+                    <td className="py-2 text-gray-300">
+                      {order.kind === 'offset' ? 'Offset' : `Proxy (ρ ${order.correlation.toFixed(2)})`}
+                    </td>
+                    <td className="py-2 text-white font-medium">{order.symbol}</td>
+                    <td className={`py-2 ${order.side === 'buy' ? 'text-green-400' : 'text-red-400'}`}>
+                      {order.side === 'buy' ? 'Buy' : 'Sell'}
+                    </td>
+                    <td className="py-2 text-right font-mono text-white">{Math.abs(order.quantity).toFixed(2)}</td>
+                    <td className="py-2 text-right font-mono text-white">{formatCurrency(order.notional)}</td>
+                    <td className="py-2 text-right font-mono text-blue-400">-{order.exposureReduction.toFixed(2)}%</td>
+                    <td className="py-2 text-right font-mono text-gray-300">${order.fee.toFixed(2)}</td>
+                    <td className={`py-2 text-right font-mono ${order.funding > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                      {order.funding > 0 ? '-' : '+'}${Math.abs(order.funding).toFixed(2)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between mt-4">
+          <div className="text-sm text-gray-400">
+            Notional {formatCurrency(plan.totalNotional)} · fees ${plan.totalFee.toFixed(2)} · funding{' '}
+            {plan.totalFunding > 0 ? '-' : '+'}${Math.abs(plan.totalFunding).toFixed(2)} · net cost{' '}
+            <span className={plan.totalCost > 0 ? 'text-red-400' : 'text-green-400'}>${plan.totalCost.toFixed(2)}</span>
+          </div>
+          <div className="flex gap-2">
+            {hedgeRecommender.getHedges().length > 0 && (
+              <Button size="sm" variant="outline" disabled={isClosing || isSubmitting} onClick={handleCloseHedges}>
+                <XCircle className="w-4 h-4 mr-2" />
+                {isClosing ? 'Closing...' : 'Close Hedges'}
+              </Button>
+            )}
+            <Button size="sm" variant="outline" disabled={plan.orders.length === 0} onClick={handleSimulate}>
+              <PlayCircle className="w-4 h-4 mr-2" />
+              Simulate
+            </Button>
+            <Button size="sm" disabled={plan.orders.length === 0 || isSubmitting} onClick={handleSubmit}>
+              <Send className="w-4 h-4 mr-2" />
+              {isSubmitting ? 'Submitting...' : 'Submit Hedge Batch'}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Batch history */}
+      {batches.length > 0 && (
+        <div>
+          <div className="flex items-center gap-2 mb-3">
+            <History className="w-4 h-4 text-gray-400" />
+            <h4 className="font-semibold text-white">Hedge Batches</h4>
+          </div>
+          <div className="space-y-2">
+            {batches.slice(0, 5).map(batch => (
+              <div key={batch.id} className="flex items-center justify-between p-3 bg-white/5 rounded-lg border border-white/10 text-sm">
+                <div className="flex items-center gap-3">
+                  <Badge variant="outline" className={BATCH_STATUS_STYLES[batch.status]}>
+                    {batch.mode === 'simulated' ? 'Simulated' : batch.status}
+                  </Badge>
+                  <span className="text-gray-300">{batch.orders.map(order => `${order.side === 'buy' ? '+' : '-'}${order.symbol}`).join(', ')}</span>
+                </div>
+                <div className="flex items-center gap-4 text-gray-400">
+                  <span>Net {formatExposure(batch.netExposureAfter)}</span>
+                  <span>Cost ${batch.totalCost.toFixed(2)}</span>
+                  <span>{new Date(batch.createdAt).toLocaleString()}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </LiquidGlassCard>
+  );
+};
+
+export default HedgeRecommendationPanel;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Button } from '../ui/button';
 import { Badge } from '../ui/badge';
@@ -9,9 +9,49 @@ import {
   Shield, Target, AlertTriangle
 } from 'lucide-react';
 import { mockTransactionHistory, revenueHistory, riskEventHistory } from '../../data/riverPoolData';
+import { useEventHistory } from '../../hooks/useEventHistory';
+import { getChainAdapter } from '../../services/ChainAdapter';
+import { getTransactionExplorerUrl } from '../../utils/transactionHistory';
+import { transactionTracker } from '../../services/TransactionTracker';
+import { splitRevenue } from '../../services/PoolAccounting';
+import { REVENUE_SPLIT } from '../../constants/riverPoolConstants';
 
 export const HistoryTab: React.FC = () => {
   const [historyTab, setHistoryTab] = useState('pool');
+  const walletAddress = getChainAdapter().getAddress();
+  const { transfers } = useEventHistory(walletAddress);
+
+  // 已連接錢包時顯示索引器中的 LP 記錄，未連接時展示示例數據
+  const poolHistory = useMemo(() => {
+    if (!walletAddress) return mockTransactionHistory;
+    return transfers
+      .filter(transfer => transfer.type === 'pool_deposit' || transfer.type === 'pool_withdraw')
+      .map(transfer => ({
+        date: new Date(transfer.timestamp).toLocaleString('zh-TW', { hour12: false }),
+        type: transfer.type === 'pool_deposit' ? 'deposit' as const : 'withdraw' as const,
+        amount: transfer.amount.toFixed(2),
+        rLP: ((transfer.type === 'pool_withdraw' ? -1 : 1) * (transfer.shares ?? 0)).toFixed(2),
+        price: (transfer.sharePrice ?? 0).toFixed(4),
+        fee: '0.00',
+        hash: transfer.txHash,
+        status: 'confirmed' as const
+      }));
+  }, [walletAddress, transfers]);
+
+  // 導出本錢包經交易跟踪器提交的 LP 存取交易
+  const handleExportCsv = () => {
+    if (!walletAddress) return;
+    const csv = transactionTracker.exportCsv(walletAddress, { types: ['pool_deposit', 'pool_withdraw'] });
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `riverpool_transactions_${new Date().toISOString().split('T')[0]}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
 
   return (
     <div className="space-y-6">
@@ -44,7 +84,7 @@ export const HistoryTab: React.FC = () => {
                   <Activity className="w-4 h-4 mr-2 text-green-600" />
                   RiverPool 交易歷史
                 </div>
-                <Button variant="outline" size="sm">
+                <Button variant="outline" size="sm" onClick={handleExportCsv} disabled={!walletAddress}>
                   <Download className="w-4 h-4 mr-2" />
                   導出 CSV
                 </Button>
@@ -52,7 +92,10 @@ export const HistoryTab: React.FC = () => {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {mockTransactionHistory.map((tx, index) => (
+                {poolHistory.length === 0 && (
+                  <div className="py-8 text-center text-sm text-gray-300">暫無 LP 記錄</div>
+                )}
+                {poolHistory.map((tx, index) => (
                   <div key={index} className="flex items-center justify-between p-4 border rounded-lg hover:bg-slate-800/50 transition-colors">
                     <div className="flex items-center space-x-4">
                       <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
@@ -71,7 +114,7 @@ export const HistoryTab: React.FC = () => {
                            '收益分配'}
                         </div>
                         <div className="text-sm text-gray-300 font-medium">{tx.date}</div>
-                        <div className="text-xs text-gray-300">TxHash: {tx.hash}</div>
+                        <div className="text-xs text-gray-300">TxHash: {tx.hash.length > 14 ? `${tx.hash.slice(0, 10)}...` : tx.hash}</div>
                       </div>
                     </div>
                     
@@ -106,7 +149,13 @@ export const HistoryTab: React.FC = () => {
                       <Badge variant="secondary" className="text-xs">
                         {tx.status === 'confirmed' ? '已確認' : '待確認'}
                       </Badge>
-                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        disabled={!/^0x[0-9a-fA-F]{64}$/.test(tx.hash)}
+                        onClick={() => window.open(getTransactionExplorerUrl(tx.hash), '_blank')}
+                      >
                         <ExternalLink className="w-4 h-4" />
                       </Button>
                     </div>
@@ -178,13 +227,13 @@ export const HistoryTab: React.FC = () => {
                       </div>
                       
                       <div>
-                        <div className="text-gray-300 font-medium">LP 分配 (80%)</div>
-                        <div className="font-bold text-green-600">${revenue.lpShare.toLocaleString()}</div>
+                        <div className="text-gray-300 font-medium">LP 分配 ({REVENUE_SPLIT.LP_SHARE * 100}%)</div>
+                        <div className="font-bold text-green-600">${splitRevenue(revenue.totalRevenue).lpShare.toLocaleString()}</div>
                       </div>
                       
                       <div>
-                        <div className="text-gray-300 font-medium">平台分配 (20%)</div>
-                        <div className="font-bold text-gray-300">${revenue.platformShare.toLocaleString()}</div>
+                        <div className="text-gray-300 font-medium">平台分配 ({REVENUE_SPLIT.PLATFORM_SHARE * 100}%)</div>
+                        <div className="font-bold text-gray-300">${splitRevenue(revenue.totalRevenue).platformShare.toLocaleString()}</div>
                       </div>
                       
                       <div>
@@ -294,7 +343,7 @@ export const HistoryTab: React.FC = () => {
                 </div>
                 <div className="p-4 bg-green-50 rounded-lg text-center">
                   <div className="text-2xl font-bold text-green-600">
-                    ${revenueHistory.reduce((sum, r) => sum + r.lpShare, 0).toLocaleString()}
+                    ${revenueHistory.reduce((sum, r) => sum + splitRevenue(r.totalRevenue).lpShare, 0).toLocaleString()}
                   </div>
                   <div className="text-sm text-green-700 mt-1">LP 總分配</div>
                 </div>
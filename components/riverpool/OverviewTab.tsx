@@ -3,11 +3,16 @@ import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Wallet, TrendingUp, DollarSign, Target, Activity } from 'lucide-react';
 import LiquidGlassCard from '../ui/LiquidGlassCard';
 import RiverBentoGrid from '../ui/RiverBentoGrid';
-import { poolData, userData } from '../../data/riverPoolData';
+import { userData } from '../../data/riverPoolData';
+import { useRiverBitWeb3 } from '../../providers/RiverBitWeb3Provider';
+import { usePoolAccounting } from '../../hooks/usePoolAccounting';
 
 export const OverviewTab: React.FC = () => {
+  const { isConnected, address } = useRiverBitWeb3();
+  const { nav, share } = usePoolAccounting(isConnected ? address : null);
+
   // Calculate enhanced metrics
-  const portfolioValue = userData.rLPHolding * poolData.rLPPrice;
+  const portfolioValue = share.value;
   const todayGain = userData.todayEarnings;
   const todayGainPercent = portfolioValue > 0 ? (todayGain / portfolioValue) * 100 : 0;
   const unrealizedPnL = 425.82;
@@ -48,12 +53,12 @@ export const OverviewTab: React.FC = () => {
         <div className="grid grid-cols-3 gap-4">
           <div className="text-center p-4 bg-river-surface/10 rounded-xl border border-river-surface/20 hover:bg-river-surface/15 transition-all duration-300">
             <div className="text-sm text-river-surface/70 mb-2 font-medium">Pool Share</div>
-            <div className="text-xl font-bold text-white">{userData.sharePercent.toFixed(3)}%</div>
+            <div className="text-xl font-bold text-white">{share.sharePercent.toFixed(3)}%</div>
             <div className="text-xs text-gray-400 mt-1">Your ownership</div>
           </div>
           <div className="text-center p-4 bg-river-glow/10 rounded-xl border border-river-glow/20 hover:bg-river-glow/15 transition-all duration-300">
             <div className="text-sm text-river-glow/70 mb-2 font-medium">rLP Price</div>
-            <div className="text-xl font-bold text-white">${poolData.rLPPrice.toFixed(4)}</div>
+            <div className="text-xl font-bold text-white">${nav.rLPPrice.toFixed(4)}</div>
             <div className="text-xs text-gray-400 mt-1">Current rate</div>
           </div>
           <div className="text-center p-4 bg-river-profit/10 rounded-xl border border-river-profit/20 hover:bg-river-profit/15 transition-all duration-300">
@@ -86,13 +91,13 @@ export const OverviewTab: React.FC = () => {
             
             <div className="space-y-3">
               <div className="text-3xl font-bold text-white number-animate tracking-tight">
-                {userData.rLPHolding.toLocaleString()}
+                {share.shares.toLocaleString()}
               </div>
               <div className="text-sm text-gray-300">
-                Current Price: <span className="font-mono text-river-glow font-semibold">${poolData.rLPPrice.toFixed(4)}</span>
+                Current Price: <span className="font-mono text-river-glow font-semibold">${nav.rLPPrice.toFixed(4)}</span>
               </div>
               <div className="text-xs text-gray-400">
-                Total Supply: {(poolData.totalSupply || 1000000).toLocaleString()} rLP
+                Total Supply: {nav.totalSupply.toLocaleString(undefined, { maximumFractionDigits: 0 })} rLP
               </div>
             </div>
             
@@ -100,12 +105,12 @@ export const OverviewTab: React.FC = () => {
             <div className="mt-4">
               <div className="flex justify-between text-xs text-gray-400 mb-2">
                 <span className="font-medium">Pool Share</span>
-                <span className="text-river-surface font-semibold">{userData.sharePercent.toFixed(3)}%</span>
+                <span className="text-river-surface font-semibold">{share.sharePercent.toFixed(3)}%</span>
               </div>
               <div className="w-full bg-gray-700/50 rounded-full h-2 overflow-hidden">
                 <div 
                   className="bg-gradient-to-r from-river-surface to-river-glow h-2 rounded-full transition-all duration-500 shadow-glow"
-                  style={{ width: `${Math.min(userData.sharePercent * 4, 100)}%` }}
+                  style={{ width: `${Math.min(share.sharePercent * 4, 100)}%` }}
                 ></div>
               </div>
             </div>
@@ -142,10 +147,10 @@ export const OverviewTab: React.FC = () => {
                 ${portfolioValue.toLocaleString('en-US', { minimumFractionDigits: 2 })}
               </div>
               <div className="text-sm text-gray-300">
-                Pool Share: <span className="font-mono text-river-glow font-semibold">{userData.sharePercent.toFixed(3)}%</span>
+                Pool Share: <span className="font-mono text-river-glow font-semibold">{share.sharePercent.toFixed(3)}%</span>
               </div>
               <div className="text-xs text-gray-400">
-                {userData.rLPHolding.toLocaleString()} rLP × ${poolData.rLPPrice.toFixed(4)}
+                {share.shares.toLocaleString()} rLP × ${nav.rLPPrice.toFixed(4)}
               </div>
             </div>
             
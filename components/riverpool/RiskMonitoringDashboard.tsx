@@ -39,9 +39,22 @@ import {
   Target,
   Clock,
   DollarSign,
-  Percent
+  Percent,
+  Play,
+  LifeBuoy
 } from 'lucide-react';
 import { toast } from 'sonner';
+import {
+  portfolioRiskEngine,
+  toPortfolioAccount,
+  type PortfolioRiskReport
+} from '../../utils/tradingAssistant/portfolioRisk';
+import {
+  insuranceFundSimulator,
+  type RiskEventType,
+  type ScenarioResult
+} from '../../services/InsuranceFundSimulator';
+import { useInsuranceFundSimulator } from '../../hooks/useInsuranceFundSimulator';
 
 interface PoolRiskMetric {
   id: string;
@@ -56,7 +69,7 @@ interface PoolRiskMetric {
   impact: 'low' | 'medium' | 'high';
 }
 
-interface PoolData {
+export interface PoolData {
   id: string;
   name: string;
   tvl: number;
@@ -79,15 +92,43 @@ interface RiskAlert {
   acknowledged: boolean;
 }
 
+// 池子作为交易对手方的单个净持仓
+export interface PoolExposurePosition {
+  symbol: string;
+  side: 'long' | 'short';
+  notionalValue: number; // USD
+  markPrice: number;
+  entryPrice: number;
+}
+
+// 池子作为交易对手方的净持仓（与交易者方向相反）及其抵押资金
+export interface PoolExposure {
+  balance: number;
+  positions: PoolExposurePosition[];
+}
+
 interface RiskMonitoringDashboardProps {
   poolData: PoolData[];
   userDeposits: { poolId: string; amount: number }[];
+  poolExposure?: PoolExposure;
   className?: string;
 }
 
+const SCENARIO_EVENT_LABELS: Record<RiskEventType, string> = {
+  exposure_warning: '敞口预警',
+  drawdown_alert: '回撤告警',
+  funding_spike: '资金费异常',
+  insurance_draw: '动用保险基金',
+  adl_triggered: '触发 ADL'
+};
+
+const formatUsd = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
 const RiskMonitoringDashboard: React.FC<RiskMonitoringDashboardProps> = ({
   poolData,
   userDeposits,
+  poolExposure,
   className = ''
 }) => {
   // Monitoring state
@@ -104,6 +145,13 @@ const RiskMonitoringDashboard: React.FC<RiskMonitoringDashboardProps> = ({
   const [alertHistory, setAlertHistory] = useState<RiskAlert[]>([]);
   const [soundEnabled, setSoundEnabled] = useState(true);
   const [selectedPool, setSelectedPool] = useState<string | null>(null);
+  const [poolRiskReport, setPoolRiskReport] = useState<PortfolioRiskReport | null>(null);
+
+  // Insurance fund / ADL scenario runs against the pool ledger
+  const { scenarios, runs } = useInsuranceFundSimulator();
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [customShock, setCustomShock] = useState('-20');
+  const [fundOverride, setFundOverride] = useState('');
 
   // Calculate risk metrics for each pool
   const calculateRiskMetrics = (pool: PoolData): PoolRiskMetric[] => {
@@ -301,6 +349,69 @@ const RiskMonitoringDashboard: React.FC<RiskMonitoringDashboardProps> = ({
     return () => clearInterval(interval);
   }, [poolData, userDeposits, alertThresholds, isMonitoringEnabled, soundEnabled]);
 
+  // 池子净敞口的 VaR 与压力测试
+  useEffect(() => {
+    if (!poolExposure) {
+      setPoolRiskReport(null);
+      return;
+    }
+
+    let cancelled = false;
+    portfolioRiskEngine.analyze(toPortfolioAccount(poolExposure))
+      .then(report => {
+        if (!cancelled) setPoolRiskReport(report);
+      })
+      .catch(error => console.error('Pool stress test failed:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [poolExposure]);
+
+  const runScenarioSafely = (run: () => ScenarioResult) => {
+    try {
+      const result = run();
+      setSelectedRunId(result.id);
+      if (result.socializedLoss > 0) {
+        toast.error(`${result.scenario.name}: 穿仓损失 ${formatUsd(result.socializedLoss)} 由 rLP 承担`);
+      } else if (result.adl.length > 0) {
+        toast.warning(`${result.scenario.name}: 保险基金耗尽，ADL 减仓 ${result.adl.length} 个账户`);
+      }
+    } catch (error) {
+      console.error('Scenario run failed:', error);
+      toast.error(`场景模拟失败: ${(error as Error).message}`);
+    }
+  };
+
+  const simulationOptions = () => {
+    const fund = parseFloat(fundOverride);
+    return fundOverride !== '' && fund >= 0 ? { insuranceFund: fund } : {};
+  };
+
+  const runCustomScenario = () => {
+    const shock = parseFloat(customShock);
+    if (!Number.isFinite(shock) || shock <= -100) {
+      toast.error('请输入有效的价格冲击 (%)');
+      return;
+    }
+    runScenarioSafely(() => insuranceFundSimulator.run(
+      { id: `custom-${shock}`, name: `自定义 ${shock > 0 ? '+' : ''}${shock}%`, marketShock: shock / 100 },
+      simulationOptions()
+    ));
+  };
+
+  const runAllScenarios = () => {
+    try {
+      const results = insuranceFundSimulator.runAll(simulationOptions());
+      setSelectedRunId(results[0]?.id ?? null);
+    } catch (error) {
+      console.error('Scenario run failed:', error);
+      toast.error(`场景模拟失败: ${(error as Error).message}`);
+    }
+  };
+
+  const selectedRun = runs.find(run => run.id === selectedRunId) ?? runs[0] ?? null;
+
   // Acknowledge alert
   const acknowledgeAlert = (alertId: string) => {
     setActiveAlerts(prev => prev.filter(alert => alert.id !== alertId));
@@ -562,6 +673,8 @@ const RiskMonitoringDashboard: React.FC<RiskMonitoringDashboardProps> = ({
       <Tabs defaultValue="metrics" className="w-full">
         <TabsList>
           <TabsTrigger value="metrics">风险指标</TabsTrigger>
+          <TabsTrigger value="stress">压力测试</TabsTrigger>
+          <TabsTrigger value="insurance">保险基金 / ADL</TabsTrigger>
           <TabsTrigger value="trends">趋势分析</TabsTrigger>
           <TabsTrigger value="history">告警历史</TabsTrigger>
         </TabsList>
@@ -630,6 +743,294 @@ const RiskMonitoringDashboard: React.FC<RiskMonitoringDashboardProps> = ({
           </div>
         </TabsContent>
 
+        <TabsContent value="stress" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Zap className="w-5 h-5" />
+                <span>风险价值与压力测试</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {!poolRiskReport || poolRiskReport.grossNotional === 0 ? (
+                <div className="text-center py-12 text-secondary">
+                  <Zap className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p>暂无池子净敞口数据</p>
+                </div>
+              ) : (
+                <div className="space-y-6">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div>
+                      <div className="text-xs text-secondary">历史模拟 VaR</div>
+                      <div className="text-lg font-bold text-red-500">
+                        {poolRiskReport.historical ? `$${poolRiskReport.historical.valueAtRisk.toLocaleString(undefined, { maximumFractionDigits: 0 })}` : 'N/A'}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-secondary">历史模拟 CVaR</div>
+                      <div className="text-lg font-bold text-red-500">
+                        {poolRiskReport.historical ? `$${poolRiskReport.historical.expectedShortfall.toLocaleString(undefined, { maximumFractionDigits: 0 })}` : 'N/A'}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-secondary">参数法 VaR</div>
+                      <div className="text-lg font-bold text-red-500">
+                        {poolRiskReport.parametric ? `$${poolRiskReport.parametric.valueAtRisk.toLocaleString(undefined, { maximumFractionDigits: 0 })}` : 'N/A'}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-secondary">保证金率</div>
+                      <div className="text-lg font-bold">{poolRiskReport.marginRatio.toFixed(1)}%</div>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    {poolRiskReport.stressTests.map(test => (
+                      <div key={test.scenario.id} className="p-3 bg-surface-2 rounded-lg">
+                        <div className="flex items-center justify-between mb-1">
+                          <span className="text-sm font-medium">{test.scenario.name}</span>
+                          <div className="flex items-center space-x-2">
+                            {test.liquidations.length > 0 && (
+                              <Badge variant="destructive" className="text-xs">强平 {test.liquidations.join(', ')}</Badge>
+                            )}
+                            <span className={`text-sm font-bold ${test.totalPnl < 0 ? 'text-red-500' : 'text-green-500'}`}>
+                              {test.totalPnl < 0 ? '-' : '+'}${Math.abs(test.totalPnl).toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                            </span>
+                          </div>
+                        </div>
+                        <div className="flex justify-between text-xs text-secondary">
+                          <span>
+                            {test.positions.map(p => `${p.symbol} ${p.pnl >= 0 ? '+' : ''}${p.pnl.toFixed(0)}`).join(' · ')}
+                          </span>
+                          <span>保证金率 {test.marginRatioBefore.toFixed(1)}% → {test.marginRatioAfter.toFixed(1)}%</span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  {poolRiskReport.missingHistory.length > 0 && (
+                    <p className="text-xs text-secondary">缺少价格历史: {poolRiskReport.missingHistory.join(', ')}</p>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="insurance" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <LifeBuoy className="w-5 h-5" />
+                <span>保险基金与自动减仓模拟</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  {scenarios.map(scenario => (
+                    <Button
+                      key={scenario.id}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => runScenarioSafely(() => insuranceFundSimulator.run(scenario, simulationOptions()))}
+                    >
+                      <Play className="w-3 h-3 mr-1" />
+                      {scenario.name}
+                    </Button>
+                  ))}
+                  <Button size="sm" onClick={runAllScenarios}>
+                    <Zap className="w-3 h-3 mr-1" />
+                    运行全部
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                  <div>
+                    <Label>统一价格冲击 (%)</Label>
+                    <Input
+                      type="number"
+                      value={customShock}
+                      onChange={(e) => setCustomShock(e.target.value)}
+                      className="mt-1"
+                    />
+                  </div>
+                  <div>
+                    <Label>保险基金余额 (留空使用当前账本)</Label>
+                    <Input
+                      type="number"
+                      value={fundOverride}
+                      onChange={(e) => setFundOverride(e.target.value)}
+                      placeholder="USDC"
+                      className="mt-1"
+                    />
+                  </div>
+                  <Button variant="outline" onClick={runCustomScenario}>
+                    <Play className="w-4 h-4 mr-2" />
+                    运行自定义场景
+                  </Button>
+                </div>
+
+                {!selectedRun ? (
+                  <div className="text-center py-12 text-secondary">
+                    <LifeBuoy className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                    <p>选择一个场景开始模拟</p>
+                  </div>
+                ) : (
+                  <div className="space-y-6">
+                    <div className="flex items-center justify-between">
+                      <div className="font-medium">{selectedRun.scenario.name}</div>
+                      <div className="flex items-center space-x-2">
+                        {selectedRun.events.map(event => (
+                          <Badge
+                            key={`${event.type}-${event.symbol}`}
+                            variant={event.type === 'adl_triggered' || event.type === 'drawdown_alert' ? 'destructive' : 'secondary'}
+                            className="text-xs"
+                          >
+                            {SCENARIO_EVENT_LABELS[event.type]}{event.symbol !== 'ALL' ? ` ${event.symbol}` : ''}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                      <div>
+                        <div className="text-xs text-secondary">强平账户</div>
+                        <div className="text-lg font-bold">{selectedRun.liquidations.length}</div>
+                      </div>
+                      <div>
+                        <div className="text-xs text-secondary">穿仓缺口</div>
+                        <div className="text-lg font-bold text-red-500">{formatUsd(selectedRun.shortfall)}</div>
+                      </div>
+                      <div>
+                        <div className="text-xs text-secondary">保险基金</div>
+                        <div className={`text-lg font-bold ${selectedRun.fundDepleted ? 'text-red-500' : ''}`}>
+                          {formatUsd(selectedRun.insuranceFundBefore)} → {formatUsd(selectedRun.insuranceFundAfter)}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-xs text-secondary">ADL 覆盖 / rLP 分摊</div>
+                        <div className="text-lg font-bold">
+                          {formatUsd(selectedRun.adlCovered)} / <span className="text-red-500">{formatUsd(selectedRun.socializedLoss)}</span>
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-xs text-secondary">池子盯市盈亏</div>
+                        <div className={`text-lg font-bold ${selectedRun.poolPnl < 0 ? 'text-red-500' : 'text-green-500'}`}>
+                          {formatUsd(selectedRun.poolPnl)}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-xs text-secondary">NAV 影响</div>
+                        <div className={`text-lg font-bold ${selectedRun.navImpact < 0 ? 'text-red-500' : 'text-green-500'}`}>
+                          {formatUsd(selectedRun.navImpact)} ({selectedRun.navImpactPercent.toFixed(2)}%)
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-xs text-secondary">rLP 价格</div>
+                        <div className="text-lg font-bold">
+                          {selectedRun.rLPPriceBefore.toFixed(4)} → {selectedRun.rLPPriceAfter.toFixed(4)}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-xs text-secondary">强平费收入</div>
+                        <div className="text-lg font-bold text-green-500">{formatUsd(selectedRun.liquidationFees)}</div>
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium">各市场影响</h4>
+                      {selectedRun.symbols.map(impact => (
+                        <div key={impact.symbol} className="p-3 bg-surface-2 rounded-lg">
+                          <div className="flex items-center justify-between mb-1">
+                            <span className="text-sm font-medium">
+                              {impact.symbol} {impact.shock >= 0 ? '+' : ''}{(impact.shock * 100).toFixed(0)}%
+                            </span>
+                            <span className={`text-sm font-bold ${impact.poolPnl < 0 ? 'text-red-500' : 'text-green-500'}`}>
+                              {formatUsd(impact.poolPnl)}
+                            </span>
+                          </div>
+                          <div className="flex justify-between text-xs text-secondary">
+                            <span>
+                              ${impact.priceBefore.toFixed(2)} → ${impact.priceAfter.toFixed(2)} · 强平 {formatUsd(impact.liquidatedNotional)} · 缺口 {formatUsd(impact.shortfall)}
+                            </span>
+                            <span>
+                              净持仓 {impact.netSizeBefore.toFixed(1)} → {impact.netSizeAfter.toFixed(1)} ({impact.exposurePercentAfter.toFixed(1)}% NAV)
+                            </span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+
+                    {selectedRun.adl.length > 0 && (
+                      <div className="space-y-2">
+                        <h4 className="text-sm font-medium">ADL 减仓队列</h4>
+                        <div className="overflow-x-auto">
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="text-left text-secondary border-b">
+                                <th className="py-2">排名</th>
+                                <th className="py-2">账户</th>
+                                <th className="py-2 text-right">杠杆</th>
+                                <th className="py-2 text-right">未实现盈利</th>
+                                <th className="py-2 text-right">ADL 分数</th>
+                                <th className="py-2 text-right">减仓扣减</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {selectedRun.adl.map(fill => (
+                                <tr key={fill.accountId} className="border-b last:border-0">
+                                  <td className="py-2">#{fill.rank}</td>
+                                  <td className="py-2">{fill.symbol} {fill.side === 'long' ? '多' : '空'}</td>
+                                  <td className="py-2 text-right">{fill.leverage}x</td>
+                                  <td className="py-2 text-right text-green-500">{formatUsd(fill.pnl)}</td>
+                                  <td className="py-2 text-right">{fill.score.toFixed(2)}</td>
+                                  <td className="py-2 text-right text-red-500">{formatUsd(fill.haircut)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {runs.length > 0 && (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <h4 className="text-sm font-medium">运行记录</h4>
+                      <Button variant="ghost" size="sm" onClick={() => insuranceFundSimulator.clearRuns()}>
+                        清空
+                      </Button>
+                    </div>
+                    {runs.map(run => (
+                      <div
+                        key={run.id}
+                        onClick={() => setSelectedRunId(run.id)}
+                        className={`flex items-center justify-between p-2 rounded-lg cursor-pointer ${
+                          run.id === selectedRun?.id ? 'bg-surface-2' : ''
+                        }`}
+                      >
+                        <div className="flex items-center space-x-2">
+                          <span className="text-sm">{run.scenario.name}</span>
+                          {run.adl.length > 0 && <Badge variant="destructive" className="text-xs">ADL</Badge>}
+                        </div>
+                        <div className="flex items-center space-x-3 text-xs text-secondary">
+                          <span className={run.navImpact < 0 ? 'text-red-500' : 'text-green-500'}>
+                            {run.navImpactPercent.toFixed(2)}%
+                          </span>
+                          <span>{new Date(run.runAt).toLocaleTimeString()}</span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="trends" className="space-y-4">
           <Card>
             <CardHeader>
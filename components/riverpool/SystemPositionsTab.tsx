@@ -10,17 +10,22 @@ import {
 import LiquidGlassCard from '../ui/LiquidGlassCard';
 import RiverBentoGrid from '../ui/RiverBentoGrid';
 import { Button } from '../ui/button';
-import { systemPositions, userData, getSystemStats, getUserPoolContribution } from '../../data/riverPoolData';
+import { systemPositions, getSystemStats, getUserPoolContribution } from '../../data/riverPoolData';
+import { useRiverBitWeb3 } from '../../providers/RiverBitWeb3Provider';
+import { usePoolAccounting } from '../../hooks/usePoolAccounting';
 import { UserShareOverview } from './UserShareOverview';
 import { SystemStatusOverview } from './SystemStatusOverview';
+import { HedgeRecommendationPanel } from './HedgeRecommendationPanel';
 import { 
   formatCurrency, formatPercentage, calculatePnLPercentage, 
   isLongPosition, getPositionSideText, getRiskLevel
 } from '../../utils/riverPoolUtils';
 
 export const SystemPositionsTab: React.FC = () => {
+  const { isConnected, address } = useRiverBitWeb3();
+  const { share } = usePoolAccounting(isConnected ? address : null);
   const systemStats = getSystemStats();
-  const userContribution = getUserPoolContribution();
+  const userContribution = getUserPoolContribution(share.sharePercent);
   
   // Professional view state management
   const [showDetailedView, setShowDetailedView] = useState(true);
@@ -31,7 +36,7 @@ export const SystemPositionsTab: React.FC = () => {
   const enhancedPositions = systemPositions.map(position => {
     const isLong = isLongPosition(position.side);
     const pnlPercentage = calculatePnLPercentage(position.unrealizedPnL, position.totalMargin);
-    const userPnLShare = (position.unrealizedPnL * userData.sharePercent) / 100;
+    const userPnLShare = (position.unrealizedPnL * share.sharePercent) / 100;
     const exposureRisk = getRiskLevel(position.exposurePercent, 'exposure');
     
     return {
@@ -111,7 +116,7 @@ export const SystemPositionsTab: React.FC = () => {
           </div>
           <div className="text-center p-3 bg-white/5 rounded-lg border border-white/10">
             <div className="text-sm text-gray-400 mb-1">Your Share</div>
-            <div className="text-xl font-bold text-purple-400">{userData.sharePercent.toFixed(3)}%</div>
+            <div className="text-xl font-bold text-purple-400">{share.sharePercent.toFixed(3)}%</div>
           </div>
         </div>
       </LiquidGlassCard>
@@ -182,7 +187,7 @@ export const SystemPositionsTab: React.FC = () => {
             <div className="space-y-3">
               <div className="flex justify-between">
                 <span className="text-gray-400">Pool Share</span>
-                <span className="text-purple-400 font-bold">{userData.sharePercent.toFixed(3)}%</span>
+                <span className="text-purple-400 font-bold">{share.sharePercent.toFixed(3)}%</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-400">Your P&L Share</span>
@@ -386,7 +391,7 @@ export const SystemPositionsTab: React.FC = () => {
                       {position.userPnLShare >= 0 ? '+' : ''}{formatCurrency(position.userPnLShare)}
                     </div>
                     <div className="text-xs text-gray-500">
-                      {userData.sharePercent.toFixed(3)}% share
+                      {share.sharePercent.toFixed(3)}% share
                     </div>
                   </div>
                 </div>
@@ -433,6 +438,9 @@ export const SystemPositionsTab: React.FC = () => {
         </div>
       </LiquidGlassCard>
 
+      {/* Net Exposure Hedging */}
+      <HedgeRecommendationPanel />
+
       {/* Professional Transparency Section */}
       <RiverBentoGrid columns={12} spacing="normal">
         <div className="lg:col-span-6 col-span-12">
@@ -4,22 +4,26 @@ import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { Label } from '../ui/label';
 import { Alert, AlertDescription } from '../ui/alert';
-import { Minus, RefreshCw, AlertTriangle, DollarSign, TrendingDown, Shield, Zap, Target, Activity, Loader2, CheckCircle, ExternalLink, Droplets } from 'lucide-react';
+import { Minus, RefreshCw, AlertTriangle, DollarSign, TrendingDown, Shield, Zap, Target, Activity, Loader2, CheckCircle, ExternalLink, Droplets, Clock, XCircle } from 'lucide-react';
 import LiquidGlassCard from '../ui/LiquidGlassCard';
 import RiverBentoGrid from '../ui/RiverBentoGrid';
-import { poolData, userData } from '../../data/riverPoolData';
+import { poolData } from '../../data/riverPoolData';
 import { useRiverBitWeb3 } from '../../providers/RiverBitWeb3Provider';
 import { useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
 import { parseUnits } from 'viem';
 import { NETWORK_CONFIG } from '../../constants/contractConstants';
+import { WITHDRAWAL_POLICY } from '../../constants/riverPoolConstants';
 import { toast } from 'sonner';
+import { usePoolAccounting } from '../../hooks/usePoolAccounting';
+import { useWithdrawalQueue, type QueuedWithdrawal } from '../../hooks/useWithdrawalQueue';
+import { poolAccounting } from '../../services/PoolAccounting';
+import { withdrawalQueue, type WithdrawalPreview } from '../../services/WithdrawalQueue';
 
 interface WithdrawTabProps {
   withdrawAmount: string;
   setWithdrawAmount: (value: string) => void;
   isWithdrawing: boolean;
   onWithdraw: () => void;
-  riskStatus: { drawdown: string };
 }
 
 interface PoolStats {
@@ -36,8 +40,7 @@ export const WithdrawTab: React.FC<WithdrawTabProps> = ({
   withdrawAmount,
   setWithdrawAmount,
   isWithdrawing,
-  onWithdraw,
-  riskStatus
+  onWithdraw
 }) => {
   // Web3 state
   const {
@@ -51,19 +54,25 @@ export const WithdrawTab: React.FC<WithdrawTabProps> = ({
 
   // Local state for Web3 operations
   const [isLoadingWeb3, setIsLoadingWeb3] = useState(false);
-  const [poolStats, setPoolStats] = useState<PoolStats>({
-    totalValueLocked: '1,250,000',
-    totalShares: '1,200,000',
-    sharePrice: '1.042',
-    apy: '15.8',
-    userShares: '5,250',
-    userValue: '5,470.50',
-    pendingRewards: '125.75'
-  });
+
+  // Pool NAV and the wallet's rLP come from the shared pool ledger
+  const holder = isConnected ? address : null;
+  const { nav, share } = usePoolAccounting(holder);
+  const queue = useWithdrawalQueue(holder);
+  const poolStats: PoolStats = {
+    totalValueLocked: nav.nav.toLocaleString(undefined, { maximumFractionDigits: 0 }),
+    totalShares: nav.totalSupply.toLocaleString(undefined, { maximumFractionDigits: 0 }),
+    sharePrice: nav.rLPPrice.toFixed(4),
+    apy: poolData.apr30d.toFixed(1),
+    userShares: share.shares.toLocaleString(undefined, { maximumFractionDigits: 6 }),
+    userValue: share.value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+    pendingRewards: share.pendingFees.toFixed(2)
+  };
 
   // Contract interactions
   const { writeContract: writeContractAction } = useWriteContract();
   const [pendingTxHash, setPendingTxHash] = useState<string | null>(null);
+  const [claimingId, setClaimingId] = useState<string | null>(null);
 
   const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
     hash: pendingTxHash as `0x${string}` | undefined,
@@ -76,70 +85,73 @@ export const WithdrawTab: React.FC<WithdrawTabProps> = ({
   useEffect(() => {
     if (isConfirmed && pendingTxHash) {
       toast.success('Withdraw transaction confirmed!');
-      setWithdrawAmount('');
+      if (claimingId) withdrawalQueue.markClaimed(claimingId, pendingTxHash);
+      setClaimingId(null);
       setPendingTxHash(null);
       setIsLoadingWeb3(false);
       refreshData();
-      loadPoolData();
+      poolAccounting.syncFromChain(address);
     }
   }, [isConfirmed, pendingTxHash]);
 
-  // Load pool data
-  const loadPoolData = async () => {
-    if (isConnected && address && isValidNetwork) {
-      try {
-        // Mock pool data for now - replace with real contract calls
-        setPoolStats({
-          totalValueLocked: '1,250,000',
-          totalShares: '1,200,000', 
-          sharePrice: '1.042',
-          apy: '15.8',
-          userShares: '5,250',
-          userValue: '5,470.50',
-          pendingRewards: '125.75'
-        });
-      } catch (error) {
-        console.error('Failed to load pool data:', error);
-      }
-    }
-  };
-
-  useEffect(() => {
-    if (isConnected && address && isValidNetwork) {
-      loadPoolData();
-    }
-  }, [isConnected, address, isValidNetwork]);
-
-  // Calculate withdraw metrics
+  // Calculate withdraw metrics; shares to burn round up so the payout covers the amount
   const withdrawAmountNum = parseFloat(withdrawAmount) || 0;
-  const withdrawAmountInShares = withdrawAmountNum / parseFloat(poolStats.sharePrice);
-  const exitFee = (riskStatus.drawdown === 'danger') ? withdrawAmountNum * 0.01 : 0;
-  const netWithdraw = withdrawAmountNum - exitFee;
-  const isRiskRestricted = riskStatus.drawdown === 'danger';
+  let withdrawPreview: WithdrawalPreview | null = null;
+  try {
+    withdrawPreview = withdrawAmountNum > 0 ? withdrawalQueue.preview(holder, withdrawAmountNum) : null;
+  } catch {
+    withdrawPreview = null;
+  }
+  const withdrawAmountInShares = withdrawPreview?.quote.shares ?? 0;
+  const exitFee = withdrawPreview?.quote.exitFee ?? 0;
+  const netWithdraw = withdrawPreview?.quote.netAmount ?? 0;
+  const exitFeeRate = queue.fee.totalRate;
+  const isRiskRestricted = exitFeeRate > 0;
+  const isCoolingDown = queue.cooldownEndsAt !== null;
   
-  // Use real user shares when connected, fallback to mock data
-  const availableShares = isConnected ? parseFloat(poolStats.userShares.replace(/,/g, '')) : userData.rLPHolding;
-  const maxWithdrawValue = availableShares * parseFloat(poolStats.sharePrice);
-  const hasValidAmount = withdrawAmountNum > 0 && withdrawAmountNum <= maxWithdrawValue;
+  // Shares already queued are not available again
+  const maxWithdrawValue = queue.availableShares * nav.rLPPrice;
+  const hasValidAmount = withdrawPreview !== null && withdrawAmountNum <= maxWithdrawValue && !isCoolingDown;
   
   // Web3 validation
   const canWithdraw = isConnected && isValidNetwork && hasValidAmount;
 
-  // Web3 withdraw handler
-  const handleWeb3Withdraw = async () => {
-    if (!contractAddresses?.lpBucketManager) {
-      toast.error('LP Bucket Manager contract not found');
+  // Wallet withdrawals join the queue; the epoch allots shares to claim on-chain
+  const handleWeb3Withdraw = () => {
+    if (!address || !hasValidAmount) {
+      toast.error('Invalid withdraw amount');
       return;
     }
 
-    if (!hasValidAmount) {
-      toast.error('Invalid withdraw amount');
+    try {
+      const { preview } = withdrawalQueue.request(address, withdrawAmountNum);
+      toast.success(`Withdrawal queued at #${preview.position}, expected by ${new Date(preview.eta).toLocaleString()}`);
+      setWithdrawAmount('');
+    } catch (error: unknown) {
+      toast.error(`Withdraw request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleCancel = (request: QueuedWithdrawal) => {
+    try {
+      withdrawalQueue.cancel(request.id);
+      toast.success('Withdrawal request cancelled');
+    } catch (error: unknown) {
+      toast.error(`Cancel failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  // Burns the shares an epoch allotted to this request
+  const handleClaim = async (request: QueuedWithdrawal) => {
+    if (!contractAddresses?.lpBucketManager) {
+      toast.error('LP Bucket Manager contract not found');
       return;
     }
 
     try {
       setIsLoadingWeb3(true);
-      const sharesWei = parseUnits(withdrawAmountInShares.toString(), 6); // Shares use 6 decimals
+      setClaimingId(request.id);
+      const sharesWei = parseUnits(request.claimableShares.toFixed(6), 6); // Shares use 6 decimals
 
       const txHash = await writeContractAction({
         address: contractAddresses.lpBucketManager,
@@ -159,10 +171,11 @@ export const WithdrawTab: React.FC<WithdrawTabProps> = ({
       setPendingTxHash(txHash);
       toast.success('Withdraw transaction submitted!');
       
-    } catch (error: any) {
+    } catch (error: unknown) {
       setIsLoadingWeb3(false);
+      setClaimingId(null);
       console.error('Withdraw failed:', error);
-      toast.error(`Withdraw failed: ${error.message || 'Unknown error'}`);
+      toast.error(`Withdraw failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
@@ -186,7 +199,7 @@ export const WithdrawTab: React.FC<WithdrawTabProps> = ({
           
           <div className="text-right">
             <div className="text-lg font-mono font-bold text-white">
-              Your Value: ${isConnected ? poolStats.userValue : '0.00'}
+              Your Value: ${poolStats.userValue}
             </div>
             <div className="text-sm text-river-warning font-semibold flex items-center justify-end gap-2">
               <TrendingDown className="w-4 h-4" />
@@ -256,7 +269,7 @@ export const WithdrawTab: React.FC<WithdrawTabProps> = ({
                 
                 <div className="flex justify-between items-center mt-3">
                   <span className="text-sm text-gray-400">
-                    Your Shares: <span className="font-mono text-white font-semibold">{isConnected ? poolStats.userShares : '0'}</span>
+                    Your Shares: <span className="font-mono text-white font-semibold">{poolStats.userShares}</span>
                   </span>
                   <Button 
                     size="sm" 
@@ -285,12 +298,24 @@ export const WithdrawTab: React.FC<WithdrawTabProps> = ({
                   </div>
                   
                   {isRiskRestricted && (
-                    <div className="flex justify-between items-center">
-                      <span className="text-sm text-river-surface/80 font-medium">Exit Fee (1%)</span>
-                      <span className="text-river-loss font-mono font-semibold">
-                        -${exitFee.toFixed(2)} USDC
-                      </span>
-                    </div>
+                    <>
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm text-river-surface/80 font-medium">Exit Fee ({(exitFeeRate * 100).toFixed(2)}%)</span>
+                        <span className="text-river-loss font-mono font-semibold">
+                          -${exitFee.toFixed(2)} USDC
+                        </span>
+                      </div>
+                      <div className="pl-3 space-y-1 text-xs text-gray-400">
+                        <div className="flex justify-between">
+                          <span>Net exposure {queue.fee.netExposure}% of TVL</span>
+                          <span className="font-mono">{(queue.fee.exposureFee * 100).toFixed(2)}%</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span>24h drawdown {queue.fee.drawdown}%</span>
+                          <span className="font-mono">{(queue.fee.drawdownFee * 100).toFixed(2)}%</span>
+                        </div>
+                      </div>
+                    </>
                   )}
                   
                   <div className="flex justify-between items-center">
@@ -299,9 +324,38 @@ export const WithdrawTab: React.FC<WithdrawTabProps> = ({
                       ${netWithdraw.toFixed(2)} USDC
                     </span>
                   </div>
+
+                  {withdrawPreview && (
+                    <div className="border-t border-river-surface/20 pt-3 mt-3 space-y-2">
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm text-river-surface/80 font-medium">Queue Position</span>
+                        <span className="text-white font-mono font-semibold">#{withdrawPreview.position}</span>
+                      </div>
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm text-river-surface/80 font-medium">Estimated Settlement</span>
+                        <span className="text-river-glow font-mono font-semibold">
+                          {new Date(withdrawPreview.eta).toLocaleString()}
+                        </span>
+                      </div>
+                      <div className="text-xs text-gray-400">
+                        ${withdrawPreview.aheadValue.toFixed(2)} queued ahead • ${withdrawPreview.epochCapacity.toLocaleString(undefined, { maximumFractionDigits: 0 })} paid out per {WITHDRAWAL_POLICY.EPOCH_HOURS}h epoch
+                        {withdrawPreview.etaEpochs > 1 && ` • settles over ${withdrawPreview.etaEpochs} epochs`}
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
 
+              {/* Deposit cooldown */}
+              {isCoolingDown && (
+                <Alert>
+                  <Clock className="h-4 w-4" />
+                  <AlertDescription>
+                    New deposits are locked for {WITHDRAWAL_POLICY.DEPOSIT_COOLDOWN_HOURS}h. Withdrawals unlock at {new Date(queue.cooldownEndsAt!).toLocaleString()}.
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {/* Web3 Connection Status */}
               {!isConnected && (
                 <Alert>
@@ -365,7 +419,7 @@ export const WithdrawTab: React.FC<WithdrawTabProps> = ({
                 ) : (
                   <>
                     <Zap className="w-5 h-5 mr-3" />
-                    {isConnected ? 'Withdraw from Pool' : 'Demo Withdraw'}
+                    {isConnected ? 'Request Withdrawal' : 'Demo Withdraw Request'}
                   </>
                 )}
               </Button>
@@ -383,7 +437,7 @@ export const WithdrawTab: React.FC<WithdrawTabProps> = ({
                     <div className="flex-1">
                       <h4 className="font-semibold mb-1 text-river-loss">High Risk Alert</h4>
                       <p className="text-gray-300 text-sm">
-                        1% exit fee applied due to high pool drawdown.
+                        {(exitFeeRate * 100).toFixed(2)}% exit fee applies while pool exposure or drawdown is elevated.
                       </p>
                     </div>
                   </div>
@@ -395,6 +449,73 @@ export const WithdrawTab: React.FC<WithdrawTabProps> = ({
 
         {/* Pool Statistics & User Metrics */}
         <div className="lg:col-span-5 col-span-12 space-y-4">
+          {/* Withdrawal Queue */}
+          <LiquidGlassCard 
+            variant="trading" 
+            className="p-6"
+          >
+            <div className="flex items-center gap-3 mb-4">
+              <div className="w-12 h-12 bg-gradient-to-r from-river-warning to-river-glow rounded-xl flex items-center justify-center shadow-lg shadow-river-warning/25">
+                <Clock className="w-6 h-6 text-white" />
+              </div>
+              <div>
+                <h3 className="font-semibold text-white">Withdrawal Queue</h3>
+                <p className="text-sm text-river-warning/60">Next epoch {new Date(queue.nextEpochAt).toLocaleTimeString()}</p>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex justify-between p-2 bg-river-surface/5 rounded-lg">
+                <span className="text-gray-400 font-medium">Epoch Cap</span>
+                <span className="text-white font-mono">
+                  ${queue.epochCapacity.toLocaleString(undefined, { maximumFractionDigits: 0 })} ({WITHDRAWAL_POLICY.EPOCH_CAP_PERCENT}% TVL)
+                </span>
+              </div>
+              <div className="flex justify-between p-2 bg-river-glow/5 rounded-lg">
+                <span className="text-gray-400 font-medium">Requests in Queue</span>
+                <span className="text-white font-mono">{queue.queueLength}</span>
+              </div>
+
+              {queue.requests.slice(0, 5).map(request => (
+                <div key={request.id} className="p-3 bg-river-depth/40 rounded-lg border border-river-surface/20 space-y-2">
+                  <div className="flex justify-between items-center">
+                    <span className="text-white font-mono text-sm">{request.shares.toFixed(4)} rLP</span>
+                    <span className={`text-xs font-semibold px-2 py-0.5 rounded ${
+                      request.status === 'completed' ? 'bg-river-profit/20 text-river-profit' :
+                      request.status === 'claimable' ? 'bg-river-glow/20 text-river-glow' :
+                      request.status === 'cancelled' ? 'bg-gray-500/20 text-gray-400' :
+                      'bg-river-warning/20 text-river-warning'
+                    }`}>
+                      {request.status === 'queued' && request.position !== null ? `Queued #${request.position}` : request.status}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-400">
+                    Filled {request.filledShares.toFixed(4)} rLP • Paid ${request.paidAmount.toFixed(2)}
+                    {request.exitFee > 0 && ` • Fee $${request.exitFee.toFixed(2)}`}
+                    {request.eta !== null && ` • ETA ${new Date(request.eta).toLocaleString()}`}
+                  </div>
+                  {request.error && <div className="text-xs text-river-loss">{request.error}</div>}
+                  {request.status === 'queued' && (
+                    <Button size="sm" variant="outline" className="w-full" onClick={() => handleCancel(request)}>
+                      <XCircle className="w-3 h-3 mr-2" />
+                      Cancel Request
+                    </Button>
+                  )}
+                  {request.claimableShares > 0 && (
+                    <Button
+                      size="sm"
+                      className="w-full"
+                      disabled={isLoadingWeb3 || isConfirming || !isValidNetwork}
+                      onClick={() => handleClaim(request)}
+                    >
+                      Claim {request.claimableShares.toFixed(4)} rLP
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </LiquidGlassCard>
+
           {/* User Position */}
           <LiquidGlassCard 
             variant="trading" 
@@ -413,15 +534,15 @@ export const WithdrawTab: React.FC<WithdrawTabProps> = ({
             <div className="space-y-3">
               <div className="flex justify-between p-2 bg-river-profit/5 rounded-lg">
                 <span className="text-gray-400 font-medium">Total Value</span>
-                <span className="text-river-profit font-bold">${isConnected ? poolStats.userValue : '0.00'}</span>
+                <span className="text-river-profit font-bold">${poolStats.userValue}</span>
               </div>
               <div className="flex justify-between p-2 bg-river-surface/5 rounded-lg">
                 <span className="text-gray-400 font-medium">Your Shares</span>
-                <span className="text-white font-mono">{isConnected ? poolStats.userShares : '0'}</span>
+                <span className="text-white font-mono">{poolStats.userShares}</span>
               </div>
               <div className="flex justify-between p-2 bg-river-glow/5 rounded-lg">
                 <span className="text-gray-400 font-medium">Pending Rewards</span>
-                <span className="text-white font-mono">${isConnected ? poolStats.pendingRewards : '0.00'}</span>
+                <span className="text-white font-mono">${poolStats.pendingRewards}</span>
               </div>
               <div className="flex justify-between p-2 bg-river-flow/5 rounded-lg">
                 <span className="text-gray-400 font-medium">Share Price</span>
@@ -449,7 +570,7 @@ export const WithdrawTab: React.FC<WithdrawTabProps> = ({
               <div className="flex justify-between p-2 bg-river-warning/5 rounded-lg">
                 <span className="text-gray-400 font-medium">Remaining Value</span>
                 <span className="text-white font-mono">
-                  ${isConnected ? (parseFloat(poolStats.userValue.replace(/,/g, '')) - withdrawAmountNum).toFixed(2) : '0.00'}
+                  ${Math.max(share.value - withdrawAmountNum, 0).toFixed(2)}
                 </span>
               </div>
               <div className="flex justify-between p-2 bg-river-surface/5 rounded-lg">
@@ -468,7 +589,7 @@ export const WithdrawTab: React.FC<WithdrawTabProps> = ({
                 <span className={`font-bold ${
                   isRiskRestricted ? 'text-river-loss' : 'text-river-profit'
                 }`}>
-                  {isRiskRestricted ? '1%' : '0%'}
+                  {(exitFeeRate * 100).toFixed(2)}%
                 </span>
               </div>
             </div>
@@ -326,8 +326,8 @@ export const TradingInterfaceWithAssistant: React.FC = () => {
   // Integration with existing Web3 manager
   const handleExecutePlan = async (plan: TradingPlan) => {
     try {
-      // Import your existing web3Manager
-      const { web3Manager } = await import('../../utils/web3Utils');
+      // Active chain backend (mock, wagmi or ethers)
+      const { getChainAdapter } = await import('../../services/ChainAdapter');
       
       // Calculate position size based on plan
       const positionSize = plan.maxLoss; // or calculate based on user's risk preference
@@ -335,7 +335,7 @@ export const TradingInterfaceWithAssistant: React.FC = () => {
       
       // Execute the trade using existing RiverBit infrastructure
       const finalSize = plan.direction === 'long' ? positionSize : -positionSize;
-      const tx = await web3Manager.openPosition(plan.symbol, finalSize, leverage);
+      const tx = await getChainAdapter().openPosition(plan.symbol, finalSize, leverage);
       
       console.log('Trade executed:', tx.hash);
       
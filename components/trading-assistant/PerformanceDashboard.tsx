@@ -9,6 +9,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
 import { Badge } from '../ui/badge';
 import { Button } from '../ui/button';
 import { Alert, AlertDescription } from '../ui/alert';
+import { Progress } from '../ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
 import { 
   performanceTracker, 
   PerformanceUtils,
@@ -18,6 +21,16 @@ import {
   type PerformanceAlert,
   type BacktestResult
 } from '../../utils/tradingAssistant/performanceTracker';
+import {
+  strategyOptimizer,
+  type OptimizationResult,
+  type OptimizationObjective,
+  type MetricsSummary,
+  type ParameterSet
+} from '../../utils/tradingAssistant/strategyOptimizer';
+import { strategyEngine } from '../../utils/tradingAssistant/strategyEngine';
+import { CANDLE_TIMEFRAMES } from '../../services/CandleStore';
+import { DEFAULT_PARAMS } from '../../utils/contractConfig';
 import {
   TrendingUp,
   TrendingDown,
@@ -207,12 +220,13 @@ export const PerformanceDashboard: React.FC<PerformanceDashboardProps> = ({
       )}
 
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-6">
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="strategies">Strategies</TabsTrigger>
           <TabsTrigger value="positions">Positions</TabsTrigger>
           <TabsTrigger value="analytics">Analytics</TabsTrigger>
           <TabsTrigger value="backtests">Backtests</TabsTrigger>
+          <TabsTrigger value="optimization">Optimization</TabsTrigger>
           <TabsTrigger value="alerts">Alerts</TabsTrigger>
         </TabsList>
 
@@ -433,6 +447,11 @@ export const PerformanceDashboard: React.FC<PerformanceDashboardProps> = ({
           )}
         </TabsContent>
 
+        {/* Optimization Tab */}
+        <TabsContent value="optimization" className="space-y-4">
+          <OptimizationPanel />
+        </TabsContent>
+
         {/* Alerts Tab */}
         <TabsContent value="alerts" className="space-y-4">
           <div className="flex justify-between items-center">
@@ -640,6 +659,203 @@ const BacktestCard: React.FC<BacktestCardProps> = ({ backtest, showSensitiveData
   </Card>
 );
 
+const formatParams = (params: ParameterSet | null) =>
+  params ? Object.entries(params).map(([key, value]) => `${key.split('.')[1]}=${value}`).join(', ') : '—';
+
+const formatScore = (summary?: MetricsSummary | null) =>
+  summary?.score != null ? summary.score.toFixed(2) : '—';
+
+const OptimizationPanel: React.FC = () => {
+  const [strategyName, setStrategyName] = useState(strategyEngine.getAvailableStrategies()[0]);
+  const [symbol, setSymbol] = useState(DEFAULT_PARAMS.supportedSymbols[0]);
+  const [timeframe, setTimeframe] = useState<string>('1h');
+  const [method, setMethod] = useState<'grid' | 'random'>('grid');
+  const [objective, setObjective] = useState<OptimizationObjective>('sharpe');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<OptimizationResult | null>(() => strategyOptimizer.getResults()[0] ?? null);
+
+  const runOptimization = async () => {
+    setError(null);
+    setProgress(0);
+    try {
+      const optimization = await strategyOptimizer.optimize(
+        { strategyName, symbol, timeframe, method, objective, initialBalance: 10000 },
+        (completed, total) => setProgress((completed / total) * 100)
+      );
+      setResult(optimization);
+    } catch (err: unknown) {
+      setError(err instanceof Error && err.message ? err.message : 'Optimization failed');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const applyBest = () => {
+    if (!result) return;
+    try {
+      strategyOptimizer.applyResult(result.id);
+      setResult({ ...strategyOptimizer.getResult(result.id)! });
+    } catch (err: unknown) {
+      setError(err instanceof Error && err.message ? err.message : 'Failed to apply parameters');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <Select value={strategyName} onValueChange={setStrategyName}>
+          <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {strategyEngine.getAvailableStrategies().map(name => (
+              <SelectItem key={name} value={name}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={symbol} onValueChange={setSymbol}>
+          <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {DEFAULT_PARAMS.supportedSymbols.map(s => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select value={timeframe} onValueChange={setTimeframe}>
+          <SelectTrigger className="w-20"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {CANDLE_TIMEFRAMES.map(tf => <SelectItem key={tf} value={tf}>{tf}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select value={method} onValueChange={(value) => setMethod(value as 'grid' | 'random')}>
+          <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="grid">Grid</SelectItem>
+            <SelectItem value="random">Random</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={objective} onValueChange={(value) => setObjective(value as OptimizationObjective)}>
+          <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="sharpe">Sharpe</SelectItem>
+            <SelectItem value="sortino">Sortino</SelectItem>
+            <SelectItem value="totalReturn">Return</SelectItem>
+            <SelectItem value="profitFactor">Profit Factor</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button size="sm" onClick={runOptimization} disabled={progress !== null}>
+          {progress !== null ? 'Optimizing...' : 'Run Walk-Forward'}
+        </Button>
+      </div>
+
+      {progress !== null && <Progress value={progress} />}
+
+      {error && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {!result ? (
+        <Alert>
+          <AlertDescription>
+            No optimization runs yet. Import candle history, then run a walk-forward search.
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <CardTitle>
+                {result.strategyName} - {result.symbol} ({result.timeframe}, {result.method}, {result.objective})
+              </CardTitle>
+              <div className="flex items-center space-x-2">
+                <Badge variant={result.walkForwardEfficiency !== null && result.walkForwardEfficiency >= 0.5 ? 'default' : 'destructive'}>
+                  WFE {result.walkForwardEfficiency !== null ? `${(result.walkForwardEfficiency * 100).toFixed(0)}%` : 'n/a'}
+                </Badge>
+                <Button size="sm" onClick={applyBest} disabled={!result.bestParams}>
+                  {result.appliedAt ? 'Applied' : 'Apply Best to Live Engine'}
+                </Button>
+              </div>
+            </div>
+            <p className="text-sm text-gray-300">
+              Best: {formatParams(result.bestParams)} · {result.evaluations} backtests
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {result.warnings.map((warning, i) => (
+              <Alert key={i} className="border-yellow-500">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{warning}</AlertDescription>
+              </Alert>
+            ))}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Parameters</TableHead>
+                  <TableHead>IS Score</TableHead>
+                  <TableHead>OOS Score</TableHead>
+                  <TableHead>OOS Return</TableHead>
+                  <TableHead>OOS Max DD</TableHead>
+                  <TableHead>Trades (IS/OOS)</TableHead>
+                  <TableHead>Degradation</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.candidates.slice(0, 10).map((candidate, i) => (
+                  <TableRow key={i}>
+                    <TableCell className="font-mono text-xs">{formatParams(candidate.params)}</TableCell>
+                    <TableCell>{formatScore(candidate.inSample)}</TableCell>
+                    <TableCell>{formatScore(candidate.outOfSample)}</TableCell>
+                    <TableCell className={PerformanceUtils.getPerformanceColor(candidate.outOfSample?.totalReturnPercent ?? 0)}>
+                      {candidate.outOfSample ? PerformanceUtils.formatPercentage(candidate.outOfSample.totalReturnPercent) : '—'}
+                    </TableCell>
+                    <TableCell>
+                      {candidate.outOfSample ? PerformanceUtils.formatPercentage(-candidate.outOfSample.maxDrawdown) : '—'}
+                    </TableCell>
+                    <TableCell>{candidate.inSample.totalTrades}/{candidate.outOfSample?.totalTrades ?? '—'}</TableCell>
+                    <TableCell>
+                      {candidate.degradation !== undefined ? `${(candidate.degradation * 100).toFixed(0)}%` : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Fold</TableHead>
+                  <TableHead>Out-of-Sample Period</TableHead>
+                  <TableHead>Selected Parameters</TableHead>
+                  <TableHead>IS Score</TableHead>
+                  <TableHead>OOS Score</TableHead>
+                  <TableHead>OOS Return</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.folds.map(fold => (
+                  <TableRow key={fold.index}>
+                    <TableCell>{fold.index + 1}</TableCell>
+                    <TableCell>
+                      {new Date(fold.outOfSampleStart).toLocaleDateString()} - {new Date(fold.outOfSampleEnd).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{formatParams(fold.bestParams)}</TableCell>
+                    <TableCell>{formatScore(fold.inSample)}</TableCell>
+                    <TableCell>{formatScore(fold.outOfSample)}</TableCell>
+                    <TableCell>
+                      {fold.outOfSample ? PerformanceUtils.formatPercentage(fold.outOfSample.totalReturnPercent) : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
 interface AlertCardProps {
   alert: PerformanceAlert;
   onAcknowledge: () => void;
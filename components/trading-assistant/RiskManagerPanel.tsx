@@ -31,7 +31,8 @@ import {
   DollarSign,
   Info,
   RefreshCw,
-  StopCircle
+  StopCircle,
+  Grid3x3
 } from 'lucide-react';
 
 import { 
@@ -42,6 +43,11 @@ import {
   getRecommendedPositionSize,
   initializeDemoUser
 } from '../../utils/tradingAssistant/riskManagerIntegration';
+import { correlationEngine } from '../../utils/tradingAssistant/correlationEngine';
+import type { CorrelationMatrix } from '../../utils/tradingAssistant/riskManager';
+import type { PortfolioRiskReport } from '../../utils/tradingAssistant/portfolioRisk';
+import { killSwitch, type TradingLock } from '../../services/KillSwitch';
+import type { Address } from 'viem';
 
 import { RiskLevel, TradingPlan } from './types';
 
@@ -97,6 +103,15 @@ export default function RiskManagerPanel({
   const [positionRec, setPositionRec] = useState(
     getRecommendedPositionSize(userAddress, selectedSymbol, accountData?.balance || 10000)
   );
+  const [portfolioRisk, setPortfolioRisk] = useState<PortfolioRiskReport | null>(null);
+  const [tradingLock, setTradingLock] = useState<TradingLock | null>(() => killSwitch.getLock(userAddress as Address));
+  const [correlationSymbols] = useState(() => correlationEngine.getUniverse());
+  const [correlationMatrix, setCorrelationMatrix] = useState<CorrelationMatrix>(
+    () => riskManager.getCorrelationMatrix(correlationSymbols)
+  );
+  const [correlationUpdatedAt, setCorrelationUpdatedAt] = useState<number | null>(
+    () => correlationEngine.getSnapshot()?.updatedAt ?? null
+  );
 
   // ========================================================================
   // INITIALIZATION AND EFFECTS
@@ -112,12 +127,34 @@ export default function RiskManagerPanel({
     }
   }, [userAddress, accountData, selectedSymbol, isInitialized]);
 
+  useEffect(() => {
+    if (isInitialized) {
+      updatePortfolioRisk();
+    }
+  }, [userAddress, accountData, isInitialized]);
+
+  useEffect(() => {
+    const refresh = () => setTradingLock(killSwitch.getLock(userAddress as Address));
+    refresh();
+    return killSwitch.subscribe(refresh);
+  }, [userAddress]);
+
+  useEffect(() => {
+    const unsubscribe = correlationEngine.subscribe(snapshot => {
+      setCorrelationMatrix(riskManager.getCorrelationMatrix(correlationSymbols));
+      setCorrelationUpdatedAt(snapshot.updatedAt);
+    });
+
+    return unsubscribe;
+  }, [correlationSymbols]);
+
   useEffect(() => {
     let interval: NodeJS.Timeout;
     
     if (autoMonitoring && isInitialized) {
       interval = setInterval(() => {
         updateRiskData();
+        updatePortfolioRisk();
         checkEmergencyConditions();
       }, 10000); // Update every 10 seconds
     }
@@ -174,6 +211,19 @@ export default function RiskManagerPanel({
     }
   }, [userAddress, selectedSymbol, accountData, onPositionSizeChange]);
 
+  const updatePortfolioRisk = useCallback(async () => {
+    if (!accountData) {
+      setPortfolioRisk(null);
+      return;
+    }
+
+    try {
+      setPortfolioRisk(await riskManager.assessPortfolioRisk(userAddress, accountData));
+    } catch (error) {
+      console.error('Failed to assess portfolio risk:', error);
+    }
+  }, [userAddress, accountData]);
+
   const checkEmergencyConditions = useCallback(async () => {
     if (!accountData) return;
 
@@ -223,11 +273,10 @@ export default function RiskManagerPanel({
 
     setIsLoading(true);
     try {
-      // In real implementation, this would call contract methods
-      console.log('🚨 Emergency stop executed');
+      const entry = await killSwitch.emergencyStopAll(userAddress as Address, 'Manual emergency stop from risk panel');
       setEmergencyAlerts([{
-        type: 'info',
-        message: 'Emergency stop executed - all positions closed',
+        type: entry.status === 'executed' || entry.status === 'no_positions' ? 'info' : 'error',
+        message: `Emergency stop: ${entry.message}`,
         priority: 10
       }]);
     } catch (error) {
@@ -259,6 +308,16 @@ export default function RiskManagerPanel({
     }
   };
 
+  // Red for positive, blue for negative, intensity by magnitude
+  const getCorrelationStyle = (value: number): React.CSSProperties => {
+    const alpha = Math.min(1, Math.abs(value)) * 0.8;
+    return {
+      backgroundColor: value >= 0
+        ? `rgba(248, 113, 113, ${alpha})`
+        : `rgba(96, 165, 250, ${alpha})`
+    };
+  };
+
   const getBadgeColor = (color: 'green' | 'yellow' | 'red') => {
     switch (color) {
       case 'green': return 'bg-green-500/20 text-green-400 border-green-500/30';
@@ -344,6 +403,26 @@ export default function RiskManagerPanel({
             </div>
           )}
 
+          {/* Kill Switch Lock */}
+          {tradingLock && (
+            <Alert className="border-red-500/50 bg-red-500/10">
+              <StopCircle className="h-4 w-4" />
+              <AlertDescription className="flex items-center justify-between">
+                <span className="text-sm">
+                  Trading locked until {new Date(tradingLock.until).toLocaleString()}: {tradingLock.reason}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => killSwitch.unlock(userAddress as Address)}
+                  className="h-6 px-2 text-xs"
+                >
+                  Unlock
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Risk Status Overview */}
           <div className={`p-3 rounded-lg border ${getRiskColor(riskStatus.status)}`}>
             <div className="flex items-center justify-between">
@@ -412,6 +491,117 @@ export default function RiskManagerPanel({
             </div>
           </div>
 
+          {/* Portfolio VaR and Stress Tests */}
+          {portfolioRisk && portfolioRisk.grossNotional > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-300">Portfolio Value at Risk</span>
+                <span className="text-xs text-gray-300">
+                  {((portfolioRisk.historical ?? portfolioRisk.parametric)?.confidence ?? 0.95) * 100}% / {(portfolioRisk.historical ?? portfolioRisk.parametric)?.horizonHours ?? 24}h
+                </span>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {[portfolioRisk.historical, portfolioRisk.parametric].map((result, index) => (
+                  <Tooltip key={index}>
+                    <TooltipTrigger asChild>
+                      <div className="p-2 rounded border border-slate-700/50 bg-slate-800/50">
+                        <div className="text-xs text-gray-300">{index === 0 ? 'Historical' : 'Parametric'}</div>
+                        <div className="font-bold text-sm text-red-400">
+                          {result ? `$${result.valueAtRisk.toFixed(2)}` : 'N/A'}
+                        </div>
+                        <div className="text-xs text-gray-300">
+                          CVaR {result ? `$${result.expectedShortfall.toFixed(2)}` : 'N/A'}
+                        </div>
+                      </div>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p className="text-xs">
+                        {result
+                          ? `${result.observations} scenarios${result.liquidationProbability !== undefined ? `, liquidation in ${(result.liquidationProbability * 100).toFixed(1)}%` : ''}`
+                          : 'Not enough price history'}
+                      </p>
+                    </TooltipContent>
+                  </Tooltip>
+                ))}
+              </div>
+              <div className="space-y-1">
+                {portfolioRisk.stressTests.map(test => (
+                  <Tooltip key={test.scenario.id}>
+                    <TooltipTrigger asChild>
+                      <div className="flex justify-between text-xs">
+                        <span className="text-gray-300 font-medium">{test.scenario.name}</span>
+                        <span className={test.totalPnl < 0 ? 'text-red-400' : 'text-green-400'}>
+                          {test.totalPnl < 0 ? '-' : '+'}${Math.abs(test.totalPnl).toFixed(2)}
+                          {' · '}MR {test.marginRatioAfter.toFixed(1)}%
+                          {test.liquidations.length > 0 && ' · LIQ'}
+                        </span>
+                      </div>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <div className="text-xs space-y-0.5">
+                        {test.positions.map(position => (
+                          <p key={`${position.symbol}-${position.side}`}>
+                            {position.symbol} {position.side}: {position.pnl.toFixed(2)}{position.liquidated ? ' (liquidated)' : ''}
+                          </p>
+                        ))}
+                      </div>
+                    </TooltipContent>
+                  </Tooltip>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <Separator className="bg-slate-700/50" />
+
+          {/* Correlation Heatmap */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-300 flex items-center space-x-1">
+                <Grid3x3 className="w-4 h-4" />
+                <span>Correlations</span>
+              </span>
+              <span className="text-xs text-gray-300">
+                {correlationUpdatedAt
+                  ? `${correlationEngine.getConfig().lookback} × ${correlationEngine.getConfig().timeframe}`
+                  : 'Prior estimates'}
+              </span>
+            </div>
+            <div
+              className="grid gap-px text-[10px]"
+              style={{ gridTemplateColumns: `auto repeat(${correlationSymbols.length}, minmax(0, 1fr))` }}
+            >
+              <div />
+              {correlationSymbols.map(symbol => (
+                <div key={symbol} className="text-center text-gray-300 truncate">{symbol}</div>
+              ))}
+              {correlationSymbols.map(row => (
+                <React.Fragment key={row}>
+                  <div className={`pr-1 text-gray-300 truncate ${row === selectedSymbol ? 'font-bold' : ''}`}>{row}</div>
+                  {correlationSymbols.map(column => {
+                    const value = correlationMatrix[row]?.[column] ?? 0;
+                    const estimated = row === column || correlationEngine.getCorrelation(row, column) !== null;
+                    return (
+                      <Tooltip key={column}>
+                        <TooltipTrigger asChild>
+                          <div
+                            className={`h-5 rounded-sm ${estimated ? '' : 'opacity-50'}`}
+                            style={getCorrelationStyle(value)}
+                          />
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p className="text-xs">
+                            {row} / {column}: {value.toFixed(2)}{estimated ? '' : ' (prior)'}
+                          </p>
+                        </TooltipContent>
+                      </Tooltip>
+                    );
+                  })}
+                </React.Fragment>
+              ))}
+            </div>
+          </div>
+
           <Separator className="bg-slate-700/50" />
 
           {/* Risk Level Selector */}
@@ -145,6 +145,7 @@ export interface PlanValidationResult {
   warnings: string[];
   score: number; // 0-100
   suggestions: string[];
+  adjustedPlan?: Partial<TradingPlan>; // e.g. downsized during an event window
 }
 
 /**
@@ -19,6 +19,10 @@ import {
   Eye,
   EyeOff
 } from 'lucide-react';
+import { useAccount } from 'wagmi';
+import type { Address } from 'viem';
+import { useOrderCheck } from '../../hooks/useOrderCheck';
+import OrderCheckNotice from './OrderCheckNotice';
 
 interface TradingFormData {
   side: 'buy' | 'sell';
@@ -55,6 +59,7 @@ interface TradingFormProps {
   isLoading?: boolean;
   theme?: 'river' | 'professional';
   className?: string;
+  userAddress?: Address; // Defaults to the connected wallet
 }
 
 const EnhancedTradingForm: React.FC<TradingFormProps> = ({
@@ -66,8 +71,10 @@ const EnhancedTradingForm: React.FC<TradingFormProps> = ({
   onPriceFromOrderBook,
   isLoading = false,
   theme = 'river',
-  className
+  className,
+  userAddress
 }) => {
+  const { address: connectedAddress } = useAccount();
   const [formData, setFormData] = useState<TradingFormData>({
     side: 'buy',
     orderType: 'market',
@@ -184,6 +191,21 @@ const EnhancedTradingForm: React.FC<TradingFormProps> = ({
     }
   }, [formData.price, riskRewardRatio, autoCalculate, calculateTPSL]);
 
+  // 订单网关检查（数量为基础资产单位）
+  const orderCheck = useOrderCheck(parseFloat(formData.amount) > 0 ? {
+    userAddress: userAddress ?? connectedAddress,
+    market: symbol,
+    side: formData.side,
+    size: formData.amount,
+    price: formData.orderType === 'market' ? undefined : formData.price,
+    referencePrice: currentPrice,
+    orderType: formData.orderType,
+    leverage: formData.leverage,
+    marginMode: formData.marginMode,
+    reduceOnly: formData.reduceOnly,
+    source: 'enhanced_form'
+  } : null);
+
   // 表单验证
   const validation = useMemo(() => {
     const errors: string[] = [];
@@ -205,15 +227,20 @@ const EnhancedTradingForm: React.FC<TradingFormProps> = ({
     }
 
     return {
-      isValid: errors.length === 0,
+      isValid: errors.length === 0 && (!orderCheck || orderCheck.accepted),
       errors
     };
-  }, [formData, riskMetrics, availableMargin]);
+  }, [formData, riskMetrics, availableMargin, orderCheck]);
 
-  // 提交处理
+  // 提交处理：按网关取整后的数量和价格提交
   const handleSubmit = async () => {
-    if (validation.isValid) {
-      await onSubmit(formData);
+    if (validation.isValid && orderCheck?.order) {
+      const { order } = orderCheck;
+      await onSubmit({
+        ...formData,
+        amount: order.size.toString(),
+        price: order.price !== undefined ? order.price.toString() : formData.price
+      });
     }
   };
 
@@ -574,7 +601,8 @@ const EnhancedTradingForm: React.FC<TradingFormProps> = ({
       )}
 
       {/* 错误显示 */}
-      {!validation.isValid && (
+      <OrderCheckNotice result={orderCheck} />
+      {validation.errors.length > 0 && (
         <div className="space-y-2">
           {validation.errors.map((error, index) => (
             <div key={index} className="flex items-center space-x-2 p-2 bg-red-500/10 border border-red-500/20 rounded text-xs text-red-400">
@@ -23,7 +23,20 @@ import {
   Info,
   CheckCircle
 } from 'lucide-react';
-import { useGasPrice, gasOptimizationService, type GasPriceTier } from '../../utils/gasOptimization';
+import { formatGwei } from 'viem';
+import {
+  useGasPrice,
+  gasOptimizationService,
+  type ActionCostEstimate,
+  type GasAction,
+  type GasBudgetPolicy,
+  type GasPriceTier,
+  type GasTierName,
+  type StuckTransaction
+} from '../../utils/gasOptimization';
+import { transactionTracker } from '../../services/TransactionTracker';
+import { getChainAdapter } from '../../services/ChainAdapter';
+import { formatTransactionType } from '../../utils/transactionHistory';
 import { formatNumber, formatPrice } from '../../utils/formatUtils';
 import { toast } from 'sonner';
 
@@ -34,7 +47,7 @@ interface GasOptimizationPanelProps {
     maxFeePerGas: bigint;
     maxPriorityFeePerGas: bigint;
   }) => void;
-  transactionType?: 'place_order' | 'cancel_order' | 'close_position' | 'batch_settle' | 'approve';
+  transactionType?: GasAction;
   className?: string;
 }
 
@@ -43,11 +56,15 @@ const GasOptimizationPanel: React.FC<GasOptimizationPanelProps> = ({
   transactionType = 'place_order',
   className = ''
 }) => {
-  const { gasPrices, isLoading, error } = useGasPrice();
-  const [selectedTier, setSelectedTier] = useState<'slow' | 'standard' | 'fast' | 'instant'>('standard');
+  const { gasPrices, networkState, isLoading, error } = useGasPrice();
+  const [selectedTier, setSelectedTier] = useState<GasTierName>(() => gasOptimizationService.getBudgetPolicy(transactionType).tier);
   const [customGasPrice, setCustomGasPrice] = useState<string>('');
   const [useCustomGas, setUseCustomGas] = useState(false);
   const [gasTrends, setGasTrends] = useState<any>(null);
+  const [tierCosts, setTierCosts] = useState<Partial<Record<GasTierName, ActionCostEstimate>>>({});
+  const [policy, setPolicy] = useState<GasBudgetPolicy>(() => gasOptimizationService.getBudgetPolicy(transactionType));
+  const [stuckTransactions, setStuckTransactions] = useState<StuckTransaction[]>([]);
+  const [speedingUp, setSpeedingUp] = useState<string | null>(null);
 
   // 获取Gas价格趋势
   const fetchGasTrends = useCallback(async () => {
@@ -66,6 +83,60 @@ const GasOptimizationPanel: React.FC<GasOptimizationPanelProps> = ({
     return () => clearInterval(interval);
   }, [fetchGasTrends]);
 
+  // 各档位的总成本（L2 执行 + L1 数据）及预算检查
+  useEffect(() => {
+    if (gasPrices.length === 0) return;
+    let cancelled = false;
+    Promise.all(gasPrices.map(tier => gasOptimizationService.estimateActionCost(transactionType, tier.name)))
+      .then(estimates => {
+        if (cancelled) return;
+        setTierCosts(Object.fromEntries(estimates.map(estimate => [estimate.tier, estimate])));
+      })
+      .catch(error => console.error('Failed to estimate action costs:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [gasPrices, transactionType, policy]);
+
+  // 切换操作类型时载入对应的预算策略
+  useEffect(() => {
+    setPolicy(gasOptimizationService.getBudgetPolicy(transactionType));
+  }, [transactionType]);
+
+  // 卡住的交易：交易跟踪器有更新时以及每5秒刷新
+  useEffect(() => {
+    const refresh = () => {
+      const address = getChainAdapter().getAddress();
+      setStuckTransactions(address ? gasOptimizationService.getStuckTransactions(address) : []);
+    };
+    refresh();
+    const unsubscribe = transactionTracker.subscribe(refresh);
+    const interval = setInterval(refresh, 5000);
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, []);
+
+  // 更新预算策略
+  const updatePolicy = useCallback((patch: Partial<GasBudgetPolicy>) => {
+    gasOptimizationService.setBudgetPolicy(transactionType, patch);
+    setPolicy(gasOptimizationService.getBudgetPolicy(transactionType));
+  }, [transactionType]);
+
+  // 加速卡住的交易
+  const handleSpeedUp = useCallback(async (id: string) => {
+    setSpeedingUp(id);
+    try {
+      const hash = await gasOptimizationService.speedUpTransaction(id);
+      toast.success(`Replacement sent: ${hash.slice(0, 10)}...`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to speed up transaction');
+    } finally {
+      setSpeedingUp(null);
+    }
+  }, []);
+
   // 获取优化建议
   const getOptimalSettings = useCallback(() => {
     return gasOptimizationService.getOptimalGasSettings(transactionType);
@@ -86,7 +157,7 @@ const GasOptimizationPanel: React.FC<GasOptimizationPanelProps> = ({
   }, [onGasSettingChange, getOptimalSettings]);
 
   // 选择Gas档位
-  const handleTierSelect = useCallback((tierName: 'slow' | 'standard' | 'fast' | 'instant') => {
+  const handleTierSelect = useCallback((tierName: GasTierName) => {
     setSelectedTier(tierName);
     setUseCustomGas(false);
     
@@ -169,8 +240,9 @@ const GasOptimizationPanel: React.FC<GasOptimizationPanelProps> = ({
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="presets" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="presets">Gas Presets</TabsTrigger>
+              <TabsTrigger value="budget">Budget</TabsTrigger>
               <TabsTrigger value="analytics">Analytics</TabsTrigger>
             </TabsList>
 
@@ -205,7 +277,8 @@ const GasOptimizationPanel: React.FC<GasOptimizationPanelProps> = ({
                 <div className="grid grid-cols-2 gap-3">
                   {gasPrices.map((tier) => {
                     const isSelected = selectedTier === tier.name && !useCustomGas;
-                    const totalCost = calculateTotalCost(tier);
+                    const estimate = tierCosts[tier.name];
+                    const totalCost = estimate?.totalCostWei ?? calculateTotalCost(tier);
                     
                     return (
                       <Card
@@ -225,7 +298,7 @@ const GasOptimizationPanel: React.FC<GasOptimizationPanelProps> = ({
                           <div className="space-y-1 text-xs">
                             <div className="flex justify-between">
                               <span className="text-muted">Gas Price:</span>
-                              <span className="font-medium">{Number(tier.gasPrice).toFixed(4)} gwei</span>
+                              <span className="font-medium">{Number(formatGwei(tier.gasPrice)).toFixed(4)} gwei</span>
                             </div>
                             <div className="flex justify-between">
                               <span className="text-muted">Time:</span>
@@ -237,6 +310,18 @@ const GasOptimizationPanel: React.FC<GasOptimizationPanelProps> = ({
                                 {formatPrice(Number(totalCost) / 1e18, { decimals: 6 })} ETH
                               </span>
                             </div>
+                            {estimate && estimate.l1CostWei > 0n && (
+                              <div className="flex justify-between">
+                                <span className="text-muted">L1 Data:</span>
+                                <span className="font-medium">{formatPrice(Number(estimate.l1CostWei) / 1e18, { decimals: 6 })} ETH</span>
+                              </div>
+                            )}
+                            {estimate && !estimate.withinBudget && (
+                              <div className="flex items-center space-x-1 text-red-500" title={estimate.violations.join('\n')}>
+                                <AlertTriangle className="w-3 h-3" />
+                                <span>Over budget</span>
+                              </div>
+                            )}
                           </div>
                         </CardContent>
                       </Card>
@@ -277,6 +362,122 @@ const GasOptimizationPanel: React.FC<GasOptimizationPanelProps> = ({
               </Card>
             </TabsContent>
 
+            {/* 预算策略页面 */}
+            <TabsContent value="budget" className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm flex items-center space-x-2">
+                    <Settings className="w-4 h-4" />
+                    <span>{transactionType.replace('_', ' ').toUpperCase()} Budget</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted">Default Tier:</span>
+                    <div className="flex space-x-1">
+                      {(['slow', 'standard', 'fast', 'instant'] as GasTierName[]).map((tierName) => (
+                        <Button
+                          key={tierName}
+                          onClick={() => updatePolicy({ tier: tierName })}
+                          variant={policy.tier === tierName ? 'default' : 'outline'}
+                          size="sm"
+                          className="h-7 px-2 text-xs capitalize"
+                        >
+                          {tierName}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted">Max Fee (gwei):</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={policy.maxFeePerGasGwei}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (value > 0) updatePolicy({ maxFeePerGasGwei: value });
+                      }}
+                      className="w-24 p-1 text-sm text-right bg-surface-3 border border-default/50 rounded-md"
+                    />
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted">Max Cost (USD):</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.05"
+                      value={policy.maxCostUSD}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (value > 0) updatePolicy({ maxCostUSD: value });
+                      }}
+                      className="w-24 p-1 text-sm text-right bg-surface-3 border border-default/50 rounded-md"
+                    />
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted">Auto Speed-up:</span>
+                    <Button
+                      onClick={() => updatePolicy({ autoSpeedUp: !policy.autoSpeedUp })}
+                      variant={policy.autoSpeedUp ? 'default' : 'outline'}
+                      size="sm"
+                    >
+                      {policy.autoSpeedUp ? 'Enabled' : 'Enable'}
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted">
+                    Pending longer than {Math.round(policy.stuckAfterMs / 1000)}s counts as stuck; each speed-up resends the same nonce
+                    with fees +{policy.bumpPercent}%, at most {policy.maxBumps} times and never above the max fee.
+                  </p>
+
+                  {tierCosts[policy.tier] && !tierCosts[policy.tier]!.withinBudget && (
+                    <Alert variant="destructive">
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertDescription className="text-sm">
+                        {tierCosts[policy.tier]!.violations.join('. ')}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* 卡住的交易 */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm">Stuck Transactions</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {stuckTransactions.length === 0 ? (
+                    <div className="text-sm text-muted">No stuck transactions</div>
+                  ) : (
+                    stuckTransactions.map(({ transaction, pendingForMs, bumps, canSpeedUp }) => (
+                      <div key={transaction.id} className="flex items-center justify-between text-sm">
+                        <div>
+                          <div className="font-medium">{formatTransactionType(transaction.type)}</div>
+                          <div className="text-xs text-muted">
+                            {transaction.hash.slice(0, 10)}... · {Math.round(pendingForMs / 1000)}s · {bumps} bumps
+                          </div>
+                        </div>
+                        <Button
+                          onClick={() => handleSpeedUp(transaction.id)}
+                          disabled={!canSpeedUp || speedingUp === transaction.id}
+                          variant="outline"
+                          size="sm"
+                        >
+                          <Zap className="w-3 h-3 mr-1" />
+                          Speed up
+                        </Button>
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
             {/* 分析页面 */}
             <TabsContent value="analytics" className="space-y-4">
               {/* Gas价格趋势 */}
@@ -332,11 +533,35 @@ const GasOptimizationPanel: React.FC<GasOptimizationPanelProps> = ({
                   
                   <div className="flex items-center justify-between">
                     <span className="text-sm text-muted">Congestion:</span>
-                    <Badge variant="outline" className="bg-green-500/10 text-green-600 border-green-500/30">
-                      Low
+                    <Badge
+                      variant="outline"
+                      className={`capitalize ${
+                        networkState?.congestion === 'high' ? 'bg-red-500/10 text-red-600 border-red-500/30' :
+                        networkState?.congestion === 'moderate' ? 'bg-yellow-500/10 text-yellow-600 border-yellow-500/30' :
+                        'bg-green-500/10 text-green-600 border-green-500/30'
+                      }`}
+                    >
+                      {networkState?.congestion ?? 'low'}
                     </Badge>
                   </div>
 
+                  {networkState && networkState.source !== 'fallback' && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-muted">Next Base Fee:</span>
+                      <span className="font-medium">{Number(formatGwei(networkState.nextBaseFee)).toFixed(4)} gwei</span>
+                    </div>
+                  )}
+
+                  {networkState && networkState.source !== 'fallback' && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-muted">Fee History:</span>
+                      <span className="font-medium text-xs">
+                        {networkState.source === 'fixture' ? 'Demo fixture' : `Blocks ${networkState.fromBlock}-${networkState.toBlock}`}
+                        {' · '}{(networkState.averageGasUsedRatio * 100).toFixed(0)}% full
+                      </span>
+                    </div>
+                  )}
+
                   <div className="flex items-center justify-between">
                     <span className="text-sm text-muted">Avg Block Time:</span>
                     <span className="font-medium">~0.25s</span>
@@ -1,9 +1,14 @@
 import React, { useState, useCallback, useMemo } from 'react';
-import { TrendingUp, TrendingDown, Zap, Brain, X, CheckCircle } from 'lucide-react';
+import { TrendingUp, TrendingDown, Zap, Brain, X, CheckCircle, CalendarClock } from 'lucide-react';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { Badge } from '../ui/badge';
 import TradingAssistantChat from '../trading-assistant/TradingAssistantChat';
+import { useBlackoutStatus } from '../../hooks/useBlackoutStatus';
+import { useOrderCheck } from '../../hooks/useOrderCheck';
+import OrderCheckNotice from './OrderCheckNotice';
+import { useAccount } from 'wagmi';
+import type { Address } from 'viem';
 
 interface OptimizedTradingFormProps {
   selectedPair: string;
@@ -15,6 +20,7 @@ interface OptimizedTradingFormProps {
   initialPrice?: string;
   initialAmount?: string;
   initialSide?: 'buy' | 'sell';
+  userAddress?: Address; // Defaults to the connected wallet
 }
 
 const OptimizedTradingForm: React.FC<OptimizedTradingFormProps> = ({
@@ -25,8 +31,10 @@ const OptimizedTradingForm: React.FC<OptimizedTradingFormProps> = ({
   className = '',
   initialPrice,
   initialAmount,
-  initialSide
+  initialSide,
+  userAddress
 }) => {
+  const { address: connectedAddress } = useAccount();
   // 交易状态 - 支持初始值
   const [side, setSide] = useState<'buy' | 'sell'>(initialSide || 'buy');
   const [orderType, setOrderType] = useState('market');
@@ -58,6 +66,25 @@ const OptimizedTradingForm: React.FC<OptimizedTradingFormProps> = ({
     leverageSlider: false
   });
   
+  // 经济日历事件窗口：禁止下单或按比例缩减仓位
+  const blackout = useBlackoutStatus(selectedPair);
+  const isBlockedByEvent = blackout.action === 'block';
+
+  // 订单网关检查（金额为 USDT 名义价值，事件窗口缩减由网关执行）
+  const orderCheck = useOrderCheck(parseFloat(amount) > 0 ? {
+    userAddress: userAddress ?? connectedAddress,
+    market: selectedPair,
+    side,
+    size: amount,
+    sizeUnit: 'quote',
+    price: orderType === 'limit' ? price : undefined,
+    referencePrice: currentPrice,
+    orderType: orderType === 'limit' ? 'limit' : 'market',
+    leverage,
+    source: 'optimized_form'
+  } : null);
+  const isRejected = orderCheck !== null && !orderCheck.accepted;
+
   // 监听从订单簿传入的数据变化
   React.useEffect(() => {
     if (initialPrice) setPrice(initialPrice);
@@ -114,10 +141,11 @@ const OptimizedTradingForm: React.FC<OptimizedTradingFormProps> = ({
 
   // 增强的交易提交处理，带有完整的微交互反馈
   const handleTrade = useCallback(() => {
-    if (!isConnected) return;
+    if (!isConnected || isBlockedByEvent || !orderCheck?.accepted || !orderCheck.order) return;
     
-    // 风险检查和警告动画
-    const amountValue = parseFloat(amount) || 0;
+    // 风险检查和警告动画（网关已按事件窗口缩减并按步长取整）
+    const { order } = orderCheck;
+    const amountValue = order.notional;
     const isHighRisk = leverage > 20 || amountValue > 50000;
     
     if (isHighRisk) {
@@ -134,10 +162,13 @@ const OptimizedTradingForm: React.FC<OptimizedTradingFormProps> = ({
       side,
       orderType,
       amount: amountValue,
-      price: orderType === 'limit' ? parseFloat(price) : currentPrice,
+      size: order.size,
+      market: order.market,
+      price: order.price ?? currentPrice,
       leverage,
       quickTP: quickTP ? parseFloat(quickTP) : undefined,
-      quickSL: quickSL ? parseFloat(quickSL) : undefined
+      quickSL: quickSL ? parseFloat(quickSL) : undefined,
+      eventAdjustment: blackout.action === 'reduce' ? blackout.reason : undefined
     };
     
     // 模拟订单处理延迟
@@ -150,7 +181,7 @@ const OptimizedTradingForm: React.FC<OptimizedTradingFormProps> = ({
         setFormAnimations(prev => ({ ...prev, successCelebration: false }));
       }, 1200);
     }, 500);
-  }, [side, orderType, amount, price, currentPrice, leverage, quickTP, quickSL, isConnected, onTrade]);
+  }, [side, orderType, currentPrice, leverage, quickTP, quickSL, isConnected, onTrade, isBlockedByEvent, blackout, orderCheck]);
 
   return (
     <div className={`space-y-3 ${className}`}>
@@ -416,6 +447,23 @@ const OptimizedTradingForm: React.FC<OptimizedTradingFormProps> = ({
             </div>
           </div>
 
+          {/* 经济事件窗口提示 */}
+          {blackout.active && (
+            <div className={`p-2 rounded-lg border text-xs flex items-start gap-2 ${
+              isBlockedByEvent ? 'bg-red-900/20 border-red-600/30 text-red-300' : 'bg-yellow-900/20 border-yellow-600/30 text-yellow-300'
+            }`}>
+              <CalendarClock className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <span>
+                {isBlockedByEvent
+                  ? 'Trading paused for event window: '
+                  : `Order size reduced to ${(blackout.sizeMultiplier * 100).toFixed(0)}% for event window: `}
+                {blackout.reason}
+              </span>
+            </div>
+          )}
+
+          <OrderCheckNotice result={orderCheck} hideCodes={['EVENT_BLACKOUT', 'EVENT_SIZE_REDUCED']} />
+
           {/* 交易按钮 - SOTA微交互系统 */}
           <Button 
             onClick={handleTrade}
@@ -428,7 +476,7 @@ const OptimizedTradingForm: React.FC<OptimizedTradingFormProps> = ({
             } ${
               formAnimations.riskWarning ? 'error-shake-micro' : ''
             }`}
-            disabled={!isConnected || formAnimations.orderSubmit}
+            disabled={!isConnected || isBlockedByEvent || isRejected || formAnimations.orderSubmit}
           >
             {formAnimations.orderSubmit ? (
               <>
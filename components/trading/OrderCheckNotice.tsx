@@ -0,0 +1,58 @@
+import React from 'react';
+import { AlertTriangle, Info } from 'lucide-react';
+import { cn } from '../ui/utils';
+import type {
+  OrderCheckResult,
+  OrderRejection,
+  OrderRejectionCode,
+  OrderWarningCode
+} from '../../services/OrderGateway';
+
+interface OrderCheckNoticeProps {
+  result?: OrderCheckResult | null;
+  rejections?: OrderRejection[]; // e.g. from getOrderRejections on a failed submit
+  showWarnings?: boolean;
+  hideCodes?: (OrderRejectionCode | OrderWarningCode)[]; // codes the form already shows elsewhere
+  className?: string;
+}
+
+// Order gateway rejections and warnings, rendered the same way by every order form
+const OrderCheckNotice: React.FC<OrderCheckNoticeProps> = ({
+  result,
+  rejections,
+  showWarnings = true,
+  hideCodes = [],
+  className
+}) => {
+  const errors = (rejections ?? result?.rejections ?? []).filter(rejection => !hideCodes.includes(rejection.code));
+  const warnings = (showWarnings ? result?.warnings ?? [] : []).filter(warning => !hideCodes.includes(warning.code));
+
+  if (errors.length === 0 && warnings.length === 0) return null;
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      {errors.map(rejection => (
+        <div
+          key={`${rejection.code}-${rejection.message}`}
+          data-code={rejection.code}
+          className="flex items-center space-x-2 p-2 bg-red-500/10 border border-red-500/20 rounded text-xs text-red-400"
+        >
+          <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+          <span>{rejection.message}</span>
+        </div>
+      ))}
+      {warnings.map(warning => (
+        <div
+          key={`${warning.code}-${warning.message}`}
+          data-code={warning.code}
+          className="flex items-center space-x-2 p-2 bg-yellow-500/10 border border-yellow-500/20 rounded text-xs text-yellow-400"
+        >
+          <Info className="w-3 h-3 flex-shrink-0" />
+          <span>{warning.message}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default OrderCheckNotice;
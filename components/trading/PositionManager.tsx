@@ -26,6 +26,8 @@ import {
 } from 'lucide-react';
 import { useRiverBitWeb3 } from '../../providers/RiverBitWeb3Provider';
 import { useMultipleRealTimePrices } from '../../hooks/useRealTimePrice';
+import { useEventHistory } from '../../hooks/useEventHistory';
+import { getChainAdapter } from '../../services/ChainAdapter';
 import { 
   formatPrice, 
   formatNumber, 
@@ -35,7 +37,7 @@ import {
 } from '../../utils/formatUtils';
 import { toast } from 'sonner';
 
-// Mock data for order history and pending orders
+// Mock data for pending orders, and for order history while no wallet is connected
 const MOCK_ORDER_HISTORY = [
   {
     id: 'ORD-001',
@@ -125,9 +127,29 @@ const PositionManager: React.FC = () => {
     closePosition,
     refreshData,
     accountInfo,
+    address,
     error
   } = useRiverBitWeb3();
 
+  // Closed positions from the event indexer
+  const historyAddress = address || getChainAdapter().getAddress();
+  const { closedPositions } = useEventHistory(historyAddress);
+  const orderHistory = useMemo(() => {
+    if (!historyAddress) return MOCK_ORDER_HISTORY;
+    return closedPositions.map(record => ({
+      id: `POS-${record.positionId}`,
+      market: record.market,
+      side: record.side,
+      type: record.liquidated ? 'liquidation' : 'position',
+      size: record.size.toString(),
+      price: record.entryPrice.toString(),
+      fee: record.fees.toFixed(4),
+      pnl: `${record.pnl >= 0 ? '+' : ''}${record.pnl.toFixed(2)}`,
+      timestamp: new Date(record.openedAt).toISOString(),
+      closeTime: new Date(record.closedAt).toISOString()
+    }));
+  }, [historyAddress, closedPositions]);
+
   const [selectedPosition, setSelectedPosition] = useState<string | null>(null);
   const [closeSize, setCloseSize] = useState<string>('');
   const [isClosing, setIsClosing] = useState(false);
@@ -336,7 +358,7 @@ const PositionManager: React.FC = () => {
               </TabsTrigger>
               <TabsTrigger value="history" className="flex items-center gap-2">
                 <History className="w-4 h-4" />
-                <span>History ({MOCK_ORDER_HISTORY.length})</span>
+                <span>History ({orderHistory.length})</span>
               </TabsTrigger>
             </TabsList>
 
@@ -610,7 +632,7 @@ const PositionManager: React.FC = () => {
 
             {/* Order History Tab */}
             <TabsContent value="history" className="mt-6">
-              {MOCK_ORDER_HISTORY.length === 0 ? (
+              {orderHistory.length === 0 ? (
                 <div className="text-center py-12">
                   <History className="w-12 h-12 mx-auto text-muted mb-4" />
                   <h3 className="text-lg font-semibold text-secondary mb-2">No Order History</h3>
@@ -620,7 +642,7 @@ const PositionManager: React.FC = () => {
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {MOCK_ORDER_HISTORY.map((order) => (
+                  {orderHistory.map((order) => (
                     <Card key={order.id} className="border">
                       <CardContent className="p-4">
                         <div className="flex items-start justify-between mb-4">
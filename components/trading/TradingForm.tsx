@@ -18,6 +18,7 @@ import {
 } from 'lucide-react';
 import { TRADING_CONFIG, UI_CONFIG, MOCK_ACCOUNT_DATA, TRADING_UTILS } from '../../constants/tradingConstants';
 import RealTradingExecutor from '../RealTradingExecutor';
+import { orderGateway } from '../../services/OrderGateway';
 
 interface TradingFormProps {
   // 交易状态
@@ -84,24 +85,45 @@ const TradingForm = React.memo(function TradingForm({
 
   // 处理演示交易
   const handleDemoTrade = () => {
-    const orderData = {
-      side: orderSide,
-      type: orderType,
-      amount: parseFloat(amount),
-      price: orderType === TRADING_CONFIG.ORDER_TYPES.LIMIT ? parseFloat(price) : selectedPair?.price,
+    // 演示订单同样经过订单网关（金额为 USDT 名义价值）
+    const check = orderGateway.check({
+      market: selectedTradingPair,
+      side: orderSide as 'buy' | 'sell',
+      size: amount,
+      sizeUnit: 'quote',
+      price: orderType === TRADING_CONFIG.ORDER_TYPES.LIMIT ? price : undefined,
+      referencePrice: selectedPair?.price,
+      orderType: orderType === TRADING_CONFIG.ORDER_TYPES.LIMIT ? 'limit' : 'market',
       leverage,
-      symbol: selectedTradingPair,
-      margin: TRADING_UTILS.calculateRequiredMargin(parseFloat(amount), leverage),
+      marginMode: marginMode as 'cross' | 'isolated',
+      source: 'trading_form'
+    });
+    if (!check.accepted || !check.order) {
+      alert(`订单被拒绝：\n\n${check.rejections.map(rejection => rejection.message).join('\n')}`);
+      return;
+    }
+
+    // 使用网关按步长和价格精度取整后的订单
+    const { order } = check;
+    const orderData = {
+      side: order.side,
+      type: order.orderType,
+      amount: order.notional,
+      size: order.size,
+      price: order.price ?? order.referencePrice,
+      leverage: order.leverage,
+      symbol: order.market,
+      margin: order.margin,
       timestamp: Date.now()
     };
     
-    const confirmMessage = `模拟${orderSide === TRADING_CONFIG.ORDER_SIDES.BUY ? '买入' : '卖出'}订单：\n\n` +
-      `交易对: ${selectedTradingPair}\n` +
-      `数量: ${amount} USDT\n` +
-      `价格: ${orderType === TRADING_CONFIG.ORDER_TYPES.MARKET ? '市价' : '$' + price}\n` +
-      `杠杆: ${leverage}x\n` +
-      `保证金: $${TRADING_UTILS.calculateRequiredMargin(parseFloat(amount), leverage).toLocaleString()}\n` +
-      `预计手续费: $${TRADING_UTILS.calculateTradingFee(parseFloat(amount)).toFixed(2)}`;
+    const confirmMessage = `模拟${orderData.side === TRADING_CONFIG.ORDER_SIDES.BUY ? '买入' : '卖出'}订单：\n\n` +
+      `交易对: ${orderData.symbol}\n` +
+      `数量: ${orderData.size} (${orderData.amount.toFixed(2)} USDT)\n` +
+      `价格: ${order.orderType === 'market' ? '市价' : '$' + orderData.price}\n` +
+      `杠杆: ${orderData.leverage}x\n` +
+      `保证金: $${orderData.margin.toLocaleString()}\n` +
+      `预计手续费: $${TRADING_UTILS.calculateTradingFee(orderData.amount).toFixed(2)}`;
     
     if (window.confirm(confirmMessage)) {
       alert('模拟订单已提交！连接钱包进行真实交易。');
@@ -1,4 +1,8 @@
 import React, { useEffect, useRef, memo, useState } from 'react';
+import { ComposedChart, Line, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { toast } from 'sonner';
+import { useCandles } from '../../hooks/useCandles';
+import { isCandleTimeframe } from '../../services/CandleStore';
 
 export interface TradingViewChartProps {
   symbol?: string;
@@ -24,6 +28,7 @@ export interface TradingViewChartProps {
   popup_height?: string;
   no_referral_id?: boolean;
   className?: string;
+  dataSource?: 'tradingview' | 'local'; // 'local' renders bars from the candle store
 }
 
 declare global {
@@ -55,7 +60,8 @@ const TradingViewChart: React.FC<TradingViewChartProps> = ({
   popup_width = '1000',
   popup_height = '650',
   no_referral_id = true,
-  className = ''
+  className = '',
+  dataSource = 'tradingview'
 }) => {
   const container = useRef<HTMLDivElement>(null);
   const widgetRef = useRef<any>(null);
@@ -63,7 +69,7 @@ const TradingViewChart: React.FC<TradingViewChartProps> = ({
   const [hasError, setHasError] = useState(false);
 
   useEffect(() => {
-    if (!container.current) return;
+    if (dataSource === 'local' || !container.current) return;
 
     setIsLoading(true);
     setHasError(false);
@@ -144,7 +150,11 @@ const TradingViewChart: React.FC<TradingViewChartProps> = ({
       }
       widgetRef.current = null;
     };
-  }, [symbol, interval, theme, toolbar_bg]);
+  }, [symbol, interval, theme, toolbar_bg, dataSource]);
+
+  if (dataSource === 'local') {
+    return <LocalCandleChart symbol={symbol} interval={interval} className={className} />;
+  }
 
   return (
     <div 
@@ -247,4 +257,71 @@ const TradingViewChart: React.FC<TradingViewChartProps> = ({
   );
 };
 
+// Close/volume chart over locally aggregated candles (offline and demo mode)
+const LocalCandleChart: React.FC<{ symbol: string; interval: string; className: string }> = ({
+  symbol,
+  interval,
+  className
+}) => {
+  const timeframe = isCandleTimeframe(interval) ? interval : '1h';
+  const { bars, isLoading, importFile } = useCandles(symbol, timeframe);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const showDate = timeframe === '4h' || timeframe === '1d';
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = await importFile(file);
+      toast.success(`Imported ${imported} ${timeframe} bars for ${symbol}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import candles');
+    }
+  };
+
+  return (
+    <div
+      className={`bg-gradient-to-br from-slate-900/60 via-slate-800/50 to-slate-900/60 rounded-2xl overflow-hidden relative ${className}`}
+      style={{ width: '100%', height: '100%', minHeight: '400px', border: '1px solid rgba(0, 212, 255, 0.15)' }}
+    >
+      <input ref={fileInputRef} type="file" accept=".csv,.json" className="hidden" onChange={handleImport} />
+      <button
+        type="button"
+        onClick={() => fileInputRef.current?.click()}
+        className="absolute top-2 right-2 z-10 px-2 py-1 text-xs text-gray-300 bg-slate-800/80 border border-slate-600/50 rounded hover:text-white"
+      >
+        Import history
+      </button>
+      {bars.length < 2 ? (
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-400">
+          {isLoading ? 'Loading candles...' : `Collecting ${timeframe} candles for ${symbol}...`}
+        </div>
+      ) : (
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={bars} margin={{ top: 16, right: 16, left: 8, bottom: 8 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="rgba(148, 163, 184, 0.1)" />
+            <XAxis
+              dataKey="timestamp"
+              stroke="#64748b"
+              fontSize={11}
+              tickFormatter={(value) => showDate
+                ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+                : new Date(value).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
+            />
+            <YAxis yAxisId="price" stroke="#64748b" fontSize={11} domain={['auto', 'auto']} />
+            <YAxis yAxisId="volume" orientation="right" hide />
+            <Tooltip
+              labelFormatter={(value) => new Date(value as number).toLocaleString()}
+              contentStyle={{ background: '#0f172a', border: '1px solid rgba(0, 212, 255, 0.2)' }}
+            />
+            <Bar yAxisId="volume" dataKey="volume" fill="rgba(0, 212, 255, 0.15)" />
+            <Line yAxisId="price" type="monotone" dataKey="close" stroke="#00d4ff" dot={false} strokeWidth={2} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+};
+
 export default memo(TradingViewChart);
\ No newline at end of file
@@ -3,6 +3,10 @@ import { Button } from './button';
 import { Input } from './input';
 import { cn } from './utils';
 import { Zap, AlertTriangle, TrendingUp, TrendingDown } from 'lucide-react';
+import type { Address } from 'viem';
+import { useOrderCheck } from '../../hooks/useOrderCheck';
+import type { OrderCheckResult } from '../../services/OrderGateway';
+import OrderCheckNotice from '../trading/OrderCheckNotice';
 
 interface NaturalTradingFormProps {
   side: 'buy' | 'sell';
@@ -15,8 +19,10 @@ interface NaturalTradingFormProps {
   onAmountChange: (amount: string) => void;
   onPriceChange: (price: string) => void;
   onLeverageChange: (leverage: number) => void;
-  onTrade: () => void;
+  onTrade: (check: OrderCheckResult) => void; // Receives the accepted, rounded order
   currentPrice: number;
+  symbol?: string;
+  userAddress?: Address;
   isLoading?: boolean;
   className?: string;
 }
@@ -34,6 +40,8 @@ const NaturalTradingForm: React.FC<NaturalTradingFormProps> = ({
   onLeverageChange,
   onTrade,
   currentPrice,
+  symbol = 'BTC-PERP',
+  userAddress,
   isLoading = false,
   className,
 }) => {
@@ -41,6 +49,25 @@ const NaturalTradingForm: React.FC<NaturalTradingFormProps> = ({
   const [validationState, setValidationState] = useState<'valid' | 'warning' | 'error'>('valid');
   const [smartSuggestions, setSmartSuggestions] = useState<string[]>([]);
 
+  // 订单网关检查（金额为 USDT 名义价值）
+  const orderCheck = useOrderCheck(parseFloat(amount) > 0 ? {
+    userAddress,
+    market: symbol,
+    side,
+    size: amount,
+    sizeUnit: 'quote',
+    price: orderType === 'limit' ? price : undefined,
+    referencePrice: currentPrice,
+    orderType,
+    leverage,
+    source: 'natural_form'
+  } : null);
+  const isRejected = orderCheck !== null && !orderCheck.accepted;
+
+  const handleTrade = () => {
+    if (orderCheck?.accepted) onTrade(orderCheck);
+  };
+
   // 智能表单验证
   useEffect(() => {
     const numAmount = parseFloat(amount);
@@ -255,10 +282,12 @@ const NaturalTradingForm: React.FC<NaturalTradingFormProps> = ({
         </div>
       )}
 
+      <OrderCheckNotice result={orderCheck} />
+
       {/* 智能交易按钮 */}
       <Button
-        onClick={onTrade}
-        disabled={validationState === 'error' || isLoading}
+        onClick={handleTrade}
+        disabled={validationState === 'error' || isRejected || !orderCheck || isLoading}
         className={cn(
           'w-full h-12 text-lg font-bold natural-interactive haptic-strong',
           side === 'buy' 
@@ -60,8 +60,20 @@ export const NETWORK_CONFIG = {
 export type Config = typeof config
 export type Chain = typeof chains[0]
 
+// Chain backend: 'mock' (in-memory, offline), 'wagmi' or 'ethers'; set with VITE_CHAIN_BACKEND
+export type ChainBackend = 'mock' | 'wagmi' | 'ethers'
+
+const CHAIN_BACKENDS: ChainBackend[] = ['mock', 'wagmi', 'ethers']
+const configuredBackend = import.meta.env?.VITE_CHAIN_BACKEND as string | undefined
+
+export const chainBackend: ChainBackend = CHAIN_BACKENDS.includes(configuredBackend as ChainBackend)
+  ? configuredBackend as ChainBackend
+  : 'mock'
+
 // Demo mode utilities
-export const isDemoMode = true
-export const isWeb3Enabled = false
+export const isDemoMode = chainBackend === 'mock'
+export const isWeb3Enabled = !isDemoMode
 
-console.log('🎭 RiverBit Demo Mode: wagmi configuration loaded (frontend-only)')
\ No newline at end of file
+console.log(isDemoMode
+  ? '🎭 RiverBit Demo Mode: wagmi configuration loaded (frontend-only)'
+  : `RiverBit: ${chainBackend} chain backend enabled`)
\ No newline at end of file
@@ -51,6 +51,9 @@ export const TRADING_CONFIG = {
   SETTLEMENT_INTERVAL: 5000, // 5 seconds
   MAX_BATCH_SIZE: 100,
   SIGNATURE_VALIDITY: 30 * 60 * 1000, // 30 minutes
+  SETTLEMENT_MAX_RETRIES: 5,
+  SETTLEMENT_RETRY_BASE_DELAY: 5000, // 5 seconds, doubled per attempt
+  SETTLEMENT_RETRY_MAX_DELAY: 5 * 60 * 1000, // 5 minutes
 } as const
 
 // Market configurations
@@ -380,12 +383,72 @@ export interface SAuthTicket {
   user: `0x${string}`
   market: string
   side: number
+  orderType: OrderType
   size: string
   price: string
+  stopPrice: string // trigger for stop and stop_limit orders, '0' otherwise
   timestamp: number
   nonce: number
+  // Execution parameters; signed as 0 / unset when absent so the venue defaults apply
+  leverage?: number // at most two decimals
+  marginMode?: MarginMode
+  reduceOnly?: boolean
 }
 
+// S-Auth ticket signature domain
+export const SAUTH_DOMAIN = {
+  name: 'RiverBit S-Auth',
+  version: '2.0',
+  chainId: 421614, // Arbitrum Sepolia
+  verifyingContract: '0x43bf3e410fd22e4cD1081E60F31600BDdC15ea96' as `0x${string}`
+} as const
+
+// S-Auth ticket types for EIP-712
+export const SAUTH_TYPES = {
+  SAuthTicket: [
+    { name: 'user', type: 'address' },
+    { name: 'market', type: 'bytes32' },
+    { name: 'side', type: 'uint8' },
+    { name: 'orderType', type: 'uint8' }, // index into TRADING_CONFIG.ORDER_TYPES
+    { name: 'size', type: 'uint256' },
+    { name: 'price', type: 'uint256' },
+    { name: 'stopPrice', type: 'uint256' },
+    { name: 'leverage', type: 'uint256' }, // hundredths of 1x, 0 = venue default
+    { name: 'marginMode', type: 'uint8' }, // 1 + index into TRADING_CONFIG.MARGIN_MODES, 0 = venue default
+    { name: 'reduceOnly', type: 'bool' },
+    { name: 'timestamp', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' }
+  ]
+} as const
+
+// Replay-protection nonce view on the S-Auth verifying contract (optional)
+export const SAUTH_NONCE_ABI = [
+  {
+    "inputs": [{"name": "user", "type": "address"}],
+    "name": "nonces",
+    "outputs": [{"name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const
+
+// Trading plan commit-reveal proofs (EIP-712); the domain has no verifying contract
+// so signatures can be checked offline against the signer address alone
+export const PLAN_PROOF_DOMAIN = {
+  name: 'RiverBit Plan Proof',
+  version: '1',
+  chainId: 421614 // Arbitrum Sepolia
+} as const
+
+export const PLAN_PROOF_TYPES = {
+  PlanCommitment: [
+    { name: 'planId', type: 'string' },
+    { name: 'commitment', type: 'bytes32' },
+    { name: 'committedAt', type: 'uint256' },
+    { name: 'encoding', type: 'string' }
+  ]
+} as const
+
 // Gas estimation constants - Optimized for Arbitrum L2
 export const GAS_LIMITS = {
   PLACE_ORDER: 150_000n,       // Reduced from 200k - Arbitrum is more efficient
@@ -25,6 +25,47 @@ export const REVENUE_SPLIT = {
   PLATFORM_SHARE: 0.2
 } as const;
 
+// 存入时拨入保险基金的比例
+export const POOL_FEES = {
+  DEPOSIT_INSURANCE_FEE: 0.01
+} as const;
+
+// 提款队列：每 8 小时一期（对齐资金费结算），每期上限为 TVL 的百分比
+export const WITHDRAWAL_POLICY = {
+  EPOCH_HOURS: 8,
+  EPOCH_CAP_PERCENT: 5,
+  DEPOSIT_COOLDOWN_HOURS: 24,
+  // 退出费随敞口与回撤线性上升，分别在 EXPOSURE_MAX 与 DRAWDOWN_RED 达到上限
+  MAX_EXPOSURE_FEE: 0.01,
+  MAX_DRAWDOWN_FEE: 0.01
+} as const;
+
+// rLP 与 USDC 同为 6 位小数
+export const RLP_DECIMALS = 6;
+
+// Foundation LP 质押：实际年化 = BASE_APY × 档位加成
+export const FOUNDATION_STAKING = {
+  MIN_STAKE: 5000000,
+  BASE_APY: 125,
+  LOYALTY_BONUS: 0.5, // 锁满到期额外发放锁仓奖励的 50%
+  INITIAL_BALANCE: 12450000 // 演示钱包的 RBT 余额
+} as const;
+
+// 锁仓档位：奖励在 cliffDays 后按时间线性归属，cliffDays 等于 lockDays 时到期一次性归属
+export const FOUNDATION_STAKING_TIERS = [
+  { id: 'standard', lockDays: 180, boost: 1, cliffDays: 30 },
+  { id: 'extended', lockDays: 270, boost: 1.5, cliffDays: 60 },
+  { id: 'max', lockDays: 365, boost: 2.5, cliffDays: 365 }
+] as const;
+
+// 提前解锁罚金（按本金计），按已锁仓比例分段；未归属奖励与忠诚奖励一并作废
+export const EARLY_UNLOCK_PENALTIES = [
+  { minElapsedPercent: 75, penalty: 0.05 },
+  { minElapsedPercent: 50, penalty: 0.1 },
+  { minElapsedPercent: 25, penalty: 0.15 },
+  { minElapsedPercent: 0, penalty: 0.2 }
+] as const;
+
 export const FUNDING_INTERVALS = [
   'UTC 00:00',
   'UTC 08:00', 
@@ -34,7 +75,32 @@ export const FUNDING_INTERVALS = [
 export const RISK_EVENT_TYPES = {
   EXPOSURE_WARNING: 'exposure_warning',
   DRAWDOWN_ALERT: 'drawdown_alert',
-  FUNDING_SPIKE: 'funding_spike'
+  FUNDING_SPIKE: 'funding_spike',
+  INSURANCE_DRAW: 'insurance_draw',
+  ADL_TRIGGERED: 'adl_triggered'
+} as const;
+
+// 强平规则：维持保证金率与 ExchangeSimulator 一致，强平费从剩余保证金划入保险基金（按名义价值计）
+export const LIQUIDATION_POLICY = {
+  MAINTENANCE_MARGIN_RATE: 0.05,
+  LIQUIDATION_FEE_RATE: 0.01
+} as const;
+
+// 保险基金模拟中交易对手的杠杆分布（按未平仓名义价值的权重）
+export const COUNTERPARTY_LEVERAGE_BUCKETS = [
+  { leverage: 2, weight: 0.2 },
+  { leverage: 3, weight: 0.3 },
+  { leverage: 5, weight: 0.3 },
+  { leverage: 10, weight: 0.2 }
+] as const;
+
+// 对冲建议：单资产敞口压到 EXPOSURE_NORMAL，组合净敞口不超过 EXPOSURE_MAX
+export const HEDGE_POLICY = {
+  MIN_HEDGE_NOTIONAL: 1000,
+  MIN_PROXY_CORRELATION: 0.5,
+  DEFAULT_PROXY_CORRELATION: 0.7, // 无行情数据时假定美股大盘股之间的相关性
+  FUNDING_HORIZON_HOURS: 24, // 估算资金费成本的持有时长
+  LEVERAGE: 5
 } as const;
 
 export const POSITION_STATUS_COLORS = {
@@ -0,0 +1,69 @@
+// eth_feeHistory response (20 blocks, reward percentiles 10/25/50/75/90) in the
+// raw JSON-RPC shape, so a capture from any node can be pasted in unchanged.
+// Used for gas tiers in demo mode and as a stable input when checking the tier
+// math in utils/gasOptimization.ts. Base fee drifts up from the 0.1 gwei
+// Arbitrum Sepolia floor while blocks fill, so trend and congestion read as rising/moderate.
+
+export interface RawFeeHistory {
+  oldestBlock: string;
+  baseFeePerGas: string[]; // blockCount + 1 entries; the last one is the next block's
+  gasUsedRatio: number[];
+  reward: string[][];
+}
+
+export const FEE_HISTORY_PERCENTILES = [10, 25, 50, 75, 90];
+
+export const arbitrumSepoliaFeeHistory: RawFeeHistory = {
+  oldestBlock: '0x59ee760',
+  baseFeePerGas: [
+    '0x5f5e100',
+    '0x5f5e100',
+    '0x5f5e100',
+    '0x5f5e100',
+    '0x5f5e100',
+    '0x5f5e100',
+    '0x5f5e100',
+    '0x5f5e100',
+    '0x6146580',
+    '0x6338640',
+    '0x6534660',
+    '0x673a910',
+    '0x694b190',
+    '0x6b66331',
+    '0x6d8c155',
+    '0x6fbcf70',
+    '0x71f9106',
+    '0x74409af',
+    '0x7693d13',
+    '0x78f2eef',
+    '0x7b5e312'
+  ],
+  gasUsedRatio: [
+    0.04, 0.06, 0.05, 0.11, 0.08, 0.03, 0.07, 0.09, 0.22, 0.31, 0.28, 0.35, 0.41, 0.38, 0.44, 0.52, 0.47, 0.55, 0.61, 0.58
+  ],
+  reward: [
+    ['0x0', '0x0', '0xf4240', '0xf4240', '0x989680'],
+    ['0x0', '0x0', '0x0', '0xf4240', '0x1312d00'],
+    ['0x0', '0x0', '0x0', '0x1e8480', '0x1312d00'],
+    ['0x0', '0x0', '0x0', '0xf4240', '0x4c4b40'],
+    ['0x0', '0x0', '0x0', '0x1e8480', '0x989680'],
+    ['0x0', '0x0', '0x0', '0xf4240', '0x4c4b40'],
+    ['0x0', '0x0', '0xf4240', '0xf4240', '0x1312d00'],
+    ['0x0', '0x0', '0x0', '0xf4240', '0x1312d00'],
+    ['0x0', '0x0', '0x0', '0x1e8480', '0x4c4b40'],
+    ['0x0', '0x0', '0x0', '0xf4240', '0x1312d00'],
+    ['0x0', '0x0', '0x0', '0x1e8480', '0x989680'],
+    ['0x0', '0x0', '0x0', '0xf4240', '0x1312d00'],
+    ['0x0', '0x0', '0xf4240', '0xf4240', '0x4c4b40'],
+    ['0x0', '0x0', '0x0', '0x1e8480', '0x4c4b40'],
+    ['0x0', '0x0', '0x0', '0xf4240', '0x1312d00'],
+    ['0x0', '0x0', '0x0', '0x1e8480', '0x1312d00'],
+    ['0x0', '0x0', '0xf4240', '0x1e8480', '0x989680'],
+    ['0x0', '0x0', '0xf4240', '0x1e8480', '0x989680'],
+    ['0x0', '0x0', '0x0', '0xf4240', '0x1312d00'],
+    ['0x0', '0x0', '0x0', '0xf4240', '0x1312d00']
+  ]
+};
+
+// ArbGasInfo.getL1BaseFeeEstimate() (wei) for pricing L1 calldata alongside the fee history
+export const arbitrumSepoliaL1BaseFee = '0x2540be400';
@@ -1,6 +1,6 @@
+// 池子快照；rLP 净值、份额与持仓由 services/PoolAccounting 账本推导
 export const poolData = {
   tvl: 12450000,
-  rLPPrice: 1.0847,
   apr30d: 24.8,
   apr7d: 31.2,
   dailyYield: 0.068,
@@ -13,10 +13,9 @@ export const poolData = {
 
 export const userData = {
   balance: 5420.75,
-  rLPHolding: 4995.82,
+  rLPHolding: 4995.82, // 演示账户的初始 rLP
   todayEarnings: 34.56,
   totalEarnings: 847.23,
-  sharePercent: 0.043,
   // 新增交易相关数据
   totalMargin: 8500.00,
   usedMargin: 3200.00,
@@ -291,9 +290,9 @@ export const getSystemStats = () => {
 };
 
 // 用户在池子中的份额收益贡献
-export const getUserPoolContribution = () => {
+export const getUserPoolContribution = (sharePercent: number) => {
   const systemStats = getSystemStats();
-  const userSharePercent = userData.sharePercent / 100;
+  const userSharePercent = sharePercent / 100;
   
   return {
     contributedMargin: systemStats.totalMargin * userSharePercent,
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react'
+import { economicCalendar, type BlackoutStatus } from '../services/EconomicCalendar'
+
+const REFRESH_INTERVAL = 30 * 1000
+
+// Current event-calendar blackout for a symbol; re-evaluated as windows open and close
+export function useBlackoutStatus(symbol: string): BlackoutStatus {
+  const [status, setStatus] = useState<BlackoutStatus>(() => economicCalendar.getBlackoutStatus(symbol))
+
+  useEffect(() => {
+    const refresh = () => setStatus(economicCalendar.getBlackoutStatus(symbol))
+    refresh()
+    const timer = setInterval(refresh, REFRESH_INTERVAL)
+    const unsubscribe = economicCalendar.subscribe(refresh)
+
+    return () => {
+      clearInterval(timer)
+      unsubscribe()
+    }
+  }, [symbol])
+
+  return status
+}
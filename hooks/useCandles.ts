@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { PriceBar } from '../utils/tradingAssistant/strategyEngine'
+import { candleStore, type CandleTimeframe } from '../services/CandleStore'
+
+// Live OHLCV bars for one symbol/timeframe from the local candle store
+export function useCandles(symbol: string, timeframe: CandleTimeframe, limit: number = 200) {
+  const [bars, setBars] = useState<PriceBar[]>(() => candleStore.getCachedBars(symbol, timeframe, { limit }))
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+    // Idempotent: starts aggregating PriceFeedService ticks on first use
+    candleStore.connectPriceFeed()
+
+    candleStore.getBars(symbol, timeframe, { limit }).then(loaded => {
+      if (cancelled) return
+      setBars(loaded)
+      setIsLoading(false)
+    })
+
+    const unsubscribe = candleStore.subscribe(symbol, timeframe, (_bar, series) => {
+      if (!cancelled) setBars(series.slice(-limit).map(bar => ({ ...bar })))
+    })
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [symbol, timeframe, limit])
+
+  // Import a CSV or JSON history file into this symbol/timeframe; resolves to the bar count
+  const importFile = useCallback(async (file: File): Promise<number> => {
+    const text = await file.text()
+    const options = { symbol, timeframe }
+    const imported = file.name.toLowerCase().endsWith('.json')
+      ? await candleStore.importJSON(text, options)
+      : await candleStore.importCSV(text, options)
+    setBars(await candleStore.getBars(symbol, timeframe, { limit }))
+    return imported
+  }, [symbol, timeframe, limit])
+
+  return { bars, isLoading, importFile }
+}
@@ -0,0 +1,48 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { Address } from 'viem'
+import {
+  eventIndexer,
+  type ClosedPositionRecord,
+  type FundingRecord,
+  type IndexedEvent,
+  type IndexerStatus,
+  type TradeRecord,
+  type TransferRecord
+} from '../services/EventIndexer'
+
+export interface EventHistory {
+  events: IndexedEvent[]
+  trades: TradeRecord[]
+  funding: FundingRecord[]
+  transfers: TransferRecord[]
+  closedPositions: ClosedPositionRecord[]
+  status: IndexerStatus
+}
+
+// Indexed on-chain (or simulator) history for a wallet; starts the indexer for it.
+// Pass null while no wallet is connected.
+export function useEventHistory(userAddress?: string | null): EventHistory {
+  const [version, setVersion] = useState(0)
+
+  useEffect(() => eventIndexer.subscribe(() => setVersion(value => value + 1)), [])
+
+  useEffect(() => {
+    if (!userAddress) return
+    eventIndexer.start(userAddress as Address).catch(error => {
+      console.error('Failed to start event indexer:', error)
+    })
+  }, [userAddress])
+
+  // Recomputed whenever the indexer reports new events or a status change
+  return useMemo(() => {
+    const user = (userAddress ?? '') as Address
+    return {
+      events: userAddress ? eventIndexer.getEvents(user) : [],
+      trades: userAddress ? eventIndexer.getTradeHistory(user) : [],
+      funding: userAddress ? eventIndexer.getFundingHistory(user) : [],
+      transfers: userAddress ? eventIndexer.getTransferHistory(user) : [],
+      closedPositions: userAddress ? eventIndexer.getClosedPositions(user) : [],
+      status: eventIndexer.getStatus()
+    }
+  }, [userAddress, version])
+}
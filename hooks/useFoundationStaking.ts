@@ -0,0 +1,59 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+  computeAccrual,
+  foundationStaking,
+  type StakeAccrual,
+  type StakePosition,
+  type StakingEvent,
+  type StakingSummary
+} from '../services/FoundationStaking'
+
+export interface StakePositionView extends StakePosition {
+  accrual: StakeAccrual
+}
+
+export interface FoundationStakingState {
+  positions: StakePositionView[]
+  summary: StakingSummary
+  history: StakingEvent[]
+  balance: number
+  walletBalance: number | null // live wallets only
+  canTransact: boolean
+}
+
+const REFRESH_INTERVAL = 60000
+
+// The holder's Foundation LP positions with live accrual; re-renders on every
+// staking action and once a minute as rewards vest. Pass null for the demo account.
+export function useFoundationStaking(holder?: string | null): FoundationStakingState {
+  const [version, setVersion] = useState(0)
+
+  useEffect(() => {
+    const bump = () => setVersion(value => value + 1)
+    const unsubscribe = foundationStaking.subscribe(bump)
+    const timer = setInterval(bump, REFRESH_INTERVAL)
+    return () => {
+      unsubscribe()
+      clearInterval(timer)
+    }
+  }, [])
+
+  useEffect(() => {
+    foundationStaking.syncFromChain(holder)
+  }, [holder])
+
+  return useMemo(() => {
+    const now = Date.now()
+    return {
+      positions: foundationStaking.getPositions(holder).map(position => ({
+        ...position,
+        accrual: computeAccrual(position, now)
+      })),
+      summary: foundationStaking.getSummary(holder, now),
+      history: foundationStaking.getHistory(holder),
+      balance: foundationStaking.getBalance(holder),
+      walletBalance: foundationStaking.getWalletBalance(holder),
+      canTransact: foundationStaking.canTransact()
+    }
+  }, [holder, version])
+}
@@ -0,0 +1,35 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+  hedgeRecommender,
+  type HedgeBatch,
+  type HedgeOptions,
+  type HedgePlan,
+  type PoolDelta
+} from '../services/HedgeRecommender'
+import { poolAccounting } from '../services/PoolAccounting'
+
+export interface HedgeRecommenderState {
+  delta: PoolDelta
+  plan: HedgePlan
+  batches: HedgeBatch[]
+}
+
+// Current pool delta and the recommended hedge batch; recomputed whenever the
+// pool or the hedge book changes
+export function useHedgeRecommender(options: HedgeOptions = {}): HedgeRecommenderState {
+  const [version, setVersion] = useState(0)
+  const { targetExposure, aggregateLimit } = options
+
+  useEffect(() => hedgeRecommender.subscribe(() => setVersion(value => value + 1)), [])
+  useEffect(() => poolAccounting.subscribe(() => setVersion(value => value + 1)), [])
+
+  useEffect(() => {
+    hedgeRecommender.syncFromChain()
+  }, [])
+
+  return useMemo(() => ({
+    delta: hedgeRecommender.getDelta(),
+    plan: hedgeRecommender.recommend({ targetExposure, aggregateLimit }),
+    batches: hedgeRecommender.getBatches()
+  }), [targetExposure, aggregateLimit, version])
+}
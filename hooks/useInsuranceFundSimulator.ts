@@ -0,0 +1,23 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+  insuranceFundSimulator,
+  type ScenarioResult,
+  type ShockScenario
+} from '../services/InsuranceFundSimulator'
+
+export interface InsuranceFundSimulatorState {
+  scenarios: ShockScenario[]
+  runs: ScenarioResult[]
+}
+
+// Preset shock scenarios and the session's scenario runs, newest first
+export function useInsuranceFundSimulator(): InsuranceFundSimulatorState {
+  const [version, setVersion] = useState(0)
+
+  useEffect(() => insuranceFundSimulator.subscribe(() => setVersion(value => value + 1)), [])
+
+  return useMemo(() => ({
+    scenarios: insuranceFundSimulator.getScenarios(),
+    runs: insuranceFundSimulator.getRuns()
+  }), [version])
+}
@@ -3,6 +3,7 @@ import { useAccount, useWriteContract, useReadContract, useSignTypedData, useCha
 import { parseUnits, formatUnits, type Address, type Hash } from 'viem'
 import { arbitrumSepolia } from 'viem/chains'
 import { NETWORK_CONFIG } from '../config/wagmi'
+import { transactionTracker, type TrackOptions } from '../services/TransactionTracker'
 
 // EIP-712 Domain for RiverBit
 const EIP712_DOMAIN = {
@@ -253,6 +254,19 @@ export function useModernWeb3() {
     insuranceFund: 0, // Will be implemented in full contract
   }
 
+  // Hand a submitted hash to the shared transaction tracker; the state stays
+  // pending until the receipt (or a replacement) settles it
+  const trackTransaction = useCallback((hash: Hash, options: Omit<TrackOptions, 'userAddress' | 'chainId'>) => {
+    const record = transactionTracker.track({ hash }, { ...options, userAddress: address!, chainId })
+    setTransactionState({ status: TransactionStatus.PENDING, hash })
+
+    transactionTracker.wait(record.id).then(final => {
+      setTransactionState(final.status === 'success'
+        ? { status: TransactionStatus.SUCCESS, hash: final.hash as Hash }
+        : { status: TransactionStatus.FAILED, hash: final.hash as Hash, error: final.error || `Transaction ${final.status}` })
+    })
+  }, [address, chainId])
+
   // Approve USDC spending
   const approveUSDC = useCallback(async (amount: number): Promise<Hash> => {
     if (!address || !usdcAddress || !riverbitCoreAddress) {
@@ -270,7 +284,7 @@ export function useModernWeb3() {
         args: [riverbitCoreAddress, amountWei],
       })
 
-      setTransactionState({ status: TransactionStatus.SUCCESS, hash })
+      trackTransaction(hash, { type: 'approve_usdc', amount })
       return hash
     } catch (error: any) {
       setTransactionState({ 
@@ -279,7 +293,7 @@ export function useModernWeb3() {
       })
       throw error
     }
-  }, [address, usdcAddress, riverbitCoreAddress, writeContractAsync])
+  }, [address, usdcAddress, riverbitCoreAddress, writeContractAsync, trackTransaction])
 
   // Deposit to pool with EIP-712 signature
   const depositToPool = useCallback(async (amount: number): Promise<Hash> => {
@@ -318,7 +332,7 @@ export function useModernWeb3() {
         args: [amountWei],
       })
 
-      setTransactionState({ status: TransactionStatus.SUCCESS, hash })
+      trackTransaction(hash, { type: 'pool_deposit', amount })
       setNonce(prev => prev + 1)
 
       // Refetch data after transaction
@@ -335,7 +349,7 @@ export function useModernWeb3() {
       })
       throw error
     }
-  }, [address, riverbitCoreAddress, nonce, signTypedDataAsync, writeContractAsync, refetchAccount, refetchPool])
+  }, [address, riverbitCoreAddress, nonce, signTypedDataAsync, writeContractAsync, trackTransaction, refetchAccount, refetchPool])
 
   // Withdraw from pool with EIP-712 signature
   const withdrawFromPool = useCallback(async (shares: number): Promise<Hash> => {
@@ -374,7 +388,7 @@ export function useModernWeb3() {
         args: [sharesWei],
       })
 
-      setTransactionState({ status: TransactionStatus.SUCCESS, hash })
+      trackTransaction(hash, { type: 'pool_withdraw', shares })
       setNonce(prev => prev + 1)
 
       // Refetch data after transaction
@@ -391,7 +405,7 @@ export function useModernWeb3() {
       })
       throw error
     }
-  }, [address, riverbitCoreAddress, nonce, signTypedDataAsync, writeContractAsync, refetchAccount, refetchPool])
+  }, [address, riverbitCoreAddress, nonce, signTypedDataAsync, writeContractAsync, trackTransaction, refetchAccount, refetchPool])
 
   // Open position with EIP-712 signature
   const openPosition = useCallback(async (
@@ -435,7 +449,7 @@ export function useModernWeb3() {
         args: [symbol, message.size, message.leverage],
       })
 
-      setTransactionState({ status: TransactionStatus.SUCCESS, hash })
+      trackTransaction(hash, { type: 'open_position', symbol, size })
       setNonce(prev => prev + 1)
 
       // Refetch data after transaction
@@ -451,7 +465,7 @@ export function useModernWeb3() {
       })
       throw error
     }
-  }, [address, riverbitCoreAddress, nonce, signTypedDataAsync, writeContractAsync, refetchAccount])
+  }, [address, riverbitCoreAddress, nonce, signTypedDataAsync, writeContractAsync, trackTransaction, refetchAccount])
 
   // Close position with EIP-712 signature
   const closePosition = useCallback(async (symbol: string, size: number): Promise<Hash> => {
@@ -490,7 +504,7 @@ export function useModernWeb3() {
         args: [symbol, message.size],
       })
 
-      setTransactionState({ status: TransactionStatus.SUCCESS, hash })
+      trackTransaction(hash, { type: 'close_position', symbol, size })
       setNonce(prev => prev + 1)
 
       // Refetch data after transaction
@@ -506,7 +520,7 @@ export function useModernWeb3() {
       })
       throw error
     }
-  }, [address, riverbitCoreAddress, nonce, signTypedDataAsync, writeContractAsync, refetchAccount])
+  }, [address, riverbitCoreAddress, nonce, signTypedDataAsync, writeContractAsync, trackTransaction, refetchAccount])
 
   return {
     // Connection state
@@ -0,0 +1,29 @@
+import { useEffect, useMemo, useState } from 'react'
+import { orderGateway, type OrderCheckResult, type OrderRequest } from '../services/OrderGateway'
+import { economicCalendar } from '../services/EconomicCalendar'
+import { killSwitch } from '../services/KillSwitch'
+
+const REFRESH_INTERVAL = 30 * 1000
+
+// Live order-gateway verdict for a draft order; null while there is nothing to check.
+// Re-evaluated when the draft changes, locks or the calendar change, and periodically.
+export function useOrderCheck(request: OrderRequest | null): OrderCheckResult | null {
+  const [tick, setTick] = useState(0)
+  const key = request ? JSON.stringify(request) : ''
+
+  useEffect(() => {
+    const bump = () => setTick(value => value + 1)
+    const timer = setInterval(bump, REFRESH_INTERVAL)
+    const unsubscribeCalendar = economicCalendar.subscribe(bump)
+    const unsubscribeKillSwitch = killSwitch.subscribe(bump)
+
+    return () => {
+      clearInterval(timer)
+      unsubscribeCalendar()
+      unsubscribeKillSwitch()
+    }
+  }, [])
+
+  // Keyed on the serialized draft so callers can pass a fresh object each render
+  return useMemo(() => request ? orderGateway.check(request) : null, [key, tick])
+}
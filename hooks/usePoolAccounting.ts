@@ -0,0 +1,28 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+  poolAccounting,
+  type PoolNav,
+  type UserPoolShare
+} from '../services/PoolAccounting'
+
+export interface PoolAccountingState {
+  nav: PoolNav
+  share: UserPoolShare
+}
+
+// Pool NAV and the holder's rLP position; re-renders on every mint, burn or re-mark.
+// Pass null while no wallet is connected to read the demo account.
+export function usePoolAccounting(holder?: string | null): PoolAccountingState {
+  const [version, setVersion] = useState(0)
+
+  useEffect(() => poolAccounting.subscribe(() => setVersion(value => value + 1)), [])
+
+  useEffect(() => {
+    poolAccounting.syncFromChain(holder)
+  }, [holder])
+
+  return useMemo(() => ({
+    nav: poolAccounting.getNav(),
+    share: poolAccounting.getUserShare(holder)
+  }), [holder, version])
+}
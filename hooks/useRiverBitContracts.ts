@@ -1,5 +1,5 @@
 import { useEffect, useState, useCallback, useMemo } from 'react'
-import { useAccount, useChainId, useReadContract, useWriteContract, useWatchContractEvent } from 'wagmi'
+import { useAccount, useChainId, useReadContract, useWriteContract } from 'wagmi'
 import { parseUnits, formatUnits, type Address } from 'viem'
 import { 
   NETWORK_CONFIG, 
@@ -15,6 +15,9 @@ import {
   type OrderType,
   type MarginMode
 } from '../constants/contractConstants'
+import { useEventHistory } from './useEventHistory'
+import { transactionTracker } from '../services/TransactionTracker'
+import { gasOptimizationService } from '../utils/gasOptimization'
 
 // Custom hook for RiverBit contract interactions
 export function useRiverBitContracts() {
@@ -211,10 +214,10 @@ export function useMarketPrice(market: string) {
   }
 }
 
-// Hook for trading operations
+// Hook for trading operations; fees follow the per-action gas budget policy
 export function useTradingOperations() {
-  const { validateConnection, contractAddresses } = useRiverBitContracts()
-  const { writeContract } = useWriteContract()
+  const { address, chainId, validateConnection, contractAddresses } = useRiverBitContracts()
+  const { writeContractAsync } = useWriteContract()
 
   const placeOrder = useCallback(async (params: {
     market: string
@@ -237,26 +240,39 @@ export function useTradingOperations() {
     const orderTypeNum = ['market', 'limit', 'stop', 'stop_limit'].indexOf(orderType)
     const marginModeNum = marginMode === 'cross' ? 0 : 1
 
-    return writeContract({
+    const hash = await writeContractAsync({
       address: contractAddresses!.riverbitCoreV2,
       abi: RIVERBIT_CORE_ABI,
       functionName: 'placeOrder',
       args: [marketBytes, sideNum, sizeWei, priceWei, orderTypeNum, marginModeNum, leverage],
-      gas: GAS_LIMITS.PLACE_ORDER
+      gas: GAS_LIMITS.PLACE_ORDER,
+      ...(await gasOptimizationService.getFeeOverrides('place_order'))
+    })
+    transactionTracker.track({ hash }, {
+      type: 'place_order',
+      userAddress: address!,
+      chainId,
+      symbol: market,
+      size: parseFloat(size),
+      note: `${side} ${orderType}`
     })
-  }, [validateConnection, contractAddresses, writeContract])
+    return hash
+  }, [address, chainId, validateConnection, contractAddresses, writeContractAsync])
 
   const cancelOrder = useCallback(async (orderId: string) => {
     validateConnection()
 
-    return writeContract({
+    const hash = await writeContractAsync({
       address: contractAddresses!.riverbitCoreV2,
       abi: RIVERBIT_CORE_ABI,
       functionName: 'cancelOrder',
       args: [BigInt(orderId)],
-      gas: GAS_LIMITS.CANCEL_ORDER
+      gas: GAS_LIMITS.CANCEL_ORDER,
+      ...(await gasOptimizationService.getFeeOverrides('cancel_order'))
     })
-  }, [validateConnection, contractAddresses, writeContract])
+    transactionTracker.track({ hash }, { type: 'cancel_order', userAddress: address!, chainId, note: `Order #${orderId}` })
+    return hash
+  }, [address, chainId, validateConnection, contractAddresses, writeContractAsync])
 
   const closePosition = useCallback(async (params: {
     positionId: string
@@ -269,28 +285,40 @@ export function useTradingOperations() {
     const sizeWei = parseUnits(size, 6)
     const priceWei = price ? parseUnits(price, 6) : 0n
 
-    return writeContract({
+    const hash = await writeContractAsync({
       address: contractAddresses!.riverbitCoreV2,
       abi: RIVERBIT_CORE_ABI,
       functionName: 'closePosition',
       args: [BigInt(positionId), sizeWei, priceWei],
-      gas: GAS_LIMITS.CLOSE_POSITION
+      gas: GAS_LIMITS.CLOSE_POSITION,
+      ...(await gasOptimizationService.getFeeOverrides('close_position'))
     })
-  }, [validateConnection, contractAddresses, writeContract])
+    transactionTracker.track({ hash }, {
+      type: 'close_position',
+      userAddress: address!,
+      chainId,
+      size: parseFloat(size),
+      note: `Position #${positionId}`
+    })
+    return hash
+  }, [address, chainId, validateConnection, contractAddresses, writeContractAsync])
 
   const approveUSDC = useCallback(async (amount: string) => {
     validateConnection()
 
     const amountWei = parseUnits(amount, 6)
 
-    return writeContract({
+    const hash = await writeContractAsync({
       address: contractAddresses!.usdc,
       abi: USDC_ABI,
       functionName: 'approve',
       args: [contractAddresses!.riverbitCoreV2, amountWei],
-      gas: GAS_LIMITS.APPROVE_USDC
+      gas: GAS_LIMITS.APPROVE_USDC,
+      ...(await gasOptimizationService.getFeeOverrides('approve'))
     })
-  }, [validateConnection, contractAddresses, writeContract])
+    transactionTracker.track({ hash }, { type: 'approve_usdc', userAddress: address!, chainId, amount: parseFloat(amount) })
+    return hash
+  }, [address, chainId, validateConnection, contractAddresses, writeContractAsync])
 
   return {
     placeOrder,
@@ -300,81 +328,27 @@ export function useTradingOperations() {
   }
 }
 
-// Hook for real-time events
-export function useRiverBitEvents() {
-  const { address, contractAddresses } = useRiverBitContracts()
-  const [events, setEvents] = useState<any[]>([])
-
-  // Watch for order placed events
-  useWatchContractEvent({
-    address: contractAddresses?.riverbitCoreV2,
-    abi: RIVERBIT_CORE_ABI,
-    eventName: 'OrderPlaced',
-    args: address ? { user: address } : undefined,
-    onLogs: (logs) => {
-      const newEvents = logs.map(log => ({
-        type: 'OrderPlaced',
-        data: log.args,
-        timestamp: Date.now(),
-        txHash: log.transactionHash
-      }))
-      setEvents(prev => [...newEvents, ...prev].slice(0, 100)) // Keep last 100 events
-    }
-  })
-
-  // Watch for order executed events
-  useWatchContractEvent({
-    address: contractAddresses?.riverbitCoreV2,
-    abi: RIVERBIT_CORE_ABI,
-    eventName: 'OrderExecuted',
-    args: address ? { user: address } : undefined,
-    onLogs: (logs) => {
-      const newEvents = logs.map(log => ({
-        type: 'OrderExecuted',
-        data: log.args,
-        timestamp: Date.now(),
-        txHash: log.transactionHash
+// Hook for recent contract events, served from the event indexer's history
+export function useRiverBitEvents(limit: number = 100) {
+  const { address } = useRiverBitContracts()
+  const { events: indexed } = useEventHistory(address)
+  const [clearedAt, setClearedAt] = useState(0)
+
+  const events = useMemo(() => {
+    return indexed
+      .filter(event => event.timestamp > clearedAt)
+      .slice(0, limit)
+      .map(event => ({
+        type: event.type,
+        data: event,
+        timestamp: event.timestamp,
+        txHash: event.txHash
       }))
-      setEvents(prev => [...newEvents, ...prev].slice(0, 100))
-    }
-  })
-
-  // Watch for position opened events
-  useWatchContractEvent({
-    address: contractAddresses?.riverbitCoreV2,
-    abi: RIVERBIT_CORE_ABI,
-    eventName: 'PositionOpened',
-    args: address ? { user: address } : undefined,
-    onLogs: (logs) => {
-      const newEvents = logs.map(log => ({
-        type: 'PositionOpened',
-        data: log.args,
-        timestamp: Date.now(),
-        txHash: log.transactionHash
-      }))
-      setEvents(prev => [...newEvents, ...prev].slice(0, 100))
-    }
-  })
-
-  // Watch for position closed events
-  useWatchContractEvent({
-    address: contractAddresses?.riverbitCoreV2,
-    abi: RIVERBIT_CORE_ABI,
-    eventName: 'PositionClosed',
-    args: address ? { user: address } : undefined,
-    onLogs: (logs) => {
-      const newEvents = logs.map(log => ({
-        type: 'PositionClosed',
-        data: log.args,
-        timestamp: Date.now(),
-        txHash: log.transactionHash
-      }))
-      setEvents(prev => [...newEvents, ...prev].slice(0, 100))
-    }
-  })
+  }, [indexed, clearedAt, limit])
 
+  // Hides the current feed; indexed history is kept
   const clearEvents = useCallback(() => {
-    setEvents([])
+    setClearedAt(Date.now())
   }, [])
 
   return {
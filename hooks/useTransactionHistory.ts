@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import {
+  transactionTracker,
+  type TransactionFilter,
+  type TransactionPage,
+  type TransactionStats
+} from '../services/TransactionTracker'
+
+export interface TransactionHistory extends TransactionPage {
+  stats: TransactionStats
+  exportCsv: () => string
+}
+
+const EMPTY_STATS: TransactionStats = {
+  total: 0,
+  pending: 0,
+  successful: 0,
+  failed: 0,
+  replaced: 0,
+  totalDeposited: 0,
+  totalWithdrawn: 0
+}
+
+// One page of the wallet's tracked transactions; re-renders as receipts arrive.
+// Pass a memoized filter so the page is not recomputed on every render.
+export function useTransactionHistory(
+  userAddress?: string | null,
+  filter: TransactionFilter = {},
+  page = 1,
+  pageSize?: number
+): TransactionHistory {
+  const [version, setVersion] = useState(0)
+
+  useEffect(() => transactionTracker.subscribe(() => setVersion(value => value + 1)), [])
+
+  const exportCsv = useCallback(() => {
+    return userAddress ? transactionTracker.exportCsv(userAddress, filter) : ''
+  }, [userAddress, filter])
+
+  return useMemo(() => {
+    if (!userAddress) {
+      return { items: [], total: 0, page: 1, pageSize: pageSize ?? 20, pageCount: 1, stats: EMPTY_STATS, exportCsv }
+    }
+    return {
+      ...transactionTracker.query(userAddress, filter, page, pageSize),
+      stats: transactionTracker.getStats(userAddress),
+      exportCsv
+    }
+  }, [userAddress, filter, page, pageSize, exportCsv, version])
+}
@@ -3,6 +3,7 @@ import { useAccount, useReadContract, useWriteContract, useWaitForTransactionRec
 import { parseUnits, formatUnits } from 'viem';
 import { toast } from 'sonner';
 import { CONTRACT_CONFIG, USDC_FAUCET_ABI } from '../utils/contractConfig';
+import { transactionTracker } from '../services/TransactionTracker';
 
 interface FaucetStats {
   enabled: boolean;
@@ -88,7 +89,7 @@ export function useUSDCFaucet() {
 
   // Write contract for minting
   const { 
-    writeContract, 
+    writeContractAsync, 
     data: hash, 
     error: writeError,
     isPending: isWritePending,
@@ -182,14 +183,15 @@ export function useUSDCFaucet() {
       
       // Try faucetMint first (most likely to work)
       try {
-        await writeContract({
+        const mintHash = await writeContractAsync({
           address: usdcAddress as `0x${string}`,
           abi: USDC_FAUCET_ABI,
           functionName: 'faucetMint',
           args: [amountInWei]
         });
         
-        toast.success('Mint transaction submitted!');
+        // The transaction tracker toasts the pending, confirmed and failed states
+        transactionTracker.track({ hash: mintHash }, { type: 'faucet_mint', userAddress: address, chainId: chain?.id, amount });
         return true;
       } catch (error: any) {
         console.log('faucetMint failed, trying alternative methods:', error.message);
@@ -200,14 +202,14 @@ export function useUSDCFaucet() {
         
         if (presetIndex !== -1) {
           try {
-            await writeContract({
+            const presetHash = await writeContractAsync({
               address: usdcAddress as `0x${string}`,
               abi: USDC_FAUCET_ABI,
               functionName: 'mintPreset',
               args: [presetIndex]
             });
             
-            toast.success('Preset mint transaction submitted!');
+            transactionTracker.track({ hash: presetHash }, { type: 'faucet_mint', userAddress: address, chainId: chain?.id, amount, note: 'Preset' });
             return true;
           } catch (presetError: any) {
             console.log('mintPreset failed:', presetError.message);
@@ -232,7 +234,7 @@ export function useUSDCFaucet() {
     } finally {
       setIsLoading(false);
     }
-  }, [address, isConnected, isValidNetwork, decimals, checkCanMint, writeContract, usdcAddress]);
+  }, [address, isConnected, isValidNetwork, decimals, checkCanMint, writeContractAsync, usdcAddress, chain]);
 
   // Quick mint presets
   const mintPreset = useCallback(async (presetIndex: number) => {
@@ -0,0 +1,54 @@
+import { useEffect, useMemo, useState } from 'react'
+import { poolAccounting } from '../services/PoolAccounting'
+import {
+  withdrawalQueue,
+  type ExitFeeBreakdown,
+  type WithdrawalRequest
+} from '../services/WithdrawalQueue'
+
+export interface QueuedWithdrawal extends WithdrawalRequest {
+  position: number | null
+  eta: number | null
+  claimableShares: number
+}
+
+export interface WithdrawalQueueState {
+  requests: QueuedWithdrawal[]
+  fee: ExitFeeBreakdown
+  availableShares: number
+  queueLength: number
+  epochCapacity: number
+  nextEpochAt: number
+  cooldownEndsAt: number | null
+}
+
+// The holder's withdrawal requests with live queue positions; re-renders when the
+// queue settles an epoch or the pool ledger moves. Pass null for the demo account.
+export function useWithdrawalQueue(holder?: string | null): WithdrawalQueueState {
+  const [version, setVersion] = useState(0)
+
+  useEffect(() => {
+    const bump = () => setVersion(value => value + 1)
+    const unsubscribeQueue = withdrawalQueue.subscribe(bump)
+    const unsubscribePool = poolAccounting.subscribe(bump)
+    return () => {
+      unsubscribeQueue()
+      unsubscribePool()
+    }
+  }, [])
+
+  return useMemo(() => ({
+    requests: withdrawalQueue.getRequests(holder).map(request => ({
+      ...request,
+      position: withdrawalQueue.getPosition(request.id),
+      eta: withdrawalQueue.getEta(request.id),
+      claimableShares: withdrawalQueue.getClaimableShares(request.id)
+    })),
+    fee: withdrawalQueue.getExitFee(),
+    availableShares: withdrawalQueue.getAvailableShares(holder),
+    queueLength: withdrawalQueue.getQueue().length,
+    epochCapacity: withdrawalQueue.getEpochCapacity(),
+    nextEpochAt: withdrawalQueue.getNextEpochAt(),
+    cooldownEndsAt: withdrawalQueue.getCooldownEndsAt(holder)
+  }), [holder, version])
+}
@@ -20,6 +20,7 @@ import {
   useTradingOperations 
 } from '../hooks/useRiverBitContracts'
 import { tradingService } from '../services/TradingService'
+import { orderGateway, type OrderSource } from '../services/OrderGateway'
 import { toast } from 'sonner'
 
 // Context type definition
@@ -160,15 +161,18 @@ export function RiverBitWeb3Provider({ children }: RiverBitWeb3ProviderProps) {
     setError(null)
   }, [])
   
-  // Enhanced trading operations with S-Auth
+  // Enhanced trading operations with S-Auth; every order passes the order gateway
   const placeOrder = useCallback(async (params: {
     market: string
     side: 'buy' | 'sell'
     size: string
+    sizeUnit?: 'base' | 'quote'
     price?: string
     orderType: 'market' | 'limit' | 'stop' | 'stop_limit'
     marginMode: 'cross' | 'isolated'
     leverage: number
+    reduceOnly?: boolean
+    source?: OrderSource
   }) => {
     try {
       if (!isConnected || !address) {
@@ -181,32 +185,36 @@ export function RiverBitWeb3Provider({ children }: RiverBitWeb3ProviderProps) {
       
       setError(null)
       
-      // Validate risk limits
-      const riskCheck = tradingService.validateRiskLimits({
-        userBalance: usdcBalance,
-        totalMarginUsed: accountInfo?.usedMargin || '0',
-        newTradeMargin: (parseFloat(params.size) * parseFloat(params.price || '0') / params.leverage).toString(),
-        leverage: params.leverage,
-        market: params.market
-      })
-      
-      if (!riskCheck.isValid) {
-        throw new Error(riskCheck.error)
-      }
+      // Account context from the contract reads; the gateway falls back to the simulator in demo mode
+      const account = accountInfo ? {
+        equity: parseFloat(accountInfo.equity),
+        freeMargin: parseFloat(accountInfo.freeMargin),
+        positions: positions.map(position => ({
+          market: position.market,
+          side: position.side,
+          size: parseFloat(position.size),
+          price: parseFloat(position.entryPrice)
+        }))
+      } : undefined
       
-      // Show warnings
-      riskCheck.warnings.forEach(warning => {
-        toast.warning(warning)
-      })
-      
-      // Generate S-Auth ticket
-      const { ticket, signature } = await tradingService.generateSAuthTicket({
+      const { check } = await orderGateway.submit({
         userAddress: address,
         market: params.market,
         side: params.side,
         size: params.size,
+        sizeUnit: params.sizeUnit,
         price: params.price,
-        orderType: params.orderType
+        orderType: params.orderType,
+        marginMode: params.marginMode,
+        leverage: params.leverage,
+        reduceOnly: params.reduceOnly,
+        account,
+        source: params.source ?? 'api'
+      })
+      
+      // Show warnings
+      check.warnings.forEach(warning => {
+        toast.warning(warning.message)
       })
       
       // Show success message with queue status
@@ -225,7 +233,7 @@ export function RiverBitWeb3Provider({ children }: RiverBitWeb3ProviderProps) {
       toast.error(errorMessage)
       throw err
     }
-  }, [isConnected, address, isValidNetwork, usdcBalance, accountInfo, refreshData])
+  }, [isConnected, address, isValidNetwork, accountInfo, positions, refreshData])
   
   const cancelOrder = useCallback(async (orderId: string) => {
     try {
@@ -308,7 +316,39 @@ export function RiverBitWeb3Provider({ children }: RiverBitWeb3ProviderProps) {
       })
     }
   }, [isConnected, isValidNetwork, switchToValidNetwork])
-  
+
+  // Surface settlement outcomes from the S-Auth ticket queue
+  useEffect(() => {
+    return tradingService.subscribeToQueue((event) => {
+      const count = event.ticketIds.length
+      if (event.type === 'retry_scheduled') {
+        toast.warning(`Settlement failed for ${count} order(s), retrying: ${event.error}`)
+      } else if (event.type === 'rejected') {
+        toast.error(`${count} order(s) rejected at settlement: ${event.error}`)
+      } else if (event.type === 'failed') {
+        toast.error(`${count} order(s) could not be settled after retries: ${event.error}`)
+      } else if (event.type === 'expired') {
+        toast.error(`${count} order(s) expired before settlement`)
+      }
+    })
+  }, [])
+
+  // Resync S-Auth nonces for the connected user and warn about queue gaps
+  useEffect(() => {
+    if (!isConnected || !address) return
+
+    tradingService.checkNonces(address).then(report => {
+      if (report.missing.length > 0) {
+        toast.warning(`Nonce gap detected: nonce(s) ${report.missing.join(', ')} were never queued`)
+      }
+      if (report.blocking.length > 0) {
+        toast.error(`Unsettled order nonce(s) ${report.blocking.join(', ')} may block later orders`)
+      }
+    }).catch(err => {
+      console.error('Nonce check failed:', err)
+    })
+  }, [isConnected, address])
+
   // Context value
   const contextValue: RiverBitWeb3ContextType = {
     // Connection state
@@ -0,0 +1,595 @@
+import type { PriceBar } from '../utils/tradingAssistant/strategyEngine'
+import { UnifiedPriceWebSocket, type UnifiedPriceData } from '../utils/unifiedPriceAPI'
+import { MARKET_CONFIG } from '../constants/contractConstants'
+import { priceFeedService } from './PriceFeedService'
+import { openDatabase, getAllRecords, putRecords, deleteRecords, clearStore } from '../utils/indexedDb'
+
+// Supported candle timeframes
+export const CANDLE_TIMEFRAMES = ['1m', '5m', '15m', '1h', '4h', '1d'] as const
+export type CandleTimeframe = typeof CANDLE_TIMEFRAMES[number]
+
+export const TIMEFRAME_MS: Record<CandleTimeframe, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+}
+
+export interface BarRange {
+  from?: number // inclusive, ms
+  to?: number // inclusive, ms
+  limit?: number // most recent N bars within the range
+}
+
+export interface ImportOptions {
+  symbol?: string // required when the file has no symbol column
+  timeframe?: CandleTimeframe // required when the file has no timeframe column
+  rollUp?: boolean // also aggregate into coarser timeframes (default true)
+}
+
+// Stored record shape (one row per bar)
+interface StoredBar extends PriceBar {
+  symbol: string
+  timeframe: CandleTimeframe
+}
+
+// Raw bar as found in JSON imports: an object with named fields, or a
+// [timestamp, open, high, low, close, volume?] tuple (exchange kline format)
+type RawBar = Record<string, unknown> | unknown[]
+
+interface RawDataset {
+  symbol?: string
+  timeframe?: string
+  bars: RawBar[]
+}
+
+// 'live' ticks come from real market data and are persisted; 'mock' ticks
+// (the demo random walk) live in a separate in-memory series
+export type TickSource = 'live' | 'mock'
+
+type BarListener = (bar: PriceBar, bars: PriceBar[]) => void
+
+const DB_NAME = 'riverbit_candles'
+const STORE_NAME = 'bars'
+
+// Normalize feed symbols to one key per asset: 'BTC-PERP', 'BINANCE:BTCUSDT',
+// 'BTC/USDT' and 'BTC' all map to 'BTC'; tokenized stocks drop the 'x' prefix
+export function toCandleSymbol(symbol: string): string {
+  let base = symbol.includes(':') ? symbol.split(':')[1] : symbol
+  base = base.replace(/-PERP$/i, '').split('/')[0]
+  base = base.replace(/^x(?=[A-Z])/, '')
+  if (base.length > 4) base = base.replace(/(USDT|USDC|USD)$/i, '')
+  return base.toUpperCase()
+}
+
+export function isCandleTimeframe(value: string): value is CandleTimeframe {
+  return (CANDLE_TIMEFRAMES as readonly string[]).includes(value)
+}
+
+// Aggregate bars into a coarser timeframe (input sorted ascending)
+export function aggregateBars(bars: PriceBar[], timeframe: CandleTimeframe): PriceBar[] {
+  const interval = TIMEFRAME_MS[timeframe]
+  const result: PriceBar[] = []
+
+  bars.forEach(bar => {
+    const bucket = Math.floor(bar.timestamp / interval) * interval
+    const last = result[result.length - 1]
+    if (last && last.timestamp === bucket) {
+      last.high = Math.max(last.high, bar.high)
+      last.low = Math.min(last.low, bar.low)
+      last.close = bar.close
+      last.volume += bar.volume
+    } else {
+      result.push({ ...bar, timestamp: bucket })
+    }
+  })
+  return result
+}
+
+// First index whose timestamp is >= `timestamp` (bars sorted ascending)
+function lowerBound(bars: PriceBar[], timestamp: number): number {
+  let low = 0
+  let high = bars.length
+  while (low < high) {
+    const mid = (low + high) >>> 1
+    if (bars[mid].timestamp < timestamp) low = mid + 1
+    else high = mid
+  }
+  return low
+}
+
+// Candle subsystem: aggregates ticks into OHLCV bars for every timeframe,
+// persists them in IndexedDB and serves them to strategies, the radar and charts
+export class CandleStore {
+  private static instance: CandleStore
+  private readonly maxBarsPerSeries = 5000
+  private readonly flushDelay = 5000
+  private series = new Map<string, PriceBar[]>()
+  private mockSeries = new Map<string, PriceBar[]>()
+  private loaded = new Map<string, Promise<void>>()
+  private dirty = new Map<string, StoredBar>()
+  private lastCumulativeVolume = new Map<string, number>()
+  private listeners = new Map<string, Set<BarListener>>()
+  private flushTimer: ReturnType<typeof setTimeout> | null = null
+  private feedUnsubscribers: (() => void)[] = []
+  private unifiedSocket: UnifiedPriceWebSocket | null = null
+  private dbPromise: Promise<IDBDatabase | null> | null = null
+
+  private constructor() {}
+
+  static getInstance(): CandleStore {
+    if (!CandleStore.instance) {
+      CandleStore.instance = new CandleStore()
+    }
+    return CandleStore.instance
+  }
+
+  // ===== Ingestion =====
+
+  // Fold a trade/price tick into every timeframe
+  ingestTick(
+    symbol: string,
+    price: number,
+    volume: number = 0,
+    timestamp: number = Date.now(),
+    source: TickSource = 'live'
+  ) {
+    if (!(price > 0)) return
+    const key = toCandleSymbol(symbol)
+    const live = source === 'live'
+
+    CANDLE_TIMEFRAMES.forEach(timeframe => {
+      // Start loading stored history so the current bar is merged with it, not restarted
+      if (live) void this.ensureLoaded(key, timeframe)
+      const bars = live ? this.getSeries(key, timeframe) : this.getMockSeries(key, timeframe)
+      const bucket = Math.floor(timestamp / TIMEFRAME_MS[timeframe]) * TIMEFRAME_MS[timeframe]
+      const last = bars[bars.length - 1]
+      let bar: PriceBar
+
+      if (!last || bucket > last.timestamp) {
+        bar = { timestamp: bucket, open: price, high: price, low: price, close: price, volume }
+        bars.push(bar)
+        this.trimSeries(bars)
+      } else {
+        // Late ticks update the bar they belong to; ticks older than the series are dropped
+        const existing = last.timestamp === bucket ? last : bars.find(b => b.timestamp === bucket)
+        if (!existing) return
+        existing.high = Math.max(existing.high, price)
+        existing.low = Math.min(existing.low, price)
+        if (existing === last) existing.close = price
+        existing.volume += volume
+        bar = existing
+      }
+
+      if (live) this.markDirty(key, timeframe, bar)
+      // Mock bars only reach listeners while the symbol has no real data
+      if (live || this.getSeries(key, timeframe).length === 0) this.notify(key, timeframe, bar, bars)
+    })
+  }
+
+  // Feeds report rolling 24h volume; convert it to per-tick volume by differencing
+  ingestUnifiedPrice(data: UnifiedPriceData) {
+    const cumulative = parseFloat(data.volume) || 0
+    this.ingestTick(data.symbol, data.price, this.volumeDelta('live', data.symbol, cumulative), data.lastUpdated || Date.now())
+  }
+
+  // Aggregate the PriceFeedService random walk for every configured market;
+  // these bars stand in for charts until real data exists and are never persisted
+  connectPriceFeed() {
+    if (this.feedUnsubscribers.length > 0) return
+    const markets = [...MARKET_CONFIG.CRYPTO_MARKETS, ...MARKET_CONFIG.STOCK_MARKETS]
+    this.feedUnsubscribers = markets.map(market =>
+      priceFeedService.subscribe(market.symbol, data => {
+        this.ingestTick(data.symbol, data.price, this.volumeDelta('mock', data.symbol, data.volume24h), data.timestamp, 'mock')
+      })
+    )
+  }
+
+  // Aggregate live prices from the unified CoinGecko/FMP stream
+  connectUnifiedFeed(symbols: string[]) {
+    if (!this.unifiedSocket) {
+      this.unifiedSocket = new UnifiedPriceWebSocket()
+    }
+    symbols.forEach(symbol => {
+      this.unifiedSocket!.subscribe(symbol, data => this.ingestUnifiedPrice(data))
+    })
+  }
+
+  disconnectFeeds() {
+    this.feedUnsubscribers.forEach(unsubscribe => unsubscribe())
+    this.feedUnsubscribers = []
+    if (this.unifiedSocket) {
+      this.unifiedSocket.disconnect()
+      this.unifiedSocket = null
+    }
+  }
+
+  // ===== Import / backfill =====
+
+  // Merge historical bars; existing bars at the same timestamp are replaced.
+  // Rolled-up bars replace coarser bars only when the import covers the whole
+  // bucket; partial buckets just fill gaps
+  async importBars(symbol: string, timeframe: CandleTimeframe, bars: PriceBar[], rollUp: boolean = true): Promise<number> {
+    const key = toCandleSymbol(symbol)
+    await this.ensureLoaded(key, timeframe)
+
+    const sorted = bars
+      .filter(bar => [bar.open, bar.high, bar.low, bar.close].every(value => Number.isFinite(value) && value > 0))
+      .map(bar => ({ ...bar, volume: Number.isFinite(bar.volume) ? bar.volume : 0 }))
+      .sort((a, b) => a.timestamp - b.timestamp)
+
+    this.mergeSeries(key, timeframe, sorted)
+
+    if (rollUp && sorted.length > 0) {
+      const coarser = CANDLE_TIMEFRAMES.filter(tf => TIMEFRAME_MS[tf] > TIMEFRAME_MS[timeframe])
+      const fine = this.getSeries(key, timeframe)
+      for (const target of coarser) {
+        await this.ensureLoaded(key, target)
+        const interval = TIMEFRAME_MS[target]
+        const bucketOf = (bar: PriceBar) => Math.floor(bar.timestamp / interval) * interval
+        const touched = new Set(sorted.map(bucketOf))
+
+        // Aggregate from the merged fine series so earlier data in the bucket counts too
+        const counts = new Map<number, number>()
+        const members = fine.filter(bar => touched.has(bucketOf(bar)))
+        members.forEach(bar => counts.set(bucketOf(bar), (counts.get(bucketOf(bar)) ?? 0) + 1))
+        const perBucket = interval / TIMEFRAME_MS[timeframe]
+        const aggregated = aggregateBars(members, target)
+
+        this.mergeSeries(key, target, aggregated.filter(bar => (counts.get(bar.timestamp) ?? 0) >= perBucket))
+        this.mergeSeries(key, target, aggregated.filter(bar => (counts.get(bar.timestamp) ?? 0) < perBucket), false)
+      }
+    }
+
+    await this.flush()
+    return sorted.length
+  }
+
+  // CSV with a header row: timestamp|time|date, open, high, low, close[, volume][, symbol][, timeframe]
+  async importCSV(text: string, options: ImportOptions = {}): Promise<number> {
+    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+    if (lines.length < 2) return 0
+
+    const header = lines[0].split(',').map(column => column.trim().toLowerCase())
+    const column = (...names: string[]) => header.findIndex(name => names.includes(name))
+    const idx = {
+      timestamp: column('timestamp', 'time', 'date', 'datetime'),
+      open: column('open', 'o'),
+      high: column('high', 'h'),
+      low: column('low', 'l'),
+      close: column('close', 'c'),
+      volume: column('volume', 'vol', 'v'),
+      symbol: column('symbol', 'ticker'),
+      timeframe: column('timeframe', 'interval')
+    }
+    if ([idx.timestamp, idx.open, idx.high, idx.low, idx.close].some(i => i === -1)) {
+      throw new Error('CSV must include timestamp, open, high, low and close columns')
+    }
+
+    const groups = new Map<string, { symbol: string; timeframe: CandleTimeframe; bars: PriceBar[] }>()
+    lines.slice(1).forEach(line => {
+      const cells = line.split(',').map(cell => cell.trim())
+      const symbol = idx.symbol !== -1 ? cells[idx.symbol] : options.symbol
+      const timeframe = idx.timeframe !== -1 ? cells[idx.timeframe] : options.timeframe
+      if (!symbol || !timeframe || !isCandleTimeframe(timeframe)) return
+
+      const groupKey = `${symbol}:${timeframe}`
+      if (!groups.has(groupKey)) groups.set(groupKey, { symbol, timeframe, bars: [] })
+      groups.get(groupKey)!.bars.push({
+        timestamp: this.parseTimestamp(cells[idx.timestamp]),
+        open: parseFloat(cells[idx.open]),
+        high: parseFloat(cells[idx.high]),
+        low: parseFloat(cells[idx.low]),
+        close: parseFloat(cells[idx.close]),
+        volume: idx.volume !== -1 ? parseFloat(cells[idx.volume]) : 0
+      })
+    })
+
+    if (groups.size === 0) {
+      throw new Error('CSV rows need a symbol and a supported timeframe (column or import option)')
+    }
+
+    let imported = 0
+    for (const group of groups.values()) {
+      imported += await this.importBars(group.symbol, group.timeframe, group.bars, options.rollUp ?? true)
+    }
+    return imported
+  }
+
+  // JSON: an array of bars (objects or [t, o, h, l, c, v] tuples), or
+  // { symbol, timeframe, bars }, or an array of such objects
+  async importJSON(input: string | unknown, options: ImportOptions = {}): Promise<number> {
+    const data: unknown = typeof input === 'string' ? JSON.parse(input) : input
+    const isDataset = (value: unknown): value is RawDataset =>
+      typeof value === 'object' && value !== null && !Array.isArray(value) && Array.isArray((value as RawDataset).bars)
+
+    let datasets: RawDataset[]
+    if (Array.isArray(data)) {
+      datasets = data.length > 0 && data.every(isDataset) ? data : [{ bars: data }]
+    } else if (isDataset(data)) {
+      datasets = [data]
+    } else {
+      throw new Error('JSON must be an array of bars or { symbol, timeframe, bars }')
+    }
+
+    let imported = 0
+    for (const dataset of datasets) {
+      const symbol = dataset.symbol ?? options.symbol
+      const timeframe = dataset.timeframe ?? options.timeframe
+      if (!symbol || !timeframe || !isCandleTimeframe(timeframe)) {
+        throw new Error('JSON datasets need a symbol and a supported timeframe')
+      }
+
+      const bars = dataset.bars.map(bar => this.toPriceBar(bar))
+      imported += await this.importBars(symbol, timeframe, bars, options.rollUp ?? true)
+    }
+    return imported
+  }
+
+  // ===== Queries =====
+
+  // Bars in ascending time order, loading persisted history on first access
+  async getBars(symbol: string, timeframe: CandleTimeframe, range: BarRange = {}): Promise<PriceBar[]> {
+    const key = toCandleSymbol(symbol)
+    await this.ensureLoaded(key, timeframe)
+    return this.getCachedBars(key, timeframe, range)
+  }
+
+  // Synchronous variant for hot paths; only returns what is already in memory.
+  // Falls back to the mock series while a symbol has no real data
+  getCachedBars(symbol: string, timeframe: CandleTimeframe, range: BarRange = {}): PriceBar[] {
+    // Series are sorted by timestamp, so bound the slice before copying anything
+    const key = toCandleSymbol(symbol)
+    const live = this.getSeries(key, timeframe)
+    const series = live.length > 0 ? live : this.getMockSeries(key, timeframe)
+    const start = range.from === undefined ? 0 : lowerBound(series, range.from)
+    const end = range.to === undefined ? series.length : lowerBound(series, range.to + 1)
+    const first = range.limit ? Math.max(start, end - range.limit) : start
+    return series.slice(first, end).map(bar => ({ ...bar }))
+  }
+
+  // Symbols with any stored data for a timeframe
+  getSymbols(timeframe: CandleTimeframe): string[] {
+    const symbols = new Set<string>()
+    ;[this.series, this.mockSeries].forEach(source => source.forEach((bars, key) => {
+      if (key.endsWith(`:${timeframe}`) && bars.length > 0) symbols.add(key.slice(0, key.lastIndexOf(':')))
+    }))
+    return Array.from(symbols)
+  }
+
+  // Listen for bar updates on one series
+  subscribe(symbol: string, timeframe: CandleTimeframe, listener: BarListener): () => void {
+    const key = this.seriesKey(toCandleSymbol(symbol), timeframe)
+    if (!this.listeners.has(key)) this.listeners.set(key, new Set())
+    this.listeners.get(key)!.add(listener)
+
+    return () => {
+      const set = this.listeners.get(key)
+      if (set) {
+        set.delete(listener)
+        if (set.size === 0) this.listeners.delete(key)
+      }
+    }
+  }
+
+  async clear(symbol?: string) {
+    const db = await this.getDB()
+    if (!symbol) {
+      this.series.clear()
+      this.mockSeries.clear()
+      this.loaded.clear()
+      this.dirty.clear()
+      await clearStore(db, STORE_NAME)
+      return
+    }
+
+    const key = toCandleSymbol(symbol)
+    const keys: IDBValidKey[] = []
+    CANDLE_TIMEFRAMES.forEach(timeframe => {
+      const seriesKey = this.seriesKey(key, timeframe)
+      this.getSeries(key, timeframe).forEach(bar => keys.push([key, timeframe, bar.timestamp]))
+      this.series.delete(seriesKey)
+      this.mockSeries.delete(seriesKey)
+      this.loaded.delete(seriesKey)
+    })
+    Array.from(this.dirty.keys())
+      .filter(dirtyKey => dirtyKey.startsWith(`${key}:`))
+      .forEach(dirtyKey => this.dirty.delete(dirtyKey))
+    await deleteRecords(db, STORE_NAME, keys)
+  }
+
+  // Write pending bar changes to IndexedDB
+  async flush() {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+    if (this.dirty.size === 0) return
+
+    // Merge stored history first so a live partial bar never overwrites a complete stored one
+    const pending = new Map<string, StoredBar>()
+    this.dirty.forEach(record => pending.set(this.seriesKey(record.symbol, record.timeframe), record))
+    await Promise.all(Array.from(pending.values()).map(record => this.ensureLoaded(record.symbol, record.timeframe)))
+
+    const records = Array.from(this.dirty.values())
+    this.dirty.clear()
+    try {
+      await putRecords(await this.getDB(), STORE_NAME, records)
+    } catch (error) {
+      console.error('Failed to persist candles:', error)
+    }
+  }
+
+  // ===== Internals =====
+
+  private getDB(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, 1, [{
+        name: STORE_NAME,
+        keyPath: ['symbol', 'timeframe', 'timestamp'],
+        indexes: [{ name: 'series', keyPath: ['symbol', 'timeframe'] }]
+      }])
+    }
+    return this.dbPromise
+  }
+
+  private ensureLoaded(symbol: string, timeframe: CandleTimeframe): Promise<void> {
+    const key = this.seriesKey(symbol, timeframe)
+    let loading = this.loaded.get(key)
+    if (!loading) {
+      loading = this.loadSeries(symbol, timeframe)
+      this.loaded.set(key, loading)
+    }
+    return loading
+  }
+
+  private async loadSeries(symbol: string, timeframe: CandleTimeframe) {
+    try {
+      const stored = await getAllRecords<StoredBar>(await this.getDB(), STORE_NAME, {
+        index: 'series',
+        query: [symbol, timeframe]
+      })
+      const bars = stored.map(({ timestamp, open, high, low, close, volume }) => ({ timestamp, open, high, low, close, volume }))
+
+      // A bar that ticks started before the load finished continues the stored one
+      const series = this.getSeries(symbol, timeframe)
+      const live = new Map(series.map(bar => [bar.timestamp, bar]))
+      bars.forEach(storedBar => {
+        const current = live.get(storedBar.timestamp)
+        if (!current) return
+        current.open = storedBar.open
+        current.high = Math.max(current.high, storedBar.high)
+        current.low = Math.min(current.low, storedBar.low)
+        current.volume += storedBar.volume
+        this.markDirty(symbol, timeframe, current)
+      })
+      this.mergeSeries(symbol, timeframe, bars, false, false)
+    } catch (error) {
+      console.error(`Failed to load ${symbol} ${timeframe} candles:`, error)
+    }
+  }
+
+  // overwrite=false only fills gaps; persist=false for bars that came from storage
+  private mergeSeries(
+    symbol: string,
+    timeframe: CandleTimeframe,
+    incoming: PriceBar[],
+    overwrite: boolean = true,
+    persist: boolean = true
+  ) {
+    if (incoming.length === 0) return
+    const bars = this.getSeries(symbol, timeframe)
+    const byTimestamp = new Map(bars.map(bar => [bar.timestamp, bar]))
+
+    incoming.forEach(bar => {
+      if (!overwrite && byTimestamp.has(bar.timestamp)) return
+      byTimestamp.set(bar.timestamp, { ...bar })
+      if (persist) this.markDirty(symbol, timeframe, bar)
+    })
+
+    const merged = Array.from(byTimestamp.values()).sort((a, b) => a.timestamp - b.timestamp)
+    bars.splice(0, bars.length, ...merged)
+    this.trimSeries(bars)
+  }
+
+  private getSeries(symbol: string, timeframe: CandleTimeframe): PriceBar[] {
+    const key = this.seriesKey(symbol, timeframe)
+    let bars = this.series.get(key)
+    if (!bars) {
+      bars = []
+      this.series.set(key, bars)
+    }
+    return bars
+  }
+
+  private getMockSeries(symbol: string, timeframe: CandleTimeframe): PriceBar[] {
+    const key = this.seriesKey(symbol, timeframe)
+    let bars = this.mockSeries.get(key)
+    if (!bars) {
+      bars = []
+      this.mockSeries.set(key, bars)
+    }
+    return bars
+  }
+
+  private trimSeries(bars: PriceBar[]) {
+    if (bars.length > this.maxBarsPerSeries) {
+      bars.splice(0, bars.length - this.maxBarsPerSeries)
+    }
+  }
+
+  private markDirty(symbol: string, timeframe: CandleTimeframe, bar: PriceBar) {
+    this.dirty.set(`${symbol}:${timeframe}:${bar.timestamp}`, { ...bar, symbol, timeframe })
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null
+        this.flush()
+      }, this.flushDelay)
+    }
+  }
+
+  private notify(symbol: string, timeframe: CandleTimeframe, bar: PriceBar, bars: PriceBar[]) {
+    const set = this.listeners.get(this.seriesKey(symbol, timeframe))
+    set?.forEach(listener => {
+      try {
+        listener({ ...bar }, bars)
+      } catch (error) {
+        console.error('Error in candle listener:', error)
+      }
+    })
+  }
+
+  // Tracked per source so mock and real 24h volumes never difference against each other
+  private volumeDelta(source: TickSource, symbol: string, cumulative: number): number {
+    const key = `${source}:${toCandleSymbol(symbol)}`
+    const previous = this.lastCumulativeVolume.get(key)
+    this.lastCumulativeVolume.set(key, cumulative)
+    // First observation or a 24h window roll-over gives no usable delta
+    if (previous === undefined || cumulative < previous) return 0
+    return cumulative - previous
+  }
+
+  private toPriceBar(raw: RawBar): PriceBar {
+    if (Array.isArray(raw)) {
+      const [timestamp, open, high, low, close, volume = 0] = raw
+      return {
+        timestamp: this.parseTimestamp(timestamp),
+        open: Number(open),
+        high: Number(high),
+        low: Number(low),
+        close: Number(close),
+        volume: Number(volume)
+      }
+    }
+    return {
+      timestamp: this.parseTimestamp(raw.timestamp ?? raw.time ?? raw.t),
+      open: Number(raw.open ?? raw.o),
+      high: Number(raw.high ?? raw.h),
+      low: Number(raw.low ?? raw.l),
+      close: Number(raw.close ?? raw.c),
+      volume: Number(raw.volume ?? raw.v ?? 0)
+    }
+  }
+
+  // Accept ms or s epoch numbers and ISO date strings
+  private parseTimestamp(value: unknown): number {
+    const numeric = Number(value)
+    if (Number.isFinite(numeric)) {
+      return numeric < 1e12 ? numeric * 1000 : numeric
+    }
+    const parsed = Date.parse(String(value))
+    if (Number.isNaN(parsed)) {
+      throw new Error(`Invalid bar timestamp: ${value}`)
+    }
+    return parsed
+  }
+
+  private seriesKey(symbol: string, timeframe: CandleTimeframe): string {
+    return `${symbol}:${timeframe}`
+  }
+}
+
+// Export singleton instance
+export const candleStore = CandleStore.getInstance()
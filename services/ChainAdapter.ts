@@ -0,0 +1,149 @@
+import type { Address, Hex, SignTypedDataParameters } from 'viem'
+import type { Position } from '../constants/contractConstants'
+import { chainBackend, type ChainBackend } from '../config/wagmi'
+import { MockChainAdapter } from './MockChainAdapter'
+import { WagmiChainAdapter } from './WagmiChainAdapter'
+import { EthersChainAdapter } from './EthersChainAdapter'
+
+// One wallet/chain surface for the whole app. The ethers (Web3Manager) and
+// wagmi stacks both sit behind it, and the in-memory mock backend lets every
+// consumer (trading service, order gateway, execution engine) run offline.
+// Amounts are plain USDC numbers; position sizes are signed USD notionals.
+
+export interface ChainReceipt {
+  hash: string
+  blockNumber: number
+  status: 'success' | 'reverted'
+}
+
+// Submitted transaction; wait() resolves once it is mined
+export interface ChainTransaction {
+  hash: string
+  wait(): Promise<ChainReceipt>
+}
+
+export interface ChainAccountInfo {
+  balance: number // trading collateral
+  poolShares: number
+  totalMargin: number
+  lastActivityTime: number
+}
+
+export interface ChainPoolState {
+  totalValueLocked: number
+  totalShares: number
+  netAssetValue: number // USDC per share
+  totalPnL: number
+  insuranceFund: number
+}
+
+export type ChainEventType =
+  | 'Deposit'
+  | 'Withdraw'
+  | 'PoolDeposit'
+  | 'PoolWithdraw'
+  | 'PositionOpened'
+  | 'PositionClosed'
+
+export interface ChainEvent {
+  type: ChainEventType
+  user: Address
+  txHash: string
+  blockNumber: number // 0 when the backend does not report it
+  timestamp: number
+  amount?: number // USDC
+  shares?: number
+  symbol?: string
+  size?: number // signed USD notional
+  price?: number
+  pnl?: number
+}
+
+export type ChainEventListener = (event: ChainEvent) => void
+
+export interface ChainConnection {
+  address: Address
+  chainId: number
+}
+
+export interface ChainAdapter {
+  readonly backend: ChainBackend
+
+  // Wallet
+  connect(): Promise<ChainConnection>
+  disconnect(): void
+  isConnected(): boolean
+  getAddress(): Address | null
+  getChainId(): number | null
+  signTypedData(params: SignTypedDataParameters): Promise<Hex>
+
+  // USDC
+  getUSDCBalance(address: Address): Promise<number>
+  checkUSDCAllowance(address: Address): Promise<number>
+  approveUSDC(amount: number): Promise<ChainTransaction>
+
+  // Any other ERC-20 (e.g. RBT), scaled by the token's decimals
+  getTokenBalance(token: Address, address: Address): Promise<number>
+
+  // Trading account
+  deposit(amount: number): Promise<ChainTransaction>
+  withdraw(amount: number): Promise<ChainTransaction>
+  getAccountInfo(address: Address): Promise<ChainAccountInfo>
+  // Next S-Auth ticket nonce the settlement contract accepts (`nonces(user)`)
+  getSAuthNonce(address: Address): Promise<number>
+
+  // Positions; size is a signed USD notional (negative = short)
+  openPosition(symbol: string, size: number, leverage: number): Promise<ChainTransaction>
+  closePosition(symbol: string, size: number): Promise<ChainTransaction>
+  getPosition(address: Address, symbol: string): Promise<number>
+  getPositions(address: Address): Promise<Position[]>
+  getAssetPrice(symbol: string): Promise<number>
+
+  // Liquidity pool
+  depositToPool(amount: number): Promise<ChainTransaction>
+  withdrawFromPool(shares: number): Promise<ChainTransaction>
+  getPoolState(): Promise<ChainPoolState>
+  getUserPoolValue(address: Address): Promise<number>
+
+  // Events
+  subscribe(listener: ChainEventListener): () => void
+  getHistoricalEvents(address: Address, fromBlock?: number): Promise<ChainEvent[]>
+}
+
+export function createChainAdapter(backend: ChainBackend): ChainAdapter {
+  switch (backend) {
+    case 'ethers': return new EthersChainAdapter()
+    case 'wagmi': return new WagmiChainAdapter()
+    case 'mock': return new MockChainAdapter()
+  }
+}
+
+let activeAdapter: ChainAdapter | null = null
+const adapterListeners = new Set<(adapter: ChainAdapter) => void>()
+
+// Adapter for the configured backend (VITE_CHAIN_BACKEND), created on first use
+export function getChainAdapter(): ChainAdapter {
+  if (!activeAdapter) {
+    activeAdapter = createChainAdapter(chainBackend)
+  }
+  return activeAdapter
+}
+
+// Swap the backend at runtime, e.g. a fresh MockChainAdapter per test
+export function setChainAdapter(adapter: ChainAdapter) {
+  activeAdapter = adapter
+  adapterListeners.forEach(listener => {
+    try {
+      listener(adapter)
+    } catch (error) {
+      console.error('Chain adapter listener failed:', error)
+    }
+  })
+}
+
+export function onChainAdapterChange(listener: (adapter: ChainAdapter) => void): () => void {
+  adapterListeners.add(listener)
+  return () => {
+    adapterListeners.delete(listener)
+  }
+}
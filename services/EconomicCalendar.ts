@@ -0,0 +1,428 @@
+import { DEFAULT_PARAMS } from '../utils/contractConfig'
+import { toCandleSymbol } from './CandleStore'
+
+// Asset classes an event can affect
+export type EventAssetClass = 'crypto' | 'stock'
+export type EventImpact = 'low' | 'medium' | 'high'
+// 'block' rejects new orders during the window; 'reduce' scales them by sizeMultiplier
+export type BlackoutAction = 'block' | 'reduce'
+
+export interface EconomicEvent {
+  id: string
+  title: string
+  code?: string // 'FOMC', 'NFP', 'CPI', 'EARNINGS', ...
+  timestamp: number // release time, ms UTC
+  impact: EventImpact
+  assetClasses: EventAssetClass[]
+  symbols?: string[] // limits the event to these assets (e.g. earnings), normalized like candle symbols
+  preWindowMinutes: number
+  postWindowMinutes: number
+  action: BlackoutAction
+  sizeMultiplier: number // applied when action is 'reduce'
+  source?: string
+}
+
+export type EconomicEventInput = Partial<Omit<EconomicEvent, 'timestamp'>> & {
+  title: string
+  timestamp?: number | string
+  time?: number | string // alias accepted in JSON imports
+}
+
+export interface CalendarImportOptions {
+  defaults?: Partial<EconomicEvent> // applied before per-code defaults and the event's own fields
+  replaceSource?: boolean // drop previously imported events with the same source first
+  timeZone?: string // IANA zone for floating ICS times; defaults to X-WR-TIMEZONE, then local time
+}
+
+export interface ActiveBlackout {
+  event: EconomicEvent
+  windowStart: number
+  windowEnd: number
+}
+
+export interface BlackoutStatus {
+  active: boolean
+  action: BlackoutAction | null
+  sizeMultiplier: number // 1 when nothing applies
+  blackouts: ActiveBlackout[]
+  reason: string | null // human-readable explanation naming the event(s)
+}
+
+type CalendarListener = (events: EconomicEvent[]) => void
+
+// An ICS property value with its parameters (TZID, VALUE, ...)
+interface ICSProperty {
+  value: string
+  params: Record<string, string>
+}
+
+const STORAGE_KEY = 'riverbit_economic_calendar'
+const SCHEDULE_REFRESH_INTERVAL = 6 * 60 * 60 * 1000
+
+// Remote schedule (JSON or ICS) loaded on first use and refreshed periodically
+const configuredScheduleUrl = import.meta.env?.VITE_ECONOMIC_CALENDAR_URL as string | undefined
+
+// Window and scope defaults per event code; anything unrecognized gets GENERIC
+const EVENT_DEFAULTS: Record<string, Pick<EconomicEvent, 'impact' | 'assetClasses' | 'preWindowMinutes' | 'postWindowMinutes' | 'action' | 'sizeMultiplier'>> = {
+  FOMC: { impact: 'high', assetClasses: ['crypto', 'stock'], preWindowMinutes: 60, postWindowMinutes: 120, action: 'block', sizeMultiplier: 0 },
+  NFP: { impact: 'high', assetClasses: ['crypto', 'stock'], preWindowMinutes: 30, postWindowMinutes: 60, action: 'block', sizeMultiplier: 0 },
+  CPI: { impact: 'high', assetClasses: ['crypto', 'stock'], preWindowMinutes: 30, postWindowMinutes: 60, action: 'block', sizeMultiplier: 0 },
+  PCE: { impact: 'medium', assetClasses: ['crypto', 'stock'], preWindowMinutes: 15, postWindowMinutes: 30, action: 'reduce', sizeMultiplier: 0.5 },
+  GDP: { impact: 'medium', assetClasses: ['crypto', 'stock'], preWindowMinutes: 15, postWindowMinutes: 30, action: 'reduce', sizeMultiplier: 0.5 },
+  EARNINGS: { impact: 'high', assetClasses: ['stock'], preWindowMinutes: 60, postWindowMinutes: 60, action: 'reduce', sizeMultiplier: 0.5 },
+  GENERIC: { impact: 'medium', assetClasses: ['crypto', 'stock'], preWindowMinutes: 15, postWindowMinutes: 15, action: 'reduce', sizeMultiplier: 0.5 }
+}
+
+// Titles from common calendar feeds mapped to event codes
+const CODE_PATTERNS: [string, RegExp][] = [
+  ['FOMC', /\bFOMC\b|federal funds|fed(eral reserve)? (interest )?rate/i],
+  ['NFP', /\bNFP\b|non-?farm payrolls?/i],
+  ['CPI', /\bCPI\b|consumer price index/i],
+  ['PCE', /\bPCE\b|personal consumption expenditures/i],
+  ['GDP', /\bGDP\b|gross domestic product/i],
+  ['EARNINGS', /earnings/i]
+]
+
+const STOCK_SYMBOLS = new Set(
+  DEFAULT_PARAMS.supportedSymbols.filter(symbol => /^x[A-Z]/.test(symbol)).map(symbol => symbol.slice(1))
+)
+
+// Tokenized stocks ('xAAPL', 'xAAPL-PERP', 'AAPL/USDT') are stock perps; everything else is crypto
+export function getAssetClass(symbol: string): EventAssetClass {
+  const base = symbol.trim().split(/[/\-:]/)[0]
+  if (/^x[A-Z]/.test(base)) return 'stock'
+  return STOCK_SYMBOLS.has(toCandleSymbol(symbol)) ? 'stock' : 'crypto'
+}
+
+export function detectEventCode(title: string): string | undefined {
+  return CODE_PATTERNS.find(([, pattern]) => pattern.test(title))?.[0]
+}
+
+function parseTime(value: number | string | undefined): number | null {
+  if (value === undefined || value === null || value === '') return null
+  if (typeof value === 'number') return Number.isFinite(value) ? (value < 1e12 ? value * 1000 : value) : null
+  const numeric = Number(value)
+  if (Number.isFinite(numeric)) return parseTime(numeric)
+  const parsed = Date.parse(value)
+  return Number.isNaN(parsed) ? null : parsed
+}
+
+// Offset of a time zone from UTC at the given instant, in ms; null for unknown zones
+function zoneOffset(timestamp: number, timeZone: string): number | null {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(timestamp)
+    const part = (type: string) => Number(parts.find(p => p.type === type)?.value)
+    const asUTC = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'))
+    return asUTC - Math.floor(timestamp / 1000) * 1000
+  } catch {
+    return null
+  }
+}
+
+// ICS date-times: 20240918T180000Z (UTC), 20240918T180000 in `timeZone` (a TZID),
+// or floating in local time when no zone is known; 20240918 is midnight the same way
+function parseICSDate(value: string, timeZone?: string): number | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?)?(Z?)$/)
+  if (!match) return null
+  const [, y, mo, d, h = '0', mi = '0', s = '0', utc] = match
+  const fields = [Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s)] as const
+  const wallClock = Date.UTC(...fields)
+  if (utc) return wallClock
+
+  if (timeZone) {
+    // Resolve the zone's offset at the wall-clock time, then again at the result for DST edges
+    const first = zoneOffset(wallClock, timeZone)
+    if (first !== null) {
+      const second = zoneOffset(wallClock - first, timeZone) ?? first
+      return wallClock - second
+    }
+    console.warn(`Unknown ICS time zone ${timeZone}; reading ${value} as local time`)
+  }
+  return new Date(...fields).getTime()
+}
+
+function formatUTC(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 16).replace('T', ' ') + ' UTC'
+}
+
+// Event calendar: imported macro/earnings schedules with per-event blackout
+// windows, queried by risk validation and the trading forms
+export class EconomicCalendar {
+  private static instance: EconomicCalendar
+  private events = new Map<string, EconomicEvent>()
+  private listeners = new Set<CalendarListener>()
+  private scheduleTimer: ReturnType<typeof setInterval> | null = null
+
+  private constructor() {
+    this.load()
+    // Every blackout check depends on the schedule, not just the trading form
+    this.connectSchedule()
+  }
+
+  static getInstance(): EconomicCalendar {
+    if (!EconomicCalendar.instance) {
+      EconomicCalendar.instance = new EconomicCalendar()
+    }
+    return EconomicCalendar.instance
+  }
+
+  // Fill in code-specific defaults; returns null for inputs without a usable time
+  normalizeEvent(raw: EconomicEventInput, defaults: Partial<EconomicEvent> = {}): EconomicEvent | null {
+    // Drop undefined fields so they don't mask defaults
+    const input = Object.fromEntries(Object.entries(raw ?? {}).filter(([, v]) => v !== undefined)) as EconomicEventInput
+    const timestamp = parseTime(input.timestamp ?? input.time)
+    if (!input.title || timestamp === null) return null
+
+    const code = (input.code ?? defaults.code ?? detectEventCode(input.title))?.toUpperCase()
+    const base = EVENT_DEFAULTS[code ?? ''] ?? EVENT_DEFAULTS.GENERIC
+    const merged = { ...base, ...defaults, ...input }
+    const symbols = merged.symbols?.map(toCandleSymbol)
+
+    return {
+      id: input.id ?? `${code ?? 'EVENT'}-${timestamp}-${input.title.replace(/\W+/g, '').slice(0, 24)}`,
+      title: input.title,
+      code,
+      timestamp,
+      impact: merged.impact,
+      assetClasses: merged.assetClasses.length > 0 ? merged.assetClasses : base.assetClasses,
+      symbols: symbols && symbols.length > 0 ? symbols : undefined,
+      preWindowMinutes: Math.max(0, merged.preWindowMinutes),
+      postWindowMinutes: Math.max(0, merged.postWindowMinutes),
+      action: merged.action,
+      sizeMultiplier: Math.min(1, Math.max(0, merged.sizeMultiplier)),
+      source: merged.source
+    }
+  }
+
+  addEvent(input: EconomicEventInput, defaults?: Partial<EconomicEvent>): EconomicEvent {
+    const event = this.normalizeEvent(input, defaults)
+    if (!event) throw new Error(`Invalid calendar event "${input?.title}": a title and a valid time are required`)
+    this.events.set(event.id, event)
+    this.commit()
+    return event
+  }
+
+  removeEvent(id: string): boolean {
+    const removed = this.events.delete(id)
+    if (removed) this.commit()
+    return removed
+  }
+
+  clear(source?: string) {
+    if (source === undefined) {
+      this.events.clear()
+    } else {
+      Array.from(this.events.values())
+        .filter(event => event.source === source)
+        .forEach(event => this.events.delete(event.id))
+    }
+    this.commit()
+  }
+
+  // JSON: an array of events or { events: [...] }; returns the number imported
+  importJSON(input: string | unknown, options: CalendarImportOptions = {}): number {
+    const data = typeof input === 'string' ? JSON.parse(input) : input
+    const rows: EconomicEventInput[] = Array.isArray(data) ? data : (data as { events?: EconomicEventInput[] })?.events ?? []
+    return this.importEvents(rows, options)
+  }
+
+  // ICS (RFC 5545): one event per VEVENT; CATEGORIES may name asset classes ('crypto', 'stock').
+  // Times honour TZID; floating times use options.timeZone, X-WR-TIMEZONE or local time
+  importICS(text: string, options: CalendarImportOptions = {}): number {
+    // Unfold continuation lines before splitting into properties
+    const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n')
+    const events: Record<string, ICSProperty>[] = []
+    let calendarZone: string | undefined
+    let current: Record<string, ICSProperty> | null = null
+
+    lines.forEach(line => {
+      if (line === 'BEGIN:VEVENT') {
+        current = {}
+      } else if (line === 'END:VEVENT') {
+        if (current) events.push(current)
+        current = null
+      } else {
+        const separator = line.indexOf(':')
+        if (separator <= 0) return
+        const [name, ...params] = line.slice(0, separator).split(';')
+        const property: ICSProperty = {
+          value: line.slice(separator + 1).replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1'),
+          params: Object.fromEntries(params.map(param => {
+            const [key, paramValue = ''] = param.split('=')
+            return [key.toUpperCase(), paramValue.replace(/^"|"$/g, '')]
+          }))
+        }
+        if (current) {
+          current[name.toUpperCase()] = property
+        } else if (name.toUpperCase() === 'X-WR-TIMEZONE') {
+          calendarZone = property.value.trim()
+        }
+      }
+    })
+
+    const floatingZone = options.timeZone ?? calendarZone
+    return this.importEvents(events.map(props => this.fromICSProperties(props, floatingZone)), options)
+  }
+
+  // Fetch a JSON or ICS schedule; it replaces whatever was previously loaded from the same URL
+  async loadSchedule(url: string, options: CalendarImportOptions = {}): Promise<number> {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`Failed to load economic calendar from ${url}: ${response.status}`)
+    }
+    const text = await response.text()
+    const scheduleOptions: CalendarImportOptions = {
+      replaceSource: true,
+      ...options,
+      defaults: { source: url, ...options.defaults }
+    }
+    const isICS = /\.ics($|\?)/i.test(url) || (response.headers.get('content-type') ?? '').includes('text/calendar') ||
+      text.trimStart().startsWith('BEGIN:VCALENDAR')
+    return isICS ? this.importICS(text, scheduleOptions) : this.importJSON(text, scheduleOptions)
+  }
+
+  // Load the schedule configured by VITE_ECONOMIC_CALENDAR_URL and keep it fresh; idempotent
+  connectSchedule(url: string | undefined = configuredScheduleUrl) {
+    if (!url || this.scheduleTimer) return
+    const refresh = () => {
+      this.loadSchedule(url).catch(error => console.error('Failed to refresh economic calendar:', error))
+    }
+    refresh()
+    this.scheduleTimer = setInterval(refresh, SCHEDULE_REFRESH_INTERVAL)
+  }
+
+  disconnectSchedule() {
+    if (this.scheduleTimer) {
+      clearInterval(this.scheduleTimer)
+      this.scheduleTimer = null
+    }
+  }
+
+  getEvents(range: { from?: number; to?: number } = {}): EconomicEvent[] {
+    return Array.from(this.events.values())
+      .filter(event => (range.from === undefined || event.timestamp >= range.from) &&
+        (range.to === undefined || event.timestamp <= range.to))
+      .sort((a, b) => a.timestamp - b.timestamp)
+  }
+
+  // Events affecting a symbol whose window opens within `withinMs` from `at`
+  getUpcoming(symbol: string, withinMs: number = 24 * 60 * 60 * 1000, at: number = Date.now()): EconomicEvent[] {
+    return this.getEvents().filter(event => this.appliesTo(event, symbol) &&
+      event.timestamp + event.postWindowMinutes * 60000 >= at &&
+      event.timestamp - event.preWindowMinutes * 60000 <= at + withinMs)
+  }
+
+  // Whether a symbol is inside any event's blackout window at `at`
+  getBlackoutStatus(symbol: string, at: number = Date.now(), hardBlockCodes: string[] = []): BlackoutStatus {
+    const blackouts: ActiveBlackout[] = []
+    this.events.forEach(event => {
+      if (!this.appliesTo(event, symbol)) return
+      const windowStart = event.timestamp - event.preWindowMinutes * 60000
+      const windowEnd = event.timestamp + event.postWindowMinutes * 60000
+      if (at >= windowStart && at <= windowEnd) blackouts.push({ event, windowStart, windowEnd })
+    })
+
+    if (blackouts.length === 0) {
+      return { active: false, action: null, sizeMultiplier: 1, blackouts, reason: null }
+    }
+
+    const isBlocking = (b: ActiveBlackout) => b.event.action === 'block' ||
+      (b.event.code !== undefined && hardBlockCodes.includes(b.event.code))
+    const blocking = blackouts.filter(isBlocking)
+    const action: BlackoutAction = blocking.length > 0 ? 'block' : 'reduce'
+    const sizeMultiplier = action === 'block' ? 0 : Math.min(...blackouts.map(b => b.event.sizeMultiplier))
+    const reason = (blocking.length > 0 ? blocking : blackouts)
+      .map(b => `${b.event.title} at ${formatUTC(b.event.timestamp)} (window ${formatUTC(b.windowStart)} - ${formatUTC(b.windowEnd)})`)
+      .join('; ')
+
+    return { active: true, action, sizeMultiplier, blackouts, reason }
+  }
+
+  subscribe(listener: CalendarListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private appliesTo(event: EconomicEvent, symbol: string): boolean {
+    if (event.symbols && !event.symbols.includes(toCandleSymbol(symbol))) return false
+    return event.assetClasses.includes(getAssetClass(symbol))
+  }
+
+  private fromICSProperties(props: Record<string, ICSProperty>, floatingZone?: string): EconomicEventInput {
+    const categories = (props.CATEGORIES?.value ?? '').split(',').map(c => c.trim().toLowerCase())
+    const assetClasses = categories.filter((c): c is EventAssetClass => c === 'crypto' || c === 'stock')
+    const start = props.DTSTART
+      ? parseICSDate(props.DTSTART.value, props.DTSTART.params.TZID ?? floatingZone)
+      : null
+    return {
+      id: props.UID?.value,
+      title: props.SUMMARY?.value ?? '',
+      timestamp: start ?? undefined,
+      assetClasses: assetClasses.length > 0 ? assetClasses : undefined
+    }
+  }
+
+  private importEvents(rows: EconomicEventInput[], options: CalendarImportOptions): number {
+    if (options.replaceSource && options.defaults?.source) {
+      Array.from(this.events.values())
+        .filter(event => event.source === options.defaults!.source)
+        .forEach(event => this.events.delete(event.id))
+    }
+
+    let imported = 0
+    rows.forEach(row => {
+      const event = this.normalizeEvent(row, options.defaults)
+      if (event) {
+        this.events.set(event.id, event)
+        imported++
+      }
+    })
+    this.commit()
+    return imported
+  }
+
+  private commit() {
+    this.save()
+    const events = this.getEvents()
+    this.listeners.forEach(listener => {
+      try {
+        listener(events)
+      } catch (error) {
+        console.error('Economic calendar listener failed:', error)
+      }
+    })
+  }
+
+  private load() {
+    try {
+      if (typeof localStorage === 'undefined') return
+      const stored = localStorage.getItem(STORAGE_KEY)
+      if (!stored) return
+      (JSON.parse(stored) as EconomicEvent[]).forEach(event => this.events.set(event.id, event))
+    } catch (error) {
+      console.error('Failed to load economic calendar:', error)
+    }
+  }
+
+  private save() {
+    try {
+      if (typeof localStorage === 'undefined') return
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(Array.from(this.events.values())))
+    } catch (error) {
+      console.error('Failed to save economic calendar:', error)
+    }
+  }
+}
+
+export const economicCalendar = EconomicCalendar.getInstance()
@@ -0,0 +1,241 @@
+import type { Address, Hex, SignTypedDataParameters } from 'viem'
+import { web3Manager } from '../utils/web3Utils'
+import { DEFAULT_PARAMS, formatUSDC } from '../utils/contractConfig'
+import { toCandleSymbol } from './CandleStore'
+import { SAUTH_DOMAIN, type Position } from '../constants/contractConstants'
+import type {
+  ChainAccountInfo,
+  ChainAdapter,
+  ChainConnection,
+  ChainEvent,
+  ChainEventListener,
+  ChainPoolState,
+  ChainTransaction
+} from './ChainAdapter'
+
+// Contract method calls resolve to a response with a hash and wait()
+interface EthersResponse {
+  hash: string
+  wait(): Promise<{ hash: string; blockNumber: number; status: number | null } | null>
+}
+
+// Injected-wallet backend on top of the existing Web3Manager (ethers v6)
+export class EthersChainAdapter implements ChainAdapter {
+  readonly backend = 'ethers' as const
+  private listeners = new Set<ChainEventListener>()
+  private watching = false
+
+  // ===== Wallet =====
+
+  async connect(): Promise<ChainConnection> {
+    const { address, chainId } = await web3Manager.connectWallet()
+    if (this.listeners.size > 0) this.watchEvents()
+    return { address: address as Address, chainId }
+  }
+
+  disconnect() {
+    web3Manager.disconnectWallet()
+    this.watching = false
+  }
+
+  isConnected(): boolean {
+    return web3Manager.isConnected
+  }
+
+  getAddress(): Address | null {
+    return web3Manager.currentAddress as Address | null
+  }
+
+  getChainId(): number | null {
+    return web3Manager.currentChainId
+  }
+
+  async signTypedData(params: SignTypedDataParameters): Promise<Hex> {
+    const { domain, types, message } = params as unknown as {
+      domain: Record<string, unknown>
+      types: Record<string, { name: string; type: string }[]>
+      message: Record<string, unknown>
+    }
+    return await web3Manager.signTypedData(domain, types, message) as Hex
+  }
+
+  // ===== USDC =====
+
+  async getUSDCBalance(address: Address): Promise<number> {
+    return web3Manager.getUSDCBalance(address)
+  }
+
+  async getTokenBalance(token: Address, address: Address): Promise<number> {
+    return web3Manager.getTokenBalance(token, address)
+  }
+
+  async checkUSDCAllowance(address: Address): Promise<number> {
+    return web3Manager.checkUSDCAllowance(address)
+  }
+
+  async approveUSDC(amount: number): Promise<ChainTransaction> {
+    return this.wrap(await web3Manager.approveUSDC(amount))
+  }
+
+  // ===== Trading account =====
+
+  async deposit(amount: number): Promise<ChainTransaction> {
+    return this.wrap(await web3Manager.deposit(amount))
+  }
+
+  async withdraw(amount: number): Promise<ChainTransaction> {
+    return this.wrap(await web3Manager.withdraw(amount))
+  }
+
+  async getAccountInfo(address: Address): Promise<ChainAccountInfo> {
+    return web3Manager.getAccountInfo(address)
+  }
+
+  async getSAuthNonce(address: Address): Promise<number> {
+    return web3Manager.getSAuthNonce(SAUTH_DOMAIN.verifyingContract, address)
+  }
+
+  // ===== Positions =====
+
+  async openPosition(symbol: string, size: number, leverage: number): Promise<ChainTransaction> {
+    return this.wrap(await web3Manager.openPosition(symbol, size, leverage))
+  }
+
+  async closePosition(symbol: string, size: number): Promise<ChainTransaction> {
+    return this.wrap(await web3Manager.closePosition(symbol, size))
+  }
+
+  async getPosition(address: Address, symbol: string): Promise<number> {
+    return web3Manager.getPosition(address, symbol)
+  }
+
+  // The v1 core contract only exposes per-symbol notionals, so scan the listed markets
+  async getPositions(address: Address): Promise<Position[]> {
+    const entries = await Promise.all(DEFAULT_PARAMS.supportedSymbols.map(async symbol => {
+      const [size, price] = await Promise.all([
+        web3Manager.getPosition(address, symbol),
+        web3Manager.getAssetPrice(symbol)
+      ])
+      return { symbol, size, price }
+    }))
+
+    return entries
+      .filter(entry => entry.size !== 0 && entry.price > 0)
+      .map(entry => ({
+        market: `${toCandleSymbol(entry.symbol)}-PERP`,
+        side: entry.size > 0 ? 'buy' as const : 'sell' as const,
+        size: (Math.abs(entry.size) / entry.price).toString(),
+        entryPrice: entry.price.toString(), // entry is not tracked on-chain; mark stands in
+        marginMode: 'cross' as const,
+        leverage: 1,
+        unrealizedPnl: '0',
+        timestamp: 0
+      }))
+  }
+
+  async getAssetPrice(symbol: string): Promise<number> {
+    return web3Manager.getAssetPrice(symbol)
+  }
+
+  // ===== Liquidity pool =====
+
+  async depositToPool(amount: number): Promise<ChainTransaction> {
+    return this.wrap(await web3Manager.depositToPool(amount))
+  }
+
+  async withdrawFromPool(shares: number): Promise<ChainTransaction> {
+    return this.wrap(await web3Manager.withdrawFromPool(shares))
+  }
+
+  async getPoolState(): Promise<ChainPoolState> {
+    return web3Manager.getPoolState()
+  }
+
+  async getUserPoolValue(address: Address): Promise<number> {
+    return web3Manager.getUserPoolValue(address)
+  }
+
+  // ===== Events =====
+
+  subscribe(listener: ChainEventListener): () => void {
+    this.listeners.add(listener)
+    this.watchEvents()
+    return () => {
+      this.listeners.delete(listener)
+      if (this.listeners.size === 0) {
+        web3Manager.removeContractEventListeners()
+        this.watching = false
+      }
+    }
+  }
+
+  async getHistoricalEvents(address: Address, fromBlock = 0): Promise<ChainEvent[]> {
+    const events = await web3Manager.getHistoricalEvents(address, fromBlock)
+    return events.map((event: { type: string; blockNumber: number; transactionHash: string; timestamp: number; args: unknown }) => {
+      const args = event.args as unknown as readonly [string, bigint, bigint?]
+      const base = {
+        type: event.type as ChainEvent['type'],
+        user: args[0] as Address,
+        txHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+        timestamp: event.timestamp
+      }
+      switch (base.type) {
+        case 'PoolDeposit':
+          return { ...base, amount: formatUSDC(args[1]), shares: formatUSDC(args[2] ?? BigInt(0)) }
+        case 'PoolWithdraw':
+          return { ...base, shares: formatUSDC(args[1]), amount: formatUSDC(args[2] ?? BigInt(0)) }
+        default:
+          return { ...base, amount: formatUSDC(args[1]) }
+      }
+    })
+  }
+
+  // ===== Internals =====
+
+  private wrap(response: unknown): ChainTransaction {
+    const tx = response as EthersResponse
+    return {
+      hash: tx.hash,
+      wait: async () => {
+        const receipt = await tx.wait()
+        if (!receipt) throw new Error(`Transaction ${tx.hash} was dropped`)
+        return {
+          hash: receipt.hash,
+          blockNumber: receipt.blockNumber,
+          status: receipt.status === 1 ? 'success' : 'reverted'
+        }
+      }
+    }
+  }
+
+  // Web3Manager keeps one callback set per contract, so fan out from a single registration
+  private watchEvents() {
+    if (this.watching || !web3Manager.isConnected) return
+    this.watching = true
+
+    const emit = (event: Omit<ChainEvent, 'blockNumber' | 'timestamp'>) => {
+      const recorded: ChainEvent = { ...event, blockNumber: 0, timestamp: Date.now() }
+      this.listeners.forEach(listener => {
+        try {
+          listener(recorded)
+        } catch (error) {
+          console.error('Chain event listener failed:', error)
+        }
+      })
+    }
+
+    web3Manager.setupContractEventListeners({
+      onDeposit: (user, amount, txHash) => emit({ type: 'Deposit', user: user as Address, amount, txHash }),
+      onWithdraw: (user, amount, txHash) => emit({ type: 'Withdraw', user: user as Address, amount, txHash }),
+      onPoolDeposit: (user, amount, shares, txHash) =>
+        emit({ type: 'PoolDeposit', user: user as Address, amount, shares, txHash }),
+      onPoolWithdraw: (user, shares, amount, txHash) =>
+        emit({ type: 'PoolWithdraw', user: user as Address, amount, shares, txHash }),
+      onPositionOpened: (user, symbol, size, price, txHash) =>
+        emit({ type: 'PositionOpened', user: user as Address, symbol, size, price, txHash }),
+      onPositionClosed: (user, symbol, size, pnl, txHash) =>
+        emit({ type: 'PositionClosed', user: user as Address, symbol, size, pnl, txHash })
+    })
+  }
+}
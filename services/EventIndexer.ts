@@ -0,0 +1,793 @@
+import { hexToString, parseAbi, type AbiEvent, type Address, type Hex, type Log } from 'viem'
+import { getPublicClient } from '@wagmi/core'
+import { config, isDemoMode } from '../config/wagmi'
+import {
+  NETWORK_CONFIG,
+  RIVERBIT_CORE_ABI as CORE_V2_ABI,
+  SAUTH_DOMAIN,
+  type OrderSide
+} from '../constants/contractConstants'
+import { RIVERBIT_CORE_ABI as CORE_V1_ABI, getNetworkConfig } from '../utils/contractConfig'
+import { openDatabase, getAllRecords, putRecords, deleteRecords } from '../utils/indexedDb'
+import { exchangeSimulator, type ExchangeEvent } from './ExchangeSimulator'
+import { getChainAdapter } from './ChainAdapter'
+
+// Contract event indexer. Backfills and tails the user's core contract events
+// into IndexedDB, tracks a per-user checkpoint with recent block hashes so a
+// reorg rolls history back to the last common block, and serves trade, funding,
+// transfer and closed-position history from memory. In demo mode the exchange
+// simulator and the mock chain are the event sources instead of RPC logs.
+
+export type IndexedEventType =
+  | 'OrderPlaced'
+  | 'OrderExecuted'
+  | 'OrderCancelled'
+  | 'PositionOpened'
+  | 'PositionClosed'
+  | 'FundingPaid'
+  | 'Liquidation'
+  | 'Deposit'
+  | 'Withdraw'
+  | 'PoolDeposit'
+  | 'PoolWithdraw'
+
+export interface IndexedEvent {
+  id: string // `${chainId}:${txHash}:${logIndex}`, or a session-scoped id for simulator events
+  user: string // lowercase
+  chainId: number
+  type: IndexedEventType
+  blockNumber: number // 0 for simulator events
+  blockHash: string | null
+  txHash: string
+  logIndex: number
+  timestamp: number // ms
+  market?: string
+  orderId?: string
+  positionId?: string
+  side?: OrderSide
+  size?: number // base units
+  price?: number
+  fee?: number
+  pnl?: number
+  amount?: number // USDC
+  shares?: number
+  rate?: number
+}
+
+export interface TradeRecord {
+  id: string
+  orderId: string
+  market: string
+  side: OrderSide | null // null when the OrderPlaced event predates the indexed range
+  size: number
+  price: number
+  notional: number
+  fee: number
+  timestamp: number
+  txHash: string
+}
+
+export interface FundingRecord {
+  id: string
+  market: string
+  positionId: string
+  rate: number
+  amount: number // positive = paid, negative = received
+  timestamp: number
+}
+
+export interface TransferRecord {
+  id: string
+  type: 'deposit' | 'withdraw' | 'pool_deposit' | 'pool_withdraw'
+  amount: number
+  shares?: number
+  sharePrice?: number
+  timestamp: number
+  txHash: string
+  blockNumber: number
+}
+
+export interface ClosedPositionRecord {
+  positionId: string
+  market: string
+  side: OrderSide
+  size: number
+  entryPrice: number
+  pnl: number
+  fees: number // execution fees on the market while the position was open
+  funding: number
+  liquidated: boolean
+  openedAt: number
+  closedAt: number
+  openTxHash: string
+  closeTxHash: string
+}
+
+export interface HistoryQuery {
+  types?: IndexedEventType[]
+  market?: string
+  from?: number // ms, inclusive
+  to?: number // ms, inclusive
+  limit?: number // newest N
+}
+
+export interface IndexerStatus {
+  user: string | null
+  chainId: number | null
+  source: 'chain' | 'simulator' | 'idle'
+  syncing: boolean
+  headBlock: number
+  indexedBlock: number
+  lastSyncedAt: number | null
+  reorgs: number
+  error: string | null
+}
+
+interface BlockRef {
+  number: number
+  hash: string
+}
+
+interface Checkpoint {
+  key: string // `${chainId}:${user}`
+  blockNumber: number
+  blockHash: string | null
+  recentBlocks: BlockRef[]
+  updatedAt: number
+}
+
+interface EventSpec {
+  contract: 'v1' | 'v2'
+  event: AbiEvent
+}
+
+type DecodedLog = Log & { eventName?: string; args?: Record<string, unknown> }
+
+type IndexerListener = () => void
+
+const DB_NAME = 'riverbit_history'
+const DB_VERSION = 1
+const EVENT_STORE = 'events'
+const CHECKPOINT_STORE = 'checkpoints'
+
+const POLL_INTERVAL = 5000
+const INITIAL_CHUNK = 10_000 // blocks per getLogs call; halved when the RPC refuses a range
+const MIN_CHUNK = 100
+const MAX_RECENT_BLOCKS = 64 // block hashes kept for reorg detection
+const FALLBACK_REORG_DEPTH = 128 // rewind when no recorded block is canonical any more
+const DEFAULT_BACKFILL_BLOCKS = 500_000
+const MAX_MEMORY_EVENTS = 20_000
+
+const configuredStartBlock = Number(import.meta.env?.VITE_INDEXER_START_BLOCK)
+
+const V1_EVENTS = parseAbi(CORE_V1_ABI as unknown as readonly string[])
+  .filter((item): item is AbiEvent => item.type === 'event')
+  .filter(event => ['Deposit', 'Withdraw', 'PoolDeposit', 'PoolWithdraw'].includes(event.name))
+
+const V2_EVENTS = (CORE_V2_ABI as readonly { type: string }[])
+  .filter((item): item is AbiEvent => item.type === 'event')
+
+const EVENT_SPECS: EventSpec[] = [
+  ...V2_EVENTS.map(event => ({ contract: 'v2' as const, event })),
+  ...V1_EVENTS.map(event => ({ contract: 'v1' as const, event }))
+]
+
+function compareEvents(a: IndexedEvent, b: IndexedEvent): number {
+  return a.timestamp - b.timestamp || a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+}
+
+export class EventIndexer {
+  private static instance: EventIndexer
+  private dbPromise: Promise<IDBDatabase | null> | null = null
+  private events: IndexedEvent[] = []
+  private eventIds = new Set<string>()
+  private listeners = new Set<IndexerListener>()
+  private user: Address | null = null
+  private chainId: number | null = null
+  private checkpoint: Checkpoint | null = null
+  private pollTimer: ReturnType<typeof setInterval> | null = null
+  private sourceUnsubscribers: (() => void)[] = []
+  private syncPromise: Promise<void> | null = null
+  private chunkSize = INITIAL_CHUNK
+  private blockTimes = new Map<number, number>()
+  private sessionId = Date.now().toString(36)
+  private sequence = 0
+  private startPromise: Promise<void> | null = null
+  private status: IndexerStatus = {
+    user: null,
+    chainId: null,
+    source: 'idle',
+    syncing: false,
+    headBlock: 0,
+    indexedBlock: 0,
+    lastSyncedAt: null,
+    reorgs: 0,
+    error: null
+  }
+
+  private constructor() {}
+
+  static getInstance(): EventIndexer {
+    if (!EventIndexer.instance) {
+      EventIndexer.instance = new EventIndexer()
+    }
+    return EventIndexer.instance
+  }
+
+  // ===== Lifecycle =====
+
+  // Index history for one wallet; switching wallets stops the previous one
+  start(user: Address): Promise<void> {
+    if (this.user && this.user.toLowerCase() === user.toLowerCase() && this.startPromise) {
+      return this.startPromise
+    }
+
+    this.stop()
+    this.user = user
+    this.startPromise = this.initialize(user)
+    return this.startPromise
+  }
+
+  stop() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer)
+      this.pollTimer = null
+    }
+    this.sourceUnsubscribers.forEach(unsubscribe => unsubscribe())
+    this.sourceUnsubscribers = []
+    this.user = null
+    this.chainId = null
+    this.checkpoint = null
+    this.startPromise = null
+    this.events = []
+    this.eventIds.clear()
+    this.blockTimes.clear()
+    this.updateStatus({ user: null, chainId: null, source: 'idle', syncing: false, headBlock: 0, indexedBlock: 0, error: null })
+  }
+
+  // Run a sync pass now instead of waiting for the next poll
+  sync(): Promise<void> {
+    if (this.status.source !== 'chain') return Promise.resolve()
+    if (!this.syncPromise) {
+      this.syncPromise = this.syncChain().finally(() => {
+        this.syncPromise = null
+      })
+    }
+    return this.syncPromise
+  }
+
+  getStatus(): IndexerStatus {
+    return { ...this.status }
+  }
+
+  subscribe(listener: IndexerListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  // ===== Queries (newest first) =====
+
+  getEvents(user: Address, query: HistoryQuery = {}): IndexedEvent[] {
+    if (!this.isActiveUser(user)) return []
+    const market = query.market?.toUpperCase()
+    const matches = this.events.filter(event =>
+      (!query.types || query.types.includes(event.type)) &&
+      (!market || event.market?.toUpperCase() === market) &&
+      (query.from === undefined || event.timestamp >= query.from) &&
+      (query.to === undefined || event.timestamp <= query.to)
+    )
+    matches.reverse()
+    return query.limit ? matches.slice(0, query.limit) : matches
+  }
+
+  getTradeHistory(user: Address, query: HistoryQuery = {}): TradeRecord[] {
+    const sides = new Map<string, OrderSide>()
+    this.getEvents(user, { types: ['OrderPlaced'] }).forEach(event => {
+      if (event.orderId && event.side) sides.set(event.orderId, event.side)
+    })
+
+    return this.getEvents(user, { ...query, types: ['OrderExecuted'] }).map(event => {
+      const size = event.size ?? 0
+      const price = event.price ?? 0
+      return {
+        id: event.id,
+        orderId: event.orderId ?? '',
+        market: event.market ?? '',
+        side: (event.orderId ? sides.get(event.orderId) : undefined) ?? event.side ?? null,
+        size,
+        price,
+        notional: size * price,
+        fee: event.fee ?? 0,
+        timestamp: event.timestamp,
+        txHash: event.txHash
+      }
+    })
+  }
+
+  getFundingHistory(user: Address, query: HistoryQuery = {}): FundingRecord[] {
+    return this.getEvents(user, { ...query, types: ['FundingPaid'] }).map(event => ({
+      id: event.id,
+      market: event.market ?? '',
+      positionId: event.positionId ?? '',
+      rate: event.rate ?? 0,
+      amount: event.amount ?? 0,
+      timestamp: event.timestamp
+    }))
+  }
+
+  getTransferHistory(user: Address, query: HistoryQuery = {}): TransferRecord[] {
+    const types: IndexedEventType[] = ['Deposit', 'Withdraw', 'PoolDeposit', 'PoolWithdraw']
+    const transferType: Record<string, TransferRecord['type']> = {
+      Deposit: 'deposit',
+      Withdraw: 'withdraw',
+      PoolDeposit: 'pool_deposit',
+      PoolWithdraw: 'pool_withdraw'
+    }
+
+    return this.getEvents(user, { ...query, types: query.types?.filter(type => types.includes(type)) ?? types })
+      .map(event => ({
+        id: event.id,
+        type: transferType[event.type],
+        amount: event.amount ?? 0,
+        shares: event.shares,
+        sharePrice: event.shares ? (event.amount ?? 0) / event.shares : undefined,
+        timestamp: event.timestamp,
+        txHash: event.txHash,
+        blockNumber: event.blockNumber
+      }))
+  }
+
+  // Positions with both an open and a close in the indexed range
+  getClosedPositions(user: Address, query: HistoryQuery = {}): ClosedPositionRecord[] {
+    const ascending = this.getEvents(user).reverse()
+    const opened = new Map<string, number>() // positionId -> index of its PositionOpened
+    const liquidated = new Set<string>()
+    const records: ClosedPositionRecord[] = []
+
+    ascending.forEach((event, index) => {
+      if (!event.positionId) return
+      if (event.type === 'PositionOpened') opened.set(event.positionId, index)
+      if (event.type === 'Liquidation') liquidated.add(event.positionId)
+      if (event.type !== 'PositionClosed' || !opened.has(event.positionId)) return
+
+      const open = ascending[opened.get(event.positionId)!]
+      const during = ascending.slice(opened.get(event.positionId)!, index + 1)
+      opened.delete(event.positionId)
+      records.push({
+        positionId: event.positionId,
+        market: open.market ?? '',
+        side: open.side ?? 'buy',
+        size: open.size ?? 0,
+        entryPrice: open.price ?? 0,
+        pnl: event.pnl ?? 0,
+        fees: during
+          .filter(other => other.type === 'OrderExecuted' && other.market === open.market)
+          .reduce((sum, other) => sum + (other.fee ?? 0), 0),
+        funding: during
+          .filter(other => other.type === 'FundingPaid' && other.positionId === event.positionId)
+          .reduce((sum, other) => sum + (other.amount ?? 0), 0),
+        liquidated: liquidated.has(event.positionId),
+        openedAt: open.timestamp,
+        closedAt: event.timestamp,
+        openTxHash: open.txHash,
+        closeTxHash: event.txHash
+      })
+    })
+
+    const market = query.market?.toUpperCase()
+    const filtered = records
+      .filter(record =>
+        (!market || record.market.toUpperCase() === market) &&
+        (query.from === undefined || record.closedAt >= query.from) &&
+        (query.to === undefined || record.closedAt <= query.to))
+      .reverse()
+    return query.limit ? filtered.slice(0, query.limit) : filtered
+  }
+
+  // Execution fees paid in one transaction
+  getTransactionFees(user: Address, txHash: string): number {
+    return this.getEvents(user, { types: ['OrderExecuted'] })
+      .filter(event => event.txHash.toLowerCase() === txHash.toLowerCase())
+      .reduce((sum, event) => sum + (event.fee ?? 0), 0)
+  }
+
+  // ===== Setup =====
+
+  private async initialize(user: Address) {
+    const db = await this.getDb()
+    const stored = await getAllRecords<IndexedEvent>(db, EVENT_STORE, { index: 'user', query: user.toLowerCase() })
+      .catch(error => {
+        console.error('Failed to load indexed history:', error)
+        return [] as IndexedEvent[]
+      })
+    if (!this.isActiveUser(user)) return
+
+    this.addToMemory(stored)
+
+    if (isDemoMode) {
+      this.chainId = SAUTH_DOMAIN.chainId
+      this.attachSimulator(user)
+      this.updateStatus({ user: user.toLowerCase(), chainId: this.chainId, source: 'simulator', lastSyncedAt: Date.now() })
+      this.notify()
+      return
+    }
+
+    this.chainId = getChainAdapter().getChainId() ?? SAUTH_DOMAIN.chainId
+    const checkpoints = await getAllRecords<Checkpoint>(db, CHECKPOINT_STORE).catch(() => [] as Checkpoint[])
+    if (!this.isActiveUser(user)) return
+
+    this.checkpoint = checkpoints.find(entry => entry.key === this.checkpointKey()) ?? null
+    this.updateStatus({
+      user: user.toLowerCase(),
+      chainId: this.chainId,
+      source: 'chain',
+      indexedBlock: this.checkpoint?.blockNumber ?? 0
+    })
+    this.notify()
+
+    this.pollTimer = setInterval(() => {
+      this.sync().catch(() => {})
+    }, POLL_INTERVAL)
+    await this.sync()
+  }
+
+  private getDb(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, [
+        {
+          name: EVENT_STORE,
+          keyPath: 'id',
+          indexes: [{ name: 'user', keyPath: 'user' }]
+        },
+        { name: CHECKPOINT_STORE, keyPath: 'key' }
+      ])
+    }
+    return this.dbPromise
+  }
+
+  // ===== Chain source =====
+
+  private async syncChain() {
+    const user = this.user
+    const chainId = this.chainId
+    if (!user || chainId === null) return
+
+    const client = getPublicClient(config, { chainId: chainId as (typeof config)['chains'][number]['id'] })
+    if (!client) {
+      this.updateStatus({ error: `No RPC client for chain ${chainId}` })
+      return
+    }
+
+    this.updateStatus({ syncing: true, error: null })
+    try {
+      const head = Number(await client.getBlockNumber())
+      this.updateStatus({ headBlock: head })
+
+      let checkpoint = this.checkpoint ?? this.initialCheckpoint(head)
+      checkpoint = await this.resolveReorg(checkpoint, async blockNumber =>
+        (await client.getBlock({ blockNumber: BigInt(blockNumber) })).hash)
+
+      let from = checkpoint.blockNumber + 1
+      while (from <= head && this.isActiveUser(user)) {
+        const to = Math.min(head, from + this.chunkSize - 1)
+        let logs: DecodedLog[]
+        try {
+          logs = await this.fetchLogs(client, user, chainId, from, to)
+        } catch (error) {
+          if (this.chunkSize <= MIN_CHUNK) throw error
+          this.chunkSize = Math.max(MIN_CHUNK, Math.floor(this.chunkSize / 2))
+          continue
+        }
+
+        const events = await this.decodeLogs(client, logs, user, chainId)
+        const toBlock = await client.getBlock({ blockNumber: BigInt(to) })
+        if (!this.isActiveUser(user)) return
+
+        await this.persist(events)
+        checkpoint = {
+          ...checkpoint,
+          blockNumber: to,
+          blockHash: toBlock.hash,
+          recentBlocks: [...checkpoint.recentBlocks, { number: to, hash: toBlock.hash }].slice(-MAX_RECENT_BLOCKS),
+          updatedAt: Date.now()
+        }
+        this.checkpoint = checkpoint
+        await putRecords(await this.getDb(), CHECKPOINT_STORE, [checkpoint])
+        this.updateStatus({ indexedBlock: to })
+        from = to + 1
+      }
+
+      this.updateStatus({ syncing: false, lastSyncedAt: Date.now() })
+    } catch (error) {
+      console.error('Event indexer sync failed:', error)
+      this.updateStatus({ syncing: false, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  private initialCheckpoint(head: number): Checkpoint {
+    const start = Number.isFinite(configuredStartBlock) && configuredStartBlock > 0
+      ? configuredStartBlock
+      : Math.max(0, head - DEFAULT_BACKFILL_BLOCKS)
+    return {
+      key: this.checkpointKey(),
+      blockNumber: start - 1,
+      blockHash: null,
+      recentBlocks: [],
+      updatedAt: Date.now()
+    }
+  }
+
+  // If the checkpoint block was reorged out, rewind to the newest recorded block
+  // that is still canonical and drop everything indexed after it
+  private async resolveReorg(checkpoint: Checkpoint, getHash: (blockNumber: number) => Promise<string>): Promise<Checkpoint> {
+    if (!checkpoint.blockHash) return checkpoint
+    if (await getHash(checkpoint.blockNumber) === checkpoint.blockHash) return checkpoint
+
+    const recent = [...checkpoint.recentBlocks]
+    let ancestor: BlockRef | null = null
+    while (recent.length > 0) {
+      const candidate = recent.pop()!
+      if (candidate.number >= checkpoint.blockNumber) continue
+      if (await getHash(candidate.number) === candidate.hash) {
+        ancestor = candidate
+        break
+      }
+    }
+
+    const rewindTo = ancestor?.number ?? Math.max(0, checkpoint.blockNumber - FALLBACK_REORG_DEPTH)
+    console.warn(`Reorg detected at block ${checkpoint.blockNumber}; rewinding history to block ${rewindTo}`)
+    await this.rollback(rewindTo)
+    this.updateStatus({ reorgs: this.status.reorgs + 1, indexedBlock: rewindTo })
+
+    const rewound: Checkpoint = {
+      ...checkpoint,
+      blockNumber: rewindTo,
+      blockHash: ancestor?.hash ?? null,
+      recentBlocks: checkpoint.recentBlocks.filter(block => block.number <= rewindTo),
+      updatedAt: Date.now()
+    }
+    this.checkpoint = rewound
+    await putRecords(await this.getDb(), CHECKPOINT_STORE, [rewound])
+    return rewound
+  }
+
+  private async rollback(blockNumber: number) {
+    const removed = this.events.filter(event => event.chainId === this.chainId && event.blockNumber > blockNumber)
+    if (removed.length === 0) return
+    const ids = new Set(removed.map(event => event.id))
+    this.events = this.events.filter(event => !ids.has(event.id))
+    ids.forEach(id => this.eventIds.delete(id))
+    await deleteRecords(await this.getDb(), EVENT_STORE, Array.from(ids))
+    this.notify()
+  }
+
+  private async fetchLogs(
+    client: NonNullable<ReturnType<typeof getPublicClient>>,
+    user: Address,
+    chainId: number,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<DecodedLog[]> {
+    const v1 = getNetworkConfig(chainId)?.contracts.RIVERBIT_CORE as Address | undefined
+    const contracts = NETWORK_CONFIG[chainId as keyof typeof NETWORK_CONFIG]?.contracts
+    const v2 = contracts && 'riverbitCoreV2' in contracts ? contracts.riverbitCoreV2 : undefined
+
+    const batches = await Promise.all(EVENT_SPECS.map(spec => {
+      const address = spec.contract === 'v1' ? v1 : v2
+      if (!address || /^0x0+$/.test(address)) return Promise.resolve([] as DecodedLog[])
+      return client.getLogs({
+        address,
+        event: spec.event,
+        args: { user },
+        fromBlock: BigInt(fromBlock),
+        toBlock: BigInt(toBlock)
+      } as Parameters<typeof client.getLogs>[0]) as Promise<DecodedLog[]>
+    }))
+    return batches.flat()
+  }
+
+  private async decodeLogs(
+    client: NonNullable<ReturnType<typeof getPublicClient>>,
+    logs: DecodedLog[],
+    user: Address,
+    chainId: number
+  ): Promise<IndexedEvent[]> {
+    const events: IndexedEvent[] = []
+    for (const log of logs) {
+      if (log.blockNumber === null || !log.transactionHash || !log.eventName || !log.args) continue
+
+      const blockNumber = Number(log.blockNumber)
+      let timestamp = this.blockTimes.get(blockNumber)
+      if (timestamp === undefined) {
+        const block = await client.getBlock({ blockNumber: log.blockNumber })
+        timestamp = Number(block.timestamp) * 1000
+        this.blockTimes.set(blockNumber, timestamp)
+      }
+
+      const event = this.decodeArgs(log.eventName, log.args, {
+        id: `${chainId}:${log.transactionHash}:${log.logIndex ?? 0}`,
+        user: user.toLowerCase(),
+        chainId,
+        blockNumber,
+        blockHash: log.blockHash,
+        txHash: log.transactionHash,
+        logIndex: log.logIndex ?? 0,
+        timestamp
+      })
+      if (event) events.push(event)
+    }
+    return events
+  }
+
+  // V2 trading events use 1e6 fixed point and bytes32 markets; V1 transfers are USDC
+  private decodeArgs(
+    name: string,
+    args: Record<string, unknown>,
+    base: Omit<IndexedEvent, 'type'>
+  ): IndexedEvent | null {
+    const fixed = (key: string) => typeof args[key] === 'bigint' ? Number(args[key]) / 1e6 : undefined
+    const market = typeof args.market === 'string' ? hexToString(args.market as Hex, { size: 32 }) : undefined
+    const side = typeof args.side === 'number' ? (args.side === 0 ? 'buy' : 'sell') as OrderSide : undefined
+    const id = (key: string) => typeof args[key] === 'bigint' ? (args[key] as bigint).toString() : undefined
+
+    switch (name) {
+      case 'OrderPlaced':
+        return { ...base, type: name, market, orderId: id('orderId'), side, size: fixed('size'), price: fixed('price') }
+      case 'OrderExecuted':
+        return { ...base, type: name, market, orderId: id('orderId'), size: fixed('executedSize'), price: fixed('executedPrice') }
+      case 'PositionOpened':
+        return { ...base, type: name, market, positionId: id('positionId'), side, size: fixed('size'), price: fixed('entryPrice') }
+      case 'PositionClosed':
+        return { ...base, type: name, market, positionId: id('positionId'), pnl: fixed('pnl') }
+      case 'Deposit':
+      case 'Withdraw':
+        return { ...base, type: name, amount: fixed('amount') }
+      case 'PoolDeposit':
+      case 'PoolWithdraw':
+        return { ...base, type: name, amount: fixed('amount'), shares: fixed('shares') }
+      default:
+        return null
+    }
+  }
+
+  private checkpointKey(): string {
+    return `${this.chainId}:${this.user?.toLowerCase()}`
+  }
+
+  // ===== Simulator source =====
+
+  private attachSimulator(user: Address) {
+    const lower = user.toLowerCase()
+
+    this.sourceUnsubscribers.push(exchangeSimulator.subscribe(event => {
+      if (event.user.toLowerCase() !== lower) return
+      this.persist([this.fromSimulator(event)]).catch(error => console.error('Failed to store simulator event:', error))
+    }))
+
+    // Pool flows live on the mock chain; collateral moves are already simulator events
+    const chain = getChainAdapter()
+    if (chain.backend === 'mock') {
+      this.sourceUnsubscribers.push(chain.subscribe(event => {
+        if (event.user.toLowerCase() !== lower) return
+        if (event.type !== 'PoolDeposit' && event.type !== 'PoolWithdraw') return
+        this.persist([{
+          ...this.simulatorBase(event.timestamp),
+          type: event.type,
+          txHash: event.txHash,
+          blockNumber: event.blockNumber,
+          amount: event.amount,
+          shares: event.shares
+        }]).catch(error => console.error('Failed to store pool event:', error))
+      }))
+    }
+  }
+
+  private simulatorBase(timestamp: number): Omit<IndexedEvent, 'type'> {
+    const sequence = ++this.sequence
+    const id = `sim:${this.sessionId}:${sequence}`
+    return {
+      id,
+      user: this.user!.toLowerCase(),
+      chainId: this.chainId ?? SAUTH_DOMAIN.chainId,
+      blockNumber: 0,
+      blockHash: null,
+      txHash: id,
+      logIndex: sequence,
+      timestamp
+    }
+  }
+
+  private fromSimulator(event: ExchangeEvent): IndexedEvent {
+    const base = { ...this.simulatorBase(event.timestamp), type: event.type }
+    switch (event.type) {
+      case 'OrderPlaced':
+        return { ...base, market: event.market, orderId: String(event.orderId), side: event.side, size: event.size, price: event.price }
+      case 'OrderExecuted':
+        return {
+          ...base,
+          market: event.market,
+          orderId: String(event.orderId),
+          size: event.executedSize,
+          price: event.executedPrice,
+          fee: event.fee
+        }
+      case 'OrderCancelled':
+        return { ...base, market: event.market, orderId: String(event.orderId) }
+      case 'PositionOpened':
+        return {
+          ...base,
+          market: event.market,
+          positionId: String(event.positionId),
+          side: event.side,
+          size: event.size,
+          price: event.entryPrice
+        }
+      case 'PositionClosed':
+        return { ...base, market: event.market, positionId: String(event.positionId), pnl: event.pnl }
+      case 'FundingPaid':
+        return {
+          ...base,
+          market: event.market,
+          positionId: String(event.positionId),
+          rate: event.rate,
+          amount: event.amount
+        }
+      case 'Liquidation':
+        return {
+          ...base,
+          market: event.market,
+          positionId: String(event.positionId),
+          price: event.markPrice,
+          pnl: event.pnl
+        }
+      case 'Deposit':
+      case 'Withdraw':
+        return { ...base, amount: event.amount }
+    }
+  }
+
+  // ===== Storage =====
+
+  private async persist(events: IndexedEvent[]) {
+    const fresh = this.addToMemory(events)
+    if (fresh.length === 0) return
+    this.notify()
+    await putRecords(await this.getDb(), EVENT_STORE, fresh)
+  }
+
+  private addToMemory(events: IndexedEvent[]): IndexedEvent[] {
+    const fresh = events.filter(event => !this.eventIds.has(event.id))
+    if (fresh.length === 0) return fresh
+
+    fresh.forEach(event => this.eventIds.add(event.id))
+    this.events.push(...fresh)
+    this.events.sort(compareEvents)
+    if (this.events.length > MAX_MEMORY_EVENTS) {
+      this.events.splice(0, this.events.length - MAX_MEMORY_EVENTS).forEach(event => this.eventIds.delete(event.id))
+    }
+    return fresh
+  }
+
+  private isActiveUser(user: Address): boolean {
+    return !!this.user && this.user.toLowerCase() === user.toLowerCase()
+  }
+
+  private updateStatus(patch: Partial<IndexerStatus>) {
+    this.status = { ...this.status, ...patch }
+    this.notify()
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => {
+      try {
+        listener()
+      } catch (error) {
+        console.error('Event indexer listener failed:', error)
+      }
+    })
+  }
+}
+
+export const eventIndexer = EventIndexer.getInstance()
@@ -0,0 +1,952 @@
+import { hexToString, verifyTypedData, type Address, type Hex } from 'viem'
+import {
+  type SAuthTicket,
+  type OrderSide,
+  type OrderType,
+  type MarginMode,
+  type Position,
+  type Order,
+  type AccountInfo,
+  TRADING_CONFIG,
+  MARKET_CONFIG,
+  SAUTH_DOMAIN,
+  SAUTH_TYPES
+} from '../constants/contractConstants'
+import { toSAuthMessage, verifyTicketInclusion } from '../utils/sAuthMerkle'
+import { priceFeedService } from './PriceFeedService'
+
+// In-process stand-in for the RiverBit core contract. It keeps a
+// price-time-priority order book per market, tracks collateral and positions
+// per user, charges fees and funding and liquidates under-margined accounts.
+// Method names and return shapes follow RIVERBIT_CORE_ABI so the simulator can
+// be swapped in wherever the contract would be called.
+
+type MarketSpec = (typeof MARKET_CONFIG.CRYPTO_MARKETS)[number] | (typeof MARKET_CONFIG.STOCK_MARKETS)[number]
+
+export interface SimOrder {
+  orderId: number
+  user: Address
+  market: string
+  side: OrderSide
+  orderType: OrderType
+  size: number
+  remaining: number
+  price: number // limit price, 0 for market orders
+  stopPrice?: number
+  marginMode: MarginMode
+  leverage: number
+  reduceOnly: boolean
+  status: Order['status']
+  filledSize: number
+  averageFillPrice: number
+  sequence: number
+  timestamp: number
+}
+
+export interface SimPosition {
+  positionId: number
+  user: Address
+  market: string
+  side: OrderSide
+  size: number
+  entryPrice: number
+  marginMode: MarginMode
+  leverage: number
+  margin: number
+  realizedPnl: number
+  fundingPaid: number
+  timestamp: number
+}
+
+export interface SimAccount {
+  user: Address
+  balance: number // deposits + realized PnL - fees - funding
+  positions: Map<string, SimPosition> // keyed by market
+}
+
+export interface OrderBookLevel {
+  price: number
+  amount: number
+  total: number
+}
+
+export interface PlaceOrderParams {
+  user: Address
+  market: string
+  side: OrderSide
+  size: number
+  price?: number
+  stopPrice?: number
+  orderType: OrderType
+  marginMode?: MarginMode
+  leverage?: number
+  reduceOnly?: boolean
+}
+
+export interface TicketSettlementResult {
+  ticket: SAuthTicket
+  accepted: boolean
+  orderId?: number
+  reason?: string
+}
+
+export type ExchangeEvent =
+  | { type: 'OrderPlaced'; user: Address; orderId: number; market: string; side: OrderSide; size: number; price: number; timestamp: number }
+  | { type: 'OrderExecuted'; user: Address; orderId: number; market: string; executedSize: number; executedPrice: number; fee: number; timestamp: number }
+  | { type: 'OrderCancelled'; user: Address; orderId: number; market: string; reason: string; timestamp: number }
+  | { type: 'PositionOpened'; user: Address; positionId: number; market: string; side: OrderSide; size: number; entryPrice: number; timestamp: number }
+  | { type: 'PositionClosed'; user: Address; positionId: number; market: string; pnl: number; timestamp: number }
+  | { type: 'FundingPaid'; user: Address; positionId: number; market: string; rate: number; amount: number; timestamp: number }
+  | { type: 'Liquidation'; user: Address; positionId: number; market: string; markPrice: number; pnl: number; badDebt: number; timestamp: number }
+  | { type: 'Deposit' | 'Withdraw'; user: Address; amount: number; timestamp: number }
+
+export interface ExchangeSimulatorOptions {
+  takerFeeRate?: number
+  makerFeeRate?: number
+  maintenanceMarginRate?: number
+  fundingInterval?: number // ms
+  maxFundingRate?: number // per interval
+  liquidityLevels?: number // house quotes per side
+  liquiditySpread?: number // fractional distance between house levels
+  liquidityNotional?: number // USD per house level
+  autoFundAmount?: number // collateral credited to unknown accounts on first use
+  defaultLeverage?: number // used for S-Auth tickets that carry no leverage
+  defaultMarginMode?: MarginMode
+  verifySignatures?: boolean
+}
+
+// House account that quotes liquidity around the mark price; it has no margin
+export const LIQUIDITY_PROVIDER = '0x0000000000000000000000000000000000000001' as Address
+
+const DEFAULT_OPTIONS: Required<ExchangeSimulatorOptions> = {
+  takerFeeRate: 0.003, // matches TradingService.calculateTradingFees
+  makerFeeRate: 0.001,
+  maintenanceMarginRate: 0.05,
+  fundingInterval: 8 * 60 * 60 * 1000, // 8 hours
+  maxFundingRate: 0.0075,
+  liquidityLevels: 10,
+  liquiditySpread: 0.0005,
+  liquidityNotional: 50_000,
+  autoFundAmount: 0,
+  defaultLeverage: 10,
+  defaultMarginMode: 'cross',
+  verifySignatures: true
+}
+
+const ALL_MARKETS: MarketSpec[] = [...MARKET_CONFIG.CRYPTO_MARKETS, ...MARKET_CONFIG.STOCK_MARKETS]
+
+// Exchange rounding: sizes floor to the step, prices round to the tick
+export function roundToIncrement(value: number, increment: number, round: (x: number) => number): number {
+  const decimals = Math.max(0, -Math.floor(Math.log10(increment)))
+  // Nudge by a small epsilon so float noise (e.g. 0.3 / 0.1) does not floor a step away
+  return Number((round(value / increment + 1e-9) * increment).toFixed(decimals))
+}
+
+interface MarketState {
+  spec: MarketSpec
+  bids: SimOrder[] // best (highest) price first, then oldest
+  asks: SimOrder[] // best (lowest) price first, then oldest
+  stops: SimOrder[]
+  markPrice: number
+  fundingRate: number | null // manual override; null derives from book premium
+  lastFundingTime: number
+}
+
+export class ExchangeSimulator {
+  private options: Required<ExchangeSimulatorOptions>
+  private markets = new Map<string, MarketState>()
+  private accounts = new Map<string, SimAccount>()
+  private orders = new Map<number, SimOrder>()
+  private consumedNonces = new Map<string, number>()
+  private listeners = new Set<(event: ExchangeEvent) => void>()
+  private nextOrderId = 1
+  private nextPositionId = 1
+  private sequence = 0
+  private badDebt = 0
+  private priceUnsubscribers: (() => void)[] = []
+  private fundingTimer: ReturnType<typeof setInterval> | null = null
+
+  constructor(options: ExchangeSimulatorOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+    ALL_MARKETS.forEach(spec => {
+      this.markets.set(spec.symbol, {
+        spec,
+        bids: [],
+        asks: [],
+        stops: [],
+        markPrice: 0,
+        fundingRate: null,
+        lastFundingTime: Date.now()
+      })
+    })
+  }
+
+  // Follow PriceFeedService marks and settle funding on a timer
+  start() {
+    if (this.priceUnsubscribers.length > 0) return
+
+    this.priceUnsubscribers = ALL_MARKETS.map(spec =>
+      priceFeedService.subscribe(spec.symbol, data => this.updateMarkPrice(spec.symbol, data.price))
+    )
+    this.fundingTimer = setInterval(() => this.settleFunding(), this.options.fundingInterval)
+  }
+
+  stop() {
+    this.priceUnsubscribers.forEach(unsubscribe => unsubscribe())
+    this.priceUnsubscribers = []
+    if (this.fundingTimer) {
+      clearInterval(this.fundingTimer)
+      this.fundingTimer = null
+    }
+  }
+
+  subscribe(listener: (event: ExchangeEvent) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  // ===== Collateral =====
+
+  deposit(user: Address, amount: number) {
+    if (amount <= 0) throw new Error('Deposit amount must be positive')
+    this.getAccount(user).balance += amount
+    this.emit({ type: 'Deposit', user, amount, timestamp: Date.now() })
+  }
+
+  withdraw(user: Address, amount: number) {
+    const info = this.computeAccount(user)
+    if (amount <= 0) throw new Error('Withdraw amount must be positive')
+    if (amount > info.freeMargin) throw new Error('Insufficient free margin for withdrawal')
+    this.getAccount(user).balance -= amount
+    this.emit({ type: 'Withdraw', user, amount, timestamp: Date.now() })
+  }
+
+  // ===== Market data =====
+
+  // Move the mark price: refresh house liquidity, trigger stops, check margin
+  updateMarkPrice(market: string, price: number) {
+    const state = this.getMarket(market)
+    if (price <= 0) return
+
+    state.markPrice = this.roundToTick(price, state.spec)
+    this.refreshLiquidity(state)
+    this.triggerStops(state)
+    this.checkLiquidations()
+  }
+
+  getMarketPrice(market: string): { price: number; confidence: number; timestamp: number } {
+    const state = this.getMarket(market)
+    return { price: state.markPrice, confidence: 100, timestamp: Date.now() }
+  }
+
+  getOrderBook(market: string, depth = 10): { bids: OrderBookLevel[]; asks: OrderBookLevel[] } {
+    const state = this.getMarket(market)
+    return {
+      bids: this.aggregateLevels(state.bids, depth),
+      asks: this.aggregateLevels(state.asks, depth)
+    }
+  }
+
+  setFundingRate(market: string, rate: number | null) {
+    this.getMarket(market).fundingRate = rate
+  }
+
+  // Funding rate for the next interval: override, or the clamped premium of book mid over mark
+  getFundingRate(market: string): number {
+    const state = this.getMarket(market)
+    if (state.fundingRate !== null) return state.fundingRate
+
+    const bestBid = state.bids[0]?.price
+    const bestAsk = state.asks[0]?.price
+    if (!bestBid || !bestAsk || state.markPrice <= 0) return 0
+
+    const premium = ((bestBid + bestAsk) / 2 - state.markPrice) / state.markPrice
+    return Math.max(-this.options.maxFundingRate, Math.min(this.options.maxFundingRate, premium))
+  }
+
+  // ===== Orders (placeOrder / cancelOrder / closePosition) =====
+
+  placeOrder(params: PlaceOrderParams): number {
+    const state = this.getMarket(params.market)
+    const marginMode = params.marginMode ?? this.options.defaultMarginMode
+    const leverage = params.leverage ?? this.options.defaultLeverage
+    const size = this.roundToStep(params.size, state.spec)
+    const price = params.price ? this.roundToTick(params.price, state.spec) : 0
+    const stopPrice = params.stopPrice ? this.roundToTick(params.stopPrice, state.spec) : undefined
+    const isHouse = params.user === LIQUIDITY_PROVIDER
+
+    if (!TRADING_CONFIG.ORDER_TYPES.includes(params.orderType)) {
+      throw new Error(`Invalid order type: ${params.orderType}`)
+    }
+    if (size < state.spec.minOrderSize) {
+      throw new Error(`Order size below minimum ${state.spec.minOrderSize} for ${params.market}`)
+    }
+    if (leverage < 1 || leverage > state.spec.maxLeverage) {
+      throw new Error(`Leverage must be between 1x and ${state.spec.maxLeverage}x for ${params.market}`)
+    }
+    if ((params.orderType === 'limit' || params.orderType === 'stop_limit') && price <= 0) {
+      throw new Error(`${params.orderType} orders require a price`)
+    }
+    if ((params.orderType === 'stop' || params.orderType === 'stop_limit') && !(stopPrice || price)) {
+      throw new Error(`${params.orderType} orders require a stop price`)
+    }
+
+    if (!isHouse && !params.reduceOnly) {
+      // Only the part of the order that opens or grows a position needs margin
+      const position = this.getAccount(params.user).positions.get(params.market)
+      const reducing = position && position.side !== params.side ? position.size : 0
+      const opening = Math.max(size - reducing, 0)
+      const referencePrice = price || state.markPrice
+      const requiredMargin = (opening * referencePrice) / leverage
+      const fee = size * referencePrice * this.options.takerFeeRate
+      if (requiredMargin + fee > this.computeAccount(params.user).freeMargin) {
+        throw new Error('Insufficient margin for this trade')
+      }
+    }
+
+    const order: SimOrder = {
+      orderId: this.nextOrderId++,
+      user: params.user,
+      market: params.market,
+      side: params.side,
+      orderType: params.orderType,
+      size,
+      remaining: size,
+      price,
+      stopPrice: params.orderType === 'stop' ? (stopPrice ?? price) : stopPrice,
+      marginMode,
+      leverage,
+      reduceOnly: params.reduceOnly ?? false,
+      status: 'pending',
+      filledSize: 0,
+      averageFillPrice: 0,
+      sequence: this.sequence++,
+      timestamp: Date.now()
+    }
+    this.orders.set(order.orderId, order)
+
+    if (!isHouse) {
+      this.emit({
+        type: 'OrderPlaced',
+        user: order.user,
+        orderId: order.orderId,
+        market: order.market,
+        side: order.side,
+        size: order.size,
+        price: order.price,
+        timestamp: order.timestamp
+      })
+    }
+
+    if (order.orderType === 'stop' || order.orderType === 'stop_limit') {
+      state.stops.push(order)
+      this.triggerStops(state)
+    } else {
+      this.executeOrder(state, order)
+    }
+
+    if (!isHouse) this.checkLiquidations()
+    return order.orderId
+  }
+
+  cancelOrder(user: Address, orderId: number) {
+    const order = this.orders.get(orderId)
+    if (!order || order.user.toLowerCase() !== user.toLowerCase()) {
+      throw new Error(`Order ${orderId} not found`)
+    }
+    if (order.status !== 'pending') {
+      throw new Error(`Order ${orderId} is already ${order.status}`)
+    }
+    this.cancel(order, 'user')
+  }
+
+  // Close all or part of a position; price 0 closes at market
+  closePosition(user: Address, positionId: number, size = 0, price = 0): number {
+    const position = this.findPosition(user, positionId)
+    if (!position) throw new Error(`Position ${positionId} not found`)
+
+    return this.placeOrder({
+      user,
+      market: position.market,
+      side: position.side === 'buy' ? 'sell' : 'buy',
+      size: size > 0 ? Math.min(size, position.size) : position.size,
+      price,
+      orderType: price > 0 ? 'limit' : 'market',
+      marginMode: position.marginMode,
+      leverage: position.leverage,
+      reduceOnly: true
+    })
+  }
+
+  // ===== S-Auth settlement (batchSettle) =====
+
+  // Mirror of the contract's batchSettle: every ticket must be in the Merkle
+  // batch, carry a valid EIP-712 signature and use a fresh nonce. Invalid
+  // inclusion proofs revert the whole batch; other failures reject only the ticket.
+  async batchSettle(params: {
+    tickets: SAuthTicket[]
+    signatures: string[]
+    merkleRoot: Hex
+    merkleProofs: Hex[][]
+  }): Promise<TicketSettlementResult[]> {
+    const { tickets, signatures, merkleRoot, merkleProofs } = params
+
+    if (tickets.length !== signatures.length || tickets.length !== merkleProofs.length) {
+      throw new Error('Batch arrays length mismatch')
+    }
+    tickets.forEach((ticket, index) => {
+      if (!verifyTicketInclusion(ticket, merkleProofs[index], merkleRoot)) {
+        throw new Error(`Invalid Merkle proof for ticket ${ticket.user}#${ticket.nonce}`)
+      }
+    })
+
+    const results: TicketSettlementResult[] = []
+    for (let i = 0; i < tickets.length; i++) {
+      results.push(await this.settleTicket(tickets[i], signatures[i]))
+    }
+    return results
+  }
+
+  // Next S-Auth nonce the simulator will accept per user (the contract's
+  // `nonces(user)` view); nonces start at 1
+  nonces(user: Address): number {
+    return (this.consumedNonces.get(user.toLowerCase()) ?? 0) + 1
+  }
+
+  // ===== Views =====
+
+  getUserPositions(user: Address): Position[] {
+    return this.getPositions(user).map(position => ({
+      market: position.market,
+      side: position.side,
+      size: position.size.toString(),
+      entryPrice: position.entryPrice.toString(),
+      marginMode: position.marginMode,
+      leverage: position.leverage,
+      unrealizedPnl: this.unrealizedPnl(position).toFixed(6),
+      timestamp: position.timestamp
+    }))
+  }
+
+  getUserOrders(user: Address): Order[] {
+    return this.getOrders(user).map(order => ({
+      orderId: order.orderId.toString(),
+      market: order.market,
+      side: order.side,
+      size: order.size.toString(),
+      price: order.price.toString(),
+      orderType: order.orderType,
+      status: order.status,
+      timestamp: order.timestamp
+    }))
+  }
+
+  getAccountInfo(user: Address): AccountInfo {
+    const info = this.computeAccount(user)
+    return {
+      balance: info.balance.toFixed(6),
+      equity: info.equity.toFixed(6),
+      usedMargin: info.usedMargin.toFixed(6),
+      freeMargin: info.freeMargin.toFixed(6),
+      marginRatio: info.marginRatio.toFixed(2),
+      totalPnl: info.totalPnl.toFixed(6)
+    }
+  }
+
+  getPositions(user: Address): SimPosition[] {
+    const account = this.accounts.get(user.toLowerCase())
+    return account ? Array.from(account.positions.values()) : []
+  }
+
+  getOrders(user: Address): SimOrder[] {
+    return Array.from(this.orders.values()).filter(order => order.user.toLowerCase() === user.toLowerCase())
+  }
+
+  getBadDebt(): number {
+    return this.badDebt
+  }
+
+  // ===== Funding =====
+
+  // Exchange funding between longs and shorts; positive rates mean longs pay
+  settleFunding(market?: string) {
+    const states = market ? [this.getMarket(market)] : Array.from(this.markets.values())
+    const now = Date.now()
+
+    states.forEach(state => {
+      if (state.markPrice <= 0) return
+      const rate = this.getFundingRate(state.spec.symbol)
+      state.lastFundingTime = now
+      if (rate === 0) return
+
+      this.accounts.forEach(account => {
+        const position = account.positions.get(state.spec.symbol)
+        if (!position) return
+
+        const direction = position.side === 'buy' ? 1 : -1
+        const amount = position.size * state.markPrice * rate * direction
+        account.balance -= amount
+        position.fundingPaid += amount
+        if (position.marginMode === 'isolated') position.margin -= amount
+
+        this.emit({
+          type: 'FundingPaid',
+          user: account.user,
+          positionId: position.positionId,
+          market: position.market,
+          rate,
+          amount,
+          timestamp: now
+        })
+      })
+    })
+
+    this.checkLiquidations()
+  }
+
+  // ===== Internals =====
+
+  private async settleTicket(ticket: SAuthTicket, signature: string): Promise<TicketSettlementResult> {
+    const userKey = ticket.user.toLowerCase()
+
+    if (ticket.nonce < this.nonces(ticket.user)) {
+      return { ticket, accepted: false, reason: 'Nonce already used' }
+    }
+    if (Date.now() - ticket.timestamp * 1000 > TRADING_CONFIG.SIGNATURE_VALIDITY) {
+      return { ticket, accepted: false, reason: 'Trading signature has expired' }
+    }
+    if (this.options.verifySignatures) {
+      const valid = await verifyTypedData({
+        address: ticket.user,
+        domain: SAUTH_DOMAIN,
+        types: SAUTH_TYPES,
+        primaryType: 'SAuthTicket',
+        message: toSAuthMessage(ticket),
+        signature: signature as Hex
+      }).catch(() => false)
+      if (!valid) {
+        return { ticket, accepted: false, reason: 'Invalid signature' }
+      }
+    }
+
+    this.consumedNonces.set(userKey, ticket.nonce)
+
+    try {
+      const orderId = this.placeOrder({
+        user: ticket.user,
+        market: hexToString(ticket.market as Hex, { size: 32 }),
+        side: ticket.side === 0 ? 'buy' : 'sell',
+        size: Number(ticket.size) / 1e6,
+        price: Number(ticket.price) / 1e6,
+        stopPrice: Number(ticket.stopPrice) / 1e6 || undefined,
+        orderType: ticket.orderType,
+        leverage: ticket.leverage,
+        marginMode: ticket.marginMode,
+        reduceOnly: ticket.reduceOnly
+      })
+      return { ticket, accepted: true, orderId }
+    } catch (error) {
+      return { ticket, accepted: false, reason: error instanceof Error ? error.message : String(error) }
+    }
+  }
+
+  // Match against the opposite side, then rest limit remainders or cancel market remainders
+  private executeOrder(state: MarketState, order: SimOrder) {
+    const book = order.side === 'buy' ? state.asks : state.bids
+
+    while (order.remaining > 0 && book.length > 0) {
+      const maker = book[0]
+      const crosses = order.price === 0 ||
+        (order.side === 'buy' ? maker.price <= order.price : maker.price >= order.price)
+      if (!crosses) break
+
+      // Self-trade prevention: cancel the resting order
+      if (maker.user.toLowerCase() === order.user.toLowerCase()) {
+        this.cancel(maker, 'self-trade prevention')
+        continue
+      }
+
+      const quantity = Math.min(order.remaining, maker.remaining)
+      if (order.reduceOnly && !this.canReduce(order, quantity)) {
+        this.cancel(order, 'reduce-only order would increase position')
+        return
+      }
+
+      if (!this.fill(maker, quantity, maker.price, true)) {
+        this.cancel(maker, 'insufficient margin at fill')
+        continue
+      }
+      if (!this.fill(order, quantity, maker.price, false)) {
+        this.cancel(order, 'insufficient margin at fill')
+        return
+      }
+    }
+
+    if (order.remaining <= 0) return
+
+    if (order.price === 0) {
+      if (order.filledSize > 0) {
+        this.cancel(order, 'market order partially filled')
+      } else {
+        this.cancel(order, 'no liquidity', 'rejected')
+      }
+    } else {
+      this.insertResting(order.side === 'buy' ? state.bids : state.asks, order)
+    }
+  }
+
+  private fill(order: SimOrder, quantity: number, price: number, isMaker: boolean): boolean {
+    const feeRate = isMaker ? this.options.makerFeeRate : this.options.takerFeeRate
+    const fee = quantity * price * feeRate
+
+    if (order.user !== LIQUIDITY_PROVIDER && !this.applyFill(order, quantity, price, fee)) {
+      return false
+    }
+
+    order.averageFillPrice = (order.averageFillPrice * order.filledSize + price * quantity) / (order.filledSize + quantity)
+    order.filledSize += quantity
+    order.remaining = this.roundToStep(order.remaining - quantity, this.getMarket(order.market).spec)
+    if (order.remaining <= 0) {
+      order.remaining = 0
+      order.status = 'filled'
+      this.removeResting(order)
+      if (order.user === LIQUIDITY_PROVIDER) this.orders.delete(order.orderId)
+    }
+
+    if (order.user !== LIQUIDITY_PROVIDER) {
+      this.emit({
+        type: 'OrderExecuted',
+        user: order.user,
+        orderId: order.orderId,
+        market: order.market,
+        executedSize: quantity,
+        executedPrice: price,
+        fee,
+        timestamp: Date.now()
+      })
+    }
+    return true
+  }
+
+  // Update the user's position and collateral for a fill
+  private applyFill(order: SimOrder, quantity: number, price: number, fee: number): boolean {
+    const account = this.getAccount(order.user)
+    const position = account.positions.get(order.market)
+    const now = Date.now()
+
+    if (!position || position.side === order.side) {
+      const addedMargin = (quantity * price) / order.leverage
+      if (addedMargin + fee > this.computeAccount(order.user).freeMargin) return false
+
+      account.balance -= fee
+      if (!position) {
+        const opened: SimPosition = {
+          positionId: this.nextPositionId++,
+          user: order.user,
+          market: order.market,
+          side: order.side,
+          size: quantity,
+          entryPrice: price,
+          marginMode: order.marginMode,
+          leverage: order.leverage,
+          margin: addedMargin,
+          realizedPnl: 0,
+          fundingPaid: 0,
+          timestamp: now
+        }
+        account.positions.set(order.market, opened)
+        this.emit({
+          type: 'PositionOpened',
+          user: order.user,
+          positionId: opened.positionId,
+          market: opened.market,
+          side: opened.side,
+          size: opened.size,
+          entryPrice: opened.entryPrice,
+          timestamp: now
+        })
+      } else {
+        position.entryPrice = (position.entryPrice * position.size + price * quantity) / (position.size + quantity)
+        position.size += quantity
+        position.margin += addedMargin
+      }
+      return true
+    }
+
+    // Opposite side: reduce, close and possibly flip
+    const closing = Math.min(quantity, position.size)
+    const direction = position.side === 'buy' ? 1 : -1
+    const pnl = closing * (price - position.entryPrice) * direction
+    const releasedMargin = position.margin * (closing / position.size)
+
+    account.balance += pnl - fee
+    position.realizedPnl += pnl
+    position.margin -= releasedMargin
+    position.size = this.roundToStep(position.size - closing, this.getMarket(order.market).spec)
+
+    if (position.size <= 0) {
+      account.positions.delete(order.market)
+      this.emit({
+        type: 'PositionClosed',
+        user: order.user,
+        positionId: position.positionId,
+        market: position.market,
+        pnl: position.realizedPnl,
+        timestamp: now
+      })
+    }
+
+    const flipping = quantity - closing
+    if (flipping > 0 && !order.reduceOnly) {
+      return this.applyFill(order, flipping, price, 0)
+    }
+    return true
+  }
+
+  private canReduce(order: SimOrder, quantity: number): boolean {
+    const position = this.getAccount(order.user).positions.get(order.market)
+    return !!position && position.side !== order.side && quantity <= position.size
+  }
+
+  private triggerStops(state: MarketState) {
+    const mark = state.markPrice
+    if (mark <= 0) return
+
+    const triggered = state.stops.filter(order =>
+      order.stopPrice !== undefined &&
+      (order.side === 'buy' ? mark >= order.stopPrice : mark <= order.stopPrice)
+    )
+    if (triggered.length === 0) return
+
+    state.stops = state.stops.filter(order => !triggered.includes(order))
+    triggered.forEach(order => {
+      if (order.orderType === 'stop') order.price = 0
+      this.executeOrder(state, order)
+    })
+  }
+
+  // Re-quote the house ladder around the current mark price
+  private refreshLiquidity(state: MarketState) {
+    const houseOrders = [...state.bids, ...state.asks].filter(order => order.user === LIQUIDITY_PROVIDER)
+    houseOrders.forEach(order => this.cancel(order, 'requote'))
+
+    const { liquidityLevels, liquiditySpread, liquidityNotional } = this.options
+    for (let level = 1; level <= liquidityLevels; level++) {
+      const offset = liquiditySpread * level
+      const size = Math.max(this.roundToStep(liquidityNotional / state.markPrice, state.spec), state.spec.minOrderSize)
+      ;(['buy', 'sell'] as const).forEach(side => {
+        this.placeOrder({
+          user: LIQUIDITY_PROVIDER,
+          market: state.spec.symbol,
+          side,
+          size,
+          price: state.markPrice * (side === 'buy' ? 1 - offset : 1 + offset),
+          orderType: 'limit',
+          leverage: 1
+        })
+      })
+    }
+  }
+
+  // Liquidate isolated positions and cross accounts below maintenance margin at the mark price
+  private checkLiquidations() {
+    this.accounts.forEach(account => {
+      account.positions.forEach(position => {
+        if (position.marginMode !== 'isolated') return
+        const equity = position.margin + this.unrealizedPnl(position)
+        if (equity < this.maintenanceMargin(position)) {
+          this.liquidate(account, position, Math.max(-equity, 0))
+        }
+      })
+
+      const crossPositions = Array.from(account.positions.values()).filter(p => p.marginMode === 'cross')
+      if (crossPositions.length === 0) return
+
+      const crossEquity = this.crossEquity(account)
+      const crossMaintenance = crossPositions.reduce((sum, p) => sum + this.maintenanceMargin(p), 0)
+      if (crossEquity < crossMaintenance) {
+        crossPositions.forEach(position => this.liquidate(account, position, 0))
+        if (account.balance < 0) {
+          this.badDebt += -account.balance
+          account.balance = 0
+        }
+      }
+    })
+  }
+
+  private liquidate(account: SimAccount, position: SimPosition, shortfall: number) {
+    const state = this.getMarket(position.market)
+    const pnl = this.unrealizedPnl(position)
+    const now = Date.now()
+
+    // Isolated losses are capped at the posted margin; the rest is bad debt
+    account.balance += position.marginMode === 'isolated' ? Math.max(pnl, -position.margin) : pnl
+    this.badDebt += shortfall
+    account.positions.delete(position.market)
+
+    this.getOrders(account.user)
+      .filter(order => order.market === position.market && order.status === 'pending' && order.reduceOnly)
+      .forEach(order => this.cancel(order, 'position liquidated'))
+
+    this.emit({
+      type: 'Liquidation',
+      user: account.user,
+      positionId: position.positionId,
+      market: position.market,
+      markPrice: state.markPrice,
+      pnl,
+      badDebt: shortfall,
+      timestamp: now
+    })
+    this.emit({
+      type: 'PositionClosed',
+      user: account.user,
+      positionId: position.positionId,
+      market: position.market,
+      pnl: position.realizedPnl + pnl,
+      timestamp: now
+    })
+  }
+
+  private computeAccount(user: Address) {
+    const account = this.getAccount(user)
+    const positions = Array.from(account.positions.values())
+    const unrealized = positions.reduce((sum, p) => sum + this.unrealizedPnl(p), 0)
+    const usedMargin = positions.reduce((sum, p) => sum + p.margin, 0)
+    const maintenance = positions.reduce((sum, p) => sum + this.maintenanceMargin(p), 0)
+    const equity = account.balance + unrealized
+    const realized = positions.reduce((sum, p) => sum + p.realizedPnl, 0)
+
+    return {
+      balance: account.balance,
+      equity,
+      usedMargin,
+      freeMargin: Math.max(equity - usedMargin, 0),
+      // Maintenance requirement as a percentage of equity; 100 means liquidation
+      marginRatio: equity > 0 ? (maintenance / equity) * 100 : maintenance > 0 ? 100 : 0,
+      totalPnl: unrealized + realized
+    }
+  }
+
+  private crossEquity(account: SimAccount): number {
+    let equity = account.balance
+    account.positions.forEach(position => {
+      if (position.marginMode === 'isolated') {
+        equity -= position.margin
+      } else {
+        equity += this.unrealizedPnl(position)
+      }
+    })
+    return equity
+  }
+
+  private unrealizedPnl(position: SimPosition): number {
+    const mark = this.getMarket(position.market).markPrice || position.entryPrice
+    const direction = position.side === 'buy' ? 1 : -1
+    return position.size * (mark - position.entryPrice) * direction
+  }
+
+  private maintenanceMargin(position: SimPosition): number {
+    const mark = this.getMarket(position.market).markPrice || position.entryPrice
+    return position.size * mark * this.options.maintenanceMarginRate
+  }
+
+  private cancel(order: SimOrder, reason: string, status: Order['status'] = 'cancelled') {
+    order.status = status
+    this.removeResting(order)
+    const state = this.getMarket(order.market)
+    state.stops = state.stops.filter(stop => stop !== order)
+
+    if (order.user === LIQUIDITY_PROVIDER) {
+      this.orders.delete(order.orderId)
+      return
+    }
+    this.emit({
+      type: 'OrderCancelled',
+      user: order.user,
+      orderId: order.orderId,
+      market: order.market,
+      reason,
+      timestamp: Date.now()
+    })
+  }
+
+  private insertResting(book: SimOrder[], order: SimOrder) {
+    const better = (a: SimOrder, b: SimOrder) => a.side === 'buy' ? a.price > b.price : a.price < b.price
+    let index = book.findIndex(resting => better(order, resting))
+    if (index === -1) index = book.length
+    book.splice(index, 0, order)
+  }
+
+  private removeResting(order: SimOrder) {
+    const state = this.getMarket(order.market)
+    const book = order.side === 'buy' ? state.bids : state.asks
+    const index = book.indexOf(order)
+    if (index !== -1) book.splice(index, 1)
+  }
+
+  private aggregateLevels(book: SimOrder[], depth: number): OrderBookLevel[] {
+    const levels: OrderBookLevel[] = []
+    let total = 0
+    for (const order of book) {
+      const last = levels[levels.length - 1]
+      if (last && last.price === order.price) {
+        last.amount += order.remaining
+        total += order.remaining
+        last.total = total
+        continue
+      }
+      if (levels.length === depth) break
+      total += order.remaining
+      levels.push({ price: order.price, amount: order.remaining, total })
+    }
+    return levels
+  }
+
+  private findPosition(user: Address, positionId: number): SimPosition | undefined {
+    return this.getPositions(user).find(position => position.positionId === positionId)
+  }
+
+  private getAccount(user: Address): SimAccount {
+    const key = user.toLowerCase()
+    let account = this.accounts.get(key)
+    if (!account) {
+      account = { user, balance: 0, positions: new Map() }
+      this.accounts.set(key, account)
+      if (this.options.autoFundAmount > 0 && user !== LIQUIDITY_PROVIDER) {
+        account.balance = this.options.autoFundAmount
+        this.emit({ type: 'Deposit', user, amount: this.options.autoFundAmount, timestamp: Date.now() })
+      }
+    }
+    return account
+  }
+
+  private getMarket(market: string): MarketState {
+    const state = this.markets.get(market)
+    if (!state) throw new Error(`Market ${market} not supported`)
+    return state
+  }
+
+  private roundToTick(price: number, spec: MarketSpec): number {
+    return roundToIncrement(price, spec.tickSize, Math.round)
+  }
+
+  private roundToStep(size: number, spec: MarketSpec): number {
+    return roundToIncrement(size, spec.stepSize, Math.floor)
+  }
+
+  private emit(event: ExchangeEvent) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event)
+      } catch (error) {
+        console.error('Error in exchange simulator listener:', error)
+      }
+    })
+  }
+}
+
+// Shared simulator for demo mode; demo accounts start with 10,000 USDC
+export const exchangeSimulator = new ExchangeSimulator({ autoFundAmount: 10_000 })
@@ -0,0 +1,532 @@
+import type { Address } from 'viem'
+import { isDemoMode } from '../config/wagmi'
+import {
+  EARLY_UNLOCK_PENALTIES,
+  FOUNDATION_STAKING,
+  FOUNDATION_STAKING_TIERS
+} from '../constants/riverPoolConstants'
+import { getChainAdapter } from './ChainAdapter'
+
+// Foundation LP staking. Each stake is its own locked position with a start
+// date and a tier: longer locks boost the APY. The lock reward accrues linearly
+// over the lock and vests after the tier's cliff (a cliff as long as the lock
+// vests everything at maturity); reaching maturity adds the loyalty bonus.
+// Vested rewards can be claimed in part or compounded into a new position.
+// Unlocking early pays back the principal less a penalty that shrinks as the
+// lock runs down, and forfeits whatever has not vested.
+//
+// State goes through a StakingStore: localStorage by default, swappable with
+// setStore() for a contract-backed adapter. Demo mode hands every holder a seeded
+// RBT balance; live wallets start at zero and read theirs from the RBT token
+// (VITE_RBT_TOKEN_ADDRESS) through the chain adapter.
+
+export type StakingTier = typeof FOUNDATION_STAKING_TIERS[number]
+export type StakingTierId = StakingTier['id']
+
+export type StakePositionStatus = 'locked' | 'closed'
+export type StakeSource = 'stake' | 'compound' | 'renew'
+
+export interface StakePosition {
+  id: string
+  holder: string | null // null for the demo account
+  tierId: StakingTierId
+  principal: number // RBT
+  apy: number // %, boosted
+  startAt: number
+  cliffAt: number
+  unlockAt: number
+  claimed: number // rewards paid out or compounded
+  source: StakeSource
+  status: StakePositionStatus
+  closedAt?: number
+}
+
+export interface StakeAccrual {
+  elapsedDays: number
+  remainingDays: number
+  progress: number // 0-1 through the lock
+  lockReward: number // over the full lock, before the loyalty bonus
+  loyaltyBonus: number
+  accrued: number
+  vested: number
+  claimable: number
+  dailyReward: number // 0 once matured
+  matured: boolean
+}
+
+export interface StakePreview {
+  tier: StakingTier
+  apy: number
+  dailyReward: number
+  lockReward: number
+  loyaltyBonus: number
+  totalReward: number
+  cliffAt: number
+  unlockAt: number
+}
+
+export interface UnlockPreview {
+  early: boolean
+  principal: number
+  penaltyRate: number
+  penalty: number
+  rewards: number // claimable rewards paid out with the principal
+  forfeited: number // unvested rewards and loyalty bonus given up
+  payout: number
+}
+
+export type StakingEventType = 'stake' | 'claim' | 'compound' | 'unlock' | 'early_unlock' | 'renew'
+
+export interface StakingEvent {
+  id: string
+  holder: string | null
+  type: StakingEventType
+  positionId: string
+  amount: number // RBT moved: staked, claimed, compounded or paid out
+  penalty?: number
+  forfeited?: number
+  timestamp: number
+}
+
+export interface StakingSummary {
+  staked: number
+  activePositions: number
+  dailyReward: number
+  accrued: number
+  claimable: number
+  claimed: number
+  nextUnlockAt: number | null
+}
+
+export interface StoredStaking {
+  positions: StakePosition[]
+  history: StakingEvent[]
+  balances: Record<string, number> // RBT by holder key
+}
+
+export interface StakingStore {
+  load(): StoredStaking | null
+  save(state: StoredStaking): void
+  onChain?: boolean // actions settle through the staking contract, so live wallets may use them
+}
+
+type StakingListener = () => void
+
+const STORAGE_KEY = 'riverbit_foundation_staking'
+const DAY_MS = 24 * 60 * 60 * 1000
+const MAX_HISTORY = 200
+const DUST = 0.000001
+
+const configuredTokenAddress = import.meta.env?.VITE_RBT_TOKEN_ADDRESS as Address | undefined
+
+export const localStakingStore: StakingStore = {
+  load() {
+    try {
+      if (typeof localStorage === 'undefined') return null
+      const stored = localStorage.getItem(STORAGE_KEY)
+      return stored ? JSON.parse(stored) as StoredStaking : null
+    } catch (error) {
+      console.error('Failed to load foundation staking:', error)
+      return null
+    }
+  },
+  save(state) {
+    try {
+      if (typeof localStorage === 'undefined') return
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+    } catch (error) {
+      console.error('Failed to save foundation staking:', error)
+    }
+  }
+}
+
+export function getStakingTier(tierId: StakingTierId): StakingTier {
+  const tier = FOUNDATION_STAKING_TIERS.find(item => item.id === tierId)
+  if (!tier) throw new Error(`Unknown staking tier: ${tierId}`)
+  return tier
+}
+
+// Penalty rate on the principal for unlocking at the given fraction of the lock
+export function getEarlyUnlockPenaltyRate(progress: number): number {
+  if (progress >= 1) return 0
+  const elapsedPercent = progress * 100
+  const step = EARLY_UNLOCK_PENALTIES.find(item => elapsedPercent >= item.minElapsedPercent)
+  return step ? step.penalty : EARLY_UNLOCK_PENALTIES[EARLY_UNLOCK_PENALTIES.length - 1].penalty
+}
+
+export function computeAccrual(position: StakePosition, now = Date.now()): StakeAccrual {
+  const lockMs = position.unlockAt - position.startAt
+  const end = position.status === 'closed' && position.closedAt !== undefined ? Math.min(now, position.closedAt) : now
+  const elapsed = Math.min(Math.max(end - position.startAt, 0), lockMs)
+  const progress = lockMs > 0 ? elapsed / lockMs : 1
+  const matured = end >= position.unlockAt
+
+  const lockReward = position.principal * position.apy / 100 * lockMs / (365 * DAY_MS)
+  const loyaltyBonus = lockReward * FOUNDATION_STAKING.LOYALTY_BONUS
+  const accrued = lockReward * progress + (matured ? loyaltyBonus : 0)
+  const vested = end >= position.cliffAt ? accrued : 0
+
+  return {
+    elapsedDays: elapsed / DAY_MS,
+    remainingDays: Math.max(position.unlockAt - end, 0) / DAY_MS,
+    progress,
+    lockReward,
+    loyaltyBonus,
+    accrued,
+    vested,
+    claimable: Math.max(vested - position.claimed, 0),
+    dailyReward: matured ? 0 : position.principal * position.apy / 100 / 365,
+    matured
+  }
+}
+
+export class FoundationStakingService {
+  private static instance: FoundationStakingService
+  private store: StakingStore = localStakingStore
+  private positions: StakePosition[] = []
+  private history: StakingEvent[] = []
+  private balances: Record<string, number> = {}
+  private walletBalances: Record<string, number> = {} // RBT held in live wallets, read from the token
+  private listeners = new Set<StakingListener>()
+
+  private constructor() {
+    this.load()
+  }
+
+  static getInstance(): FoundationStakingService {
+    if (!FoundationStakingService.instance) {
+      FoundationStakingService.instance = new FoundationStakingService()
+    }
+    return FoundationStakingService.instance
+  }
+
+  // ===== Reads =====
+
+  getTiers(): StakingTier[] {
+    return [...FOUNDATION_STAKING_TIERS]
+  }
+
+  getBalance(holder?: string | null): number {
+    return this.balances[this.holderKey(holder)] ?? (isDemoMode ? FOUNDATION_STAKING.INITIAL_BALANCE : 0)
+  }
+
+  // Newest first
+  // Token balance of a live wallet from the last sync; null until read
+  getWalletBalance(holder?: string | null): number | null {
+    return this.walletBalances[this.holderKey(holder)] ?? null
+  }
+
+  // The local ledger only stands in for the staking contract in demo mode;
+  // live wallets can act once a contract-backed store is installed
+  canTransact(): boolean {
+    return isDemoMode || this.store.onChain === true
+  }
+
+  getPositions(holder?: string | null): StakePosition[] {
+    const key = this.holderKey(holder)
+    return this.positions
+      .filter(position => this.holderKey(position.holder) === key)
+      .sort((a, b) => b.startAt - a.startAt)
+      .map(position => ({ ...position }))
+  }
+
+  getHistory(holder?: string | null): StakingEvent[] {
+    const key = this.holderKey(holder)
+    return this.history.filter(event => this.holderKey(event.holder) === key)
+  }
+
+  getSummary(holder?: string | null, now = Date.now()): StakingSummary {
+    const positions = this.getPositions(holder)
+    const locked = positions.filter(position => position.status === 'locked')
+    const accruals = locked.map(position => computeAccrual(position, now))
+    const pendingUnlocks = locked.map(position => position.unlockAt).filter(time => time > now)
+
+    return {
+      staked: locked.reduce((total, position) => total + position.principal, 0),
+      activePositions: locked.length,
+      dailyReward: accruals.reduce((total, accrual) => total + accrual.dailyReward, 0),
+      accrued: accruals.reduce((total, accrual) => total + accrual.accrued, 0),
+      claimable: accruals.reduce((total, accrual) => total + accrual.claimable, 0),
+      claimed: positions.reduce((total, position) => total + position.claimed, 0),
+      nextUnlockAt: pendingUnlocks.length > 0 ? Math.min(...pendingUnlocks) : null
+    }
+  }
+
+  // ===== Previews =====
+
+  previewStake(amount: number, tierId: StakingTierId, now = Date.now()): StakePreview {
+    const tier = getStakingTier(tierId)
+    const apy = FOUNDATION_STAKING.BASE_APY * tier.boost
+    const lockReward = amount * apy / 100 * tier.lockDays / 365
+    const loyaltyBonus = lockReward * FOUNDATION_STAKING.LOYALTY_BONUS
+    return {
+      tier,
+      apy,
+      dailyReward: amount * apy / 100 / 365,
+      lockReward,
+      loyaltyBonus,
+      totalReward: lockReward + loyaltyBonus,
+      cliffAt: now + tier.cliffDays * DAY_MS,
+      unlockAt: now + tier.lockDays * DAY_MS
+    }
+  }
+
+  previewUnlock(id: string, now = Date.now()): UnlockPreview {
+    const position = this.getLocked(id)
+    const accrual = computeAccrual(position, now)
+    const penaltyRate = getEarlyUnlockPenaltyRate(accrual.progress)
+    const penalty = position.principal * penaltyRate
+    const forfeited = accrual.lockReward + accrual.loyaltyBonus - accrual.vested
+    return {
+      early: !accrual.matured,
+      principal: position.principal,
+      penaltyRate,
+      penalty,
+      rewards: accrual.claimable,
+      forfeited: Math.max(forfeited, 0),
+      payout: position.principal - penalty + accrual.claimable
+    }
+  }
+
+  // ===== Actions =====
+
+  stake(holder: string | null | undefined, amount: number, tierId: StakingTierId, now = Date.now()): StakePosition {
+    this.assertCanTransact()
+    if (!(amount >= FOUNDATION_STAKING.MIN_STAKE)) {
+      throw new Error(`Minimum stake is ${FOUNDATION_STAKING.MIN_STAKE.toLocaleString()} RBT`)
+    }
+    const balance = this.getBalance(holder)
+    if (amount > balance) {
+      throw new Error(`Insufficient RBT balance: ${balance.toLocaleString()} available`)
+    }
+    const position = this.open(holder, amount, tierId, 'stake', now)
+    this.setBalance(holder, balance - amount)
+    this.record(holder, 'stake', position.id, amount, now)
+    this.commit()
+    return { ...position }
+  }
+
+  // Pays out vested rewards; omit the amount to claim everything vested
+  claim(holder: string | null | undefined, id: string, amount?: number, now = Date.now()): number {
+    this.assertCanTransact()
+    const paid = this.takeRewards(holder, id, amount, now)
+    this.setBalance(holder, this.getBalance(holder) + paid)
+    this.record(holder, 'claim', id, paid, now)
+    this.commit()
+    return paid
+  }
+
+  claimAll(holder: string | null | undefined, now = Date.now()): number {
+    this.assertCanTransact()
+    let total = 0
+    for (const position of this.getPositions(holder)) {
+      if (position.status !== 'locked' || computeAccrual(position, now).claimable <= DUST) continue
+      const paid = this.takeRewards(holder, position.id, undefined, now)
+      this.record(holder, 'claim', position.id, paid, now)
+      total += paid
+    }
+    if (total <= 0) throw new Error('No vested rewards to claim')
+    this.setBalance(holder, this.getBalance(holder) + total)
+    this.commit()
+    return total
+  }
+
+  // Restakes vested rewards as a new position on the same tier; the minimum stake does not apply
+  compound(holder: string | null | undefined, id: string, amount?: number, now = Date.now()): StakePosition {
+    this.assertCanTransact()
+    const source = this.getLocked(id)
+    const rewards = this.takeRewards(holder, id, amount, now)
+    const position = this.open(holder, rewards, source.tierId, 'compound', now)
+    this.record(holder, 'compound', id, rewards, now)
+    this.commit()
+    return { ...position }
+  }
+
+  // Closes the position, paying principal (less any early penalty) and vested rewards
+  unlock(holder: string | null | undefined, id: string, now = Date.now()): UnlockPreview {
+    this.assertCanTransact()
+    const position = this.getOwned(holder, id)
+    const preview = this.previewUnlock(id, now)
+    this.update(id, { status: 'closed', closedAt: now, claimed: position.claimed + preview.rewards })
+    this.setBalance(holder, this.getBalance(holder) + preview.payout)
+    this.record(holder, preview.early ? 'early_unlock' : 'unlock', id, preview.payout, now, {
+      penalty: preview.early ? preview.penalty : undefined,
+      forfeited: preview.early ? preview.forfeited : undefined
+    })
+    this.commit()
+    return preview
+  }
+
+  // Rolls a matured position's principal and unclaimed rewards into a new lock
+  renew(holder: string | null | undefined, id: string, tierId?: StakingTierId, now = Date.now()): StakePosition {
+    this.assertCanTransact()
+    const position = this.getOwned(holder, id)
+    const accrual = computeAccrual(position, now)
+    if (!accrual.matured) throw new Error('Only matured positions can be renewed')
+    const amount = position.principal + accrual.claimable
+    this.update(id, { status: 'closed', closedAt: now, claimed: position.claimed + accrual.claimable })
+    const renewed = this.open(holder, amount, tierId ?? position.tierId, 'renew', now)
+    this.record(holder, 'renew', id, amount, now)
+    this.commit()
+    return { ...renewed }
+  }
+
+  // Refresh a live wallet's RBT token balance; no-op in demo mode. The token
+  // balance is shown alongside the ledger and never replaces it.
+  async syncFromChain(holder?: string | null): Promise<void> {
+    if (isDemoMode || !holder || !configuredTokenAddress) return
+    try {
+      const balance = await getChainAdapter().getTokenBalance(configuredTokenAddress, holder as Address)
+      this.walletBalances[this.holderKey(holder)] = balance
+      this.notify()
+    } catch (error) {
+      console.error('Failed to sync RBT balance from chain:', error)
+    }
+  }
+
+  // Swap where staking state lives, e.g. a store that mirrors the staking contract
+  setStore(store: StakingStore) {
+    this.store = store
+    this.positions = []
+    this.history = []
+    this.balances = {}
+    this.load()
+    this.notify()
+  }
+
+  // Back to the seeded demo state
+  reset() {
+    this.seed()
+    this.commit()
+  }
+
+  subscribe(listener: StakingListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  // ===== Internals =====
+
+  private open(holder: string | null | undefined, amount: number, tierId: StakingTierId, source: StakeSource, now: number): StakePosition {
+    const tier = getStakingTier(tierId)
+    const position: StakePosition = {
+      id: `stake_${now}_${Math.random().toString(36).slice(2, 8)}`,
+      holder: holder ? holder.toLowerCase() : null,
+      tierId: tier.id,
+      principal: amount,
+      apy: FOUNDATION_STAKING.BASE_APY * tier.boost,
+      startAt: now,
+      cliffAt: now + tier.cliffDays * DAY_MS,
+      unlockAt: now + tier.lockDays * DAY_MS,
+      claimed: 0,
+      source,
+      status: 'locked'
+    }
+    this.positions = [...this.positions, position]
+    return position
+  }
+
+  private takeRewards(holder: string | null | undefined, id: string, amount: number | undefined, now: number): number {
+    const position = this.getOwned(holder, id)
+    const { claimable } = computeAccrual(position, now)
+    if (claimable <= DUST) throw new Error('No vested rewards to claim')
+    if (amount !== undefined && !(amount > 0)) throw new Error('Amount must be positive')
+    if (amount !== undefined && amount - claimable > DUST) {
+      throw new Error(`Only ${claimable.toFixed(2)} RBT has vested`)
+    }
+    const taken = Math.min(amount ?? claimable, claimable)
+    this.update(id, { claimed: position.claimed + taken })
+    return taken
+  }
+
+  private assertCanTransact() {
+    if (!this.canTransact()) {
+      throw new Error('Live staking is disabled until the staking contract is connected')
+    }
+  }
+
+  private getOwned(holder: string | null | undefined, id: string): StakePosition {
+    const position = this.getLocked(id)
+    if (this.holderKey(position.holder) !== this.holderKey(holder)) throw new Error('Stake position not found')
+    return position
+  }
+
+  private getLocked(id: string): StakePosition {
+    const position = this.positions.find(item => item.id === id)
+    if (!position) throw new Error('Stake position not found')
+    if (position.status !== 'locked') throw new Error('Stake position is already closed')
+    return position
+  }
+
+  private update(id: string, patch: Partial<StakePosition>) {
+    this.positions = this.positions.map(position => position.id === id ? { ...position, ...patch } : position)
+  }
+
+  private setBalance(holder: string | null | undefined, balance: number) {
+    this.balances = { ...this.balances, [this.holderKey(holder)]: balance }
+  }
+
+  private record(
+    holder: string | null | undefined,
+    type: StakingEventType,
+    positionId: string,
+    amount: number,
+    timestamp: number,
+    extra: Pick<StakingEvent, 'penalty' | 'forfeited'> = {}
+  ) {
+    const event: StakingEvent = {
+      id: `stk_${timestamp}_${Math.random().toString(36).slice(2, 8)}`,
+      holder: holder ? holder.toLowerCase() : null,
+      type,
+      positionId,
+      amount,
+      timestamp,
+      ...extra
+    }
+    this.history = [event, ...this.history].slice(0, MAX_HISTORY)
+  }
+
+  private holderKey(holder?: string | null): string {
+    return holder ? holder.toLowerCase() : ''
+  }
+
+  // The demo account starts 45 days into a standard lock
+  private seed() {
+    const now = Date.now()
+    this.positions = []
+    this.history = []
+    this.balances = { '': FOUNDATION_STAKING.INITIAL_BALANCE }
+    const position = this.open(null, 8500000, 'standard', 'stake', now - 45 * DAY_MS)
+    this.record(null, 'stake', position.id, position.principal, position.startAt)
+  }
+
+  private load() {
+    const stored = this.store.load()
+    if (!stored) {
+      this.seed()
+      return
+    }
+    this.positions = stored.positions ?? []
+    this.history = stored.history ?? []
+    this.balances = stored.balances ?? {}
+  }
+
+  private commit() {
+    this.store.save({ positions: this.positions, history: this.history, balances: this.balances })
+    this.notify()
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => {
+      try {
+        listener()
+      } catch (error) {
+        console.error('Foundation staking listener failed:', error)
+      }
+    })
+  }
+}
+
+export const foundationStaking = FoundationStakingService.getInstance()
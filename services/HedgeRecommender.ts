@@ -0,0 +1,492 @@
+import { HEDGE_POLICY, POSITION_SIDES, RISK_THRESHOLDS } from '../constants/riverPoolConstants'
+import { TRADING_CONFIG } from '../constants/tradingConstants'
+import { systemPositions, xStockPairs } from '../data/riverPoolData'
+import { correlationEngine } from '../utils/tradingAssistant/correlationEngine'
+import { toCandleSymbol } from './CandleStore'
+import { getChainAdapter } from './ChainAdapter'
+import { poolAccounting, type PoolPosition } from './PoolAccounting'
+
+// Net exposure hedging for RiverPool. Measures per-asset and aggregate pool
+// delta (as % of TVL) from the system positions plus the hedges already on,
+// then proposes a batch: offsetting perps bring each asset down to the target,
+// and if the aggregate net exposure is still above the limit, the cheapest
+// sufficiently correlated market the pool does not hold trims the rest.
+// Every order carries its taker fee and the funding it pays over the horizon.
+// Exposure follows the risk snapshot in systemPositions; hedges scale it by
+// the change in net size, and proxies count at their correlation.
+//
+// Hedges are positions of the operator wallet, which is assumed to hold nothing
+// else: the local book is rebuilt from its chain positions on sync, and closing
+// hedges closes those positions.
+
+export type PositionSide = typeof POSITION_SIDES[keyof typeof POSITION_SIDES]
+
+export interface HedgeHolding {
+  symbol: string
+  quantity: number // signed, in the market's position units
+  correlation: number // 1 for offsetting perps
+}
+
+export interface AssetDelta {
+  symbol: string
+  side: PositionSide
+  systemSize: number
+  hedgedSize: number
+  netSize: number
+  price: number
+  deltaUsd: number // signed
+  exposurePercent: number // signed % of TVL, after hedges
+  unhedgedExposurePercent: number
+}
+
+export interface PoolDelta {
+  assets: AssetDelta[]
+  proxies: HedgeHolding[]
+  proxyExposurePercent: number // signed, correlation-weighted
+  netDeltaUsd: number
+  grossDeltaUsd: number
+  netExposurePercent: number
+  grossExposurePercent: number
+  nav: number
+}
+
+export interface HedgeOrder {
+  id: string
+  kind: 'offset' | 'proxy'
+  symbol: string
+  hedgeFor: string // the asset being offset, or 'POOL' for the aggregate
+  side: 'buy' | 'sell'
+  quantity: number // signed
+  price: number
+  notional: number
+  correlation: number
+  exposureReduction: number // percentage points of TVL
+  fee: number
+  funding: number // paid over the horizon; negative when received
+  cost: number
+}
+
+export interface HedgeOptions {
+  targetExposure?: number // per asset, % of TVL
+  aggregateLimit?: number // net, % of TVL
+}
+
+export interface HedgePlan {
+  id: string
+  createdAt: number
+  targetExposure: number
+  aggregateLimit: number
+  orders: HedgeOrder[]
+  before: PoolDelta
+  after: PoolDelta
+  totalNotional: number
+  totalFee: number
+  totalFunding: number
+  totalCost: number
+  withinLimits: boolean // after the batch
+}
+
+export type HedgeOrderStatus = 'simulated' | 'filled' | 'failed'
+
+export interface HedgeOrderResult extends HedgeOrder {
+  status: HedgeOrderStatus
+  txHash?: string
+  error?: string
+}
+
+export interface HedgeBatch {
+  id: string
+  planId: string
+  mode: 'simulated' | 'submitted'
+  status: 'completed' | 'partial' | 'failed'
+  createdAt: number
+  orders: HedgeOrderResult[]
+  totalCost: number
+  netExposureAfter: number
+}
+
+interface HedgeBook {
+  holdings: HedgeHolding[]
+  batches: HedgeBatch[]
+}
+
+type HedgeListener = () => void
+
+const STORAGE_KEY = 'riverbit_pool_hedges'
+const MAX_BATCHES = 20
+const FUNDING_INTERVAL_HOURS = 8
+const EPSILON = 1e-9
+
+function getMarketPrice(symbol: string, positions: PoolPosition[]): number {
+  return positions.find(position => position.symbol === symbol)?.currentPrice
+    ?? xStockPairs.find(pair => pair.symbol === symbol)?.price
+    ?? 0
+}
+
+// Per 8h; positive means longs pay
+function getFundingRate(symbol: string): number {
+  return xStockPairs.find(pair => pair.symbol === symbol)?.fundingRate ?? 0
+}
+
+function getReportedExposure(position: PoolPosition, nav: number): number {
+  const reported = systemPositions.find(item => item.symbol === position.symbol)?.exposurePercent
+  if (reported !== undefined) return Math.abs(reported)
+  return nav > 0 ? Math.abs(position.netSize * position.currentPrice) / nav * 100 : 0
+}
+
+// Exposure points per dollar of notional across the unhedged book; used to
+// convert proxy notional into exposure on the same scale as the snapshot
+function getExposurePerUsd(positions: PoolPosition[], nav: number): number {
+  const grossUsd = positions.reduce((total, position) => total + Math.abs(position.netSize * position.currentPrice), 0)
+  const grossExposure = positions.reduce((total, position) => total + getReportedExposure(position, nav), 0)
+  return grossUsd > 0 ? grossExposure / grossUsd : 0
+}
+
+export function estimateHedgeCost(symbol: string, signedNotional: number): { fee: number; funding: number; cost: number } {
+  const fee = Math.abs(signedNotional) * TRADING_CONFIG.TRADING_FEE_RATE
+  const funding = signedNotional * getFundingRate(symbol) * HEDGE_POLICY.FUNDING_HORIZON_HOURS / FUNDING_INTERVAL_HOURS
+  return { fee, funding, cost: fee + funding }
+}
+
+export function computePoolDelta(positions: PoolPosition[], holdings: HedgeHolding[], nav: number): PoolDelta {
+  const held = new Set(positions.map(position => position.symbol))
+
+  const assets: AssetDelta[] = positions.map(position => {
+    const hedgedSize = holdings
+      .filter(holding => holding.symbol === position.symbol)
+      .reduce((total, holding) => total + holding.quantity, 0)
+    const netSize = position.netSize + hedgedSize
+    const unhedged = getReportedExposure(position, nav)
+    const scale = position.netSize !== 0 ? Math.abs(netSize / position.netSize) : 0
+    return {
+      symbol: position.symbol,
+      side: netSize >= 0 ? POSITION_SIDES.NET_LONG : POSITION_SIDES.NET_SHORT,
+      systemSize: position.netSize,
+      hedgedSize,
+      netSize,
+      price: position.currentPrice,
+      deltaUsd: netSize * position.currentPrice,
+      exposurePercent: Math.sign(netSize) * unhedged * scale,
+      unhedgedExposurePercent: Math.sign(position.netSize) * unhedged
+    }
+  })
+
+  const proxies = holdings.filter(holding => !held.has(holding.symbol) && Math.abs(holding.quantity) > EPSILON)
+  const exposurePerUsd = getExposurePerUsd(positions, nav)
+  const proxyDeltaUsd = proxies.reduce((total, holding) => total + holding.quantity * getMarketPrice(holding.symbol, positions), 0)
+  const proxyExposurePercent = proxies.reduce((total, holding) =>
+    total + holding.quantity * getMarketPrice(holding.symbol, positions) * holding.correlation * exposurePerUsd, 0)
+
+  return {
+    assets,
+    proxies,
+    proxyExposurePercent,
+    netDeltaUsd: assets.reduce((total, asset) => total + asset.deltaUsd, 0) + proxyDeltaUsd,
+    grossDeltaUsd: assets.reduce((total, asset) => total + Math.abs(asset.deltaUsd), 0) + Math.abs(proxyDeltaUsd),
+    netExposurePercent: assets.reduce((total, asset) => total + asset.exposurePercent, 0) + proxyExposurePercent,
+    grossExposurePercent: assets.reduce((total, asset) => total + Math.abs(asset.exposurePercent), 0) + Math.abs(proxyExposurePercent),
+    nav
+  }
+}
+
+export function isWithinLimits(delta: PoolDelta, targetExposure: number, aggregateLimit: number): boolean {
+  return delta.assets.every(asset => Math.abs(asset.exposurePercent) <= targetExposure + EPSILON) &&
+    Math.abs(delta.netExposurePercent) <= aggregateLimit + EPSILON
+}
+
+function buildOrder(
+  kind: HedgeOrder['kind'],
+  symbol: string,
+  hedgeFor: string,
+  quantity: number,
+  price: number,
+  correlation: number,
+  exposureReduction: number
+): HedgeOrder {
+  const notional = Math.abs(quantity * price)
+  const { fee, funding, cost } = estimateHedgeCost(symbol, quantity * price)
+  return {
+    id: `${kind}:${symbol}`,
+    kind,
+    symbol,
+    hedgeFor,
+    side: quantity > 0 ? 'buy' : 'sell',
+    quantity,
+    price,
+    notional,
+    correlation,
+    exposureReduction,
+    fee,
+    funding,
+    cost
+  }
+}
+
+// Cheapest market the pool does not hold whose correlation to the book is high enough
+function pickProxy(positions: PoolPosition[], signedNotional: number): { symbol: string; correlation: number } | null {
+  const held = new Set(positions.map(position => position.symbol))
+  const weights = positions.map(position => Math.abs(position.netSize * position.currentPrice))
+  const totalWeight = weights.reduce((total, weight) => total + weight, 0)
+
+  const candidates = xStockPairs
+    .filter(pair => !held.has(pair.symbol) && pair.price > 0)
+    .map(pair => {
+      // Notional-weighted correlation to the markets in the book
+      const correlation = totalWeight > 0
+        ? positions.reduce((total, position, index) =>
+          total + (correlationEngine.getCorrelation(pair.symbol, position.symbol) ?? HEDGE_POLICY.DEFAULT_PROXY_CORRELATION) * weights[index], 0) / totalWeight
+        : HEDGE_POLICY.DEFAULT_PROXY_CORRELATION
+      return { symbol: pair.symbol, correlation, cost: estimateHedgeCost(pair.symbol, signedNotional).cost }
+    })
+    .filter(candidate => candidate.correlation >= HEDGE_POLICY.MIN_PROXY_CORRELATION)
+    .sort((a, b) => a.cost / a.correlation - b.cost / b.correlation)
+
+  return candidates[0] ?? null
+}
+
+export function recommendHedges(
+  positions: PoolPosition[],
+  holdings: HedgeHolding[],
+  nav: number,
+  options: HedgeOptions = {}
+): HedgePlan {
+  const targetExposure = options.targetExposure ?? RISK_THRESHOLDS.EXPOSURE_NORMAL
+  const aggregateLimit = options.aggregateLimit ?? RISK_THRESHOLDS.EXPOSURE_MAX
+  const before = computePoolDelta(positions, holdings, nav)
+  const orders: HedgeOrder[] = []
+
+  // Offsetting perps: shrink each asset back to the per-asset target
+  before.assets.forEach(asset => {
+    const exposure = Math.abs(asset.exposurePercent)
+    if (exposure <= targetExposure + EPSILON || asset.netSize === 0) return
+    const fraction = (exposure - targetExposure) / exposure
+    const quantity = -asset.netSize * fraction
+    if (Math.abs(quantity * asset.price) < HEDGE_POLICY.MIN_HEDGE_NOTIONAL) return
+    orders.push(buildOrder('offset', asset.symbol, asset.symbol, quantity, asset.price, 1, exposure - targetExposure))
+  })
+
+  // Proxy: trim whatever aggregate net exposure the offsets leave above the limit
+  const withOffsets = computePoolDelta(positions, [...holdings, ...orders.map(toHolding)], nav)
+  const excess = Math.abs(withOffsets.netExposurePercent) - aggregateLimit
+  const exposurePerUsd = getExposurePerUsd(positions, nav)
+  if (excess > EPSILON && exposurePerUsd > 0) {
+    const direction = -Math.sign(withOffsets.netExposurePercent)
+    const proxy = pickProxy(positions, direction * excess / exposurePerUsd)
+    if (proxy) {
+      const notional = excess / (proxy.correlation * exposurePerUsd)
+      const price = getMarketPrice(proxy.symbol, positions)
+      if (notional >= HEDGE_POLICY.MIN_HEDGE_NOTIONAL) {
+        orders.push(buildOrder('proxy', proxy.symbol, 'POOL', direction * notional / price, price, proxy.correlation, excess))
+      }
+    }
+  }
+
+  const after = computePoolDelta(positions, [...holdings, ...orders.map(toHolding)], nav)
+  const createdAt = Date.now()
+  return {
+    id: `hedge_${createdAt}_${Math.random().toString(36).slice(2, 8)}`,
+    createdAt,
+    targetExposure,
+    aggregateLimit,
+    orders,
+    before,
+    after,
+    totalNotional: orders.reduce((total, order) => total + order.notional, 0),
+    totalFee: orders.reduce((total, order) => total + order.fee, 0),
+    totalFunding: orders.reduce((total, order) => total + order.funding, 0),
+    totalCost: orders.reduce((total, order) => total + order.cost, 0),
+    withinLimits: isWithinLimits(after, targetExposure, aggregateLimit)
+  }
+}
+
+function toHolding(order: HedgeOrder): HedgeHolding {
+  return { symbol: order.symbol, quantity: order.quantity, correlation: order.correlation }
+}
+
+export class HedgeRecommender {
+  private static instance: HedgeRecommender
+  private book: HedgeBook
+  private listeners = new Set<HedgeListener>()
+
+  private constructor() {
+    this.book = this.load() ?? { holdings: [], batches: [] }
+    // Proxy selection reads live correlations; start() is a no-op if already running
+    correlationEngine.start()
+  }
+
+  static getInstance(): HedgeRecommender {
+    if (!HedgeRecommender.instance) {
+      HedgeRecommender.instance = new HedgeRecommender()
+    }
+    return HedgeRecommender.instance
+  }
+
+  getHedges(): HedgeHolding[] {
+    return this.book.holdings.map(holding => ({ ...holding }))
+  }
+
+  // Newest first
+  getBatches(): HedgeBatch[] {
+    return [...this.book.batches]
+  }
+
+  getDelta(): PoolDelta {
+    return computePoolDelta(poolAccounting.getPositions(), this.book.holdings, poolAccounting.getNav().nav)
+  }
+
+  recommend(options: HedgeOptions = {}): HedgePlan {
+    return recommendHedges(poolAccounting.getPositions(), this.book.holdings, poolAccounting.getNav().nav, options)
+  }
+
+  // Dry run: records the batch as if every order filled at the quoted price
+  simulate(plan: HedgePlan): HedgeBatch {
+    return this.record(plan, 'simulated', plan.orders.map(order => ({ ...order, status: 'simulated' })), plan.after.netExposurePercent)
+  }
+
+  // Sends each order through the chain adapter from the operator wallet; a
+  // failed order does not stop the rest of the batch. The adapter fills at its
+  // own price, so the book is re-read from chain once the orders are sent.
+  async submit(plan: HedgePlan): Promise<HedgeBatch> {
+    if (plan.orders.length === 0) throw new Error('Hedge plan has no orders')
+    const adapter = getChainAdapter()
+    if (!adapter.isConnected()) throw new Error('Connect the operator wallet to submit hedges')
+
+    const results: HedgeOrderResult[] = []
+    for (const order of plan.orders) {
+      try {
+        const tx = await adapter.openPosition(order.symbol, order.quantity * order.price, HEDGE_POLICY.LEVERAGE)
+        const receipt = await tx.wait()
+        if (receipt.status !== 'success') throw new Error(`Transaction ${tx.hash} reverted`)
+        this.addHolding(toHolding(order))
+        results.push({ ...order, status: 'filled', txHash: tx.hash })
+      } catch (error) {
+        results.push({ ...order, status: 'failed', error: error instanceof Error ? error.message : String(error) })
+      }
+    }
+
+    // Replaces the quoted quantities added above with the filled positions
+    if (results.some(result => result.status === 'filled')) await this.syncFromChain()
+    return this.record(plan, 'submitted', results, this.getDelta().netExposurePercent)
+  }
+
+  // Rebuilds the hedge book from the operator wallet's positions in the hedge markets
+  async syncFromChain(): Promise<void> {
+    const adapter = getChainAdapter()
+    const operator = adapter.getAddress()
+    if (!operator) return
+    try {
+      const positions = await adapter.getPositions(operator)
+      const held = new Set(poolAccounting.getPositions().map(position => position.symbol))
+      const markets = [...held, ...xStockPairs.map(pair => pair.symbol)]
+      const holdings = positions.flatMap(position => {
+        const symbol = markets.find(market => toCandleSymbol(market) === toCandleSymbol(position.market))
+        const size = parseFloat(position.size)
+        if (!symbol || !(size > EPSILON)) return []
+        const existing = this.book.holdings.find(holding => holding.symbol === symbol)
+        return [{
+          symbol,
+          quantity: position.side === 'buy' ? size : -size,
+          correlation: existing?.correlation ?? (held.has(symbol) ? 1 : HEDGE_POLICY.DEFAULT_PROXY_CORRELATION)
+        }]
+      })
+      this.book = { ...this.book, holdings }
+      this.save()
+      this.notify()
+    } catch (error) {
+      console.error('Failed to sync hedges from chain:', error)
+    }
+  }
+
+  // Closes every hedge position on chain, then re-reads what is left; returns
+  // the symbols that failed to close
+  async closeHedges(): Promise<string[]> {
+    const adapter = getChainAdapter()
+    if (!adapter.isConnected()) throw new Error('Connect the operator wallet to close hedges')
+
+    const failed: string[] = []
+    for (const holding of this.book.holdings) {
+      try {
+        const price = await adapter.getAssetPrice(holding.symbol)
+        const tx = await adapter.closePosition(holding.symbol, holding.quantity * price)
+        const receipt = await tx.wait()
+        if (receipt.status !== 'success') throw new Error(`Transaction ${tx.hash} reverted`)
+      } catch (error) {
+        console.error(`Failed to close ${holding.symbol} hedge:`, error)
+        failed.push(holding.symbol)
+      }
+    }
+
+    await this.syncFromChain()
+    return failed
+  }
+
+  subscribe(listener: HedgeListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private addHolding(hedge: HedgeHolding) {
+    const existing = this.book.holdings.find(holding => holding.symbol === hedge.symbol)
+    const holdings = existing
+      ? this.book.holdings.map(holding => holding === existing
+        ? { ...holding, quantity: holding.quantity + hedge.quantity, correlation: hedge.correlation }
+        : holding)
+      : [...this.book.holdings, hedge]
+    this.book = { ...this.book, holdings: holdings.filter(holding => Math.abs(holding.quantity) > EPSILON) }
+  }
+
+  private record(plan: HedgePlan, mode: HedgeBatch['mode'], orders: HedgeOrderResult[], netExposureAfter: number): HedgeBatch {
+    const failed = orders.filter(order => order.status === 'failed').length
+    const createdAt = Date.now()
+    const batch: HedgeBatch = {
+      id: `hb_${createdAt}_${Math.random().toString(36).slice(2, 8)}`,
+      planId: plan.id,
+      mode,
+      status: failed === 0 ? 'completed' : failed === orders.length ? 'failed' : 'partial',
+      createdAt,
+      orders,
+      totalCost: orders.filter(order => order.status !== 'failed').reduce((total, order) => total + order.cost, 0),
+      netExposureAfter
+    }
+    this.book = { ...this.book, batches: [batch, ...this.book.batches].slice(0, MAX_BATCHES) }
+    this.save()
+    this.notify()
+    return batch
+  }
+
+  private load(): HedgeBook | null {
+    try {
+      if (typeof localStorage === 'undefined') return null
+      const stored = localStorage.getItem(STORAGE_KEY)
+      if (!stored) return null
+      const book = JSON.parse(stored) as HedgeBook
+      return { holdings: book.holdings ?? [], batches: book.batches ?? [] }
+    } catch (error) {
+      console.error('Failed to load hedge book:', error)
+      return null
+    }
+  }
+
+  private save() {
+    try {
+      if (typeof localStorage === 'undefined') return
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.book))
+    } catch (error) {
+      console.error('Failed to save hedge book:', error)
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => {
+      try {
+        listener()
+      } catch (error) {
+        console.error('Hedge recommender listener failed:', error)
+      }
+    })
+  }
+}
+
+export const hedgeRecommender = HedgeRecommender.getInstance()
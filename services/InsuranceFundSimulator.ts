@@ -0,0 +1,350 @@
+import {
+  COUNTERPARTY_LEVERAGE_BUCKETS,
+  LIQUIDATION_POLICY,
+  RISK_EVENT_TYPES,
+  RISK_THRESHOLDS
+} from '../constants/riverPoolConstants'
+import { xStockPairs } from '../data/riverPoolData'
+import { computeNav, poolAccounting, type PoolLedger, type PoolPosition } from './PoolAccounting'
+
+// Insurance fund and auto-deleveraging (ADL) scenario runs for RiverPool.
+// Each market's open interest is split into trader longs and shorts whose net
+// is the opposite of the pool's system position, spread across leverage
+// buckets and entered at the pool's average price. A scenario shocks prices,
+// liquidates every account below maintenance margin and draws bankrupt
+// accounts' shortfall from the insurance fund. Whatever the fund cannot cover
+// is recovered by haircutting profitable accounts in ADL order (profit ratio
+// times effective leverage), and anything left is socialized onto rLP holders.
+// Fund draws and liquidation fees move collateral and the ring-fenced fund
+// together, so only the pool's mark-to-market and socialized losses move NAV.
+
+export type RiskEventType = typeof RISK_EVENT_TYPES[keyof typeof RISK_EVENT_TYPES]
+
+export interface ShockScenario {
+  id: string
+  name: string
+  shocks?: Record<string, number> // fractional move per symbol
+  marketShock?: number // fractional move for symbols without an explicit shock
+}
+
+export interface SimulationOptions {
+  insuranceFund?: number // overrides the ledger's fund, e.g. to start depleted
+  now?: number
+}
+
+export interface CounterpartyAccount {
+  id: string
+  symbol: string
+  side: 'long' | 'short'
+  leverage: number
+  size: number // signed base units
+  entryPrice: number
+  margin: number
+}
+
+export interface CounterpartyOutcome extends CounterpartyAccount {
+  markPrice: number
+  pnl: number
+  equity: number
+  liquidated: boolean
+  liquidationFee: number // paid into the insurance fund
+  shortfall: number // bankrupt equity the fund has to cover
+}
+
+export interface AdlFill {
+  rank: number
+  accountId: string
+  symbol: string
+  side: 'long' | 'short'
+  leverage: number
+  pnl: number
+  score: number
+  haircut: number // profit given up to cover the deficit
+}
+
+export interface SymbolImpact {
+  symbol: string
+  shock: number
+  priceBefore: number
+  priceAfter: number
+  poolPnl: number // change in the pool's mark-to-market
+  liquidatedNotional: number
+  shortfall: number
+  netSizeBefore: number
+  netSizeAfter: number // after the pool absorbs liquidated positions
+  exposurePercentAfter: number // % of NAV after the scenario
+}
+
+export interface ScenarioEvent {
+  type: RiskEventType
+  symbol: string // 'ALL' for pool-wide events
+  value: number // USDC drawn or haircut, or % for exposure and drawdown
+}
+
+export interface ScenarioResult {
+  id: string
+  scenario: ShockScenario
+  runAt: number
+  symbols: SymbolImpact[]
+  liquidations: CounterpartyOutcome[]
+  insuranceFundBefore: number
+  liquidationFees: number
+  shortfall: number
+  insuranceDraw: number
+  insuranceFundAfter: number
+  fundDepleted: boolean
+  adl: AdlFill[]
+  adlCovered: number
+  socializedLoss: number // deficit left after ADL, borne by rLP holders
+  poolPnl: number
+  navBefore: number
+  navAfter: number
+  navImpact: number
+  navImpactPercent: number
+  rLPPriceBefore: number
+  rLPPriceAfter: number
+  events: ScenarioEvent[]
+}
+
+type SimulatorListener = () => void
+
+const MAX_RUNS = 20
+
+export const DEFAULT_SHOCK_SCENARIOS: ShockScenario[] = [
+  { id: 'selloff', name: 'xStocks -15%', marketShock: -0.15 },
+  { id: 'crash', name: 'xStocks -35%', marketShock: -0.35 },
+  { id: 'flash-crash', name: 'Flash crash -60%', marketShock: -0.6 },
+  { id: 'squeeze', name: 'Short squeeze +40%', marketShock: 0.4 },
+  { id: 'nvda-gap', name: 'xNVDA gap -40%, others -5%', shocks: { 'xNVDA-PERP': -0.4 }, marketShock: -0.05 }
+]
+
+export function getScenarioShock(scenario: ShockScenario, symbol: string): number {
+  return scenario.shocks?.[symbol] ?? scenario.marketShock ?? 0
+}
+
+// Trader accounts on both sides of each market; traders net to the opposite of the pool
+export function buildCounterpartyBook(positions: PoolPosition[]): CounterpartyAccount[] {
+  return positions.flatMap(position => {
+    const traderNet = -position.netSize * position.avgPrice
+    const openInterest = xStockPairs.find(pair => pair.symbol === position.symbol)?.openInterest ?? 0
+    const gross = Math.max(openInterest, Math.abs(traderNet))
+    const sides = [
+      { side: 'long' as const, notional: (gross + traderNet) / 2 },
+      { side: 'short' as const, notional: (gross - traderNet) / 2 }
+    ]
+
+    return sides.flatMap(({ side, notional }) => notional <= 0 ? [] : COUNTERPARTY_LEVERAGE_BUCKETS.map(bucket => {
+      const bucketNotional = notional * bucket.weight
+      return {
+        id: `${position.symbol}:${side}:${bucket.leverage}x`,
+        symbol: position.symbol,
+        side,
+        leverage: bucket.leverage,
+        size: (side === 'long' ? 1 : -1) * bucketNotional / position.avgPrice,
+        entryPrice: position.avgPrice,
+        margin: bucketNotional / bucket.leverage
+      }
+    }))
+  })
+}
+
+function settleAccount(account: CounterpartyAccount, markPrice: number): CounterpartyOutcome {
+  const pnl = account.size * (markPrice - account.entryPrice)
+  const equity = account.margin + pnl
+  const notional = Math.abs(account.size) * markPrice
+  const liquidated = equity < notional * LIQUIDATION_POLICY.MAINTENANCE_MARGIN_RATE
+  return {
+    ...account,
+    markPrice,
+    pnl,
+    equity,
+    liquidated,
+    liquidationFee: liquidated && equity > 0 ? Math.min(equity, notional * LIQUIDATION_POLICY.LIQUIDATION_FEE_RATE) : 0,
+    shortfall: liquidated && equity < 0 ? -equity : 0
+  }
+}
+
+// Higher profit ratio and higher effective leverage are deleveraged first
+function adlScore(outcome: CounterpartyOutcome): number {
+  const notional = Math.abs(outcome.size) * outcome.markPrice
+  return (outcome.pnl / outcome.margin) * (notional / outcome.equity)
+}
+
+export function simulateScenario(
+  ledger: PoolLedger,
+  positions: PoolPosition[],
+  scenario: ShockScenario,
+  options: SimulationOptions = {}
+): ScenarioResult {
+  const runAt = options.now ?? Date.now()
+  const fundBefore = options.insuranceFund ?? ledger.insuranceFund
+  const startLedger: PoolLedger = {
+    ...ledger,
+    collateral: ledger.collateral - ledger.insuranceFund + fundBefore,
+    insuranceFund: fundBefore
+  }
+  const navBefore = computeNav(startLedger, positions)
+
+  const shocked = positions.map(position => ({
+    ...position,
+    currentPrice: position.currentPrice * (1 + getScenarioShock(scenario, position.symbol))
+  }))
+  const markPrices = new Map(shocked.map(position => [position.symbol, position.currentPrice]))
+  const outcomes = buildCounterpartyBook(positions).map(account => settleAccount(account, markPrices.get(account.symbol) ?? account.entryPrice))
+  const liquidations = outcomes.filter(outcome => outcome.liquidated)
+
+  // Fees land in the fund before it pays out shortfalls
+  const liquidationFees = liquidations.reduce((total, outcome) => total + outcome.liquidationFee, 0)
+  const shortfall = liquidations.reduce((total, outcome) => total + outcome.shortfall, 0)
+  const insuranceDraw = Math.min(shortfall, fundBefore + liquidationFees)
+  const insuranceFundAfter = fundBefore + liquidationFees - insuranceDraw
+  let deficit = shortfall - insuranceDraw
+
+  const adl: AdlFill[] = []
+  const candidates = outcomes
+    .filter(outcome => !outcome.liquidated && outcome.pnl > 0)
+    .map(outcome => ({ outcome, score: adlScore(outcome) }))
+    .sort((a, b) => b.score - a.score)
+  for (const { outcome, score } of candidates) {
+    if (deficit <= 0) break
+    const haircut = Math.min(outcome.pnl, deficit)
+    deficit -= haircut
+    adl.push({
+      rank: adl.length + 1,
+      accountId: outcome.id,
+      symbol: outcome.symbol,
+      side: outcome.side,
+      leverage: outcome.leverage,
+      pnl: outcome.pnl,
+      score,
+      haircut
+    })
+  }
+  const adlCovered = adl.reduce((total, fill) => total + fill.haircut, 0)
+  const socializedLoss = Math.max(deficit, 0)
+
+  const endLedger: PoolLedger = {
+    ...startLedger,
+    collateral: startLedger.collateral + liquidationFees - insuranceDraw - socializedLoss,
+    insuranceFund: insuranceFundAfter
+  }
+  const navAfter = computeNav(endLedger, shocked)
+  const navImpact = navAfter.nav - navBefore.nav
+
+  const symbols: SymbolImpact[] = positions.map((position, index) => {
+    const priceAfter = shocked[index].currentPrice
+    const liquidated = liquidations.filter(outcome => outcome.symbol === position.symbol)
+    const netSizeAfter = position.netSize + liquidated.reduce((total, outcome) => total + outcome.size, 0)
+    return {
+      symbol: position.symbol,
+      shock: getScenarioShock(scenario, position.symbol),
+      priceBefore: position.currentPrice,
+      priceAfter,
+      poolPnl: position.netSize * (priceAfter - position.currentPrice),
+      liquidatedNotional: liquidated.reduce((total, outcome) => total + Math.abs(outcome.size) * priceAfter, 0),
+      shortfall: liquidated.reduce((total, outcome) => total + outcome.shortfall, 0),
+      netSizeBefore: position.netSize,
+      netSizeAfter,
+      exposurePercentAfter: navAfter.nav > 0 ? Math.abs(netSizeAfter * priceAfter) / navAfter.nav * 100 : 0
+    }
+  })
+  const navImpactPercent = navBefore.nav > 0 ? navImpact / navBefore.nav * 100 : 0
+
+  const events: ScenarioEvent[] = []
+  if (insuranceDraw > 0) events.push({ type: RISK_EVENT_TYPES.INSURANCE_DRAW, symbol: 'ALL', value: insuranceDraw })
+  if (adl.length > 0) events.push({ type: RISK_EVENT_TYPES.ADL_TRIGGERED, symbol: 'ALL', value: adlCovered })
+  symbols
+    .filter(impact => impact.exposurePercentAfter >= RISK_THRESHOLDS.EXPOSURE_WARNING)
+    .forEach(impact => events.push({ type: RISK_EVENT_TYPES.EXPOSURE_WARNING, symbol: impact.symbol, value: impact.exposurePercentAfter }))
+  if (-navImpactPercent >= RISK_THRESHOLDS.DRAWDOWN_YELLOW) {
+    events.push({ type: RISK_EVENT_TYPES.DRAWDOWN_ALERT, symbol: 'ALL', value: -navImpactPercent })
+  }
+
+  return {
+    id: `run_${runAt}_${Math.random().toString(36).slice(2, 8)}`,
+    scenario,
+    runAt,
+    symbols,
+    liquidations,
+    insuranceFundBefore: fundBefore,
+    liquidationFees,
+    shortfall,
+    insuranceDraw,
+    insuranceFundAfter,
+    fundDepleted: insuranceFundAfter <= 0 && shortfall > 0,
+    adl,
+    adlCovered,
+    socializedLoss,
+    poolPnl: symbols.reduce((total, impact) => total + impact.poolPnl, 0),
+    navBefore: navBefore.nav,
+    navAfter: navAfter.nav,
+    navImpact,
+    navImpactPercent,
+    rLPPriceBefore: navBefore.rLPPrice,
+    rLPPriceAfter: navAfter.rLPPrice,
+    events
+  }
+}
+
+export class InsuranceFundSimulator {
+  private static instance: InsuranceFundSimulator
+  private runs: ScenarioResult[] = []
+  private listeners = new Set<SimulatorListener>()
+
+  static getInstance(): InsuranceFundSimulator {
+    if (!InsuranceFundSimulator.instance) {
+      InsuranceFundSimulator.instance = new InsuranceFundSimulator()
+    }
+    return InsuranceFundSimulator.instance
+  }
+
+  getScenarios(): ShockScenario[] {
+    return [...DEFAULT_SHOCK_SCENARIOS]
+  }
+
+  // Newest first
+  getRuns(): ScenarioResult[] {
+    return [...this.runs]
+  }
+
+  // Runs against the live pool ledger; nothing is written back
+  run(scenario: ShockScenario, options: SimulationOptions = {}): ScenarioResult {
+    const result = simulateScenario(poolAccounting.getLedger(), poolAccounting.getPositions(), scenario, options)
+    this.runs = [result, ...this.runs].slice(0, MAX_RUNS)
+    this.notify()
+    return result
+  }
+
+  runAll(options: SimulationOptions = {}): ScenarioResult[] {
+    const ledger = poolAccounting.getLedger()
+    const positions = poolAccounting.getPositions()
+    const results = DEFAULT_SHOCK_SCENARIOS.map(scenario => simulateScenario(ledger, positions, scenario, options))
+    this.runs = [...[...results].reverse(), ...this.runs].slice(0, MAX_RUNS)
+    this.notify()
+    return results
+  }
+
+  clearRuns() {
+    this.runs = []
+    this.notify()
+  }
+
+  subscribe(listener: SimulatorListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => {
+      try {
+        listener()
+      } catch (error) {
+        console.error('Insurance fund simulator listener failed:', error)
+      }
+    })
+  }
+}
+
+export const insuranceFundSimulator = InsuranceFundSimulator.getInstance()
@@ -0,0 +1,394 @@
+import type { Address } from 'viem'
+import type { Position } from '../constants/contractConstants'
+import type { EmergencyAction } from '../utils/tradingAssistant/riskManager'
+import { tradingService } from './TradingService'
+import { toCandleSymbol } from './CandleStore'
+
+// Turns risk-engine EmergencyActions into close/reduce tickets through the
+// trading service. Actions run highest priority first, one user at a time,
+// subject to a confirmation policy and per-action cooldowns. stop_trading and
+// liquidate_all also lock the account against new opening orders. Every
+// decision lands in an audit log.
+
+export type KillSwitchTrigger = 'risk' | 'manual' | 'hotkey'
+
+export type ConfirmationMode = 'always' | 'never' | 'threshold'
+
+export interface KillSwitchPolicy {
+  confirmation: ConfirmationMode
+  autoExecutePriority: number // threshold mode: actions at or above run without asking
+  cooldownMs: number // minimum gap between automated runs of the same action
+  lockDurationMs: number // trading lock after stop_trading / liquidate_all
+  reduceFraction: number // share of a position closed by reduce_leverage
+}
+
+export interface PlannedClose {
+  market: string
+  side: Position['side']
+  size: number
+  fraction: number
+}
+
+export type ConfirmHandler = (action: EmergencyAction, orders: PlannedClose[]) => Promise<boolean>
+
+export type KillSwitchStatus =
+  | 'executed'
+  | 'partial'
+  | 'failed'
+  | 'declined'
+  | 'cooldown'
+  | 'no_positions'
+
+export interface KillSwitchOrderResult extends PlannedClose {
+  nonce?: number
+  error?: string
+}
+
+export interface KillSwitchAuditEntry {
+  id: string
+  timestamp: number
+  user: Address
+  trigger: KillSwitchTrigger
+  action: EmergencyAction
+  status: KillSwitchStatus
+  orders: KillSwitchOrderResult[]
+  locked: boolean
+  message: string
+}
+
+export interface TradingLock {
+  until: number
+  reason: string
+  lockedAt: number
+}
+
+export interface ExecuteOptions {
+  trigger?: KillSwitchTrigger
+  confirmed?: boolean // caller already obtained confirmation (e.g. a dialog)
+}
+
+type KillSwitchListener = (entry: KillSwitchAuditEntry | null) => void
+
+interface PersistedState {
+  policy: KillSwitchPolicy
+  locks: Record<string, TradingLock>
+  audit: KillSwitchAuditEntry[]
+  lastRun: Record<string, number>
+}
+
+const STORAGE_KEY = 'riverbit_kill_switch'
+const MAX_AUDIT_ENTRIES = 500
+
+export const DEFAULT_KILL_SWITCH_POLICY: KillSwitchPolicy = {
+  confirmation: 'threshold',
+  autoExecutePriority: 9,
+  cooldownMs: 5 * 60 * 1000,
+  lockDurationMs: 24 * 60 * 60 * 1000,
+  reduceFraction: 0.5
+}
+
+// Browser confirm when available; headless callers must pass a handler or `confirmed`
+const defaultConfirm: ConfirmHandler = async (action, orders) => {
+  if (typeof window === 'undefined' || typeof window.confirm !== 'function') return false
+  const summary = orders.length > 0
+    ? orders.map(order => `${order.side === 'buy' ? 'Sell' : 'Buy'} ${order.size} ${order.market}`).join('\n')
+    : 'No orders; trading will be locked'
+  return window.confirm(`Emergency action: ${action.type}\n${action.reason}\n\n${summary}`)
+}
+
+export class KillSwitch {
+  private static instance: KillSwitch
+  private policy: KillSwitchPolicy = { ...DEFAULT_KILL_SWITCH_POLICY }
+  private locks: Record<string, TradingLock> = {}
+  private audit: KillSwitchAuditEntry[] = []
+  private lastRun: Record<string, number> = {}
+  private queues = new Map<string, Promise<unknown>>()
+  private listeners = new Set<KillSwitchListener>()
+  private confirmHandler: ConfirmHandler = defaultConfirm
+
+  private constructor() {
+    this.load()
+    tradingService.addOrderGuard(user => {
+      const lock = this.getLock(user)
+      return lock ? `Trading locked until ${new Date(lock.until).toLocaleString()}: ${lock.reason}` : null
+    })
+  }
+
+  static getInstance(): KillSwitch {
+    if (!KillSwitch.instance) {
+      KillSwitch.instance = new KillSwitch()
+    }
+    return KillSwitch.instance
+  }
+
+  getPolicy(): KillSwitchPolicy {
+    return { ...this.policy }
+  }
+
+  updatePolicy(updates: Partial<KillSwitchPolicy>) {
+    this.policy = {
+      ...this.policy,
+      ...updates,
+      reduceFraction: Math.min(Math.max(updates.reduceFraction ?? this.policy.reduceFraction, 0.01), 1)
+    }
+    this.save()
+    this.notify(null)
+  }
+
+  setConfirmHandler(handler: ConfirmHandler | null) {
+    this.confirmHandler = handler ?? defaultConfirm
+  }
+
+  // Run actions highest priority first; concurrent calls for one user queue up
+  execute(user: Address, actions: EmergencyAction[], options: ExecuteOptions = {}): Promise<KillSwitchAuditEntry[]> {
+    const key = user.toLowerCase()
+    const ordered = [...actions].sort((a, b) => b.priority - a.priority || a.timestamp - b.timestamp)
+
+    const run = (this.queues.get(key) ?? Promise.resolve()).then(async () => {
+      const entries: KillSwitchAuditEntry[] = []
+      for (const action of ordered) {
+        entries.push(await this.executeOne(user, action, options))
+      }
+      return entries
+    })
+
+    this.queues.set(key, run.catch(() => undefined))
+    return run
+  }
+
+  // Close everything and lock the account (Escape hotkey, panel button)
+  async emergencyStopAll(
+    user: Address,
+    reason: string,
+    options: ExecuteOptions = { trigger: 'manual', confirmed: true }
+  ): Promise<KillSwitchAuditEntry> {
+    const [entry] = await this.execute(user, [{
+      type: 'liquidate_all',
+      reason,
+      priority: 10,
+      timestamp: Date.now()
+    }], options)
+    return entry
+  }
+
+  lock(user: Address, durationMs: number, reason: string) {
+    const now = Date.now()
+    const existing = this.getLock(user)
+    this.locks[user.toLowerCase()] = {
+      until: Math.max(now + durationMs, existing?.until ?? 0),
+      reason,
+      lockedAt: now
+    }
+    this.save()
+    this.notify(null)
+  }
+
+  unlock(user: Address) {
+    delete this.locks[user.toLowerCase()]
+    this.save()
+    this.notify(null)
+  }
+
+  getLock(user: Address): TradingLock | null {
+    const lock = this.locks[user.toLowerCase()]
+    if (!lock) return null
+    if (lock.until <= Date.now()) {
+      delete this.locks[user.toLowerCase()]
+      this.save()
+      return null
+    }
+    return lock
+  }
+
+  isLocked(user: Address): boolean {
+    return this.getLock(user) !== null
+  }
+
+  getAuditLog(user?: Address): KillSwitchAuditEntry[] {
+    const entries = user
+      ? this.audit.filter(entry => entry.user.toLowerCase() === user.toLowerCase())
+      : this.audit
+    return [...entries].reverse()
+  }
+
+  // Called with each new audit entry, or null when policy or locks change
+  subscribe(listener: KillSwitchListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private async executeOne(
+    user: Address,
+    action: EmergencyAction,
+    options: ExecuteOptions
+  ): Promise<KillSwitchAuditEntry> {
+    const trigger = options.trigger ?? 'risk'
+    const cooldownKey = `${user.toLowerCase()}:${action.type}:${action.symbol ?? '*'}`
+    const lastRun = this.lastRun[cooldownKey]
+
+    // Cooldown only throttles automated re-fires; a person asking is always served
+    if (trigger === 'risk' && lastRun && Date.now() - lastRun < this.policy.cooldownMs) {
+      return this.record(user, trigger, action, 'cooldown', [], false,
+        `Skipped: ${action.type} ran ${Math.round((Date.now() - lastRun) / 1000)}s ago`)
+    }
+
+    let orders: PlannedClose[]
+    try {
+      orders = await this.planOrders(user, action)
+    } catch (error) {
+      return this.record(user, trigger, action, 'failed', [], false,
+        `Could not load positions: ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    if (!options.confirmed && this.requiresConfirmation(action)) {
+      let approved = false
+      try {
+        approved = await this.confirmHandler(action, orders)
+      } catch {
+        approved = false
+      }
+      if (!approved) {
+        // A declined automated action waits out the cooldown before asking again
+        this.lastRun[cooldownKey] = Date.now()
+        return this.record(user, trigger, action, 'declined', orders, false, 'Declined by user')
+      }
+    }
+
+    this.lastRun[cooldownKey] = Date.now()
+
+    const locks = action.type === 'stop_trading' || action.type === 'liquidate_all'
+    if (locks) {
+      this.lock(user, this.policy.lockDurationMs, action.reason)
+    }
+
+    if (orders.length === 0) {
+      const status = action.type === 'stop_trading' ? 'executed' : 'no_positions'
+      return this.record(user, trigger, action, status, [], locks,
+        locks ? 'Trading locked' : 'No matching open positions')
+    }
+
+    const results: KillSwitchOrderResult[] = []
+    for (const order of orders) {
+      try {
+        const { ticket } = await tradingService.closePosition({
+          userAddress: user,
+          market: order.market,
+          fraction: order.fraction
+        })
+        results.push({ ...order, nonce: ticket.nonce })
+      } catch (error) {
+        results.push({ ...order, error: error instanceof Error ? error.message : String(error) })
+      }
+    }
+
+    const failed = results.filter(result => result.error).length
+    const status: KillSwitchStatus = failed === 0 ? 'executed' : failed === results.length ? 'failed' : 'partial'
+    if (status === 'failed') {
+      // Nothing reached the book; let the next risk check retry immediately
+      delete this.lastRun[cooldownKey]
+    }
+    return this.record(user, trigger, action, status, results, locks,
+      `${results.length - failed}/${results.length} close orders submitted`)
+  }
+
+  private requiresConfirmation(action: EmergencyAction): boolean {
+    switch (this.policy.confirmation) {
+      case 'always': return true
+      case 'never': return false
+      case 'threshold': return action.priority < this.policy.autoExecutePriority
+    }
+  }
+
+  private async planOrders(user: Address, action: EmergencyAction): Promise<PlannedClose[]> {
+    if (action.type === 'stop_trading') return []
+
+    const positions = await tradingService.getOpenPositions(user)
+    const targets = action.type === 'liquidate_all' || !action.symbol
+      ? positions
+      : positions.filter(position => toCandleSymbol(position.market) === toCandleSymbol(action.symbol!))
+    const fraction = action.type === 'reduce_leverage' ? this.policy.reduceFraction : 1
+
+    return targets
+      .filter(position => parseFloat(position.size) > 0)
+      .map(position => ({
+        market: position.market,
+        side: position.side,
+        size: parseFloat(position.size) * fraction,
+        fraction
+      }))
+  }
+
+  private record(
+    user: Address,
+    trigger: KillSwitchTrigger,
+    action: EmergencyAction,
+    status: KillSwitchStatus,
+    orders: KillSwitchOrderResult[],
+    locked: boolean,
+    message: string
+  ): KillSwitchAuditEntry {
+    const entry: KillSwitchAuditEntry = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      timestamp: Date.now(),
+      user,
+      trigger,
+      action,
+      status,
+      orders,
+      locked,
+      message
+    }
+
+    this.audit.push(entry)
+    if (this.audit.length > MAX_AUDIT_ENTRIES) {
+      this.audit.splice(0, this.audit.length - MAX_AUDIT_ENTRIES)
+    }
+    this.save()
+    this.notify(entry)
+    return entry
+  }
+
+  private notify(entry: KillSwitchAuditEntry | null) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(entry)
+      } catch (error) {
+        console.error('Kill switch listener failed:', error)
+      }
+    })
+  }
+
+  private load() {
+    if (typeof localStorage === 'undefined') return
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY)
+      if (!raw) return
+      const state = JSON.parse(raw) as Partial<PersistedState>
+      this.policy = { ...DEFAULT_KILL_SWITCH_POLICY, ...state.policy }
+      this.locks = state.locks ?? {}
+      this.audit = state.audit ?? []
+      this.lastRun = state.lastRun ?? {}
+    } catch (error) {
+      console.warn('Failed to load kill switch state:', error)
+    }
+  }
+
+  private save() {
+    if (typeof localStorage === 'undefined') return
+    try {
+      const state: PersistedState = {
+        policy: this.policy,
+        locks: this.locks,
+        audit: this.audit,
+        lastRun: this.lastRun
+      }
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+    } catch (error) {
+      console.warn('Failed to persist kill switch state:', error)
+    }
+  }
+}
+
+export const killSwitch = KillSwitch.getInstance()
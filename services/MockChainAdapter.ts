@@ -0,0 +1,362 @@
+import { keccak256, stringToHex, type Address, type Hex, type SignTypedDataParameters } from 'viem'
+import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts'
+import { MARKET_CONFIG, SAUTH_DOMAIN, type Position } from '../constants/contractConstants'
+import { exchangeSimulator, type ExchangeSimulator } from './ExchangeSimulator'
+import { toCandleSymbol } from './CandleStore'
+import type {
+  ChainAccountInfo,
+  ChainAdapter,
+  ChainConnection,
+  ChainEvent,
+  ChainEventListener,
+  ChainPoolState,
+  ChainTransaction
+} from './ChainAdapter'
+
+// In-memory chain for demo mode and tests. Wallet USDC, allowances and the
+// liquidity pool live here; trading collateral and positions go through the
+// ExchangeSimulator. Transactions apply immediately with sequential blocks and
+// hashes derived from a counter, so identical call sequences give identical
+// results. Signatures come from a fixed local key.
+
+// Anvil/Hardhat default account #0 - public test key, never holds real funds
+export const MOCK_PRIVATE_KEY: Hex = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80'
+
+export interface MockChainOptions {
+  simulator?: ExchangeSimulator
+  privateKey?: Hex
+  chainId?: number
+  initialWalletBalance?: number // USDC in every wallet on first use
+  autoConnect?: boolean
+  clock?: () => number
+}
+
+type MarketSpec = (typeof MARKET_CONFIG.CRYPTO_MARKETS)[number] | (typeof MARKET_CONFIG.STOCK_MARKETS)[number]
+
+const ALL_MARKETS: MarketSpec[] = [...MARKET_CONFIG.CRYPTO_MARKETS, ...MARKET_CONFIG.STOCK_MARKETS]
+
+type PendingEvent = Omit<ChainEvent, 'txHash' | 'blockNumber' | 'timestamp'>
+
+export class MockChainAdapter implements ChainAdapter {
+  readonly backend = 'mock' as const
+  private simulator: ExchangeSimulator
+  private account: PrivateKeyAccount
+  private chainId: number
+  private initialWalletBalance: number
+  private clock: () => number
+  private connected: boolean
+  private wallets = new Map<string, number>()
+  private allowances = new Map<string, number>()
+  private tokenBalances = new Map<string, number>() // `${token}:${holder}`
+  private poolShares = new Map<string, number>()
+  private lastActivity = new Map<string, number>()
+  private pool = { totalValueLocked: 0, totalShares: 0, totalPnL: 0, insuranceFund: 0 }
+  private events: ChainEvent[] = []
+  private listeners = new Set<ChainEventListener>()
+  private blockNumber = 0
+  private txCount = 0
+
+  constructor(options: MockChainOptions = {}) {
+    this.simulator = options.simulator ?? exchangeSimulator
+    this.account = privateKeyToAccount(options.privateKey ?? MOCK_PRIVATE_KEY)
+    this.chainId = options.chainId ?? SAUTH_DOMAIN.chainId
+    this.initialWalletBalance = options.initialWalletBalance ?? 100_000
+    this.clock = options.clock ?? Date.now
+    this.connected = options.autoConnect ?? true
+  }
+
+  // ===== Wallet =====
+
+  async connect(): Promise<ChainConnection> {
+    this.connected = true
+    return { address: this.account.address, chainId: this.chainId }
+  }
+
+  disconnect() {
+    this.connected = false
+  }
+
+  isConnected(): boolean {
+    return this.connected
+  }
+
+  getAddress(): Address | null {
+    return this.connected ? this.account.address : null
+  }
+
+  getChainId(): number | null {
+    return this.connected ? this.chainId : null
+  }
+
+  async signTypedData(params: SignTypedDataParameters): Promise<Hex> {
+    this.requireAddress()
+    return this.account.signTypedData(params as Parameters<PrivateKeyAccount['signTypedData']>[0])
+  }
+
+  // ===== USDC =====
+
+  async getUSDCBalance(address: Address): Promise<number> {
+    return this.walletBalance(address)
+  }
+
+  async getTokenBalance(token: Address, address: Address): Promise<number> {
+    return this.tokenBalances.get(`${token.toLowerCase()}:${address.toLowerCase()}`) ?? 0
+  }
+
+  // Test helper: other tokens start at zero
+  setTokenBalance(token: Address, address: Address, amount: number) {
+    this.tokenBalances.set(`${token.toLowerCase()}:${address.toLowerCase()}`, amount)
+  }
+
+  async checkUSDCAllowance(address: Address): Promise<number> {
+    return this.allowances.get(address.toLowerCase()) ?? 0
+  }
+
+  async approveUSDC(amount: number): Promise<ChainTransaction> {
+    const user = this.requireAddress()
+    this.requirePositive(amount, 'Approval amount')
+    return this.transact(user, () => {
+      this.allowances.set(user.toLowerCase(), amount)
+      return []
+    })
+  }
+
+  // Test helper: mint wallet USDC like the testnet faucet
+  fund(address: Address, amount: number) {
+    this.wallets.set(address.toLowerCase(), this.walletBalance(address) + amount)
+  }
+
+  // Test helper: move a market's mark price
+  setPrice(symbol: string, price: number) {
+    this.simulator.updateMarkPrice(this.resolveMarket(symbol).symbol, price)
+  }
+
+  // ===== Trading account =====
+
+  async deposit(amount: number): Promise<ChainTransaction> {
+    const user = this.requireAddress()
+    this.requirePositive(amount, 'Deposit amount')
+    return this.transact(user, () => {
+      this.spendWallet(user, amount)
+      this.simulator.deposit(user, amount)
+      return [{ type: 'Deposit', user, amount }]
+    })
+  }
+
+  async withdraw(amount: number): Promise<ChainTransaction> {
+    const user = this.requireAddress()
+    this.requirePositive(amount, 'Withdraw amount')
+    return this.transact(user, () => {
+      this.simulator.withdraw(user, amount)
+      this.wallets.set(user.toLowerCase(), this.walletBalance(user) + amount)
+      return [{ type: 'Withdraw', user, amount }]
+    })
+  }
+
+  async getAccountInfo(address: Address): Promise<ChainAccountInfo> {
+    const info = this.simulator.getAccountInfo(address)
+    return {
+      balance: parseFloat(info.balance),
+      poolShares: this.poolShares.get(address.toLowerCase()) ?? 0,
+      totalMargin: parseFloat(info.usedMargin),
+      lastActivityTime: this.lastActivity.get(address.toLowerCase()) ?? 0
+    }
+  }
+
+  async getSAuthNonce(address: Address): Promise<number> {
+    return this.simulator.nonces(address)
+  }
+
+  // ===== Positions =====
+
+  async openPosition(symbol: string, size: number, leverage: number): Promise<ChainTransaction> {
+    const user = this.requireAddress()
+    const spec = this.resolveMarket(symbol)
+    const price = this.markPrice(spec)
+    if (!Number.isFinite(size) || size === 0) throw new Error('Position size must be non-zero')
+
+    return this.transact(user, () => {
+      const orderId = this.simulator.placeOrder({
+        user,
+        market: spec.symbol,
+        side: size > 0 ? 'buy' : 'sell',
+        size: Math.abs(size) / price,
+        orderType: 'market',
+        leverage
+      })
+      const filled = this.requireFill(user, orderId)
+      return [{ type: 'PositionOpened', user, symbol, size: Math.sign(size) * filled * price, price }]
+    })
+  }
+
+  // size 0 closes the whole position
+  async closePosition(symbol: string, size: number): Promise<ChainTransaction> {
+    const user = this.requireAddress()
+    const spec = this.resolveMarket(symbol)
+    const price = this.markPrice(spec)
+    const position = this.simulator.getPositions(user).find(p => p.market === spec.symbol)
+    if (!position) throw new Error(`No open position in ${spec.symbol}`)
+
+    const quantity = size === 0 ? position.size : Math.min(Math.abs(size) / price, position.size)
+    return this.transact(user, () => {
+      const balanceBefore = parseFloat(this.simulator.getAccountInfo(user).balance)
+      const orderId = this.simulator.placeOrder({
+        user,
+        market: spec.symbol,
+        side: position.side === 'buy' ? 'sell' : 'buy',
+        size: quantity,
+        orderType: 'market',
+        reduceOnly: true
+      })
+      const filled = this.requireFill(user, orderId)
+      const pnl = parseFloat(this.simulator.getAccountInfo(user).balance) - balanceBefore
+      const direction = position.side === 'buy' ? 1 : -1
+      return [{ type: 'PositionClosed', user, symbol, size: direction * filled * price, pnl }]
+    })
+  }
+
+  async getPosition(address: Address, symbol: string): Promise<number> {
+    const spec = this.resolveMarket(symbol)
+    const position = this.simulator.getPositions(address).find(p => p.market === spec.symbol)
+    if (!position) return 0
+    return (position.side === 'buy' ? 1 : -1) * position.size * this.markPrice(spec)
+  }
+
+  async getPositions(address: Address): Promise<Position[]> {
+    return this.simulator.getUserPositions(address)
+  }
+
+  async getAssetPrice(symbol: string): Promise<number> {
+    return this.markPrice(this.resolveMarket(symbol))
+  }
+
+  // ===== Liquidity pool =====
+
+  async depositToPool(amount: number): Promise<ChainTransaction> {
+    const user = this.requireAddress()
+    this.requirePositive(amount, 'Pool deposit')
+    return this.transact(user, () => {
+      this.spendWallet(user, amount)
+      const shares = amount / this.netAssetValue()
+      this.pool.totalValueLocked += amount
+      this.pool.totalShares += shares
+      this.poolShares.set(user.toLowerCase(), (this.poolShares.get(user.toLowerCase()) ?? 0) + shares)
+      return [{ type: 'PoolDeposit', user, amount, shares }]
+    })
+  }
+
+  async withdrawFromPool(shares: number): Promise<ChainTransaction> {
+    const user = this.requireAddress()
+    this.requirePositive(shares, 'Pool shares')
+    const held = this.poolShares.get(user.toLowerCase()) ?? 0
+    if (shares > held) throw new Error(`Insufficient pool shares: ${held} available`)
+
+    return this.transact(user, () => {
+      const amount = shares * this.netAssetValue()
+      this.pool.totalValueLocked -= amount
+      this.pool.totalShares -= shares
+      this.poolShares.set(user.toLowerCase(), held - shares)
+      this.wallets.set(user.toLowerCase(), this.walletBalance(user) + amount)
+      return [{ type: 'PoolWithdraw', user, amount, shares }]
+    })
+  }
+
+  async getPoolState(): Promise<ChainPoolState> {
+    return { ...this.pool, netAssetValue: this.netAssetValue() }
+  }
+
+  async getUserPoolValue(address: Address): Promise<number> {
+    return (this.poolShares.get(address.toLowerCase()) ?? 0) * this.netAssetValue()
+  }
+
+  // ===== Events =====
+
+  subscribe(listener: ChainEventListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  // Newest first, like the contract-backed adapters
+  async getHistoricalEvents(address: Address, fromBlock = 0): Promise<ChainEvent[]> {
+    return this.events
+      .filter(event => event.user.toLowerCase() === address.toLowerCase() && event.blockNumber >= fromBlock)
+      .reverse()
+  }
+
+  // ===== Internals =====
+
+  // Apply a state change as one mined transaction; throwing reverts before a hash exists
+  private transact(user: Address, apply: () => PendingEvent[]): ChainTransaction {
+    const pending = apply()
+    const hash = keccak256(stringToHex(`riverbit-mock:${this.chainId}:${++this.txCount}`))
+    const blockNumber = ++this.blockNumber
+    const timestamp = this.clock()
+    this.lastActivity.set(user.toLowerCase(), timestamp)
+
+    pending.forEach(event => {
+      const recorded: ChainEvent = { ...event, txHash: hash, blockNumber, timestamp }
+      this.events.push(recorded)
+      this.listeners.forEach(listener => {
+        try {
+          listener(recorded)
+        } catch (error) {
+          console.error('Mock chain listener failed:', error)
+        }
+      })
+    })
+
+    const receipt = { hash, blockNumber, status: 'success' as const }
+    return { hash, wait: async () => receipt }
+  }
+
+  private requireAddress(): Address {
+    if (!this.connected) throw new Error('Wallet not connected')
+    return this.account.address
+  }
+
+  private requirePositive(value: number, label: string) {
+    if (!(value > 0)) throw new Error(`${label} must be positive`)
+  }
+
+  private walletBalance(address: Address): number {
+    return this.wallets.get(address.toLowerCase()) ?? this.initialWalletBalance
+  }
+
+  // ERC-20 transferFrom semantics: needs both balance and allowance
+  private spendWallet(user: Address, amount: number) {
+    const key = user.toLowerCase()
+    const balance = this.walletBalance(user)
+    const allowance = this.allowances.get(key) ?? 0
+    if (amount > balance) throw new Error(`Insufficient USDC balance: ${balance} available`)
+    if (amount > allowance) throw new Error(`Insufficient USDC allowance: ${allowance} approved`)
+    this.wallets.set(key, balance - amount)
+    this.allowances.set(key, allowance - amount)
+  }
+
+  private requireFill(user: Address, orderId: number): number {
+    const order = this.simulator.getOrders(user).find(o => o.orderId === orderId)
+    if (!order || order.filledSize <= 0) {
+      throw new Error(`Order ${orderId} was not filled${order ? ` (${order.status})` : ''}`)
+    }
+    return order.filledSize
+  }
+
+  private resolveMarket(symbol: string): MarketSpec {
+    const base = toCandleSymbol(symbol)
+    const spec = ALL_MARKETS.find(market => market.baseAsset === base)
+    if (!spec) throw new Error(`Market ${symbol} not supported`)
+    return spec
+  }
+
+  private markPrice(spec: MarketSpec): number {
+    const price = this.simulator.getMarketPrice(spec.symbol).price
+    if (!(price > 0)) throw new Error(`No mark price for ${spec.symbol}`)
+    return price
+  }
+
+  private netAssetValue(): number {
+    return this.pool.totalShares > 0 ? this.pool.totalValueLocked / this.pool.totalShares : 1
+  }
+}
@@ -0,0 +1,541 @@
+import type { Address } from 'viem'
+import { isDemoMode } from '../config/wagmi'
+import {
+  MARKET_CONFIG,
+  TRADING_CONFIG,
+  type MarginMode,
+  type OrderSide,
+  type OrderType,
+  type SAuthTicket
+} from '../constants/contractConstants'
+import { LIMITS } from '../constants/tradingConstants'
+import {
+  riskManager,
+  DEFAULT_RISK_PARAMETERS,
+  type RiskParameters
+} from '../utils/tradingAssistant/riskManager'
+import type { AppError } from '../utils/errorHandling'
+import { tradingService } from './TradingService'
+import { exchangeSimulator, roundToIncrement } from './ExchangeSimulator'
+import { priceFeedService } from './PriceFeedService'
+import { economicCalendar } from './EconomicCalendar'
+import { killSwitch } from './KillSwitch'
+import { toCandleSymbol } from './CandleStore'
+
+// Single pre-trade check for every order path (forms, hotkeys, batch actions,
+// the AI execution engine). Resolves the market, rounds size to the step and
+// price to the tick, then applies the market spec, LIMITS, the user's
+// RiskParameters, account margin, kill-switch locks and event blackouts.
+// Failures come back as coded rejections the UI renders the same way everywhere.
+
+export type OrderSource =
+  | 'trading_form'
+  | 'enhanced_form'
+  | 'optimized_form'
+  | 'natural_form'
+  | 'mobile'
+  | 'batch'
+  | 'hotkey'
+  | 'execution_engine'
+  | 'api'
+
+export type OrderRejectionCode =
+  | 'UNKNOWN_MARKET'
+  | 'INVALID_ORDER_TYPE'
+  | 'INVALID_SIZE'
+  | 'INVALID_PRICE'
+  | 'INVALID_LEVERAGE'
+  | 'BELOW_MIN_SIZE'
+  | 'BELOW_MIN_NOTIONAL'
+  | 'ABOVE_MAX_NOTIONAL'
+  | 'LEVERAGE_EXCEEDED'
+  | 'POSITION_SIZE_EXCEEDED'
+  | 'EXPOSURE_EXCEEDED'
+  | 'MAX_POSITIONS'
+  | 'INSUFFICIENT_MARGIN'
+  | 'DAILY_LOSS_LIMIT'
+  | 'TRADING_LOCKED'
+  | 'EVENT_BLACKOUT'
+  | 'NO_REFERENCE_PRICE'
+  | 'WALLET_NOT_CONNECTED'
+
+export type OrderWarningCode =
+  | 'SIZE_ROUNDED'
+  | 'PRICE_ROUNDED'
+  | 'EVENT_SIZE_REDUCED'
+  | 'HIGH_MARGIN_UTILIZATION'
+  | 'NO_ACCOUNT_DATA'
+
+export interface OrderRejection {
+  code: OrderRejectionCode
+  message: string
+  field?: 'market' | 'size' | 'price' | 'leverage' | 'orderType' | 'account'
+  limit?: number
+  value?: number
+}
+
+export interface OrderWarning {
+  code: OrderWarningCode
+  message: string
+}
+
+export interface OrderAccountPosition {
+  market: string
+  side: OrderSide
+  size: number // base units
+  price: number // mark or entry price
+}
+
+// Margin and open positions; read from the simulator in demo mode when omitted
+export interface OrderAccountContext {
+  equity: number
+  freeMargin: number
+  positions: OrderAccountPosition[]
+}
+
+export interface OrderRequest {
+  userAddress?: Address
+  market: string // any form of the symbol: BTC, BTC/USDT, BTC-PERP, xAAPL
+  side: OrderSide
+  size: number | string
+  sizeUnit?: 'base' | 'quote' // quote = USD notional; defaults to base units
+  price?: number | string // limit price; the trigger for stop orders
+  stopPrice?: number | string // trigger for stop_limit orders
+  referencePrice?: number // current price when the caller already has one
+  orderType: OrderType
+  leverage: number
+  marginMode?: MarginMode
+  reduceOnly?: boolean
+  account?: OrderAccountContext
+  source: OrderSource
+}
+
+export interface NormalizedOrder {
+  market: string // MARKET_CONFIG symbol, e.g. BTC-PERP
+  side: OrderSide
+  size: number // base units, rounded down to the step
+  price?: number // rounded to the tick; market orders have none
+  stopPrice?: number // rounded to the tick; stop_limit orders only
+  referencePrice: number
+  notional: number
+  margin: number
+  orderType: OrderType
+  leverage: number
+  maxLeverage: number
+  marginMode: MarginMode
+  reduceOnly: boolean
+}
+
+export interface OrderCheckResult {
+  accepted: boolean
+  order: NormalizedOrder | null
+  rejections: OrderRejection[]
+  warnings: OrderWarning[]
+  source: OrderSource
+  checkedAt: number
+}
+
+export interface OrderGatewayConfig {
+  hardBlockEvents: string[] // event codes that block even when their calendar action is 'reduce'
+  marginWarningRatio: number // warn when used margin after the order exceeds this share of equity
+  requireAccount: boolean // reject risk-increasing orders when no account data is available
+}
+
+type MarketSpec = (typeof MARKET_CONFIG.CRYPTO_MARKETS)[number] | (typeof MARKET_CONFIG.STOCK_MARKETS)[number]
+
+const CRYPTO_MARKETS: readonly MarketSpec[] = MARKET_CONFIG.CRYPTO_MARKETS
+const ALL_MARKETS: readonly MarketSpec[] = [...MARKET_CONFIG.CRYPTO_MARKETS, ...MARKET_CONFIG.STOCK_MARKETS]
+
+export const DEFAULT_ORDER_GATEWAY_CONFIG: OrderGatewayConfig = {
+  hardBlockEvents: [],
+  marginWarningRatio: 0.9,
+  requireAccount: false
+}
+
+// Error thrown by submit(); code is the first rejection, details the full result
+export function toOrderRejectedError(result: OrderCheckResult): AppError {
+  const error = new Error(result.rejections.map(rejection => rejection.message).join('; ') || 'Order rejected') as AppError
+  error.code = result.rejections[0]?.code ?? 'ORDER_REJECTED'
+  error.details = result
+  return error
+}
+
+// Rejections carried by an error from submit(), or null for any other error
+export function getOrderRejections(error: unknown): OrderRejection[] | null {
+  const details = (error as AppError | undefined)?.details as OrderCheckResult | undefined
+  return details && Array.isArray(details.rejections) ? details.rejections : null
+}
+
+export class OrderGateway {
+  private static instance: OrderGateway
+  private config: OrderGatewayConfig = { ...DEFAULT_ORDER_GATEWAY_CONFIG }
+
+  private constructor() {
+    // Tickets are only issued for orders that pass here, whichever path places them
+    tradingService.setTicketCheck(request => {
+      const check = this.check(request)
+      if (!check.accepted || !check.order) {
+        throw toOrderRejectedError(check)
+      }
+      return check
+    })
+  }
+
+  static getInstance(): OrderGateway {
+    if (!OrderGateway.instance) {
+      OrderGateway.instance = new OrderGateway()
+    }
+    return OrderGateway.instance
+  }
+
+  getConfig(): OrderGatewayConfig {
+    return { ...this.config }
+  }
+
+  updateConfig(updates: Partial<OrderGatewayConfig>) {
+    this.config = { ...this.config, ...updates }
+  }
+
+  // MARKET_CONFIG entry for any spelling of a symbol
+  resolveMarket(market: string): MarketSpec | null {
+    const base = toCandleSymbol(market)
+    return ALL_MARKETS.find(spec => spec.baseAsset === base) ?? null
+  }
+
+  // Strictest of the market spec, the asset-class cap and the user's RiskParameters
+  getMaxLeverage(market: string, userAddress?: Address): number {
+    const spec = this.resolveMarket(market)
+    if (!spec) return 1
+    const assetClass = CRYPTO_MARKETS.includes(spec) ? 'CRYPTO' : 'STOCK'
+    const perAsset = this.getParameters(userAddress).maxLeveragePerAsset
+    const riskCap = perAsset[spec.baseAsset] ?? perAsset[`x${spec.baseAsset}`] ?? perAsset.default
+    return Math.min(spec.maxLeverage, TRADING_CONFIG.MAX_LEVERAGE[assetClass], riskCap ?? spec.maxLeverage)
+  }
+
+  // Leverage-only check for actions that re-margin existing positions
+  validateLeverage(market: string, leverage: number, userAddress?: Address): OrderRejection[] {
+    const spec = this.resolveMarket(market)
+    if (!spec) return [this.unknownMarket(market)]
+
+    if (!Number.isFinite(leverage) || leverage < 1) {
+      return [{ code: 'INVALID_LEVERAGE', field: 'leverage', value: leverage, limit: 1, message: 'Leverage must be at least 1x' }]
+    }
+    const maxLeverage = this.getMaxLeverage(market, userAddress)
+    if (leverage > maxLeverage) {
+      return [{
+        code: 'LEVERAGE_EXCEEDED',
+        field: 'leverage',
+        value: leverage,
+        limit: maxLeverage,
+        message: `Leverage ${leverage}x exceeds the ${maxLeverage}x limit for ${spec.symbol}`
+      }]
+    }
+    return []
+  }
+
+  // Size-independent blocks: locks, daily loss, event blackouts. Used by
+  // actions such as "add to position" before they know the order size.
+  checkAccess(market: string, userAddress?: Address): OrderRejection[] {
+    const spec = this.resolveMarket(market)
+    if (!spec) return [this.unknownMarket(market)]
+
+    const rejections = this.checkAccountAccess(userAddress)
+    const blackout = economicCalendar.getBlackoutStatus(spec.baseAsset, Date.now(), this.config.hardBlockEvents)
+    if (blackout.action === 'block') {
+      rejections.push({ code: 'EVENT_BLACKOUT', field: 'market', message: `Event blackout: ${blackout.reason}` })
+    }
+    return rejections
+  }
+
+  // Account-wide blocks (locks, daily loss) for actions with no market yet
+  checkAccountAccess(userAddress?: Address): OrderRejection[] {
+    const rejections: OrderRejection[] = []
+    if (userAddress) {
+      const lock = killSwitch.getLock(userAddress)
+      const profile = riskManager.getUserProfile(userAddress)
+      if (lock) {
+        rejections.push({
+          code: 'TRADING_LOCKED',
+          field: 'account',
+          message: `Trading locked until ${new Date(lock.until).toLocaleString()}: ${lock.reason}`
+        })
+      }
+      if (profile && profile.dailyPnL < -profile.parameters.dailyLossLimit) {
+        rejections.push({
+          code: 'DAILY_LOSS_LIMIT',
+          field: 'account',
+          value: profile.dailyPnL,
+          limit: -profile.parameters.dailyLossLimit,
+          message: `Daily loss ${profile.dailyPnL.toFixed(2)} exceeds the ${profile.parameters.dailyLossLimit} USDC limit`
+        })
+      }
+    }
+    return rejections
+  }
+
+  // Synchronous so forms can re-run it on every keystroke
+  check(request: OrderRequest): OrderCheckResult {
+    const rejections: OrderRejection[] = []
+    const warnings: OrderWarning[] = []
+    const result = (order: NormalizedOrder | null): OrderCheckResult => ({
+      accepted: rejections.length === 0,
+      order,
+      rejections,
+      warnings,
+      source: request.source,
+      checkedAt: Date.now()
+    })
+
+    const spec = this.resolveMarket(request.market)
+    if (!spec) {
+      rejections.push(this.unknownMarket(request.market))
+      return result(null)
+    }
+
+    if (!TRADING_CONFIG.ORDER_TYPES.includes(request.orderType)) {
+      rejections.push({ code: 'INVALID_ORDER_TYPE', field: 'orderType', message: `Invalid order type: ${request.orderType}` })
+    }
+
+    const needsPrice = request.orderType !== 'market'
+    const rawPrice = request.price !== undefined && request.price !== '' ? Number(request.price) : undefined
+    if (needsPrice && !(rawPrice !== undefined && rawPrice > 0)) {
+      rejections.push({ code: 'INVALID_PRICE', field: 'price', message: `A positive price is required for ${request.orderType} orders` })
+    }
+    const price = needsPrice && rawPrice && rawPrice > 0 ? roundToIncrement(rawPrice, spec.tickSize, Math.round) : undefined
+    if (price !== undefined && rawPrice !== undefined && price !== rawPrice) {
+      warnings.push({ code: 'PRICE_ROUNDED', message: `Price rounded to tick ${spec.tickSize}: ${price}` })
+    }
+
+    let stopPrice: number | undefined
+    if (request.orderType === 'stop_limit') {
+      const rawStop = request.stopPrice !== undefined && request.stopPrice !== '' ? Number(request.stopPrice) : undefined
+      if (!(rawStop !== undefined && rawStop > 0)) {
+        rejections.push({ code: 'INVALID_PRICE', field: 'price', message: 'A positive stop price is required for stop_limit orders' })
+      } else {
+        stopPrice = roundToIncrement(rawStop, spec.tickSize, Math.round)
+      }
+    }
+
+    const referencePrice = price ?? this.getReferencePrice(spec, request.referencePrice)
+    const rawSize = Number(request.size)
+    if (!Number.isFinite(rawSize) || rawSize <= 0) {
+      rejections.push({ code: 'INVALID_SIZE', field: 'size', message: 'Order size must be greater than 0' })
+      return result(null)
+    }
+    if (!(referencePrice > 0)) {
+      rejections.push({ code: 'NO_REFERENCE_PRICE', field: 'price', message: `No price available for ${spec.symbol}` })
+      return result(null)
+    }
+
+    const reduceOnly = request.reduceOnly === true
+    const leverage = request.leverage
+    const maxLeverage = this.getMaxLeverage(spec.symbol, request.userAddress)
+    rejections.push(...this.validateLeverage(spec.symbol, leverage, request.userAddress))
+
+    // Event windows scale new risk down before rounding
+    let requested = request.sizeUnit === 'quote' ? rawSize / referencePrice : rawSize
+    if (!reduceOnly) {
+      const blackout = economicCalendar.getBlackoutStatus(spec.baseAsset, Date.now(), this.config.hardBlockEvents)
+      if (blackout.action === 'reduce') {
+        requested *= blackout.sizeMultiplier
+        warnings.push({
+          code: 'EVENT_SIZE_REDUCED',
+          message: `Size reduced to ${(blackout.sizeMultiplier * 100).toFixed(0)}% for event window: ${blackout.reason}`
+        })
+      }
+    }
+
+    const size = roundToIncrement(requested, spec.stepSize, Math.floor)
+    if (size !== requested && size > 0) {
+      warnings.push({ code: 'SIZE_ROUNDED', message: `Size rounded down to step ${spec.stepSize}: ${size}` })
+    }
+    if (size < spec.minOrderSize) {
+      rejections.push({
+        code: 'BELOW_MIN_SIZE',
+        field: 'size',
+        value: size,
+        limit: spec.minOrderSize,
+        message: `Size ${size} is below the ${spec.minOrderSize} ${spec.baseAsset} minimum for ${spec.symbol}`
+      })
+    }
+
+    const notional = size * referencePrice
+    const validLeverage = leverage >= 1 ? leverage : 1
+    const order: NormalizedOrder = {
+      market: spec.symbol,
+      side: request.side,
+      size,
+      price,
+      stopPrice,
+      referencePrice,
+      notional,
+      margin: notional / validLeverage,
+      orderType: request.orderType,
+      leverage,
+      maxLeverage,
+      marginMode: request.marginMode ?? 'cross',
+      reduceOnly
+    }
+
+    const assetClass = CRYPTO_MARKETS.includes(spec) ? 'CRYPTO' : 'STOCK'
+    const minNotional = Math.max(TRADING_CONFIG.MIN_POSITION_SIZE[assetClass], LIMITS.MIN_TRADE_AMOUNT)
+    if (!reduceOnly && size >= spec.minOrderSize && notional < minNotional) {
+      rejections.push({
+        code: 'BELOW_MIN_NOTIONAL',
+        field: 'size',
+        value: notional,
+        limit: minNotional,
+        message: `Order value $${notional.toFixed(2)} is below the $${minNotional} minimum`
+      })
+    }
+    if (notional > LIMITS.MAX_TRADE_AMOUNT) {
+      rejections.push({
+        code: 'ABOVE_MAX_NOTIONAL',
+        field: 'size',
+        value: notional,
+        limit: LIMITS.MAX_TRADE_AMOUNT,
+        message: `Order value $${notional.toFixed(2)} exceeds the $${LIMITS.MAX_TRADE_AMOUNT.toLocaleString()} maximum`
+      })
+    }
+
+    // Closing risk is never blocked by account-level limits
+    if (reduceOnly) return result(order)
+
+    rejections.push(...this.checkAccess(spec.symbol, request.userAddress).filter(rejection => rejection.code !== 'UNKNOWN_MARKET'))
+    this.checkAccount(request, order, rejections, warnings)
+    return result(order)
+  }
+
+  // Check, then issue the S-Auth ticket. Throws an AppError carrying the
+  // rejections when the order does not pass.
+  async submit(request: OrderRequest): Promise<{ ticket: SAuthTicket; signature: string; check: OrderCheckResult }> {
+    if (!request.userAddress) {
+      const rejected: OrderCheckResult = {
+        accepted: false,
+        order: null,
+        rejections: [{ code: 'WALLET_NOT_CONNECTED', field: 'account', message: 'Wallet not connected' }],
+        warnings: [],
+        source: request.source,
+        checkedAt: Date.now()
+      }
+      throw toOrderRejectedError(rejected)
+    }
+
+    // The trading service runs the check installed above before signing
+    return tradingService.generateSAuthTicket({ ...request, userAddress: request.userAddress })
+  }
+
+  private checkAccount(
+    request: OrderRequest,
+    order: NormalizedOrder,
+    rejections: OrderRejection[],
+    warnings: OrderWarning[]
+  ) {
+    const parameters = this.getParameters(request.userAddress)
+    const account = request.account ?? this.getSimulatorAccount(request.userAddress)
+    if (!account) {
+      if (this.config.requireAccount) {
+        rejections.push({ code: 'INSUFFICIENT_MARGIN', field: 'account', message: 'Account data unavailable; cannot verify margin' })
+      } else {
+        warnings.push({ code: 'NO_ACCOUNT_DATA', message: 'Account data unavailable; margin and exposure not checked' })
+      }
+      return
+    }
+
+    // Project the position after the fill; only growth counts against limits
+    const signed = (side: OrderSide, size: number) => side === 'buy' ? size : -size
+    const existing = account.positions.filter(position => this.resolveMarket(position.market)?.symbol === order.market)
+    const currentSize = existing.reduce((sum, position) => sum + signed(position.side, position.size), 0)
+    const projectedSize = currentSize + signed(order.side, order.size)
+    const currentNotional = Math.abs(currentSize) * order.referencePrice
+    const projectedNotional = Math.abs(projectedSize) * order.referencePrice
+    const addedNotional = Math.max(0, projectedNotional - currentNotional)
+    if (addedNotional === 0) return
+
+    if (projectedNotional > parameters.maxPositionSize) {
+      rejections.push({
+        code: 'POSITION_SIZE_EXCEEDED',
+        field: 'size',
+        value: projectedNotional,
+        limit: parameters.maxPositionSize,
+        message: `Position value $${projectedNotional.toFixed(2)} would exceed the $${parameters.maxPositionSize} limit`
+      })
+    }
+
+    const totalExposure = account.positions.reduce((sum, position) => sum + Math.abs(position.size) * position.price, 0)
+    if (totalExposure + addedNotional > parameters.totalExposureLimit) {
+      rejections.push({
+        code: 'EXPOSURE_EXCEEDED',
+        field: 'size',
+        value: totalExposure + addedNotional,
+        limit: parameters.totalExposureLimit,
+        message: `Total exposure $${(totalExposure + addedNotional).toFixed(2)} would exceed the $${parameters.totalExposureLimit} limit`
+      })
+    }
+
+    const openMarkets = new Set(account.positions.map(position => this.resolveMarket(position.market)?.symbol ?? position.market))
+    if (!openMarkets.has(order.market) && openMarkets.size + 1 > parameters.maxPositionsCount) {
+      rejections.push({
+        code: 'MAX_POSITIONS',
+        field: 'account',
+        value: openMarkets.size + 1,
+        limit: parameters.maxPositionsCount,
+        message: `Opening ${order.market} would exceed the ${parameters.maxPositionsCount} open position limit`
+      })
+    }
+
+    const requiredMargin = addedNotional / Math.max(order.leverage, 1)
+    if (requiredMargin > account.freeMargin) {
+      rejections.push({
+        code: 'INSUFFICIENT_MARGIN',
+        field: 'account',
+        value: requiredMargin,
+        limit: account.freeMargin,
+        message: `Requires $${requiredMargin.toFixed(2)} margin, $${Math.max(account.freeMargin, 0).toFixed(2)} available`
+      })
+    } else if (account.equity > 0) {
+      const utilization = (account.equity - account.freeMargin + requiredMargin) / account.equity
+      if (utilization > this.config.marginWarningRatio) {
+        warnings.push({
+          code: 'HIGH_MARGIN_UTILIZATION',
+          message: `Margin utilization would reach ${(utilization * 100).toFixed(0)}%`
+        })
+      }
+    }
+  }
+
+  private getParameters(userAddress?: Address): RiskParameters {
+    const profile = userAddress ? riskManager.getUserProfile(userAddress) : undefined
+    return profile?.parameters ?? DEFAULT_RISK_PARAMETERS
+  }
+
+  private getSimulatorAccount(userAddress?: Address): OrderAccountContext | null {
+    if (!isDemoMode || !userAddress) return null
+    const info = exchangeSimulator.getAccountInfo(userAddress)
+    return {
+      equity: parseFloat(info.equity),
+      freeMargin: parseFloat(info.freeMargin),
+      positions: exchangeSimulator.getUserPositions(userAddress).map(position => ({
+        market: position.market,
+        side: position.side,
+        size: parseFloat(position.size),
+        price: exchangeSimulator.getMarketPrice(position.market).price
+      }))
+    }
+  }
+
+  private getReferencePrice(spec: MarketSpec, provided?: number): number {
+    if (provided && provided > 0) return provided
+    if (isDemoMode) {
+      const mark = exchangeSimulator.getMarketPrice(spec.symbol).price
+      if (mark > 0) return mark
+    }
+    return priceFeedService.getCurrentPrice(spec.symbol)?.price ?? 0
+  }
+
+  private unknownMarket(market: string): OrderRejection {
+    return { code: 'UNKNOWN_MARKET', field: 'market', message: `Market ${market} is not supported` }
+  }
+}
+
+export const orderGateway = OrderGateway.getInstance()
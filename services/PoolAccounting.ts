@@ -0,0 +1,460 @@
+import { isDemoMode } from '../config/wagmi'
+import { POOL_FEES, REVENUE_SPLIT, RLP_DECIMALS } from '../constants/riverPoolConstants'
+import { poolData, revenueHistory, systemPositions, userData } from '../data/riverPoolData'
+import { getChainAdapter } from './ChainAdapter'
+import type { Address } from 'viem'
+
+// rLP share accounting for RiverPool. NAV is derived from the vault's USDC,
+// the mark-to-market of the pool's system positions and the LP share of fees
+// not yet swept into the vault, minus the ring-fenced insurance fund. Mint and
+// burn math runs in 6-decimal integer units and always rounds in the pool's
+// favour: deposits mint down, withdrawals by amount burn up, redemptions pay down.
+
+export interface PoolPosition {
+  symbol: string
+  netSize: number // negative for net short
+  avgPrice: number
+  currentPrice: number
+  fundingAccrued: number
+}
+
+export interface PoolLedger {
+  collateral: number // USDC held by the vault, insurance reserve included
+  insuranceFund: number
+  accruedFees: number // LP share of revenue not yet swept into collateral
+  platformFees: number // platform share awaiting payout; never part of NAV
+  totalSupply: number // rLP outstanding
+  holdings: Record<string, number> // holder key -> rLP
+  lastDepositAt: Record<string, number> // holder key -> ms, for the withdrawal cooldown
+  updatedAt: number
+}
+
+export interface PoolNav {
+  collateral: number
+  insuranceFund: number
+  unrealizedPnL: number
+  fundingAccrued: number
+  accruedFees: number
+  grossAssets: number
+  nav: number
+  totalSupply: number
+  rLPPrice: number
+  updatedAt: number
+}
+
+export interface MintQuote {
+  amount: number
+  insuranceFee: number
+  netAmount: number
+  shares: number
+  price: number
+}
+
+export interface BurnQuote {
+  shares: number
+  grossAmount: number
+  exitFee: number
+  netAmount: number
+  price: number
+}
+
+export interface RevenueInput {
+  tradingFees: number
+  fundingFees: number
+  ammSpread: number
+}
+
+export interface RevenueSplit {
+  totalRevenue: number
+  lpShare: number
+  platformShare: number
+}
+
+export interface UserPoolShare {
+  shares: number
+  value: number
+  sharePercent: number
+  pendingFees: number // holder's part of the LP fees not yet swept
+}
+
+type PoolListener = () => void
+
+const STORAGE_KEY = 'riverbit_pool_ledger'
+const DEMO_HOLDER = 'demo' // the wallet-less demo account
+
+const UNIT = 10n ** BigInt(RLP_DECIMALS)
+const toUnits = (value: number): bigint => BigInt(Math.round(value * Number(UNIT)))
+const fromUnits = (units: bigint): number => Number(units) / Number(UNIT)
+
+function mulDiv(a: bigint, b: bigint, denominator: bigint, roundUp: boolean): bigint {
+  const product = a * b
+  const quotient = product / denominator
+  return roundUp && quotient * denominator !== product ? quotient + 1n : quotient
+}
+
+// Fee on an amount, rounded up so the pool never undercharges
+function feeOf(amount: bigint, rate: number): bigint {
+  return rate > 0 ? mulDiv(amount, toUnits(rate), UNIT, true) : 0n
+}
+
+function requirePositive(value: number, label: string) {
+  if (!Number.isFinite(value) || value <= 0) throw new Error(`${label} must be positive`)
+}
+
+export function getPositionPnL(position: PoolPosition): number {
+  return position.netSize * (position.currentPrice - position.avgPrice)
+}
+
+export function computeNav(ledger: PoolLedger, positions: PoolPosition[]): PoolNav {
+  const unrealizedPnL = positions.reduce((total, position) => total + getPositionPnL(position), 0)
+  const fundingAccrued = positions.reduce((total, position) => total + position.fundingAccrued, 0)
+  const grossAssets = ledger.collateral + unrealizedPnL + fundingAccrued + ledger.accruedFees
+  const nav = grossAssets - ledger.insuranceFund
+  return {
+    collateral: ledger.collateral,
+    insuranceFund: ledger.insuranceFund,
+    unrealizedPnL,
+    fundingAccrued,
+    accruedFees: ledger.accruedFees,
+    grossAssets,
+    nav,
+    totalSupply: ledger.totalSupply,
+    // The first deposit mints 1:1
+    rLPPrice: ledger.totalSupply > 0 ? nav / ledger.totalSupply : 1,
+    updatedAt: ledger.updatedAt
+  }
+}
+
+// Shares minted for a deposit after the insurance fee, rounded down
+export function previewMint(nav: PoolNav, amount: number, insuranceFeeRate: number = POOL_FEES.DEPOSIT_INSURANCE_FEE): MintQuote {
+  requirePositive(amount, 'Deposit amount')
+  const gross = toUnits(amount)
+  const fee = feeOf(gross, insuranceFeeRate)
+  const net = gross - fee
+  const supply = toUnits(nav.totalSupply)
+
+  let shares: bigint
+  if (supply === 0n) {
+    shares = net
+  } else {
+    if (nav.nav <= 0) throw new Error('Pool NAV is not positive; deposits are disabled')
+    shares = mulDiv(net, supply, toUnits(nav.nav), false)
+  }
+  if (shares <= 0n) throw new Error('Deposit is too small to mint rLP')
+
+  return {
+    amount: fromUnits(gross),
+    insuranceFee: fromUnits(fee),
+    netAmount: fromUnits(net),
+    shares: fromUnits(shares),
+    price: nav.rLPPrice
+  }
+}
+
+// USDC paid for burning shares, rounded down, less the exit fee
+export function previewRedeem(nav: PoolNav, shares: number, exitFeeRate = 0): BurnQuote {
+  requirePositive(shares, 'Shares')
+  const burned = toUnits(shares)
+  const supply = toUnits(nav.totalSupply)
+  if (burned > supply) throw new Error('Cannot burn more rLP than the total supply')
+
+  const gross = nav.nav > 0 ? mulDiv(burned, toUnits(nav.nav), supply, false) : 0n
+  const fee = feeOf(gross, exitFeeRate)
+  return {
+    shares: fromUnits(burned),
+    grossAmount: fromUnits(gross),
+    exitFee: fromUnits(fee),
+    netAmount: fromUnits(gross - fee),
+    price: nav.rLPPrice
+  }
+}
+
+// Shares to burn for a gross USDC amount, rounded up, so the payout covers it
+export function previewWithdraw(nav: PoolNav, amount: number, exitFeeRate = 0): BurnQuote {
+  requirePositive(amount, 'Withdraw amount')
+  if (nav.nav <= 0) throw new Error('Pool NAV is not positive; withdrawals are paused')
+  const shares = mulDiv(toUnits(amount), toUnits(nav.totalSupply), toUnits(nav.nav), true)
+  return previewRedeem(nav, fromUnits(shares), exitFeeRate)
+}
+
+// LP share rounded down; the platform takes the remainder so the parts sum exactly
+export function splitRevenue(totalRevenue: number): RevenueSplit {
+  const total = toUnits(totalRevenue)
+  const lpShare = mulDiv(total, toUnits(REVENUE_SPLIT.LP_SHARE), UNIT, false)
+  return {
+    totalRevenue: fromUnits(total),
+    lpShare: fromUnits(lpShare),
+    platformShare: fromUnits(total - lpShare)
+  }
+}
+
+function seedPositions(): PoolPosition[] {
+  return systemPositions.map(({ symbol, netSize, avgPrice, currentPrice, fundingAccrued }) => ({
+    symbol, netSize, avgPrice, currentPrice, fundingAccrued
+  }))
+}
+
+// Opening ledger from the static pool snapshot: collateral is backed out so the
+// derived NAV equals the snapshot TVL, and today's revenue is still unswept
+function seedLedger(positions: PoolPosition[]): PoolLedger {
+  const todayRevenue = splitRevenue(revenueHistory[0]?.totalRevenue ?? 0)
+  const marks = computeNav({
+    collateral: 0,
+    insuranceFund: 0,
+    accruedFees: 0,
+    platformFees: 0,
+    totalSupply: 0,
+    holdings: {},
+    lastDepositAt: {},
+    updatedAt: 0
+  }, positions)
+
+  return {
+    collateral: poolData.tvl + poolData.insuranceFund - marks.unrealizedPnL - marks.fundingAccrued - todayRevenue.lpShare,
+    insuranceFund: poolData.insuranceFund,
+    accruedFees: todayRevenue.lpShare,
+    platformFees: todayRevenue.platformShare,
+    totalSupply: poolData.totalSupply,
+    holdings: { [DEMO_HOLDER]: userData.rLPHolding },
+    lastDepositAt: {},
+    updatedAt: Date.now()
+  }
+}
+
+export class PoolAccountingService {
+  private static instance: PoolAccountingService
+  private positions: PoolPosition[] = seedPositions()
+  private ledger: PoolLedger
+  private listeners = new Set<PoolListener>()
+
+  private constructor() {
+    this.ledger = this.load() ?? seedLedger(this.positions)
+  }
+
+  static getInstance(): PoolAccountingService {
+    if (!PoolAccountingService.instance) {
+      PoolAccountingService.instance = new PoolAccountingService()
+    }
+    return PoolAccountingService.instance
+  }
+
+  // ===== Reads =====
+
+  getNav(): PoolNav {
+    return computeNav(this.ledger, this.positions)
+  }
+
+  getLedger(): PoolLedger {
+    return { ...this.ledger, holdings: { ...this.ledger.holdings }, lastDepositAt: { ...this.ledger.lastDepositAt } }
+  }
+
+  getPositions(): PoolPosition[] {
+    return this.positions.map(position => ({ ...position }))
+  }
+
+  // USDC available to pay out; the insurance reserve is never paid to LPs
+  getLiquidity(): number {
+    return this.ledger.collateral - this.ledger.insuranceFund
+  }
+
+  // Pass null for the wallet-less demo account
+  getHolding(holder?: string | null): number {
+    return this.ledger.holdings[this.holderKey(holder)] ?? 0
+  }
+
+  getLastDepositAt(holder?: string | null): number | null {
+    return this.ledger.lastDepositAt[this.holderKey(holder)] ?? null
+  }
+
+  getUserShare(holder?: string | null): UserPoolShare {
+    const nav = this.getNav()
+    const shares = this.getHolding(holder)
+    const fraction = nav.totalSupply > 0 ? shares / nav.totalSupply : 0
+    return {
+      shares,
+      value: shares * nav.rLPPrice,
+      sharePercent: fraction * 100,
+      pendingFees: nav.accruedFees * fraction
+    }
+  }
+
+  // ===== Quotes =====
+
+  quoteDeposit(amount: number): MintQuote {
+    return previewMint(this.getNav(), amount)
+  }
+
+  quoteRedeem(shares: number, exitFeeRate = 0): BurnQuote {
+    return previewRedeem(this.getNav(), shares, exitFeeRate)
+  }
+
+  quoteWithdraw(amount: number, exitFeeRate = 0): BurnQuote {
+    return previewWithdraw(this.getNav(), amount, exitFeeRate)
+  }
+
+  // ===== Mint and burn =====
+
+  deposit(holder: string | null | undefined, amount: number): MintQuote {
+    const quote = this.quoteDeposit(amount)
+    const key = this.holderKey(holder)
+    this.update(ledger => ({
+      ...ledger,
+      collateral: ledger.collateral + quote.amount,
+      insuranceFund: ledger.insuranceFund + quote.insuranceFee,
+      totalSupply: ledger.totalSupply + quote.shares,
+      holdings: { ...ledger.holdings, [key]: (ledger.holdings[key] ?? 0) + quote.shares },
+      lastDepositAt: { ...ledger.lastDepositAt, [key]: Date.now() }
+    }))
+    return quote
+  }
+
+  // The exit fee stays in the vault for the remaining LPs
+  redeem(holder: string | null | undefined, shares: number, exitFeeRate = 0): BurnQuote {
+    return this.burn(holder, this.quoteRedeem(shares, exitFeeRate))
+  }
+
+  withdraw(holder: string | null | undefined, amount: number, exitFeeRate = 0): BurnQuote {
+    const quote = this.quoteWithdraw(amount, exitFeeRate)
+    // Rounding up can overshoot a full exit by one unit; burn the whole holding instead
+    const held = this.getHolding(holder)
+    const overshoot = toUnits(quote.shares) - toUnits(held)
+    return this.burn(holder, overshoot > 0n && overshoot <= 1n ? this.quoteRedeem(held, exitFeeRate) : quote)
+  }
+
+  // ===== Revenue =====
+
+  // Books revenue: the LP share accrues into NAV, the platform share is set aside
+  accrueRevenue(revenue: RevenueInput): RevenueSplit {
+    const split = splitRevenue(revenue.tradingFees + revenue.fundingFees + revenue.ammSpread)
+    this.update(ledger => ({
+      ...ledger,
+      accruedFees: ledger.accruedFees + split.lpShare,
+      platformFees: ledger.platformFees + split.platformShare
+    }))
+    return split
+  }
+
+  // Moves accrued LP fees into collateral and pays out the platform share
+  settleFees(): { sweptToPool: number; paidToPlatform: number } {
+    const { accruedFees, platformFees } = this.ledger
+    this.update(ledger => ({ ...ledger, collateral: ledger.collateral + ledger.accruedFees, accruedFees: 0, platformFees: 0 }))
+    return { sweptToPool: accruedFees, paidToPlatform: platformFees }
+  }
+
+  // ===== Positions =====
+
+  setPositions(positions: PoolPosition[]) {
+    this.positions = positions.map(position => ({ ...position }))
+    this.update(ledger => ledger)
+  }
+
+  // Re-marks positions at new prices; symbols without a price keep their mark
+  markPositions(prices: Record<string, number>) {
+    this.setPositions(this.positions.map(position => ({
+      ...position,
+      currentPrice: prices[position.symbol] ?? position.currentPrice
+    })))
+  }
+
+  // ===== Chain =====
+
+  // Live backends hold the pool's books on-chain; the demo keeps the local ledger
+  async syncFromChain(holder?: string | null): Promise<void> {
+    if (isDemoMode) return
+    try {
+      const adapter = getChainAdapter()
+      const [state, account] = await Promise.all([
+        adapter.getPoolState(),
+        holder ? adapter.getAccountInfo(holder as Address) : Promise.resolve(null)
+      ])
+      this.update(ledger => ({
+        ...ledger,
+        collateral: state.totalValueLocked,
+        insuranceFund: state.insuranceFund,
+        totalSupply: state.totalShares,
+        holdings: account && holder
+          ? { ...ledger.holdings, [this.holderKey(holder)]: account.poolShares }
+          : ledger.holdings
+      }))
+    } catch (error) {
+      console.error('Failed to sync pool state from chain:', error)
+    }
+  }
+
+  reset() {
+    this.positions = seedPositions()
+    this.ledger = seedLedger(this.positions)
+    this.save()
+    this.notify()
+  }
+
+  subscribe(listener: PoolListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  // ===== Internals =====
+
+  private burn(holder: string | null | undefined, quote: BurnQuote): BurnQuote {
+    const key = this.holderKey(holder)
+    const held = this.ledger.holdings[key] ?? 0
+    if (toUnits(quote.shares) > toUnits(held)) throw new Error(`Insufficient rLP: ${held.toFixed(RLP_DECIMALS)} available`)
+
+    const liquid = this.getLiquidity()
+    if (quote.netAmount > liquid) throw new Error(`Insufficient pool liquidity: $${liquid.toFixed(2)} available`)
+
+    this.update(ledger => ({
+      ...ledger,
+      collateral: ledger.collateral - quote.netAmount,
+      totalSupply: Math.max(ledger.totalSupply - quote.shares, 0),
+      holdings: { ...ledger.holdings, [key]: Math.max(held - quote.shares, 0) }
+    }))
+    return quote
+  }
+
+  private holderKey(holder?: string | null): string {
+    return holder ? holder.toLowerCase() : DEMO_HOLDER
+  }
+
+  private update(change: (ledger: PoolLedger) => PoolLedger) {
+    this.ledger = { ...change(this.ledger), updatedAt: Date.now() }
+    this.save()
+    this.notify()
+  }
+
+  private load(): PoolLedger | null {
+    try {
+      if (typeof localStorage === 'undefined') return null
+      const stored = localStorage.getItem(STORAGE_KEY)
+      if (!stored) return null
+      const ledger = JSON.parse(stored) as PoolLedger
+      return { ...ledger, lastDepositAt: ledger.lastDepositAt ?? {} }
+    } catch (error) {
+      console.error('Failed to load pool ledger:', error)
+      return null
+    }
+  }
+
+  private save() {
+    try {
+      if (typeof localStorage === 'undefined') return
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.ledger))
+    } catch (error) {
+      console.error('Failed to save pool ledger:', error)
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => {
+      try {
+        listener()
+      } catch (error) {
+        console.error('Pool accounting listener failed:', error)
+      }
+    })
+  }
+}
+
+export const poolAccounting = PoolAccountingService.getInstance()
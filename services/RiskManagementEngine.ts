@@ -4,6 +4,29 @@
  */
 
 import { TradingPlan } from '../components/ai/TradingPlanCard';
+import { type Address, type Hex } from 'viem';
+import { PLAN_PROOF_DOMAIN, PLAN_PROOF_TYPES } from '../constants/contractConstants';
+import {
+  computePlanCommitment,
+  createPlanProofBundle,
+  createRemotePlanSigner,
+  createPlanSalt,
+  toPlanCommitmentMessage,
+  verifyPlanProofBundle,
+  type PlanProofBundle,
+  type PlanProofSigner,
+  type PlanProofVerification,
+  type PlanSignerType
+} from '../utils/planProof';
+import { economicCalendar } from './EconomicCalendar';
+import { getChainAdapter } from './ChainAdapter';
+
+// 平台存证由服务端签名；客户端只知道签名服务地址和公开的签名者地址
+const configuredSignerUrl = import.meta.env?.VITE_PLAN_PROOF_SIGNER_URL as string | undefined;
+const configuredSignerAddress = import.meta.env?.VITE_PLAN_PROOF_SIGNER_ADDRESS as Address | undefined;
+
+const PROOF_STORAGE_KEY = 'riverbit_plan_proofs';
+const MAX_STORED_PROOFS = 200;
 
 // 风控规则配置
 interface RiskLimits {
@@ -12,7 +35,7 @@ interface RiskLimits {
   maxLeverage: number; // 最大杠杆
   minRiskReward: number; // 最小风险回报比
   maxSlippage: number; // 最大滑点容忍
-  blackoutEvents: string[]; // 黑名单事件
+  blackoutEvents: string[]; // 窗口期内一律禁止交易的事件代码（其余按日历中事件自身的动作处理）
 }
 
 // 账户风控状态
@@ -34,13 +57,29 @@ interface RiskValidationResult {
   adjustedPlan?: Partial<TradingPlan>;
 }
 
-// 存证记录
-interface ProofRecord {
-  planHash: string;
+// 存证记录（commit 阶段只公开承诺，计划和盐在 reveal 前保密）
+export interface ProofRecord {
+  planHash: Hex; // keccak256(keccak256(规范化计划) || salt)
+  planId: string;
   timestamp: number;
-  parameters: Partial<TradingPlan>;
-  signature: string;
-  blockNumber?: number;
+  signer: Address;
+  signerType: PlanSignerType;
+  signature: Hex; // EIP-712 PlanCommitment 签名
+  revealedAt?: number;
+  blockNumber?: number; // 承诺上链后由 recordAnchor 填入
+  txHash?: Hex;
+}
+
+// 存证生成选项：传入 userAddress 则由该钱包签名；否则优先平台签名服务，其次当前连接的钱包
+interface ProofOptions {
+  userAddress?: Address;
+  signer?: PlanProofSigner;
+}
+
+// 持久化的存证记录及 reveal 前保密的计划与盐
+interface StoredProofs {
+  records: ProofRecord[];
+  secrets: Record<string, { plan: TradingPlan; salt: Hex }>;
 }
 
 class RiskManagementEngine {
@@ -63,6 +102,12 @@ class RiskManagementEngine {
   };
 
   private proofRecords: Map<string, ProofRecord> = new Map();
+  private proofSecrets: Map<string, { plan: TradingPlan; salt: Hex }> = new Map();
+  private platformSigner: PlanProofSigner | null = null;
+
+  constructor() {
+    this.loadProofs();
+  }
 
   // 主要风控验证函数
   public validatePlan(plan: TradingPlan, accountBalance: number): RiskValidationResult {
@@ -190,11 +235,20 @@ class RiskManagementEngine {
     let score = 0;
 
     // 检查黑名单事件
-    if (this.accountState.isBlackedOut || this.isBlackoutPeriod()) {
-      violations.push('当前处于重大事件窗口期，暂停自动交易');
+    if (this.accountState.isBlackedOut) {
+      violations.push('账户处于暂停交易状态');
       score += 50;
     }
 
+    const blackout = economicCalendar.getBlackoutStatus(plan.symbol, Date.now(), this.defaultLimits.blackoutEvents);
+    if (blackout.action === 'block') {
+      violations.push(`重大事件窗口期，暂停交易: ${blackout.reason}`);
+      score += 50;
+    } else if (blackout.action === 'reduce') {
+      warnings.push(`事件窗口期，仓位降至 ${(blackout.sizeMultiplier * 100).toFixed(0)}%: ${blackout.reason}`);
+      score += 15;
+    }
+
     // 检查市场波动性
     if (plan.riskLevel === 'high') {
       warnings.push('当前市场波动性较高，建议降低仓位');
@@ -215,9 +269,15 @@ class RiskManagementEngine {
   private generateAdjustedPlan(plan: TradingPlan, warnings: string[]): Partial<TradingPlan> {
     const adjustments: Partial<TradingPlan> = {};
 
+    // 事件窗口期按日历给出的比例缩减仓位
+    const blackout = economicCalendar.getBlackoutStatus(plan.symbol, Date.now(), this.defaultLimits.blackoutEvents);
+    if (blackout.action === 'reduce') {
+      adjustments.positionSize = plan.positionSize * blackout.sizeMultiplier;
+    }
+
     // 根据警告自动调整
     warnings.forEach(warning => {
-      if (warning.includes('仓位')) {
+      if (warning.includes('仓位') && adjustments.positionSize === undefined) {
         // 自动降低仓位
         adjustments.positionSize = Math.max(0.5, plan.positionSize * 0.8);
       }
@@ -256,56 +316,164 @@ class RiskManagementEngine {
     return safeguards;
   }
 
-  // 生成计划存证
-  public generateProof(plan: TradingPlan): ProofRecord {
-    const timestamp = Date.now();
-    const parameters = {
-      symbol: plan.symbol,
-      direction: plan.direction,
-      entryPrice: plan.entryPrice,
-      stopLoss: plan.stopLoss,
-      takeProfit: plan.takeProfit,
-      positionSize: plan.positionSize,
-      confidence: plan.confidence,
-      timestamp
-    };
+  // 生成计划存证：对完整计划做 keccak256 承诺并以 EIP-712 签名
+  public async generateProof(plan: TradingPlan, options: ProofOptions = {}): Promise<ProofRecord> {
+    const walletAddress = options.userAddress ?? getChainAdapter().getAddress();
+    const signer = options.signer
+      ?? (options.userAddress ? this.createWalletSigner(options.userAddress) : null)
+      ?? this.getPlatformSigner()
+      ?? (walletAddress ? this.createWalletSigner(walletAddress) : null);
+    if (!signer) {
+      throw new Error('没有可用的存证签名者：请连接钱包或配置 VITE_PLAN_PROOF_SIGNER_URL');
+    }
 
-    // 生成哈希（简化版本）
-    const planHash = this.generateSecureHash(parameters);
-    
-    // 生成数字签名（模拟）
-    const signature = this.generateSignature(planHash, timestamp);
+    const timestamp = Date.now();
+    const salt = createPlanSalt();
+    const planHash = computePlanCommitment(plan, salt);
+    const signature = await signer.sign(toPlanCommitmentMessage(plan.id, planHash, timestamp));
 
     const proof: ProofRecord = {
       planHash,
+      planId: plan.id,
       timestamp,
-      parameters,
+      signer: signer.address,
+      signerType: signer.type,
       signature
     };
 
-    // 存储到本地记录
+    // 保存计划副本和盐，直到 reveal
     this.proofRecords.set(planHash, proof);
-
-    // 模拟上链存证（实际实现需要连接区块链）
-    this.simulateOnChainCommit(proof);
+    this.proofSecrets.set(planHash, { plan: JSON.parse(JSON.stringify(plan)), salt });
+    this.saveProofs();
 
     return proof;
   }
 
-  // 验证存证
-  public verifyProof(planHash: string, revealedPlan: TradingPlan): boolean {
+  // 公开计划和盐，之后任何人都可以校验承诺
+  public revealProof(planHash: string): { plan: TradingPlan; salt: Hex } | null {
+    const proof = this.proofRecords.get(planHash);
+    const secret = this.proofSecrets.get(planHash);
+    if (!proof || !secret) return null;
+
+    if (!proof.revealedAt) {
+      proof.revealedAt = Date.now();
+      this.saveProofs();
+    }
+    return { plan: JSON.parse(JSON.stringify(secret.plan)), salt: secret.salt };
+  }
+
+  // 验证存证：重新计算完整计划的承诺，并恢复 EIP-712 签名者
+  public async verifyProof(planHash: string, revealedPlan: TradingPlan, salt?: Hex): Promise<PlanProofVerification> {
+    const proof = this.proofRecords.get(planHash);
+    if (!proof) {
+      return { valid: false, errors: ['未找到对应的存证记录'] };
+    }
+    const revealSalt = salt ?? this.proofSecrets.get(planHash)?.salt;
+    if (!revealSalt) {
+      return { valid: false, errors: ['缺少用于验证的盐值'] };
+    }
+
+    // 平台存证以公开的签名者地址为准，而不是本地记录中的地址
+    const expectedSigner = proof.signerType === 'platform' ? configuredSignerAddress ?? proof.signer : proof.signer;
+    return verifyPlanProofBundle(this.buildBundle(proof, revealedPlan, revealSalt), expectedSigner);
+  }
+
+  // 导出可离线验证的存证包（导出即视为 reveal）
+  public exportProofBundle(planHash: string): PlanProofBundle | null {
+    const proof = this.proofRecords.get(planHash);
+    const reveal = this.revealProof(planHash);
+    if (!proof || !reveal) return null;
+    return this.buildBundle(proof, reveal.plan, reveal.salt);
+  }
+
+  // 记录承诺的链上锚定信息（由实际提交交易的一方调用）
+  public recordAnchor(planHash: string, blockNumber: number, txHash?: Hex): boolean {
     const proof = this.proofRecords.get(planHash);
     if (!proof) return false;
+    proof.blockNumber = blockNumber;
+    proof.txHash = txHash;
+    this.saveProofs();
+    return true;
+  }
 
-    // 验证参数匹配
-    const matches = 
-      proof.parameters.symbol === revealedPlan.symbol &&
-      proof.parameters.direction === revealedPlan.direction &&
-      proof.parameters.entryPrice === revealedPlan.entryPrice &&
-      proof.parameters.stopLoss === revealedPlan.stopLoss &&
-      proof.parameters.takeProfit === revealedPlan.takeProfit;
+  public setPlatformSigner(signer: PlanProofSigner): void {
+    this.platformSigner = signer;
+  }
+
+  // 公开的平台签名者地址，第三方用它校验平台存证；未配置签名服务时为 null
+  public getPlatformSignerAddress(): Address | null {
+    return this.getPlatformSigner()?.address ?? null;
+  }
+
+  private buildBundle(proof: ProofRecord, plan: TradingPlan, salt: Hex): PlanProofBundle {
+    return createPlanProofBundle({
+      plan,
+      salt,
+      message: toPlanCommitmentMessage(proof.planId, proof.planHash, proof.timestamp),
+      signer: proof.signer,
+      signerType: proof.signerType,
+      signature: proof.signature,
+      blockNumber: proof.blockNumber,
+      txHash: proof.txHash
+    });
+  }
+
+  // 平台签名服务需同时配置 VITE_PLAN_PROOF_SIGNER_URL 和公开的 VITE_PLAN_PROOF_SIGNER_ADDRESS
+  private getPlatformSigner(): PlanProofSigner | null {
+    if (!this.platformSigner && configuredSignerUrl && configuredSignerAddress) {
+      this.platformSigner = createRemotePlanSigner(configuredSignerUrl, configuredSignerAddress);
+    }
+    return this.platformSigner;
+  }
+
+  // 用户钱包签名，经当前链适配器（演示模式下为模拟钱包）
+  private createWalletSigner(address: Address): PlanProofSigner {
+    return {
+      address,
+      type: 'user',
+      sign: message => getChainAdapter().signTypedData({
+        account: address,
+        domain: PLAN_PROOF_DOMAIN,
+        types: PLAN_PROOF_TYPES,
+        primaryType: 'PlanCommitment',
+        message: { ...message }
+      })
+    };
+  }
+
+  private loadProofs(): void {
+    try {
+      if (typeof localStorage === 'undefined') return;
+      const stored = localStorage.getItem(PROOF_STORAGE_KEY);
+      if (!stored) return;
+      const { records, secrets } = JSON.parse(stored) as StoredProofs;
+      records.forEach(record => this.proofRecords.set(record.planHash, record));
+      Object.entries(secrets).forEach(([planHash, secret]) => this.proofSecrets.set(planHash, secret));
+    } catch (error) {
+      console.error('加载存证记录失败:', error);
+    }
+  }
 
-    return matches;
+  // 只保留最近的记录；超出上限的旧存证连同其盐一并丢弃
+  private saveProofs(): void {
+    const records = Array.from(this.proofRecords.values())
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(-MAX_STORED_PROOFS);
+    const kept = new Set(records.map(record => record.planHash));
+    Array.from(this.proofRecords.keys()).forEach(planHash => {
+      if (!kept.has(planHash as Hex)) {
+        this.proofRecords.delete(planHash);
+        this.proofSecrets.delete(planHash);
+      }
+    });
+
+    try {
+      if (typeof localStorage === 'undefined') return;
+      const stored: StoredProofs = { records, secrets: Object.fromEntries(this.proofSecrets) };
+      localStorage.setItem(PROOF_STORAGE_KEY, JSON.stringify(stored));
+    } catch (error) {
+      console.error('保存存证记录失败:', error);
+    }
   }
 
   // 辅助方法
@@ -331,44 +499,6 @@ class RiskManagementEngine {
     return liquidityMap[symbol] || 0.70;
   }
 
-  private isBlackoutPeriod(): boolean {
-    // 模拟重大事件检查
-    const now = new Date();
-    const hour = now.getHours();
-    
-    // 美国市场开盘前后2小时（重大数据发布时间）
-    if (hour >= 13 && hour <= 15) { // UTC时间
-      return Math.random() < 0.1; // 10%概率处于黑名单期
-    }
-    
-    return false;
-  }
-
-  private generateSecureHash(data: any): string {
-    // 简化的哈希生成（实际应使用加密哈希函数）
-    const jsonString = JSON.stringify(data);
-    let hash = 0;
-    for (let i = 0; i < jsonString.length; i++) {
-      const char = jsonString.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // 转换为32位整数
-    }
-    return Math.abs(hash).toString(16).padStart(8, '0');
-  }
-
-  private generateSignature(hash: string, timestamp: number): string {
-    // 模拟数字签名
-    return btoa(`${hash}:${timestamp}:riverbit`).slice(0, 16);
-  }
-
-  private simulateOnChainCommit(proof: ProofRecord): void {
-    // 模拟区块链提交
-    setTimeout(() => {
-      proof.blockNumber = Math.floor(Math.random() * 1000000) + 18000000;
-      console.log(`📜 计划存证已上链: ${proof.planHash} (区块 #${proof.blockNumber})`);
-    }, 2000);
-  }
-
   // 公共接口
   public updateAccountState(state: Partial<AccountRiskState>): void {
     this.accountState = { ...this.accountState, ...state, lastUpdate: Date.now() };
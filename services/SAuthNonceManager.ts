@@ -0,0 +1,209 @@
+import { type Address } from 'viem'
+import { SAUTH_DOMAIN } from '../constants/contractConstants'
+import { getChainAdapter } from './ChainAdapter'
+import { sAuthTicketQueue } from './SAuthTicketQueue'
+
+// Nonce gaps found in the settlement queue for one user
+export interface NonceGapReport {
+  user: Address
+  chainId: number
+  baseline: number // last nonce known to be consumed
+  missing: number[] // nonces allocated but never queued (e.g. signing rejected in another tab)
+  blocking: number[] // dead-lettered nonces that sit below still-outstanding tickets
+  hasGaps: boolean
+}
+
+type NonceMessage = { key: string; lastNonce: number }
+
+// Per-user, per-chain nonce allocator for S-Auth tickets. The last used nonce
+// is persisted in localStorage so refreshes never reuse a nonce; allocation is
+// serialized across tabs with the Web Locks API when the browser provides it,
+// and other tabs are notified through a BroadcastChannel.
+export class SAuthNonceManager {
+  private static instance: SAuthNonceManager
+  private readonly storageKey = 'riverbit_sauth_nonces'
+  private readonly lockName = 'riverbit_sauth_nonce_lock'
+  private lastNonces: Record<string, number> = {}
+  private onChainNonces: Record<string, number> = {} // next nonce reported by `nonces(user)`
+  private channel: BroadcastChannel | null = null
+
+  private constructor() {
+    this.lastNonces = this.load()
+    this.initializeTabSync()
+  }
+
+  static getInstance(): SAuthNonceManager {
+    if (!SAuthNonceManager.instance) {
+      SAuthNonceManager.instance = new SAuthNonceManager()
+    }
+    return SAuthNonceManager.instance
+  }
+
+  // Reserve the next nonce for a user on a chain
+  async allocate(user: Address, chainId: number = SAUTH_DOMAIN.chainId): Promise<number> {
+    const key = this.getKey(user, chainId)
+    return this.withLock(() => {
+      const next = this.readLastNonce(key) + 1
+      this.writeLastNonce(key, next)
+      return next
+    })
+  }
+
+  // Give back a nonce that was never signed, if nothing was allocated after it
+  async release(user: Address, nonce: number, chainId: number = SAUTH_DOMAIN.chainId): Promise<boolean> {
+    const key = this.getKey(user, chainId)
+    return this.withLock(() => {
+      if (this.readLastNonce(key) !== nonce) return false
+      this.writeLastNonce(key, nonce - 1)
+      return true
+    })
+  }
+
+  // Last nonce used for a user, without allocating
+  peek(user: Address, chainId: number = SAUTH_DOMAIN.chainId): number {
+    return this.lastNonces[this.getKey(user, chainId)] ?? 0
+  }
+
+  // Resync from the contract's `nonces(user)` view, which (like OpenZeppelin's
+  // Nonces) is the next nonce the contract will accept. The read goes through
+  // the active chain adapter, so demo mode asks the exchange simulator. Local
+  // state only moves forward so queued, unsettled nonces are kept. Returns the
+  // next nonce that will be allocated, or null when the view is unavailable.
+  async resync(user: Address, chainId: number = SAUTH_DOMAIN.chainId): Promise<number | null> {
+    const key = this.getKey(user, chainId)
+    const adapter = getChainAdapter()
+
+    const adapterChainId = adapter.getChainId()
+    if (adapterChainId !== null && adapterChainId !== chainId) {
+      console.warn(`S-Auth nonce resync skipped: adapter is on chain ${adapterChainId}, not ${chainId}`)
+      return null
+    }
+
+    let onChain: number
+    try {
+      onChain = await adapter.getSAuthNonce(user)
+    } catch (error) {
+      console.warn('S-Auth nonce resync unavailable:', error)
+      return null
+    }
+
+    this.onChainNonces[key] = onChain
+    return this.withLock(() => {
+      const local = this.readLastNonce(key)
+      if (onChain - 1 > local) {
+        this.writeLastNonce(key, onChain - 1)
+      }
+      return Math.max(onChain, local + 1)
+    })
+  }
+
+  // Find missing or blocking nonces among this user's queued tickets
+  detectGaps(user: Address, chainId: number = SAUTH_DOMAIN.chainId): NonceGapReport {
+    const key = this.getKey(user, chainId)
+    const records = sAuthTicketQueue
+      .getTickets()
+      .filter(record => record.ticket.user.toLowerCase() === user.toLowerCase())
+
+    const outstanding = records
+      .filter(record => record.state === 'pending' || record.state === 'submitted')
+      .map(record => record.ticket.nonce)
+    const settled = records
+      .filter(record => record.state === 'settled')
+      .map(record => record.ticket.nonce)
+    const queued = new Set(records.map(record => record.ticket.nonce))
+
+    const onChain = this.onChainNonces[key]
+    const baseline = onChain !== undefined ? onChain - 1 :
+      (settled.length > 0 ? Math.max(...settled) : Math.min(...records.map(r => r.ticket.nonce), 1) - 1)
+    const highestOutstanding = outstanding.length > 0 ? Math.max(...outstanding) : baseline
+
+    // Nonces at or below the queue's pruned low-water mark were queued once and
+    // dropped from storage since (old settled records, purged dead letters)
+    const pruned = sAuthTicketQueue.getPrunedNonce(user)
+    const missing: number[] = []
+    for (let nonce = Math.max(baseline, pruned) + 1; nonce < highestOutstanding; nonce++) {
+      if (!queued.has(nonce)) missing.push(nonce)
+    }
+
+    const blocking = records
+      .filter(record => (record.state === 'failed' || record.state === 'expired') &&
+        record.ticket.nonce > baseline && record.ticket.nonce < highestOutstanding)
+      .map(record => record.ticket.nonce)
+      .sort((a, b) => a - b)
+
+    return {
+      user,
+      chainId,
+      baseline,
+      missing,
+      blocking,
+      hasGaps: missing.length > 0 || blocking.length > 0
+    }
+  }
+
+  private getKey(user: Address, chainId: number): string {
+    return `${chainId}:${user.toLowerCase()}`
+  }
+
+  // Run a critical section exclusively across tabs where Web Locks are available
+  private async withLock<T>(fn: () => T): Promise<T> {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      return navigator.locks.request(this.lockName, async () => fn())
+    }
+    return fn()
+  }
+
+  // Always read through to storage so a nonce taken by another tab is seen
+  private readLastNonce(key: string): number {
+    const stored = this.load()
+    const last = Math.max(stored[key] ?? 0, this.lastNonces[key] ?? 0)
+    this.lastNonces[key] = last
+    return last
+  }
+
+  private writeLastNonce(key: string, lastNonce: number) {
+    this.lastNonces[key] = lastNonce
+    const stored = this.load()
+    stored[key] = lastNonce
+    this.save(stored)
+    this.channel?.postMessage({ key, lastNonce } satisfies NonceMessage)
+  }
+
+  private initializeTabSync() {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(this.storageKey)
+      this.channel.onmessage = (event: MessageEvent<NonceMessage>) => {
+        const { key, lastNonce } = event.data
+        this.lastNonces[key] = lastNonce
+      }
+    } else if (typeof window !== 'undefined') {
+      // Fallback: storage events fire in other tabs when localStorage changes
+      window.addEventListener('storage', (event) => {
+        if (event.key === this.storageKey) {
+          this.lastNonces = this.load()
+        }
+      })
+    }
+  }
+
+  private load(): Record<string, number> {
+    try {
+      const stored = localStorage.getItem(this.storageKey)
+      return stored ? JSON.parse(stored) : {}
+    } catch (error) {
+      console.error('Failed to load S-Auth nonces:', error)
+      return {}
+    }
+  }
+
+  private save(nonces: Record<string, number>) {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(nonces))
+    } catch (error) {
+      console.error('Failed to persist S-Auth nonces:', error)
+    }
+  }
+}
+
+// Export singleton instance
+export const sAuthNonceManager = SAuthNonceManager.getInstance()
@@ -0,0 +1,423 @@
+import { type SAuthTicket, TRADING_CONFIG } from '../constants/contractConstants'
+
+// Lifecycle state of a queued S-Auth ticket
+export type TicketState = 'pending' | 'submitted' | 'settled' | 'failed' | 'expired'
+
+// Ticket record as stored in the queue
+export interface QueuedTicket {
+  id: string
+  ticket: SAuthTicket
+  signature: string
+  state: TicketState
+  attempts: number
+  createdAt: number
+  updatedAt: number
+  nextAttemptAt: number
+  merkleRoot?: `0x${string}`
+  lastError?: string
+  rejected?: boolean // refused by settlement; its nonce is spent, so it is never retried
+}
+
+// Queue events emitted to subscribers
+export type QueueEventType =
+  | 'enqueued'
+  | 'submitted'
+  | 'settled'
+  | 'retry_scheduled'
+  | 'failed'
+  | 'rejected'
+  | 'expired'
+  | 'requeued'
+  | 'cleared'
+  | 'synced' // another tab changed the stored queue
+
+export interface QueueEvent {
+  type: QueueEventType
+  ticketIds: string[]
+  timestamp: number
+  error?: string
+}
+
+export type QueueCounts = Record<TicketState, number>
+
+// One user's queue as persisted in localStorage
+interface StoredQueue {
+  records: QueuedTicket[]
+  prunedNonce: number // highest nonce dropped from storage
+}
+
+type QueueListener = (event: QueueEvent, counts: QueueCounts) => void
+
+// Settlement queue for signed S-Auth tickets. Records are stored per user in
+// localStorage and shared by every open tab: each mutation re-reads storage
+// before writing, and `storage` events keep the in-memory copy of the other
+// tabs current.
+export class SAuthTicketQueue {
+  private static instance: SAuthTicketQueue
+  private readonly storagePrefix = 'riverbit_sauth_ticket_queue'
+  private readonly maxSettledRecords = 100 // per user
+  private records: QueuedTicket[] = []
+  private prunedNonces: Record<string, number> = {} // by storage key
+  private listeners = new Set<QueueListener>()
+
+  private constructor() {
+    this.records = this.recoverInFlight(this.load())
+    this.initializeTabSync()
+  }
+
+  static getInstance(): SAuthTicketQueue {
+    if (!SAuthTicketQueue.instance) {
+      SAuthTicketQueue.instance = new SAuthTicketQueue()
+    }
+    return SAuthTicketQueue.instance
+  }
+
+  // Add a signed ticket to the queue
+  enqueue(ticket: SAuthTicket, signature: string): QueuedTicket {
+    const now = Date.now()
+    const record: QueuedTicket = {
+      id: this.generateTicketId(ticket),
+      ticket,
+      signature,
+      state: 'pending',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+      nextAttemptAt: now
+    }
+
+    this.refresh()
+    this.records.push(record)
+    this.commit({ type: 'enqueued', ticketIds: [record.id], timestamp: now })
+    return record
+  }
+
+  // Take up to `maxSize` due tickets in FIFO order and mark them submitted
+  takeBatch(maxSize: number): QueuedTicket[] {
+    this.expireStale() // re-reads storage, so tickets another tab took are skipped
+
+    const now = Date.now()
+    const batch = this.records
+      .filter(record => record.state === 'pending' && record.nextAttemptAt <= now)
+      .slice(0, maxSize)
+
+    if (batch.length === 0) return []
+
+    batch.forEach(record => {
+      record.state = 'submitted'
+      record.attempts += 1
+      record.updatedAt = now
+    })
+
+    this.commit({ type: 'submitted', ticketIds: batch.map(r => r.id), timestamp: now })
+    return batch
+  }
+
+  // Mark a submitted batch as settled on-chain
+  markSettled(ids: string[], merkleRoot: `0x${string}`) {
+    this.refresh()
+    const now = Date.now()
+    this.findByIds(ids).forEach(record => {
+      record.state = 'settled'
+      record.merkleRoot = merkleRoot
+      record.updatedAt = now
+      record.lastError = undefined
+    })
+
+    this.pruneSettled()
+    this.commit({ type: 'settled', ticketIds: ids, timestamp: now })
+  }
+
+  // Record a settlement failure: schedule a retry with exponential backoff,
+  // or move the ticket to the dead-letter set once retries are exhausted
+  markFailed(ids: string[], error: string) {
+    this.refresh()
+    const now = Date.now()
+    const retried: string[] = []
+    const deadLettered: string[] = []
+
+    this.findByIds(ids).forEach(record => {
+      record.lastError = error
+      record.updatedAt = now
+
+      if (record.attempts >= TRADING_CONFIG.SETTLEMENT_MAX_RETRIES) {
+        record.state = 'failed'
+        deadLettered.push(record.id)
+      } else {
+        record.state = 'pending'
+        record.nextAttemptAt = now + this.getRetryDelay(record.attempts)
+        retried.push(record.id)
+      }
+    })
+
+    if (retried.length > 0) {
+      this.commit({ type: 'retry_scheduled', ticketIds: retried, timestamp: now, error })
+    }
+    if (deadLettered.length > 0) {
+      this.commit({ type: 'failed', ticketIds: deadLettered, timestamp: now, error })
+    }
+  }
+
+  // Record tickets the settlement backend refused (margin, signature, nonce).
+  // A retry would reuse a spent or invalid nonce, so they go straight to the
+  // dead-letter set and cannot be requeued
+  markRejected(ids: string[], error: string) {
+    this.refresh()
+    const now = Date.now()
+    const rejected = this.findByIds(ids)
+    if (rejected.length === 0) return
+
+    rejected.forEach(record => {
+      record.state = 'failed'
+      record.rejected = true
+      record.lastError = error
+      record.updatedAt = now
+    })
+
+    this.commit({ type: 'rejected', ticketIds: rejected.map(r => r.id), timestamp: now, error })
+  }
+
+  // Expire pending tickets whose signature is older than SIGNATURE_VALIDITY
+  expireStale(): string[] {
+    this.refresh()
+    const now = Date.now()
+    const expired = this.records.filter(
+      record => record.state === 'pending' && this.isSignatureExpired(record.ticket, now)
+    )
+
+    if (expired.length === 0) return []
+
+    expired.forEach(record => {
+      record.state = 'expired'
+      record.updatedAt = now
+    })
+
+    const ids = expired.map(r => r.id)
+    this.commit({ type: 'expired', ticketIds: ids, timestamp: now })
+    return ids
+  }
+
+  // Put a dead-lettered ticket back in the queue with a fresh retry budget
+  requeue(id: string): boolean {
+    this.refresh()
+    const record = this.records.find(r => r.id === id)
+    if (!record || record.state !== 'failed' || record.rejected) return false
+    if (this.isSignatureExpired(record.ticket, Date.now())) return false
+
+    const now = Date.now()
+    record.state = 'pending'
+    record.attempts = 0
+    record.nextAttemptAt = now
+    record.updatedAt = now
+
+    this.commit({ type: 'requeued', ticketIds: [id], timestamp: now })
+    return true
+  }
+
+  // Tickets that need manual attention (retries exhausted or signature expired)
+  getDeadLetters(): QueuedTicket[] {
+    return this.records.filter(r => r.state === 'failed' || r.state === 'expired')
+  }
+
+  // Drop dead-lettered tickets from storage
+  purgeDeadLetters() {
+    this.refresh()
+    const ids = this.getDeadLetters().map(r => r.id)
+    if (ids.length === 0) return
+
+    this.markPruned(this.getDeadLetters())
+    this.records = this.records.filter(r => !ids.includes(r.id))
+    this.commit({ type: 'cleared', ticketIds: ids, timestamp: Date.now() })
+  }
+
+  // Highest nonce of this user whose record was removed from the queue; gap
+  // detection treats everything at or below it as accounted for
+  getPrunedNonce(user: string): number {
+    return this.prunedNonces[this.getStorageKey(user)] ?? 0
+  }
+
+  getTickets(state?: TicketState): QueuedTicket[] {
+    return state ? this.records.filter(r => r.state === state) : [...this.records]
+  }
+
+  getCounts(): QueueCounts {
+    const counts: QueueCounts = { pending: 0, submitted: 0, settled: 0, failed: 0, expired: 0 }
+    this.records.forEach(record => {
+      counts[record.state]++
+    })
+    return counts
+  }
+
+  // Earliest time a pending ticket becomes due, if any
+  getNextAttemptAt(): number | null {
+    const pending = this.records.filter(r => r.state === 'pending')
+    if (pending.length === 0) return null
+    return Math.min(...pending.map(r => r.nextAttemptAt))
+  }
+
+  // Subscribe to queue events
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  // Remove every ticket (for testing or emergency)
+  clear() {
+    this.refresh()
+    const ids = this.records.map(r => r.id)
+    this.markPruned(this.records)
+    this.records = []
+    this.commit({ type: 'cleared', ticketIds: ids, timestamp: Date.now() })
+  }
+
+  private getRetryDelay(attempts: number): number {
+    const delay = TRADING_CONFIG.SETTLEMENT_RETRY_BASE_DELAY * Math.pow(2, Math.max(attempts - 1, 0))
+    return Math.min(delay, TRADING_CONFIG.SETTLEMENT_RETRY_MAX_DELAY)
+  }
+
+  private isSignatureExpired(ticket: SAuthTicket, now: number): boolean {
+    return now - ticket.timestamp * 1000 > TRADING_CONFIG.SIGNATURE_VALIDITY
+  }
+
+  private findByIds(ids: string[]): QueuedTicket[] {
+    return this.records.filter(r => ids.includes(r.id))
+  }
+
+  // Keep only the most recent settled records of each user
+  private pruneSettled() {
+    const stale = new Set<string>()
+    this.groupByUser(this.records.filter(r => r.state === 'settled')).forEach(settled => {
+      settled
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+        .slice(this.maxSettledRecords)
+        .forEach(r => stale.add(r.id))
+    })
+
+    if (stale.size === 0) return
+    this.markPruned(this.records.filter(r => stale.has(r.id)))
+    this.records = this.records.filter(r => !stale.has(r.id))
+  }
+
+  private markPruned(removed: QueuedTicket[]) {
+    removed.forEach(record => {
+      const key = this.getStorageKey(record.ticket.user)
+      this.prunedNonces[key] = Math.max(this.prunedNonces[key] ?? 0, record.ticket.nonce)
+    })
+  }
+
+  private commit(event: QueueEvent) {
+    this.save()
+    this.notify(event)
+  }
+
+  private notify(event: QueueEvent) {
+    const counts = this.getCounts()
+    this.listeners.forEach(listener => {
+      try {
+        listener(event, counts)
+      } catch (error) {
+        console.error('Error in ticket queue listener:', error)
+      }
+    })
+  }
+
+  // A batch that was in flight when the page closed has an unknown outcome;
+  // return it to pending so it is resubmitted (the contract rejects replays).
+  // Only run at startup: later reloads must keep other tabs' in-flight batches.
+  private recoverInFlight(records: QueuedTicket[]): QueuedTicket[] {
+    const recovered = records.filter(record => record.state === 'submitted')
+    if (recovered.length === 0) return records
+
+    const now = Date.now()
+    recovered.forEach(record => {
+      record.state = 'pending'
+      record.nextAttemptAt = now
+    })
+    this.save(records)
+    return records
+  }
+
+  // Pick up writes made by other tabs before mutating
+  private refresh() {
+    this.records = this.load()
+  }
+
+  private initializeTabSync() {
+    if (typeof window === 'undefined') return
+
+    // storage events fire in every other tab when localStorage changes
+    window.addEventListener('storage', (event) => {
+      if (event.key === null || event.key.startsWith(`${this.storagePrefix}:`)) {
+        this.refresh()
+        this.notify({ type: 'synced', ticketIds: [], timestamp: Date.now() })
+      }
+    })
+  }
+
+  private getStorageKey(user: string): string {
+    return `${this.storagePrefix}:${user.toLowerCase()}`
+  }
+
+  private getStoredKeys(): string[] {
+    const keys: string[] = []
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)
+      if (key?.startsWith(`${this.storagePrefix}:`)) keys.push(key)
+    }
+    return keys
+  }
+
+  private groupByUser(records: QueuedTicket[]): Map<string, QueuedTicket[]> {
+    const groups = new Map<string, QueuedTicket[]>()
+    records.forEach(record => {
+      const key = this.getStorageKey(record.ticket.user)
+      groups.set(key, [...(groups.get(key) ?? []), record])
+    })
+    return groups
+  }
+
+  // Loads every user's records and refreshes the pruned low-water marks
+  private load(): QueuedTicket[] {
+    if (typeof localStorage === 'undefined') return []
+
+    const records: QueuedTicket[] = []
+    this.getStoredKeys().forEach(key => {
+      try {
+        const stored = localStorage.getItem(key)
+        if (!stored) return
+        const queue: StoredQueue = JSON.parse(stored)
+        records.push(...queue.records)
+        this.prunedNonces[key] = Math.max(this.prunedNonces[key] ?? 0, queue.prunedNonce)
+      } catch (error) {
+        console.error('Failed to load S-Auth ticket queue:', error)
+      }
+    })
+    return records.sort((a, b) => a.createdAt - b.createdAt)
+  }
+
+  private save(records: QueuedTicket[] = this.records) {
+    if (typeof localStorage === 'undefined') return
+
+    try {
+      const groups = this.groupByUser(records)
+      Object.keys(this.prunedNonces).forEach(key => {
+        if (!groups.has(key)) groups.set(key, [])
+      })
+      groups.forEach((userRecords, key) => {
+        const queue: StoredQueue = { records: userRecords, prunedNonce: this.prunedNonces[key] ?? 0 }
+        localStorage.setItem(key, JSON.stringify(queue))
+      })
+    } catch (error) {
+      console.error('Failed to persist S-Auth ticket queue:', error)
+    }
+  }
+
+  private generateTicketId(ticket: SAuthTicket): string {
+    return `${ticket.user.toLowerCase()}_${ticket.nonce}_${ticket.timestamp}`
+  }
+}
+
+// Export singleton instance
+export const sAuthTicketQueue = SAuthTicketQueue.getInstance()
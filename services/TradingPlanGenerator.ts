@@ -234,17 +234,21 @@ class TradingPlanGenerator {
         plan = { ...plan, ...riskValidation.adjustedPlan };
       }
       
-      // 7. 生成存证
-      const proof = riskManager.generateProof(plan);
-      plan.hash = proof.planHash;
-      
-      // 8. 添加风控信息到推理中
+      // 7. 添加风控信息到推理中（须在存证之前，否则计划与存证不一致）
       if (riskValidation.warnings.length > 0) {
-        plan.whyReasons.push(`⚠️ 风控提示: ${riskValidation.warnings.join(', ')}`);
+        plan = { ...plan, whyReasons: [...plan.whyReasons, `⚠️ 风控提示: ${riskValidation.warnings.join(', ')}`] };
+      }
+      
+      // 8. 生成存证（没有可用签名者或用户拒绝签名时，计划照常返回但不带存证）
+      try {
+        const proof = await riskManager.generateProof(plan);
+        plan.hash = proof.planHash;
+        console.log(`📜 存证哈希: ${plan.hash}`);
+      } catch (error) {
+        console.warn('⚠️ 计划存证未生成:', error);
       }
       
       console.log(`📋 计划已生成并通过风控验证 (风险评分: ${riskValidation.riskScore})`);
-      console.log(`📜 存证哈希: ${plan.hash}`);
       
       return plan;
       
@@ -1,45 +1,114 @@
 import { SignTypedDataParameters, type Address } from 'viem'
-import { signTypedData } from '@wagmi/core'
-import { config } from '../config/wagmi'
+import { isDemoMode } from '../config/wagmi'
 import { 
   type SAuthTicket, 
   type OrderSide, 
   type OrderType, 
   type MarginMode,
+  type Position,
   TRADING_CONFIG,
   ERROR_MESSAGES,
-  MARKET_CONFIG
+  MARKET_CONFIG,
+  SAUTH_DOMAIN,
+  SAUTH_TYPES
 } from '../constants/contractConstants'
+import {
+  buildSAuthMerkleTree,
+  getSAuthMerkleProofs,
+  toSAuthMessage
+} from '../utils/sAuthMerkle'
+import {
+  sAuthTicketQueue,
+  type QueueCounts,
+  type QueueEvent
+} from './SAuthTicketQueue'
+import { sAuthNonceManager, type NonceGapReport } from './SAuthNonceManager'
+import { exchangeSimulator } from './ExchangeSimulator'
+import { getChainAdapter, type ChainTransaction } from './ChainAdapter'
+import { transactionTracker } from './TransactionTracker'
+import type { OrderCheckResult, OrderRequest } from './OrderGateway'
+import { checkSAuthMerkleVectors } from '../utils/sAuthMerkleVectors'
+
+// Batch handed to the settlement backend (contract or local simulator)
+export interface SettlementBatch {
+  tickets: SAuthTicket[]
+  signatures: string[]
+  merkleRoot: `0x${string}`
+  merkleProofs: `0x${string}`[][]
+}
+
+// Tickets the backend refused, by index into the batch
+export interface TicketRejection {
+  index: number
+  reason: string
+}
 
-// S-Auth ticket signature domain
-const SAUTH_DOMAIN = {
-  name: 'RiverBit S-Auth',
-  version: '2.0',
-  chainId: 421614, // Arbitrum Sepolia
-  verifyingContract: '0x43bf3e410fd22e4cD1081E60F31600BDdC15ea96' as Address
-} as const
-
-// S-Auth ticket types for EIP-712
-const SAUTH_TYPES = {
-  SAuthTicket: [
-    { name: 'user', type: 'address' },
-    { name: 'market', type: 'bytes32' },
-    { name: 'side', type: 'uint8' },
-    { name: 'size', type: 'uint256' },
-    { name: 'price', type: 'uint256' },
-    { name: 'timestamp', type: 'uint256' },
-    { name: 'nonce', type: 'uint256' }
-  ]
-} as const
+export interface SettlementReport {
+  rejections: TicketRejection[]
+}
+
+// Contract backends return the submitted transaction so it is tracked to its receipt;
+// backends that settle per ticket report the tickets they refused
+export type SettlementHandler = (batch: SettlementBatch) => Promise<ChainTransaction | SettlementReport | void>
+
+// Returns a rejection reason, or null to allow the order
+export type OrderGuard = (userAddress: Address, market: string) => string | null
+
+// Pre-trade check installed by the order gateway; returns the accepted check,
+// whose normalized (rounded) order is what gets signed, or throws the rejection
+export type TicketCheck = (request: OrderRequest) => OrderCheckResult
+
+// Default backend until the batchSettle contract call is wired up
+const logSettlement: SettlementHandler = async (batch) => {
+  // This would call the batchSettle function on the smart contract
+  console.log('Batch settlement:', {
+    tickets: batch.tickets.map(toSAuthMessage),
+    signatures: batch.signatures,
+    merkleRoot: batch.merkleRoot,
+    merkleProofs: batch.merkleProofs,
+    batchSize: batch.tickets.length
+  })
+
+  // In a real implementation, this would call the smart contract
+  // await writeContract({
+  //   address: contractAddress,
+  //   abi: RIVERBIT_CORE_ABI,
+  //   functionName: 'batchSettle',
+  //   args: [contractTickets, signatureBatch, merkleRoot, merkleProofs]
+  // })
+}
+
+// Demo backend: settle into the in-process exchange simulator
+const simulatorSettlement: SettlementHandler = async (batch) => {
+  const results = await exchangeSimulator.batchSettle(batch)
+  return {
+    rejections: results.flatMap((result, index) =>
+      result.accepted ? [] : [{ index, reason: result.reason ?? 'Rejected by settlement' }])
+  }
+}
 
 export class TradingService {
   private static instance: TradingService
-  private ticketQueue: SAuthTicket[] = []
-  private signatures: string[] = []
   private settlementTimer: NodeJS.Timeout | null = null
-  private nonceCounter = 0
+  private isSettling = false
+  private settlementHandler: SettlementHandler = logSettlement
+  private orderGuards = new Set<OrderGuard>()
+  private ticketCheck: TicketCheck | null = null
 
   private constructor() {
+    // Batches are only as good as their leaf encoding; in development builds,
+    // fail loudly if it drifts (production bundles skip the check)
+    if (import.meta.env?.DEV) {
+      const merkleFailures = checkSAuthMerkleVectors()
+      if (merkleFailures.length > 0) {
+        console.error('S-Auth Merkle vectors failed:', merkleFailures)
+      }
+    }
+
+    if (isDemoMode) {
+      exchangeSimulator.start()
+      this.settlementHandler = simulatorSettlement
+    }
     this.startSettlementTimer()
   }
 
@@ -50,37 +119,152 @@ export class TradingService {
     return TradingService.instance
   }
 
-  // Generate S-Auth ticket for trade
-  async generateSAuthTicket(params: {
+  // Generate S-Auth ticket for trade. Every ticket passes the order gateway
+  // first and is issued from the gateway's normalized order, so rounding,
+  // limits and locks apply whichever path places the order.
+  async generateSAuthTicket(
+    request: OrderRequest & { userAddress: Address }
+  ): Promise<{ ticket: SAuthTicket; signature: string; check: OrderCheckResult }> {
+    if (!this.ticketCheck) {
+      throw new Error('Order gateway is not initialized')
+    }
+    const check = this.ticketCheck(request)
+    const { order } = check
+    if (!check.accepted || !order) {
+      throw new Error('Order rejected')
+    }
+
+    const params = {
+      userAddress: request.userAddress,
+      market: order.market,
+      side: order.side,
+      size: order.size.toString(),
+      price: order.price?.toString(),
+      stopPrice: order.stopPrice?.toString(),
+      referencePrice: order.referencePrice.toString(),
+      orderType: order.orderType,
+      leverage: order.leverage,
+      marginMode: order.marginMode,
+      reduceOnly: order.reduceOnly
+    }
+
+    // Reduce-only orders must shrink an open position; they skip the entry
+    // minimum and the guards, which only block new risk
+    if (params.reduceOnly) {
+      await this.validateReduceOnly(params)
+      return { ...(await this.issueTicket(params)), check }
+    }
+
+    // Validate trade parameters
+    this.validateTradeParams(params)
+
+    // Trading locks and other guards only block new risk, never closes
+    for (const guard of this.orderGuards) {
+      const reason = guard(params.userAddress, params.market)
+      if (reason) throw new Error(reason)
+    }
+
+    return { ...(await this.issueTicket(params)), check }
+  }
+
+  // Close all or part of a position with an opposite-side market ticket.
+  // Skips the entry minimum so small remainders can always be flattened.
+  async closePosition(params: {
+    userAddress: Address
+    market: string
+    fraction?: number // 0-1, defaults to the whole position
+  }): Promise<{ ticket: SAuthTicket; signature: string }> {
+    const { userAddress, market, fraction = 1 } = params
+    const positions = await this.getOpenPositions(userAddress)
+    const position = positions.find(p => p.market === market)
+    if (!position) {
+      throw new Error(`No open position in ${market}`)
+    }
+
+    const size = parseFloat(position.size) * Math.min(Math.max(fraction, 0), 1)
+    if (!(size > 0)) {
+      throw new Error(`Nothing to close in ${market}`)
+    }
+
+    return this.issueTicket({
+      userAddress,
+      market,
+      side: position.side === 'buy' ? 'sell' : 'buy',
+      size: size.toString(),
+      orderType: 'market',
+      reduceOnly: true
+    })
+  }
+
+  // Open positions from the active chain backend (simulator-backed in demo mode)
+  async getOpenPositions(userAddress: Address): Promise<Position[]> {
+    return getChainAdapter().getPositions(userAddress)
+  }
+
+  // Install the pre-trade check every generated ticket must pass
+  setTicketCheck(check: TicketCheck) {
+    this.ticketCheck = check
+  }
+
+  // Register a check run before every opening ticket; return a reason to reject
+  addOrderGuard(guard: OrderGuard): () => void {
+    this.orderGuards.add(guard)
+    return () => {
+      this.orderGuards.delete(guard)
+    }
+  }
+
+  private async issueTicket(params: {
     userAddress: Address
     market: string
     side: OrderSide
     size: string
     price?: string
+    stopPrice?: string
     orderType: OrderType
+    leverage?: number
+    marginMode?: MarginMode
+    reduceOnly?: boolean
   }): Promise<{ ticket: SAuthTicket; signature: string }> {
-    const { userAddress, market, side, size, price = '0', orderType } = params
+    const { userAddress, market, side, size, price = '0', orderType, leverage, marginMode, reduceOnly } = params
+    const stopPrice = params.stopPrice || (orderType === 'stop' ? price : '0')
 
-    // Validate trade parameters
-    this.validateTradeParams(params)
+    // Prices are part of the signed ticket, so the settlement side sees the
+    // same order type and trigger the user signed
+    if ((orderType === 'limit' || orderType === 'stop_limit') && !(parseFloat(price) > 0)) {
+      throw new Error(`${orderType} orders require a price`)
+    }
+    if ((orderType === 'stop' || orderType === 'stop_limit') && !(parseFloat(stopPrice) > 0)) {
+      throw new Error(`${orderType} orders require a stop price`)
+    }
 
-    // Create ticket
+    // Create ticket with a persistent per-user nonce
     const ticket: SAuthTicket = {
       user: userAddress,
       market: this.formatMarketForContract(market),
       side: side === 'buy' ? 0 : 1,
+      orderType,
       size: this.parseAmount(size),
       price: price ? this.parseAmount(price) : '0',
+      stopPrice: stopPrice ? this.parseAmount(stopPrice) : '0',
       timestamp: Math.floor(Date.now() / 1000),
-      nonce: ++this.nonceCounter
+      nonce: await sAuthNonceManager.allocate(userAddress, SAUTH_DOMAIN.chainId),
+      ...(leverage !== undefined && { leverage: Math.round(leverage * 100) / 100 }),
+      ...(marginMode !== undefined && { marginMode }),
+      ...(reduceOnly && { reduceOnly })
     }
 
-    // Sign ticket
-    const signature = await this.signTicket(ticket)
+    // Sign ticket; hand the nonce back if the user rejects the signature
+    let signature: string
+    try {
+      signature = await this.signTicket(ticket)
+    } catch (error) {
+      await sAuthNonceManager.release(userAddress, ticket.nonce, SAUTH_DOMAIN.chainId)
+      throw error
+    }
 
-    // Add to queue for batch settlement
-    this.ticketQueue.push(ticket)
-    this.signatures.push(signature)
+    // Add to persistent queue for batch settlement
+    sAuthTicketQueue.enqueue(ticket, signature)
 
     return { ticket, signature }
   }
@@ -91,18 +275,10 @@ export class TradingService {
       domain: SAUTH_DOMAIN,
       types: SAUTH_TYPES,
       primaryType: 'SAuthTicket',
-      message: {
-        user: ticket.user,
-        market: ticket.market as `0x${string}`,
-        side: ticket.side,
-        size: BigInt(ticket.size),
-        price: BigInt(ticket.price),
-        timestamp: BigInt(ticket.timestamp),
-        nonce: BigInt(ticket.nonce)
-      }
+      message: toSAuthMessage(ticket)
     }
 
-    return await signTypedData(config, typedData)
+    return await getChainAdapter().signTypedData(typedData)
   }
 
   // Validate trade parameters
@@ -111,6 +287,7 @@ export class TradingService {
     side: OrderSide
     size: string
     price?: string
+    referencePrice?: string
     orderType: OrderType
   }) {
     const { market, size, orderType } = params
@@ -122,12 +299,20 @@ export class TradingService {
       throw new Error(`Market ${market} not supported`)
     }
 
-    // Check minimum position size (in USD value)
+    // Size is in base units: check the market's step minimum, then the
+    // minimum position size (in USD value) at the order or mark price
     const sizeNum = parseFloat(size)
-    const marketType = market.includes('PERP') && ['BTC', 'ETH', 'SOL'].some(crypto => market.includes(crypto)) ? 'CRYPTO' : 'STOCK'
+    if (!(sizeNum >= marketConfig.minOrderSize)) {
+      throw new Error(`Order size below minimum ${marketConfig.minOrderSize} for ${market}`)
+    }
+
+    const marketType = MARKET_CONFIG.CRYPTO_MARKETS.some(m => m.symbol === market) ? 'CRYPTO' : 'STOCK'
     const minUSDSize = TRADING_CONFIG.MIN_POSITION_SIZE[marketType]
-    
-    if (sizeNum < minUSDSize) {
+    const priceNum = parseFloat(params.price || params.referencePrice || '0') || this.getMarkPrice(market)
+    if (!(priceNum > 0)) {
+      throw new Error(`No price available for ${market}`)
+    }
+    if (sizeNum * priceNum < minUSDSize) {
       throw new Error(`Position size too small. Minimum $${minUSDSize} USDT required`)
     }
 
@@ -137,6 +322,22 @@ export class TradingService {
     }
   }
 
+  // Reduce-only: opposite side of an open position and no larger than it
+  private async validateReduceOnly(params: { userAddress: Address; market: string; side: OrderSide; size: string }) {
+    const { userAddress, market, side, size } = params
+    const position = (await this.getOpenPositions(userAddress)).find(p => p.market === market)
+    if (!position || position.side === side) {
+      throw new Error(`Reduce-only order would open or grow a position in ${market}`)
+    }
+    if (parseFloat(size) > parseFloat(position.size)) {
+      throw new Error(`Reduce-only size ${size} exceeds the open ${position.size} in ${market}`)
+    }
+  }
+
+  private getMarkPrice(market: string): number {
+    return isDemoMode ? exchangeSimulator.getMarketPrice(market).price : 0
+  }
+
   // Format market symbol for contract (convert to bytes32)
   private formatMarketForContract(market: string): string {
     // Convert market symbol to bytes32 format
@@ -153,100 +354,75 @@ export class TradingService {
   // Start automatic settlement timer
   private startSettlementTimer() {
     this.settlementTimer = setInterval(() => {
-      if (this.ticketQueue.length > 0) {
-        this.processBatchSettlement()
-      }
+      this.processBatchSettlement()
     }, TRADING_CONFIG.SETTLEMENT_INTERVAL)
   }
 
   // Process batch settlement of S-Auth tickets
   private async processBatchSettlement() {
-    if (this.ticketQueue.length === 0) return
+    if (this.isSettling) return
+
+    // Take due tickets from queue (max batch size); expired ones are dead-lettered
+    const batch = sAuthTicketQueue.takeBatch(TRADING_CONFIG.MAX_BATCH_SIZE)
+    if (batch.length === 0) return
+
+    this.isSettling = true
+    const ticketIds = batch.map(record => record.id)
 
     try {
-      // Take tickets from queue (max batch size)
-      const batchSize = Math.min(this.ticketQueue.length, TRADING_CONFIG.MAX_BATCH_SIZE)
-      const ticketBatch = this.ticketQueue.splice(0, batchSize)
-      const signatureBatch = this.signatures.splice(0, batchSize)
+      const ticketBatch = batch.map(record => record.ticket)
+      const signatureBatch = batch.map(record => record.signature)
 
       // Generate Merkle tree for batch integrity
-      const merkleRoot = this.generateMerkleRoot(ticketBatch)
-      const merkleProofs = this.generateMerkleProofs(ticketBatch)
-
-      // Prepare contract call parameters
-      const contractTickets = ticketBatch.map(ticket => ({
-        user: ticket.user,
-        market: ticket.market as `0x${string}`,
-        side: ticket.side,
-        size: BigInt(ticket.size),
-        price: BigInt(ticket.price),
-        timestamp: BigInt(ticket.timestamp),
-        nonce: BigInt(ticket.nonce)
-      }))
-
-      // This would call the batchSettle function on the smart contract
-      console.log('Batch settlement:', {
-        tickets: contractTickets,
+      const merkleTree = buildSAuthMerkleTree(ticketBatch)
+      const merkleRoot = merkleTree.root
+      const merkleProofs = getSAuthMerkleProofs(merkleTree)
+
+      const outcome = await this.settlementHandler({
+        tickets: ticketBatch,
         signatures: signatureBatch,
         merkleRoot,
-        merkleProofs,
-        batchSize
+        merkleProofs
       })
+      const tx = outcome && 'hash' in outcome ? outcome : null
+      const rejections = outcome && 'rejections' in outcome ? outcome.rejections : []
+      if (tx) {
+        const chain = getChainAdapter()
+        const settled = await transactionTracker.trackAndWait(tx, {
+          type: 'batch_settle',
+          userAddress: chain.getAddress() ?? ticketBatch[0].user,
+          chainId: chain.getChainId() ?? undefined,
+          note: `${ticketBatch.length} tickets`
+        })
+        if (settled.status !== 'success') {
+          throw new Error(settled.error || `Settlement transaction ${settled.status}`)
+        }
+      }
 
-      // In a real implementation, this would call the smart contract
-      // await writeContract({
-      //   address: contractAddress,
-      //   abi: RIVERBIT_CORE_ABI,
-      //   functionName: 'batchSettle',
-      //   args: [contractTickets, signatureBatch, merkleRoot, merkleProofs]
-      // })
+      // Rejected tickets spent their nonce, so they fail for good instead of retrying
+      const rejectedIds = new Set<string>()
+      const byReason = new Map<string, string[]>()
+      rejections.forEach(({ index, reason }) => {
+        const id = ticketIds[index]
+        if (!id || rejectedIds.has(id)) return
+        rejectedIds.add(id)
+        byReason.set(reason, [...(byReason.get(reason) ?? []), id])
+      })
+      byReason.forEach((ids, reason) => sAuthTicketQueue.markRejected(ids, reason))
 
+      const settledIds = ticketIds.filter(id => !rejectedIds.has(id))
+      if (settledIds.length > 0) {
+        sAuthTicketQueue.markSettled(settledIds, merkleRoot)
+      }
     } catch (error) {
       console.error('Batch settlement failed:', error)
-      // In case of failure, tickets should be re-queued or handled appropriately
+      // Re-queue with backoff; tickets out of retries go to the dead-letter set
+      sAuthTicketQueue.markFailed(ticketIds, error instanceof Error ? error.message : String(error))
+    } finally {
+      this.isSettling = false
     }
   }
 
-  // Generate Merkle root for batch validation
-  private generateMerkleRoot(tickets: SAuthTicket[]): `0x${string}` {
-    // Simplified Merkle root generation
-    // In production, use a proper Merkle tree library
-    const ticketHashes = tickets.map(ticket => 
-      this.hashTicket(ticket)
-    )
-    
-    // Simple hash combination for demo
-    const combined = ticketHashes.join('')
-    const hash = this.simpleHash(combined)
-    return `0x${hash}` as `0x${string}`
-  }
-
-  // Generate Merkle proofs for each ticket
-  private generateMerkleProofs(tickets: SAuthTicket[]): `0x${string}`[][] {
-    // Simplified Merkle proof generation
-    // In production, use a proper Merkle tree library
-    return tickets.map(() => [
-      `0x${'0'.repeat(64)}` as `0x${string}`
-    ])
-  }
-
-  // Hash individual ticket
-  private hashTicket(ticket: SAuthTicket): string {
-    const data = JSON.stringify(ticket)
-    return this.simpleHash(data)
-  }
-
-  // Simple hash function (replace with keccak256 in production)
-  private simpleHash(data: string): string {
-    let hash = 0
-    for (let i = 0; i < data.length; i++) {
-      const char = data.charCodeAt(i)
-      hash = ((hash << 5) - hash) + char
-      hash = hash & hash // Convert to 32-bit integer
-    }
-    return Math.abs(hash).toString(16).padStart(32, '0').slice(0, 32)
-  }
-
   // Calculate trading fees
   calculateTradingFees(params: {
     size: string
@@ -390,25 +566,51 @@ export class TradingService {
   // Get current queue status
   getQueueStatus(): {
     pendingTickets: number
+    submittedTickets: number
+    failedTickets: number
+    expiredTickets: number
     nextSettlement: number
     estimatedGasSavings: string
   } {
-    const nextSettlement = TRADING_CONFIG.SETTLEMENT_INTERVAL - (Date.now() % TRADING_CONFIG.SETTLEMENT_INTERVAL)
-    const estimatedGasSavings = this.ticketQueue.length > 1 
-      ? ((this.ticketQueue.length - 1) * 0.1 * 100).toFixed(1) + '%'
+    const counts = sAuthTicketQueue.getCounts()
+    const nextAttemptAt = sAuthTicketQueue.getNextAttemptAt()
+    const nextInterval = TRADING_CONFIG.SETTLEMENT_INTERVAL - (Date.now() % TRADING_CONFIG.SETTLEMENT_INTERVAL)
+    const nextSettlement = nextAttemptAt !== null
+      ? Math.max(nextAttemptAt - Date.now(), nextInterval)
+      : nextInterval
+    const estimatedGasSavings = counts.pending > 1 
+      ? ((counts.pending - 1) * 0.1 * 100).toFixed(1) + '%'
       : '0%'
     
     return {
-      pendingTickets: this.ticketQueue.length,
+      pendingTickets: counts.pending,
+      submittedTickets: counts.submitted,
+      failedTickets: counts.failed,
+      expiredTickets: counts.expired,
       nextSettlement,
       estimatedGasSavings
     }
   }
 
+  // Subscribe to ticket queue events
+  subscribeToQueue(listener: (event: QueueEvent, counts: QueueCounts) => void): () => void {
+    return sAuthTicketQueue.subscribe(listener)
+  }
+
+  // Resync the user's nonce from the contract and report gaps in the queue
+  async checkNonces(userAddress: Address): Promise<NonceGapReport> {
+    await sAuthNonceManager.resync(userAddress, SAUTH_DOMAIN.chainId)
+    return sAuthNonceManager.detectGaps(userAddress, SAUTH_DOMAIN.chainId)
+  }
+
   // Clear queue (for testing or emergency)
   clearQueue() {
-    this.ticketQueue = []
-    this.signatures = []
+    sAuthTicketQueue.clear()
+  }
+
+  // Route settled batches to a different backend (e.g. a contract writer or a test double)
+  setSettlementHandler(handler: SettlementHandler) {
+    this.settlementHandler = handler
   }
 
   // Stop settlement timer
@@ -0,0 +1,520 @@
+import { toast } from 'sonner'
+import { getPublicClient } from '@wagmi/core'
+import { WaitForTransactionReceiptTimeoutError, type Hash, type ReplacementReturnType } from 'viem'
+import { config, isDemoMode } from '../config/wagmi'
+import { SAUTH_DOMAIN } from '../constants/contractConstants'
+import { openDatabase, getAllRecords, putRecords, deleteRecords } from '../utils/indexedDb'
+import { formatTransactionType, getTransactionExplorerUrl } from '../utils/transactionHistory'
+import type { ChainTransaction } from './ChainAdapter'
+
+// Lifecycle tracker for every transaction the app submits. Each record follows
+// its receipt, including speed-ups, cancellations and other replacements of the
+// same nonce, is persisted to IndexedDB and raises toast notifications. Callers
+// hand over the hash, plus wait() when the backend can report the receipt itself.
+
+export type TrackedTransactionType =
+  | 'approve_usdc'
+  | 'deposit'
+  | 'withdraw'
+  | 'pool_deposit'
+  | 'pool_withdraw'
+  | 'open_position'
+  | 'close_position'
+  | 'place_order'
+  | 'cancel_order'
+  | 'batch_settle'
+  | 'faucet_mint'
+  | 'rebate_claim'
+
+// 'replaced' means another transaction took the nonce; a speed-up is followed to
+// its new hash, which gets its own record pointing back through `replaces`
+export type TrackedTransactionStatus = 'pending' | 'success' | 'failed' | 'replaced' | 'cancelled' | 'dropped'
+
+export interface TrackedTransaction {
+  id: string // `${chainId}:${hash}`; migrated records keep their old id
+  hash: string
+  chainId: number
+  userAddress: string
+  type: TrackedTransactionType
+  status: TrackedTransactionStatus
+  timestamp: number // submitted
+  updatedAt: number
+  confirmedAt?: number
+  amount?: number // USDC
+  shares?: number
+  symbol?: string
+  size?: number
+  blockNumber?: number
+  gasUsed?: string
+  error?: string
+  replaces?: string // hash of the transaction this one sped up
+  replacedBy?: string
+  note?: string
+}
+
+export interface TrackOptions {
+  type: TrackedTransactionType
+  userAddress: string
+  chainId?: number
+  amount?: number
+  shares?: number
+  symbol?: string
+  size?: number
+  note?: string
+  notify?: boolean // toast the lifecycle (default true)
+}
+
+export interface TransactionFilter {
+  types?: TrackedTransactionType[]
+  statuses?: TrackedTransactionStatus[]
+  symbol?: string
+  from?: number
+  to?: number
+  search?: string // hash, symbol or note
+}
+
+export interface TransactionPage {
+  items: TrackedTransaction[]
+  total: number
+  page: number // 1-based
+  pageSize: number
+  pageCount: number
+}
+
+export interface TransactionStats {
+  total: number
+  pending: number
+  successful: number
+  failed: number
+  replaced: number
+  totalDeposited: number
+  totalWithdrawn: number
+}
+
+type TrackerListener = () => void
+
+const DB_NAME = 'riverbit_transactions'
+const DB_VERSION = 1
+const STORE = 'transactions'
+const LEGACY_STORAGE_KEY = 'riverbit_transaction_history'
+const RECEIPT_TIMEOUT = 30 * 60_000
+const DEFAULT_PAGE_SIZE = 20
+
+const CSV_COLUMNS: [string, (tx: TrackedTransaction) => string | number | undefined][] = [
+  ['Time', tx => new Date(tx.timestamp).toISOString()],
+  ['Type', tx => formatTransactionType(tx.type)],
+  ['Status', tx => tx.status],
+  ['Amount (USDC)', tx => tx.amount],
+  ['Shares', tx => tx.shares],
+  ['Symbol', tx => tx.symbol],
+  ['Size', tx => tx.size],
+  ['Chain', tx => tx.chainId],
+  ['Hash', tx => tx.hash],
+  ['Block', tx => tx.blockNumber],
+  ['Gas Used', tx => tx.gasUsed],
+  ['Replaces', tx => tx.replaces],
+  ['Replaced By', tx => tx.replacedBy],
+  ['Note', tx => tx.note],
+  ['Error', tx => tx.error]
+]
+
+function csvCell(value: string | number | undefined): string {
+  if (value === undefined) return ''
+  const text = String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function errorMessage(error: unknown): string {
+  if (error && typeof error === 'object' && 'shortMessage' in error) return String(error.shortMessage)
+  return error instanceof Error ? error.message : String(error)
+}
+
+export class TransactionTracker {
+  private static instance: TransactionTracker
+  private dbPromise: Promise<IDBDatabase | null> | null = null
+  private records = new Map<string, TrackedTransaction>()
+  private watchers = new Map<string, Promise<TrackedTransaction>>()
+  private toastIds = new Map<string, string>() // record id -> toast id; only for this session's records
+  private listeners = new Set<TrackerListener>()
+  private readyPromise: Promise<void>
+
+  private constructor() {
+    this.readyPromise = this.load()
+  }
+
+  static getInstance(): TransactionTracker {
+    if (!TransactionTracker.instance) {
+      TransactionTracker.instance = new TransactionTracker()
+    }
+    return TransactionTracker.instance
+  }
+
+  // Resolves once persisted history is loaded and pending records are being followed
+  ready(): Promise<void> {
+    return this.readyPromise
+  }
+
+  // ===== Tracking =====
+
+  // Register a submitted transaction and start following its receipt
+  track(tx: { hash: string; wait?: ChainTransaction['wait'] }, options: TrackOptions): TrackedTransaction {
+    const chainId = options.chainId ?? SAUTH_DOMAIN.chainId
+    const id = `${chainId}:${tx.hash.toLowerCase()}`
+    const existing = this.records.get(id)
+    if (existing) return { ...existing }
+
+    const now = Date.now()
+    const record: TrackedTransaction = {
+      id,
+      hash: tx.hash,
+      chainId,
+      userAddress: options.userAddress,
+      type: options.type,
+      status: 'pending',
+      timestamp: now,
+      updatedAt: now,
+      amount: options.amount,
+      shares: options.shares,
+      symbol: options.symbol,
+      size: options.size,
+      note: options.note
+    }
+    this.save(record)
+    if (options.notify ?? true) {
+      this.toastIds.set(id, id)
+      this.announce(record)
+    }
+    this.watch(id, tx.wait)
+    return { ...record }
+  }
+
+  // Final state of a tracked transaction; a speed-up resolves to its replacement
+  wait(idOrHash: string): Promise<TrackedTransaction> {
+    const record = this.getTransaction(idOrHash)
+    if (!record) return Promise.reject(new Error(`Unknown transaction ${idOrHash}`))
+    return this.watchers.get(record.id) ?? Promise.resolve(record)
+  }
+
+  trackAndWait(tx: { hash: string; wait?: ChainTransaction['wait'] }, options: TrackOptions): Promise<TrackedTransaction> {
+    return this.wait(this.track(tx, options).id)
+  }
+
+  // ===== Queries (newest first) =====
+
+  getTransaction(idOrHash: string): TrackedTransaction | null {
+    const direct = this.records.get(idOrHash)
+    if (direct) return { ...direct }
+    const hash = idOrHash.toLowerCase()
+    for (const record of this.records.values()) {
+      if (record.hash.toLowerCase() === hash) return { ...record }
+    }
+    return null
+  }
+
+  getTransactions(userAddress: string, filter: TransactionFilter = {}): TrackedTransaction[] {
+    const user = userAddress.toLowerCase()
+    const symbol = filter.symbol?.toUpperCase()
+    const search = filter.search?.trim().toLowerCase()
+
+    return Array.from(this.records.values())
+      .filter(tx =>
+        tx.userAddress.toLowerCase() === user &&
+        (!filter.types || filter.types.includes(tx.type)) &&
+        (!filter.statuses || filter.statuses.includes(tx.status)) &&
+        (!symbol || tx.symbol?.toUpperCase() === symbol) &&
+        (filter.from === undefined || tx.timestamp >= filter.from) &&
+        (filter.to === undefined || tx.timestamp <= filter.to) &&
+        (!search || [tx.hash, tx.symbol, tx.note].some(field => field?.toLowerCase().includes(search)))
+      )
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .map(tx => ({ ...tx }))
+  }
+
+  query(userAddress: string, filter: TransactionFilter = {}, page = 1, pageSize = DEFAULT_PAGE_SIZE): TransactionPage {
+    const matches = this.getTransactions(userAddress, filter)
+    const size = Math.max(1, Math.floor(pageSize))
+    const pageCount = Math.max(1, Math.ceil(matches.length / size))
+    const current = Math.min(Math.max(1, Math.floor(page)), pageCount)
+    return {
+      items: matches.slice((current - 1) * size, current * size),
+      total: matches.length,
+      page: current,
+      pageSize: size,
+      pageCount
+    }
+  }
+
+  exportCsv(userAddress: string, filter: TransactionFilter = {}): string {
+    const rows = this.getTransactions(userAddress, filter)
+      .map(tx => CSV_COLUMNS.map(([, value]) => csvCell(value(tx))).join(','))
+    return [CSV_COLUMNS.map(([header]) => header).join(','), ...rows].join('\n')
+  }
+
+  getStats(userAddress: string): TransactionStats {
+    const stats: TransactionStats = {
+      total: 0,
+      pending: 0,
+      successful: 0,
+      failed: 0,
+      replaced: 0,
+      totalDeposited: 0,
+      totalWithdrawn: 0
+    }
+
+    this.getTransactions(userAddress).forEach(tx => {
+      stats.total++
+      switch (tx.status) {
+        case 'pending':
+          stats.pending++
+          break
+        case 'success':
+          stats.successful++
+          if (tx.type === 'pool_deposit') stats.totalDeposited += tx.amount ?? 0
+          if (tx.type === 'pool_withdraw') stats.totalWithdrawn += tx.amount ?? 0
+          break
+        case 'failed':
+        case 'dropped':
+          stats.failed++
+          break
+        default:
+          stats.replaced++
+      }
+    })
+
+    return stats
+  }
+
+  async clear(userAddress: string) {
+    const user = userAddress.toLowerCase()
+    const ids = Array.from(this.records.values())
+      .filter(tx => tx.userAddress.toLowerCase() === user && !this.watchers.has(tx.id))
+      .map(tx => tx.id)
+    ids.forEach(id => this.records.delete(id))
+    this.notify()
+    await deleteRecords(await this.getDb(), STORE, ids)
+  }
+
+  subscribe(listener: TrackerListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  // ===== Receipt following =====
+
+  private watch(id: string, wait?: ChainTransaction['wait']) {
+    const watcher = this.follow(id, wait).finally(() => {
+      this.watchers.delete(id)
+      this.toastIds.delete(id)
+    })
+    this.watchers.set(id, watcher)
+  }
+
+  private async follow(id: string, wait?: ChainTransaction['wait']): Promise<TrackedTransaction> {
+    const record = this.records.get(id)!
+
+    try {
+      const client = isDemoMode ? undefined : getPublicClient(config, { chainId: record.chainId as (typeof config)['chains'][number]['id'] })
+      if (!client) {
+        if (!wait) return this.settle(id, { status: 'dropped', error: 'No receipt source for this transaction' })
+        const receipt = await wait()
+        return this.settle(id, {
+          status: receipt.status === 'success' ? 'success' : 'failed',
+          blockNumber: receipt.blockNumber,
+          error: receipt.status === 'success' ? undefined : 'Transaction reverted'
+        })
+      }
+
+      // viem watches the sender's nonce and reports which transaction took it
+      const replaced: { value?: ReplacementReturnType } = {}
+      const receipt = await client.waitForTransactionReceipt({
+        hash: record.hash as Hash,
+        timeout: RECEIPT_TIMEOUT,
+        onReplaced: replacement => {
+          replaced.value = replacement
+        }
+      })
+      if (replaced.value) return this.replace(id, replaced.value)
+
+      return this.settle(id, {
+        status: receipt.status === 'success' ? 'success' : 'failed',
+        blockNumber: Number(receipt.blockNumber),
+        gasUsed: receipt.gasUsed.toString(),
+        error: receipt.status === 'success' ? undefined : 'Transaction reverted'
+      })
+    } catch (error) {
+      if (error instanceof WaitForTransactionReceiptTimeoutError) {
+        return this.settle(id, { status: 'dropped', error: 'No receipt within 30 minutes' })
+      }
+      return this.settle(id, { status: 'failed', error: errorMessage(error) })
+    }
+  }
+
+  private replace(id: string, replacement: ReplacementReturnType): TrackedTransaction {
+    const newHash = replacement.transaction.hash
+    const receipt = replacement.transactionReceipt
+
+    if (replacement.reason === 'cancelled') {
+      return this.settle(id, { status: 'cancelled', replacedBy: newHash, blockNumber: Number(receipt.blockNumber) })
+    }
+    if (replacement.reason === 'replaced') {
+      return this.settle(id, { status: 'replaced', replacedBy: newHash, error: 'Replaced by a different transaction' })
+    }
+
+    // Speed-up: same call at a higher fee. The new hash carries the outcome and
+    // takes over the original's toast.
+    const original = this.settle(id, { status: 'replaced', replacedBy: newHash, error: undefined }, false)
+    const replacementId = `${original.chainId}:${newHash.toLowerCase()}`
+    const toastId = this.toastIds.get(id)
+    if (toastId) this.toastIds.set(replacementId, toastId)
+
+    const now = Date.now()
+    this.save({
+      ...original,
+      id: replacementId,
+      hash: newHash,
+      status: 'pending',
+      updatedAt: now,
+      replaces: original.hash,
+      replacedBy: undefined
+    })
+    const result = this.settle(replacementId, {
+      status: receipt.status === 'success' ? 'success' : 'failed',
+      blockNumber: Number(receipt.blockNumber),
+      gasUsed: receipt.gasUsed.toString(),
+      error: receipt.status === 'success' ? undefined : 'Transaction reverted'
+    })
+    this.toastIds.delete(replacementId)
+    return result
+  }
+
+  private settle(id: string, patch: Partial<TrackedTransaction>, announce = true): TrackedTransaction {
+    const now = Date.now()
+    const record: TrackedTransaction = {
+      ...this.records.get(id)!,
+      ...patch,
+      updatedAt: now,
+      confirmedAt: patch.status === 'success' || patch.status === 'failed' ? now : undefined
+    }
+    this.save(record)
+    if (announce) this.announce(record)
+    return { ...record }
+  }
+
+  // ===== Notifications =====
+
+  private announce(record: TrackedTransaction) {
+    const toastId = this.toastIds.get(record.id)
+    if (!toastId) return
+
+    const label = formatTransactionType(record.type)
+    const details = [
+      record.symbol,
+      record.amount !== undefined ? `${record.amount.toLocaleString()} USDC` : undefined,
+      record.note
+    ].filter(Boolean).join(' · ') || undefined
+    const view = {
+      label: 'View',
+      onClick: () => window.open(getTransactionExplorerUrl(record.hash, record.chainId), '_blank')
+    }
+
+    switch (record.status) {
+      case 'pending':
+        toast.loading(`${label} pending`, { id: toastId, description: details })
+        break
+      case 'success':
+        toast.success(`${label} confirmed`, { id: toastId, description: details, action: view })
+        break
+      case 'failed':
+        toast.error(`${label} failed`, { id: toastId, description: record.error ?? details, action: view })
+        break
+      case 'cancelled':
+        toast.warning(`${label} cancelled`, { id: toastId, description: details })
+        break
+      case 'replaced':
+        toast.warning(`${label} replaced`, { id: toastId, description: record.error ?? details })
+        break
+      case 'dropped':
+        toast.error(`${label} not confirmed`, { id: toastId, description: record.error })
+        break
+    }
+  }
+
+  // ===== Storage =====
+
+  private getDb(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, [
+        {
+          name: STORE,
+          keyPath: 'id',
+          indexes: [{ name: 'user', keyPath: 'userAddress' }]
+        }
+      ])
+    }
+    return this.dbPromise
+  }
+
+  private async load() {
+    try {
+      const db = await this.getDb()
+      const stored = await getAllRecords<TrackedTransaction>(db, STORE)
+      const migrated = this.readLegacyRecords().filter(record => !stored.some(tx => tx.id === record.id))
+
+      // Records tracked while loading are newer than anything stored
+      for (const record of [...stored, ...migrated]) {
+        if (!this.records.has(record.id)) this.records.set(record.id, record)
+      }
+      if (migrated.length > 0) {
+        await putRecords(db, STORE, migrated)
+        localStorage.removeItem(LEGACY_STORAGE_KEY)
+      }
+      this.notify()
+
+      // Resume transactions that were still pending when the app closed
+      Array.from(this.records.values())
+        .filter(record => record.status === 'pending' && !this.watchers.has(record.id))
+        .forEach(record => this.watch(record.id))
+    } catch (error) {
+      console.error('Failed to load transaction history:', error)
+    }
+  }
+
+  // History kept by the old localStorage TransactionHistoryManager
+  private readLegacyRecords(): TrackedTransaction[] {
+    try {
+      if (typeof localStorage === 'undefined') return []
+      const stored = localStorage.getItem(LEGACY_STORAGE_KEY)
+      if (!stored) return []
+      return (JSON.parse(stored) as Omit<TrackedTransaction, 'chainId' | 'updatedAt'>[]).map(record => ({
+        ...record,
+        chainId: SAUTH_DOMAIN.chainId,
+        updatedAt: record.timestamp
+      }))
+    } catch (error) {
+      console.error('Failed to read legacy transaction history:', error)
+      return []
+    }
+  }
+
+  private save(record: TrackedTransaction) {
+    this.records.set(record.id, record)
+    this.notify()
+    this.getDb()
+      .then(db => putRecords(db, STORE, [record]))
+      .catch(error => console.error('Failed to persist transaction:', error))
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => {
+      try {
+        listener()
+      } catch (error) {
+        console.error('Transaction tracker listener failed:', error)
+      }
+    })
+  }
+}
+
+export const transactionTracker = TransactionTracker.getInstance()
@@ -0,0 +1,368 @@
+import { erc20Abi, formatUnits, hexToString, parseAbi, type Abi, type AbiEvent, type Address, type Hex, type Log, type SignTypedDataParameters } from 'viem'
+import {
+  disconnect,
+  getAccount,
+  getPublicClient,
+  readContract,
+  signTypedData,
+  waitForTransactionReceipt,
+  watchContractEvent,
+  writeContract,
+  type ReadContractParameters,
+  type WatchContractEventParameters,
+  type WriteContractParameters
+} from '@wagmi/core'
+import { config, modal } from '../config/wagmi'
+import {
+  RIVERBIT_CORE_ABI as CORE_V1_ABI,
+  USDC_ABI as USDC_STRING_ABI,
+  getNetworkConfig,
+  formatUSDC,
+  parseUSDC
+} from '../utils/contractConfig'
+import {
+  RIVERBIT_CORE_ABI as CORE_V2_ABI,
+  SAUTH_DOMAIN,
+  SAUTH_NONCE_ABI,
+  TRADING_CONFIG,
+  type Position
+} from '../constants/contractConstants'
+import type {
+  ChainAccountInfo,
+  ChainAdapter,
+  ChainConnection,
+  ChainEvent,
+  ChainEventListener,
+  ChainEventType,
+  ChainPoolState,
+  ChainTransaction
+} from './ChainAdapter'
+
+const CORE_ABI = parseAbi(CORE_V1_ABI as unknown as readonly string[])
+const USDC_ABI = parseAbi(USDC_STRING_ABI as unknown as readonly string[])
+const CORE_EVENTS = CORE_ABI.filter((item): item is AbiEvent => item.type === 'event')
+
+const EVENT_TYPES: ChainEventType[] = [
+  'Deposit',
+  'Withdraw',
+  'PoolDeposit',
+  'PoolWithdraw',
+  'PositionOpened',
+  'PositionClosed'
+]
+
+type DecodedLog = Log & { eventName?: string; args?: Record<string, unknown> }
+
+// Backend on the app's wagmi config; reads and writes go through viem clients
+export class WagmiChainAdapter implements ChainAdapter {
+  readonly backend = 'wagmi' as const
+  private listeners = new Set<ChainEventListener>()
+  private unwatch: (() => void) | null = null
+
+  // ===== Wallet =====
+
+  async connect(): Promise<ChainConnection> {
+    await modal.open()
+    const account = getAccount(config)
+    if (!account.address || !account.chainId) throw new Error('Wallet not connected')
+    if (this.listeners.size > 0) this.watchEvents()
+    return { address: account.address, chainId: account.chainId }
+  }
+
+  disconnect() {
+    this.stopWatching()
+    disconnect(config).catch(error => console.error('Failed to disconnect wallet:', error))
+  }
+
+  isConnected(): boolean {
+    return getAccount(config).isConnected
+  }
+
+  getAddress(): Address | null {
+    return getAccount(config).address ?? null
+  }
+
+  getChainId(): number | null {
+    return getAccount(config).chainId ?? null
+  }
+
+  async signTypedData(params: SignTypedDataParameters): Promise<Hex> {
+    return await signTypedData(config, params)
+  }
+
+  // ===== USDC =====
+
+  async getUSDCBalance(address: Address): Promise<number> {
+    const balance = await readContract(config, {
+      address: this.contracts().usdc,
+      abi: USDC_ABI,
+      functionName: 'balanceOf',
+      args: [address]
+    }) as bigint
+    return formatUSDC(balance)
+  }
+
+  async getTokenBalance(token: Address, address: Address): Promise<number> {
+    const [balance, decimals] = await Promise.all([
+      readContract(config, { address: token, abi: erc20Abi, functionName: 'balanceOf', args: [address] }),
+      readContract(config, { address: token, abi: erc20Abi, functionName: 'decimals' })
+    ])
+    return Number(formatUnits(balance, decimals))
+  }
+
+  async checkUSDCAllowance(address: Address): Promise<number> {
+    const { usdc, core } = this.contracts()
+    const allowance = await readContract(config, {
+      address: usdc,
+      abi: USDC_ABI,
+      functionName: 'allowance',
+      args: [address, core]
+    }) as bigint
+    return formatUSDC(allowance)
+  }
+
+  async approveUSDC(amount: number): Promise<ChainTransaction> {
+    const { usdc, core } = this.contracts()
+    return this.write(usdc, USDC_ABI, 'approve', [core, parseUSDC(amount)])
+  }
+
+  // ===== Trading account =====
+
+  async deposit(amount: number): Promise<ChainTransaction> {
+    return this.write(this.contracts().core, CORE_ABI, 'deposit', [parseUSDC(amount)])
+  }
+
+  async withdraw(amount: number): Promise<ChainTransaction> {
+    return this.write(this.contracts().core, CORE_ABI, 'withdraw', [parseUSDC(amount)])
+  }
+
+  async getAccountInfo(address: Address): Promise<ChainAccountInfo> {
+    const [balance, poolShares, totalMargin, lastActivityTime] = await this.read('getAccountInfo', [address]) as
+      readonly [bigint, bigint, bigint, bigint]
+    return {
+      balance: formatUSDC(balance),
+      poolShares: formatUSDC(poolShares),
+      totalMargin: formatUSDC(totalMargin),
+      lastActivityTime: Number(lastActivityTime)
+    }
+  }
+
+  async getSAuthNonce(address: Address): Promise<number> {
+    const nonce = await readContract(config, {
+      address: SAUTH_DOMAIN.verifyingContract,
+      abi: SAUTH_NONCE_ABI,
+      functionName: 'nonces',
+      args: [address]
+    })
+    return Number(nonce)
+  }
+
+  // ===== Positions =====
+
+  async openPosition(symbol: string, size: number, leverage: number): Promise<ChainTransaction> {
+    return this.write(this.contracts().core, CORE_ABI, 'openPosition', [symbol, this.signedUSDC(size), BigInt(leverage)])
+  }
+
+  async closePosition(symbol: string, size: number): Promise<ChainTransaction> {
+    return this.write(this.contracts().core, CORE_ABI, 'closePosition', [symbol, this.signedUSDC(size)])
+  }
+
+  async getPosition(address: Address, symbol: string): Promise<number> {
+    return formatUSDC(await this.read('getPosition', [address, symbol]) as bigint)
+  }
+
+  // Full position records come from the S-Auth settlement contract (core v2)
+  async getPositions(address: Address): Promise<Position[]> {
+    const result = await readContract(config, {
+      address: SAUTH_DOMAIN.verifyingContract,
+      abi: CORE_V2_ABI,
+      functionName: 'getUserPositions',
+      args: [address]
+    }) as readonly {
+      market: Hex
+      side: number
+      size: bigint
+      entryPrice: bigint
+      marginMode: number
+      leverage: number
+      unrealizedPnl: bigint
+      timestamp: bigint
+    }[]
+
+    return result.map(position => ({
+      market: hexToString(position.market, { size: 32 }),
+      side: position.side === 0 ? 'buy' : 'sell',
+      size: (Number(position.size) / 1e6).toString(),
+      entryPrice: (Number(position.entryPrice) / 1e6).toString(),
+      marginMode: TRADING_CONFIG.MARGIN_MODES[position.marginMode] ?? 'cross',
+      leverage: Number(position.leverage),
+      unrealizedPnl: (Number(position.unrealizedPnl) / 1e6).toString(),
+      timestamp: Number(position.timestamp)
+    }))
+  }
+
+  async getAssetPrice(symbol: string): Promise<number> {
+    return Number(await this.read('assetPrices', [symbol]) as bigint) / 1e8
+  }
+
+  // ===== Liquidity pool =====
+
+  async depositToPool(amount: number): Promise<ChainTransaction> {
+    return this.write(this.contracts().core, CORE_ABI, 'depositToPool', [parseUSDC(amount)])
+  }
+
+  async withdrawFromPool(shares: number): Promise<ChainTransaction> {
+    return this.write(this.contracts().core, CORE_ABI, 'withdrawFromPool', [parseUSDC(shares)])
+  }
+
+  async getPoolState(): Promise<ChainPoolState> {
+    const [totalValueLocked, totalShares, netAssetValue, totalPnL, insuranceFund] = await this.read('getPoolState', []) as
+      readonly [bigint, bigint, bigint, bigint, bigint]
+    return {
+      totalValueLocked: formatUSDC(totalValueLocked),
+      totalShares: formatUSDC(totalShares),
+      netAssetValue: Number(netAssetValue) / 1e18,
+      totalPnL: formatUSDC(totalPnL),
+      insuranceFund: formatUSDC(insuranceFund)
+    }
+  }
+
+  async getUserPoolValue(address: Address): Promise<number> {
+    return formatUSDC(await this.read('getUserPoolValue', [address]) as bigint)
+  }
+
+  // ===== Events =====
+
+  subscribe(listener: ChainEventListener): () => void {
+    this.listeners.add(listener)
+    this.watchEvents()
+    return () => {
+      this.listeners.delete(listener)
+      if (this.listeners.size === 0) this.stopWatching()
+    }
+  }
+
+  // Newest first; timestamps are read from the containing blocks
+  async getHistoricalEvents(address: Address, fromBlock = 0): Promise<ChainEvent[]> {
+    const client = getPublicClient(config)
+    if (!client) throw new Error('No public client for the connected chain')
+
+    try {
+      // Multi-event queries cannot filter on indexed args, so narrow to the user here
+      const logs = (await client.getLogs({
+        address: this.contracts().core,
+        events: CORE_EVENTS,
+        fromBlock: BigInt(fromBlock),
+        toBlock: 'latest'
+      }) as DecodedLog[]).filter(log => String(log.args?.user).toLowerCase() === address.toLowerCase())
+
+      const blockTimes = new Map<bigint, number>()
+      for (const log of logs) {
+        if (log.blockNumber === null || blockTimes.has(log.blockNumber)) continue
+        const block = await client.getBlock({ blockNumber: log.blockNumber })
+        blockTimes.set(log.blockNumber, Number(block.timestamp) * 1000)
+      }
+
+      return logs
+        .map(log => this.toChainEvent(log, log.blockNumber === null ? Date.now() : blockTimes.get(log.blockNumber)!))
+        .filter((event): event is ChainEvent => event !== null)
+        .sort((a, b) => b.blockNumber - a.blockNumber)
+    } catch (error) {
+      console.error('Failed to get historical events:', error)
+      return []
+    }
+  }
+
+  // ===== Internals =====
+
+  private contracts(): { core: Address; usdc: Address } {
+    const chainId = this.getChainId() ?? SAUTH_DOMAIN.chainId
+    const network = getNetworkConfig(chainId)
+    if (!network?.contracts.RIVERBIT_CORE || !network.contracts.USDC) {
+      throw new Error(`Unsupported network: ${chainId}`)
+    }
+    return { core: network.contracts.RIVERBIT_CORE as Address, usdc: network.contracts.USDC as Address }
+  }
+
+  private signedUSDC(size: number): bigint {
+    const amount = parseUSDC(Math.abs(size))
+    return size >= 0 ? amount : -amount
+  }
+
+  private async read(functionName: string, args: readonly unknown[]): Promise<unknown> {
+    return readContract(config, {
+      address: this.contracts().core,
+      abi: CORE_ABI,
+      functionName,
+      args
+    } as ReadContractParameters<Abi, string, readonly unknown[], typeof config>)
+  }
+
+  private async write(
+    address: Address,
+    abi: typeof CORE_ABI | typeof USDC_ABI,
+    functionName: string,
+    args: readonly unknown[]
+  ): Promise<ChainTransaction> {
+    const hash = await writeContract(config, { address, abi, functionName, args } as WriteContractParameters<Abi, string, readonly unknown[], typeof config>)
+    return {
+      hash,
+      wait: async () => {
+        const receipt = await waitForTransactionReceipt(config, { hash })
+        return {
+          hash: receipt.transactionHash,
+          blockNumber: Number(receipt.blockNumber),
+          status: receipt.status
+        }
+      }
+    }
+  }
+
+  private toChainEvent(log: DecodedLog, timestamp: number): ChainEvent | null {
+    const type = log.eventName as ChainEventType | undefined
+    if (!type || !EVENT_TYPES.includes(type) || !log.args) return null
+
+    const args = log.args
+    const usdc = (key: string) => typeof args[key] === 'bigint' ? formatUSDC(args[key] as bigint) : undefined
+    return {
+      type,
+      user: args.user as Address,
+      txHash: log.transactionHash ?? '',
+      blockNumber: log.blockNumber === null ? 0 : Number(log.blockNumber),
+      timestamp,
+      amount: usdc('amount'),
+      shares: usdc('shares'),
+      symbol: typeof args.symbol === 'string' ? args.symbol : undefined,
+      size: usdc('size'),
+      price: typeof args.price === 'bigint' ? Number(args.price) / 1e8 : undefined,
+      pnl: usdc('pnl')
+    }
+  }
+
+  private watchEvents() {
+    if (this.unwatch || !this.isConnected()) return
+
+    this.unwatch = watchContractEvent(config, {
+      address: this.contracts().core,
+      abi: CORE_ABI,
+      onLogs: (logs: Log[]) => {
+        (logs as DecodedLog[]).forEach(log => {
+          const event = this.toChainEvent(log, Date.now())
+          if (!event) return
+          this.listeners.forEach(listener => {
+            try {
+              listener(event)
+            } catch (error) {
+              console.error('Chain event listener failed:', error)
+            }
+          })
+        })
+      }
+    } as WatchContractEventParameters<Abi, string, boolean, typeof config>)
+  }
+
+  private stopWatching() {
+    this.unwatch?.()
+    this.unwatch = null
+  }
+}
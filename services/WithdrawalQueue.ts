@@ -0,0 +1,495 @@
+import { isDemoMode } from '../config/wagmi'
+import { RISK_THRESHOLDS, WITHDRAWAL_POLICY } from '../constants/riverPoolConstants'
+import { poolAccounting, previewRedeem, previewWithdraw, type BurnQuote, type PoolNav } from './PoolAccounting'
+
+// Withdrawal requests for RiverPool. Requests queue FIFO and settle at epoch
+// boundaries, each epoch paying out at most a fixed percent of NAV, so a rush
+// for the exit drains the pool gradually instead of at once. New deposits wait
+// out a cooldown before they can be queued. The exit fee scales with net exposure
+// and drawdown and is locked when the request is made. Both are measured from the
+// live ledger: exposure from the pool's positions, drawdown from the rLP price peak
+// over the last 24h.
+//
+// The demo account (and every holder in demo mode) settles straight on the local
+// ledger. Live wallets get their shares allotted by the epoch and burn them with
+// the pool contract, so those requests turn 'claimable' until the claim confirms.
+
+export type WithdrawalStatus = 'queued' | 'claimable' | 'completed' | 'cancelled'
+
+export interface RiskMetrics {
+  netExposure: number // % of TVL
+  drawdown: number // 24h %
+}
+
+export interface ExitFeeBreakdown extends RiskMetrics {
+  exposureFee: number // rates
+  drawdownFee: number
+  totalRate: number
+}
+
+export interface WithdrawalRequest {
+  id: string
+  holder: string | null // null for the demo account
+  shares: number
+  filledShares: number // burned on the ledger, or allotted for a live claim
+  claimedShares: number
+  paidAmount: number // USDC after fees
+  exitFee: number // USDC
+  feeRate: number
+  requestedAt: number
+  requestEpoch: number
+  status: WithdrawalStatus
+  settledAt?: number
+  claimHash?: string
+  error?: string
+}
+
+export interface WithdrawalPreview {
+  quote: BurnQuote
+  fee: ExitFeeBreakdown
+  availableShares: number
+  position: number // 1-based place in the queue
+  aheadValue: number // USDC queued before this request
+  epochCapacity: number
+  etaEpochs: number
+  eta: number // when the last part should settle
+  cooldownEndsAt: number | null
+}
+
+export interface EpochReport {
+  epoch: number
+  processedAt: number
+  capacity: number
+  paid: number
+  filledRequests: number
+  carriedOver: number // requests still queued afterwards
+}
+
+type QueueListener = () => void
+
+interface PriceSample {
+  at: number
+  price: number // rLP price
+}
+
+interface StoredQueue {
+  requests: WithdrawalRequest[]
+  lastProcessedEpoch: number
+  reports: EpochReport[]
+  priceSamples?: PriceSample[]
+}
+
+const STORAGE_KEY = 'riverbit_withdrawal_queue'
+const EPOCH_MS = WITHDRAWAL_POLICY.EPOCH_HOURS * 60 * 60 * 1000
+const COOLDOWN_MS = WITHDRAWAL_POLICY.DEPOSIT_COOLDOWN_HOURS * 60 * 60 * 1000
+const CHECK_INTERVAL = 60000
+const MAX_REPORTS = 30
+const DUST_SHARES = 0.000001
+const DRAWDOWN_WINDOW_MS = 24 * 60 * 60 * 1000
+const SAMPLE_INTERVAL = 60000
+
+export function getEpoch(time: number): number {
+  return Math.floor(time / EPOCH_MS)
+}
+
+export function getEpochStart(epoch: number): number {
+  return epoch * EPOCH_MS
+}
+
+// Each component ramps linearly from zero at the safe threshold to its cap at the limit
+export function computeExitFee(metrics: RiskMetrics): ExitFeeBreakdown {
+  const ramp = (value: number, start: number, end: number) => Math.min(Math.max((value - start) / (end - start), 0), 1)
+  const exposureFee = WITHDRAWAL_POLICY.MAX_EXPOSURE_FEE *
+    ramp(metrics.netExposure, RISK_THRESHOLDS.EXPOSURE_NORMAL, RISK_THRESHOLDS.EXPOSURE_MAX)
+  const drawdownFee = WITHDRAWAL_POLICY.MAX_DRAWDOWN_FEE *
+    ramp(metrics.drawdown, RISK_THRESHOLDS.DRAWDOWN_YELLOW, RISK_THRESHOLDS.DRAWDOWN_RED)
+  return { ...metrics, exposureFee, drawdownFee, totalRate: exposureFee + drawdownFee }
+}
+
+function remainingShares(request: WithdrawalRequest): number {
+  return Math.max(request.shares - request.filledShares, 0)
+}
+
+export class WithdrawalQueueService {
+  private static instance: WithdrawalQueueService
+  private requests: WithdrawalRequest[] = []
+  private lastProcessedEpoch = getEpoch(Date.now())
+  private reports: EpochReport[] = []
+  private priceSamples: PriceSample[] = []
+  private listeners = new Set<QueueListener>()
+  private timer: ReturnType<typeof setInterval> | null = null
+
+  private constructor() {
+    this.load()
+    this.recordPrice()
+    poolAccounting.subscribe(() => this.recordPrice())
+    this.processDueEpochs()
+    this.updateTimer()
+  }
+
+  static getInstance(): WithdrawalQueueService {
+    if (!WithdrawalQueueService.instance) {
+      WithdrawalQueueService.instance = new WithdrawalQueueService()
+    }
+    return WithdrawalQueueService.instance
+  }
+
+  // ===== Policy =====
+
+  // Net exposure in % of NAV and the rLP price's drop from its 24h peak, from the live ledger
+  getRiskMetrics(now = Date.now()): RiskMetrics {
+    const nav = poolAccounting.getNav()
+    const net = poolAccounting.getPositions().reduce((total, position) => total + position.netSize * position.currentPrice, 0)
+    const netExposure = nav.nav > 0 ? Math.abs(net) / nav.nav * 100 : 0
+
+    this.recordPrice(now)
+    const peak = Math.max(...this.priceSamples.filter(sample => sample.at >= now - DRAWDOWN_WINDOW_MS).map(sample => sample.price))
+    const drawdown = peak > 0 ? Math.max((peak - nav.rLPPrice) / peak * 100, 0) : 0
+    return { netExposure, drawdown }
+  }
+
+  getExitFee(): ExitFeeBreakdown {
+    return computeExitFee(this.getRiskMetrics())
+  }
+
+  getEpochCapacity(): number {
+    return Math.max(poolAccounting.getNav().nav, 0) * WITHDRAWAL_POLICY.EPOCH_CAP_PERCENT / 100
+  }
+
+  getNextEpochAt(now = Date.now()): number {
+    return getEpochStart(getEpoch(now) + 1)
+  }
+
+  // null once the cooldown after the holder's last deposit has passed
+  getCooldownEndsAt(holder?: string | null, now = Date.now()): number | null {
+    const lastDeposit = poolAccounting.getLastDepositAt(holder)
+    if (lastDeposit === null || lastDeposit + COOLDOWN_MS <= now) return null
+    return lastDeposit + COOLDOWN_MS
+  }
+
+  // ===== Queue =====
+
+  // Open requests in settlement order
+  getQueue(): WithdrawalRequest[] {
+    return this.requests
+      .filter(request => request.status === 'queued')
+      .sort((a, b) => a.requestedAt - b.requestedAt)
+  }
+
+  // Newest first
+  getRequests(holder?: string | null): WithdrawalRequest[] {
+    const key = this.holderKey(holder)
+    return this.requests
+      .filter(request => this.holderKey(request.holder) === key)
+      .sort((a, b) => b.requestedAt - a.requestedAt)
+      .map(request => ({ ...request }))
+  }
+
+  getReports(): EpochReport[] {
+    return [...this.reports]
+  }
+
+  // Shares already promised to open requests cannot be queued twice
+  getAvailableShares(holder?: string | null): number {
+    const key = this.holderKey(holder)
+    const reserved = this.requests
+      .filter(request => this.holderKey(request.holder) === key && (request.status === 'queued' || request.status === 'claimable'))
+      .reduce((total, request) => total + request.shares - request.claimedShares - (this.settlesOnLedger(request.holder) ? request.filledShares : 0), 0)
+    return Math.max(poolAccounting.getHolding(holder) - reserved, 0)
+  }
+
+  // Allotted to a live wallet but not yet burned through the pool contract
+  getClaimableShares(id: string): number {
+    const request = this.requests.find(item => item.id === id)
+    if (!request || this.settlesOnLedger(request.holder)) return 0
+    return Math.max(request.filledShares - request.claimedShares, 0)
+  }
+
+  getPosition(id: string): number | null {
+    const index = this.getQueue().findIndex(request => request.id === id)
+    return index === -1 ? null : index + 1
+  }
+
+  // When the last part of an open request should settle, assuming NAV holds
+  getEta(id: string, now = Date.now()): number | null {
+    const queue = this.getQueue()
+    const index = queue.findIndex(request => request.id === id)
+    if (index === -1) return null
+    const nav = poolAccounting.getNav()
+    const through = queue.slice(0, index + 1).reduce((total, request) => total + this.valueOf(nav, remainingShares(request)), 0)
+    return this.etaFor(through, now).eta
+  }
+
+  // ===== Requests =====
+
+  // Quote for withdrawing a gross USDC amount; shares to burn round up
+  preview(holder: string | null | undefined, amount: number, now = Date.now()): WithdrawalPreview {
+    const fee = this.getExitFee()
+    return this.buildPreview(holder, previewWithdraw(poolAccounting.getNav(), amount, fee.totalRate), fee, now)
+  }
+
+  previewShares(holder: string | null | undefined, shares: number, now = Date.now()): WithdrawalPreview {
+    const fee = this.getExitFee()
+    return this.buildPreview(holder, previewRedeem(poolAccounting.getNav(), shares, fee.totalRate), fee, now)
+  }
+
+  request(holder: string | null | undefined, amount: number): { request: WithdrawalRequest; preview: WithdrawalPreview } {
+    return this.enqueue(holder, this.preview(holder, amount))
+  }
+
+  requestShares(holder: string | null | undefined, shares: number): { request: WithdrawalRequest; preview: WithdrawalPreview } {
+    return this.enqueue(holder, this.previewShares(holder, shares))
+  }
+
+  // Cancels what has not settled yet; filled parts stay paid out
+  cancel(id: string) {
+    const request = this.requests.find(item => item.id === id)
+    if (!request) throw new Error('Withdrawal request not found')
+    if (request.status !== 'queued') throw new Error(`Cannot cancel a ${request.status} request`)
+    const trimmed = { ...request, shares: request.filledShares }
+    this.update(id, { shares: trimmed.shares, status: trimmed.shares > 0 ? this.statusAfterFill(trimmed) : 'cancelled' })
+  }
+
+  // A live wallet burned its allotted shares through the pool contract
+  markClaimed(id: string, hash: string) {
+    const request = this.requests.find(item => item.id === id)
+    if (!request) throw new Error('Withdrawal request not found')
+    const claimed = { ...request, claimedShares: request.filledShares, claimHash: hash }
+    this.update(id, { claimedShares: claimed.claimedShares, claimHash: hash, status: this.statusAfterFill(claimed) })
+    poolAccounting.syncFromChain(request.holder)
+  }
+
+  // ===== Epochs =====
+
+  // Settles every epoch boundary passed since the last run
+  processDueEpochs(now = Date.now()): EpochReport[] {
+    const current = getEpoch(now)
+    const reports: EpochReport[] = []
+    while (this.lastProcessedEpoch < current) {
+      this.lastProcessedEpoch += 1
+      if (this.getQueue().length === 0) {
+        this.lastProcessedEpoch = current
+        break
+      }
+      reports.push(this.processEpoch(this.lastProcessedEpoch, now))
+    }
+    if (reports.length > 0) {
+      this.reports = [...reports.reverse(), ...this.reports].slice(0, MAX_REPORTS)
+    }
+    this.save()
+    if (reports.length > 0) this.notify()
+    this.updateTimer()
+    return reports
+  }
+
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  // ===== Internals =====
+
+  private buildPreview(holder: string | null | undefined, quote: BurnQuote, fee: ExitFeeBreakdown, now: number): WithdrawalPreview {
+    const nav = poolAccounting.getNav()
+    const aheadValue = this.getQueue().reduce((total, request) => total + this.valueOf(nav, remainingShares(request)), 0)
+    const { epochCapacity, etaEpochs, eta } = this.etaFor(aheadValue + quote.grossAmount, now)
+    return {
+      quote,
+      fee,
+      availableShares: this.getAvailableShares(holder),
+      position: this.getQueue().length + 1,
+      aheadValue,
+      epochCapacity,
+      etaEpochs,
+      eta,
+      cooldownEndsAt: this.getCooldownEndsAt(holder, now)
+    }
+  }
+
+  private etaFor(throughValue: number, now: number) {
+    const epochCapacity = this.getEpochCapacity()
+    const etaEpochs = epochCapacity > 0 ? Math.max(Math.ceil(throughValue / epochCapacity), 1) : Infinity
+    return { epochCapacity, etaEpochs, eta: getEpochStart(getEpoch(now) + etaEpochs) }
+  }
+
+  private enqueue(holder: string | null | undefined, preview: WithdrawalPreview) {
+    if (preview.cooldownEndsAt !== null) {
+      throw new Error(`Withdrawals unlock after the deposit cooldown, at ${new Date(preview.cooldownEndsAt).toLocaleString()}`)
+    }
+    if (preview.quote.shares - preview.availableShares > DUST_SHARES) {
+      throw new Error(`Insufficient rLP: ${preview.availableShares.toFixed(6)} available to withdraw`)
+    }
+    // A max withdrawal can round up past the holding by one unit
+    const shares = Math.min(preview.quote.shares, preview.availableShares)
+    if (shares <= 0) throw new Error('Nothing to withdraw')
+
+    const now = Date.now()
+    const request: WithdrawalRequest = {
+      id: `wd_${now}_${Math.random().toString(36).slice(2, 8)}`,
+      holder: holder ? holder.toLowerCase() : null,
+      shares,
+      filledShares: 0,
+      claimedShares: 0,
+      paidAmount: 0,
+      exitFee: 0,
+      feeRate: preview.fee.totalRate,
+      requestedAt: now,
+      requestEpoch: getEpoch(now),
+      status: 'queued'
+    }
+    this.requests = [...this.requests, request]
+    this.save()
+    this.notify()
+    this.updateTimer()
+    return { request: { ...request }, preview }
+  }
+
+  private processEpoch(epoch: number, now: number): EpochReport {
+    const nav = poolAccounting.getNav()
+    const capacity = this.getEpochCapacity()
+    let remaining = capacity
+    let paid = 0
+    let filledRequests = 0
+
+    // Only requests made before the epoch began are eligible. Paused or illiquid
+    // pools leave the rest of the queue in place for the next epoch
+    for (const request of this.getQueue().filter(item => item.requestEpoch < epoch)) {
+      if (remaining <= 0 || nav.nav <= 0) break
+      const open = remainingShares(request)
+      const value = this.valueOf(nav, open)
+      const shares = value <= remaining
+        ? open
+        : Math.min(previewWithdraw(nav, remaining).shares, open)
+      if (shares < DUST_SHARES) break
+
+      const ledger = this.settlesOnLedger(request.holder)
+      if (ledger && previewRedeem(nav, shares, request.feeRate).netAmount > poolAccounting.getLiquidity()) {
+        this.update(request.id, { error: 'Waiting for pool liquidity' }, false)
+        break
+      }
+
+      try {
+        const quote = ledger
+          ? poolAccounting.redeem(request.holder, shares, request.feeRate)
+          : previewRedeem(nav, shares, request.feeRate)
+        const filled = { ...request, filledShares: request.filledShares + shares }
+        this.update(request.id, {
+          filledShares: filled.filledShares,
+          paidAmount: request.paidAmount + quote.netAmount,
+          exitFee: request.exitFee + quote.exitFee,
+          status: this.statusAfterFill(filled),
+          settledAt: now,
+          error: undefined
+        }, false)
+        remaining -= quote.grossAmount
+        paid += quote.netAmount
+        filledRequests += 1
+      } catch (error) {
+        // Liquidity and NAV are checked above, so what is left cannot succeed later
+        // (e.g. the holder no longer has the shares)
+        console.error('Failed to settle withdrawal request:', error)
+        const message = error instanceof Error ? error.message : String(error)
+        this.update(request.id, { status: 'cancelled', error: message, settledAt: now }, false)
+      }
+    }
+
+    return {
+      epoch,
+      processedAt: now,
+      capacity,
+      paid,
+      filledRequests,
+      carriedOver: this.getQueue().length
+    }
+  }
+
+  private statusAfterFill(request: WithdrawalRequest): WithdrawalStatus {
+    if (remainingShares(request) > DUST_SHARES) return 'queued'
+    if (!this.settlesOnLedger(request.holder) && request.claimedShares < request.filledShares) return 'claimable'
+    return 'completed'
+  }
+
+  private settlesOnLedger(holder: string | null): boolean {
+    return isDemoMode || holder === null
+  }
+
+  private valueOf(nav: PoolNav, shares: number): number {
+    return nav.totalSupply > 0 ? shares * nav.nav / nav.totalSupply : 0
+  }
+
+  private holderKey(holder?: string | null): string {
+    return holder ? holder.toLowerCase() : ''
+  }
+
+  private update(id: string, patch: Partial<WithdrawalRequest>, persist = true) {
+    this.requests = this.requests.map(request => request.id === id ? { ...request, ...patch } : request)
+    if (!persist) return
+    this.save()
+    this.notify()
+    this.updateTimer()
+  }
+
+  // Samples the rLP price at most once a minute and keeps a 24h window
+  private recordPrice(now = Date.now()) {
+    const last = this.priceSamples[this.priceSamples.length - 1]
+    const price = poolAccounting.getNav().rLPPrice
+    if (last && now - last.at < SAMPLE_INTERVAL && price <= last.price) return
+    this.priceSamples = [...this.priceSamples.filter(sample => sample.at >= now - DRAWDOWN_WINDOW_MS), { at: now, price }]
+    this.save()
+  }
+
+  // Polls for epoch boundaries only while something is queued
+  private updateTimer() {
+    const needed = this.getQueue().length > 0
+    if (needed && !this.timer && typeof window !== 'undefined') {
+      this.timer = setInterval(() => this.processDueEpochs(), CHECK_INTERVAL)
+    } else if (!needed && this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  private load() {
+    try {
+      if (typeof localStorage === 'undefined') return
+      const stored = localStorage.getItem(STORAGE_KEY)
+      if (!stored) return
+      const parsed = JSON.parse(stored) as StoredQueue
+      this.requests = parsed.requests ?? []
+      this.lastProcessedEpoch = parsed.lastProcessedEpoch ?? this.lastProcessedEpoch
+      this.reports = parsed.reports ?? []
+      this.priceSamples = parsed.priceSamples ?? []
+    } catch (error) {
+      console.error('Failed to load withdrawal queue:', error)
+    }
+  }
+
+  private save() {
+    try {
+      if (typeof localStorage === 'undefined') return
+      const stored: StoredQueue = {
+        requests: this.requests,
+        lastProcessedEpoch: this.lastProcessedEpoch,
+        reports: this.reports,
+        priceSamples: this.priceSamples
+      }
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(stored))
+    } catch (error) {
+      console.error('Failed to save withdrawal queue:', error)
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => {
+      try {
+        listener()
+      } catch (error) {
+        console.error('Withdrawal queue listener failed:', error)
+      }
+    })
+  }
+}
+
+export const withdrawalQueue = WithdrawalQueueService.getInstance()
@@ -1,12 +1,25 @@
-import { formatGwei, parseGwei, type Address } from 'viem'
-import { config } from '../config/wagmi'
-import { estimateGas, getGasPrice } from '@wagmi/core'
+import { formatGwei, hexToBigInt, parseAbi, parseGwei, type Address, type Hash, type Hex } from 'viem'
+import { config, isDemoMode } from '../config/wagmi'
+import { estimateGas, getAccount, getChainId, getPublicClient, readContract, sendTransaction } from '@wagmi/core'
 import { GAS_LIMITS } from '../constants/contractConstants'
+import {
+  arbitrumSepoliaFeeHistory,
+  arbitrumSepoliaL1BaseFee,
+  FEE_HISTORY_PERCENTILES,
+  type RawFeeHistory
+} from '../data/feeHistoryFixture'
+import { getUnifiedPrice } from './unifiedPriceAPI'
+import { transactionTracker, type TrackedTransaction, type TrackedTransactionType } from '../services/TransactionTracker'
+
+export type GasTierName = 'slow' | 'standard' | 'fast' | 'instant'
+
+// Operation classes that carry their own gas limit and budget policy
+export type GasAction = 'place_order' | 'cancel_order' | 'close_position' | 'batch_settle' | 'approve' | 'transfer'
 
 // Gas price tiers
 export interface GasPriceTier {
-  name: 'slow' | 'standard' | 'fast' | 'instant'
-  gasPrice: bigint
+  name: GasTierName
+  gasPrice: bigint // expected effective price: next base fee + priority fee
   maxFeePerGas: bigint
   maxPriorityFeePerGas: bigint
   estimatedTime: string
@@ -16,17 +29,249 @@ export interface GasPriceTier {
 export interface GasEstimation {
   gasLimit: bigint
   tiers: GasPriceTier[]
-  recommendedTier: 'slow' | 'standard' | 'fast' | 'instant'
+  recommendedTier: GasTierName
+  l1DataCostWei: bigint
   totalCostUSD: string
 }
 
+// eth_feeHistory decoded to bigints
+export interface FeeHistorySample {
+  oldestBlock: bigint
+  baseFeePerGas: bigint[] // blockCount + 1 entries; the last one is the next block's
+  gasUsedRatio: number[]
+  reward: bigint[][] // per block, one entry per reward percentile
+  rewardPercentiles: number[]
+}
+
+export interface NetworkFeeState {
+  nextBaseFee: bigint
+  trend: 'rising' | 'falling' | 'stable'
+  congestion: 'low' | 'moderate' | 'high'
+  averageGasUsedRatio: number
+  fromBlock: number
+  toBlock: number
+  source: 'rpc' | 'fixture' | 'fallback'
+  updatedAt: number
+}
+
+// Arbitrum charges the L1 calldata cost as extra L2 gas on top of execution
+export interface L1DataCost {
+  l1GasEstimate: bigint // in L2 gas units
+  l2BaseFee: bigint
+  l1BaseFeeEstimate: bigint
+  costWei: bigint
+}
+
+export interface GasBudgetPolicy {
+  tier: GasTierName
+  maxFeePerGasGwei: number // hard cap, including speed-ups
+  maxCostUSD: number // L2 execution + L1 data at the chosen tier
+  autoSpeedUp: boolean
+  stuckAfterMs: number
+  maxBumps: number
+  bumpPercent: number // nodes only accept replacements at +10% or more
+}
+
+export interface ActionCostEstimate {
+  action: GasAction
+  tier: GasTierName
+  gasLimit: bigint
+  maxFeePerGas: bigint
+  l2CostWei: bigint
+  l1CostWei: bigint
+  totalCostWei: bigint
+  totalCostUSD: number
+  withinBudget: boolean
+  violations: string[]
+}
+
+export interface StuckTransaction {
+  transaction: TrackedTransaction
+  action: GasAction
+  pendingForMs: number
+  bumps: number
+  canSpeedUp: boolean
+}
+
+interface TierSpec {
+  name: GasTierName
+  percentile: number // priority fee percentile across recent blocks
+  baseFeeHeadroom: bigint // percent of the next base fee covered by maxFeePerGas
+  estimatedTime: string
+}
+
+interface SentFees {
+  hash: Hash
+  maxFeePerGas: bigint
+  maxPriorityFeePerGas: bigint
+  bumps: number
+  sentAt: number
+}
+
+const TIER_SPECS: TierSpec[] = [
+  { name: 'slow', percentile: 10, baseFeeHeadroom: 110n, estimatedTime: '5-10 minutes' },
+  { name: 'standard', percentile: 50, baseFeeHeadroom: 125n, estimatedTime: '2-5 minutes' },
+  { name: 'fast', percentile: 75, baseFeeHeadroom: 150n, estimatedTime: '1-2 minutes' },
+  { name: 'instant', percentile: 90, baseFeeHeadroom: 200n, estimatedTime: '< 1 minute' }
+]
+
+const FEE_HISTORY_BLOCKS = 20
+const MIN_PRIORITY_FEE = parseGwei('0.001') // Arbitrum ignores tips, but zero-tip transactions are rejected by some wallets
+const MIN_REPLACEMENT_BUMP = 10
+const ETH_PRICE_FALLBACK_USD = 2500
+const MONITOR_INTERVAL = 15_000
+const POLICY_STORAGE_KEY = 'riverbit_gas_budget_policies'
+const ARBITRUM_CHAIN_IDS = [42161, 421614]
+
+// Arbitrum precompiles. NodeInterface only exists for eth_call/estimateGas; its
+// payable gasEstimateL1Component is declared view here so it can be read.
+const NODE_INTERFACE = '0x00000000000000000000000000000000000000C8' as Address
+const ARB_GAS_INFO = '0x000000000000000000000000000000000000006C' as Address
+const NODE_INTERFACE_ABI = parseAbi([
+  'function gasEstimateL1Component(address to, bool contractCreation, bytes data) view returns (uint64 gasEstimateForL1, uint256 baseFee, uint256 l1BaseFeeEstimate)'
+])
+const ARB_GAS_INFO_ABI = parseAbi(['function getL1BaseFeeEstimate() view returns (uint256)'])
+
+// Calldata of a typical call per action (selector + ABI-encoded args), plus the
+// fixed per-transaction bytes Arbitrum posts to L1
+const ACTION_CALLDATA_BYTES: Record<GasAction, number> = {
+  place_order: 4 + 7 * 32,
+  cancel_order: 4 + 32,
+  close_position: 4 + 3 * 32,
+  batch_settle: 4 + 32 * 60,
+  approve: 4 + 2 * 32,
+  transfer: 4 + 32
+}
+const L1_TX_OVERHEAD_BYTES = 140
+const L1_GAS_PER_BYTE = 16n
+
+export const DEFAULT_GAS_BUDGET_POLICIES: Record<GasAction, GasBudgetPolicy> = {
+  place_order: { tier: 'standard', maxFeePerGasGwei: 1, maxCostUSD: 0.5, autoSpeedUp: false, stuckAfterMs: 60_000, maxBumps: 3, bumpPercent: 15 },
+  cancel_order: { tier: 'fast', maxFeePerGasGwei: 2, maxCostUSD: 0.5, autoSpeedUp: false, stuckAfterMs: 30_000, maxBumps: 3, bumpPercent: 25 },
+  close_position: { tier: 'fast', maxFeePerGasGwei: 2, maxCostUSD: 1, autoSpeedUp: false, stuckAfterMs: 30_000, maxBumps: 3, bumpPercent: 25 },
+  batch_settle: { tier: 'slow', maxFeePerGasGwei: 0.5, maxCostUSD: 2, autoSpeedUp: false, stuckAfterMs: 300_000, maxBumps: 2, bumpPercent: 15 },
+  approve: { tier: 'slow', maxFeePerGasGwei: 1, maxCostUSD: 0.25, autoSpeedUp: false, stuckAfterMs: 120_000, maxBumps: 2, bumpPercent: 15 },
+  transfer: { tier: 'standard', maxFeePerGasGwei: 1, maxCostUSD: 0.5, autoSpeedUp: false, stuckAfterMs: 120_000, maxBumps: 2, bumpPercent: 15 }
+}
+
+// Actions that reduce exposure; a budget breach must not keep them off-chain
+const RISK_REDUCING_ACTIONS: GasAction[] = ['cancel_order', 'close_position']
+
+// Budget class of each tracked transaction type
+export function getGasActionForTransaction(type: TrackedTransactionType): GasAction {
+  switch (type) {
+    case 'open_position':
+    case 'place_order':
+      return 'place_order'
+    case 'cancel_order':
+      return 'cancel_order'
+    case 'close_position':
+      return 'close_position'
+    case 'batch_settle':
+      return 'batch_settle'
+    case 'approve_usdc':
+      return 'approve'
+    default:
+      return 'transfer'
+  }
+}
+
+export function parseFeeHistory(raw: RawFeeHistory, rewardPercentiles: number[] = FEE_HISTORY_PERCENTILES): FeeHistorySample {
+  return {
+    oldestBlock: hexToBigInt(raw.oldestBlock as Hex),
+    baseFeePerGas: raw.baseFeePerGas.map(value => hexToBigInt(value as Hex)),
+    gasUsedRatio: raw.gasUsedRatio,
+    reward: raw.reward.map(block => block.map(value => hexToBigInt(value as Hex))),
+    rewardPercentiles
+  }
+}
+
+function median(values: bigint[]): bigint {
+  if (values.length === 0) return 0n
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2n
+}
+
+function maxBigInt(a: bigint, b: bigint): bigint {
+  return a > b ? a : b
+}
+
+// Tiers from recent blocks: each tier's tip is the median, across blocks, of
+// its reward percentile; maxFeePerGas leaves headroom for base fee growth
+export function computeGasTiers(history: FeeHistorySample): GasPriceTier[] {
+  const nextBaseFee = history.baseFeePerGas[history.baseFeePerGas.length - 1] ?? 0n
+
+  return TIER_SPECS.map(spec => {
+    const index = history.rewardPercentiles.indexOf(spec.percentile)
+    const tips = index === -1 ? [] : history.reward.map(block => block[index] ?? 0n)
+    const priorityFee = maxBigInt(median(tips), MIN_PRIORITY_FEE)
+    return {
+      name: spec.name,
+      gasPrice: nextBaseFee + priorityFee,
+      maxFeePerGas: nextBaseFee * spec.baseFeeHeadroom / 100n + priorityFee,
+      maxPriorityFeePerGas: priorityFee,
+      estimatedTime: spec.estimatedTime
+    }
+  })
+}
+
+// Base fee trend compares the older and newer halves of the window; congestion
+// uses the most recent quarter of blocks
+export function analyzeFeeHistory(history: FeeHistorySample): Omit<NetworkFeeState, 'source' | 'updatedAt'> {
+  const fees = history.baseFeePerGas
+  const half = Math.floor(fees.length / 2)
+  const average = (values: bigint[]) => values.length === 0
+    ? 0
+    : Number(values.reduce((sum, value) => sum + value, 0n)) / values.length
+  const older = average(fees.slice(0, half))
+  const newer = average(fees.slice(half))
+  const change = older > 0 ? (newer - older) / older : 0
+
+  const recent = history.gasUsedRatio.slice(-Math.max(1, Math.ceil(history.gasUsedRatio.length / 4)))
+  const averageGasUsedRatio = recent.reduce((sum, value) => sum + value, 0) / recent.length
+
+  return {
+    nextBaseFee: fees[fees.length - 1] ?? 0n,
+    trend: change > 0.05 ? 'rising' : change < -0.05 ? 'falling' : 'stable',
+    congestion: averageGasUsedRatio >= 0.8 ? 'high' : averageGasUsedRatio >= 0.4 ? 'moderate' : 'low',
+    averageGasUsedRatio,
+    fromBlock: Number(history.oldestBlock),
+    toBlock: Number(history.oldestBlock) + history.gasUsedRatio.length - 1
+  }
+}
+
+// Replacement fees: at least `percent` above what was sent, and never below the
+// current target tier so a bump also catches up with the market
+export function bumpFees(
+  sent: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint },
+  percent: number,
+  target?: GasPriceTier
+): { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint } {
+  const factor = BigInt(100 + Math.max(MIN_REPLACEMENT_BUMP, Math.ceil(percent)))
+  const bump = (value: bigint) => (value * factor + 99n) / 100n
+  const maxPriorityFeePerGas = maxBigInt(bump(sent.maxPriorityFeePerGas), target?.maxPriorityFeePerGas ?? 0n)
+  const maxFeePerGas = maxBigInt(maxBigInt(bump(sent.maxFeePerGas), target?.maxFeePerGas ?? 0n), maxPriorityFeePerGas)
+  return { maxFeePerGas, maxPriorityFeePerGas }
+}
+
 // Gas optimization service
 export class GasOptimizationService {
   private static instance: GasOptimizationService
   private gasCache = new Map<string, { data: GasPriceTier[]; timestamp: number }>()
   private readonly CACHE_DURATION = 30000 // 30 seconds
-
-  private constructor() {}
+  private networkState: NetworkFeeState | null = null
+  private l1BaseFee: { value: bigint; timestamp: number } | null = null
+  private ethPriceUSD = ETH_PRICE_FALLBACK_USD
+  private policies: Record<GasAction, GasBudgetPolicy> = { ...DEFAULT_GAS_BUDGET_POLICIES }
+  private sentFees = new Map<string, SentFees>() // tracked record id -> latest fees sent for its nonce
+  private speedUps = new Set<string>()
+  private monitorTimer: ReturnType<typeof setInterval> | null = null
+
+  private constructor() {
+    this.loadPolicies()
+    this.updateMonitor()
+  }
 
   static getInstance(): GasOptimizationService {
     if (!GasOptimizationService.instance) {
@@ -45,71 +290,57 @@ export class GasOptimizationService {
     }
 
     try {
-      const currentGasPrice = await getGasPrice(config)
-      
-      // DEBUGGING: Log the raw gas price to understand the issue
-      console.log('Raw gas price from RPC:', {
-        currentGasPrice: currentGasPrice.toString(),
-        currentGasPriceInGwei: Number(currentGasPrice) / 1e9,
-        currentGasPriceFormatted: formatGwei(currentGasPrice)
-      })
-      
-      // SAFETY CHECK: Arbitrum gas prices should be very low
-      const gasPriceInGwei = Number(currentGasPrice) / 1e9
-      if (gasPriceInGwei > 10) {
-        console.warn(`Suspiciously high gas price detected: ${gasPriceInGwei} gwei, using fallback`)
-        return this.getFallbackGasPrices()
-      }
-      
-      // FIXED: Ensure priority fees are appropriate for Arbitrum
-      const basePriorityFee = parseGwei('0.001') // Very low for L2
-      
-      // Create different tiers based on current gas price
-      const tiers: GasPriceTier[] = [
-        {
-          name: 'slow',
-          gasPrice: currentGasPrice * 80n / 100n, // 80% of current
-          maxFeePerGas: currentGasPrice * 80n / 100n,
-          maxPriorityFeePerGas: basePriorityFee,
-          estimatedTime: '5-10 minutes'
-        },
-        {
-          name: 'standard',
-          gasPrice: currentGasPrice,
-          maxFeePerGas: currentGasPrice,
-          maxPriorityFeePerGas: basePriorityFee * 2n,
-          estimatedTime: '2-5 minutes'
-        },
-        {
-          name: 'fast',
-          gasPrice: currentGasPrice * 120n / 100n, // 120% of current
-          maxFeePerGas: currentGasPrice * 120n / 100n,
-          maxPriorityFeePerGas: basePriorityFee * 5n,
-          estimatedTime: '1-2 minutes'
-        },
-        {
-          name: 'instant',
-          gasPrice: currentGasPrice * 150n / 100n, // 150% of current
-          maxFeePerGas: currentGasPrice * 150n / 100n,
-          maxPriorityFeePerGas: basePriorityFee * 10n,
-          estimatedTime: '< 1 minute'
-        }
-      ]
-
-      // DEBUGGING: Log the calculated tiers
-      console.log('Calculated gas tiers:', tiers.map(tier => ({
-        name: tier.name,
-        gasPriceGwei: Number(tier.gasPrice) / 1e9,
-        maxFeePerGasGwei: Number(tier.maxFeePerGas) / 1e9,
-        maxPriorityFeePerGasGwei: Number(tier.maxPriorityFeePerGas) / 1e9
-      })))
+      const { history, source } = await this.getFeeHistory()
+      const tiers = computeGasTiers(history)
+      this.networkState = { ...analyzeFeeHistory(history), source, updatedAt: Date.now() }
+      this.refreshEthPrice()
 
       this.gasCache.set(cacheKey, { data: tiers, timestamp: Date.now() })
       return tiers
     } catch (error) {
-      console.error('Failed to fetch gas prices:', error)
+      console.error('Failed to fetch fee history:', error)
       // Return fallback gas prices
-      return this.getFallbackGasPrices()
+      const tiers = this.getFallbackGasPrices()
+      this.networkState = {
+        nextBaseFee: tiers[0].gasPrice,
+        trend: 'stable',
+        congestion: 'low',
+        averageGasUsedRatio: 0,
+        fromBlock: 0,
+        toBlock: 0,
+        source: 'fallback',
+        updatedAt: Date.now()
+      }
+      return tiers
+    }
+  }
+
+  // Base fee trend and congestion from the last fee history fetch
+  getNetworkFeeState(): NetworkFeeState | null {
+    return this.networkState ? { ...this.networkState } : null
+  }
+
+  // Recent blocks' base fees and tip percentiles; demo mode reads the fixture
+  async getFeeHistory(): Promise<{ history: FeeHistorySample; source: 'rpc' | 'fixture' }> {
+    if (isDemoMode) {
+      return { history: parseFeeHistory(arbitrumSepoliaFeeHistory), source: 'fixture' }
+    }
+
+    const client = getPublicClient(config)
+    if (!client) throw new Error('No public client for the connected chain')
+    const result = await client.getFeeHistory({
+      blockCount: FEE_HISTORY_BLOCKS,
+      rewardPercentiles: FEE_HISTORY_PERCENTILES
+    })
+    return {
+      history: {
+        oldestBlock: result.oldestBlock,
+        baseFeePerGas: result.baseFeePerGas,
+        gasUsedRatio: result.gasUsedRatio,
+        reward: result.reward ?? [],
+        rewardPercentiles: FEE_HISTORY_PERCENTILES
+      },
+      source: 'rpc'
     }
   }
 
@@ -165,42 +396,16 @@ export class GasOptimizationService {
 
       const tiers = await this.getGasPriceTiers()
       const recommendedTier = this.getRecommendedTier(tiers)
-      
-      // FIXED: Correct price calculation for Arbitrum
-      const ethPriceUSD = 2500 // Current ETH price estimate
-      
-      // Use standard tier (index 1) for calculation
+      const l1DataCost = await this.estimateL1DataCost(params)
+
       const standardTier = tiers.find(t => t.name === 'standard') || tiers[1]
-      const gasCostWei = gasLimit * standardTier.gasPrice
-      
-      // Safety check: prevent overflow and invalid calculations
-      if (gasCostWei > Number.MAX_SAFE_INTEGER) {
-        throw new Error('Gas cost calculation overflow - gas limit or price too high')
-      }
-      
-      // Convert wei to ETH properly
+      const l1DataCostWei = l1DataCost?.costWei ?? 0n
+      const gasCostWei = gasLimit * standardTier.gasPrice + l1DataCostWei
       const gasInEth = Number(gasCostWei) / 1e18
-      
-      // FIXED: Add additional safety check for Arbitrum L2 
-      // Arbitrum transactions should cost much less than mainnet
-      const totalCostUSD = (gasInEth * ethPriceUSD).toFixed(6)
-      const costNum = parseFloat(totalCostUSD)
-      
-      // ENHANCED: Safety check for Arbitrum - costs should be under $1 for most operations
-      if (costNum > 10) {
-        console.error(`CRITICAL: Extremely high gas cost detected: ${gasInEth} ETH ($${totalCostUSD})`)
-        console.error('Gas calculation details:', {
-          gasLimit: gasLimit.toString(),
-          gasPrice: standardTier.gasPrice.toString(),
-          gasCostWei: gasCostWei.toString(),
-          gasInEth,
-          ethPriceUSD
-        })
-        throw new Error(`Gas cost calculation error - unreasonably high cost: $${totalCostUSD}`)
-      }
-      
-      // WARNING: for costs between $1-$10
-      if (costNum > 1) {
+      const totalCostUSD = (gasInEth * this.ethPriceUSD).toFixed(6)
+
+      // Arbitrum transactions rarely cost more than a few cents
+      if (parseFloat(totalCostUSD) > 1) {
         console.warn(`High gas cost detected for Arbitrum: ${gasInEth} ETH ($${totalCostUSD})`)
       }
 
@@ -208,6 +413,7 @@ export class GasOptimizationService {
         gasLimit,
         tiers,
         recommendedTier,
+        l1DataCostWei,
         totalCostUSD
       }
     } catch (error) {
@@ -216,10 +422,263 @@ export class GasOptimizationService {
     }
   }
 
+  // L1 data cost of a transaction from the NodeInterface precompile, falling back
+  // to pricing its calldata at the L1 base fee estimate. Null off Arbitrum.
+  async estimateL1DataCost(params: { to: Address; data: `0x${string}` }): Promise<L1DataCost | null> {
+    if (!isDemoMode) {
+      if (!ARBITRUM_CHAIN_IDS.includes(getChainId(config))) return null
+      try {
+        const [l1GasEstimate, l2BaseFee, l1BaseFeeEstimate] = await readContract(config, {
+          address: NODE_INTERFACE,
+          abi: NODE_INTERFACE_ABI,
+          functionName: 'gasEstimateL1Component',
+          args: [params.to, false, params.data]
+        })
+        return { l1GasEstimate, l2BaseFee, l1BaseFeeEstimate, costWei: l1GasEstimate * l2BaseFee }
+      } catch (error) {
+        console.warn('NodeInterface L1 estimate failed, pricing calldata instead:', error)
+      }
+    }
+
+    return this.estimateCalldataL1Cost((params.data.length - 2) / 2)
+  }
+
+  // L1 base fee estimate from ArbGasInfo, cached with the gas tiers
+  async getL1BaseFeeEstimate(): Promise<bigint | null> {
+    if (this.l1BaseFee && Date.now() - this.l1BaseFee.timestamp < this.CACHE_DURATION) {
+      return this.l1BaseFee.value
+    }
+
+    try {
+      const value = isDemoMode
+        ? hexToBigInt(arbitrumSepoliaL1BaseFee as Hex)
+        : ARBITRUM_CHAIN_IDS.includes(getChainId(config))
+          ? await readContract(config, { address: ARB_GAS_INFO, abi: ARB_GAS_INFO_ABI, functionName: 'getL1BaseFeeEstimate' })
+          : null
+      if (value === null) return null
+      this.l1BaseFee = { value, timestamp: Date.now() }
+      return value
+    } catch (error) {
+      console.error('Failed to read L1 base fee estimate:', error)
+      return null
+    }
+  }
+
+  // Cost of one action at a tier (L2 execution plus L1 data) against its budget
+  async estimateActionCost(action: GasAction, tierName?: GasTierName): Promise<ActionCostEstimate> {
+    const policy = this.getBudgetPolicy(action)
+    const tiers = await this.getGasPriceTiers()
+    const tier = tiers.find(t => t.name === (tierName ?? policy.tier)) ?? tiers[1]
+    const gasLimit = this.getOptimalGasSettings(action).gasLimit
+
+    const l1 = await this.estimateCalldataL1Cost(ACTION_CALLDATA_BYTES[action])
+    const l2CostWei = gasLimit * tier.gasPrice
+    const l1CostWei = l1?.costWei ?? 0n
+    const totalCostWei = l2CostWei + l1CostWei
+    const totalCostUSD = Number(totalCostWei) / 1e18 * this.ethPriceUSD
+
+    const violations: string[] = []
+    const maxFeeCap = parseGwei(policy.maxFeePerGasGwei.toString())
+    if (tier.maxFeePerGas > maxFeeCap) {
+      violations.push(`Max fee ${formatGwei(tier.maxFeePerGas)} gwei is above the ${policy.maxFeePerGasGwei} gwei cap`)
+    }
+    if (totalCostUSD > policy.maxCostUSD) {
+      violations.push(`Estimated cost $${totalCostUSD.toFixed(4)} is above the $${policy.maxCostUSD} budget`)
+    }
+
+    return {
+      action,
+      tier: tier.name,
+      gasLimit,
+      maxFeePerGas: tier.maxFeePerGas,
+      l2CostWei,
+      l1CostWei,
+      totalCostWei,
+      totalCostUSD,
+      withinBudget: violations.length === 0,
+      violations
+    }
+  }
+
+  // Fee fields for a write at the action's policy tier. Over budget this throws,
+  // except for risk-reducing actions, which warn and still go out at the tier
+  async getFeeOverrides(action: GasAction): Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }> {
+    const estimate = await this.estimateActionCost(action)
+    if (!estimate.withinBudget) {
+      const message = `Gas budget exceeded for ${action.replace('_', ' ')}: ${estimate.violations.join('; ')}`
+      if (!RISK_REDUCING_ACTIONS.includes(action)) throw new Error(message)
+      console.warn(`${message}; sending anyway because it reduces risk`)
+    }
+    const tier = (await this.getGasPriceTiers()).find(t => t.name === estimate.tier)!
+    return { maxFeePerGas: tier.maxFeePerGas, maxPriorityFeePerGas: tier.maxPriorityFeePerGas }
+  }
+
+  private async estimateCalldataL1Cost(calldataBytes: number): Promise<L1DataCost | null> {
+    const l1BaseFeeEstimate = await this.getL1BaseFeeEstimate()
+    if (l1BaseFeeEstimate === null) return null
+
+    const l2BaseFee = this.networkState?.nextBaseFee ?? 0n
+    const costWei = BigInt(Math.ceil(calldataBytes) + L1_TX_OVERHEAD_BYTES) * L1_GAS_PER_BYTE * l1BaseFeeEstimate
+    return {
+      l1GasEstimate: l2BaseFee > 0n ? costWei / l2BaseFee : 0n,
+      l2BaseFee,
+      l1BaseFeeEstimate,
+      costWei
+    }
+  }
+
+  private refreshEthPrice() {
+    getUnifiedPrice('ETH')
+      .then(data => {
+        if (data && data.price > 0) this.ethPriceUSD = data.price
+      })
+      .catch(() => {})
+  }
+
   // Get recommended gas tier based on current network conditions
-  private getRecommendedTier(tiers: GasPriceTier[]): 'slow' | 'standard' | 'fast' | 'instant' {
-    // For Arbitrum, standard is usually fine due to low congestion
-    return 'standard'
+  private getRecommendedTier(tiers: GasPriceTier[]): GasTierName {
+    switch (this.networkState?.congestion) {
+      case 'high':
+        return 'fast'
+      default:
+        return 'standard'
+    }
+  }
+
+  // ===== Budget policies =====
+
+  getBudgetPolicy(action: GasAction): GasBudgetPolicy {
+    return { ...this.policies[action] }
+  }
+
+  getBudgetPolicies(): Record<GasAction, GasBudgetPolicy> {
+    return { ...this.policies }
+  }
+
+  setBudgetPolicy(action: GasAction, patch: Partial<GasBudgetPolicy>) {
+    this.policies = { ...this.policies, [action]: { ...this.policies[action], ...patch } }
+    try {
+      localStorage.setItem(POLICY_STORAGE_KEY, JSON.stringify(this.policies))
+    } catch (error) {
+      console.error('Failed to save gas budget policies:', error)
+    }
+    this.updateMonitor()
+  }
+
+  private loadPolicies() {
+    try {
+      if (typeof localStorage === 'undefined') return
+      const stored = localStorage.getItem(POLICY_STORAGE_KEY)
+      if (!stored) return
+      const parsed = JSON.parse(stored) as Partial<Record<GasAction, Partial<GasBudgetPolicy>>>
+      for (const action of Object.keys(DEFAULT_GAS_BUDGET_POLICIES) as GasAction[]) {
+        this.policies[action] = { ...DEFAULT_GAS_BUDGET_POLICIES[action], ...parsed[action] }
+      }
+    } catch (error) {
+      console.error('Failed to load gas budget policies:', error)
+    }
+  }
+
+  // ===== Stuck transactions =====
+
+  // Pending transactions of the wallet that have waited past their policy's threshold
+  getStuckTransactions(userAddress: string): StuckTransaction[] {
+    const now = Date.now()
+    return transactionTracker.getTransactions(userAddress, { statuses: ['pending'] })
+      .map(transaction => {
+        const action = getGasActionForTransaction(transaction.type)
+        const policy = this.policies[action]
+        const sent = this.sentFees.get(transaction.id)
+        return {
+          transaction,
+          action,
+          pendingForMs: now - (sent?.sentAt ?? transaction.timestamp),
+          bumps: sent?.bumps ?? 0,
+          canSpeedUp: !isDemoMode && (sent?.bumps ?? 0) < policy.maxBumps,
+          stuckAfterMs: policy.stuckAfterMs
+        }
+      })
+      .filter(entry => entry.pendingForMs >= entry.stuckAfterMs)
+      .map(({ stuckAfterMs, ...entry }) => entry)
+  }
+
+  // Resend a pending transaction with the same nonce and bumped fees. The
+  // transaction tracker follows the original hash onto the replacement.
+  async speedUpTransaction(idOrHash: string): Promise<Hash> {
+    const record = transactionTracker.getTransaction(idOrHash)
+    if (!record || record.status !== 'pending') throw new Error('Transaction is no longer pending')
+    if (isDemoMode) throw new Error('Demo transactions confirm immediately and cannot be replaced')
+    if (this.speedUps.has(record.id)) throw new Error('A speed-up for this transaction is already in progress')
+
+    const action = getGasActionForTransaction(record.type)
+    const policy = this.policies[action]
+    const previous = this.sentFees.get(record.id)
+    if ((previous?.bumps ?? 0) >= policy.maxBumps) {
+      throw new Error(`Already sped up ${policy.maxBumps} times`)
+    }
+
+    this.speedUps.add(record.id)
+    try {
+      const chainId = record.chainId as (typeof config)['chains'][number]['id']
+      const client = getPublicClient(config, { chainId })
+      if (!client) throw new Error(`No public client for chain ${record.chainId}`)
+
+      const original = await client.getTransaction({ hash: record.hash as Hash })
+      const account = getAccount(config).address
+      if (!account || account.toLowerCase() !== original.from.toLowerCase()) {
+        throw new Error('Connect the wallet that sent this transaction to speed it up')
+      }
+
+      const sent = previous ?? {
+        maxFeePerGas: original.maxFeePerGas ?? original.gasPrice ?? 0n,
+        maxPriorityFeePerGas: original.maxPriorityFeePerGas ?? original.gasPrice ?? 0n
+      }
+      const tiers = await this.getGasPriceTiers()
+      const fees = bumpFees(sent, policy.bumpPercent, tiers.find(t => t.name === policy.tier))
+      const cap = parseGwei(policy.maxFeePerGasGwei.toString())
+      if (fees.maxFeePerGas > cap) {
+        throw new Error(`Replacement max fee ${formatGwei(fees.maxFeePerGas)} gwei is above the ${policy.maxFeePerGasGwei} gwei cap`)
+      }
+
+      const hash = await sendTransaction(config, {
+        account,
+        chainId,
+        to: original.to ?? undefined,
+        data: original.input,
+        value: original.value,
+        nonce: original.nonce,
+        gas: original.gas,
+        ...fees
+      })
+      this.sentFees.set(record.id, { hash, ...fees, bumps: (previous?.bumps ?? 0) + 1, sentAt: Date.now() })
+      return hash
+    } finally {
+      this.speedUps.delete(record.id)
+    }
+  }
+
+  // Auto speed-up runs only while some policy enables it
+  private updateMonitor() {
+    const enabled = !isDemoMode && Object.values(this.policies).some(policy => policy.autoSpeedUp)
+    if (enabled && !this.monitorTimer) {
+      this.monitorTimer = setInterval(() => this.speedUpStuckTransactions(), MONITOR_INTERVAL)
+    } else if (!enabled && this.monitorTimer) {
+      clearInterval(this.monitorTimer)
+      this.monitorTimer = null
+    }
+  }
+
+  private speedUpStuckTransactions() {
+    const account = getAccount(config).address
+    if (!account) return
+
+    this.getStuckTransactions(account)
+      .filter(entry => entry.canSpeedUp && this.policies[entry.action].autoSpeedUp && !this.speedUps.has(entry.transaction.id))
+      .forEach(entry => {
+        this.speedUpTransaction(entry.transaction.id).catch(error => {
+          console.warn(`Auto speed-up of ${entry.transaction.hash} skipped:`, error instanceof Error ? error.message : error)
+        })
+      })
   }
 
   // Optimize gas for batch operations
@@ -248,7 +707,7 @@ export class GasOptimizationService {
   }
 
   // Get optimal gas settings for different operation types
-  getOptimalGasSettings(operationType: 'place_order' | 'cancel_order' | 'close_position' | 'batch_settle' | 'approve'): {
+  getOptimalGasSettings(operationType: GasAction): {
     gasLimit: bigint
     priority: 'low' | 'medium' | 'high'
     description: string
@@ -284,6 +743,12 @@ export class GasOptimizationService {
           priority: 'low',
           description: 'Token approval, not time-sensitive'
         }
+      case 'transfer':
+        return {
+          gasLimit: 100_000n,
+          priority: 'medium',
+          description: 'Deposits, withdrawals and pool transfers'
+        }
       default:
         return {
           gasLimit: 200_000n,
@@ -297,36 +762,28 @@ export class GasOptimizationService {
   async getGasPriceTrends(): Promise<{
     current: string
     trend: 'rising' | 'falling' | 'stable'
+    congestion: 'low' | 'moderate' | 'high'
     recommendation: string
   }> {
-    try {
-      const currentGasPrice = await getGasPrice(config)
-      const currentFormatted = formatGwei(currentGasPrice)
-      
-      // In production, track historical data for trends
-      // For now, provide general recommendations
-      const recommendation = this.getGasRecommendation(currentGasPrice)
-      
-      return {
-        current: currentFormatted,
-        trend: 'stable', // Would be calculated from historical data
-        recommendation
-      }
-    } catch (error) {
-      console.error('Failed to get gas price trends:', error)
-      return {
-        current: '0.1',
-        trend: 'stable',
-        recommendation: 'Gas prices are currently stable for Arbitrum'
-      }
+    await this.getGasPriceTiers()
+    const state = this.networkState!
+    return {
+      current: formatGwei(state.nextBaseFee),
+      trend: state.trend,
+      congestion: state.congestion,
+      recommendation: state.source === 'fallback'
+        ? 'Gas prices are currently stable for Arbitrum'
+        : this.getGasRecommendation(state.nextBaseFee, state.trend)
     }
   }
 
   // Get gas price recommendation
-  private getGasRecommendation(gasPrice: bigint): string {
+  private getGasRecommendation(gasPrice: bigint, trend: 'rising' | 'falling' | 'stable' = 'stable'): string {
     const gasPriceGwei = Number(formatGwei(gasPrice))
     
-    if (gasPriceGwei < 0.1) {
+    if (trend === 'falling' && gasPriceGwei >= 0.5) {
+      return 'Base fee is falling - non-urgent transactions can wait for lower prices'
+    } else if (gasPriceGwei < 0.1) {
       return 'Excellent time to transact - very low gas prices'
     } else if (gasPriceGwei < 0.5) {
       return 'Good time to transact - moderate gas prices'
@@ -340,6 +797,7 @@ export class GasOptimizationService {
   // Clear gas cache
   clearCache() {
     this.gasCache.clear()
+    this.l1BaseFee = null
   }
 }
 
@@ -468,6 +926,7 @@ import React from 'react'
 
 export function useGasPrice() {
   const [gasPrices, setGasPrices] = React.useState<GasPriceTier[]>([])
+  const [networkState, setNetworkState] = React.useState<NetworkFeeState | null>(null)
   const [isLoading, setIsLoading] = React.useState(true)
   const [error, setError] = React.useState<string | null>(null)
 
@@ -480,6 +939,7 @@ export function useGasPrice() {
         const prices = await gasOptimizationService.getGasPriceTiers()
         if (mounted) {
           setGasPrices(prices)
+          setNetworkState(gasOptimizationService.getNetworkFeeState())
           setError(null)
         }
       } catch (err) {
@@ -505,5 +965,5 @@ export function useGasPrice() {
     }
   }, [])
 
-  return { gasPrices, isLoading, error }
+  return { gasPrices, networkState, isLoading, error }
 }
\ No newline at end of file
@@ -0,0 +1,98 @@
+// Minimal promise wrappers around IndexedDB. Every helper resolves to a
+// harmless default when IndexedDB is unavailable (SSR, private mode, tests),
+// so callers can fall back to in-memory state.
+
+export interface StoreSchema {
+  name: string
+  keyPath: string | string[]
+  indexes?: { name: string; keyPath: string | string[]; unique?: boolean }[]
+}
+
+const connections = new Map<string, Promise<IDBDatabase | null>>()
+
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+// Open (and create or upgrade) a database; connections are shared per name
+export function openDatabase(name: string, version: number, stores: StoreSchema[]): Promise<IDBDatabase | null> {
+  const existing = connections.get(name)
+  if (existing) return existing
+
+  const connection = new Promise<IDBDatabase | null>((resolve) => {
+    if (!isIndexedDBAvailable()) {
+      resolve(null)
+      return
+    }
+
+    const request = indexedDB.open(name, version)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      stores.forEach(schema => {
+        if (db.objectStoreNames.contains(schema.name)) return
+        const store = db.createObjectStore(schema.name, { keyPath: schema.keyPath })
+        schema.indexes?.forEach(index => {
+          store.createIndex(index.name, index.keyPath, { unique: index.unique ?? false })
+        })
+      })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      console.error(`Failed to open IndexedDB "${name}":`, request.error)
+      resolve(null)
+    }
+  })
+
+  connections.set(name, connection)
+  return connection
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+// Read every record matching `query` on an index (or the whole store)
+export async function getAllRecords<T>(
+  db: IDBDatabase | null,
+  storeName: string,
+  options: { index?: string; query?: IDBValidKey | IDBKeyRange } = {}
+): Promise<T[]> {
+  if (!db) return []
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName)
+  const source = options.index ? store.index(options.index) : store
+  return requestToPromise(source.getAll(options.query) as IDBRequest<T[]>)
+}
+
+export async function putRecords<T>(db: IDBDatabase | null, storeName: string, records: T[]): Promise<void> {
+  if (!db || records.length === 0) return
+  const transaction = db.transaction(storeName, 'readwrite')
+  const store = transaction.objectStore(storeName)
+  records.forEach(record => store.put(record))
+  await transactionDone(transaction)
+}
+
+export async function deleteRecords(db: IDBDatabase | null, storeName: string, keys: IDBValidKey[]): Promise<void> {
+  if (!db || keys.length === 0) return
+  const transaction = db.transaction(storeName, 'readwrite')
+  const store = transaction.objectStore(storeName)
+  keys.forEach(key => store.delete(key))
+  await transactionDone(transaction)
+}
+
+export async function clearStore(db: IDBDatabase | null, storeName: string): Promise<void> {
+  if (!db) return
+  const transaction = db.transaction(storeName, 'readwrite')
+  transaction.objectStore(storeName).clear()
+  await transactionDone(transaction)
+}
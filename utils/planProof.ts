@@ -0,0 +1,251 @@
+import {
+  concat,
+  keccak256,
+  recoverTypedDataAddress,
+  stringToHex,
+  toHex,
+  isAddressEqual,
+  isHex,
+  type Address,
+  type Hex
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { PLAN_PROOF_DOMAIN, PLAN_PROOF_TYPES } from '../constants/contractConstants'
+import type { TradingPlan } from '../components/ai/TradingPlanCard'
+
+// Commit-reveal proofs for AI trading plans. The commitment binds the full plan
+// (canonical JSON) to a random salt; the EIP-712 signature binds the commitment
+// to a signer and time. Everything here runs offline so third parties can verify.
+
+export const PLAN_ENCODING = 'riverbit-plan-v1'
+
+export type PlanSignerType = 'user' | 'platform'
+
+export interface PlanCommitmentMessage {
+  planId: string
+  commitment: Hex
+  committedAt: bigint
+  encoding: string
+}
+
+export interface PlanProofSigner {
+  address: Address
+  type: PlanSignerType
+  sign(message: PlanCommitmentMessage): Promise<Hex>
+}
+
+// Self-contained export: everything needed to check a revealed plan without RiverBit
+export interface PlanProofBundle {
+  version: 1
+  domain: typeof PLAN_PROOF_DOMAIN
+  types: typeof PLAN_PROOF_TYPES
+  primaryType: 'PlanCommitment'
+  message: {
+    planId: string
+    commitment: Hex
+    committedAt: string // uint256 as a decimal string so the bundle stays plain JSON
+    encoding: string
+  }
+  signer: Address
+  signerType: PlanSignerType
+  signature: Hex
+  plan: TradingPlan
+  salt: Hex
+  blockNumber?: number
+  txHash?: Hex
+}
+
+export interface PlanProofVerification {
+  valid: boolean
+  errors: string[]
+  recoveredSigner?: Address
+}
+
+// Fields derived from the commitment itself and therefore not part of it
+const EXCLUDED_PLAN_FIELDS = new Set(['hash'])
+
+// Deterministic JSON: sorted keys, undefined dropped, non-finite numbers rejected
+function canonicalize(value: unknown, path: string): string {
+  if (value === null) return 'null'
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) throw new Error(`Plan field ${path} is not a finite number`)
+    return JSON.stringify(value)
+  }
+  if (typeof value === 'string' || typeof value === 'boolean') return JSON.stringify(value)
+  if (Array.isArray(value)) {
+    return `[${value.map((item, i) => item === undefined ? 'null' : canonicalize(item, `${path}[${i}]`)).join(',')}]`
+  }
+  if (typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key], `${path}.${key}`)}`)
+    return `{${entries.join(',')}}`
+  }
+  throw new Error(`Plan field ${path} has unsupported type ${typeof value}`)
+}
+
+export function canonicalizePlan(plan: TradingPlan): string {
+  const fields = Object.fromEntries(
+    Object.entries(plan).filter(([key]) => !EXCLUDED_PLAN_FIELDS.has(key))
+  )
+  return canonicalize(fields, 'plan')
+}
+
+export function hashPlan(plan: TradingPlan): Hex {
+  return keccak256(stringToHex(canonicalizePlan(plan)))
+}
+
+export function createPlanSalt(): Hex {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)))
+}
+
+// keccak256(keccak256(canonicalPlan) || salt)
+export function computePlanCommitment(plan: TradingPlan, salt: Hex): Hex {
+  return keccak256(concat([hashPlan(plan), salt]))
+}
+
+export function toPlanCommitmentMessage(planId: string, commitment: Hex, committedAt: number): PlanCommitmentMessage {
+  return {
+    planId,
+    commitment,
+    committedAt: BigInt(committedAt),
+    encoding: PLAN_ENCODING
+  }
+}
+
+// Signs with a raw key held in memory (tests and server-side tooling; a platform
+// key must never be shipped in the client bundle)
+export function createLocalPlanSigner(privateKey: Hex, type: PlanSignerType = 'platform'): PlanProofSigner {
+  const account = privateKeyToAccount(privateKey)
+  return {
+    address: account.address,
+    type,
+    sign: message => account.signTypedData({
+      domain: PLAN_PROOF_DOMAIN,
+      types: PLAN_PROOF_TYPES,
+      primaryType: 'PlanCommitment',
+      message
+    })
+  }
+}
+
+// Platform attestations are signed by a server that holds the key. The client
+// only knows the published signer address and rejects any other signature.
+export function createRemotePlanSigner(url: string, address: Address): PlanProofSigner {
+  return {
+    address,
+    type: 'platform',
+    sign: async message => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...message, committedAt: message.committedAt.toString() })
+      })
+      if (!response.ok) {
+        throw new Error(`Plan proof signer returned ${response.status}`)
+      }
+      const { signature } = await response.json() as { signature: Hex }
+      const recovered = await recoverTypedDataAddress({
+        domain: PLAN_PROOF_DOMAIN,
+        types: PLAN_PROOF_TYPES,
+        primaryType: 'PlanCommitment',
+        message,
+        signature
+      })
+      if (!isAddressEqual(recovered, address)) {
+        throw new Error(`Plan proof signer answered as ${recovered}, not the published ${address}`)
+      }
+      return signature
+    }
+  }
+}
+
+export function createPlanProofBundle(params: {
+  plan: TradingPlan
+  salt: Hex
+  message: PlanCommitmentMessage
+  signer: Address
+  signerType: PlanSignerType
+  signature: Hex
+  blockNumber?: number
+  txHash?: Hex
+}): PlanProofBundle {
+  return {
+    version: 1,
+    domain: PLAN_PROOF_DOMAIN,
+    types: PLAN_PROOF_TYPES,
+    primaryType: 'PlanCommitment',
+    message: {
+      planId: params.message.planId,
+      commitment: params.message.commitment,
+      committedAt: params.message.committedAt.toString(),
+      encoding: params.message.encoding
+    },
+    signer: params.signer,
+    signerType: params.signerType,
+    signature: params.signature,
+    plan: params.plan,
+    salt: params.salt,
+    blockNumber: params.blockNumber,
+    txHash: params.txHash
+  }
+}
+
+// Offline verification of an exported bundle: recomputes the commitment from the
+// revealed plan and salt, then recovers the EIP-712 signer. `expectedSigner`
+// pins the key the verifier trusts (the bundle's own `signer` is only a claim).
+export async function verifyPlanProofBundle(
+  bundle: PlanProofBundle,
+  expectedSigner?: Address
+): Promise<PlanProofVerification> {
+  const errors: string[] = []
+
+  if (bundle?.version !== 1) {
+    return { valid: false, errors: [`Unsupported bundle version ${bundle?.version}`] }
+  }
+  if (bundle.message.encoding !== PLAN_ENCODING) {
+    errors.push(`Unsupported plan encoding ${bundle.message.encoding}`)
+  }
+  if (!isHex(bundle.salt) || bundle.salt.length !== 66) {
+    errors.push('Salt must be 32 bytes of hex')
+  }
+  if (bundle.plan?.id !== bundle.message.planId) {
+    errors.push('Plan id does not match the signed commitment')
+  }
+
+  try {
+    const commitment = computePlanCommitment(bundle.plan, bundle.salt)
+    if (commitment !== bundle.message.commitment) {
+      errors.push('Revealed plan and salt do not match the commitment')
+    }
+  } catch (error) {
+    errors.push(error instanceof Error ? error.message : 'Plan could not be encoded')
+  }
+
+  let recoveredSigner: Address | undefined
+  try {
+    recoveredSigner = await recoverTypedDataAddress({
+      domain: PLAN_PROOF_DOMAIN, // The bundle's copy is informational; never trust it for recovery
+      types: PLAN_PROOF_TYPES,
+      primaryType: 'PlanCommitment',
+      message: {
+        planId: bundle.message.planId,
+        commitment: bundle.message.commitment,
+        committedAt: BigInt(bundle.message.committedAt),
+        encoding: bundle.message.encoding
+      },
+      signature: bundle.signature
+    })
+    if (!isAddressEqual(recoveredSigner, bundle.signer)) {
+      errors.push(`Signature was made by ${recoveredSigner}, not ${bundle.signer}`)
+    }
+    if (expectedSigner && !isAddressEqual(recoveredSigner, expectedSigner)) {
+      errors.push(`Signer ${recoveredSigner} is not the expected ${expectedSigner}`)
+    }
+  } catch {
+    errors.push('Signature is malformed')
+  }
+
+  return { valid: errors.length === 0, errors, recoveredSigner }
+}
@@ -1,5 +1,7 @@
-import { poolData } from '../data/riverPoolData';
+import { poolAccounting } from '../services/PoolAccounting';
+import { withdrawalQueue } from '../services/WithdrawalQueue';
 
+// 未连接钱包时的演示存取，直接记入本地 rLP 账本
 export const handleDeposit = async (
   depositAmount: string,
   setIsDepositing: (value: boolean) => void,
@@ -10,26 +12,33 @@ export const handleDeposit = async (
   setIsDepositing(true);
   await new Promise(resolve => setTimeout(resolve, 2000));
   
-  alert(`成功存入 ${depositAmount} USDC，获得 ${(parseFloat(depositAmount) / poolData.rLPPrice).toFixed(6)} rLP`);
-  setDepositAmount('');
+  try {
+    const quote = poolAccounting.deposit(null, parseFloat(depositAmount));
+    alert(`成功存入 ${quote.amount.toFixed(2)} USDC，获得 ${quote.shares.toFixed(6)} rLP`);
+    setDepositAmount('');
+  } catch (error) {
+    alert(`存入失败：${(error as Error).message}`);
+  }
   setIsDepositing(false);
 };
 
 export const handleWithdraw = async (
   withdrawAmount: string,
   setIsWithdrawing: (value: boolean) => void,
-  setWithdrawAmount: (value: string) => void,
-  riskStatus: { drawdown: string }
+  setWithdrawAmount: (value: string) => void
 ) => {
   if (!withdrawAmount || parseFloat(withdrawAmount) <= 0) return;
   
   setIsWithdrawing(true);
   await new Promise(resolve => setTimeout(resolve, 2000));
   
-  const withdrawFee = riskStatus.drawdown === 'danger' ? 0.01 : 0;
-  const finalAmount = parseFloat(withdrawAmount) * (1 - withdrawFee);
-  
-  alert(`成功提取 ${finalAmount.toFixed(2)} USDC${withdrawFee > 0 ? `（扣除 1% 退出費）` : ''}`);
-  setWithdrawAmount('');
+  try {
+    const { preview } = withdrawalQueue.request(null, parseFloat(withdrawAmount));
+    const { quote } = preview;
+    alert(`提款申请已排队（第 ${preview.position} 位），预计 ${new Date(preview.eta).toLocaleString()} 到账 ${quote.netAmount.toFixed(2)} USDC，销毁 ${quote.shares.toFixed(6)} rLP${quote.exitFee > 0 ? `（扣除 ${quote.exitFee.toFixed(2)} USDC 退出费）` : ''}`);
+    setWithdrawAmount('');
+  } catch (error) {
+    alert(`提取失败：${(error as Error).message}`);
+  }
   setIsWithdrawing(false);
 };
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { hashStruct, keccak256, concat, type Hex } from 'viem'
+import { type SAuthTicket, SAUTH_TYPES, TRADING_CONFIG } from '../constants/contractConstants'
+
+// Merkle tree over a batch of S-Auth tickets
+export interface SAuthMerkleTree {
+  root: Hex
+  leaves: Hex[]
+  layers: Hex[][]
+}
+
+const ZERO_HASH = `0x${'0'.repeat(64)}` as Hex
+
+// Convert a ticket into the EIP-712 message shape used for signing and hashing
+export function toSAuthMessage(ticket: SAuthTicket) {
+  return {
+    user: ticket.user,
+    market: ticket.market as Hex,
+    side: ticket.side,
+    orderType: TRADING_CONFIG.ORDER_TYPES.indexOf(ticket.orderType),
+    size: BigInt(ticket.size),
+    price: BigInt(ticket.price),
+    stopPrice: BigInt(ticket.stopPrice),
+    leverage: BigInt(Math.round((ticket.leverage ?? 0) * 100)),
+    marginMode: ticket.marginMode ? TRADING_CONFIG.MARGIN_MODES.indexOf(ticket.marginMode) + 1 : 0,
+    reduceOnly: ticket.reduceOnly ?? false,
+    timestamp: BigInt(ticket.timestamp),
+    nonce: BigInt(ticket.nonce)
+  }
+}
+
+// EIP-712 struct hash of a ticket, used as the Merkle leaf
+export function hashSAuthTicket(ticket: SAuthTicket): Hex {
+  return hashStruct({
+    data: toSAuthMessage(ticket),
+    primaryType: 'SAuthTicket',
+    types: SAUTH_TYPES
+  })
+}
+
+// Hash a pair of nodes in sorted order (matches OpenZeppelin MerkleProof)
+export function hashSortedPair(a: Hex, b: Hex): Hex {
+  return BigInt(a) <= BigInt(b) ? keccak256(concat([a, b])) : keccak256(concat([b, a]))
+}
+
+// Build the tree bottom-up; an odd node at the end of a layer is promoted unchanged
+export function buildSAuthMerkleTree(tickets: SAuthTicket[]): SAuthMerkleTree {
+  const leaves = tickets.map(hashSAuthTicket)
+
+  if (leaves.length === 0) {
+    return { root: ZERO_HASH, leaves, layers: [[]] }
+  }
+
+  const layers: Hex[][] = [leaves]
+  while (layers[layers.length - 1].length > 1) {
+    const current = layers[layers.length - 1]
+    const next: Hex[] = []
+    for (let i = 0; i < current.length; i += 2) {
+      next.push(i + 1 < current.length ? hashSortedPair(current[i], current[i + 1]) : current[i])
+    }
+    layers.push(next)
+  }
+
+  return { root: layers[layers.length - 1][0], leaves, layers }
+}
+
+// Sibling path from the leaf at `index` up to the root
+export function getSAuthMerkleProof(tree: SAuthMerkleTree, index: number): Hex[] {
+  if (index < 0 || index >= tree.leaves.length) {
+    throw new Error(`Ticket index ${index} out of range for batch of ${tree.leaves.length}`)
+  }
+
+  const proof: Hex[] = []
+  let position = index
+  for (let level = 0; level < tree.layers.length - 1; level++) {
+    const layer = tree.layers[level]
+    const sibling = position % 2 === 0 ? position + 1 : position - 1
+    if (sibling < layer.length) {
+      proof.push(layer[sibling])
+    }
+    position = Math.floor(position / 2)
+  }
+  return proof
+}
+
+// Proofs for every ticket in batch order, as expected by `batchSettle`
+export function getSAuthMerkleProofs(tree: SAuthMerkleTree): Hex[][] {
+  return tree.leaves.map((_, index) => getSAuthMerkleProof(tree, index))
+}
+
+// Check that a ticket is included in a settled batch with the given root
+export function verifyTicketInclusion(ticket: SAuthTicket, proof: Hex[], root: Hex): boolean {
+  const computed = proof.reduce<Hex>(
+    (node, sibling) => hashSortedPair(node, sibling),
+    hashSAuthTicket(ticket)
+  )
+  return computed.toLowerCase() === root.toLowerCase()
+}
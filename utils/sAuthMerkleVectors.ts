@@ -0,0 +1,120 @@
+import type { Hex } from 'viem'
+import type { SAuthTicket } from '../constants/contractConstants'
+import {
+  buildSAuthMerkleTree,
+  getSAuthMerkleProofs,
+  verifyTicketInclusion
+} from './sAuthMerkle'
+
+// Fixed S-Auth batches with their expected leaves, root and proofs. The values
+// were computed independently of hashStruct (keccak256 over the ABI-encoded
+// typehash and fields, pairs hashed in sorted order), so they pin the leaf
+// encoding and tree shape the settlement contract expects.
+export interface SAuthMerkleVector {
+  name: string
+  tickets: SAuthTicket[]
+  leaves: Hex[]
+  root: Hex
+  proofs: Hex[][]
+}
+
+const TICKETS: SAuthTicket[] = [
+  {
+    user: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+    market: '0x4254432d50455250000000000000000000000000000000000000000000000000', // BTC-PERP
+    side: 0,
+    orderType: 'market',
+    size: '1000000000000000000',
+    price: '0',
+    stopPrice: '0',
+    timestamp: 1735689600,
+    nonce: 1,
+    leverage: 10,
+    marginMode: 'cross'
+  },
+  {
+    user: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+    market: '0x4554482d50455250000000000000000000000000000000000000000000000000', // ETH-PERP
+    side: 1,
+    orderType: 'limit',
+    size: '2500000000000000000',
+    price: '3400000000',
+    stopPrice: '0',
+    timestamp: 1735689660,
+    nonce: 2
+  },
+  {
+    user: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+    market: '0x784141504c2d5045525000000000000000000000000000000000000000000000', // xAAPL-PERP
+    side: 0,
+    orderType: 'stop_limit',
+    size: '10000000000000000000',
+    price: '190000000',
+    stopPrice: '189500000',
+    timestamp: 1735689720,
+    nonce: 1,
+    leverage: 2.5,
+    marginMode: 'isolated',
+    reduceOnly: true
+  }
+]
+
+const LEAVES: Hex[] = [
+  '0xc2b1708fa9b93e9c9c7bffcb68e96a8f3952c5734e3a40863d77db45b9d83e93',
+  '0x45a80dc1726b79c99a44170a54865dd2612ceb80b3fd3b215b1106a3aebca1ec',
+  '0x326769a35252ce99e097e634a733489c005165f84e9eb18c9501e5ed8d3d625b'
+]
+
+export const SAUTH_MERKLE_VECTORS: SAuthMerkleVector[] = [
+  {
+    // A single ticket is its own root
+    name: 'single ticket',
+    tickets: [TICKETS[0]],
+    leaves: [LEAVES[0]],
+    root: LEAVES[0],
+    proofs: [[]]
+  },
+  {
+    // The odd third leaf is promoted unchanged and pairs with the first node above it
+    name: 'three tickets',
+    tickets: TICKETS,
+    leaves: LEAVES,
+    root: '0xbfb41e0ac8ae4f5fce131819e61964a115b6d30109de348b61841d5f1d2e2684',
+    proofs: [
+      [LEAVES[1], LEAVES[2]],
+      [LEAVES[0], LEAVES[2]],
+      ['0xb449699a45ed17664fb64fed77a22017eb47ac200f17f07fbbf3f8b1a8cc5314']
+    ]
+  }
+]
+
+// Rebuilds every vector and returns a description of each mismatch; empty when all pass
+export function checkSAuthMerkleVectors(vectors: SAuthMerkleVector[] = SAUTH_MERKLE_VECTORS): string[] {
+  const failures: string[] = []
+  const same = (a: Hex, b: Hex) => a.toLowerCase() === b.toLowerCase()
+
+  vectors.forEach(vector => {
+    const tree = buildSAuthMerkleTree(vector.tickets)
+    const proofs = getSAuthMerkleProofs(tree)
+
+    vector.leaves.forEach((leaf, index) => {
+      if (!tree.leaves[index] || !same(tree.leaves[index], leaf)) {
+        failures.push(`${vector.name}: leaf ${index} is ${tree.leaves[index]}, expected ${leaf}`)
+      }
+    })
+    if (!same(tree.root, vector.root)) {
+      failures.push(`${vector.name}: root is ${tree.root}, expected ${vector.root}`)
+    }
+    vector.proofs.forEach((proof, index) => {
+      const actual = proofs[index] ?? []
+      if (actual.length !== proof.length || actual.some((node, i) => !same(node, proof[i]))) {
+        failures.push(`${vector.name}: proof ${index} is [${actual.join(', ')}], expected [${proof.join(', ')}]`)
+      }
+      if (!verifyTicketInclusion(vector.tickets[index], proof, vector.root)) {
+        failures.push(`${vector.name}: ticket ${index} does not verify against the expected root`)
+      }
+    })
+  })
+
+  return failures
+}
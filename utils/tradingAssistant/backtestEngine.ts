@@ -0,0 +1,376 @@
+// RiverBit Trading Assistant - Event-Driven Backtester
+// Replays historical PriceBar series through the strategy engine's rules
+
+import {
+  strategyEngine,
+  TechnicalAnalysis,
+  MarketRegimeDetector,
+  PositionSizingCalculator,
+  type PriceBar,
+  type StrategyConfig,
+  type TradingSignal
+} from './strategyEngine';
+import type {
+  BacktestResult,
+  BacktestTrade,
+  BacktestExitReason,
+  BacktestEquityPoint
+} from './performanceTracker';
+import { TRADING_CONFIG } from '../../constants/tradingConstants';
+
+// ============================================================================
+// TYPES AND INTERFACES
+// ============================================================================
+
+export interface BacktestConfig {
+  strategyName: string;
+  symbol: string;
+  timeframe: string;
+  initialBalance: number;
+  strategyConfig?: StrategyConfig; // defaults to the live engine's config
+  feeRate?: number;                // per side, defaults to TRADING_FEE_RATE
+  slippageBps?: number;            // adverse fill slippage in basis points
+  fundingRatePer8h?: number;       // positive: longs pay shorts
+  lookback?: number;               // bars fed to indicators on each step
+  warmupBars?: number;             // bars skipped before the first signal
+  maxBarsInTrade?: number;         // optional time stop
+}
+
+interface OpenPosition {
+  direction: 'long' | 'short';
+  entryTime: number;
+  entryPrice: number;
+  quantity: number;
+  notional: number;
+  leverage: number;
+  margin: number;
+  stopLoss: number;
+  takeProfit: number;
+  entryFee: number;
+  funding: number;
+  slippage: number;
+  entryIndex: number;
+  signal: TradingSignal;
+}
+
+const EIGHT_HOURS_MS = 8 * 60 * 60 * 1000;
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+const MAX_EQUITY_POINTS = 500;
+
+// ============================================================================
+// BACKTEST ENGINE
+// ============================================================================
+
+export class BacktestEngine {
+
+  // Run a strategy over bars (ascending). Signals are evaluated on bar close and
+  // filled at the next bar's open so no future data leaks into decisions.
+  // Async because user-defined strategies are evaluated in the sandbox worker.
+  async run(bars: PriceBar[], config: BacktestConfig): Promise<BacktestResult> {
+    const strategyConfig = config.strategyConfig ?? strategyEngine.getStrategyConfig(config.strategyName);
+    if (!strategyEngine.hasStrategy(config.strategyName) || !strategyConfig) {
+      throw new Error(`Unknown strategy: ${config.strategyName}`);
+    }
+
+    const feeRate = config.feeRate ?? TRADING_CONFIG.TRADING_FEE_RATE;
+    const slippage = (config.slippageBps ?? 5) / 10000;
+    const fundingRate = config.fundingRatePer8h ?? 0.0001;
+    const lookback = config.lookback ?? 200;
+    const warmup = config.warmupBars ?? 50;
+    const barInterval = this.estimateBarInterval(bars);
+
+    if (bars.length <= warmup + 1) {
+      throw new Error(`Backtest needs more than ${warmup + 1} bars, got ${bars.length}`);
+    }
+
+    let balance = config.initialBalance;
+    let position: OpenPosition | null = null;
+    let pendingSignal: TradingSignal | null = null;
+    let barsInMarket = 0;
+    let totalFees = 0;
+    let totalFunding = 0;
+    let totalSlippage = 0;
+    const trades: BacktestTrade[] = [];
+    const equity: BacktestEquityPoint[] = [];
+    let peak = balance;
+
+    const closePosition = (exitPrice: number, exitTime: number, exitIndex: number, exitReason: BacktestExitReason) => {
+      const open = position!;
+      const fillPrice = this.applySlippage(exitPrice, open.direction === 'long' ? 'sell' : 'buy', slippage);
+      const exitFee = open.quantity * fillPrice * feeRate;
+      const grossPnl = (open.direction === 'long' ? fillPrice - open.entryPrice : open.entryPrice - fillPrice) * open.quantity;
+      const exitSlippage = Math.abs(fillPrice - exitPrice) * open.quantity;
+      const pnl = grossPnl - open.entryFee - exitFee - open.funding;
+
+      // Entry fee and funding were already debited as they occurred
+      balance += grossPnl - exitFee;
+      totalFees += exitFee;
+      totalSlippage += exitSlippage;
+
+      trades.push({
+        entryTime: open.entryTime,
+        exitTime,
+        entryPrice: open.entryPrice,
+        exitPrice: fillPrice,
+        direction: open.direction,
+        pnl,
+        pnlPercentage: ((open.direction === 'long' ? fillPrice - open.entryPrice : open.entryPrice - fillPrice) / open.entryPrice) * 100,
+        reason: open.signal.reason,
+        exitReason,
+        quantity: open.quantity,
+        notional: open.notional,
+        leverage: open.leverage,
+        fees: open.entryFee + exitFee,
+        funding: open.funding,
+        slippage: open.slippage + exitSlippage,
+        barsHeld: exitIndex - open.entryIndex,
+        signalStrength: open.signal.strength
+      });
+      position = null;
+    };
+
+    for (let i = warmup; i < bars.length; i++) {
+      const bar = bars[i];
+
+      // 1. Fill the entry queued on the previous close at this bar's open
+      if (pendingSignal && !position) {
+        position = this.openPosition(pendingSignal, bar, i, balance, strategyConfig, bars, lookback, slippage, feeRate);
+        if (position) {
+          balance -= position.entryFee;
+          totalFees += position.entryFee;
+          totalSlippage += position.slippage;
+        }
+      }
+      pendingSignal = null;
+
+      // 2. Manage the open position against this bar's range
+      if (position) {
+        barsInMarket++;
+
+        // Funding accrues pro rata to bar length on the marked notional
+        const funding = position.quantity * bar.close * fundingRate * (barInterval / EIGHT_HOURS_MS) *
+          (position.direction === 'long' ? 1 : -1);
+        position.funding += funding;
+        balance -= funding;
+        totalFunding += funding;
+
+        const exit = this.checkExit(position, bar);
+        if (exit) {
+          closePosition(exit.price, bar.timestamp, i, exit.reason);
+        } else if (config.maxBarsInTrade && i - position.entryIndex >= config.maxBarsInTrade) {
+          closePosition(bar.close, bar.timestamp, i, 'time_exit');
+        }
+      }
+
+      // 3. Evaluate the strategy on this bar's close
+      if (i < bars.length - 1 && balance > 0) {
+        const signal = await this.evaluate(config.strategyName, bars.slice(Math.max(0, i - lookback + 1), i + 1), strategyConfig);
+        if (signal) {
+          if (position && signal.direction !== position.direction) {
+            closePosition(bar.close, bar.timestamp, i, 'signal_reversal');
+          }
+          if (!position) {
+            pendingSignal = signal;
+          }
+        }
+      }
+
+      // 4. Mark equity to market
+      const unrealized = position
+        ? (position.direction === 'long' ? bar.close - position.entryPrice : position.entryPrice - bar.close) * position.quantity
+        : 0;
+      const markedEquity = balance + unrealized;
+      peak = Math.max(peak, markedEquity);
+      equity.push({
+        timestamp: bar.timestamp,
+        equity: markedEquity,
+        drawdown: peak > 0 ? ((peak - markedEquity) / peak) * 100 : 0
+      });
+    }
+
+    if (position) {
+      const last = bars[bars.length - 1];
+      closePosition(last.close, last.timestamp, bars.length - 1, 'end_of_data');
+      equity[equity.length - 1].equity = balance;
+    }
+
+    return this.buildResult(config, bars, trades, equity, barInterval, {
+      finalBalance: balance,
+      exposure: (barsInMarket / (bars.length - warmup)) * 100,
+      totalFees,
+      totalFunding,
+      totalSlippage
+    });
+  }
+
+  private async evaluate(
+    strategyName: string,
+    window: PriceBar[],
+    config: StrategyConfig
+  ): Promise<TradingSignal | null> {
+    const indicators = TechnicalAnalysis.calculateIndicators(window, config.indicators.periods);
+    if (indicators.sma.length === 0 || indicators.rsi.length === 0 || indicators.atr.length === 0) return null;
+
+    const regime = MarketRegimeDetector.analyzeMarketRegime(window, indicators);
+    const signal = await strategyEngine.evaluateStrategy(strategyName, window, indicators, regime, config);
+    if (!signal || signal.strength < config.minConfidence) return null;
+
+    // Strategies stamp signals with wall-clock time; use the bar's time instead
+    return { ...signal, timestamp: window[window.length - 1].timestamp };
+  }
+
+  private openPosition(
+    signal: TradingSignal,
+    bar: PriceBar,
+    index: number,
+    balance: number,
+    config: StrategyConfig,
+    bars: PriceBar[],
+    lookback: number,
+    slippage: number,
+    feeRate: number
+  ): OpenPosition | null {
+    const fillPrice = this.applySlippage(bar.open, signal.direction === 'long' ? 'buy' : 'sell', slippage);
+
+    // Size from the ATR known at signal time (the previous bar's close)
+    const window = bars.slice(Math.max(0, index - lookback), index);
+    const atrSeries = TechnicalAnalysis.calculateATR(window, config.indicators.periods.atr ?? 14);
+    const atr = atrSeries[atrSeries.length - 1] || fillPrice * 0.02;
+
+    const sizing = PositionSizingCalculator.calculatePositionSize(signal, balance, config.riskParams, fillPrice, atr);
+    const { stopLoss, takeProfit } = PositionSizingCalculator.calculateStopLossAndTakeProfit(
+      signal,
+      fillPrice,
+      atr,
+      config.riskParams
+    );
+    if (!(sizing.notionalSize > 0) || sizing.margin > balance) return null;
+
+    const quantity = sizing.notionalSize / fillPrice;
+    return {
+      direction: signal.direction,
+      entryTime: bar.timestamp,
+      entryPrice: fillPrice,
+      quantity,
+      notional: sizing.notionalSize,
+      leverage: sizing.leverage,
+      margin: sizing.margin,
+      stopLoss: stopLoss.price,
+      takeProfit: takeProfit.price,
+      entryFee: sizing.notionalSize * feeRate,
+      funding: 0,
+      slippage: Math.abs(fillPrice - bar.open) * quantity,
+      entryIndex: index,
+      signal
+    };
+  }
+
+  // Stop and target checks against the bar range. A gap through a level fills
+  // at the open; when both levels sit inside one bar the stop is assumed first.
+  private checkExit(position: OpenPosition, bar: PriceBar): { price: number; reason: BacktestExitReason } | null {
+    if (position.direction === 'long') {
+      if (bar.low <= position.stopLoss) {
+        return { price: Math.min(bar.open, position.stopLoss), reason: 'stop_loss' };
+      }
+      if (bar.high >= position.takeProfit) {
+        return { price: Math.max(bar.open, position.takeProfit), reason: 'take_profit' };
+      }
+    } else {
+      if (bar.high >= position.stopLoss) {
+        return { price: Math.max(bar.open, position.stopLoss), reason: 'stop_loss' };
+      }
+      if (bar.low <= position.takeProfit) {
+        return { price: Math.min(bar.open, position.takeProfit), reason: 'take_profit' };
+      }
+    }
+    return null;
+  }
+
+  private applySlippage(price: number, side: 'buy' | 'sell', slippage: number): number {
+    return side === 'buy' ? price * (1 + slippage) : price * (1 - slippage);
+  }
+
+  // Median spacing between bars, robust to gaps in the data
+  private estimateBarInterval(bars: PriceBar[]): number {
+    const gaps: number[] = [];
+    for (let i = 1; i < Math.min(bars.length, 200); i++) {
+      gaps.push(bars[i].timestamp - bars[i - 1].timestamp);
+    }
+    gaps.sort((a, b) => a - b);
+    return gaps[Math.floor(gaps.length / 2)] || 60 * 60 * 1000;
+  }
+
+  private buildResult(
+    config: BacktestConfig,
+    bars: PriceBar[],
+    trades: BacktestTrade[],
+    equity: BacktestEquityPoint[],
+    barInterval: number,
+    totals: { finalBalance: number; exposure: number; totalFees: number; totalFunding: number; totalSlippage: number }
+  ): BacktestResult {
+    const wins = trades.filter(t => t.pnl > 0);
+    const losses = trades.filter(t => t.pnl <= 0);
+    const grossProfit = wins.reduce((sum, t) => sum + t.pnl, 0);
+    const grossLoss = Math.abs(losses.reduce((sum, t) => sum + t.pnl, 0));
+    const averageWin = wins.length > 0 ? grossProfit / wins.length : 0;
+
+    // Per-bar returns of the marked equity curve, annualized by bar frequency
+    const returns: number[] = [];
+    let previous = config.initialBalance;
+    for (const point of equity) {
+      if (previous > 0) returns.push(point.equity / previous - 1);
+      previous = point.equity;
+    }
+    const periodsPerYear = YEAR_MS / barInterval;
+    const mean = returns.length > 0 ? returns.reduce((a, b) => a + b, 0) / returns.length : 0;
+    const stdDev = Math.sqrt(returns.reduce((acc, r) => acc + Math.pow(r - mean, 2), 0) / Math.max(1, returns.length - 1));
+    const downsideDev = Math.sqrt(returns.reduce((acc, r) => acc + Math.pow(Math.min(0, r), 2), 0) / Math.max(1, returns.length));
+
+    return {
+      id: `backtest_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      strategyName: config.strategyName,
+      symbol: config.symbol,
+      timeframe: config.timeframe,
+      startDate: bars[0].timestamp,
+      endDate: bars[bars.length - 1].timestamp,
+      totalTrades: trades.length,
+      winRate: trades.length > 0 ? (wins.length / trades.length) * 100 : 0,
+      totalReturn: totals.finalBalance - config.initialBalance,
+      maxDrawdown: equity.reduce((max, point) => Math.max(max, point.drawdown), 0),
+      sharpeRatio: stdDev > 0 ? (mean / stdDev) * Math.sqrt(periodsPerYear) : 0,
+      profitFactor: grossLoss > 0 ? grossProfit / grossLoss : averageWin,
+      averageWin,
+      averageLoss: losses.length > 0 ? grossLoss / losses.length : 0,
+      initialBalance: config.initialBalance,
+      finalBalance: totals.finalBalance,
+      totalReturnPercent: ((totals.finalBalance - config.initialBalance) / config.initialBalance) * 100,
+      sortinoRatio: downsideDev > 0 ? (mean / downsideDev) * Math.sqrt(periodsPerYear) : 0,
+      exposure: totals.exposure,
+      totalFees: totals.totalFees,
+      totalFunding: totals.totalFunding,
+      totalSlippage: totals.totalSlippage,
+      barsTested: bars.length,
+      trades,
+      equityCurve: this.downsample(equity),
+      createdAt: Date.now()
+    };
+  }
+
+  // Keep stored results small; metrics are computed on the full curve
+  private downsample(equity: BacktestEquityPoint[]): BacktestEquityPoint[] {
+    if (equity.length <= MAX_EQUITY_POINTS) return equity;
+    const step = equity.length / MAX_EQUITY_POINTS;
+    const sampled: BacktestEquityPoint[] = [];
+    for (let i = 0; i < MAX_EQUITY_POINTS; i++) {
+      sampled.push(equity[Math.floor(i * step)]);
+    }
+    sampled[sampled.length - 1] = equity[equity.length - 1];
+    return sampled;
+  }
+}
+
+// ============================================================================
+// EXPORT DEFAULT INSTANCE
+// ============================================================================
+
+export const backtestEngine = new BacktestEngine();
@@ -0,0 +1,288 @@
+// RiverBit Trading Assistant - Rolling Correlation Engine
+// Estimates pairwise return correlations from stored candles for every tradable asset
+
+import { MARKET_CONFIG } from '../../constants/contractConstants';
+import { CRYPTO_ASSETS, STOCK_ASSETS } from '../../types/asset';
+import { candleStore, toCandleSymbol, type CandleTimeframe } from '../../services/CandleStore';
+import type { CorrelationMatrix } from './riskManager';
+
+// ============================================================================
+// TYPES AND INTERFACES
+// ============================================================================
+
+export interface CorrelationConfig {
+  timeframe: CandleTimeframe;
+  lookback: number;              // Returns per estimate (bars - 1)
+  minObservations: number;       // Pairs with fewer overlapping returns are left unestimated
+  shrinkage: number;             // 0-1 weight on the shrinkage target
+  shrinkageTarget: 'zero' | 'average'; // Zero correlation, or the mean off-diagonal correlation
+  refreshInterval: number;       // ms between automatic refreshes when started
+}
+
+export interface CorrelationSnapshot {
+  symbols: string[];
+  matrix: CorrelationMatrix;      // Shrunk estimates; missing pairs had too little overlap
+  observations: Record<string, Record<string, number>>;
+  config: CorrelationConfig;
+  updatedAt: number;
+}
+
+export interface CorrelationCluster {
+  symbols: string[];
+  averageCorrelation: number;
+}
+
+type SnapshotListener = (snapshot: CorrelationSnapshot) => void;
+
+export const DEFAULT_CORRELATION_CONFIG: CorrelationConfig = {
+  timeframe: '1h',
+  lookback: 168, // One week of hourly returns
+  minObservations: 30,
+  shrinkage: 0.2,
+  shrinkageTarget: 'average',
+  refreshInterval: 5 * 60 * 1000
+};
+
+// ============================================================================
+// CORRELATION ENGINE
+// ============================================================================
+
+export class CorrelationEngine {
+  private config: CorrelationConfig = { ...DEFAULT_CORRELATION_CONFIG };
+  private snapshot: CorrelationSnapshot | null = null;
+  private listeners = new Set<SnapshotListener>();
+  private refreshTimer: ReturnType<typeof setInterval> | null = null;
+  private refreshing: Promise<CorrelationSnapshot> | null = null;
+
+  // Every asset in MARKET_CONFIG and the asset catalogue, as candle symbols
+  getUniverse(): string[] {
+    const symbols = [
+      ...MARKET_CONFIG.CRYPTO_MARKETS.map(market => market.baseAsset),
+      ...MARKET_CONFIG.STOCK_MARKETS.map(market => market.baseAsset),
+      ...CRYPTO_ASSETS.map(asset => asset.symbol),
+      ...STOCK_ASSETS.map(asset => asset.symbol)
+    ];
+    return Array.from(new Set(symbols.map(toCandleSymbol))).sort();
+  }
+
+  updateConfig(config: Partial<CorrelationConfig>) {
+    this.config = { ...this.config, ...config };
+    this.config.shrinkage = Math.min(1, Math.max(0, this.config.shrinkage));
+    if (this.refreshTimer) {
+      this.stop();
+      this.start();
+    }
+  }
+
+  getConfig(): CorrelationConfig {
+    return { ...this.config };
+  }
+
+  start() {
+    if (this.refreshTimer) return;
+    this.refresh().catch(error => console.error('Correlation refresh failed:', error));
+    this.refreshTimer = setInterval(() => {
+      this.refresh().catch(error => console.error('Correlation refresh failed:', error));
+    }, this.config.refreshInterval);
+  }
+
+  stop() {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  // Concurrent callers share one in-flight refresh
+  refresh(symbols: string[] = this.getUniverse()): Promise<CorrelationSnapshot> {
+    if (!this.refreshing) {
+      this.refreshing = this.computeSnapshot(symbols).finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  getSnapshot(): CorrelationSnapshot | null {
+    return this.snapshot;
+  }
+
+  // null when the pair has not been estimated (unknown symbol or too little overlap)
+  getCorrelation(a: string, b: string): number | null {
+    const first = toCandleSymbol(a);
+    const second = toCandleSymbol(b);
+    if (first === second) return 1;
+    return this.snapshot?.matrix[first]?.[second] ?? null;
+  }
+
+  // Groups symbols linked (transitively) by |correlation| >= threshold
+  findClusters(
+    symbols: string[],
+    threshold: number,
+    correlationOf: (a: string, b: string) => number | null = (a, b) => this.getCorrelation(a, b)
+  ): CorrelationCluster[] {
+    const unique = Array.from(new Set(symbols.map(toCandleSymbol)));
+    const parent = new Map(unique.map(symbol => [symbol, symbol]));
+    const find = (symbol: string): string => {
+      const root = parent.get(symbol)!;
+      if (root === symbol) return symbol;
+      const top = find(root);
+      parent.set(symbol, top);
+      return top;
+    };
+
+    for (let i = 0; i < unique.length; i++) {
+      for (let j = i + 1; j < unique.length; j++) {
+        const correlation = correlationOf(unique[i], unique[j]);
+        if (correlation !== null && Math.abs(correlation) >= threshold) {
+          parent.set(find(unique[i]), find(unique[j]));
+        }
+      }
+    }
+
+    const groups = new Map<string, string[]>();
+    unique.forEach(symbol => {
+      const root = find(symbol);
+      groups.set(root, [...(groups.get(root) ?? []), symbol]);
+    });
+
+    return Array.from(groups.values()).map(members => {
+      let sum = 0;
+      let pairs = 0;
+      for (let i = 0; i < members.length; i++) {
+        for (let j = i + 1; j < members.length; j++) {
+          const correlation = correlationOf(members[i], members[j]);
+          if (correlation !== null) {
+            sum += correlation;
+            pairs++;
+          }
+        }
+      }
+      return { symbols: members, averageCorrelation: pairs > 0 ? sum / pairs : 1 };
+    });
+  }
+
+  subscribe(listener: SnapshotListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ============================================================================
+  // ESTIMATION
+  // ============================================================================
+
+  private async computeSnapshot(symbols: string[]): Promise<CorrelationSnapshot> {
+    const config = { ...this.config };
+    const universe = Array.from(new Set(symbols.map(toCandleSymbol)));
+
+    // Log returns keyed by bar timestamp so pairs only compare overlapping bars
+    const returns = new Map<string, Map<number, number>>();
+    for (const symbol of universe) {
+      const bars = await candleStore.getBars(symbol, config.timeframe, { limit: config.lookback + 1 });
+      const series = new Map<number, number>();
+      for (let i = 1; i < bars.length; i++) {
+        if (bars[i - 1].close > 0 && bars[i].close > 0) {
+          series.set(bars[i].timestamp, Math.log(bars[i].close / bars[i - 1].close));
+        }
+      }
+      if (series.size >= config.minObservations) returns.set(symbol, series);
+    }
+
+    const raw: CorrelationMatrix = {};
+    const observations: Record<string, Record<string, number>> = {};
+    const estimated = universe.filter(symbol => returns.has(symbol));
+    estimated.forEach(symbol => {
+      raw[symbol] = {};
+      observations[symbol] = {};
+    });
+
+    for (let i = 0; i < estimated.length; i++) {
+      for (let j = i + 1; j < estimated.length; j++) {
+        const a = estimated[i];
+        const b = estimated[j];
+        const result = this.pearson(returns.get(a)!, returns.get(b)!);
+        if (result.count < config.minObservations || result.correlation === null) continue;
+        raw[a][b] = raw[b][a] = result.correlation;
+        observations[a][b] = observations[b][a] = result.count;
+      }
+    }
+
+    const matrix = this.shrink(raw, config);
+    estimated.forEach(symbol => {
+      matrix[symbol] = matrix[symbol] ?? {};
+      matrix[symbol][symbol] = 1;
+    });
+
+    const snapshot: CorrelationSnapshot = {
+      symbols: estimated,
+      matrix,
+      observations,
+      config,
+      updatedAt: Date.now()
+    };
+    this.snapshot = snapshot;
+    this.listeners.forEach(listener => {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        console.error('Correlation listener failed:', error);
+      }
+    });
+    return snapshot;
+  }
+
+  private pearson(a: Map<number, number>, b: Map<number, number>): { correlation: number | null; count: number } {
+    let count = 0;
+    let sumA = 0;
+    let sumB = 0;
+    let sumAA = 0;
+    let sumBB = 0;
+    let sumAB = 0;
+
+    a.forEach((x, timestamp) => {
+      const y = b.get(timestamp);
+      if (y === undefined) return;
+      count++;
+      sumA += x;
+      sumB += y;
+      sumAA += x * x;
+      sumBB += y * y;
+      sumAB += x * y;
+    });
+
+    if (count < 2) return { correlation: null, count };
+    const covariance = sumAB - (sumA * sumB) / count;
+    const varianceA = sumAA - (sumA * sumA) / count;
+    const varianceB = sumBB - (sumB * sumB) / count;
+    if (varianceA <= 0 || varianceB <= 0) return { correlation: null, count };
+
+    const correlation = covariance / Math.sqrt(varianceA * varianceB);
+    return { correlation: Math.max(-1, Math.min(1, correlation)), count };
+  }
+
+  // Linear shrinkage of every estimated off-diagonal entry toward the target
+  private shrink(raw: CorrelationMatrix, config: CorrelationConfig): CorrelationMatrix {
+    const values: number[] = [];
+    Object.entries(raw).forEach(([a, row]) => {
+      Object.entries(row).forEach(([b, value]) => {
+        if (a < b) values.push(value);
+      });
+    });
+    const target = config.shrinkageTarget === 'average' && values.length > 0
+      ? values.reduce((sum, value) => sum + value, 0) / values.length
+      : 0;
+
+    const shrunk: CorrelationMatrix = {};
+    Object.entries(raw).forEach(([a, row]) => {
+      shrunk[a] = {};
+      Object.entries(row).forEach(([b, value]) => {
+        shrunk[a][b] = (1 - config.shrinkage) * value + config.shrinkage * target;
+      });
+    });
+    return shrunk;
+  }
+}
+
+export const correlationEngine = new CorrelationEngine();
@@ -1,6 +1,9 @@
-import { ethers } from 'ethers';
-import { web3Manager, TransactionStatus, Transaction, formatNumber } from '../web3Utils';
+import { formatNumber } from '../web3Utils';
 import { DEFAULT_PARAMS, formatUSDC, parseUSDC } from '../contractConfig';
+import { orderGateway, toOrderRejectedError, type OrderCheckResult } from '../../services/OrderGateway';
+import { getChainAdapter, type ChainTransaction } from '../../services/ChainAdapter';
+import { transactionTracker, type TrackedTransaction, type TrackedTransactionType } from '../../services/TransactionTracker';
+import type { Address } from 'viem';
 
 // Trading Plan Types
 export interface TradingPlan {
@@ -73,6 +76,7 @@ export interface PreflightChecks {
     requiredMargin: number;
     availableMargin: number;
   };
+  orderCheck?: OrderCheckResult; // Order gateway verdict for opening plans
   overall: boolean;
   warnings: string[];
   blockers: string[];
@@ -87,7 +91,7 @@ export interface ExecutionStatus {
   progress: number; // 0-100
   completedSteps: ExecutionStep[];
   currentStepStatus?: ExecutionStep;
-  transactions: Transaction[];
+  transactions: TrackedTransaction[];
   startTime: Date;
   endTime?: Date;
   error?: string;
@@ -157,9 +161,9 @@ export class TradingExecutionEngine {
     let requiredAllowance = 0;
 
     // Get current account info
-    const accountInfo = await web3Manager.getAccountInfo(userAddress);
-    const currentPosition = await web3Manager.getPosition(userAddress, tradingPlan.symbol);
-    const currentPrice = await web3Manager.getAssetPrice(tradingPlan.symbol);
+    const accountInfo = await getChainAdapter().getAccountInfo(userAddress as Address);
+    const currentPosition = await getChainAdapter().getPosition(userAddress as Address, tradingPlan.symbol);
+    const currentPrice = await getChainAdapter().getAssetPrice(tradingPlan.symbol);
 
     // Determine what steps are needed based on the trading plan
     const { action, size, leverage = 10 } = tradingPlan;
@@ -176,7 +180,7 @@ export class TradingExecutionEngine {
         requiredAllowance += depositAmount;
 
         // Add approval step if needed
-        const currentAllowance = await web3Manager.checkUSDCAllowance(userAddress);
+        const currentAllowance = await getChainAdapter().checkUSDCAllowance(userAddress as Address);
         if (currentAllowance < depositAmount) {
           steps.push({
             id: `approve-${Date.now()}`,
@@ -232,7 +236,7 @@ export class TradingExecutionEngine {
         requiredAllowance += depositAmount;
 
         // Add approval step if needed
-        const currentAllowance = await web3Manager.checkUSDCAllowance(userAddress);
+        const currentAllowance = await getChainAdapter().checkUSDCAllowance(userAddress as Address);
         if (currentAllowance < depositAmount) {
           steps.push({
             id: `approve-${Date.now()}`,
@@ -330,7 +334,7 @@ export class TradingExecutionEngine {
 
     try {
       // 1. Balance Check
-      const usdcBalance = await web3Manager.getUSDCBalance(userAddress);
+      const usdcBalance = await getChainAdapter().getUSDCBalance(userAddress as Address);
       checks.balanceCheck.available = usdcBalance;
       checks.balanceCheck.passed = usdcBalance >= requiredBalance;
       
@@ -340,7 +344,7 @@ export class TradingExecutionEngine {
       }
 
       // 2. Allowance Check
-      const allowance = await web3Manager.checkUSDCAllowance(userAddress);
+      const allowance = await getChainAdapter().checkUSDCAllowance(userAddress as Address);
       checks.allowanceCheck.current = allowance;
       checks.allowanceCheck.needsApproval = allowance < requiredAllowance;
       checks.allowanceCheck.passed = allowance >= requiredAllowance;
@@ -350,7 +354,7 @@ export class TradingExecutionEngine {
       }
 
       // 3. Market Check
-      const currentPrice = await web3Manager.getAssetPrice(tradingPlan.symbol);
+      const currentPrice = await getChainAdapter().getAssetPrice(tradingPlan.symbol);
       checks.marketCheck.currentPrice = currentPrice;
       checks.marketCheck.passed = true; // Always pass for now
 
@@ -363,18 +367,21 @@ export class TradingExecutionEngine {
         }
       }
 
-      // 4. Leverage Check
-      const isXStock = tradingPlan.symbol.startsWith('x');
-      const maxLeverage = isXStock ? DEFAULT_PARAMS.maxLeverage.xStock : DEFAULT_PARAMS.maxLeverage.crypto;
-      checks.leverageCheck.maxAllowed = maxLeverage;
-      checks.leverageCheck.passed = (tradingPlan.leverage || 1) <= maxLeverage;
-
-      if (!checks.leverageCheck.passed) {
-        checks.blockers.push(`Leverage ${tradingPlan.leverage}x exceeds maximum ${maxLeverage}x for ${isXStock ? 'stocks' : 'crypto'}`);
+      // 4. Order Gateway Check (market spec, leverage caps, risk parameters)
+      checks.leverageCheck.maxAllowed = orderGateway.getMaxLeverage(tradingPlan.symbol, userAddress as Address);
+      const orderCheck = this.checkOrderGateway(tradingPlan, userAddress, currentPrice);
+      if (orderCheck) {
+        checks.orderCheck = orderCheck;
+        checks.leverageCheck.passed = !orderCheck.rejections.some(rejection =>
+          rejection.code === 'LEVERAGE_EXCEEDED' || rejection.code === 'INVALID_LEVERAGE');
+        orderCheck.rejections.forEach(rejection => checks.blockers.push(rejection.message));
+        orderCheck.warnings.forEach(warning => checks.warnings.push(warning.message));
+      } else {
+        checks.leverageCheck.passed = true;
       }
 
       // 5. Margin Check
-      const accountInfo = await web3Manager.getAccountInfo(userAddress);
+      const accountInfo = await getChainAdapter().getAccountInfo(userAddress as Address);
       const requiredMargin = tradingPlan.size / (tradingPlan.leverage || 1);
       checks.marginCheck.requiredMargin = requiredMargin;
       checks.marginCheck.availableMargin = accountInfo.balance - accountInfo.totalMargin;
@@ -388,7 +395,8 @@ export class TradingExecutionEngine {
       checks.overall = checks.balanceCheck.passed && 
                       checks.leverageCheck.passed && 
                       checks.marginCheck.passed && 
-                      checks.marketCheck.passed;
+                      checks.marketCheck.passed &&
+                      (checks.orderCheck?.accepted ?? true);
 
     } catch (error) {
       console.error('Preflight checks failed:', error);
@@ -437,24 +445,14 @@ export class TradingExecutionEngine {
 
         try {
           // Execute the step
-          const txHash = await this.executeStep(step, userAddress);
+          const transaction = await this.executeStep(step, userAddress);
+          const txHash = transaction.hash;
           
           // Update step status
           step.status = 'completed';
           step.txHash = txHash;
           status.completedSteps.push(step);
-          
-          // Add transaction to status
-          if (txHash) {
-            status.transactions.push({
-              hash: txHash,
-              type: this.mapStepTypeToTransactionType(step.type),
-              status: TransactionStatus.SUCCESS,
-              timestamp: Date.now(),
-              amount: step.params.amount,
-              symbol: step.params.symbol
-            });
-          }
+          status.transactions.push(transaction);
 
           this.emitEvent('step_completed', planId, { step, txHash });
           
@@ -498,52 +496,102 @@ export class TradingExecutionEngine {
     }
   }
 
+  // Order gateway check for plans that open risk; closes are never gated
+  private checkOrderGateway(tradingPlan: TradingPlan, userAddress: string, referencePrice?: number): OrderCheckResult | null {
+    const { action } = tradingPlan;
+    if (action !== 'long' && action !== 'buy' && action !== 'short' && action !== 'sell') return null;
+
+    return orderGateway.check({
+      userAddress: userAddress as Address,
+      market: tradingPlan.symbol,
+      side: action === 'long' || action === 'buy' ? 'buy' : 'sell',
+      size: tradingPlan.size,
+      sizeUnit: 'quote',
+      referencePrice: referencePrice || undefined,
+      orderType: 'market',
+      leverage: tradingPlan.leverage || 1,
+      source: 'execution_engine'
+    });
+  }
+
   // Execute Individual Step
-  private async executeStep(step: ExecutionStep, userAddress: string): Promise<string | null> {
+  private async executeStep(step: ExecutionStep, userAddress: string): Promise<TrackedTransaction> {
     const { type, params } = step;
 
     switch (type) {
       case 'approve':
-        const approveTx = await web3Manager.approveUSDC(params.amount);
-        await approveTx.wait();
-        return approveTx.hash;
+        const approveTx = await getChainAdapter().approveUSDC(params.amount);
+        return this.confirmTransaction(approveTx, step, userAddress);
 
       case 'deposit':
-        const depositTx = await web3Manager.deposit(params.amount);
-        await depositTx.wait();
-        return depositTx.hash;
+        const depositTx = await getChainAdapter().deposit(params.amount);
+        return this.confirmTransaction(depositTx, step, userAddress);
 
       case 'open_position':
-        const openTx = await web3Manager.openPosition(
+        // Re-check at execution time; prices, locks and limits may have moved since preflight
+        const orderCheck = orderGateway.check({
+          userAddress: userAddress as Address,
+          market: params.symbol,
+          side: params.isLong ? 'buy' : 'sell',
+          size: Math.abs(params.size), // short steps carry a negative size
+          sizeUnit: 'quote',
+          orderType: 'market',
+          leverage: params.leverage,
+          source: 'execution_engine'
+        });
+        if (!orderCheck.accepted || !orderCheck.order) {
+          throw toOrderRejectedError(orderCheck);
+        }
+        // Open what the gateway accepted: size rounded to the step, event-window scaling applied
+        const { order } = orderCheck;
+        const openTx = await getChainAdapter().openPosition(
           params.symbol,
-          params.size,
-          params.leverage
+          params.isLong ? order.notional : -order.notional,
+          order.leverage
         );
-        await openTx.wait();
-        return openTx.hash;
+        return this.confirmTransaction(openTx, step, userAddress);
 
       case 'close_position':
-        const closeTx = await web3Manager.closePosition(
+        const closeTx = await getChainAdapter().closePosition(
           params.symbol,
           params.size
         );
-        await closeTx.wait();
-        return closeTx.hash;
+        return this.confirmTransaction(closeTx, step, userAddress);
 
       case 'withdraw':
-        const withdrawTx = await web3Manager.withdraw(params.amount);
-        await withdrawTx.wait();
-        return withdrawTx.hash;
+        const withdrawTx = await getChainAdapter().withdraw(params.amount);
+        return this.confirmTransaction(withdrawTx, step, userAddress);
 
       default:
         throw new Error(`Unknown step type: ${type}`);
     }
   }
 
+  // Follow a step's transaction through the shared tracker; a speed-up resolves
+  // to the replacement, anything short of success fails the step
+  private async confirmTransaction(
+    tx: ChainTransaction,
+    step: ExecutionStep,
+    userAddress: string
+  ): Promise<TrackedTransaction> {
+    const record = await transactionTracker.trackAndWait(tx, {
+      type: this.mapStepTypeToTransactionType(step.type),
+      userAddress,
+      chainId: getChainAdapter().getChainId() ?? undefined,
+      amount: step.params.amount,
+      symbol: step.params.symbol,
+      size: step.params.size
+    });
+    if (record.status !== 'success') {
+      throw new Error(record.error || `Transaction ${record.hash} ${record.status}`);
+    }
+    return record;
+  }
+
   // Helper method to map step types to transaction types
-  private mapStepTypeToTransactionType(stepType: ExecutionStep['type']): Transaction['type'] {
-    const mapping: Record<ExecutionStep['type'], Transaction['type']> = {
-      'approve': 'deposit', // Closest match
+  private mapStepTypeToTransactionType(stepType: ExecutionStep['type']): TrackedTransactionType {
+    const mapping: Record<ExecutionStep['type'], TrackedTransactionType> = {
+      'approve': 'approve_usdc',
       'deposit': 'deposit',
       'open_position': 'open_position',
       'close_position': 'close_position',
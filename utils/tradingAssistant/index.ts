@@ -39,6 +39,8 @@ export {
   type TimeBasedAnalysis,
   type BacktestResult,
   type BacktestTrade,
+  type BacktestExitReason,
+  type BacktestEquityPoint,
   type RealTimePosition,
   type PerformanceDashboard,
   type PerformanceAlert
@@ -51,6 +53,14 @@ export {
   MarketRegimeDetector,
   TradingStrategies,
   PositionSizingCalculator,
+  BUILT_IN_STRATEGIES,
+  DEFAULT_CONFLUENCE,
+  type StrategyFunction,
+  type ConfluenceConfig,
+  type TimeframeAnalysis,
+  type StrategyDefinition,
+  type StrategyHealth,
+  type StrategyInfo,
   type TradingPlan as StrategyTradingPlan,
   type TradingSignal,
   type MarketRegime,
@@ -59,6 +69,68 @@ export {
   type StrategyConfig
 } from './strategyEngine';
 
+export {
+  StrategySandbox,
+  strategySandbox,
+  DEFAULT_STRATEGY_TIME_BUDGET_MS,
+  type SandboxedFunction
+} from './strategySandbox';
+
+export {
+  IndicatorPipeline,
+  StreamingIndicator,
+  RollingWindow,
+  SMAStream,
+  EMAStream,
+  WilderStream,
+  RSIStream,
+  TrueRangeStream,
+  ATRStream,
+  BollingerStream,
+  MACDStream,
+  StochasticStream,
+  DMIStream,
+  VWAPStream,
+  OBVStream,
+  IchimokuStream,
+  KeltnerStream,
+  SuperTrendStream,
+  PivotPointStream,
+  DonchianStream,
+  runStream,
+  type IndicatorPipelineOptions,
+  type IndicatorSnapshot,
+  type ExtendedIndicatorValues,
+  type MACDValue,
+  type StochasticValue,
+  type DMIValue,
+  type IchimokuValue,
+  type ChannelValue,
+  type SuperTrendValue,
+  type PivotValue,
+  type PivotMethod
+} from './indicators';
+
+export {
+  BacktestEngine,
+  backtestEngine,
+  type BacktestConfig
+} from './backtestEngine';
+
+export {
+  StrategyOptimizer,
+  strategyOptimizer,
+  DEFAULT_PARAMETER_SPACES,
+  type OptimizationConfig,
+  type OptimizationResult,
+  type OptimizationCandidate,
+  type OptimizationObjective,
+  type WalkForwardFold,
+  type ParameterSpace,
+  type ParameterSet,
+  type MetricsSummary
+} from './strategyOptimizer';
+
 export {
   PerformanceIntegration,
   PerformanceIntegrationUtils
@@ -356,9 +428,36 @@ export {
   type PositionRisk,
   type PlanRiskAssessment,
   type RiskViolation,
-  type EmergencyAction
+  type EmergencyAction,
+  type CorrelationMatrix,
+  type CorrelatedExposure
 } from './riskManager';
 
+export {
+  CorrelationEngine,
+  correlationEngine,
+  DEFAULT_CORRELATION_CONFIG,
+  type CorrelationConfig,
+  type CorrelationSnapshot,
+  type CorrelationCluster
+} from './correlationEngine';
+
+export {
+  PortfolioRiskEngine,
+  portfolioRiskEngine,
+  toPortfolioAccount,
+  DEFAULT_VAR_OPTIONS,
+  DEFAULT_STRESS_SCENARIOS,
+  type PortfolioPosition,
+  type PortfolioAccount,
+  type VaROptions,
+  type VaRResult,
+  type StressScenario,
+  type StressTestResult,
+  type PositionStressResult,
+  type PortfolioRiskReport
+} from './portfolioRisk';
+
 // Export trading execution engine and related components
 export {
   TradingExecutionEngine,
@@ -0,0 +1,1111 @@
+// RiverBit Trading Assistant - Streaming Technical Indicators
+// Incremental indicator state machines: each bar costs time bounded by the indicator's period,
+// never by the length of the history (only rolling highs/lows scan their window)
+
+import type { PriceBar, TechnicalIndicators } from './strategyEngine';
+
+// ============================================================================
+// TYPES AND INTERFACES
+// ============================================================================
+
+export interface MACDValue {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export interface StochasticValue {
+  k: number;
+  d: number;
+}
+
+export interface DMIValue {
+  adx: number;
+  plusDI: number;
+  minusDI: number;
+}
+
+export interface IchimokuValue {
+  tenkan: number;
+  kijun: number;
+  senkouA: number;        // Leading span A computed on this bar (plotted `displacement` bars ahead)
+  senkouB: number;        // Leading span B computed on this bar
+  cloudA: number | null;  // Span A projected onto this bar, null until `displacement` bars have passed
+  cloudB: number | null;
+  chikou: number;         // Close, plotted `displacement` bars back
+}
+
+export interface ChannelValue {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+export interface SuperTrendValue {
+  value: number;
+  direction: 'up' | 'down';
+  upperBand: number;
+  lowerBand: number;
+}
+
+export interface PivotValue {
+  pivot: number;
+  r1: number;
+  r2: number;
+  r3: number;
+  s1: number;
+  s2: number;
+  s3: number;
+}
+
+export type PivotMethod = 'classic' | 'fibonacci' | 'camarilla';
+
+export interface ExtendedIndicatorValues {
+  macd: MACDValue | null;
+  stochastic: StochasticValue | null;
+  dmi: DMIValue | null;
+  vwap: number | null;
+  obv: number | null;
+  ichimoku: IchimokuValue | null;
+  keltner: ChannelValue | null;
+  superTrend: SuperTrendValue | null;
+  pivots: PivotValue | null;
+  donchian: ChannelValue | null;
+}
+
+export interface IndicatorSnapshot extends ExtendedIndicatorValues {
+  timestamp: number;
+  sma: number | null;
+  ema: number | null;
+  rsi: number | null;
+  atr: number | null;
+  bollingerBands: ChannelValue | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// BUILDING BLOCKS
+// ============================================================================
+
+interface RollingWindowState {
+  start: number;
+  count: number;
+  total: number;
+  squares: number;
+  overwritten: number;
+  pushes: number;
+  maxHead: number;
+  maxTail: number;
+  minHead: number;
+  minTail: number;
+}
+
+// Everything a stream needs to rewind: its own state plus the last output
+export interface StreamState<TState, TOutput> {
+  own: TState;
+  current: TOutput | null;
+}
+
+interface WilderState {
+  count: number;
+  sum: number;
+  average: number;
+}
+
+interface RSIState {
+  previous: number | null;
+  count: number;
+  gainSum: number;
+  lossSum: number;
+  avgGain: number;
+  avgLoss: number;
+}
+
+interface VWAPState {
+  anchor: number;
+  priceVolume: number;
+  volume: number;
+}
+
+interface OBVState {
+  previousClose: number | null;
+  obv: number;
+}
+
+interface SuperTrendState {
+  upper: number;
+  lower: number;
+  previousClose: number;
+  direction: 'up' | 'down';
+  initialized: boolean;
+}
+
+interface PivotState {
+  period: number;
+  high: number;
+  low: number;
+  close: number;
+  levels: PivotValue | null;
+}
+
+// Push numbers of the window values that can still become its max (or min),
+// oldest first. Stored in a ring of `size` slots addressed by ever-growing
+// head/tail counters; popping only moves a counter, and each push writes
+// exactly one slot, which is remembered so the push can be undone.
+class MonotonicDeque {
+  private slots: number[];
+  head = 0;
+  tail = 0;
+  private lastWrite = { slot: 0, previous: 0 };
+
+  constructor(private readonly size: number, private readonly keeps: (older: number, newer: number) => boolean) {
+    this.slots = new Array(size).fill(0);
+  }
+
+  push(index: number, valueOf: (index: number) => number) {
+    // Drop the push leaving the window first, so the write below never hits a live slot
+    while (this.tail > this.head && this.slots[this.head % this.size] <= index - this.size) this.head++;
+    const value = valueOf(index);
+    while (this.tail > this.head && !this.keeps(valueOf(this.slots[(this.tail - 1) % this.size]), value)) this.tail--;
+
+    const slot = this.tail % this.size;
+    this.lastWrite = { slot, previous: this.slots[slot] };
+    this.slots[slot] = index;
+    this.tail++;
+  }
+
+  front(): number | null {
+    return this.tail > this.head ? this.slots[this.head % this.size] : null;
+  }
+
+  undoLastWrite() {
+    this.slots[this.lastWrite.slot] = this.lastWrite.previous;
+  }
+}
+
+// Fixed-size ring buffer with running sums, so mean and deviation are O(1), and
+// monotonic deques, so max/min are O(1) (amortized O(1) per push)
+export class RollingWindow {
+  private values: number[];
+  private start = 0;
+  private count = 0;
+  private total = 0;
+  private squares = 0;
+  private pushes = 0; // push n is stored at values[n % size]
+  private maxima: MonotonicDeque;
+  private minima: MonotonicDeque;
+
+  constructor(readonly size: number) {
+    this.values = new Array(size).fill(0);
+    this.maxima = new MonotonicDeque(size, (older, newer) => older > newer);
+    this.minima = new MonotonicDeque(size, (older, newer) => older < newer);
+  }
+
+  push(value: number) {
+    if (this.count < this.size) {
+      this.values[(this.start + this.count) % this.size] = value;
+      this.count++;
+    } else {
+      const evicted = this.values[this.start];
+      this.total -= evicted;
+      this.squares -= evicted * evicted;
+      this.values[this.start] = value;
+      this.start = (this.start + 1) % this.size;
+    }
+    this.total += value;
+    this.squares += value * value;
+
+    const valueOf = (push: number) => this.values[push % this.size];
+    this.maxima.push(this.pushes, valueOf);
+    this.minima.push(this.pushes, valueOf);
+    this.pushes++;
+  }
+
+  get isFull(): boolean {
+    return this.count === this.size;
+  }
+
+  get length(): number {
+    return this.count;
+  }
+
+  get mean(): number {
+    return this.count > 0 ? this.total / this.count : 0;
+  }
+
+  // i = 0 is the oldest value
+  at(i: number): number {
+    return this.values[(this.start + i) % this.size];
+  }
+
+  max(): number {
+    const push = this.maxima.front();
+    return push === null ? -Infinity : this.values[push % this.size];
+  }
+
+  min(): number {
+    const push = this.minima.front();
+    return push === null ? Infinity : this.values[push % this.size];
+  }
+
+  // Population standard deviation around `mean`, as used by the batch Bollinger
+  // Bands: E[(x - m)^2] = E[x^2] - 2m E[x] + m^2, clamped against rounding
+  stdDev(mean: number = this.mean): number {
+    if (this.count === 0) return 0;
+    const variance = (this.squares - 2 * mean * this.total) / this.count + mean * mean;
+    return Math.sqrt(Math.max(variance, 0));
+  }
+
+  // Captures just enough to undo the next push
+  getState(): RollingWindowState {
+    const writeIndex = this.count < this.size ? (this.start + this.count) % this.size : this.start;
+    return {
+      start: this.start,
+      count: this.count,
+      total: this.total,
+      squares: this.squares,
+      overwritten: this.values[writeIndex],
+      pushes: this.pushes,
+      maxHead: this.maxima.head,
+      maxTail: this.maxima.tail,
+      minHead: this.minima.head,
+      minTail: this.minima.tail
+    };
+  }
+
+  // Like the value slot, only the most recent push can be undone
+  setState(state: RollingWindowState) {
+    const writeIndex = state.count < this.size ? (state.start + state.count) % this.size : state.start;
+    this.values[writeIndex] = state.overwritten;
+    this.start = state.start;
+    this.count = state.count;
+    this.total = state.total;
+    this.squares = state.squares;
+
+    if (this.pushes === state.pushes + 1) {
+      this.maxima.undoLastWrite();
+      this.minima.undoLastWrite();
+    }
+    this.pushes = state.pushes;
+    this.maxima.head = state.maxHead;
+    this.maxima.tail = state.maxTail;
+    this.minima.head = state.minHead;
+    this.minima.tail = state.minTail;
+  }
+}
+
+// Base for every streaming indicator. `update` consumes a new bar; `updateLast`
+// revises the latest one (a candle that is still forming) by rewinding to the
+// state captured before it and re-applying. Composite indicators include their
+// inner streams' state in `saveState`, so the rewind cascades.
+export abstract class StreamingIndicator<TInput, TOutput, TState = unknown> {
+  private saved: StreamState<TState, TOutput> | null = null;
+  protected current: TOutput | null = null;
+
+  update(input: TInput): TOutput | null {
+    this.saved = this.getState();
+    this.current = this.apply(input);
+    return this.current;
+  }
+
+  updateLast(input: TInput): TOutput | null {
+    if (this.saved === null) return this.update(input);
+    this.setState(this.saved);
+    this.current = this.apply(input);
+    return this.current;
+  }
+
+  get value(): TOutput | null {
+    return this.current;
+  }
+
+  getState(): StreamState<TState, TOutput> {
+    return { own: this.saveState(), current: this.current };
+  }
+
+  setState(state: StreamState<TState, TOutput>) {
+    this.restoreState(state.own);
+    this.current = state.current;
+  }
+
+  protected abstract apply(input: TInput): TOutput | null;
+  protected abstract saveState(): TState;
+  protected abstract restoreState(state: TState): void;
+}
+
+// Snapshot type of an inner stream, for composites that save their parts
+type StateOf<T extends StreamingIndicator<never, unknown, unknown>> = ReturnType<T['getState']>;
+
+// ============================================================================
+// CORE STREAMS (same output as the batch functions in TechnicalAnalysis)
+// ============================================================================
+
+export class SMAStream extends StreamingIndicator<number, number, RollingWindowState> {
+  private window: RollingWindow;
+
+  constructor(readonly period: number) {
+    super();
+    this.window = new RollingWindow(period);
+  }
+
+  protected apply(price: number): number | null {
+    this.window.push(price);
+    return this.window.isFull ? this.window.mean : null;
+  }
+
+  protected saveState() { return this.window.getState(); }
+  protected restoreState(state: RollingWindowState) { this.window.setState(state); }
+}
+
+// Seeded with the first price, like TechnicalAnalysis.calculateEMA
+export class EMAStream extends StreamingIndicator<number, number, number | null> {
+  private ema: number | null = null;
+  private readonly multiplier: number;
+
+  constructor(readonly period: number) {
+    super();
+    this.multiplier = 2 / (period + 1);
+  }
+
+  protected apply(price: number): number {
+    this.ema = this.ema === null ? price : (price * this.multiplier) + (this.ema * (1 - this.multiplier));
+    return this.ema;
+  }
+
+  protected saveState() { return this.ema; }
+  protected restoreState(state: number | null) { this.ema = state; }
+}
+
+// Wilder's smoothing (RMA), seeded with the simple mean of the first `period` inputs
+export class WilderStream extends StreamingIndicator<number, number, WilderState> {
+  private state: WilderState = { count: 0, sum: 0, average: 0 };
+
+  constructor(readonly period: number) {
+    super();
+  }
+
+  protected apply(value: number): number | null {
+    const s = this.state;
+    s.count++;
+    if (s.count < this.period) {
+      s.sum += value;
+      return null;
+    }
+    s.average = s.count === this.period
+      ? (s.sum + value) / this.period
+      : ((s.average * (this.period - 1)) + value) / this.period;
+    return s.average;
+  }
+
+  protected saveState() { return { ...this.state }; }
+  protected restoreState(state: WilderState) { this.state = { ...state }; }
+}
+
+// Averages seed on the first `period` changes and the first value is emitted
+// on the change after that, matching TechnicalAnalysis.calculateRSI
+export class RSIStream extends StreamingIndicator<number, number, RSIState> {
+  private state: RSIState = { previous: null, count: 0, gainSum: 0, lossSum: 0, avgGain: 0, avgLoss: 0 };
+
+  constructor(readonly period: number = 14) {
+    super();
+  }
+
+  protected apply(price: number): number | null {
+    const s = this.state;
+    if (s.previous === null) {
+      s.previous = price;
+      return null;
+    }
+    const change = price - s.previous;
+    s.previous = price;
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? -change : 0;
+    s.count++;
+
+    if (s.count <= this.period) {
+      s.gainSum += gain;
+      s.lossSum += loss;
+      if (s.count === this.period) {
+        s.avgGain = s.gainSum / this.period;
+        s.avgLoss = s.lossSum / this.period;
+      }
+      return null;
+    }
+
+    s.avgGain = ((s.avgGain * (this.period - 1)) + gain) / this.period;
+    s.avgLoss = ((s.avgLoss * (this.period - 1)) + loss) / this.period;
+    const rs = s.avgGain / (s.avgLoss || 0.0001); // Avoid division by zero
+    return 100 - (100 / (1 + rs));
+  }
+
+  protected saveState() { return { ...this.state }; }
+  protected restoreState(state: RSIState) { this.state = { ...state }; }
+}
+
+// True range against the previous close; null on the first bar
+export class TrueRangeStream extends StreamingIndicator<PriceBar, number, number | null> {
+  private previousClose: number | null = null;
+
+  protected apply(bar: PriceBar): number | null {
+    const previous = this.previousClose;
+    this.previousClose = bar.close;
+    if (previous === null) return null;
+    return Math.max(bar.high - bar.low, Math.abs(bar.high - previous), Math.abs(bar.low - previous));
+  }
+
+  protected saveState() { return this.previousClose; }
+  protected restoreState(state: number | null) { this.previousClose = state; }
+}
+
+// 'sma' matches TechnicalAnalysis.calculateATR; 'wilder' is the classic ATR used by Keltner/SuperTrend/ADX
+type ATRState = [StateOf<TrueRangeStream>, StreamState<RollingWindowState | WilderState, number>];
+
+export class ATRStream extends StreamingIndicator<PriceBar, number, ATRState> {
+  private trueRange = new TrueRangeStream();
+  private smoother: StreamingIndicator<number, number, RollingWindowState | WilderState>;
+
+  constructor(readonly period: number = 14, smoothing: 'sma' | 'wilder' = 'sma') {
+    super();
+    this.smoother = smoothing === 'sma' ? new SMAStream(period) : new WilderStream(period);
+  }
+
+  protected apply(bar: PriceBar): number | null {
+    const tr = this.trueRange.update(bar);
+    return tr === null ? null : this.smoother.update(tr);
+  }
+
+  protected saveState(): ATRState { return [this.trueRange.getState(), this.smoother.getState()]; }
+  protected restoreState([trueRange, smoother]: ATRState) {
+    this.trueRange.setState(trueRange);
+    this.smoother.setState(smoother);
+  }
+}
+
+export class BollingerStream extends StreamingIndicator<number, ChannelValue, RollingWindowState> {
+  private window: RollingWindow;
+
+  constructor(readonly period: number = 20, readonly multiplier: number = 2) {
+    super();
+    this.window = new RollingWindow(period);
+  }
+
+  protected apply(price: number): ChannelValue | null {
+    this.window.push(price);
+    if (!this.window.isFull) return null;
+    const middle = this.window.mean;
+    const deviation = this.window.stdDev(middle) * this.multiplier;
+    return { upper: middle + deviation, middle, lower: middle - deviation };
+  }
+
+  protected saveState() { return this.window.getState(); }
+  protected restoreState(state: RollingWindowState) { this.window.setState(state); }
+}
+
+// ============================================================================
+// EXTENDED STREAMS
+// ============================================================================
+
+// MACD line = fast EMA - slow EMA, emitted once the slow EMA has `slow` bars behind it
+type MACDState = [StateOf<EMAStream>, StateOf<EMAStream>, StateOf<EMAStream>, number];
+
+export class MACDStream extends StreamingIndicator<number, MACDValue, MACDState> {
+  private fastEma: EMAStream;
+  private slowEma: EMAStream;
+  private signalEma: EMAStream;
+  private count = 0;
+
+  constructor(readonly fast: number = 12, readonly slow: number = 26, readonly signal: number = 9) {
+    super();
+    this.fastEma = new EMAStream(fast);
+    this.slowEma = new EMAStream(slow);
+    this.signalEma = new EMAStream(signal);
+  }
+
+  protected apply(price: number): MACDValue | null {
+    const fast = this.fastEma.update(price)!;
+    const slow = this.slowEma.update(price)!;
+    this.count++;
+    if (this.count < this.slow) return null;
+
+    const macd = fast - slow;
+    const signal = this.signalEma.update(macd)!;
+    return { macd, signal, histogram: macd - signal };
+  }
+
+  protected saveState(): MACDState {
+    return [this.fastEma.getState(), this.slowEma.getState(), this.signalEma.getState(), this.count];
+  }
+
+  protected restoreState([fast, slow, signal, count]: MACDState) {
+    this.fastEma.setState(fast);
+    this.slowEma.setState(slow);
+    this.signalEma.setState(signal);
+    this.count = count;
+  }
+}
+
+// Slow stochastic: %K is the SMA of the raw stochastic, %D the SMA of %K
+type StochasticState = [RollingWindowState, RollingWindowState, StateOf<SMAStream>, StateOf<SMAStream>];
+
+export class StochasticStream extends StreamingIndicator<PriceBar, StochasticValue, StochasticState> {
+  private highs: RollingWindow;
+  private lows: RollingWindow;
+  private kSmoother: SMAStream;
+  private dSmoother: SMAStream;
+
+  constructor(readonly period: number = 14, readonly kSmoothing: number = 3, readonly dSmoothing: number = 3) {
+    super();
+    this.highs = new RollingWindow(period);
+    this.lows = new RollingWindow(period);
+    this.kSmoother = new SMAStream(kSmoothing);
+    this.dSmoother = new SMAStream(dSmoothing);
+  }
+
+  protected apply(bar: PriceBar): StochasticValue | null {
+    this.highs.push(bar.high);
+    this.lows.push(bar.low);
+    if (!this.highs.isFull) return null;
+
+    const highest = this.highs.max();
+    const lowest = this.lows.min();
+    const raw = highest === lowest ? 50 : ((bar.close - lowest) / (highest - lowest)) * 100;
+    const k = this.kSmoother.update(raw);
+    if (k === null) return null;
+    const d = this.dSmoother.update(k);
+    return d === null ? null : { k, d };
+  }
+
+  protected saveState(): StochasticState {
+    return [this.highs.getState(), this.lows.getState(), this.kSmoother.getState(), this.dSmoother.getState()];
+  }
+
+  protected restoreState([highs, lows, k, d]: StochasticState) {
+    this.highs.setState(highs);
+    this.lows.setState(lows);
+    this.kSmoother.setState(k);
+    this.dSmoother.setState(d);
+  }
+}
+
+// Wilder's directional movement system: +DI/-DI from smoothed DM over smoothed TR, ADX from smoothed DX
+type DMIState = [PriceBar | null, StateOf<WilderStream>, StateOf<WilderStream>, StateOf<WilderStream>, StateOf<WilderStream>];
+
+export class DMIStream extends StreamingIndicator<PriceBar, DMIValue, DMIState> {
+  private previous: PriceBar | null = null;
+  private trueRange: WilderStream;
+  private plusDM: WilderStream;
+  private minusDM: WilderStream;
+  private adx: WilderStream;
+
+  constructor(readonly period: number = 14) {
+    super();
+    this.trueRange = new WilderStream(period);
+    this.plusDM = new WilderStream(period);
+    this.minusDM = new WilderStream(period);
+    this.adx = new WilderStream(period);
+  }
+
+  protected apply(bar: PriceBar): DMIValue | null {
+    const previous = this.previous;
+    this.previous = bar;
+    if (!previous) return null;
+
+    const upMove = bar.high - previous.high;
+    const downMove = previous.low - bar.low;
+    const tr = Math.max(bar.high - bar.low, Math.abs(bar.high - previous.close), Math.abs(bar.low - previous.close));
+
+    const smoothedTR = this.trueRange.update(tr);
+    const smoothedPlus = this.plusDM.update(upMove > downMove && upMove > 0 ? upMove : 0);
+    const smoothedMinus = this.minusDM.update(downMove > upMove && downMove > 0 ? downMove : 0);
+    if (smoothedTR === null || smoothedPlus === null || smoothedMinus === null) return null;
+
+    const plusDI = smoothedTR > 0 ? (smoothedPlus / smoothedTR) * 100 : 0;
+    const minusDI = smoothedTR > 0 ? (smoothedMinus / smoothedTR) * 100 : 0;
+    const diSum = plusDI + minusDI;
+    const dx = diSum > 0 ? (Math.abs(plusDI - minusDI) / diSum) * 100 : 0;
+
+    const adx = this.adx.update(dx);
+    return adx === null ? null : { adx, plusDI, minusDI };
+  }
+
+  protected saveState(): DMIState {
+    return [this.previous, this.trueRange.getState(), this.plusDM.getState(), this.minusDM.getState(), this.adx.getState()];
+  }
+
+  protected restoreState([previous, tr, plus, minus, adx]: DMIState) {
+    this.previous = previous;
+    this.trueRange.setState(tr);
+    this.plusDM.setState(plus);
+    this.minusDM.setState(minus);
+    this.adx.setState(adx);
+  }
+}
+
+// Volume-weighted typical price, re-anchored at every `anchorMs` boundary (UTC day by default)
+export class VWAPStream extends StreamingIndicator<PriceBar, number, VWAPState> {
+  private state: VWAPState = { anchor: -1, priceVolume: 0, volume: 0 };
+
+  constructor(readonly anchorMs: number = DAY_MS) {
+    super();
+  }
+
+  protected apply(bar: PriceBar): number {
+    const anchor = Math.floor(bar.timestamp / this.anchorMs);
+    if (anchor !== this.state.anchor) {
+      this.state = { anchor, priceVolume: 0, volume: 0 };
+    }
+    const typical = (bar.high + bar.low + bar.close) / 3;
+    this.state.priceVolume += typical * bar.volume;
+    this.state.volume += bar.volume;
+    return this.state.volume > 0 ? this.state.priceVolume / this.state.volume : typical;
+  }
+
+  protected saveState() { return { ...this.state }; }
+  protected restoreState(state: VWAPState) { this.state = { ...state }; }
+}
+
+// On-balance volume, starting from zero at the first bar
+export class OBVStream extends StreamingIndicator<PriceBar, number, OBVState> {
+  private state: OBVState = { previousClose: null, obv: 0 };
+
+  protected apply(bar: PriceBar): number {
+    const { previousClose } = this.state;
+    if (previousClose !== null) {
+      if (bar.close > previousClose) this.state.obv += bar.volume;
+      else if (bar.close < previousClose) this.state.obv -= bar.volume;
+    }
+    this.state.previousClose = bar.close;
+    return this.state.obv;
+  }
+
+  protected saveState() { return { ...this.state }; }
+  protected restoreState(state: OBVState) { this.state = { ...state }; }
+}
+
+export class IchimokuStream extends StreamingIndicator<PriceBar, IchimokuValue, RollingWindowState[]> {
+  private tenkanHighs: RollingWindow;
+  private tenkanLows: RollingWindow;
+  private kijunHighs: RollingWindow;
+  private kijunLows: RollingWindow;
+  private spanBHighs: RollingWindow;
+  private spanBLows: RollingWindow;
+  // Spans computed over the last `displacement` + 1 bars; the oldest is the cloud under the current bar
+  private spanAHistory: RollingWindow;
+  private spanBHistory: RollingWindow;
+
+  constructor(
+    readonly tenkanPeriod: number = 9,
+    readonly kijunPeriod: number = 26,
+    readonly spanBPeriod: number = 52,
+    readonly displacement: number = 26
+  ) {
+    super();
+    this.tenkanHighs = new RollingWindow(tenkanPeriod);
+    this.tenkanLows = new RollingWindow(tenkanPeriod);
+    this.kijunHighs = new RollingWindow(kijunPeriod);
+    this.kijunLows = new RollingWindow(kijunPeriod);
+    this.spanBHighs = new RollingWindow(spanBPeriod);
+    this.spanBLows = new RollingWindow(spanBPeriod);
+    this.spanAHistory = new RollingWindow(displacement + 1);
+    this.spanBHistory = new RollingWindow(displacement + 1);
+  }
+
+  protected apply(bar: PriceBar): IchimokuValue | null {
+    for (const window of [this.tenkanHighs, this.kijunHighs, this.spanBHighs]) window.push(bar.high);
+    for (const window of [this.tenkanLows, this.kijunLows, this.spanBLows]) window.push(bar.low);
+    if (!this.spanBHighs.isFull || !this.kijunHighs.isFull || !this.tenkanHighs.isFull) return null;
+
+    const tenkan = (this.tenkanHighs.max() + this.tenkanLows.min()) / 2;
+    const kijun = (this.kijunHighs.max() + this.kijunLows.min()) / 2;
+    const senkouA = (tenkan + kijun) / 2;
+    const senkouB = (this.spanBHighs.max() + this.spanBLows.min()) / 2;
+
+    this.spanAHistory.push(senkouA);
+    this.spanBHistory.push(senkouB);
+    const projected = this.spanAHistory.isFull;
+
+    return {
+      tenkan,
+      kijun,
+      senkouA,
+      senkouB,
+      cloudA: projected ? this.spanAHistory.at(0) : null,
+      cloudB: projected ? this.spanBHistory.at(0) : null,
+      chikou: bar.close
+    };
+  }
+
+  private windows(): RollingWindow[] {
+    return [
+      this.tenkanHighs, this.tenkanLows, this.kijunHighs, this.kijunLows,
+      this.spanBHighs, this.spanBLows, this.spanAHistory, this.spanBHistory
+    ];
+  }
+
+  protected saveState() { return this.windows().map(window => window.getState()); }
+  protected restoreState(states: RollingWindowState[]) {
+    this.windows().forEach((window, i) => window.setState(states[i]));
+  }
+}
+
+// EMA midline with Wilder ATR bands
+type KeltnerState = [StateOf<EMAStream>, StateOf<ATRStream>];
+
+export class KeltnerStream extends StreamingIndicator<PriceBar, ChannelValue, KeltnerState> {
+  private ema: EMAStream;
+  private atr: ATRStream;
+
+  constructor(readonly emaPeriod: number = 20, readonly atrPeriod: number = 10, readonly multiplier: number = 2) {
+    super();
+    this.ema = new EMAStream(emaPeriod);
+    this.atr = new ATRStream(atrPeriod, 'wilder');
+  }
+
+  protected apply(bar: PriceBar): ChannelValue | null {
+    const middle = this.ema.update(bar.close)!;
+    const atr = this.atr.update(bar);
+    if (atr === null) return null;
+    return { upper: middle + atr * this.multiplier, middle, lower: middle - atr * this.multiplier };
+  }
+
+  protected saveState(): KeltnerState { return [this.ema.getState(), this.atr.getState()]; }
+  protected restoreState([ema, atr]: KeltnerState) {
+    this.ema.setState(ema);
+    this.atr.setState(atr);
+  }
+}
+
+type SuperTrendStreamState = [StateOf<ATRStream>, SuperTrendState];
+
+export class SuperTrendStream extends StreamingIndicator<PriceBar, SuperTrendValue, SuperTrendStreamState> {
+  private atr: ATRStream;
+  private state: SuperTrendState = { upper: 0, lower: 0, previousClose: 0, direction: 'up', initialized: false };
+
+  constructor(readonly period: number = 10, readonly multiplier: number = 3) {
+    super();
+    this.atr = new ATRStream(period, 'wilder');
+  }
+
+  protected apply(bar: PriceBar): SuperTrendValue | null {
+    const atr = this.atr.update(bar);
+    const s = this.state;
+    if (atr === null) {
+      s.previousClose = bar.close;
+      return null;
+    }
+
+    const hl2 = (bar.high + bar.low) / 2;
+    const basicUpper = hl2 + this.multiplier * atr;
+    const basicLower = hl2 - this.multiplier * atr;
+
+    if (!s.initialized) {
+      s.upper = basicUpper;
+      s.lower = basicLower;
+      s.direction = bar.close >= hl2 ? 'up' : 'down';
+      s.initialized = true;
+    } else {
+      // Bands only ratchet toward price unless the previous close broke through them
+      const upper = basicUpper < s.upper || s.previousClose > s.upper ? basicUpper : s.upper;
+      const lower = basicLower > s.lower || s.previousClose < s.lower ? basicLower : s.lower;
+      if (s.direction === 'down' && bar.close > upper) s.direction = 'up';
+      else if (s.direction === 'up' && bar.close < lower) s.direction = 'down';
+      s.upper = upper;
+      s.lower = lower;
+    }
+    s.previousClose = bar.close;
+
+    return {
+      value: s.direction === 'up' ? s.lower : s.upper,
+      direction: s.direction,
+      upperBand: s.upper,
+      lowerBand: s.lower
+    };
+  }
+
+  protected saveState(): SuperTrendStreamState { return [this.atr.getState(), { ...this.state }]; }
+  protected restoreState([atr, state]: SuperTrendStreamState) {
+    this.atr.setState(atr);
+    this.state = { ...state };
+  }
+}
+
+// Floor pivots from the previous completed period (UTC day by default)
+export class PivotPointStream extends StreamingIndicator<PriceBar, PivotValue, PivotState> {
+  private state: PivotState = {
+    period: -1,
+    high: 0,
+    low: 0,
+    close: 0,
+    levels: null
+  };
+
+  constructor(readonly method: PivotMethod = 'classic', readonly periodMs: number = DAY_MS) {
+    super();
+  }
+
+  static calculateLevels(high: number, low: number, close: number, method: PivotMethod = 'classic'): PivotValue {
+    const pivot = (high + low + close) / 3;
+    const range = high - low;
+
+    switch (method) {
+      case 'fibonacci':
+        return {
+          pivot,
+          r1: pivot + 0.382 * range,
+          r2: pivot + 0.618 * range,
+          r3: pivot + range,
+          s1: pivot - 0.382 * range,
+          s2: pivot - 0.618 * range,
+          s3: pivot - range
+        };
+      case 'camarilla':
+        return {
+          pivot,
+          r1: close + range * 1.1 / 12,
+          r2: close + range * 1.1 / 6,
+          r3: close + range * 1.1 / 4,
+          s1: close - range * 1.1 / 12,
+          s2: close - range * 1.1 / 6,
+          s3: close - range * 1.1 / 4
+        };
+      default:
+        return {
+          pivot,
+          r1: 2 * pivot - low,
+          r2: pivot + range,
+          r3: high + 2 * (pivot - low),
+          s1: 2 * pivot - high,
+          s2: pivot - range,
+          s3: low - 2 * (high - pivot)
+        };
+    }
+  }
+
+  protected apply(bar: PriceBar): PivotValue | null {
+    const s = this.state;
+    const period = Math.floor(bar.timestamp / this.periodMs);
+
+    if (period !== s.period) {
+      if (s.period !== -1) {
+        s.levels = PivotPointStream.calculateLevels(s.high, s.low, s.close, this.method);
+      }
+      s.period = period;
+      s.high = bar.high;
+      s.low = bar.low;
+    } else {
+      s.high = Math.max(s.high, bar.high);
+      s.low = Math.min(s.low, bar.low);
+    }
+    s.close = bar.close;
+    return s.levels;
+  }
+
+  protected saveState() { return { ...this.state }; }
+  protected restoreState(state: PivotState) { this.state = { ...state }; }
+}
+
+// Highest high / lowest low over the window, including the current bar
+type DonchianState = [RollingWindowState, RollingWindowState];
+
+export class DonchianStream extends StreamingIndicator<PriceBar, ChannelValue, DonchianState> {
+  private highs: RollingWindow;
+  private lows: RollingWindow;
+
+  constructor(readonly period: number = 20) {
+    super();
+    this.highs = new RollingWindow(period);
+    this.lows = new RollingWindow(period);
+  }
+
+  protected apply(bar: PriceBar): ChannelValue | null {
+    this.highs.push(bar.high);
+    this.lows.push(bar.low);
+    if (!this.highs.isFull) return null;
+    const upper = this.highs.max();
+    const lower = this.lows.min();
+    return { upper, middle: (upper + lower) / 2, lower };
+  }
+
+  protected saveState(): DonchianState { return [this.highs.getState(), this.lows.getState()]; }
+  protected restoreState([highs, lows]: DonchianState) {
+    this.highs.setState(highs);
+    this.lows.setState(lows);
+  }
+}
+
+// Runs a stream over a full input series and collects the non-null outputs,
+// which is how the TechnicalAnalysis batch functions stay in step with the streams
+export function runStream<TInput, TOutput>(
+  stream: StreamingIndicator<TInput, TOutput>,
+  inputs: TInput[]
+): TOutput[] {
+  const output: TOutput[] = [];
+  for (const input of inputs) {
+    const value = stream.update(input);
+    if (value !== null) output.push(value);
+  }
+  return output;
+}
+
+// ============================================================================
+// INDICATOR PIPELINE
+// ============================================================================
+
+export interface IndicatorPipelineOptions {
+  maxLength?: number;                // Bars (and indicator values) retained for getIndicators()
+  periods?: Record<string, number>;  // Same keys as StrategyConfig.indicators.periods
+  pivotMethod?: PivotMethod;
+}
+
+// Maintains the TechnicalIndicators arrays and the extended values for one
+// symbol/timeframe as bars arrive, instead of recomputing over the full history.
+// A bar with the same timestamp as the latest one revises it in place.
+export class IndicatorPipeline {
+  private readonly maxLength: number;
+  private bars: PriceBar[] = [];
+  private series: Record<'sma' | 'ema' | 'rsi' | 'atr' | 'bbUpper' | 'bbMiddle' | 'bbLower', number[]> = {
+    sma: [], ema: [], rsi: [], atr: [], bbUpper: [], bbMiddle: [], bbLower: []
+  };
+
+  private sma: SMAStream;
+  private ema: EMAStream;
+  private rsi: RSIStream;
+  private atr: ATRStream;
+  private bollinger: BollingerStream;
+  private macd = new MACDStream();
+  private stochastic = new StochasticStream();
+  private dmi = new DMIStream();
+  private vwap = new VWAPStream();
+  private obv = new OBVStream();
+  private ichimoku = new IchimokuStream();
+  private keltner = new KeltnerStream();
+  private superTrend = new SuperTrendStream();
+  private pivots: PivotPointStream;
+  private donchian = new DonchianStream();
+
+  constructor(options: IndicatorPipelineOptions = {}) {
+    const periods = options.periods ?? {};
+    this.maxLength = options.maxLength ?? 200;
+    this.sma = new SMAStream(periods.sma ?? 20);
+    this.ema = new EMAStream(periods.ema ?? 12);
+    this.rsi = new RSIStream(periods.rsi ?? 14);
+    this.atr = new ATRStream(periods.atr ?? 14);
+    this.bollinger = new BollingerStream(periods.bb ?? 20, 2);
+    this.pivots = new PivotPointStream(options.pivotMethod ?? 'classic');
+  }
+
+  get lastTimestamp(): number | null {
+    return this.bars.length > 0 ? this.bars[this.bars.length - 1].timestamp : null;
+  }
+
+  // Returns false for bars older than the latest one, which cannot be applied incrementally
+  update(bar: PriceBar): boolean {
+    const last = this.lastTimestamp;
+    if (last !== null && bar.timestamp < last) return false;
+
+    const revising = last !== null && bar.timestamp === last;
+    const step = <I, O>(stream: StreamingIndicator<I, O>, input: I) =>
+      revising ? stream.updateLast(input) : stream.update(input);
+
+    const record = (key: keyof IndicatorPipeline['series'], value: number | null) => {
+      if (value === null) return;
+      const values = this.series[key];
+      // Warm-up depends only on bar count, so a revised bar that yields a value replaces one
+      if (revising) values[values.length - 1] = value;
+      else values.push(value);
+    };
+
+    const copy = { ...bar };
+    if (revising) this.bars[this.bars.length - 1] = copy;
+    else this.bars.push(copy);
+
+    record('sma', step(this.sma, bar.close));
+    record('ema', step(this.ema, bar.close));
+    record('rsi', step(this.rsi, bar.close));
+    record('atr', step(this.atr, bar));
+    const bands = step(this.bollinger, bar.close);
+    record('bbUpper', bands?.upper ?? null);
+    record('bbMiddle', bands?.middle ?? null);
+    record('bbLower', bands?.lower ?? null);
+
+    step(this.macd, bar.close);
+    step(this.stochastic, bar);
+    step(this.dmi, bar);
+    step(this.vwap, bar);
+    step(this.obv, bar);
+    step(this.ichimoku, bar);
+    step(this.keltner, bar);
+    step(this.superTrend, bar);
+    step(this.pivots, bar);
+    step(this.donchian, bar);
+
+    this.trim();
+    return true;
+  }
+
+  updateMany(bars: PriceBar[]): number {
+    let applied = 0;
+    for (const bar of bars) {
+      if (this.update(bar)) applied++;
+    }
+    return applied;
+  }
+
+  getBars(): PriceBar[] {
+    return this.bars.slice(-this.maxLength).map(bar => ({ ...bar }));
+  }
+
+  // Same shape as TechnicalAnalysis.calculateIndicators over the retained bars
+  getIndicators(): TechnicalIndicators {
+    const tail = (values: number[]) => values.slice(-this.maxLength);
+    return {
+      sma: tail(this.series.sma),
+      ema: tail(this.series.ema),
+      rsi: tail(this.series.rsi),
+      atr: tail(this.series.atr),
+      volume: this.bars.slice(-this.maxLength).map(bar => bar.volume),
+      bollingerBands: {
+        upper: tail(this.series.bbUpper),
+        middle: tail(this.series.bbMiddle),
+        lower: tail(this.series.bbLower)
+      }
+    };
+  }
+
+  getExtended(): ExtendedIndicatorValues {
+    return {
+      macd: this.macd.value,
+      stochastic: this.stochastic.value,
+      dmi: this.dmi.value,
+      vwap: this.vwap.value,
+      obv: this.obv.value,
+      ichimoku: this.ichimoku.value,
+      keltner: this.keltner.value,
+      superTrend: this.superTrend.value,
+      pivots: this.pivots.value,
+      donchian: this.donchian.value
+    };
+  }
+
+  getLatest(): IndicatorSnapshot {
+    return {
+      timestamp: this.lastTimestamp ?? 0,
+      sma: this.sma.value,
+      ema: this.ema.value,
+      rsi: this.rsi.value,
+      atr: this.atr.value,
+      bollingerBands: this.bollinger.value,
+      ...this.getExtended()
+    };
+  }
+
+  // Amortized: arrays grow to twice the retained length before being cut back
+  private trim() {
+    if (this.bars.length <= this.maxLength * 2) return;
+    this.bars = this.bars.slice(-this.maxLength);
+    for (const key of Object.keys(this.series) as (keyof IndicatorPipeline['series'])[]) {
+      this.series[key] = this.series[key].slice(-this.maxLength);
+    }
+  }
+}
@@ -13,12 +13,15 @@ import {
   TechnicalAnalysis, 
   MarketRegimeDetector,
   TradingStrategies,
+  PositionSizingCalculator,
   type PriceBar,
   type TechnicalIndicators,
   type MarketRegime,
   type TradingSignal 
 } from './strategyEngine';
 import { DEFAULT_PARAMS } from '../contractConfig';
+import { candleStore, isCandleTimeframe, type CandleTimeframe } from '../../services/CandleStore';
+import { IndicatorPipeline, type IndicatorSnapshot } from './indicators';
 import { toast } from 'sonner';
 
 // ============================================================================
@@ -28,7 +31,8 @@ import { toast } from 'sonner';
 export interface OpportunityAlert {
   id: string;
   symbol: string;
-  type: 'breakout' | 'reversal' | 'momentum' | 'news_spike' | 'volume_spike';
+  type: 'breakout' | 'reversal' | 'momentum' | 'news_spike' | 'volume_spike' | 'strategy';
+  strategy?: string; // registered strategy that produced a 'strategy' alert
   priority: 'low' | 'medium' | 'high' | 'critical';
   confidence: number; // 0-100
   message: string;
@@ -71,6 +75,7 @@ export interface MarketSnapshot {
   priceHistory: PriceBar[];
   indicators: TechnicalIndicators;
   regime: MarketRegime;
+  extendedIndicators?: IndicatorSnapshot; // Latest MACD/Stochastic/ADX/VWAP/... values
   volume24h: number;
   priceChange24h: number;
   lastUpdate: number;
@@ -309,6 +314,62 @@ export class OpportunityDetector {
     
     return null;
   }
+  
+  // Signals from user-registered strategies that are enabled in the strategy engine
+  static async detectStrategySignals(
+    snapshot: MarketSnapshot,
+    currentPrice: UnifiedPriceData,
+    timeframe: string
+  ): Promise<OpportunityAlert[]> {
+    const { priceHistory } = snapshot;
+    if (priceHistory.length < 20) return [];
+    
+    const alerts: OpportunityAlert[] = [];
+    for (const info of strategyEngine.listStrategies()) {
+      const config = strategyEngine.getStrategyConfig(info.name);
+      if (info.builtIn || !config?.enabled || info.health.quarantined) continue;
+      
+      const indicators = TechnicalAnalysis.calculateIndicators(priceHistory, config.indicators.periods);
+      const regime = MarketRegimeDetector.analyzeMarketRegime(priceHistory, indicators);
+      const signal = await strategyEngine.evaluateStrategy(info.name, priceHistory, indicators, regime, config);
+      if (!signal || signal.strength < config.minConfidence) continue;
+      
+      const atr = indicators.atr[indicators.atr.length - 1] || currentPrice.price * 0.02;
+      const { stopLoss, takeProfit } = PositionSizingCalculator.calculateStopLossAndTakeProfit(
+        signal,
+        currentPrice.price,
+        atr,
+        config.riskParams
+      );
+      
+      alerts.push({
+        id: `strategy_${info.name}_${currentPrice.symbol}_${Date.now()}`,
+        symbol: currentPrice.symbol,
+        type: 'strategy',
+        strategy: info.name,
+        priority: signal.strength > 85 ? 'high' : 'medium',
+        confidence: signal.strength,
+        message: `🧩 ${info.displayName}: ${signal.direction} ${currentPrice.symbol} - ${signal.reason}`,
+        details: {
+          currentPrice: currentPrice.price,
+          priceChange: currentPrice.change24h,
+          volume: currentPrice.volume,
+          signals: [
+            signal.reason,
+            ...Object.entries(signal.indicators).map(([key, value]) => `${key}: ${Number(value).toFixed(2)}`)
+          ],
+          timeframe,
+          targetPrice: takeProfit.price,
+          stopLoss: stopLoss.price,
+          riskReward: takeProfit.percent / stopLoss.percent
+        },
+        timestamp: Date.now(),
+        expiresAt: Date.now() + (2 * 3600000) // 2 hours
+      });
+    }
+    
+    return alerts;
+  }
 }
 
 // ============================================================================
@@ -319,6 +380,7 @@ export class OpportunityRadar {
   private config: OpportunityRadarConfig;
   private userPreferences: UserPreferences;
   private marketSnapshots: Map<string, MarketSnapshot> = new Map();
+  private indicatorPipelines: Map<string, IndicatorPipeline> = new Map();
   private activeAlerts: Map<string, OpportunityAlert> = new Map();
   private alertHistory: OpportunityAlert[] = [];
   private lastAlertTime: Map<string, number> = new Map();
@@ -502,6 +564,10 @@ export class OpportunityRadar {
       if (volumeSpike) opportunities.push(volumeSpike);
     }
     
+    // User-registered strategies join the scan automatically
+    const timeframe = this.userPreferences.timeframes.find(isCandleTimeframe) ?? '1h';
+    opportunities.push(...await OpportunityDetector.detectStrategySignals(snapshot, currentPrice, timeframe));
+    
     // Process and send alerts
     for (const opportunity of opportunities) {
       if (opportunity.confidence >= this.userPreferences.minConfidence) {
@@ -511,13 +577,20 @@ export class OpportunityRadar {
   }
   
   private async updateMarketSnapshot(symbol: string, currentPrice: UnifiedPriceData): Promise<void> {
+    // Fold the update into the candle store and read back real bars
+    candleStore.ingestUnifiedPrice(currentPrice);
+    const timeframe = this.userPreferences.timeframes.find(isCandleTimeframe) ?? '1h';
+    const pipeline = await this.getIndicatorPipeline(symbol, timeframe);
+    // Only bars at or after the pipeline's latest one are new work (the latest may still be forming)
+    pipeline.updateMany(candleStore.getCachedBars(symbol, timeframe, { from: pipeline.lastTimestamp ?? undefined }));
+    const priceHistory = pipeline.getBars();
+    
     let snapshot = this.marketSnapshots.get(symbol);
     
     if (!snapshot) {
-      // Create new snapshot with mock historical data
       snapshot = {
         symbol,
-        priceHistory: this.generateInitialPriceHistory(currentPrice.price),
+        priceHistory,
         indicators: { sma: [], ema: [], rsi: [], atr: [], volume: [], bollingerBands: { upper: [], middle: [], lower: [] } },
         regime: { type: 'ranging', strength: 50, direction: 'neutral', volatility: 'medium', confidence: 50 },
         volume24h: parseFloat(currentPrice.volume),
@@ -526,36 +599,16 @@ export class OpportunityRadar {
       };
     }
     
-    // Update price history
-    const newBar: PriceBar = {
-      timestamp: Date.now(),
-      open: currentPrice.openPrice || currentPrice.price,
-      high: currentPrice.high24h,
-      low: currentPrice.low24h,
-      close: currentPrice.price,
-      volume: parseFloat(currentPrice.volume)
-    };
+    snapshot.priceHistory = priceHistory;
     
-    snapshot.priceHistory.push(newBar);
+    // Indicators are maintained incrementally by the pipeline
+    snapshot.indicators = pipeline.getIndicators();
+    snapshot.extendedIndicators = pipeline.getLatest();
     
-    // Keep only recent history
-    if (snapshot.priceHistory.length > this.config.maxHistoryLength) {
-      snapshot.priceHistory = snapshot.priceHistory.slice(-this.config.maxHistoryLength);
+    // Update market regime once there is enough history to classify it
+    if (snapshot.priceHistory.length >= 20) {
+      snapshot.regime = MarketRegimeDetector.analyzeMarketRegime(snapshot.priceHistory, snapshot.indicators);
     }
-    
-    // Recalculate indicators
-    const prices = snapshot.priceHistory.map(bar => bar.close);
-    snapshot.indicators = {
-      sma: TechnicalAnalysis.calculateSMA(prices, 20),
-      ema: TechnicalAnalysis.calculateEMA(prices, 12),
-      rsi: TechnicalAnalysis.calculateRSI(prices, 14),
-      atr: TechnicalAnalysis.calculateATR(snapshot.priceHistory, 14),
-      volume: snapshot.priceHistory.map(bar => bar.volume),
-      bollingerBands: TechnicalAnalysis.calculateBollingerBands(prices, 20, 2)
-    };
-    
-    // Update market regime
-    snapshot.regime = MarketRegimeDetector.analyzeMarketRegime(snapshot.priceHistory, snapshot.indicators);
     snapshot.volume24h = parseFloat(currentPrice.volume);
     snapshot.priceChange24h = currentPrice.change24h;
     snapshot.lastUpdate = Date.now();
@@ -563,6 +616,18 @@ export class OpportunityRadar {
     this.marketSnapshots.set(symbol, snapshot);
   }
   
+  // One pipeline per symbol/timeframe, seeded from stored history on first use
+  private async getIndicatorPipeline(symbol: string, timeframe: CandleTimeframe): Promise<IndicatorPipeline> {
+    const key = `${symbol}:${timeframe}`;
+    let pipeline = this.indicatorPipelines.get(key);
+    if (!pipeline) {
+      pipeline = new IndicatorPipeline({ maxLength: this.config.maxHistoryLength });
+      pipeline.updateMany(await candleStore.getBars(symbol, timeframe, { limit: this.config.maxHistoryLength }));
+      this.indicatorPipelines.set(key, pipeline);
+    }
+    return pipeline;
+  }
+  
   // ============================================================================
   // ALERT MANAGEMENT
   // ============================================================================
@@ -570,7 +635,7 @@ export class OpportunityRadar {
   private async processOpportunityAlert(alert: OpportunityAlert): Promise<void> {
     // Check if we already have a similar active alert
     const existingAlert = Array.from(this.activeAlerts.values()).find(
-      a => a.symbol === alert.symbol && a.type === alert.type
+      a => a.symbol === alert.symbol && a.type === alert.type && a.strategy === alert.strategy
     );
     
     if (existingAlert) return; // Avoid duplicate alerts
@@ -715,34 +780,6 @@ export class OpportunityRadar {
     return [...highPrioritySymbols, ...randomSymbols];
   }
   
-  private generateInitialPriceHistory(currentPrice: number): PriceBar[] {
-    // Generate mock historical data for initial indicators calculation
-    const bars: PriceBar[] = [];
-    let price = currentPrice * 0.98; // Start slightly below current
-    
-    for (let i = 0; i < 50; i++) {
-      const change = (Math.random() - 0.5) * 0.02; // ±1% random change
-      const open = price;
-      const close = price * (1 + change);
-      const high = Math.max(open, close) * (1 + Math.random() * 0.005);
-      const low = Math.min(open, close) * (1 - Math.random() * 0.005);
-      const volume = 100000 + Math.random() * 200000;
-      
-      bars.push({
-        timestamp: Date.now() - (50 - i) * 3600000, // Hourly intervals
-        open,
-        high,
-        low,
-        close,
-        volume
-      });
-      
-      price = close;
-    }
-    
-    return bars;
-  }
-  
   // ============================================================================
   // PUBLIC API METHODS
   // ============================================================================
@@ -5,7 +5,10 @@
 
 import { TradingPlan } from '../../components/trading-assistant/types';
 import { performanceTracker } from './performanceTracker';
-import { transactionHistory, TransactionRecord } from '../transactionHistory';
+import type { TransactionRecord } from '../transactionHistory';
+import { transactionTracker } from '../../services/TransactionTracker';
+import { eventIndexer } from '../../services/EventIndexer';
+import type { Address } from 'viem';
 
 /**
  * Integration helper class for connecting trading plans with performance tracking
@@ -46,7 +49,7 @@ export class PerformanceIntegration {
         leverage: executionDetails.leverage,
         margin: executionDetails.margin,
         slippage: 0, // Calculate from actual vs expected price
-        fees: 0, // Extract from transaction
+        fees: eventIndexer.getTransactionFees(transaction.userAddress as Address, transaction.hash),
         transactionHash: transaction.hash
       });
 
@@ -77,7 +80,7 @@ export class PerformanceIntegration {
         actualExitPrice: closureDetails.actualPrice,
         exitReason: closureDetails.exitReason,
         slippage: 0, // Calculate from actual vs expected price
-        fees: 0, // Extract from transaction
+        fees: eventIndexer.getTransactionFees(transaction.userAddress as Address, transaction.hash),
         transactionHash: transaction.hash
       });
 
@@ -93,25 +96,40 @@ export class PerformanceIntegration {
   }
 
   /**
-   * Auto-sync transaction history with performance tracker
+   * Close tracked plans whose positions the event indexer has seen closed.
+   * A plan is matched through the transaction that opened its position.
    */
-  static syncTransactionHistory(userAddress: string): void {
+  static syncTransactionHistory(userAddress: string): number {
     try {
-      const transactions = transactionHistory.getUserTransactions(userAddress);
-      console.log(`Syncing ${transactions.length} transactions for performance tracking`);
-      
-      // In a real implementation, you would match transactions to trading plans
-      // and update the performance tracker accordingly
-      
-      // This is a placeholder for the sync logic
-      transactions.forEach(transaction => {
-        if (transaction.type === 'pool_deposit' || transaction.type === 'pool_withdraw') {
-          // Match transaction to a trading plan and update performance tracker
-          // This would require additional metadata to link transactions to plans
-        }
+      const user = userAddress as Address;
+      const transactions = transactionTracker.getTransactions(userAddress);
+      const closedPositions = eventIndexer.getClosedPositions(user);
+      console.log(`Syncing ${transactions.length} transactions and ${closedPositions.length} closed positions for performance tracking`);
+
+      let closed = 0;
+      performanceTracker.getOpenExecutions().forEach(execution => {
+        const hash = execution.entryTransactionHash?.toLowerCase();
+        if (!hash) return;
+
+        const record = closedPositions.find(position => position.openTxHash.toLowerCase() === hash);
+        if (!record) return;
+
+        // Exit price implied by realized PnL on the opened size
+        const direction = record.side === 'buy' ? 1 : -1;
+        const exitPrice = record.size > 0 ? record.entryPrice + record.pnl / (record.size * direction) : record.entryPrice;
+        const recorded = performanceTracker.recordExit(execution.planId, {
+          actualExitPrice: exitPrice,
+          exitReason: 'manual',
+          fees: eventIndexer.getTransactionFees(user, record.closeTxHash),
+          transactionHash: record.closeTxHash
+        });
+        if (recorded) closed++;
       });
+
+      return closed;
     } catch (error) {
       console.error('Failed to sync transaction history:', error);
+      return 0;
     }
   }
 
@@ -4,8 +4,9 @@
  */
 
 import { TradingPlan } from '../../components/trading-assistant/types';
-import { TransactionRecord, transactionHistory } from '../transactionHistory';
 import { getUnifiedPrice } from '../unifiedPriceAPI';
+import { candleStore, isCandleTimeframe } from '../../services/CandleStore';
+import { backtestEngine, type BacktestConfig } from './backtestEngine';
 
 // ============================================================================
 // CORE TYPES AND INTERFACES
@@ -142,8 +143,20 @@ export interface BacktestResult {
   averageWin: number;
   averageLoss: number;
   
+  // Extended metrics (absent on results saved before the event-driven engine)
+  initialBalance?: number;
+  finalBalance?: number;
+  totalReturnPercent?: number;
+  sortinoRatio?: number;
+  exposure?: number; // % of bars with an open position
+  totalFees?: number;
+  totalFunding?: number; // net funding paid (negative = received)
+  totalSlippage?: number;
+  barsTested?: number;
+  
   // Trade Details
   trades: BacktestTrade[];
+  equityCurve?: BacktestEquityPoint[];
   
   // Metadata
   createdAt: number;
@@ -158,7 +171,24 @@ export interface BacktestTrade {
   direction: 'long' | 'short';
   pnl: number;
   pnlPercentage: number;
-  reason: string;
+  reason: string; // entry signal reason
+  exitReason?: BacktestExitReason;
+  quantity?: number;
+  notional?: number;
+  leverage?: number;
+  fees?: number;
+  funding?: number;
+  slippage?: number;
+  barsHeld?: number;
+  signalStrength?: number;
+}
+
+export type BacktestExitReason = 'stop_loss' | 'take_profit' | 'signal_reversal' | 'time_exit' | 'end_of_data';
+
+export interface BacktestEquityPoint {
+  timestamp: number;
+  equity: number;
+  drawdown: number; // % below running peak
 }
 
 export interface RealTimePosition {
@@ -346,6 +376,14 @@ export class PerformanceTracker {
     return true;
   }
 
+  /**
+   * Executions with an entry but no exit yet
+   */
+  getOpenExecutions(): TradingPlanExecution[] {
+    return Array.from(this.executions.values())
+      .filter(exec => exec.status === 'entered' || exec.status === 'active');
+  }
+
   /**
    * Calculate performance metrics for a completed execution
    */
@@ -652,95 +690,23 @@ export class PerformanceTracker {
     startDate: number;
     endDate: number;
     initialBalance: number;
-  }): Promise<BacktestResult> {
-    // This is a simplified backtest implementation
-    // In a real system, you would fetch historical data and simulate trades
-    
-    const backtestId = `backtest_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    // Simulate some backtest results for demonstration
-    const trades: BacktestTrade[] = [];
-    const numTrades = Math.floor(Math.random() * 50) + 10; // 10-60 trades
-    
-    let currentTime = config.startDate;
-    const timeIncrement = (config.endDate - config.startDate) / numTrades;
-    
-    for (let i = 0; i < numTrades; i++) {
-      const entryTime = currentTime;
-      const exitTime = currentTime + (timeIncrement * 0.8); // Exit before next entry
-      
-      // Simulate random price movements
-      const entryPrice = 100 + (Math.random() * 50);
-      const priceChange = (Math.random() - 0.5) * 0.1; // ±5% change
-      const exitPrice = entryPrice * (1 + priceChange);
-      
-      const direction: 'long' | 'short' = Math.random() > 0.5 ? 'long' : 'short';
-      
-      let pnl: number;
-      if (direction === 'long') {
-        pnl = exitPrice - entryPrice;
-      } else {
-        pnl = entryPrice - exitPrice;
-      }
-      
-      trades.push({
-        entryTime,
-        exitTime,
-        entryPrice,
-        exitPrice,
-        direction,
-        pnl,
-        pnlPercentage: (pnl / entryPrice) * 100,
-        reason: 'Strategy signal'
-      });
-      
-      currentTime += timeIncrement;
+  } & Partial<Omit<BacktestConfig, 'strategyName' | 'symbol' | 'timeframe' | 'initialBalance'>>): Promise<BacktestResult> {
+    if (!isCandleTimeframe(config.timeframe)) {
+      throw new Error(`Unsupported backtest timeframe: ${config.timeframe}`);
     }
     
-    // Calculate backtest metrics
-    const wins = trades.filter(t => t.pnl > 0);
-    const losses = trades.filter(t => t.pnl <= 0);
-    
-    const totalReturn = trades.reduce((sum, t) => sum + t.pnl, 0);
-    const winRate = (wins.length / trades.length) * 100;
-    const averageWin = wins.length > 0 ? wins.reduce((sum, t) => sum + t.pnl, 0) / wins.length : 0;
-    const averageLoss = losses.length > 0 ? Math.abs(losses.reduce((sum, t) => sum + t.pnl, 0)) / losses.length : 0;
-    const profitFactor = averageLoss > 0 ? averageWin / averageLoss : averageWin;
-    
-    // Calculate max drawdown
-    let maxDrawdown = 0;
-    let peak = config.initialBalance;
-    let currentBalance = config.initialBalance;
-    
-    for (const trade of trades) {
-      currentBalance += trade.pnl;
-      if (currentBalance > peak) {
-        peak = currentBalance;
-      }
-      const drawdown = (peak - currentBalance) / peak * 100;
-      maxDrawdown = Math.max(maxDrawdown, drawdown);
+    // Replay stored candles; import history into the candle store to extend the range
+    const bars = await candleStore.getBars(config.symbol, config.timeframe, {
+      from: config.startDate,
+      to: config.endDate
+    });
+    if (bars.length === 0) {
+      throw new Error(`No ${config.timeframe} candles stored for ${config.symbol} in the requested range`);
     }
     
-    const result: BacktestResult = {
-      id: backtestId,
-      strategyName: config.strategyName,
-      symbol: config.symbol,
-      timeframe: config.timeframe,
-      startDate: config.startDate,
-      endDate: config.endDate,
-      totalTrades: trades.length,
-      winRate,
-      totalReturn,
-      maxDrawdown,
-      sharpeRatio: 0, // TODO: Calculate properly
-      profitFactor,
-      averageWin,
-      averageLoss,
-      trades,
-      createdAt: Date.now()
-    };
+    const result = await backtestEngine.run(bars, config);
     
-    this.backtestResults.set(backtestId, result);
+    this.backtestResults.set(result.id, result);
     this.saveData();
     
     return result;
@@ -0,0 +1,546 @@
+// RiverBit Trading Assistant - Portfolio Value-at-Risk and Stress Testing
+// Revalues every open position under historical and hypothetical price moves, applying
+// the exchange's margin rules so leverage and liquidations shape the loss distribution
+
+import { candleStore, toCandleSymbol, TIMEFRAME_MS } from '../../services/CandleStore';
+import { getAssetClass, type EventAssetClass } from '../../services/EconomicCalendar';
+import { correlationEngine } from './correlationEngine';
+
+// ============================================================================
+// TYPES AND INTERFACES
+// ============================================================================
+
+export interface PortfolioPosition {
+  symbol: string;                 // Candle symbol, e.g. 'BTC', 'AAPL'
+  side: 'long' | 'short';
+  quantity: number;               // Base units
+  entryPrice: number;
+  markPrice: number;
+  leverage: number;
+  marginMode: 'cross' | 'isolated';
+  margin: number;                 // Posted margin (isolated) or initial margin share (cross)
+}
+
+export interface PortfolioAccount {
+  balance: number;                // Collateral excluding unrealized P&L
+  positions: PortfolioPosition[];
+  maintenanceMarginRate: number;
+}
+
+export interface VaROptions {
+  confidence: number;             // e.g. 0.95, 0.99
+  horizonHours: number;
+  lookbackHours: number;          // Hourly history used for both methods
+}
+
+export interface VaRResult {
+  method: 'historical' | 'parametric';
+  confidence: number;
+  horizonHours: number;
+  valueAtRisk: number;            // Loss in USD, positive number
+  expectedShortfall: number;      // CVaR: mean loss beyond VaR
+  observations: number;
+  liquidationProbability?: number; // Historical only: share of scenarios with a liquidation
+}
+
+export interface PositionStressResult {
+  symbol: string;
+  side: 'long' | 'short';
+  notional: number;
+  priceShock: number;             // Fractional price move applied
+  pnl: number;                    // Change in value, after liquidation caps
+  fundingCost: number;
+  liquidated: boolean;
+}
+
+export interface StressScenario {
+  id: string;
+  name: string;
+  shocks?: Record<string, number>;                         // Per-symbol fractional moves
+  assetClassShocks?: Partial<Record<EventAssetClass, number>>;
+  propagate?: boolean;            // Spread explicit shocks to other symbols by correlation
+  fundingRate?: number;           // Per 8h; positive means longs pay
+  fundingPeriods?: number;
+}
+
+export interface StressTestResult {
+  scenario: StressScenario;
+  positions: PositionStressResult[];
+  totalPnl: number;
+  equityBefore: number;
+  equityAfter: number;
+  marginRatioBefore: number;      // Maintenance / equity in %, 100 = liquidation
+  marginRatioAfter: number;
+  liquidations: string[];
+}
+
+export interface PortfolioRiskReport {
+  equity: number;
+  grossNotional: number;
+  marginRatio: number;
+  historical: VaRResult | null;
+  parametric: VaRResult | null;
+  positionVaR: Record<string, number>; // Standalone historical VaR per symbol with history
+  stressTests: StressTestResult[];
+  missingHistory: string[];       // Symbols without enough candles; treated as unmoved
+  timestamp: number;
+}
+
+export const DEFAULT_VAR_OPTIONS: VaROptions = {
+  confidence: 0.95,
+  horizonHours: 24,
+  lookbackHours: 24 * 30
+};
+
+export const DEFAULT_STRESS_SCENARIOS: StressScenario[] = [
+  { id: 'btc-crash', name: 'BTC -20%', shocks: { BTC: -0.2 }, propagate: true },
+  { id: 'crypto-crash', name: 'Crypto market -35%', assetClassShocks: { crypto: -0.35 } },
+  { id: 'crypto-squeeze', name: 'Crypto short squeeze +25%', assetClassShocks: { crypto: 0.25 } },
+  { id: 'tech-selloff', name: 'Tech stocks -10%', assetClassShocks: { stock: -0.1 } },
+  { id: 'funding-spike', name: 'Funding spike 0.3%/8h for 24h', fundingRate: 0.003, fundingPeriods: 3 }
+];
+
+// Hourly returns a symbol needs before it contributes to VaR
+const MIN_RETURN_OBSERVATIONS = 48;
+const DEFAULT_MAINTENANCE_MARGIN_RATE = 0.05; // Matches ExchangeSimulator
+
+interface RevaluedPortfolio {
+  positions: PositionStressResult[];
+  totalPnl: number;
+  equityAfter: number;
+  marginRatioAfter: number;
+  liquidations: string[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// Acklam's rational approximation of the standard normal quantile
+function normalQuantile(p: number): number {
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+function normalDensity(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+function tailStatistics(pnls: number[], confidence: number): { valueAtRisk: number; expectedShortfall: number } {
+  const sorted = [...pnls].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.floor((1 - confidence) * sorted.length));
+  const tail = sorted.slice(0, index + 1);
+  return {
+    valueAtRisk: Math.max(0, -sorted[index]),
+    expectedShortfall: Math.max(0, -tail.reduce((sum, pnl) => sum + pnl, 0) / tail.length)
+  };
+}
+
+/**
+ * Build a portfolio from the loosely-typed account data the UI passes around:
+ * a symbol-keyed map or an array of contract positions (`market`, `side`
+ * 'buy'/'sell', string sizes), simulator positions or plain
+ * `{ symbol, notionalValue, side }` records.
+ */
+export function toPortfolioAccount(accountData: any): PortfolioAccount {
+  const raw = accountData?.positions;
+  const entries: Array<[string, any]> = !raw
+    ? []
+    : Array.isArray(raw)
+      ? raw.map(p => [p?.symbol ?? p?.market, p])
+      : Object.entries(raw);
+
+  const positions = entries
+    .filter(([symbol, data]) => typeof symbol === 'string' && data)
+    .map(([symbol, data]): PortfolioPosition | null => {
+      const candleSymbol = toCandleSymbol(symbol);
+      const side: 'long' | 'short' =
+        data.side === 'short' || data.side === 'sell' || data.direction === 'short' || data.isLong === false ||
+        (data.side === undefined && data.direction === undefined && data.isLong === undefined && Number(data.size) < 0)
+          ? 'short'
+          : 'long';
+      const leverage = Number(data.leverage) || 1;
+      const lastClose = candleStore.getCachedBars(candleSymbol, '1h').slice(-1)[0]?.close;
+      const entryPrice = Number(data.entryPrice) || Number(data.markPrice) || lastClose || 0;
+
+      let quantity = Math.abs(Number(data.quantity ?? data.size) || 0);
+      if (data.notionalValue !== undefined && entryPrice > 0) {
+        quantity = Math.abs(Number(data.notionalValue)) / (Number(data.markPrice) || entryPrice);
+      }
+      if (quantity === 0 || entryPrice === 0) return null;
+
+      const direction = side === 'long' ? 1 : -1;
+      const unrealized = data.unrealizedPnl !== undefined ? Number(data.unrealizedPnl) : undefined;
+      const markPrice = Number(data.markPrice) ||
+        (unrealized !== undefined && Number.isFinite(unrealized) ? entryPrice + unrealized / (quantity * direction) : 0) ||
+        lastClose ||
+        entryPrice;
+
+      return {
+        symbol: candleSymbol,
+        side,
+        quantity,
+        entryPrice,
+        markPrice,
+        leverage,
+        marginMode: data.marginMode === 'isolated' ? 'isolated' : 'cross',
+        margin: Number(data.margin) || (quantity * entryPrice) / leverage
+      };
+    })
+    .filter((position): position is PortfolioPosition => position !== null);
+
+  const unrealized = positions.reduce((sum, p) => sum + unrealizedPnl(p), 0);
+  const balance = accountData?.balance !== undefined
+    ? Number(accountData.balance)
+    : Number(accountData?.equity ?? 0) - unrealized;
+
+  return {
+    balance,
+    positions,
+    maintenanceMarginRate: accountData?.maintenanceMarginRate ?? DEFAULT_MAINTENANCE_MARGIN_RATE
+  };
+}
+
+function unrealizedPnl(position: PortfolioPosition, price: number = position.markPrice): number {
+  return position.quantity * (price - position.entryPrice) * (position.side === 'long' ? 1 : -1);
+}
+
+// ============================================================================
+// PORTFOLIO RISK ENGINE
+// ============================================================================
+
+export class PortfolioRiskEngine {
+  getEquity(account: PortfolioAccount): number {
+    return account.balance + account.positions.reduce((sum, p) => sum + unrealizedPnl(p), 0);
+  }
+
+  getMarginRatio(account: PortfolioAccount): number {
+    const maintenance = account.positions.reduce(
+      (sum, p) => sum + p.quantity * p.markPrice * account.maintenanceMarginRate, 0
+    );
+    return this.toMarginRatio(maintenance, this.getEquity(account));
+  }
+
+  /**
+   * Full report: both VaR methods, per-position VaR and every stress scenario
+   */
+  async analyze(
+    account: PortfolioAccount,
+    options: Partial<VaROptions> = {},
+    scenarios: StressScenario[] = DEFAULT_STRESS_SCENARIOS
+  ): Promise<PortfolioRiskReport> {
+    const config = { ...DEFAULT_VAR_OPTIONS, ...options };
+    const symbols = Array.from(new Set(account.positions.map(p => p.symbol)));
+    const { returns, missing } = await this.loadHorizonReturns(symbols, config);
+
+    const positionVaR: Record<string, number> = {};
+    symbols.filter(symbol => returns.has(symbol)).forEach(symbol => {
+      const single = { ...account, positions: account.positions.filter(p => p.symbol === symbol) };
+      positionVaR[symbol] = this.historicalFromReturns(single, returns, config)?.valueAtRisk ?? 0;
+    });
+
+    return {
+      equity: this.getEquity(account),
+      grossNotional: account.positions.reduce((sum, p) => sum + p.quantity * p.markPrice, 0),
+      marginRatio: this.getMarginRatio(account),
+      historical: this.historicalFromReturns(account, returns, config),
+      parametric: this.parametricFromReturns(account, returns, config),
+      positionVaR,
+      stressTests: scenarios.map(scenario => this.stressTest(account, scenario)),
+      missingHistory: missing,
+      timestamp: Date.now()
+    };
+  }
+
+  /**
+   * Historical simulation: replays every past horizon-length move through the
+   * current book, so liquidations and loss caps appear in the tail
+   */
+  async historicalVaR(account: PortfolioAccount, options: Partial<VaROptions> = {}): Promise<VaRResult | null> {
+    const config = { ...DEFAULT_VAR_OPTIONS, ...options };
+    const { returns } = await this.loadHorizonReturns(account.positions.map(p => p.symbol), config);
+    return this.historicalFromReturns(account, returns, config);
+  }
+
+  /**
+   * Variance-covariance VaR on linear exposures, capped at account equity
+   */
+  async parametricVaR(account: PortfolioAccount, options: Partial<VaROptions> = {}): Promise<VaRResult | null> {
+    const config = { ...DEFAULT_VAR_OPTIONS, ...options };
+    const { returns } = await this.loadHorizonReturns(account.positions.map(p => p.symbol), config);
+    return this.parametricFromReturns(account, returns, config);
+  }
+
+  /**
+   * Apply one scenario's price shocks and funding to the current book
+   */
+  stressTest(account: PortfolioAccount, scenario: StressScenario): StressTestResult {
+    const shocks = new Map<string, number>();
+    account.positions.forEach(position => {
+      shocks.set(position.symbol, this.resolveShock(position.symbol, scenario));
+    });
+
+    const revalued = this.revalue(account, shocks, scenario.fundingRate ?? 0, scenario.fundingPeriods ?? 0);
+    return {
+      scenario,
+      positions: revalued.positions,
+      totalPnl: revalued.totalPnl,
+      equityBefore: this.getEquity(account),
+      equityAfter: revalued.equityAfter,
+      marginRatioBefore: this.getMarginRatio(account),
+      marginRatioAfter: revalued.marginRatioAfter,
+      liquidations: revalued.liquidations
+    };
+  }
+
+  // ============================================================================
+  // INTERNALS
+  // ============================================================================
+
+  private resolveShock(symbol: string, scenario: StressScenario): number {
+    const explicit = Object.entries(scenario.shocks ?? {}).map(
+      ([key, shock]) => [toCandleSymbol(key), shock] as const
+    );
+    const direct = explicit.find(([key]) => key === symbol);
+    if (direct) return direct[1];
+
+    const classShock = scenario.assetClassShocks?.[getAssetClass(symbol)];
+    if (classShock !== undefined) return classShock;
+
+    if (scenario.propagate) {
+      // Correlation-scaled move; unestimated pairs are left unshocked
+      return explicit.reduce((sum, [key, shock]) => {
+        const correlation = correlationEngine.getCorrelation(key, symbol);
+        return sum + (correlation ?? 0) * shock;
+      }, 0);
+    }
+    return 0;
+  }
+
+  /**
+   * Mirrors ExchangeSimulator: isolated positions lose at most their margin and
+   * liquidate below maintenance; the cross book liquidates as a whole when cross
+   * equity falls below its maintenance, losing at most the remaining collateral
+   */
+  private revalue(
+    account: PortfolioAccount,
+    shocks: Map<string, number>,
+    fundingRate: number,
+    fundingPeriods: number
+  ): RevaluedPortfolio {
+    const rate = account.maintenanceMarginRate;
+    const results = account.positions.map(position => {
+      const shock = shocks.get(position.symbol) ?? 0;
+      const price = position.markPrice * (1 + shock);
+      const direction = position.side === 'long' ? 1 : -1;
+      const fundingCost = direction * position.quantity * price * fundingRate * fundingPeriods;
+      return {
+        position,
+        price,
+        shock,
+        fundingCost,
+        pnl: unrealizedPnl(position, price) - unrealizedPnl(position) - fundingCost,
+        liquidated: false
+      };
+    });
+
+    results
+      .filter(result => result.position.marginMode === 'isolated')
+      .forEach(result => {
+        const equity = result.position.margin + unrealizedPnl(result.position) + result.pnl;
+        if (equity < result.position.quantity * result.price * rate) {
+          result.liquidated = true;
+          result.pnl = Math.max(result.pnl, -(result.position.margin + unrealizedPnl(result.position)));
+        }
+      });
+
+    const cross = results.filter(result => result.position.marginMode === 'cross');
+    if (cross.length > 0) {
+      const isolatedMargin = account.positions
+        .filter(p => p.marginMode === 'isolated')
+        .reduce((sum, p) => sum + p.margin, 0);
+      const equityBefore = account.balance - isolatedMargin +
+        cross.reduce((sum, result) => sum + unrealizedPnl(result.position), 0);
+      const crossPnl = cross.reduce((sum, result) => sum + result.pnl, 0);
+      const maintenance = cross.reduce((sum, result) => sum + result.position.quantity * result.price * rate, 0);
+
+      if (equityBefore + crossPnl < maintenance) {
+        cross.forEach(result => {
+          result.liquidated = true;
+        });
+        // Losses beyond the collateral are socialized, not borne by the account
+        const floor = -Math.max(equityBefore, 0);
+        if (crossPnl < floor && crossPnl < 0) {
+          const scale = floor / crossPnl;
+          cross.forEach(result => {
+            result.pnl *= scale;
+          });
+        }
+      }
+    }
+
+    const totalPnl = results.reduce((sum, result) => sum + result.pnl, 0);
+    const equityAfter = this.getEquity(account) + totalPnl;
+    const survivingMaintenance = results
+      .filter(result => !result.liquidated)
+      .reduce((sum, result) => sum + result.position.quantity * result.price * rate, 0);
+
+    return {
+      positions: results.map(result => ({
+        symbol: result.position.symbol,
+        side: result.position.side,
+        notional: result.position.quantity * result.position.markPrice,
+        priceShock: result.shock,
+        pnl: result.pnl,
+        fundingCost: result.fundingCost,
+        liquidated: result.liquidated
+      })),
+      totalPnl,
+      equityAfter,
+      marginRatioAfter: this.toMarginRatio(survivingMaintenance, equityAfter),
+      liquidations: results.filter(result => result.liquidated).map(result => result.position.symbol)
+    };
+  }
+
+  private toMarginRatio(maintenance: number, equity: number): number {
+    return equity > 0 ? (maintenance / equity) * 100 : maintenance > 0 ? 100 : 0;
+  }
+
+  /**
+   * Overlapping horizon-length simple returns on the hourly timestamps every
+   * symbol shares. Symbols without enough history are reported and skipped.
+   */
+  private async loadHorizonReturns(
+    symbols: string[],
+    config: VaROptions
+  ): Promise<{ returns: Map<string, number[]>; missing: string[] }> {
+    const unique = Array.from(new Set(symbols.map(toCandleSymbol)));
+    const logReturns = new Map<string, Map<number, number>>();
+    const missing: string[] = [];
+    const from = Date.now() - (config.lookbackHours + 1) * TIMEFRAME_MS['1h'];
+
+    for (const symbol of unique) {
+      const bars = await candleStore.getBars(symbol, '1h', { from });
+      const series = new Map<number, number>();
+      for (let i = 1; i < bars.length; i++) {
+        if (bars[i - 1].close > 0 && bars[i].close > 0) {
+          series.set(bars[i].timestamp, Math.log(bars[i].close / bars[i - 1].close));
+        }
+      }
+      if (series.size >= MIN_RETURN_OBSERVATIONS) {
+        logReturns.set(symbol, series);
+      } else {
+        missing.push(symbol);
+      }
+    }
+
+    const covered = Array.from(logReturns.keys());
+    if (covered.length === 0) return { returns: new Map(), missing };
+
+    const timestamps = Array.from(logReturns.get(covered[0])!.keys())
+      .filter(timestamp => covered.every(symbol => logReturns.get(symbol)!.has(timestamp)))
+      .sort((a, b) => a - b);
+
+    const horizon = Math.max(1, Math.round(config.horizonHours));
+    const returns = new Map<string, number[]>();
+    covered.forEach(symbol => {
+      const series = logReturns.get(symbol)!;
+      const values: number[] = [];
+      for (let end = horizon; end <= timestamps.length; end++) {
+        let sum = 0;
+        for (let i = end - horizon; i < end; i++) sum += series.get(timestamps[i])!;
+        values.push(Math.exp(sum) - 1);
+      }
+      returns.set(symbol, values);
+    });
+
+    return { returns, missing };
+  }
+
+  private historicalFromReturns(
+    account: PortfolioAccount,
+    returns: Map<string, number[]>,
+    config: VaROptions
+  ): VaRResult | null {
+    const count = returns.values().next().value?.length ?? 0;
+    if (account.positions.length === 0 || count < MIN_RETURN_OBSERVATIONS / 2) return null;
+
+    const pnls: number[] = [];
+    let liquidationScenarios = 0;
+    for (let i = 0; i < count; i++) {
+      const shocks = new Map<string, number>();
+      returns.forEach((values, symbol) => shocks.set(symbol, values[i]));
+      const revalued = this.revalue(account, shocks, 0, 0);
+      pnls.push(revalued.totalPnl);
+      if (revalued.liquidations.length > 0) liquidationScenarios++;
+    }
+
+    return {
+      method: 'historical',
+      confidence: config.confidence,
+      horizonHours: config.horizonHours,
+      ...tailStatistics(pnls, config.confidence),
+      observations: count,
+      liquidationProbability: liquidationScenarios / count
+    };
+  }
+
+  private parametricFromReturns(
+    account: PortfolioAccount,
+    returns: Map<string, number[]>,
+    config: VaROptions
+  ): VaRResult | null {
+    const symbols = Array.from(returns.keys());
+    const count = symbols.length > 0 ? returns.get(symbols[0])!.length : 0;
+    if (account.positions.length === 0 || count < MIN_RETURN_OBSERVATIONS / 2) return null;
+
+    // Signed exposure per symbol
+    const exposure = symbols.map(symbol => account.positions
+      .filter(p => p.symbol === symbol)
+      .reduce((sum, p) => sum + (p.side === 'long' ? 1 : -1) * p.quantity * p.markPrice, 0));
+    const means = symbols.map(symbol => returns.get(symbol)!.reduce((sum, r) => sum + r, 0) / count);
+
+    let variance = 0;
+    for (let i = 0; i < symbols.length; i++) {
+      for (let j = 0; j < symbols.length; j++) {
+        const a = returns.get(symbols[i])!;
+        const b = returns.get(symbols[j])!;
+        let covariance = 0;
+        for (let k = 0; k < count; k++) covariance += (a[k] - means[i]) * (b[k] - means[j]);
+        variance += exposure[i] * exposure[j] * covariance / (count - 1);
+      }
+    }
+
+    const sigma = Math.sqrt(Math.max(variance, 0));
+    const mean = exposure.reduce((sum, value, i) => sum + value * means[i], 0);
+    const z = normalQuantile(config.confidence);
+    const equity = Math.max(this.getEquity(account), 0);
+
+    return {
+      method: 'parametric',
+      confidence: config.confidence,
+      horizonHours: config.horizonHours,
+      valueAtRisk: Math.min(equity, Math.max(0, z * sigma - mean)),
+      expectedShortfall: Math.min(equity, Math.max(0, (sigma * normalDensity(z)) / (1 - config.confidence) - mean)),
+      observations: count
+    };
+  }
+}
+
+export const portfolioRiskEngine = new PortfolioRiskEngine();
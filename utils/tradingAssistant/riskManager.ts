@@ -14,8 +14,19 @@
  * - User-customizable risk preferences
  */
 
+import type { Address } from 'viem';
 import { TradingPlan, RiskLevel, PlanValidationResult } from '../../components/trading-assistant/types';
 import { DEFAULT_PARAMS, formatUSDC, parseUSDC } from '../contractConfig';
+import { economicCalendar } from '../../services/EconomicCalendar';
+import { toCandleSymbol } from '../../services/CandleStore';
+import { killSwitch, type ExecuteOptions, type KillSwitchAuditEntry } from '../../services/KillSwitch';
+import { correlationEngine, type CorrelationSnapshot } from './correlationEngine';
+import {
+  portfolioRiskEngine,
+  toPortfolioAccount,
+  type PortfolioRiskReport,
+  type VaROptions
+} from './portfolioRisk';
 
 // ============================================================================
 // TYPES AND INTERFACES
@@ -44,6 +55,9 @@ export interface RiskParameters {
   emergencyStopLossPercent: number; // Emergency stop loss percentage
   maxDrawdownPercent: number;       // Max portfolio drawdown before emergency stop
   
+  // Event calendar
+  blackoutEvents: string[];         // Event codes that block trading inside their window
+  
   // User preferences
   riskTolerance: RiskLevel;         // User's risk tolerance level
   autoStopLoss: boolean;            // Enable automatic stop loss
@@ -84,7 +98,7 @@ export interface PlanRiskAssessment {
 }
 
 export interface RiskViolation {
-  type: 'account' | 'position' | 'correlation' | 'volatility' | 'leverage';
+  type: 'account' | 'position' | 'correlation' | 'volatility' | 'leverage' | 'event';
   severity: 'low' | 'medium' | 'high' | 'critical';
   message: string;
   currentValue: number;
@@ -107,6 +121,17 @@ export interface CorrelationMatrix {
   };
 }
 
+export interface CorrelatedExposure {
+  cluster: string[];   // Symbols linked to the anchor above the correlation threshold
+  members: string[];   // Held positions that add to the anchor's exposure
+  exposure: number;    // Anchor notional plus correlation-weighted aligned notional
+}
+
+interface NormalizedPosition {
+  symbol: string;
+  notional: number; // Signed: negative for shorts
+}
+
 export interface EmergencyAction {
   type: 'close_position' | 'reduce_leverage' | 'stop_trading' | 'liquidate_all';
   symbol?: string;
@@ -151,6 +176,9 @@ export const DEFAULT_RISK_PARAMETERS: RiskParameters = {
   emergencyStopLossPercent: 0.15,   // 15% emergency stop loss
   maxDrawdownPercent: 0.20,         // 20% max portfolio drawdown
   
+  // Event calendar
+  blackoutEvents: ['FOMC', 'NFP', 'CPI'], // Same hard blocks as the risk management engine
+  
   // User preferences
   riskTolerance: 'medium',
   autoStopLoss: true,
@@ -188,13 +216,14 @@ export const RISK_TOLERANCE_PRESETS: Record<RiskLevel, Partial<RiskParameters>>
   }
 };
 
-// Asset correlation matrix (simplified - should be updated from real data)
-const ASSET_CORRELATIONS: CorrelationMatrix = {
-  'BTC': { 'ETH': 0.8, 'SOL': 0.7, 'xAAPL': 0.2, 'xTSLA': 0.3 },
-  'ETH': { 'BTC': 0.8, 'SOL': 0.85, 'xAAPL': 0.15, 'xTSLA': 0.25 },
-  'SOL': { 'BTC': 0.7, 'ETH': 0.85, 'xAAPL': 0.1, 'xTSLA': 0.2 },
-  'xAAPL': { 'BTC': 0.2, 'ETH': 0.15, 'xTSLA': 0.6, 'xMSFT': 0.7 },
-  'xTSLA': { 'BTC': 0.3, 'ETH': 0.25, 'xAAPL': 0.6, 'xMSFT': 0.4 }
+// Prior correlations, used only for pairs the correlation engine has not estimated
+// (keys are candle symbols, see toCandleSymbol)
+const FALLBACK_CORRELATIONS: CorrelationMatrix = {
+  'BTC': { 'ETH': 0.8, 'SOL': 0.7, 'AAPL': 0.2, 'TSLA': 0.3 },
+  'ETH': { 'BTC': 0.8, 'SOL': 0.85, 'AAPL': 0.15, 'TSLA': 0.25 },
+  'SOL': { 'BTC': 0.7, 'ETH': 0.85, 'AAPL': 0.1, 'TSLA': 0.2 },
+  'AAPL': { 'BTC': 0.2, 'ETH': 0.15, 'TSLA': 0.6, 'MSFT': 0.7 },
+  'TSLA': { 'BTC': 0.3, 'ETH': 0.25, 'AAPL': 0.6, 'MSFT': 0.4 }
 };
 
 // ============================================================================
@@ -205,10 +234,13 @@ export class RiskManager {
   private userProfiles = new Map<string, UserRiskProfile>();
   private emergencyActions: EmergencyAction[] = [];
   private volatilityData = new Map<string, MarketVolatilityData>();
+  private portfolioReports = new Map<string, PortfolioRiskReport>();
   private isEmergencyMode = false;
 
   constructor() {
     this.initializeDefaultData();
+    // Correlated-exposure checks need live estimates whether or not a panel is open
+    correlationEngine.start();
   }
 
   // ========================================================================
@@ -280,7 +312,12 @@ export class RiskManager {
    * Get user risk profile
    */
   getUserProfile(userAddress: string): UserRiskProfile | undefined {
-    return this.userProfiles.get(userAddress);
+    const profile = this.userProfiles.get(userAddress);
+    // The kill switch owns trading locks; unlock and expiry clear the block
+    if (profile) {
+      profile.isBlocked = killSwitch.isLocked(userAddress as Address);
+    }
+    return profile;
   }
 
   // ========================================================================
@@ -317,7 +354,8 @@ export class RiskManager {
         .filter(v => v.severity === 'medium' || v.severity === 'low')
         .map(v => v.message),
       score: assessment.riskScore,
-      suggestions: assessment.violations.map(v => v.suggestedAction)
+      suggestions: assessment.violations.map(v => v.suggestedAction),
+      adjustedPlan: assessment.adjustedPlan
     };
   }
 
@@ -405,18 +443,59 @@ export class RiskManager {
       riskScore += 40;
     }
 
-    // 6. Correlation risk check
-    const correlationRisk = await this.assessCorrelationRisk(plan.symbol, profile, currentAccountData);
-    if (correlationRisk.isRisky) {
+    // 6. Correlated exposure check (new position plus aligned holdings in its cluster);
+    // a plan with nothing correlated alongside it is bounded by maxPositionSize alone
+    const correlated = this.assessCorrelatedExposure(plan, positionSize, profile, currentAccountData);
+    if (correlated.members.length > 0 && correlated.exposure > profile.parameters.maxCorrelatedExposure) {
+      violations.push({
+        type: 'correlation',
+        severity: 'high',
+        message: `Correlated exposure ${correlated.exposure.toFixed(0)} across ${correlated.cluster.join(', ')} exceeds limit ${profile.parameters.maxCorrelatedExposure}`,
+        currentValue: correlated.exposure,
+        limitValue: profile.parameters.maxCorrelatedExposure,
+        suggestedAction: `Reduce position size to ${Math.max(0, positionSize - (correlated.exposure - profile.parameters.maxCorrelatedExposure)).toFixed(0)} or diversify into uncorrelated assets`
+      });
+      riskScore += 20;
+    } else if (correlated.members.length > 0 && correlated.exposure > profile.parameters.maxCorrelatedExposure * 0.8) {
       violations.push({
         type: 'correlation',
         severity: 'medium',
-        message: `High correlation risk detected with existing positions`,
-        currentValue: correlationRisk.correlationRisk,
+        message: `Correlated exposure ${correlated.exposure.toFixed(0)} across ${correlated.cluster.join(', ')} is near limit ${profile.parameters.maxCorrelatedExposure}`,
+        currentValue: correlated.exposure,
         limitValue: profile.parameters.maxCorrelatedExposure,
         suggestedAction: 'Consider diversifying into uncorrelated assets'
       });
-      riskScore += 15;
+      riskScore += 10;
+    }
+
+    // 7. Economic calendar blackout windows
+    let adjustedPlan: Partial<TradingPlan> | undefined;
+    const blackout = economicCalendar.getBlackoutStatus(plan.symbol, Date.now(), profile.parameters.blackoutEvents);
+    if (blackout.action === 'block') {
+      violations.push({
+        type: 'event',
+        severity: 'critical',
+        message: `Trading blocked during event window: ${blackout.reason}`,
+        currentValue: positionSize,
+        limitValue: 0,
+        suggestedAction: `Wait until ${new Date(Math.max(...blackout.blackouts.map(b => b.windowEnd))).toISOString()}`
+      });
+      riskScore += 40;
+    } else if (blackout.action === 'reduce') {
+      const reducedSize = positionSize * blackout.sizeMultiplier;
+      violations.push({
+        type: 'event',
+        severity: 'medium',
+        message: `Event window in progress: ${blackout.reason}`,
+        currentValue: positionSize,
+        limitValue: reducedSize,
+        suggestedAction: `Reduce position size to ${reducedSize.toFixed(0)} (${(blackout.sizeMultiplier * 100).toFixed(0)}%) until the window closes`
+      });
+      adjustedPlan = {
+        maxLoss: plan.maxLoss * blackout.sizeMultiplier,
+        potentialGain: plan.potentialGain * blackout.sizeMultiplier
+      };
+      riskScore += 10;
     }
 
     // Calculate emergency actions if needed
@@ -432,6 +511,7 @@ export class RiskManager {
       riskScore,
       isAcceptable: riskScore < 70 && !violations.some(v => v.severity === 'critical'),
       violations,
+      adjustedPlan,
       emergencyActions
     };
   }
@@ -456,14 +536,25 @@ export class RiskManager {
 
     for (const position of positions) {
       const volatility = this.getVolatilityData(position.symbol);
-      const correlationRisk = await this.calculateCorrelationRisk(
+      const correlationRisk = this.calculateCorrelationRisk(
         position.symbol, 
         positions, 
         profile.parameters
       );
 
       const notionalValue = Math.abs(position.size) * position.leverage;
-      const riskValue = notionalValue * 0.1; // Simplified VAR calculation
+      const standalone = toPortfolioAccount({
+        balance: Math.abs(position.size),
+        positions: [{
+          symbol: position.symbol,
+          notionalValue,
+          leverage: position.leverage,
+          side: position.size < 0 ? 'short' : 'long'
+        }]
+      });
+      const historicalVaR = await portfolioRiskEngine.historicalVaR(standalone);
+      // Without price history fall back to a flat 10% of notional
+      const riskValue = historicalVaR?.valueAtRisk ?? notionalValue * 0.1;
       
       const volatilityAdjustment = volatility 
         ? (volatility.volatility24h > profile.parameters.highVolatilityThreshold ? 
@@ -484,8 +575,8 @@ export class RiskManager {
         riskFactors.push('High volatility detected');
       }
       
-      if (correlationRisk > profile.parameters.correlationThreshold) {
-        riskFactors.push('High correlation risk');
+      if (correlationRisk > 1) {
+        riskFactors.push('Correlated exposure exceeds limit');
       }
 
       positionRisks.push({
@@ -572,41 +663,32 @@ export class RiskManager {
   }
 
   /**
-   * Execute emergency action
+   * Execute a single emergency action through the kill switch
+   */
+  async executeEmergencyAction(
+    action: EmergencyAction,
+    userAddress: string,
+    options?: ExecuteOptions
+  ): Promise<boolean> {
+    const [entry] = await this.executeEmergencyActions(userAddress, [action], options);
+    return entry?.status === 'executed' || entry?.status === 'no_positions';
+  }
+
+  /**
+   * Execute emergency actions highest priority first; confirmation, cooldown and
+   * trading locks follow the kill switch policy
    */
-  async executeEmergencyAction(action: EmergencyAction): Promise<boolean> {
+  async executeEmergencyActions(
+    userAddress: string,
+    actions: EmergencyAction[],
+    options?: ExecuteOptions
+  ): Promise<KillSwitchAuditEntry[]> {
     try {
-      console.warn(`🚨 EMERGENCY ACTION: ${action.type} - ${action.reason}`);
-      
-      // In a real implementation, this would call the contract methods
-      // For now, we'll just log the action
-      
-      switch (action.type) {
-        case 'close_position':
-          // await this.closePosition(action.symbol);
-          console.log(`Would close position for ${action.symbol}`);
-          break;
-          
-        case 'reduce_leverage':
-          // await this.reduceLeverage(action.symbol);
-          console.log(`Would reduce leverage for ${action.symbol}`);
-          break;
-          
-        case 'stop_trading':
-          // Block user from trading
-          console.log('Would stop all trading for user');
-          break;
-          
-        case 'liquidate_all':
-          // await this.liquidateAllPositions();
-          console.log('Would liquidate all positions');
-          break;
-      }
-      
-      return true;
+      actions.forEach(action => console.warn(`🚨 EMERGENCY ACTION: ${action.type} - ${action.reason}`));
+      return await killSwitch.execute(userAddress as Address, actions, options);
     } catch (error) {
       console.error('Failed to execute emergency action:', error);
-      return false;
+      return [];
     }
   }
 
@@ -646,58 +728,156 @@ export class RiskManager {
     return baseSize * volatilityMultiplier;
   }
 
+  // ========================================================================
+  // PORTFOLIO VALUE AT RISK
+  // ========================================================================
+
+  /**
+   * Run VaR/CVaR and stress scenarios over all open positions and keep the
+   * result for reporting
+   */
+  async assessPortfolioRisk(
+    userAddress: string,
+    currentAccountData: any,
+    options?: Partial<VaROptions>
+  ): Promise<PortfolioRiskReport> {
+    const account = toPortfolioAccount(currentAccountData);
+    const report = await portfolioRiskEngine.analyze(account, options);
+    this.portfolioReports.set(userAddress, report);
+    return report;
+  }
+
+  /**
+   * Most recent portfolio risk report for a user
+   */
+  getPortfolioRiskReport(userAddress: string): PortfolioRiskReport | undefined {
+    return this.portfolioReports.get(userAddress);
+  }
+
   // ========================================================================
   // CORRELATION ANALYSIS
   // ========================================================================
 
   /**
-   * Assess correlation risk for a new position
+   * Correlation between two assets: live estimate when available, static prior otherwise
+   */
+  getCorrelation(a: string, b: string): number {
+    const live = correlationEngine.getCorrelation(a, b);
+    if (live !== null) return live;
+
+    const first = toCandleSymbol(a);
+    const second = toCandleSymbol(b);
+    if (first === second) return 1;
+    return FALLBACK_CORRELATIONS[first]?.[second] ?? FALLBACK_CORRELATIONS[second]?.[first] ?? 0;
+  }
+
+  /**
+   * Current correlation matrix, falling back to the static prior for unestimated pairs
+   */
+  getCorrelationMatrix(symbols: string[] = correlationEngine.getUniverse()): CorrelationMatrix {
+    const matrix: CorrelationMatrix = {};
+    symbols.forEach(a => {
+      matrix[a] = {};
+      symbols.forEach(b => {
+        matrix[a][b] = this.getCorrelation(a, b);
+      });
+    });
+    return matrix;
+  }
+
+  /**
+   * Re-estimate correlations from stored price history
+   */
+  async refreshCorrelations(): Promise<CorrelationSnapshot> {
+    return correlationEngine.refresh();
+  }
+
+  /**
+   * Aggregate exposure in the correlation cluster a new plan would join
    */
-  private async assessCorrelationRisk(
-    newSymbol: string,
+  private assessCorrelatedExposure(
+    plan: TradingPlan,
+    positionSize: number,
     profile: UserRiskProfile,
     currentAccountData?: any
-  ): Promise<PositionRisk> {
-    const correlationRisk = currentAccountData && currentAccountData.positions
-      ? await this.calculateCorrelationRisk(newSymbol, currentAccountData.positions, profile.parameters)
-      : 0;
+  ): CorrelatedExposure {
+    const planSymbol = toCandleSymbol(plan.symbol);
+    const planSign = plan.direction === 'short' ? -1 : 1;
+    const positions = this.normalizePositions(currentAccountData?.positions);
+    return this.measureClusterExposure(planSymbol, planSign * Math.abs(positionSize), positions, profile.parameters);
+  }
 
-    return {
-      symbol: newSymbol,
-      size: 0,
-      leverage: 1,
-      notionalValue: 0,
-      riskValue: 0,
-      correlationRisk,
-      volatilityAdjustment: 1,
-      isRisky: correlationRisk > profile.parameters.correlationThreshold,
-      riskFactors: correlationRisk > profile.parameters.correlationThreshold 
-        ? ['High correlation with existing positions'] 
-        : []
-    };
+  /**
+   * Sum the notional of the anchor and every position in its cluster that moves
+   * with it: same direction with positive correlation, or opposite direction with
+   * negative correlation. Offsetting positions are ignored rather than netted.
+   */
+  private measureClusterExposure(
+    anchor: string,
+    anchorNotional: number,
+    positions: NormalizedPosition[],
+    parameters: RiskParameters
+  ): CorrelatedExposure {
+    const held = positions.filter(p => p.notional !== 0);
+    const clusters = correlationEngine.findClusters(
+      [anchor, ...held.map(p => p.symbol)],
+      parameters.correlationThreshold,
+      (a, b) => this.getCorrelation(a, b)
+    );
+    const cluster = clusters.find(c => c.symbols.includes(anchor))?.symbols ?? [anchor];
+
+    let exposure = Math.abs(anchorNotional);
+    const members: string[] = [];
+    held.forEach(position => {
+      if (!cluster.includes(position.symbol)) return;
+      // Same-asset positions count fully; transitive members use their direct correlation
+      const correlation = position.symbol === anchor ? 1 : this.getCorrelation(anchor, position.symbol);
+      const aligned = Math.sign(position.notional) * Math.sign(correlation) === Math.sign(anchorNotional || 1);
+      if (!aligned) return;
+      exposure += Math.abs(correlation) * Math.abs(position.notional);
+      members.push(position.symbol);
+    });
+
+    return { cluster, members, exposure };
+  }
+
+  /**
+   * Accepts either a symbol-keyed map or an array of positions; shorts are negative
+   */
+  private normalizePositions(positions: any): NormalizedPosition[] {
+    if (!positions) return [];
+    const entries: Array<[string, any]> = Array.isArray(positions)
+      ? positions.map(p => [p?.symbol, p])
+      : Object.entries(positions);
+
+    return entries
+      .filter(([symbol, data]) => typeof symbol === 'string' && data)
+      .map(([symbol, data]) => {
+        const notional = Math.abs(
+          data.notionalValue ?? (Math.abs(data.size ?? 0) * (data.leverage ?? 1))
+        );
+        const isShort = data.side === 'short' || data.direction === 'short' ||
+          data.isLong === false || (data.side === undefined && data.direction === undefined &&
+            data.isLong === undefined && (data.size ?? 0) < 0);
+        return { symbol: toCandleSymbol(symbol), notional: isShort ? -notional : notional };
+      });
   }
 
   /**
-   * Calculate correlation risk between assets
+   * Correlated exposure of an existing position relative to the correlated limit
    */
-  private async calculateCorrelationRisk(
+  private calculateCorrelationRisk(
     symbol: string,
     positions: any,
     parameters: RiskParameters
-  ): Promise<number> {
-    let totalCorrelatedExposure = 0;
-    
-    for (const [existingSymbol, position] of Object.entries(positions)) {
-      if (existingSymbol === symbol) continue;
-      
-      const correlation = ASSET_CORRELATIONS[symbol]?.[existingSymbol] || 0;
-      if (Math.abs(correlation) > parameters.correlationThreshold) {
-        const positionData = position as any;
-        totalCorrelatedExposure += Math.abs(positionData.notionalValue || 0);
-      }
-    }
-    
-    return totalCorrelatedExposure / parameters.maxCorrelatedExposure;
+  ): number {
+    const normalized = this.normalizePositions(positions);
+    const anchor = toCandleSymbol(symbol);
+    const own = normalized.find(p => p.symbol === anchor);
+    const others = normalized.filter(p => p !== own);
+    const { members, exposure } = this.measureClusterExposure(anchor, own?.notional ?? 0, others, parameters);
+    // A position with no correlated holdings carries no correlation risk
+    return members.length > 0 ? exposure / parameters.maxCorrelatedExposure : 0;
   }
 
   // ========================================================================
@@ -808,12 +988,39 @@ export class RiskManager {
    • Max Position Size: $${profile.parameters.maxPositionSize.toLocaleString()}
    • Total Exposure Limit: $${profile.parameters.totalExposureLimit.toLocaleString()}
 
+${this.formatPortfolioSection(userAddress)}
 ⚡ Emergency Controls: ${profile.parameters.enableEmergencyControls ? 'ENABLED' : 'DISABLED'}
 🛑 Auto Stop Loss: ${profile.parameters.autoStopLoss ? 'ENABLED' : 'DISABLED'}
 
 ${profile.isBlocked ? '🚨 ACCOUNT BLOCKED DUE TO RISK VIOLATIONS' : '✅ Account in good standing'}
     `;
   }
+
+  /**
+   * Portfolio VaR and worst stress scenario lines for the risk report
+   */
+  private formatPortfolioSection(userAddress: string): string {
+    const report = this.portfolioReports.get(userAddress);
+    if (!report) {
+      return '📉 Portfolio Risk: not assessed yet\n';
+    }
+
+    const formatVaR = (label: string, result: PortfolioRiskReport['historical']) => result
+      ? `   • ${label} VaR ${(result.confidence * 100).toFixed(0)}% / ${result.horizonHours}h: $${result.valueAtRisk.toFixed(2)} (CVaR $${result.expectedShortfall.toFixed(2)})`
+      : `   • ${label} VaR: insufficient price history`;
+    const worst = [...report.stressTests].sort((a, b) => a.totalPnl - b.totalPnl)[0];
+
+    return [
+      '📉 Portfolio Risk:',
+      `   • Equity: $${report.equity.toFixed(2)} | Gross Notional: $${report.grossNotional.toFixed(2)} | Margin Ratio: ${report.marginRatio.toFixed(1)}%`,
+      formatVaR('Historical', report.historical),
+      formatVaR('Parametric', report.parametric),
+      worst
+        ? `   • Worst Stress: ${worst.scenario.name} → ${worst.totalPnl < 0 ? '-' : '+'}$${Math.abs(worst.totalPnl).toFixed(2)}, margin ratio ${worst.marginRatioAfter.toFixed(1)}%${worst.liquidations.length > 0 ? `, liquidates ${worst.liquidations.join(', ')}` : ''}`
+        : '   • Stress Tests: no open positions',
+      report.missingHistory.length > 0 ? `   • No price history: ${report.missingHistory.join(', ')}` : ''
+    ].filter(Boolean).join('\n') + '\n';
+  }
 }
 
 // ============================================================================
@@ -72,11 +72,11 @@ export async function monitorPositionRisk(userAddress: string, provider: any): P
     if (emergencyActions.length > 0) {
       console.warn('🚨 Emergency actions required:', emergencyActions);
       
-      // Execute emergency actions if needed
-      for (const action of emergencyActions) {
-        if (action.priority >= 9) {
-          await riskManager.executeEmergencyAction(action);
-        }
+      // Background checks only auto-execute critical actions; lower priorities
+      // stay with the risk panel so the monitor never prompts
+      const critical = emergencyActions.filter(action => action.priority >= 9);
+      if (critical.length > 0) {
+        await riskManager.executeEmergencyActions(userAddress, critical);
       }
     }
 
@@ -4,6 +4,39 @@
 import { UnifiedPriceData, getUnifiedPrice, getBatchUnifiedPrices } from '../unifiedPriceAPI';
 import { RISK_THRESHOLDS, POSITION_SIDES } from '../../constants/riverPoolConstants';
 import { DEFAULT_PARAMS } from '../contractConfig';
+import { candleStore, isCandleTimeframe, CANDLE_TIMEFRAMES, TIMEFRAME_MS, type CandleTimeframe } from '../../services/CandleStore';
+import {
+  runStream,
+  MACDStream,
+  StochasticStream,
+  DMIStream,
+  VWAPStream,
+  OBVStream,
+  IchimokuStream,
+  KeltnerStream,
+  SuperTrendStream,
+  PivotPointStream,
+  DonchianStream,
+  type MACDValue,
+  type StochasticValue,
+  type DMIValue,
+  type IchimokuValue,
+  type ChannelValue,
+  type SuperTrendValue,
+  type PivotValue,
+  type PivotMethod
+} from './indicators';
+import { strategySandbox } from './strategySandbox';
+
+// Bars required before indicators (SMA/Bollinger 20, RSI/ATR 14) are meaningful
+const MIN_HISTORY_BARS = 30;
+const MAX_HISTORY_BARS = 200;
+
+export const DEFAULT_CONFLUENCE: ConfluenceConfig = {
+  enabled: true,
+  requireAgreement: true,
+  minAgreement: 0.5
+};
 
 // ============================================================================
 // TYPES AND INTERFACES
@@ -87,6 +120,7 @@ export interface TradingPlan {
   timeframe: string;
   expiryTime?: number;
   notes: string[];
+  timeframeAnalysis?: TimeframeAnalysis[];
 }
 
 export interface StrategyConfig {
@@ -98,6 +132,27 @@ export interface StrategyConfig {
     periods: Record<string, number>;
     thresholds: Record<string, number>;
   };
+  confluence?: ConfluenceConfig; // Falls back to DEFAULT_CONFLUENCE
+}
+
+// Multi-timeframe cross-check: the setup is found on the plan's timeframe, a higher
+// timeframe filters by trend, a lower one triggers the entry and the rest vote
+export interface ConfluenceConfig {
+  enabled: boolean;
+  trendTimeframe?: string;   // Defaults to the highest configured timeframe above the plan's, else the next one up
+  triggerTimeframe?: string; // Defaults to the highest configured timeframe below the plan's, else the next one down
+  requireAgreement: boolean; // Reject setups where the trend or trigger opposes the signal or agreement is too low
+  minAgreement: number;      // 0-1 share of the other timeframes that must agree with the signal
+  requireTrend?: boolean;    // Reject instead of warn when the trend timeframe lacks history
+}
+
+export interface TimeframeAnalysis {
+  timeframe: string;
+  role: 'setup' | 'trend' | 'trigger' | 'confirmation';
+  regime: MarketRegime | null;     // null when the timeframe lacks history
+  signal: TradingSignal | null;
+  bias: 'long' | 'short' | 'neutral';
+  agreement: 'agree' | 'conflict' | 'neutral' | 'unavailable';
 }
 
 // ============================================================================
@@ -211,6 +266,62 @@ export class TechnicalAnalysis {
     };
   }
 
+  // Full indicator set used by the strategies; periods fall back to the live defaults
+  static calculateIndicators(bars: PriceBar[], periods: Record<string, number> = {}): TechnicalIndicators {
+    const prices = bars.map(bar => bar.close);
+    return {
+      sma: this.calculateSMA(prices, periods.sma ?? 20),
+      ema: this.calculateEMA(prices, periods.ema ?? 12),
+      rsi: this.calculateRSI(prices, periods.rsi ?? 14),
+      atr: this.calculateATR(bars, periods.atr ?? 14),
+      volume: bars.map(bar => bar.volume),
+      bollingerBands: this.calculateBollingerBands(prices, periods.bb ?? 20, 2)
+    };
+  }
+
+  // Extended indicators replay the streaming forms in ./indicators so batch and live values agree.
+  // Like the functions above, each returns only the bars past its warm-up.
+
+  static calculateMACD(prices: number[], fast: number = 12, slow: number = 26, signal: number = 9): MACDValue[] {
+    return runStream(new MACDStream(fast, slow, signal), prices);
+  }
+
+  static calculateStochastic(bars: PriceBar[], period: number = 14, kSmoothing: number = 3, dSmoothing: number = 3): StochasticValue[] {
+    return runStream(new StochasticStream(period, kSmoothing, dSmoothing), bars);
+  }
+
+  static calculateDMI(bars: PriceBar[], period: number = 14): DMIValue[] {
+    return runStream(new DMIStream(period), bars);
+  }
+
+  static calculateVWAP(bars: PriceBar[], anchorMs?: number): number[] {
+    return runStream(new VWAPStream(anchorMs), bars);
+  }
+
+  static calculateOBV(bars: PriceBar[]): number[] {
+    return runStream(new OBVStream(), bars);
+  }
+
+  static calculateIchimoku(bars: PriceBar[], tenkan: number = 9, kijun: number = 26, spanB: number = 52, displacement: number = 26): IchimokuValue[] {
+    return runStream(new IchimokuStream(tenkan, kijun, spanB, displacement), bars);
+  }
+
+  static calculateKeltnerChannels(bars: PriceBar[], emaPeriod: number = 20, atrPeriod: number = 10, multiplier: number = 2): ChannelValue[] {
+    return runStream(new KeltnerStream(emaPeriod, atrPeriod, multiplier), bars);
+  }
+
+  static calculateSuperTrend(bars: PriceBar[], period: number = 10, multiplier: number = 3): SuperTrendValue[] {
+    return runStream(new SuperTrendStream(period, multiplier), bars);
+  }
+
+  static calculatePivotPoints(bars: PriceBar[], method: PivotMethod = 'classic', periodMs?: number): PivotValue[] {
+    return runStream(new PivotPointStream(method, periodMs), bars);
+  }
+
+  static calculateDonchianChannels(bars: PriceBar[], period: number = 20): ChannelValue[] {
+    return runStream(new DonchianStream(period), bars);
+  }
+
   // Volume analysis
   static analyzeVolume(bars: PriceBar[], period: number = 20): {
     avgVolume: number[];
@@ -368,12 +479,14 @@ export class TradingStrategies {
     const sma20 = indicators.sma[indicators.sma.length - 1];
     const ema12 = indicators.ema[indicators.ema.length - 1];
     const volume = bars[bars.length - 1].volume;
-    const avgVolume = indicators.volume[indicators.volume.length - 1];
-    const volumeConfirmation = volume > avgVolume * 1.5;
+    const volumeWindow = indicators.volume.slice(-(config.indicators.periods.volume ?? 20) - 1, -1);
+    const avgVolume = volumeWindow.reduce((a, b) => a + b, 0) / (volumeWindow.length || 1);
+    const volumeConfirmation = volume > avgVolume * (config.indicators.thresholds.volumeMultiplier ?? 1.5);
     
     // MA crossover with volume confirmation
     const bullishCross = ema12 > sma20 && currentPrice > sma20 && volumeConfirmation;
     const bearishCross = ema12 < sma20 && currentPrice < sma20 && volumeConfirmation;
+    if (regime.strength < (config.indicators.thresholds.trendStrength ?? 0)) return null;
     
     if (bullishCross && regime.direction === 'bullish') {
       return {
@@ -430,19 +543,21 @@ export class TradingStrategies {
     
     // Support bounce (oversold + price near lower BB)
     const nearLowerBB = currentPrice <= bbLower * 1.02;
-    const oversold = rsi < 30;
+    const oversoldLevel = config.indicators.thresholds.rsiOversold ?? 30;
+    const overboughtLevel = config.indicators.thresholds.rsiOverbought ?? 70;
+    const oversold = rsi < oversoldLevel;
     const supportBounce = nearLowerBB && oversold;
     
     // Resistance rejection (overbought + price near upper BB)
     const nearUpperBB = currentPrice >= bbUpper * 0.98;
-    const overbought = rsi > 70;
+    const overbought = rsi > overboughtLevel;
     const resistanceRejection = nearUpperBB && overbought;
     
     if (supportBounce) {
       return {
         type: 'entry',
         direction: 'long',
-        strength: Math.min(85, 70 + ((30 - rsi) * 0.5)),
+        strength: Math.min(85, 70 + ((oversoldLevel - rsi) * 0.5)),
         price: currentPrice,
         timestamp: Date.now(),
         reason: 'Support bounce: oversold RSI + price at lower Bollinger Band',
@@ -458,7 +573,7 @@ export class TradingStrategies {
       return {
         type: 'entry',
         direction: 'short',
-        strength: Math.min(85, 70 + ((rsi - 70) * 0.5)),
+        strength: Math.min(85, 70 + ((rsi - overboughtLevel) * 0.5)),
         price: currentPrice,
         timestamp: Date.now(),
         reason: 'Resistance rejection: overbought RSI + price at upper Bollinger Band',
@@ -481,7 +596,8 @@ export class TradingStrategies {
     config: StrategyConfig
   ): TradingSignal | null {
     
-    if (!config.enabled || regime.type !== 'trending' || regime.strength < 60) return null;
+    const { minTrendStrength = 60, pullbackRSILow = 40, pullbackRSIHigh = 55 } = config.indicators.thresholds;
+    if (!config.enabled || regime.type !== 'trending' || regime.strength < minTrendStrength) return null;
     
     const currentPrice = bars[bars.length - 1].close;
     const sma20 = indicators.sma[indicators.sma.length - 1];
@@ -492,9 +608,9 @@ export class TradingStrategies {
     const isInUptrend = currentPrice > sma20 && regime.direction === 'bullish';
     const isInDowntrend = currentPrice < sma20 && regime.direction === 'bearish';
     
-    // Pullback conditions
-    const bullishPullback = isInUptrend && rsi < 55 && rsi > 40 && currentPrice > sma20 * 0.98;
-    const bearishPullback = isInDowntrend && rsi > 45 && rsi < 60 && currentPrice < sma20 * 1.02;
+    // Pullback conditions (the bearish RSI band mirrors the bullish one)
+    const bullishPullback = isInUptrend && rsi < pullbackRSIHigh && rsi > pullbackRSILow && currentPrice > sma20 * 0.98;
+    const bearishPullback = isInDowntrend && rsi > 100 - pullbackRSIHigh && rsi < 100 - pullbackRSILow && currentPrice < sma20 * 1.02;
     
     if (bullishPullback) {
       return {
@@ -534,6 +650,61 @@ export class TradingStrategies {
   }
 }
 
+export type StrategyFunction = (
+  bars: PriceBar[],
+  indicators: TechnicalIndicators,
+  regime: MarketRegime,
+  config: StrategyConfig
+) => TradingSignal | null;
+
+// Strategy name (as used in StrategyEngine configs) to implementation
+export const BUILT_IN_STRATEGIES: Record<string, StrategyFunction> = {
+  trend_breakout: TradingStrategies.trendBreakoutStrategy,
+  support_resistance: TradingStrategies.supportResistanceBounceStrategy,
+  momentum_continuation: TradingStrategies.momentumContinuationStrategy
+};
+
+// User-defined strategy registered through StrategyEngine.registerStrategy
+export interface StrategyDefinition {
+  name: string;                         // unique snake_case id, e.g. 'vwap_reversion'
+  displayName?: string;
+  description?: string;
+  evaluate: StrategyFunction;           // runs in the strategy sandbox worker, so it must be self-contained
+  defaults?: Partial<Omit<StrategyConfig, 'riskParams' | 'indicators' | 'confluence'>> & {
+    riskParams?: Partial<RiskParameters>;
+    indicators?: Partial<StrategyConfig['indicators']>;
+    confluence?: Partial<ConfluenceConfig>;
+  };
+  parameterSpace?: Record<string, number[]>; // optimizer search space ('periods.x' / 'thresholds.x')
+}
+
+export interface StrategyHealth {
+  calls: number;
+  errors: number;
+  consecutiveErrors: number;
+  lastError?: string;
+  quarantined: boolean; // set after repeated failures; cleared by resetStrategyHealth
+}
+
+export interface StrategyInfo {
+  name: string;
+  displayName: string;
+  description?: string;
+  builtIn: boolean;
+  enabled: boolean;
+  health: StrategyHealth;
+}
+
+interface RegisteredStrategy {
+  definition: StrategyDefinition;
+  builtIn: boolean;
+  health: StrategyHealth;
+}
+
+const MAX_CONSECUTIVE_STRATEGY_ERRORS = 5;
+const STRATEGY_NAME_PATTERN = /^[a-z][a-z0-9_]{2,39}$/;
+const SIGNAL_TYPES: TradingSignal['type'][] = ['entry', 'exit', 'stop_loss', 'take_profit'];
+
 // ============================================================================
 // POSITION SIZING & RISK MANAGEMENT
 // ============================================================================
@@ -561,9 +732,9 @@ export class PositionSizingCalculator {
     const atrMultiplier = riskParams.stopLossPercent / 100;
     const stopLossDistance = Math.max(atr * 2, currentPrice * atrMultiplier);
     
-    // Calculate position size based on risk
-    const dollarRiskPerUnit = stopLossDistance;
-    const baseNotionalSize = riskAmount / dollarRiskPerUnit;
+    // Calculate position size based on risk: notional that loses riskAmount at the stop
+    const stopLossFraction = stopLossDistance / currentPrice;
+    const baseNotionalSize = riskAmount / stopLossFraction;
     
     // Apply maximum position size constraint
     const maxNotionalFromAccount = accountBalance * (riskParams.maxPositionSize / 100);
@@ -651,20 +822,18 @@ export class PositionSizingCalculator {
 
 export class StrategyEngine {
   private config: Map<string, StrategyConfig> = new Map();
+  private strategies: Map<string, RegisteredStrategy> = new Map();
   
   constructor() {
     this.initializeDefaultConfigs();
+    Object.entries(BUILT_IN_STRATEGIES).forEach(([name, evaluate]) => {
+      this.strategies.set(name, { definition: { name, evaluate }, builtIn: true, health: this.createHealth() });
+    });
   }
   
   private initializeDefaultConfigs() {
     // Default configuration for different strategies
-    const defaultRiskParams: RiskParameters = {
-      maxLeverage: DEFAULT_PARAMS.maxLeverage.crypto,
-      stopLossPercent: 2.0,
-      takeProfitPercent: 4.0,
-      maxPositionSize: 10.0, // 10% of account
-      accountRiskPercent: 1.0 // 1% risk per trade
-    };
+    const defaultRiskParams = this.defaultRiskParams();
     
     this.config.set('trend_breakout', {
       enabled: true,
@@ -695,39 +864,11 @@ export class StrategyEngine {
       riskParams: defaultRiskParams,
       indicators: {
         periods: { sma: 20, rsi: 14, atr: 14 },
-        thresholds: { minTrendStrength: 60, pullbackRSI: [40, 60] }
+        thresholds: { minTrendStrength: 60, pullbackRSILow: 40, pullbackRSIHigh: 55 }
       }
     });
   }
   
-  // Generate mock price bars for demonstration (in real implementation, this would come from price data)
-  private generateMockPriceBars(currentPrice: number, count: number = 50): PriceBar[] {
-    const bars: PriceBar[] = [];
-    let price = currentPrice * 0.95; // Start 5% below current price
-    
-    for (let i = 0; i < count; i++) {
-      const change = (Math.random() - 0.5) * 0.02; // ±1% random change
-      const open = price;
-      const close = price * (1 + change);
-      const high = Math.max(open, close) * (1 + Math.random() * 0.01);
-      const low = Math.min(open, close) * (1 - Math.random() * 0.01);
-      const volume = 100000 + Math.random() * 200000;
-      
-      bars.push({
-        timestamp: Date.now() - (count - i) * 3600000, // 1 hour intervals
-        open,
-        high,
-        low,
-        close,
-        volume
-      });
-      
-      price = close;
-    }
-    
-    return bars;
-  }
-  
   // Main method to generate trading plan
   async generateTradingPlan(
     symbol: string, 
@@ -742,47 +883,59 @@ export class StrategyEngine {
         throw new Error(`Unable to fetch price data for ${symbol}`);
       }
       
-      // Generate historical price bars (in real implementation, fetch from data source)
-      const bars = this.generateMockPriceBars(priceData.price);
-      const prices = bars.map(bar => bar.close);
-      
-      // Calculate technical indicators
-      const indicators: TechnicalIndicators = {
-        sma: TechnicalAnalysis.calculateSMA(prices, 20),
-        ema: TechnicalAnalysis.calculateEMA(prices, 12),
-        rsi: TechnicalAnalysis.calculateRSI(prices, 14),
-        atr: TechnicalAnalysis.calculateATR(bars, 14),
-        volume: bars.map(bar => bar.volume),
-        bollingerBands: TechnicalAnalysis.calculateBollingerBands(prices, 20, 2)
+      // Load historical bars from the candle store, folding in the latest price
+      candleStore.ingestUnifiedPrice(priceData);
+      const candleTimeframe: CandleTimeframe = isCandleTimeframe(timeframe) ? timeframe : '4h';
+      const barsByTimeframe = new Map<CandleTimeframe, PriceBar[]>();
+      const loadBars = async (tf: CandleTimeframe): Promise<PriceBar[]> => {
+        if (!barsByTimeframe.has(tf)) {
+          barsByTimeframe.set(tf, await candleStore.getBars(symbol, tf, { limit: MAX_HISTORY_BARS }));
+        }
+        return barsByTimeframe.get(tf)!;
       };
       
-      // Analyze market regime
-      const marketRegime = MarketRegimeDetector.analyzeMarketRegime(bars, indicators);
-      
-      // Try each strategy and pick the best signal
-      const strategies = [
-        { name: 'trend_breakout', func: TradingStrategies.trendBreakoutStrategy },
-        { name: 'support_resistance', func: TradingStrategies.supportResistanceBounceStrategy },
-        { name: 'momentum_continuation', func: TradingStrategies.momentumContinuationStrategy }
-      ];
+      const bars = await loadBars(candleTimeframe);
+      if (bars.length < MIN_HISTORY_BARS) {
+        console.warn(`Insufficient ${candleTimeframe} history for ${symbol}: ${bars.length}/${MIN_HISTORY_BARS} bars`);
+        return null;
+      }
       
+      // Try each strategy with its own indicator periods and pick the best signal,
+      // after cross-checking it against the strategy's other timeframes
       let bestSignal: TradingSignal | null = null;
       let bestStrategy = '';
+      let bestConfidence = 0;
+      let bestAnalysis: TimeframeAnalysis[] = [];
+      let bestWarnings: string[] = [];
+      let indicators: TechnicalIndicators | null = null;
+      let marketRegime: MarketRegime | null = null;
       
-      for (const strategy of strategies) {
-        const config = this.config.get(strategy.name);
+      for (const name of this.getAvailableStrategies()) {
+        const config = this.config.get(name);
         if (!config || !config.enabled) continue;
         
-        const signal = strategy.func(bars, indicators, marketRegime, config);
-        if (signal && signal.strength >= config.minConfidence) {
-          if (!bestSignal || signal.strength > bestSignal.strength) {
-            bestSignal = signal;
-            bestStrategy = strategy.name;
-          }
+        const strategyIndicators = TechnicalAnalysis.calculateIndicators(bars, config.indicators.periods);
+        const regime = MarketRegimeDetector.analyzeMarketRegime(bars, strategyIndicators);
+        
+        const signal = await this.evaluateStrategy(name, bars, strategyIndicators, regime, config);
+        if (!signal) continue;
+        
+        const analysis = await this.analyzeConfluence(name, config, candleTimeframe, signal, regime, loadBars);
+        const confluence = this.scoreConfluence(signal, analysis, config.confluence ?? DEFAULT_CONFLUENCE);
+        if (confluence.rejected) continue;
+        
+        if (confluence.confidence >= config.minConfidence && confluence.confidence > bestConfidence) {
+          bestSignal = signal;
+          bestStrategy = name;
+          bestConfidence = confluence.confidence;
+          bestAnalysis = analysis;
+          bestWarnings = confluence.warnings;
+          indicators = strategyIndicators;
+          marketRegime = regime;
         }
       }
       
-      if (!bestSignal) {
+      if (!bestSignal || !indicators || !marketRegime) {
         return null; // No valid signals found
       }
       
@@ -834,7 +987,7 @@ export class StrategyEngine {
         },
         marketRegime,
         riskReward,
-        confidence: bestSignal.strength,
+        confidence: bestConfidence,
         timeframe,
         expiryTime: Date.now() + (4 * 3600000), // 4 hours
         notes: [
@@ -842,8 +995,11 @@ export class StrategyEngine {
           `Market volatility: ${marketRegime.volatility}`,
           `Trend strength: ${marketRegime.strength.toFixed(1)}%`,
           `Risk per trade: ${config.riskParams.accountRiskPercent}% of account`,
-          `Expected max loss: $${positionSizing.riskAmount.toFixed(2)}`
-        ]
+          `Expected max loss: $${positionSizing.riskAmount.toFixed(2)}`,
+          ...bestAnalysis.map(tf => this.describeTimeframe(tf)),
+          ...bestWarnings
+        ],
+        timeframeAnalysis: bestAnalysis
       };
       
       return tradingPlan;
@@ -854,6 +1010,126 @@ export class StrategyEngine {
     }
   }
   
+  // Evaluate the trend, trigger and other configured timeframes against the setup signal
+  private async analyzeConfluence(
+    name: string,
+    config: StrategyConfig,
+    setupTimeframe: CandleTimeframe,
+    signal: TradingSignal,
+    setupRegime: MarketRegime,
+    loadBars: (tf: CandleTimeframe) => Promise<PriceBar[]>
+  ): Promise<TimeframeAnalysis[]> {
+    const setup: TimeframeAnalysis = {
+      timeframe: setupTimeframe,
+      role: 'setup',
+      regime: setupRegime,
+      signal,
+      bias: signal.direction,
+      agreement: 'agree'
+    };
+    const confluence = config.confluence ?? DEFAULT_CONFLUENCE;
+    if (!confluence.enabled) return [setup];
+    
+    const configured = config.timeframes.filter(isCandleTimeframe);
+    const higher = configured.filter(tf => TIMEFRAME_MS[tf] > TIMEFRAME_MS[setupTimeframe]);
+    const lower = configured.filter(tf => TIMEFRAME_MS[tf] < TIMEFRAME_MS[setupTimeframe]);
+    const setupIndex = CANDLE_TIMEFRAMES.indexOf(setupTimeframe);
+    
+    // Strategies whose timeframes stop at the plan's still get a neighbouring filter and trigger
+    const trendTimeframe: CandleTimeframe | undefined = confluence.trendTimeframe && isCandleTimeframe(confluence.trendTimeframe)
+      ? confluence.trendTimeframe
+      : higher.sort((a, b) => TIMEFRAME_MS[a] - TIMEFRAME_MS[b])[higher.length - 1] ?? CANDLE_TIMEFRAMES[setupIndex + 1];
+    const triggerTimeframe: CandleTimeframe | undefined = confluence.triggerTimeframe && isCandleTimeframe(confluence.triggerTimeframe)
+      ? confluence.triggerTimeframe
+      : lower.sort((a, b) => TIMEFRAME_MS[a] - TIMEFRAME_MS[b])[lower.length - 1] ?? CANDLE_TIMEFRAMES[setupIndex - 1];
+    
+    const others = Array.from(new Set([...configured, trendTimeframe, triggerTimeframe]))
+      .filter((tf): tf is CandleTimeframe => tf !== undefined && tf !== setupTimeframe)
+      .sort((a, b) => TIMEFRAME_MS[a] - TIMEFRAME_MS[b]);
+    
+    const analysis: TimeframeAnalysis[] = [setup];
+    for (const tf of others) {
+      const role = tf === trendTimeframe ? 'trend' : tf === triggerTimeframe ? 'trigger' : 'confirmation';
+      const tfBars = await loadBars(tf);
+      if (tfBars.length < MIN_HISTORY_BARS) {
+        analysis.push({ timeframe: tf, role, regime: null, signal: null, bias: 'neutral', agreement: 'unavailable' });
+        continue;
+      }
+      
+      const tfIndicators = TechnicalAnalysis.calculateIndicators(tfBars, config.indicators.periods);
+      const tfRegime = MarketRegimeDetector.analyzeMarketRegime(tfBars, tfIndicators);
+      const tfSignal = await this.evaluateStrategy(name, tfBars, tfIndicators, tfRegime, config);
+      // A signal of its own outranks the regime; a neutral regime neither confirms nor conflicts
+      const bias: TimeframeAnalysis['bias'] = tfSignal
+        ? tfSignal.direction
+        : tfRegime.direction === 'bullish' ? 'long' : tfRegime.direction === 'bearish' ? 'short' : 'neutral';
+      
+      analysis.push({
+        timeframe: tf,
+        role,
+        regime: tfRegime,
+        signal: tfSignal,
+        bias,
+        agreement: bias === 'neutral' ? 'neutral' : bias === signal.direction ? 'agree' : 'conflict'
+      });
+    }
+    return analysis;
+  }
+  
+  // Confidence scales with the share of the other timeframes that agree; conflicts cost
+  // 10 points each and a missing trend filter costs 10%
+  private scoreConfluence(
+    signal: TradingSignal,
+    analysis: TimeframeAnalysis[],
+    confluence: ConfluenceConfig
+  ): { confidence: number; warnings: string[]; rejected?: string } {
+    if (!confluence.enabled) {
+      return { confidence: signal.strength, warnings: [] };
+    }
+    
+    const warnings: string[] = [];
+    const trend = analysis.find(tf => tf.role === 'trend');
+    const trendMissing = !trend || trend.agreement === 'unavailable';
+    if (trendMissing) {
+      const reason = trend ? `${trend.timeframe} trend filter skipped: insufficient history` : 'No higher-timeframe trend filter available';
+      if (confluence.requireTrend) {
+        return { confidence: 0, warnings, rejected: reason };
+      }
+      warnings.push(`Warning: ${reason}`);
+    }
+    
+    // The setup timeframe produced the signal, so it does not vote on it
+    const voters = analysis.filter(tf => tf.role !== 'setup' && tf.agreement !== 'unavailable');
+    const agreeing = voters.filter(tf => tf.agreement === 'agree').length;
+    const conflicting = voters.filter(tf => tf.agreement === 'conflict').length;
+    const agreementRatio = voters.length > 0 ? agreeing / voters.length : 1;
+    const trigger = voters.find(tf => tf.role === 'trigger');
+    
+    if (confluence.requireAgreement) {
+      if (trend?.agreement === 'conflict') {
+        return { confidence: 0, warnings, rejected: `${trend.timeframe} trend is ${trend.bias}` };
+      }
+      if (trigger?.agreement === 'conflict') {
+        return { confidence: 0, warnings, rejected: `${trigger.timeframe} trigger is ${trigger.bias}` };
+      }
+      if (voters.length > 0 && agreementRatio < confluence.minAgreement) {
+        return { confidence: 0, warnings, rejected: `${agreeing}/${voters.length} timeframes agree` };
+      }
+    }
+    
+    const confidence = signal.strength * (0.75 + 0.25 * agreementRatio) * (trendMissing ? 0.9 : 1) - conflicting * 10;
+    return { confidence: Math.max(0, Math.min(100, confidence)), warnings };
+  }
+  
+  private describeTimeframe(analysis: TimeframeAnalysis): string {
+    if (analysis.agreement === 'unavailable') {
+      return `${analysis.timeframe} (${analysis.role}): insufficient history`;
+    }
+    const regime = analysis.regime ? `${analysis.regime.type} ${analysis.regime.direction}` : 'n/a';
+    const signal = analysis.signal ? `${analysis.signal.direction} signal ${analysis.signal.strength.toFixed(0)}%` : 'no signal';
+    return `${analysis.timeframe} (${analysis.role}): ${regime}, ${signal} - ${analysis.agreement}`;
+  }
+  
   // Update strategy configuration
   updateStrategyConfig(strategyName: string, config: Partial<StrategyConfig>) {
     const existing = this.config.get(strategyName);
@@ -867,9 +1143,220 @@ export class StrategyEngine {
     return this.config.get(strategyName);
   }
   
-  // List all available strategies
+  // List all available strategies (built-in and registered)
   getAvailableStrategies(): string[] {
-    return Array.from(this.config.keys());
+    return Array.from(this.strategies.keys());
+  }
+  
+  hasStrategy(strategyName: string): boolean {
+    return this.strategies.has(strategyName);
+  }
+  
+  getStrategyDefinition(strategyName: string): StrategyDefinition | undefined {
+    return this.strategies.get(strategyName)?.definition;
+  }
+  
+  listStrategies(): StrategyInfo[] {
+    return Array.from(this.strategies.entries()).map(([name, entry]) => ({
+      name,
+      displayName: entry.definition.displayName ?? name,
+      description: entry.definition.description,
+      builtIn: entry.builtIn,
+      enabled: this.config.get(name)?.enabled ?? false,
+      health: { ...entry.health }
+    }));
+  }
+  
+  // ============================================================================
+  // USER-DEFINED STRATEGIES
+  // ============================================================================
+  
+  // Register a custom strategy; it joins plan generation, the radar and backtests
+  registerStrategy(definition: StrategyDefinition): StrategyConfig {
+    const errors = this.validateStrategyDefinition(definition);
+    if (errors.length > 0) {
+      throw new Error(`Invalid strategy "${definition?.name}": ${errors.join('; ')}`);
+    }
+    
+    const defaults = definition.defaults ?? {};
+    const config: StrategyConfig = {
+      enabled: defaults.enabled ?? true,
+      timeframes: defaults.timeframes ?? ['1h', '4h'],
+      minConfidence: defaults.minConfidence ?? 70,
+      riskParams: { ...this.defaultRiskParams(), ...defaults.riskParams },
+      indicators: {
+        periods: { ...defaults.indicators?.periods },
+        thresholds: { ...defaults.indicators?.thresholds }
+      },
+      confluence: { ...DEFAULT_CONFLUENCE, ...defaults.confluence }
+    };
+    
+    this.strategies.set(definition.name, { definition, builtIn: false, health: this.createHealth() });
+    this.config.set(definition.name, config);
+    strategySandbox.load(definition.name, definition.evaluate);
+    return config;
+  }
+  
+  unregisterStrategy(strategyName: string): boolean {
+    const entry = this.strategies.get(strategyName);
+    if (!entry || entry.builtIn) return false;
+    this.strategies.delete(strategyName);
+    this.config.delete(strategyName);
+    strategySandbox.unload(strategyName);
+    return true;
+  }
+  
+  // Returns a list of problems; empty when the definition can be registered
+  validateStrategyDefinition(definition: StrategyDefinition): string[] {
+    const errors: string[] = [];
+    if (!definition || typeof definition !== 'object') return ['definition must be an object'];
+    
+    if (typeof definition.name !== 'string' || !STRATEGY_NAME_PATTERN.test(definition.name)) {
+      errors.push('name must be 3-40 characters of lowercase letters, digits and underscores');
+    } else if (this.strategies.has(definition.name)) {
+      errors.push(`a strategy named "${definition.name}" is already registered`);
+    }
+    if (typeof definition.evaluate !== 'function') {
+      errors.push('evaluate must be a function');
+    } else {
+      const problem = strategySandbox.checkSource(definition.evaluate);
+      if (problem) errors.push(`evaluate must compile on its own to run in the sandbox: ${problem}`);
+    }
+    
+    const defaults = definition.defaults ?? {};
+    if (defaults.minConfidence !== undefined && !(defaults.minConfidence >= 0 && defaults.minConfidence <= 100)) {
+      errors.push('minConfidence must be between 0 and 100');
+    }
+    const invalidTimeframes = (defaults.timeframes ?? []).filter(tf => !isCandleTimeframe(tf));
+    if (invalidTimeframes.length > 0) {
+      errors.push(`unsupported timeframes: ${invalidTimeframes.join(', ')}`);
+    }
+    const confluence = defaults.confluence ?? {};
+    if (confluence.trendTimeframe !== undefined && !isCandleTimeframe(confluence.trendTimeframe)) {
+      errors.push(`unsupported confluence.trendTimeframe: ${confluence.trendTimeframe}`);
+    }
+    if (confluence.triggerTimeframe !== undefined && !isCandleTimeframe(confluence.triggerTimeframe)) {
+      errors.push(`unsupported confluence.triggerTimeframe: ${confluence.triggerTimeframe}`);
+    }
+    if (confluence.minAgreement !== undefined && !(confluence.minAgreement >= 0 && confluence.minAgreement <= 1)) {
+      errors.push('confluence.minAgreement must be between 0 and 1');
+    }
+    
+    const risk = defaults.riskParams ?? {};
+    Object.entries(risk).forEach(([key, value]) => {
+      if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+        errors.push(`riskParams.${key} must be a positive number`);
+      }
+    });
+    if (risk.maxLeverage !== undefined && risk.maxLeverage > DEFAULT_PARAMS.maxLeverage.crypto) {
+      errors.push(`riskParams.maxLeverage cannot exceed ${DEFAULT_PARAMS.maxLeverage.crypto}x`);
+    }
+    if (risk.stopLossPercent !== undefined && risk.stopLossPercent >= 100) {
+      errors.push('riskParams.stopLossPercent must be below 100');
+    }
+    
+    Object.entries(defaults.indicators?.periods ?? {}).forEach(([key, value]) => {
+      if (!Number.isInteger(value) || value < 1) {
+        errors.push(`indicators.periods.${key} must be a positive integer`);
+      }
+    });
+    Object.entries(defaults.indicators?.thresholds ?? {}).forEach(([key, value]) => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push(`indicators.thresholds.${key} must be a finite number`);
+      }
+    });
+    
+    Object.entries(definition.parameterSpace ?? {}).forEach(([key, values]) => {
+      if (!/^(periods|thresholds)\./.test(key) || !Array.isArray(values) || values.length === 0) {
+        errors.push(`parameterSpace.${key} must target periods.* or thresholds.* with at least one value`);
+      }
+    });
+    
+    return errors;
+  }
+  
+  // Run a strategy; built-ins are trusted and run in-thread, user code runs in
+  // the sandbox worker on copies of its inputs and within its time budget.
+  // Exceptions, timeouts and malformed signals are contained, and a strategy
+  // that keeps failing is quarantined
+  async evaluateStrategy(
+    strategyName: string,
+    bars: PriceBar[],
+    indicators: TechnicalIndicators,
+    regime: MarketRegime,
+    config: StrategyConfig = this.config.get(strategyName)!
+  ): Promise<TradingSignal | null> {
+    const entry = this.strategies.get(strategyName);
+    if (!entry || !config || entry.health.quarantined) return null;
+    
+    entry.health.calls++;
+    try {
+      const signal = entry.builtIn
+        ? entry.definition.evaluate(bars, indicators, regime, config)
+        : await strategySandbox.run(strategyName, [bars, indicators, regime, config]) as TradingSignal | null;
+      if (signal === null || signal === undefined) {
+        entry.health.consecutiveErrors = 0;
+        return null;
+      }
+      
+      const problem = this.validateSignal(signal);
+      if (problem) {
+        throw new Error(`returned an invalid signal: ${problem}`);
+      }
+      entry.health.consecutiveErrors = 0;
+      return { ...signal, indicators: { ...signal.indicators } };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      entry.health.errors++;
+      entry.health.consecutiveErrors++;
+      entry.health.lastError = message;
+      
+      if (entry.health.errors === 1) {
+        console.error(`Strategy "${strategyName}" failed:`, error);
+      }
+      if (entry.health.consecutiveErrors >= MAX_CONSECUTIVE_STRATEGY_ERRORS) {
+        entry.health.quarantined = true;
+        console.error(`Strategy "${strategyName}" quarantined after ${entry.health.consecutiveErrors} consecutive failures: ${message}`);
+      }
+      return null;
+    }
+  }
+  
+  getStrategyHealth(strategyName: string): StrategyHealth | undefined {
+    const health = this.strategies.get(strategyName)?.health;
+    return health ? { ...health } : undefined;
+  }
+  
+  // Lift a quarantine after the strategy has been fixed
+  resetStrategyHealth(strategyName: string) {
+    const entry = this.strategies.get(strategyName);
+    if (entry) {
+      entry.health = this.createHealth();
+    }
+  }
+  
+  private validateSignal(signal: TradingSignal): string | null {
+    if (typeof signal !== 'object') return 'not an object';
+    if (!SIGNAL_TYPES.includes(signal.type)) return `unknown type "${signal.type}"`;
+    if (signal.direction !== 'long' && signal.direction !== 'short') return `unknown direction "${signal.direction}"`;
+    if (!Number.isFinite(signal.strength) || signal.strength < 0 || signal.strength > 100) return 'strength must be 0-100';
+    if (!Number.isFinite(signal.price) || signal.price <= 0) return 'price must be positive';
+    if (typeof signal.reason !== 'string') return 'reason must be a string';
+    return null;
+  }
+  
+  private createHealth(): StrategyHealth {
+    return { calls: 0, errors: 0, consecutiveErrors: 0, quarantined: false };
+  }
+  
+  private defaultRiskParams(): RiskParameters {
+    return {
+      maxLeverage: DEFAULT_PARAMS.maxLeverage.crypto,
+      stopLossPercent: 2.0,
+      takeProfitPercent: 4.0,
+      maxPositionSize: 10.0, // 10% of account
+      accountRiskPercent: 1.0 // 1% risk per trade
+    };
   }
   
   // Validate trading plan against risk parameters
@@ -0,0 +1,543 @@
+// RiverBit Trading Assistant - Strategy Parameter Optimizer
+// Grid/random search over StrategyConfig periods and thresholds with walk-forward validation
+
+import { strategyEngine, type PriceBar, type StrategyConfig } from './strategyEngine';
+import { backtestEngine, type BacktestConfig } from './backtestEngine';
+import type { BacktestResult } from './performanceTracker';
+import { candleStore, isCandleTimeframe } from '../../services/CandleStore';
+
+// ============================================================================
+// TYPES AND INTERFACES
+// ============================================================================
+
+// Keys are 'periods.<name>' or 'thresholds.<name>' within StrategyConfig.indicators
+export type ParameterSpace = Record<string, number[]>;
+export type ParameterSet = Record<string, number>;
+
+export type OptimizationObjective = 'sharpe' | 'sortino' | 'totalReturn' | 'profitFactor';
+
+export interface OptimizationConfig {
+  strategyName: string;
+  symbol: string;
+  timeframe: string;
+  initialBalance: number;
+  startDate?: number;
+  endDate?: number;
+  method: 'grid' | 'random';
+  objective?: OptimizationObjective;
+  parameterSpace?: ParameterSpace;  // defaults to DEFAULT_PARAMETER_SPACES
+  maxEvaluations?: number;          // cap on parameter sets per fold
+  folds?: number;                   // walk-forward windows
+  inSampleRatio?: number;           // share of each window used for fitting
+  minTrades?: number;               // fewer in-sample trades disqualify a set
+  seed?: number;                    // random search reproducibility
+  backtest?: Partial<Pick<BacktestConfig, 'feeRate' | 'slippageBps' | 'fundingRatePer8h' | 'maxBarsInTrade'>>;
+}
+
+export interface MetricsSummary {
+  score: number | null; // null when the run had too few trades to rank
+  totalReturnPercent: number;
+  sharpeRatio: number;
+  sortinoRatio: number;
+  maxDrawdown: number;
+  winRate: number;
+  profitFactor: number;
+  totalTrades: number;
+}
+
+export interface OptimizationCandidate {
+  params: ParameterSet;
+  inSample: MetricsSummary;      // averaged across folds
+  outOfSample?: MetricsSummary;  // averaged across folds, for the replayed finalists only
+  degradation?: number;          // 1 - OOS score / IS score
+}
+
+export interface WalkForwardFold {
+  index: number;
+  inSampleStart: number;
+  inSampleEnd: number;
+  outOfSampleStart: number;
+  outOfSampleEnd: number;
+  bestParams: ParameterSet | null;
+  inSample: MetricsSummary | null;
+  outOfSample: MetricsSummary | null;
+}
+
+export interface OptimizationResult {
+  id: string;
+  strategyName: string;
+  symbol: string;
+  timeframe: string;
+  method: 'grid' | 'random';
+  objective: OptimizationObjective;
+  evaluations: number;
+  candidates: OptimizationCandidate[];
+  folds: WalkForwardFold[];
+  bestParams: ParameterSet | null;      // finalist with the best mean out-of-sample score
+  walkForwardEfficiency: number | null; // mean OOS score / mean IS score of fold winners
+  warnings: string[];
+  createdAt: number;
+  appliedAt?: number;
+}
+
+export type OptimizationProgress = (completed: number, total: number) => void;
+
+// Search spaces around each built-in strategy's defaults
+export const DEFAULT_PARAMETER_SPACES: Record<string, ParameterSpace> = {
+  trend_breakout: {
+    'periods.sma': [10, 20, 30, 50],
+    'periods.ema': [8, 12, 21],
+    'thresholds.volumeMultiplier': [1.2, 1.5, 2.0],
+    'thresholds.trendStrength': [50, 60, 70]
+  },
+  support_resistance: {
+    'periods.bb': [14, 20, 30],
+    'periods.rsi': [7, 14, 21],
+    'thresholds.rsiOversold': [20, 25, 30, 35],
+    'thresholds.rsiOverbought': [65, 70, 75, 80]
+  },
+  momentum_continuation: {
+    'periods.sma': [10, 20, 50],
+    'periods.rsi': [7, 14, 21],
+    'thresholds.minTrendStrength': [50, 60, 70],
+    'thresholds.pullbackRSILow': [35, 40, 45],
+    'thresholds.pullbackRSIHigh': [55, 60]
+  }
+};
+
+const WARMUP_BARS = 50;
+const TOP_CANDIDATES = 10;
+const MAX_STORED_RESULTS = 10;
+
+// ============================================================================
+// STRATEGY OPTIMIZER
+// ============================================================================
+
+export class StrategyOptimizer {
+  private readonly storageKey = 'riverbit_strategy_optimizations';
+  private results: OptimizationResult[] = [];
+
+  constructor() {
+    this.results = this.load();
+  }
+
+  // Load candles for the configured range and optimize over them
+  async optimize(config: OptimizationConfig, onProgress?: OptimizationProgress): Promise<OptimizationResult> {
+    if (!isCandleTimeframe(config.timeframe)) {
+      throw new Error(`Unsupported optimization timeframe: ${config.timeframe}`);
+    }
+    const bars = await candleStore.getBars(config.symbol, config.timeframe, {
+      from: config.startDate,
+      to: config.endDate
+    });
+    return this.optimizeOnBars(bars, config, onProgress);
+  }
+
+  // Walk-forward search: each fold fits on its in-sample window and is scored
+  // on the following out-of-sample window, which the search never sees
+  async optimizeOnBars(bars: PriceBar[], config: OptimizationConfig, onProgress?: OptimizationProgress): Promise<OptimizationResult> {
+    const baseConfig = strategyEngine.getStrategyConfig(config.strategyName);
+    if (!baseConfig) {
+      throw new Error(`Unknown strategy: ${config.strategyName}`);
+    }
+
+    const objective = config.objective ?? 'sharpe';
+    const minTrades = config.minTrades ?? 5;
+    const space = config.parameterSpace ??
+      DEFAULT_PARAMETER_SPACES[config.strategyName] ??
+      strategyEngine.getStrategyDefinition(config.strategyName)?.parameterSpace ?? {};
+    if (Object.keys(space).length === 0) {
+      throw new Error(`No parameter space defined for ${config.strategyName}`);
+    }
+
+    const warnings: string[] = [];
+    const { sets, truncated } = this.buildParameterSets(space, config);
+    if (truncated) {
+      warnings.push(`Grid has more combinations than maxEvaluations; ${sets.length} were sampled at random.`);
+    }
+
+    const windows = this.buildWindows(bars.length, config.folds ?? 3, config.inSampleRatio ?? 0.7);
+    if (windows.length === 0) {
+      throw new Error(`Not enough ${config.timeframe} candles for walk-forward analysis (${bars.length} bars)`);
+    }
+
+    // Finalists: the in-sample leaders plus every fold winner (at most one per fold)
+    let total = windows.length * (sets.length + Math.min(TOP_CANDIDATES + windows.length, sets.length));
+    let completed = 0;
+    const step = async () => {
+      completed++;
+      onProgress?.(completed, total);
+      // Yield so long searches don't freeze the UI
+      if (completed % 5 === 0) await new Promise(resolve => setTimeout(resolve, 0));
+    };
+
+    const evaluate = async (params: ParameterSet, slice: PriceBar[]): Promise<MetricsSummary | null> => {
+      try {
+        const result = await backtestEngine.run(slice, {
+          ...config.backtest,
+          strategyName: config.strategyName,
+          symbol: config.symbol,
+          timeframe: config.timeframe,
+          initialBalance: config.initialBalance,
+          strategyConfig: this.applyParameters(baseConfig, params),
+          warmupBars: WARMUP_BARS
+        });
+        return this.summarize(result, objective, minTrades);
+      } catch (error) {
+        console.warn('Backtest failed during optimization:', error);
+        return null;
+      }
+    };
+
+    // In-sample search on every fold
+    const inSampleRuns: (MetricsSummary | null)[][] = sets.map(() => []);
+    const folds: WalkForwardFold[] = [];
+    for (let f = 0; f < windows.length; f++) {
+      const w = windows[f];
+      const inSampleBars = bars.slice(w.isStart, w.isEnd);
+      let best: { index: number; summary: MetricsSummary } | null = null;
+
+      for (let i = 0; i < sets.length; i++) {
+        const summary = await evaluate(sets[i], inSampleBars);
+        inSampleRuns[i][f] = summary;
+        if (summary && summary.score !== null && (!best || summary.score > best.summary.score!)) {
+          best = { index: i, summary };
+        }
+        await step();
+      }
+
+      // Out-of-sample replay keeps WARMUP_BARS of context before the window
+      const outOfSample = best
+        ? await evaluate(sets[best.index], bars.slice(Math.max(0, w.oosStart - WARMUP_BARS), w.oosEnd))
+        : null;
+
+      folds.push({
+        index: f,
+        inSampleStart: bars[w.isStart].timestamp,
+        inSampleEnd: bars[w.isEnd - 1].timestamp,
+        outOfSampleStart: bars[w.oosStart].timestamp,
+        outOfSampleEnd: bars[w.oosEnd - 1].timestamp,
+        bestParams: best ? sets[best.index] : null,
+        inSample: best ? best.summary : null,
+        outOfSample
+      });
+    }
+
+    // Rank by mean in-sample score, then replay the finalists out of sample in every fold
+    const ranked = sets
+      .map((params, i) => ({ params, inSample: this.average(inSampleRuns[i]) }))
+      .filter((c): c is { params: ParameterSet; inSample: MetricsSummary } => c.inSample !== null)
+      .sort((a, b) => (b.inSample.score ?? -Infinity) - (a.inSample.score ?? -Infinity));
+
+    const foldWinners = new Set(folds.map(fold => fold.bestParams));
+    const finalists = ranked.filter((candidate, rank) => rank < TOP_CANDIDATES || foldWinners.has(candidate.params));
+    total = completed + finalists.length * windows.length;
+
+    const replayed = new Map<ParameterSet, OptimizationCandidate>();
+    for (const candidate of finalists) {
+      const oosRuns: (MetricsSummary | null)[] = [];
+      for (const w of windows) {
+        oosRuns.push(await evaluate(candidate.params, bars.slice(Math.max(0, w.oosStart - WARMUP_BARS), w.oosEnd)));
+      }
+      completed += windows.length;
+      onProgress?.(completed, total);
+      const outOfSample = this.average(oosRuns) ?? undefined;
+      replayed.set(candidate.params, {
+        ...candidate,
+        outOfSample,
+        degradation: this.degradation(candidate.inSample.score, outOfSample?.score ?? null)
+      });
+    }
+    const candidates: OptimizationCandidate[] = ranked.map(candidate => replayed.get(candidate.params) ?? candidate);
+
+    // Final parameters come from out-of-sample performance aggregated across
+    // folds, not from any single fold's in-sample winner
+    const selected = [...replayed.values()]
+      .filter(candidate => candidate.outOfSample?.score != null)
+      .sort((a, b) => b.outOfSample!.score! - a.outOfSample!.score!)[0];
+
+    const walkForwardEfficiency = this.walkForwardEfficiency(folds);
+    warnings.push(...this.detectOverfitting(folds, ranked, candidates, selected, walkForwardEfficiency, minTrades));
+
+    const result: OptimizationResult = {
+      id: `opt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      strategyName: config.strategyName,
+      symbol: config.symbol,
+      timeframe: config.timeframe,
+      method: config.method,
+      objective,
+      evaluations: completed,
+      candidates,
+      folds,
+      bestParams: selected?.params ?? null,
+      walkForwardEfficiency,
+      warnings,
+      createdAt: Date.now()
+    };
+
+    this.results.unshift(result);
+    this.results = this.results.slice(0, MAX_STORED_RESULTS);
+    this.save();
+    return result;
+  }
+
+  // Push a result's best parameters into the live strategy engine
+  applyResult(resultId: string, params?: ParameterSet): StrategyConfig {
+    const result = this.results.find(r => r.id === resultId);
+    if (!result) {
+      throw new Error(`Optimization result not found: ${resultId}`);
+    }
+    const selected = params ?? result.bestParams;
+    if (!selected) {
+      throw new Error('Optimization produced no eligible parameter set');
+    }
+
+    const current = strategyEngine.getStrategyConfig(result.strategyName);
+    if (!current) {
+      throw new Error(`Unknown strategy: ${result.strategyName}`);
+    }
+    const updated = this.applyParameters(current, selected);
+    strategyEngine.updateStrategyConfig(result.strategyName, { indicators: updated.indicators });
+
+    result.appliedAt = Date.now();
+    this.save();
+    return updated;
+  }
+
+  getResults(): OptimizationResult[] {
+    return [...this.results];
+  }
+
+  getResult(id: string): OptimizationResult | null {
+    return this.results.find(r => r.id === id) || null;
+  }
+
+  clearResults() {
+    this.results = [];
+    this.save();
+  }
+
+  // Copy a config with 'periods.x' / 'thresholds.x' values overridden
+  applyParameters(config: StrategyConfig, params: ParameterSet): StrategyConfig {
+    const periods = { ...config.indicators.periods };
+    const thresholds = { ...config.indicators.thresholds };
+    Object.entries(params).forEach(([key, value]) => {
+      const [group, name] = key.split('.');
+      if (group === 'periods') periods[name] = value;
+      else if (group === 'thresholds') thresholds[name] = value;
+    });
+    return { ...config, indicators: { periods, thresholds } };
+  }
+
+  // ============================================================================
+  // SEARCH HELPERS
+  // ============================================================================
+
+  private buildParameterSets(space: ParameterSpace, config: OptimizationConfig): { sets: ParameterSet[]; truncated: boolean } {
+    const keys = Object.keys(space);
+    const maxEvaluations = config.maxEvaluations ?? 100;
+    const random = this.createRandom(config.seed ?? Date.now());
+    const gridSize = keys.reduce((size, key) => size * space[key].length, 1);
+
+    if (config.method === 'grid' && gridSize <= maxEvaluations) {
+      let sets: ParameterSet[] = [{}];
+      keys.forEach(key => {
+        sets = sets.flatMap(set => space[key].map(value => ({ ...set, [key]: value })));
+      });
+      return { sets, truncated: false };
+    }
+
+    // Random search (or an oversized grid): sample distinct combinations
+    const target = Math.min(maxEvaluations, gridSize);
+    const seen = new Set<string>();
+    const sets: ParameterSet[] = [];
+    let attempts = 0;
+    while (sets.length < target && attempts < target * 20) {
+      attempts++;
+      const set: ParameterSet = {};
+      keys.forEach(key => {
+        const values = space[key];
+        set[key] = values[Math.floor(random() * values.length)];
+      });
+      const id = JSON.stringify(set);
+      if (!seen.has(id)) {
+        seen.add(id);
+        sets.push(set);
+      }
+    }
+    return { sets, truncated: config.method === 'grid' };
+  }
+
+  // Rolling windows whose out-of-sample segments tile the end of the series
+  private buildWindows(length: number, folds: number, inSampleRatio: number) {
+    const count = Math.max(1, Math.floor(folds));
+    const ratio = Math.min(0.9, Math.max(0.5, inSampleRatio));
+    const windowLength = Math.floor(length / (1 + (count - 1) * (1 - ratio)));
+    const isLength = Math.floor(windowLength * ratio);
+    const oosLength = windowLength - isLength;
+
+    // Each segment needs room for indicator warmup plus some trading bars
+    if (isLength < WARMUP_BARS * 2 || oosLength < 10) return [];
+
+    return Array.from({ length: count }, (_, k) => {
+      const isStart = k * oosLength;
+      return {
+        isStart,
+        isEnd: isStart + isLength,
+        oosStart: isStart + isLength,
+        oosEnd: Math.min(length, isStart + windowLength)
+      };
+    });
+  }
+
+  private summarize(result: BacktestResult, objective: OptimizationObjective, minTrades: number): MetricsSummary {
+    const raw = {
+      sharpe: result.sharpeRatio,
+      sortino: result.sortinoRatio ?? 0,
+      totalReturn: result.totalReturnPercent ?? 0,
+      profitFactor: result.profitFactor
+    }[objective];
+
+    return {
+      score: result.totalTrades >= minTrades && Number.isFinite(raw) ? raw : null,
+      totalReturnPercent: result.totalReturnPercent ?? 0,
+      sharpeRatio: result.sharpeRatio,
+      sortinoRatio: result.sortinoRatio ?? 0,
+      maxDrawdown: result.maxDrawdown,
+      winRate: result.winRate,
+      profitFactor: result.profitFactor,
+      totalTrades: result.totalTrades
+    };
+  }
+
+  // Mean of fold summaries; the score is only kept when every fold was rankable
+  private average(runs: (MetricsSummary | null)[]): MetricsSummary | null {
+    const valid = runs.filter((run): run is MetricsSummary => run !== null);
+    if (valid.length === 0) return null;
+    const mean = (pick: (run: MetricsSummary) => number) => valid.reduce((sum, run) => sum + pick(run), 0) / valid.length;
+    const scored = valid.every(run => run.score !== null) && valid.length === runs.length;
+
+    return {
+      score: scored ? mean(run => run.score!) : null,
+      totalReturnPercent: mean(run => run.totalReturnPercent),
+      sharpeRatio: mean(run => run.sharpeRatio),
+      sortinoRatio: mean(run => run.sortinoRatio),
+      maxDrawdown: Math.max(...valid.map(run => run.maxDrawdown)),
+      winRate: mean(run => run.winRate),
+      profitFactor: mean(run => run.profitFactor),
+      totalTrades: valid.reduce((sum, run) => sum + run.totalTrades, 0)
+    };
+  }
+
+  private degradation(inSample: number | null, outOfSample: number | null): number | undefined {
+    if (inSample === null || outOfSample === null || inSample <= 0) return undefined;
+    return 1 - outOfSample / inSample;
+  }
+
+  private walkForwardEfficiency(folds: WalkForwardFold[]): number | null {
+    const scored = folds.filter(fold => fold.inSample?.score != null && fold.outOfSample);
+    if (scored.length === 0) return null;
+    const isMean = scored.reduce((sum, fold) => sum + fold.inSample!.score!, 0) / scored.length;
+    const oosMean = scored.reduce((sum, fold) => sum + (fold.outOfSample!.score ?? 0), 0) / scored.length;
+    return isMean > 0 ? oosMean / isMean : null;
+  }
+
+  private detectOverfitting(
+    folds: WalkForwardFold[],
+    ranked: { params: ParameterSet; inSample: MetricsSummary }[],
+    candidates: OptimizationCandidate[],
+    selected: OptimizationCandidate | undefined,
+    efficiency: number | null,
+    minTrades: number
+  ): string[] {
+    const warnings: string[] = [];
+
+    if (efficiency !== null && efficiency < 0.5) {
+      warnings.push(`Walk-forward efficiency is ${(efficiency * 100).toFixed(0)}%: out-of-sample results lose most of the in-sample edge.`);
+    }
+
+    const flipped = folds.filter(fold =>
+      (fold.inSample?.totalReturnPercent ?? 0) > 0 && (fold.outOfSample?.totalReturnPercent ?? 0) < 0);
+    if (flipped.length > 0) {
+      warnings.push(`${flipped.length} of ${folds.length} folds were profitable in-sample but lost money out-of-sample.`);
+    }
+
+    const winners = new Set(folds.filter(fold => fold.bestParams).map(fold => JSON.stringify(fold.bestParams)));
+    if (folds.length > 1 && winners.size === folds.length) {
+      warnings.push('Every fold picked different parameters; the optimum is unstable across periods.');
+    }
+
+    const eligible = ranked.filter(c => c.inSample.score !== null);
+    if (eligible.length === 0) {
+      warnings.push(`No parameter set reached ${minTrades} trades in every in-sample window.`);
+    } else {
+      const top = eligible[0];
+      if (top.inSample.score! <= 0) {
+        warnings.push('Even the best parameter set scored at or below zero in-sample; the strategy shows no edge on this data.');
+      }
+
+      // A lone spike well above its neighbours tends not to generalize
+      const scores = eligible.map(c => c.inSample.score!).sort((a, b) => a - b);
+      const median = scores[Math.floor(scores.length / 2)];
+      const mad = scores.map(s => Math.abs(s - median)).sort((a, b) => a - b)[Math.floor(scores.length / 2)];
+      if (scores.length >= 5 && mad > 0 && (top.inSample.score! - median) / mad > 5) {
+        warnings.push('The best score is an outlier relative to the rest of the search space.');
+      }
+    }
+
+    const leader = candidates[0];
+    if (leader?.degradation !== undefined && leader.degradation > 0.5) {
+      warnings.push(`The top in-sample set degrades by ${(leader.degradation * 100).toFixed(0)}% out-of-sample.`);
+    }
+
+    if (eligible.length > 0 && !selected) {
+      warnings.push(`No finalist reached ${minTrades} trades in every out-of-sample window; no parameters were selected.`);
+    } else if (selected && selected.outOfSample!.score! <= 0) {
+      warnings.push('The best out-of-sample set scored at or below zero; the edge did not carry over to unseen data.');
+    }
+
+    return warnings;
+  }
+
+  // Deterministic PRNG (mulberry32) so random searches can be reproduced
+  private createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6D2B79F5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  // ============================================================================
+  // PERSISTENCE
+  // ============================================================================
+
+  private load(): OptimizationResult[] {
+    try {
+      if (typeof localStorage === 'undefined') return [];
+      const stored = localStorage.getItem(this.storageKey);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Failed to load optimization results:', error);
+      return [];
+    }
+  }
+
+  private save() {
+    try {
+      if (typeof localStorage === 'undefined') return;
+      localStorage.setItem(this.storageKey, JSON.stringify(this.results));
+    } catch (error) {
+      console.error('Failed to save optimization results:', error);
+    }
+  }
+}
+
+// ============================================================================
+// EXPORT DEFAULT INSTANCE
+// ============================================================================
+
+export const strategyOptimizer = new StrategyOptimizer();
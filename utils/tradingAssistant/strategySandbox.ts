@@ -0,0 +1,221 @@
+// RiverBit Trading Assistant - Strategy Sandbox
+// Runs user-defined strategy functions in a dedicated Web Worker with a time budget per call
+
+// ============================================================================
+// TYPES AND INTERFACES
+// ============================================================================
+
+// Any self-contained function: it is shipped to the worker as source text
+export type SandboxedFunction = (...args: any[]) => unknown;
+
+type SandboxRequest =
+  | { id: number; type: 'load'; name: string; source: string }
+  | { id: number; type: 'unload'; name: string }
+  | { id: number; type: 'run'; name: string; args: unknown[] };
+
+interface SandboxResponse {
+  id: number;
+  ok: boolean;
+  result?: unknown;
+  error?: string;
+}
+
+interface PendingCall {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export const DEFAULT_STRATEGY_TIME_BUDGET_MS = 250;
+
+// Worker body. Sources are compiled on their own, so a function that refers to
+// anything outside its body fails here instead of reading main-thread state.
+// Load and unload replies use id 0 and are not awaited; messages are handled
+// in order, so a load always lands before the first run of that function.
+const WORKER_SOURCE = `
+const functions = new Map();
+const compile = (source) => {
+  try {
+    return new Function('"use strict"; return (' + source + ');')();
+  } catch (error) {
+    // Method shorthand (\`evaluate(bars) { ... }\`) stringifies without the function keyword
+    return new Function('"use strict"; return (function ' + source + ');')();
+  }
+};
+self.onmessage = async (event) => {
+  const { id, type, name, source, args } = event.data;
+  try {
+    if (type === 'load') {
+      const fn = compile(source);
+      if (typeof fn !== 'function') throw new Error('source does not evaluate to a function');
+      functions.set(name, fn);
+      self.postMessage({ id, ok: true, result: null });
+    } else if (type === 'unload') {
+      functions.delete(name);
+      self.postMessage({ id, ok: true, result: null });
+    } else {
+      const fn = functions.get(name);
+      if (!fn) throw new Error('"' + name + '" is not loaded in the sandbox');
+      const result = await fn(...args);
+      self.postMessage({ id, ok: true, result: result === undefined ? null : result });
+    }
+  } catch (error) {
+    self.postMessage({ id, ok: false, error: error instanceof Error ? error.message : String(error) });
+  }
+};
+`;
+
+// ============================================================================
+// STRATEGY SANDBOX
+// ============================================================================
+
+// Calls are serialized, so the time budget covers one call at a time. A call
+// that overruns it terminates the worker (the only way to stop a runaway loop);
+// the next call starts a fresh worker with every loaded function. Where Web
+// Workers are unavailable (tests, server rendering) functions run in-thread on
+// cloned arguments and an overrun is only detected after the call returns.
+export class StrategySandbox {
+  private functions = new Map<string, SandboxedFunction>();
+  private worker: Worker | null = null;
+  private workerUrl: string | null = null;
+  private pending = new Map<number, PendingCall>();
+  private nextId = 1;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private timeBudgetMs: number = DEFAULT_STRATEGY_TIME_BUDGET_MS) {}
+
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined' && typeof Blob !== 'undefined' &&
+      typeof URL !== 'undefined' && typeof URL.createObjectURL === 'function';
+  }
+
+  // Syntax problem when the function cannot be rebuilt from its source alone, else null
+  checkSource(fn: SandboxedFunction): string | null {
+    const source = fn.toString();
+    if (/\{\s*\[native code\]\s*\}$/.test(source)) return 'native or bound functions cannot be sandboxed';
+    try {
+      new Function(`"use strict"; return (${source});`);
+      return null;
+    } catch {
+      try {
+        new Function(`"use strict"; return (function ${source});`);
+        return null;
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+      }
+    }
+  }
+
+  load(name: string, fn: SandboxedFunction) {
+    this.functions.set(name, fn);
+    this.worker?.postMessage({ id: 0, type: 'load', name, source: fn.toString() } satisfies SandboxRequest);
+  }
+
+  unload(name: string) {
+    this.functions.delete(name);
+    this.worker?.postMessage({ id: 0, type: 'unload', name } satisfies SandboxRequest);
+  }
+
+  has(name: string): boolean {
+    return this.functions.has(name);
+  }
+
+  getTimeBudget(): number {
+    return this.timeBudgetMs;
+  }
+
+  setTimeBudget(ms: number) {
+    if (!(ms > 0)) throw new Error('Time budget must be positive');
+    this.timeBudgetMs = ms;
+  }
+
+  // Run a loaded function; rejects when it throws, returns something that
+  // cannot be cloned, or overruns the time budget
+  run(name: string, args: unknown[]): Promise<unknown> {
+    const call = this.queue.then(() => this.dispatch(name, args));
+    this.queue = call.catch(() => undefined);
+    return call;
+  }
+
+  // Stop the worker; the next call starts a new one
+  terminate() {
+    this.worker?.terminate();
+    this.worker = null;
+    if (this.workerUrl) {
+      URL.revokeObjectURL(this.workerUrl);
+      this.workerUrl = null;
+    }
+    const error = new Error('Strategy sandbox was restarted');
+    this.pending.forEach(call => {
+      clearTimeout(call.timer);
+      call.reject(error);
+    });
+    this.pending.clear();
+  }
+
+  private async dispatch(name: string, args: unknown[]): Promise<unknown> {
+    const fn = this.functions.get(name);
+    if (!fn) throw new Error(`"${name}" is not loaded in the sandbox`);
+    if (!StrategySandbox.isSupported()) return this.runInThread(fn, args);
+
+    const worker = this.getWorker();
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        this.terminate();
+        reject(new Error(`exceeded its ${this.timeBudgetMs}ms time budget`));
+      }, this.timeBudgetMs);
+      this.pending.set(id, { resolve, reject, timer });
+      try {
+        worker.postMessage({ id, type: 'run', name, args } satisfies SandboxRequest);
+      } catch (error) {
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  private async runInThread(fn: SandboxedFunction, args: unknown[]): Promise<unknown> {
+    const startedAt = Date.now();
+    const result = await fn(...structuredClone(args));
+    const elapsed = Date.now() - startedAt;
+    if (elapsed > this.timeBudgetMs) {
+      throw new Error(`took ${elapsed}ms, over its ${this.timeBudgetMs}ms time budget`);
+    }
+    return result === undefined ? null : structuredClone(result);
+  }
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    this.workerUrl = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+    const worker = new Worker(this.workerUrl);
+    worker.onmessage = (event: MessageEvent<SandboxResponse>) => {
+      const { id, ok, result, error } = event.data;
+      const call = this.pending.get(id);
+      if (!call) {
+        if (!ok) console.error('Strategy sandbox:', error);
+        return;
+      }
+      clearTimeout(call.timer);
+      this.pending.delete(id);
+      if (ok) call.resolve(result);
+      else call.reject(new Error(error));
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      console.error('Strategy sandbox worker failed:', event.message);
+      this.terminate();
+    };
+
+    this.functions.forEach((fn, name) => {
+      worker.postMessage({ id: 0, type: 'load', name, source: fn.toString() } satisfies SandboxRequest);
+    });
+    this.worker = worker;
+    return worker;
+  }
+}
+
+export const strategySandbox = new StrategySandbox();
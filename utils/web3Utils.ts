@@ -8,6 +8,7 @@ export class Web3Manager {
   private riverbitContract: ethers.Contract | null = null;
   private usdcContract: ethers.Contract | null = null;
   private chainId: number | null = null;
+  private address: string | null = null;
 
   // 连接钱包
   async connectWallet(): Promise<{ address: string; chainId: number }> {
@@ -25,6 +26,7 @@ export class Web3Manager {
       const address = await this.signer.getAddress();
       const network = await this.provider.getNetwork();
       this.chainId = Number(network.chainId);
+      this.address = address;
       
       // 初始化合约
       this.initializeContracts();
@@ -49,6 +51,7 @@ export class Web3Manager {
     this.riverbitContract = null;
     this.usdcContract = null;
     this.chainId = null;
+    this.address = null;
   }
 
   // 初始化合约
@@ -138,6 +141,17 @@ export class Web3Manager {
     return formatUSDC(balance);
   }
 
+  // 任意 ERC-20 余额（按代币精度换算）
+  async getTokenBalance(token: string, address: string): Promise<number> {
+    if (!this.provider) throw new Error('Wallet not connected');
+    const contract = new ethers.Contract(token, [
+      'function balanceOf(address owner) view returns (uint256)',
+      'function decimals() view returns (uint8)'
+    ], this.provider);
+    const [balance, decimals] = await Promise.all([contract.balanceOf(address), contract.decimals()]);
+    return Number(ethers.formatUnits(balance, decimals));
+  }
+
   async approveUSDC(amount: number): Promise<ethers.ContractTransaction> {
     if (!this.usdcContract || !this.riverbitContract) {
       throw new Error('Contracts not initialized');
@@ -225,6 +239,15 @@ export class Web3Manager {
     };
   }
 
+  // S-Auth 结算合约的下一个可用 nonce（nonces(user)）
+  async getSAuthNonce(contract: string, address: string): Promise<number> {
+    if (!this.provider) throw new Error('Wallet not connected');
+    const settlement = new ethers.Contract(contract, [
+      'function nonces(address user) view returns (uint256)'
+    ], this.provider);
+    return Number(await settlement.nonces(address));
+  }
+
   async getPosition(address: string, symbol: string): Promise<number> {
     if (!this.riverbitContract) throw new Error('RiverBit contract not initialized');
     
@@ -261,6 +284,17 @@ export class Web3Manager {
     return Number(price) / 1e8; // 价格是8位精度
   }
 
+  // EIP-712签名 (ethers自动推导EIP712Domain类型)
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string> {
+    if (!this.signer) throw new Error('Wallet not connected');
+    const { EIP712Domain, ...messageTypes } = types;
+    return await this.signer.signTypedData(domain, messageTypes, value);
+  }
+
   // 监听合约事件
   setupContractEventListeners(callbacks: {
     onDeposit?: (user: string, amount: number, txHash: string) => void;
@@ -381,6 +415,10 @@ export class Web3Manager {
     return this.chainId;
   }
 
+  get currentAddress(): string | null {
+    return this.address;
+  }
+
   get contracts() {
     return {
       riverbit: this.riverbitContract,